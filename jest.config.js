@@ -21,6 +21,8 @@ const config = {
     '^@/lib/(.*)$': '<rootDir>/src/lib/$1',
     '^@/components/(.*)$': '<rootDir>/src/components/$1',
     '^@/app/(.*)$': '<rootDir>/src/app/$1',
+    // jsdom would resolve yaml's browser build, which is ESM only
+    '^yaml$': '<rootDir>/node_modules/yaml/dist/index.js',
   },
   
   // Test patterns
@@ -68,6 +70,12 @@ const config = {
       lines: 95,
       statements: 95,
     },
+    'src/lib/crawler/**': {
+      branches: 95,
+      functions: 95,
+      lines: 95,
+      statements: 95,
+    },
     // Other modules will be added as they're implemented with TDD
   },
   
@@ -51,6 +51,17 @@ jest.mock('@clerk/nextjs', () => ({
   UserButton: () => <div data-testid="user-button">User Button</div>,
 }))
 
+jest.mock('@clerk/nextjs/server', () => ({
+  auth: jest.fn(() => ({
+    userId: 'test-user-id',
+    sessionId: 'test-session-id',
+  })),
+  currentUser: jest.fn(async () => ({
+    id: 'test-user-id',
+    emailAddresses: [{ emailAddress: 'test@example.com' }],
+  })),
+}))
+
 // Mock Prisma Client
 jest.mock('@/lib/prisma', () => ({
   __esModule: true,
@@ -58,9 +69,13 @@ jest.mock('@/lib/prisma', () => ({
     audit: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
+      aggregate: jest.fn(),
+      updateMany: jest.fn(),
     },
     crawlResult: {
       findMany: jest.fn(),
@@ -69,13 +84,62 @@ jest.mock('@/lib/prisma', () => ({
       update: jest.fn(),
       delete: jest.fn(),
     },
+    finding: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    site: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
     recommendation: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
     },
+    recommendationVersion: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    auditSchedule: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    heuristicRule: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    siteRuleOverride: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    webhookDelivery: {
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    screenshot: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+    },
   },
 }))
 
@@ -124,20 +188,22 @@ jest.mock('playwright', () => ({
   },
 }))
 
-// Setup DOM environment
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: jest.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(), // deprecated
-    removeListener: jest.fn(), // deprecated
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-})
+// Setup DOM environment (API route tests run in the node environment)
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: jest.fn().mockImplementation(query => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(), // deprecated
+      removeListener: jest.fn(), // deprecated
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  })
+}
 
 // Mock fetch for API testing
 global.fetch = jest.fn(() =>
@@ -21,6 +21,7 @@ const nextConfig = {
   // Enable experimental features for better DX
   experimental: {
     typedRoutes: true,
+    instrumentationHook: true, // src/instrumentation.ts starts the audit scheduler
   },
   
   // Environment variables
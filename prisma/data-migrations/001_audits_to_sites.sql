@@ -0,0 +1,87 @@
+-- Move audits from before sites onto sites
+--
+-- Audits used to store their storeUrl; they now belong to a Site. This script
+-- creates one site per user and storefront origin of their audits, points
+-- every audit at its site and only then drops audits.storeUrl, so no audit,
+-- finding or recommendation is lost. Run it before `prisma db push`, which
+-- adds the keys and indexes of the current schema:
+--
+--   npm run db:migrate-sites && npm run db:push
+--
+-- Databases without audits.storeUrl are left untouched, so running it twice is safe.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'audits' AND column_name = 'storeUrl'
+  ) THEN
+    RAISE NOTICE 'audits.storeUrl is gone, nothing to migrate';
+    RETURN;
+  END IF;
+
+  CREATE TABLE IF NOT EXISTS "sites" (
+    "id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "name" TEXT,
+    "description" TEXT,
+    "settings" JSONB NOT NULL DEFAULT '{}',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "lastCrawledAt" TIMESTAMP(3),
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "sites_pkey" PRIMARY KEY ("id")
+  );
+
+  ALTER TABLE "audits" ADD COLUMN IF NOT EXISTS "siteId" TEXT;
+
+  -- The origin the app keys sites by (see normalizeStoreUrl): lower-case
+  -- scheme and host, without path or default port
+  CREATE TEMPORARY TABLE "audit_origins" ON COMMIT DROP AS
+  SELECT
+    "id" AS "auditId",
+    "userId",
+    coalesce(regexp_replace(
+      lower(substring("storeUrl" from '^[A-Za-z][A-Za-z0-9+.-]*://[^/?#]+')),
+      '^(https://[^/]+):443$|^(http://[^/]+):80$',
+      '\1\2'
+    ), "storeUrl") AS "url",
+    "status",
+    "createdAt",
+    "completedAt"
+  FROM "audits"
+  WHERE "siteId" IS NULL;
+
+  -- Sites a user registered before this ran are reused
+  INSERT INTO "sites" ("id", "url", "userId", "createdAt", "updatedAt", "lastCrawledAt")
+  SELECT 'site_' || md5(grouped."userId" || ' ' || grouped."url"), grouped.*
+  FROM (
+    SELECT
+      "url",
+      "userId",
+      min("createdAt"),
+      CURRENT_TIMESTAMP,
+      max("completedAt") FILTER (WHERE "status" = 'completed')
+    FROM "audit_origins"
+    GROUP BY "userId", "url"
+  ) AS grouped
+  WHERE NOT EXISTS (
+    SELECT 1 FROM "sites" WHERE "sites"."userId" = grouped."userId" AND "sites"."url" = grouped."url"
+  );
+
+  UPDATE "audits" AS audit
+  SET "siteId" = site."id"
+  FROM "audit_origins" AS origin
+  JOIN LATERAL (
+    SELECT "id" FROM "sites"
+    WHERE "sites"."userId" = origin."userId" AND "sites"."url" = origin."url"
+    ORDER BY "createdAt"
+    LIMIT 1
+  ) AS site ON true
+  WHERE audit."id" = origin."auditId";
+
+  ALTER TABLE "audits" ALTER COLUMN "siteId" SET NOT NULL;
+  ALTER TABLE "audits" DROP COLUMN "storeUrl";
+END
+$$;
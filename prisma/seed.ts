@@ -1,79 +1,37 @@
 import { PrismaClient } from '@prisma/client'
+import { createDefaultEngine } from '../src/lib/heuristics/engine'
 
 const prisma = new PrismaClient()
 
 async function main() {
   console.log('🌱 Starting database seeding...')
 
-  // Seed heuristic rules
-  const heuristicRules = [
-    {
-      id: 'trust-signals',
-      name: 'Trust Signals Presence',
-      description: 'Checks for trust signals like security badges, guarantees, and testimonials',
-      category: 'trust',
-      severity: 'high',
-      enabled: true,
-    },
-    {
-      id: 'cta-visibility',
-      name: 'Call-to-Action Visibility',
-      description: 'Ensures CTAs are prominent and clearly visible',
-      category: 'conversion',
-      severity: 'critical',
-      enabled: true,
-    },
-    {
-      id: 'product-images',
-      name: 'Product Image Quality',
-      description: 'Checks for high-quality product images and multiple angles',
-      category: 'conversion',
-      severity: 'high',
-      enabled: true,
-    },
-    {
-      id: 'loading-speed',
-      name: 'Page Loading Speed',
-      description: 'Measures and evaluates page loading performance',
-      category: 'performance',
-      severity: 'high',
-      enabled: true,
-    },
-    {
-      id: 'mobile-responsive',
-      name: 'Mobile Responsiveness',
-      description: 'Ensures the site works well on mobile devices',
-      category: 'usability',
-      severity: 'critical',
-      enabled: true,
-    },
-    {
-      id: 'navigation-clarity',
-      name: 'Navigation Clarity',
-      description: 'Evaluates the clarity and intuitiveness of site navigation',
-      category: 'usability',
-      severity: 'medium',
-      enabled: true,
-    },
-    {
-      id: 'accessibility-compliance',
-      name: 'Accessibility Compliance',
-      description: 'Checks for basic accessibility features and compliance',
-      category: 'accessibility',
-      severity: 'medium',
-      enabled: true,
-    },
-  ]
+  // Seed heuristic rules: one row per built-in rule, holding its global configuration.
+  // Updates only refresh the metadata so settings edited by admins survive reseeding.
+  const heuristicRules = createDefaultEngine().getRules()
 
   console.log('📝 Creating heuristic rules...')
-  for (const rule of heuristicRules) {
+  for (const { ruleId, name, description, category } of heuristicRules) {
     await prisma.heuristicRule.upsert({
-      where: { id: rule.id },
-      update: rule,
-      create: rule,
+      where: { id: ruleId },
+      update: { name, description, category },
+      create: { id: ruleId, name, description, category },
     })
   }
 
+  // Rows of rules that are no longer built in cannot be applied to audits, but they
+  // hold admin settings, so they are only deleted on request: npm run db:seed -- --prune
+  const staleRules = { id: { notIn: heuristicRules.map(rule => rule.ruleId) } }
+  if (process.argv.includes('--prune')) {
+    const { count } = await prisma.heuristicRule.deleteMany({ where: staleRules })
+    console.log(`🗑️  Pruned ${count} rules that are no longer built in`)
+  } else {
+    const count = await prisma.heuristicRule.count({ where: staleRules })
+    if (count > 0) {
+      console.log(`ℹ️  Kept ${count} rules that are no longer built in, run with --prune to delete them`)
+    }
+  }
+
   console.log('✅ Database seeding completed!')
 }
 
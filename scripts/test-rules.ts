@@ -0,0 +1,40 @@
+#!/usr/bin/env tsx
+
+/**
+ * Declarative rule test harness
+ * Runs rule files against their fixture pages (rules/fixtures/<name>.yaml) and
+ * exits with 1 when a rule file is invalid or a fixture gets another result.
+ *
+ * Usage: npm run rules:test [-- rules/page-load-time.yaml ...]
+ * Without arguments every rule file in HEURISTIC_RULES_DIR (default rules/) is run.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { testRuleFile } from '../src/lib/heuristics/rule-harness'
+
+const RULE_FILE_PATTERN = /\.(json|ya?ml)$/
+
+function ruleFiles(args: string[]): string[] {
+  if (args.length > 0) return args
+  const dir = path.resolve(process.env.HEURISTIC_RULES_DIR ?? 'rules')
+  return fs.readdirSync(dir).filter(name => RULE_FILE_PATTERN.test(name)).sort().map(name => path.join(dir, name))
+}
+
+let failed = 0
+for (const file of ruleFiles(process.argv.slice(2))) {
+  try {
+    const { ruleId, results } = testRuleFile(file)
+    console.log(`${ruleId} (${path.relative(process.cwd(), file)})`)
+    for (const result of results) {
+      console.log(`  ${result.passed ? '✓' : '✗'} ${result.name}`)
+      result.failures.forEach(failure => console.log(`      ${failure}`))
+      if (!result.passed) failed++
+    }
+  } catch (error) {
+    console.error(`✗ ${error instanceof Error ? error.message : String(error)}`)
+    failed++
+  }
+}
+
+process.exit(failed > 0 ? 1 : 0)
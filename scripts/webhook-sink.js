@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+
+/**
+ * Local webhook sink for testing regression alerts
+ * Listens for audit webhooks, verifies their X-CRO-Signature with WEBHOOK_SECRET
+ * and prints each event.
+ *
+ * Usage: WEBHOOK_SECRET=whsec_... npm run webhook:sink [-- --port 4000 --status 500]
+ * --status answers every request with that status, to watch deliveries retry.
+ */
+
+const crypto = require('crypto')
+const http = require('http')
+
+const TOLERANCE_SECONDS = 5 * 60
+
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`)
+  return index !== -1 && process.argv[index + 1] ? Number(process.argv[index + 1]) : fallback
+}
+
+function verify(secret, header, body) {
+  const parts = Object.fromEntries((header || '').split(',').map(part => part.split('=', 2)))
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) {
+    return false
+  }
+  const expected = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest()
+  const received = Buffer.from(parts.v1 || '', 'hex')
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected)
+}
+
+const secret = process.env.WEBHOOK_SECRET
+const port = option('port', 4000)
+const status = option('status', 200)
+
+if (!secret) {
+  console.warn('⚠️  WEBHOOK_SECRET is not set; signatures will not be checked')
+}
+
+http
+  .createServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => (body += chunk))
+    request.on('end', () => {
+      const signed = secret ? verify(secret, request.headers['x-cro-signature'], body) : null
+      console.log(`\n📬 ${request.method} ${request.url} ${request.headers['x-cro-event'] || ''} (delivery ${request.headers['x-cro-delivery'] || 'n/a'})`)
+      console.log(signed === null ? '   signature not checked' : signed ? '   ✅ signature valid' : '   ❌ signature invalid')
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2))
+      } catch {
+        console.log(body)
+      }
+
+      response.writeHead(signed === false ? 401 : status, { 'Content-Type': 'application/json' })
+      response.end(JSON.stringify({ received: signed !== false }))
+    })
+  })
+  .listen(port, () => console.log(`🪝 Webhook sink listening on http://localhost:${port}`))
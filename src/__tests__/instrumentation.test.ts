@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for Server Startup
+ * The job runner and the scheduler are mocked; they have their own tests
+ */
+
+import { getAuditJobRunner } from '@/lib/audit/job-runner';
+import { getAuditScheduler } from '@/lib/schedules/scheduler';
+import { register } from '../instrumentation';
+
+jest.mock('@/lib/audit/job-runner', () => ({
+  getAuditJobRunner: jest.fn()
+}));
+
+jest.mock('@/lib/schedules/scheduler', () => ({
+  getAuditScheduler: jest.fn()
+}));
+
+describe('Server Startup - TDD', () => {
+  const env = process.env;
+  let scheduler: { start: jest.Mock };
+
+  beforeEach(() => {
+    scheduler = { start: jest.fn() };
+    (getAuditScheduler as jest.Mock).mockReturnValue(scheduler);
+    process.env = { ...env, NEXT_RUNTIME: 'nodejs' };
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('RED Phase: Runtimes', () => {
+    it('should not start the scheduler in the edge runtime', async () => {
+      // Arrange
+      process.env.NEXT_RUNTIME = 'edge';
+
+      // Act
+      await register();
+
+      // Assert
+      expect(getAuditJobRunner).not.toHaveBeenCalled();
+      expect(getAuditScheduler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Job Runner', () => {
+    it('should start the job runner to recover interrupted and pending audits', async () => {
+      // Arrange
+      process.env.AUDIT_SCHEDULER = 'off';
+
+      // Act
+      await register();
+
+      // Assert
+      expect(getAuditJobRunner).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('GREEN Phase: Scheduler', () => {
+    it('should start the audit scheduler in the Node.js server', async () => {
+      // Act
+      await register();
+
+      // Assert
+      expect(scheduler.start).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave the scheduler off when disabled', async () => {
+      // Arrange
+      process.env.AUDIT_SCHEDULER = 'off';
+
+      // Act
+      await register();
+
+      // Assert
+      expect(scheduler.start).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * TDD Test Suite for the rule configuration page
+ * The editor is mocked; it has its own tests
+ */
+
+import { render, screen } from '@testing-library/react'
+import RuleConfigPage from '../page'
+
+jest.mock('@/components/RuleConfigEditor', () => ({
+  __esModule: true,
+  default: ({ siteId }: { siteId?: string }) => <p>Editor of {siteId ?? 'global'}</p>
+}))
+
+describe('RuleConfigPage - TDD', () => {
+  describe('GREEN Phase: Layout', () => {
+    it('should edit the global configuration by default', () => {
+      // Act
+      render(<RuleConfigPage searchParams={{}} />)
+
+      // Assert
+      expect(screen.getByRole('heading', { name: 'Rule configuration' })).toBeInTheDocument()
+      expect(screen.getByText('Editor of global')).toBeInTheDocument()
+    })
+
+    it('should edit the overrides of the chosen site', () => {
+      // Act
+      render(<RuleConfigPage searchParams={{ siteId: 'site-1' }} />)
+
+      // Assert
+      expect(screen.getByRole('heading', { name: 'Rule overrides for site site-1' })).toBeInTheDocument()
+      expect(screen.getByText('Editor of site-1')).toBeInTheDocument()
+    })
+  })
+})
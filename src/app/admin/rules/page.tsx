@@ -0,0 +1,28 @@
+import RuleConfigEditor from '@/components/RuleConfigEditor'
+
+interface RuleConfigPageProps {
+  searchParams: { siteId?: string }
+}
+
+export default function RuleConfigPage({ searchParams }: RuleConfigPageProps) {
+  const { siteId } = searchParams
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{siteId ? `Rule overrides for site ${siteId}` : 'Rule configuration'}</h1>
+          <p className="text-gray-600">
+            {siteId
+              ? 'Empty fields follow the global configuration. Changes apply from the next audit of the site.'
+              : 'Empty fields follow the built-in rule. Changes apply from the next audit of every site without an override.'}
+          </p>
+        </header>
+
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <RuleConfigEditor {...(siteId ? { siteId } : {})} />
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for PUT /api/admin/rules/[ruleId]
+ * Clerk and Prisma are mocked in jest.setup.js; rule lookup, validation and
+ * storage are mocked, they have their own tests
+ */
+
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { validateRuleConfig } from '@/lib/heuristics/rule-config';
+import { findConfigurableRule, saveRuleConfig } from '@/lib/heuristics/rule-config-store';
+import { PUT } from '../route';
+
+jest.mock('@/lib/heuristics/rule-config', () => ({
+  validateRuleConfig: jest.fn()
+}));
+
+jest.mock('@/lib/heuristics/rule-config-store', () => ({
+  findConfigurableRule: jest.fn(),
+  saveRuleConfig: jest.fn()
+}));
+
+const rule = { ruleId: 'hero_cta_detection', name: 'Hero CTA Presence' };
+
+const context = { params: { ruleId: 'hero_cta_detection' } };
+
+const put = (body: unknown) => PUT(new Request('http://localhost/api/admin/rules/hero_cta_detection', {
+  method: 'PUT',
+  body: typeof body === 'string' ? body : JSON.stringify(body)
+}), context);
+
+describe('PUT /api/admin/rules/[ruleId] - TDD', () => {
+  beforeEach(() => {
+    process.env.ADMIN_EMAILS = 'admin@store.test';
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'admin@store.test' });
+    (findConfigurableRule as jest.Mock).mockReturnValue(rule);
+    (validateRuleConfig as jest.Mock).mockReturnValue(null);
+    (saveRuleConfig as jest.Mock).mockResolvedValue({ ruleId: 'hero_cta_detection' });
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_EMAILS;
+  });
+
+  describe('RED Phase: Validation and Access', () => {
+    it.each([
+      ['not json', 'Request body must be valid JSON'],
+      [{ severity: 'critical' }, "Invalid enum value. Expected 'high' | 'med' | 'low', received 'critical'"],
+      [{ maxScore: 101 }, 'Number must be less than or equal to 100'],
+      [{ thresholds: { minProminentWidth: '160' } }, 'Expected number, received string']
+    ])('should reject %p', async (body, message) => {
+      // Act
+      const response = await put(body);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.message).toBe(message);
+      expect(saveRuleConfig).not.toHaveBeenCalled();
+    });
+
+    it('should reject anonymous callers and users who are not admins', async () => {
+      // Arrange
+      (auth as unknown as jest.Mock).mockReturnValueOnce({ userId: null });
+      (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'user-2' }).mockResolvedValueOnce({ id: 'user-2', email: 'owner@store.test' });
+
+      // Act
+      const anonymous = await put({});
+      const owner = await put({});
+
+      // Assert
+      expect(anonymous.status).toBe(401);
+      expect(owner.status).toBe(403);
+      expect(findConfigurableRule).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 for unknown rules and 400 for thresholds the rule does not accept', async () => {
+      // Arrange
+      (findConfigurableRule as jest.Mock).mockReturnValueOnce(null);
+      (validateRuleConfig as jest.Mock).mockReturnValueOnce('minProminentWidth must be between 120 and 600');
+
+      // Act
+      const unknown = await put({});
+      const invalid = await put({ thresholds: { minProminentWidth: 80 } });
+
+      // Assert
+      expect(unknown.status).toBe(404);
+      expect((await unknown.json()).error).toEqual({ code: 'RULE_NOT_FOUND', message: 'Rule not found: hero_cta_detection' });
+      expect(invalid.status).toBe(400);
+      expect((await invalid.json()).error.message).toBe('minProminentWidth must be between 120 and 600');
+      expect(saveRuleConfig).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Save', () => {
+    it('should replace the global configuration with defaults for omitted settings', async () => {
+      // Act
+      const response = await put({ maxScore: 20, thresholds: { minProminentWidth: 160 } });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toEqual({ ruleId: 'hero_cta_detection' });
+      expect(findConfigurableRule).toHaveBeenCalledWith('hero_cta_detection');
+      expect(saveRuleConfig).toHaveBeenCalledWith(rule, { enabled: true, severity: null, maxScore: 20, thresholds: { minProminentWidth: 160 } });
+    });
+
+    it('should answer 500 when the configuration cannot be saved', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (saveRuleConfig as jest.Mock).mockRejectedValueOnce(new Error('db down'));
+
+      // Act
+      const response = await put({ enabled: false });
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.message).toBe('Rule configuration could not be saved');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to save rule configuration', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * PUT /api/admin/rules/[ruleId] - replace the global configuration of a rule
+ * Admins only (see ADMIN_EMAILS); audits started afterwards use it.
+ */
+
+import { getCurrentUserId, isAdmin } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { validateRuleConfig } from '@/lib/heuristics/rule-config';
+import { findConfigurableRule, saveRuleConfig } from '@/lib/heuristics/rule-config-store';
+import { SaveRuleConfigSchema } from '@/types';
+
+interface RouteContext {
+  params: { ruleId: string };
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('VALIDATION_ERROR', 'Request body must be valid JSON');
+  }
+
+  const parsed = SaveRuleConfigSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to configure rules');
+  }
+  if (!(await isAdmin(userId))) {
+    return errorResponse('FORBIDDEN', 'Only admins can change the global rule configuration');
+  }
+
+  const rule = findConfigurableRule(params.ruleId);
+  if (!rule) {
+    return errorResponse('RULE_NOT_FOUND', `Rule not found: ${params.ruleId}`);
+  }
+  const configError = validateRuleConfig(rule, parsed.data);
+  if (configError) {
+    return errorResponse('VALIDATION_ERROR', configError);
+  }
+
+  try {
+    return successResponse(await saveRuleConfig(rule, parsed.data));
+  } catch (error) {
+    console.error('Failed to save rule configuration', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Rule configuration could not be saved');
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for GET /api/admin/rules
+ * Clerk and Prisma are mocked in jest.setup.js; rule configuration storage is
+ * mocked, it has its own tests
+ */
+
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { listRuleConfigs } from '@/lib/heuristics/rule-config-store';
+import { GET } from '../route';
+
+jest.mock('@/lib/heuristics/rule-config-store', () => ({
+  listRuleConfigs: jest.fn()
+}));
+
+const views = [{ ruleId: 'hero_cta_detection', global: null, override: null }];
+
+describe('GET /api/admin/rules - TDD', () => {
+  beforeEach(() => {
+    process.env.ADMIN_EMAILS = 'ops@store.test, Admin@Store.test';
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'admin@store.test' });
+    (listRuleConfigs as jest.Mock).mockResolvedValue(views);
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_EMAILS;
+  });
+
+  describe('RED Phase: Access', () => {
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (auth as unknown as jest.Mock).mockReturnValueOnce({ userId: null });
+
+      // Act
+      const response = await GET();
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect((await response.json()).error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should only let users listed in ADMIN_EMAILS in', async () => {
+      // Arrange
+      (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'user-2' }).mockResolvedValueOnce({ id: 'user-2', email: 'owner@store.test' });
+
+      // Act
+      const stranger = await GET();
+      delete process.env.ADMIN_EMAILS;
+      const unconfigured = await GET();
+
+      // Assert
+      expect(stranger.status).toBe(403);
+      expect((await stranger.json()).error).toEqual({ code: 'FORBIDDEN', message: 'Only admins can view the global rule configuration' });
+      expect(unconfigured.status).toBe(403);
+      expect(listRuleConfigs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Listing', () => {
+    it('should list the rules for admins', async () => {
+      // Act
+      const response = await GET();
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ success: true, data: views });
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({ where: { id: 'user-1' }, select: { email: true } });
+    });
+
+    it('should answer 500 when the configuration cannot be loaded', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (listRuleConfigs as jest.Mock).mockRejectedValueOnce(new Error('db down'));
+
+      // Act
+      const response = await GET();
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to load rule configuration', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+});
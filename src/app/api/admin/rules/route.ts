@@ -0,0 +1,25 @@
+/**
+ * GET /api/admin/rules - every built-in heuristic rule with its defaults, thresholds and global configuration
+ * Admins only (see ADMIN_EMAILS).
+ */
+
+import { getCurrentUserId, isAdmin } from '@/lib/api/auth';
+import { errorResponse, successResponse } from '@/lib/api/responses';
+import { listRuleConfigs } from '@/lib/heuristics/rule-config-store';
+
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to view rule configuration');
+  }
+  if (!(await isAdmin(userId))) {
+    return errorResponse('FORBIDDEN', 'Only admins can view the global rule configuration');
+  }
+
+  try {
+    return successResponse(await listRuleConfigs());
+  } catch (error) {
+    console.error('Failed to load rule configuration', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Rule configuration could not be loaded');
+  }
+}
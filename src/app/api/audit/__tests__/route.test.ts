@@ -0,0 +1,261 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for POST /api/audit
+ * Clerk and Prisma are mocked in jest.setup.js; the job runner is replaced by a spy
+ * and site lookups are mocked, they are covered by the site store tests
+ */
+
+import { auth, currentUser } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { createSite, findSiteByUrl, getSite } from '@/lib/sites/site-store';
+import { isShopifyStorefront } from '@/lib/sites/storefront';
+import { POST } from '../route';
+
+const enqueue = jest.fn();
+
+jest.mock('@/lib/audit/job-runner', () => ({
+  getAuditJobRunner: () => ({ enqueue })
+}));
+
+// URL classification is covered by the discovery tests
+jest.mock('@/lib/crawler/discovery', () => ({
+  PageDiscovery: { DEFAULT_MAX_PAGES: 15 },
+  classifyUrl: (url: string) => (url.includes('/blogs/') ? null : 'product')
+}));
+
+jest.mock('@/lib/sites/site-store', () => ({
+  createSite: jest.fn(),
+  findSiteByUrl: jest.fn(),
+  getSite: jest.fn()
+}));
+
+jest.mock('@/lib/sites/storefront', () => ({
+  isShopifyStorefront: jest.fn(),
+  normalizeStoreUrl: (url: string) => new URL(url).origin
+}));
+
+const site = { id: 'site-1', url: 'https://test-store.myshopify.com', settings: {} };
+
+const post = (body: unknown) => POST(new Request('http://localhost/api/audit', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: typeof body === 'string' ? body : JSON.stringify(body)
+}));
+
+describe('POST /api/audit - TDD', () => {
+  beforeEach(() => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1' });
+    (findSiteByUrl as jest.Mock).mockResolvedValue(site);
+    (getSite as jest.Mock).mockResolvedValue(site);
+    (prisma.audit.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'audit-1', status: 'pending', ...data }));
+  });
+
+  describe('RED Phase: Validation', () => {
+    it('should reject bodies that are not JSON', async () => {
+      // Act
+      const response = await post('{storeUrl');
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Request body must be valid JSON' }
+      });
+    });
+
+    it('should list invalid fields', async () => {
+      // Act
+      const response = await post({ storeUrl: 'not a url', persona: 'pirate' });
+      const payload = await response.json();
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(payload.error.message).toBe('Invalid URL format');
+      expect(payload.error.details.issues.map((issue: { path: string }) => issue.path)).toEqual(['storeUrl', 'persona']);
+    });
+
+    it('should report root-level problems', async () => {
+      // Act
+      const payload = await (await post([])).json();
+      const withoutStore = await (await post({ persona: 'fr-que' })).json();
+
+      // Assert
+      expect(payload.error.details.issues[0].path).toBe('root');
+      expect(withoutStore.error.message).toBe('siteId or storeUrl is required');
+    });
+
+    it('should reject pages from another store or that cannot be audited', async () => {
+      // Act
+      const foreign = await post({ storeUrl: 'https://test-store.myshopify.com', pages: ['https://other.myshopify.com/products/a'] });
+      const blog = await post({ storeUrl: 'https://test-store.myshopify.com', pages: ['https://test-store.myshopify.com/blogs/news'] });
+
+      // Assert
+      expect(foreign.status).toBe(400);
+      expect((await blog.json()).error.message).toBe(
+        'Page is not an auditable page of https://test-store.myshopify.com: https://test-store.myshopify.com/blogs/news'
+      );
+      expect(prisma.audit.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Start Audit', () => {
+    it('should create a pending audit and enqueue it', async () => {
+      // Act
+      const response = await post({ storeUrl: 'https://test-store.myshopify.com/collections/all', persona: 'fr-que', budgetCents: 50 });
+
+      // Assert
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({
+        success: true,
+        data: { crawlId: 'audit-1', siteId: 'site-1', status: 'pending', estimatedDuration: 180 }
+      });
+      expect(findSiteByUrl).toHaveBeenCalledWith('user-1', 'https://test-store.myshopify.com/collections/all');
+      expect(prisma.audit.create).toHaveBeenCalledWith({
+        data: { siteId: 'site-1', userId: 'user-1', persona: 'fr-que', budgetCents: 50 }
+      });
+      expect(enqueue).toHaveBeenCalledWith('audit-1');
+    });
+
+    it('should start from a site with its persona and page budget', async () => {
+      // Arrange
+      (getSite as jest.Mock).mockResolvedValueOnce({ ...site, settings: { persona: 'fr-que', maxPages: 5 } });
+
+      // Act
+      const payload = await (await post({ siteId: 'site-1' })).json();
+
+      // Assert
+      expect(getSite).toHaveBeenCalledWith('user-1', 'site-1');
+      expect(payload.data.estimatedDuration).toBe(60);
+      expect(prisma.audit.create).toHaveBeenCalledWith({ data: { siteId: 'site-1', userId: 'user-1', persona: 'fr-que' } });
+    });
+
+    it('should answer 404 for unknown sites', async () => {
+      // Arrange
+      (getSite as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const response = await post({ siteId: 'site-9' });
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect((await response.json()).error).toEqual({ code: 'SITE_NOT_FOUND', message: 'Site not found: site-9' });
+    });
+
+    it('should register new Shopify stores as sites', async () => {
+      // Arrange
+      (findSiteByUrl as jest.Mock).mockResolvedValueOnce(null);
+      (isShopifyStorefront as jest.Mock).mockResolvedValueOnce(true);
+      (createSite as jest.Mock).mockResolvedValueOnce(site);
+
+      // Act
+      const response = await post({ storeUrl: 'https://test-store.myshopify.com' });
+
+      // Assert
+      expect(response.status).toBe(202);
+      expect(createSite).toHaveBeenCalledWith('user-1', { url: 'https://test-store.myshopify.com', settings: {} });
+    });
+
+    it('should use the site a concurrent audit registered for the store', async () => {
+      // Arrange
+      (findSiteByUrl as jest.Mock).mockResolvedValueOnce(null).mockResolvedValueOnce(site);
+      (isShopifyStorefront as jest.Mock).mockResolvedValueOnce(true);
+      (createSite as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const response = await post({ storeUrl: 'https://test-store.myshopify.com' });
+
+      // Assert
+      expect(response.status).toBe(202);
+      expect((await response.json()).data.siteId).toBe(site.id);
+      expect(findSiteByUrl).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse stores that are not Shopify storefronts', async () => {
+      // Arrange
+      (findSiteByUrl as jest.Mock).mockResolvedValueOnce(null);
+      (isShopifyStorefront as jest.Mock).mockResolvedValueOnce(false);
+
+      // Act
+      const response = await post({ storeUrl: 'https://example.com/shop' });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.message).toBe('URL is not a Shopify storefront: https://example.com');
+      expect(createSite).not.toHaveBeenCalled();
+    });
+
+    it('should store requested pages and estimate from their count', async () => {
+      // Act
+      const pages = ['https://test-store.myshopify.com/products/a', 'https://test-store.myshopify.com/cart'];
+      const payload = await (await post({ storeUrl: 'https://test-store.myshopify.com', pages })).json();
+
+      // Assert
+      expect(payload.data.estimatedDuration).toBe(24);
+      expect(prisma.audit.create).toHaveBeenCalledWith({
+        data: { siteId: 'site-1', userId: 'user-1', persona: 'default', requestedPages: pages }
+      });
+    });
+
+    it('should answer 500 when the audit cannot be stored', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (prisma.audit.create as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+
+      // Act
+      const response = await post({ storeUrl: 'https://test-store.myshopify.com' });
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.code).toBe('INTERNAL_SERVER_ERROR');
+      expect(enqueue).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('REFACTOR Phase: Authentication', () => {
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (auth as unknown as jest.Mock).mockReturnValueOnce({ userId: null });
+
+      // Act
+      const response = await post({ storeUrl: 'https://test-store.myshopify.com' });
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect((await response.json()).error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should create the local user on first use', async () => {
+      // Arrange
+      (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce(null);
+      (prisma.user.upsert as jest.Mock).mockResolvedValueOnce({ id: 'user-2' });
+
+      // Act
+      await post({ storeUrl: 'https://test-store.myshopify.com' });
+
+      // Assert
+      expect(prisma.user.upsert).toHaveBeenCalledWith({
+        where: { clerkId: 'test-user-id' },
+        update: {},
+        create: { clerkId: 'test-user-id', email: 'test@example.com' }
+      });
+      expect((prisma.audit.create as jest.Mock).mock.calls[0][0].data.userId).toBe('user-2');
+    });
+
+    it('should reject Clerk users without an email address', async () => {
+      // Arrange
+      (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce(null);
+      (currentUser as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const response = await post({ storeUrl: 'https://test-store.myshopify.com' });
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(prisma.user.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
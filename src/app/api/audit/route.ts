@@ -0,0 +1,93 @@
+/**
+ * POST /api/audit
+ * Validates the request, creates a pending Audit for the site and hands it to
+ * the job runner. The audit runs in the background; clients poll the report.
+ * Audits are started from a siteId, or from a storeUrl that is matched to the
+ * user's site for that store or registered as a new one.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { getAuditJobRunner } from '@/lib/audit/job-runner';
+import { PageDiscovery, classifyUrl } from '@/lib/crawler/discovery';
+import prisma from '@/lib/prisma';
+import { createSite, findSiteByUrl, getSite } from '@/lib/sites/site-store';
+import { isShopifyStorefront, normalizeStoreUrl } from '@/lib/sites/storefront';
+import { StartAuditRequestSchema } from '@/types';
+import type { Site } from '@/types';
+
+// Rough wall-clock cost of crawling one page on both devices and asking for its recommendations
+const ESTIMATED_SECONDS_PER_PAGE = 12;
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('VALIDATION_ERROR', 'Request body must be valid JSON');
+  }
+
+  const parsed = StartAuditRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to start an audit');
+  }
+
+  const { siteId, storeUrl, persona, pages, budgetCents } = parsed.data;
+  try {
+    const site = siteId ? await getSite(userId, siteId) : await resolveStore(userId, storeUrl!);
+    if (!site) {
+      return siteId
+        ? errorResponse('SITE_NOT_FOUND', `Site not found: ${siteId}`)
+        : errorResponse('VALIDATION_ERROR', `URL is not a Shopify storefront: ${normalizeStoreUrl(storeUrl!)}`);
+    }
+
+    const invalidPage = pages?.find(url => new URL(url).origin !== site.url || !classifyUrl(url));
+    if (invalidPage) {
+      return errorResponse('VALIDATION_ERROR', `Page is not an auditable page of ${site.url}: ${invalidPage}`);
+    }
+
+    const audit = await prisma.audit.create({
+      data: {
+        siteId: site.id,
+        userId,
+        persona: persona ?? site.settings.persona ?? 'default',
+        ...(pages?.length ? { requestedPages: pages } : {}),
+        ...(budgetCents !== undefined ? { budgetCents } : {}),
+      },
+    });
+    getAuditJobRunner().enqueue(audit.id);
+
+    return successResponse(
+      {
+        crawlId: audit.id,
+        siteId: site.id,
+        status: audit.status,
+        estimatedDuration: (pages?.length || site.settings.maxPages || PageDiscovery.DEFAULT_MAX_PAGES) * ESTIMATED_SECONDS_PER_PAGE,
+      },
+      202
+    );
+  } catch (error) {
+    console.error('Failed to start audit', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Audit could not be started');
+  }
+}
+
+/**
+ * Site registered for the store URL, registering it first when it is a Shopify storefront
+ */
+async function resolveStore(userId: string, storeUrl: string): Promise<Site | null> {
+  const existing = await findSiteByUrl(userId, storeUrl);
+  if (existing) {
+    return existing;
+  }
+  if (!(await isShopifyStorefront(storeUrl))) {
+    return null;
+  }
+  // A concurrent audit of the same store may have registered it in the meantime
+  return (await createSite(userId, { url: storeUrl, settings: {} })) ?? findSiteByUrl(userId, storeUrl);
+}
@@ -0,0 +1,244 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for POST /api/audit/theme
+ * Clerk and Prisma are mocked in jest.setup.js; the job runner is replaced by a spy,
+ * and site lookups and theme reading are mocked, they are covered by their own tests
+ */
+
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { getSite } from '@/lib/sites/site-store';
+import { readThemeArchive } from '@/lib/themes/archive';
+import { readThemeTemplates } from '@/lib/themes/templates';
+import { saveThemeTemplate } from '@/lib/themes/theme-results';
+import { ThemeArchiveError } from '@/types';
+import { POST } from '../route';
+
+const enqueue = jest.fn();
+
+jest.mock('@/lib/audit/job-runner', () => ({
+  getAuditJobRunner: () => ({ enqueue })
+}));
+
+jest.mock('@/lib/sites/site-store', () => ({
+  getSite: jest.fn()
+}));
+
+jest.mock('@/lib/themes/archive', () => ({
+  MAX_THEME_ARCHIVE_BYTES: 1024 * 1024,
+  readThemeArchive: jest.fn()
+}));
+
+jest.mock('@/lib/themes/templates', () => ({
+  readThemeTemplates: jest.fn()
+}));
+
+jest.mock('@/lib/themes/theme-results', () => ({
+  saveThemeTemplate: jest.fn()
+}));
+
+const site = { id: 'site-1', url: 'https://test-store.myshopify.com', settings: {} };
+
+const files = new Map([['layout/theme.liquid', '{{ content_for_layout }}']]);
+
+const theme = { name: 'Dawn', schemaName: 'Dawn', schemaVersion: '15.0.0', themeStoreId: null, family: 'dawn', sections: [] };
+
+const templates = [
+  { path: 'templates/index.json', pageType: 'home', source: '{}', theme, metrics: {} },
+  { path: 'templates/product.json', pageType: 'product', source: '{}', theme, metrics: {} }
+];
+
+const post = (fields: Record<string, string | Blob>) => {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value);
+  }
+  return POST(new Request('http://localhost/api/audit/theme', { method: 'POST', body: form }));
+};
+
+const zip = (size = 64) => new Blob([new Uint8Array(size)], { type: 'application/zip' });
+
+describe('POST /api/audit/theme - TDD', () => {
+  beforeEach(() => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-1' });
+    (getSite as jest.Mock).mockResolvedValue(site);
+    (readThemeArchive as jest.Mock).mockReturnValue(files);
+    (readThemeTemplates as jest.Mock).mockReturnValue(templates);
+    (prisma.audit.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'audit-1', status: 'pending', ...data }));
+  });
+
+  describe('RED Phase: Validation', () => {
+    it('should reject bodies that are not multipart form data', async () => {
+      // Act
+      const response = await POST(new Request('http://localhost/api/audit/theme', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"siteId": "site-1"}'
+      }));
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'Request body must be multipart form data' }
+      });
+    });
+
+    it('should list invalid fields', async () => {
+      // Act
+      const payload = await (await post({ persona: 'pirate', budgetCents: 'lots', theme: zip() })).json();
+
+      // Assert
+      expect(payload.error.message).toBe('Required');
+      expect(payload.error.details.issues.map((issue: { path: string }) => issue.path)).toEqual(['siteId', 'persona', 'budgetCents']);
+    });
+
+    it('should require a theme file under the size limit', async () => {
+      // Act
+      const missing = await (await post({ siteId: 'site-1', theme: 'dawn.zip' })).json();
+      const tooLarge = await (await post({ siteId: 'site-1', theme: zip(1024 * 1024 + 1) })).json();
+
+      // Assert
+      expect(missing.error.message).toBe('theme must be a theme zip file');
+      expect(tooLarge.error.message).toBe('Theme archive must be under 1 MB');
+      expect(readThemeArchive).not.toHaveBeenCalled();
+    });
+
+    it('should reject archives that are not readable themes', async () => {
+      // Arrange
+      (readThemeArchive as jest.Mock).mockImplementationOnce(() => {
+        throw new ThemeArchiveError('Archive is not a Shopify theme: layout/theme.liquid is missing', 'NOT_A_THEME');
+      });
+      (readThemeTemplates as jest.Mock).mockReturnValueOnce([]);
+
+      // Act
+      const notATheme = await post({ siteId: 'site-1', theme: zip() });
+      const noTemplates = await (await post({ siteId: 'site-1', theme: zip() })).json();
+
+      // Assert
+      expect(notATheme.status).toBe(400);
+      expect(await notATheme.json()).toEqual({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Archive is not a Shopify theme: layout/theme.liquid is missing',
+          details: { code: 'NOT_A_THEME' }
+        }
+      });
+      expect(noTemplates.error.message).toBe('Theme has no home, product, collection or cart template');
+      expect(prisma.audit.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Start Theme Audit', () => {
+    it('should store the templates with a pending theme audit and enqueue it', async () => {
+      // Act
+      const response = await post({ siteId: 'site-1', persona: 'fr-que', budgetCents: '50', theme: zip() });
+
+      // Assert
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({
+        success: true,
+        data: {
+          crawlId: 'audit-1',
+          siteId: 'site-1',
+          status: 'pending',
+          theme: { name: 'Dawn', version: '15.0.0', family: 'dawn' },
+          templates: ['templates/index.json', 'templates/product.json']
+        }
+      });
+      expect(getSite).toHaveBeenCalledWith('user-1', 'site-1');
+      expect((readThemeArchive as jest.Mock).mock.calls[0][0]).toEqual(Buffer.alloc(64));
+      expect(readThemeTemplates).toHaveBeenCalledWith(files);
+      expect(prisma.audit.create).toHaveBeenCalledWith({
+        data: { siteId: 'site-1', userId: 'user-1', persona: 'fr-que', source: 'theme', pagesTotal: 2, budgetCents: 50 }
+      });
+      expect((saveThemeTemplate as jest.Mock).mock.calls).toEqual(templates.map(template => ['audit-1', template]));
+      expect(enqueue).toHaveBeenCalledWith('audit-1');
+    });
+
+    it('should default to the site persona', async () => {
+      // Arrange
+      (getSite as jest.Mock).mockResolvedValueOnce({ ...site, settings: { persona: 'fr-que' } });
+
+      // Act
+      await post({ siteId: 'site-1', theme: zip() });
+      (getSite as jest.Mock).mockResolvedValueOnce(site);
+      await post({ siteId: 'site-1', theme: zip() });
+
+      // Assert
+      expect((prisma.audit.create as jest.Mock).mock.calls.map(([{ data }]) => data.persona)).toEqual(['fr-que', 'default']);
+    });
+
+    it('should answer 404 for unknown sites', async () => {
+      // Arrange
+      (getSite as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const response = await post({ siteId: 'site-9', theme: zip() });
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect((await response.json()).error).toEqual({ code: 'SITE_NOT_FOUND', message: 'Site not found: site-9' });
+      expect(readThemeArchive).not.toHaveBeenCalled();
+    });
+
+    it('should answer 500 when the audit cannot be stored', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (readThemeTemplates as jest.Mock).mockImplementationOnce(() => {
+        throw new Error('out of memory');
+      });
+
+      // Act
+      const response = await post({ siteId: 'site-1', theme: zip() });
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect((await response.json()).error).toEqual({ code: 'INTERNAL_SERVER_ERROR', message: 'Audit could not be started' });
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to start theme audit', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    it('should fail the audit when its templates cannot all be stored', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (saveThemeTemplate as jest.Mock).mockResolvedValueOnce({ id: 'page-1' }).mockRejectedValueOnce(new Error('Connection reset'));
+      (prisma.audit.update as jest.Mock).mockResolvedValueOnce({ id: 'audit-1' }).mockRejectedValueOnce(new Error('Connection reset'));
+
+      // Act
+      const response = await post({ siteId: 'site-1', theme: zip() });
+      (saveThemeTemplate as jest.Mock).mockRejectedValueOnce(new Error('Connection reset'));
+      const unmarked = await post({ siteId: 'site-1', theme: zip() });
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect(unmarked.status).toBe(500);
+      expect(prisma.audit.update).toHaveBeenCalledWith({
+        where: { id: 'audit-1' },
+        data: { status: 'failed', failureReason: 'Theme templates could not be stored', completedAt: expect.any(Date) }
+      });
+      expect(consoleSpy).toHaveBeenCalledWith('Audit audit-1 could not be marked failed', expect.any(Error));
+      expect(enqueue).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('REFACTOR Phase: Authentication', () => {
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (auth as unknown as jest.Mock).mockReturnValueOnce({ userId: null });
+
+      // Act
+      const response = await post({ siteId: 'site-1', theme: zip() });
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect((await response.json()).error.code).toBe('UNAUTHORIZED');
+      expect(getSite).not.toHaveBeenCalled();
+    });
+  });
+});
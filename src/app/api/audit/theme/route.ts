@@ -0,0 +1,125 @@
+/**
+ * POST /api/audit/theme
+ * Starts an audit of an uploaded theme archive, for stores that are not live
+ * yet or sit behind a password. The multipart form carries the theme zip as
+ * `theme` next to the siteId and optional persona and budgetCents fields.
+ * The archive is read here, so a broken upload is rejected straight away; its
+ * templates are stored with the pending Audit and checked by the job runner.
+ * When a template cannot be stored the audit is marked failed rather than left
+ * pending with only some of them.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { getAuditJobRunner } from '@/lib/audit/job-runner';
+import prisma from '@/lib/prisma';
+import { getSite } from '@/lib/sites/site-store';
+import { MAX_THEME_ARCHIVE_BYTES, readThemeArchive } from '@/lib/themes/archive';
+import { readThemeTemplates } from '@/lib/themes/templates';
+import type { ThemeTemplate } from '@/lib/themes/templates';
+import { saveThemeTemplate } from '@/lib/themes/theme-results';
+import { StartThemeAuditRequestSchema, ThemeArchiveError } from '@/types';
+
+const TEMPLATES_NOT_STORED_REASON = 'Theme templates could not be stored';
+
+export async function POST(request: Request) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return errorResponse('VALIDATION_ERROR', 'Request body must be multipart form data');
+  }
+
+  const parsed = StartThemeAuditRequestSchema.safeParse(
+    Object.fromEntries(['siteId', 'persona', 'budgetCents'].flatMap(field => {
+      const value = form.get(field);
+      return typeof value === 'string' ? [[field, value]] : [];
+    }))
+  );
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const archive = form.get('theme');
+  if (!(archive instanceof Blob)) {
+    return errorResponse('VALIDATION_ERROR', 'theme must be a theme zip file');
+  }
+  if (archive.size > MAX_THEME_ARCHIVE_BYTES) {
+    return errorResponse('VALIDATION_ERROR', `Theme archive must be under ${MAX_THEME_ARCHIVE_BYTES / 1024 / 1024} MB`);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to start an audit');
+  }
+
+  const { siteId, persona, budgetCents } = parsed.data;
+  try {
+    const site = await getSite(userId, siteId);
+    if (!site) {
+      return errorResponse('SITE_NOT_FOUND', `Site not found: ${siteId}`);
+    }
+
+    let templates: ThemeTemplate[];
+    try {
+      templates = readThemeTemplates(readThemeArchive(Buffer.from(await archive.arrayBuffer())));
+    } catch (error) {
+      if (error instanceof ThemeArchiveError) {
+        return errorResponse('VALIDATION_ERROR', error.message, { code: error.code });
+      }
+      throw error;
+    }
+    if (templates.length === 0) {
+      return errorResponse('VALIDATION_ERROR', 'Theme has no home, product, collection or cart template', { code: 'NOT_A_THEME' });
+    }
+
+    const audit = await prisma.audit.create({
+      data: {
+        siteId: site.id,
+        userId,
+        persona: persona ?? site.settings.persona ?? 'default',
+        source: 'theme',
+        pagesTotal: templates.length,
+        ...(budgetCents !== undefined ? { budgetCents } : {}),
+      },
+    });
+    try {
+      for (const template of templates) {
+        await saveThemeTemplate(audit.id, template);
+      }
+    } catch (error) {
+      await failAudit(audit.id);
+      throw error;
+    }
+    getAuditJobRunner().enqueue(audit.id);
+
+    const { theme } = templates[0]!;
+    return successResponse(
+      {
+        crawlId: audit.id,
+        siteId: site.id,
+        status: audit.status,
+        theme: { name: theme.name, version: theme.schemaVersion, family: theme.family },
+        templates: templates.map(template => template.path),
+      },
+      202
+    );
+  } catch (error) {
+    console.error('Failed to start theme audit', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Audit could not be started');
+  }
+}
+
+/**
+ * Fail an audit whose templates were not all stored, so it is not run without them
+ */
+async function failAudit(auditId: string): Promise<void> {
+  try {
+    await prisma.audit.update({
+      where: { id: auditId },
+      data: { status: 'failed', failureReason: TEMPLATES_NOT_STORED_REASON, completedAt: new Date() },
+    });
+  } catch (error) {
+    console.error(`Audit ${auditId} could not be marked failed`, error);
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for /api/recommendations/[id]
+ * Sign-in and version storage are mocked; they have their own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { getRecommendationHistory, pinVersion } from '@/lib/recommendations/versions';
+import { GET, PATCH } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/recommendations/versions', () => ({
+  getRecommendationHistory: jest.fn(),
+  pinVersion: jest.fn()
+}));
+
+const history = { id: 'rec-1', issue: 'Missing CTA', version: 2, versions: [{ version: 2 }, { version: 1 }] };
+
+const context = { params: { id: 'rec-1' } };
+
+const request = (method: string, body?: unknown) => new Request('http://localhost/api/recommendations/rec-1', {
+  method,
+  ...(body !== undefined ? { body: typeof body === 'string' ? body : JSON.stringify(body) } : {})
+});
+
+describe('/api/recommendations/[id] - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (getRecommendationHistory as jest.Mock).mockResolvedValue(history);
+    (pinVersion as jest.Mock).mockResolvedValue({ ...history, version: 1 });
+  });
+
+  describe('RED Phase: Access and Validation', () => {
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const responses = [await GET(request('GET'), context), await PATCH(request('PATCH', { version: 1 }), context)];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([401, 401]);
+    });
+
+    it('should validate the pinned version', async () => {
+      // Act
+      const notJson = await PATCH(request('PATCH', '{version'), context);
+      const invalid = await (await PATCH(request('PATCH', { version: 0 }), context)).json();
+
+      // Assert
+      expect(notJson.status).toBe(400);
+      expect(invalid.error.details.issues.map((issue: { path: string }) => issue.path)).toEqual(['version']);
+      expect(pinVersion).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 for recommendations or versions the user does not have', async () => {
+      // Arrange
+      (getRecommendationHistory as jest.Mock).mockResolvedValueOnce(null);
+      (pinVersion as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const missing = await GET(request('GET'), context);
+      const missingVersion = await PATCH(request('PATCH', { version: 7 }), context);
+
+      // Assert
+      expect(missing.status).toBe(404);
+      expect((await missing.json()).error).toEqual({ code: 'RECOMMENDATION_NOT_FOUND', message: 'Recommendation not found: rec-1' });
+      expect(missingVersion.status).toBe(404);
+      expect((await missingVersion.json()).error.message).toBe('Recommendation version not found: rec-1 v7');
+    });
+  });
+
+  describe('GREEN Phase: History and Pinning', () => {
+    it('should return the recommendation with its versions', async () => {
+      // Act
+      const response = await GET(request('GET'), context);
+
+      // Assert
+      expect(await response.json()).toEqual({ success: true, data: history });
+      expect(getRecommendationHistory).toHaveBeenCalledWith('user-1', 'rec-1');
+    });
+
+    it('should pin the requested version', async () => {
+      // Act
+      const response = await PATCH(request('PATCH', { version: 1 }), context);
+
+      // Assert
+      expect((await response.json()).data.version).toBe(1);
+      expect(pinVersion).toHaveBeenCalledWith('user-1', 'rec-1', 1);
+    });
+
+    it('should answer 500 when storage fails', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (getRecommendationHistory as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+      (pinVersion as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+
+      // Act
+      const responses = [await GET(request('GET'), context), await PATCH(request('PATCH', { version: 1 }), context)];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([500, 500]);
+      consoleSpy.mockRestore();
+    });
+  });
+});
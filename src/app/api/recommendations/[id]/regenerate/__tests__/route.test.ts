@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for POST /api/recommendations/[id]/regenerate
+ * Sign-in and the regenerator are mocked; they have their own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { LLMError } from '@/types';
+import { POST } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+const regenerate = jest.fn();
+
+jest.mock('@/lib/recommendations/versions', () => ({
+  RecommendationRegenerator: jest.fn(() => ({ regenerate }))
+}));
+
+const history = { id: 'rec-1', issue: 'Missing CTA', version: 2, versions: [{ version: 2, hint: 'Shorter copy' }, { version: 1, hint: null }] };
+
+const context = { params: { id: 'rec-1' } };
+
+const post = (body: unknown) => POST(new Request('http://localhost/api/recommendations/rec-1/regenerate', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: typeof body === 'string' ? body : JSON.stringify(body)
+}), context);
+
+describe('POST /api/recommendations/[id]/regenerate - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    regenerate.mockResolvedValue(history);
+  });
+
+  describe('RED Phase: Access and Validation', () => {
+    it('should validate the body', async () => {
+      // Act
+      const notJson = await post('{hint');
+      const invalid = await (await post({ hint: 'x'.repeat(501), persona: 'pirate', pin: 'yes' })).json();
+
+      // Assert
+      expect((await notJson.json()).error.message).toBe('Request body must be valid JSON');
+      expect(invalid.error.details.issues.map((issue: { path: string }) => issue.path)).toEqual(['hint', 'persona', 'pin']);
+      expect(regenerate).not.toHaveBeenCalled();
+    });
+
+    it('should reject anonymous callers and unknown recommendations', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValueOnce(null);
+      regenerate.mockResolvedValueOnce(null);
+
+      // Act
+      const anonymous = await post({});
+      const missing = await post({});
+
+      // Assert
+      expect(anonymous.status).toBe(401);
+      expect(missing.status).toBe(404);
+      expect((await missing.json()).error).toEqual({ code: 'RECOMMENDATION_NOT_FOUND', message: 'Recommendation not found: rec-1' });
+    });
+  });
+
+  describe('GREEN Phase: Regeneration', () => {
+    it('should regenerate with the hint and pin by default', async () => {
+      // Act
+      const response = await post({ hint: '  Shorter copy ', persona: 'fr-que' });
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(await response.json()).toEqual({ success: true, data: history });
+      expect(regenerate).toHaveBeenCalledWith('user-1', 'rec-1', { hint: 'Shorter copy', persona: 'fr-que', pin: true });
+    });
+
+    it.each([
+      [new LLMError('Budget spent', 'BUDGET_EXCEEDED'), 402, 'BUDGET_EXCEEDED'],
+      [new LLMError('Too many requests', 'RATE_LIMIT', true), 429, 'RATE_LIMIT_EXCEEDED'],
+      [new LLMError('Invalid recommendation', 'PARSING_ERROR'), 502, 'LLM_ERROR'],
+      [new Error('Connection refused'), 500, 'INTERNAL_SERVER_ERROR']
+    ])('should map %s to %i', async (error, status, code) => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      regenerate.mockRejectedValueOnce(error);
+
+      // Act
+      const response = await post({ pin: false });
+
+      // Assert
+      expect(response.status).toBe(status);
+      expect((await response.json()).error.code).toBe(code);
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * POST /api/recommendations/[id]/regenerate - write a new version of a recommendation
+ * Body: { hint?, persona?, pin = true }. Answers 201 with the recommendation and
+ * its versions; spend counts against the audit's LLM budget.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { RecommendationRegenerator } from '@/lib/recommendations/versions';
+import { LLMError, RegenerateRecommendationSchema } from '@/types';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('VALIDATION_ERROR', 'Request body must be valid JSON');
+  }
+
+  const parsed = RegenerateRecommendationSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to regenerate recommendations');
+  }
+
+  try {
+    const recommendation = await new RecommendationRegenerator().regenerate(userId, params.id, parsed.data);
+    return recommendation
+      ? successResponse(recommendation, 201)
+      : errorResponse('RECOMMENDATION_NOT_FOUND', `Recommendation not found: ${params.id}`);
+  } catch (error) {
+    if (error instanceof LLMError) {
+      return llmErrorResponse(error);
+    }
+    console.error('Failed to regenerate recommendation', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Recommendation could not be regenerated');
+  }
+}
+
+function llmErrorResponse(error: LLMError) {
+  switch (error.code) {
+    case 'BUDGET_EXCEEDED':
+      return errorResponse('BUDGET_EXCEEDED', 'The LLM budget of this audit is spent');
+    case 'RATE_LIMIT':
+      return errorResponse('RATE_LIMIT_EXCEEDED', 'The LLM provider is busy, try again shortly');
+    default:
+      return errorResponse('LLM_ERROR', 'No usable recommendation was generated', { reason: error.message });
+  }
+}
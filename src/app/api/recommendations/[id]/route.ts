@@ -0,0 +1,61 @@
+/**
+ * GET /api/recommendations/[id] - a recommendation with every generated version, newest first
+ * PATCH /api/recommendations/[id] - pin the version the report shows: { version }
+ * Recommendations of other users answer 404 like missing ones.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { getRecommendationHistory, pinVersion } from '@/lib/recommendations/versions';
+import { PinRecommendationVersionSchema } from '@/types';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to view recommendations');
+  }
+
+  try {
+    const recommendation = await getRecommendationHistory(userId, params.id);
+    return recommendation
+      ? successResponse(recommendation)
+      : errorResponse('RECOMMENDATION_NOT_FOUND', `Recommendation not found: ${params.id}`);
+  } catch (error) {
+    console.error('Failed to load recommendation', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Recommendation could not be loaded');
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('VALIDATION_ERROR', 'Request body must be valid JSON');
+  }
+
+  const parsed = PinRecommendationVersionSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to update recommendations');
+  }
+
+  const { version } = parsed.data;
+  try {
+    const recommendation = await pinVersion(userId, params.id, version);
+    return recommendation
+      ? successResponse(recommendation)
+      : errorResponse('RECOMMENDATION_NOT_FOUND', `Recommendation version not found: ${params.id} v${version}`);
+  } catch (error) {
+    console.error('Failed to pin recommendation version', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Recommendation version could not be pinned');
+  }
+}
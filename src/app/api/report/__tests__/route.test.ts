@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for GET /api/report
+ * Sign-in and report assembly are mocked; they are covered by the POST /api/audit and report tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { buildReport, loadReportSource } from '@/lib/report/report';
+import { GET } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/report/report', () => ({
+  loadReportSource: jest.fn(),
+  buildReport: jest.fn()
+}));
+
+const get = (query: string) => GET(new Request(`http://localhost/api/report?${query}`));
+
+const audit = { id: 'audit-1', userId: 'user-1' };
+
+const report = { crawl: { id: 'audit-1' }, findings: [] };
+
+describe('GET /api/report - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (loadReportSource as jest.Mock).mockResolvedValue(audit);
+    (buildReport as jest.Mock).mockReturnValue(report);
+  });
+
+  describe('RED Phase: Validation', () => {
+    it('should require a crawl id and known query values', async () => {
+      // Act
+      const missing = await get('sort=ice');
+      const invalid = await (await get('crawlId=audit-1&sort=price&limit=500&severity=critical')).json();
+
+      // Assert
+      expect(missing.status).toBe(400);
+      expect(invalid.error.details.issues.map((issue: { path: string }) => issue.path)).toEqual(['sort', 'limit', 'severity.0']);
+    });
+
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const response = await get('crawlId=audit-1');
+
+      // Assert
+      expect(response.status).toBe(401);
+    });
+
+    it.each([
+      ['missing', null],
+      ['owned by someone else', { ...audit, userId: 'user-2' }]
+    ])('should answer 404 for audits that are %s', async (_, found) => {
+      // Arrange
+      (loadReportSource as jest.Mock).mockResolvedValueOnce(found);
+
+      // Act
+      const response = await get('crawlId=audit-1');
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect((await response.json()).error).toEqual({ code: 'CRAWL_NOT_FOUND', message: 'Audit not found: audit-1' });
+    });
+  });
+
+  describe('GREEN Phase: Report', () => {
+    it('should build the report from the parsed query', async () => {
+      // Act
+      const response = await get('crawlId=audit-1&severity=high,med&pageType=product&limit=10');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ success: true, data: report });
+      expect(loadReportSource).toHaveBeenCalledWith('audit-1');
+      expect(buildReport).toHaveBeenCalledWith(audit, {
+        crawlId: 'audit-1',
+        sort: 'ice',
+        page: 1,
+        limit: 10,
+        severity: ['high', 'med'],
+        pageType: ['product']
+      });
+    });
+
+    it('should answer 500 when the audit cannot be loaded', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (loadReportSource as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+
+      // Act
+      const response = await get('crawlId=audit-1');
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.code).toBe('INTERNAL_SERVER_ERROR');
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for GET /api/report/compare
+ * Sign-in, report loading and the comparison are mocked; they have their own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { compareAudits, findPreviousAudit } from '@/lib/report/compare';
+import { loadReportSource } from '@/lib/report/report';
+import { GET } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/report/report', () => ({
+  loadReportSource: jest.fn()
+}));
+
+jest.mock('@/lib/report/compare', () => ({
+  compareAudits: jest.fn(),
+  findPreviousAudit: jest.fn()
+}));
+
+const get = (query: string) => GET(new Request(`http://localhost/api/report/compare?${query}`));
+
+const audit = (id: string, overrides: Record<string, unknown> = {}) => ({ id, userId: 'user-1', site: { id: 'site-1' }, ...overrides });
+
+const comparison = { summary: { regressed: 0, new: 1, persisting: 2, fixed: 3, not_rechecked: 0 } };
+
+describe('GET /api/report/compare - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (loadReportSource as jest.Mock).mockImplementation(async (id: string) => audit(id));
+    (findPreviousAudit as jest.Mock).mockResolvedValue('audit-1');
+    (compareAudits as jest.Mock).mockReturnValue(comparison);
+  });
+
+  describe('RED Phase: Access and Validation', () => {
+    it('should require a crawl id and reject anonymous callers', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const missing = await get('baseId=audit-1');
+      const anonymous = await get('crawlId=audit-2');
+
+      // Assert
+      expect(missing.status).toBe(400);
+      expect(anonymous.status).toBe(401);
+    });
+
+    it('should answer 404 for audits of other users', async () => {
+      // Arrange
+      (loadReportSource as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(audit('audit-2'))
+        .mockResolvedValueOnce(audit('audit-9', { userId: 'user-2' }));
+
+      // Act
+      const target = await (await get('crawlId=audit-2')).json();
+      const base = await (await get('crawlId=audit-2&baseId=audit-9')).json();
+
+      // Assert
+      expect(target.error).toEqual({ code: 'CRAWL_NOT_FOUND', message: 'Audit not found: audit-2' });
+      expect(base.error).toEqual({ code: 'CRAWL_NOT_FOUND', message: 'Audit not found: audit-9' });
+      expect(compareAudits).not.toHaveBeenCalled();
+    });
+
+    it('should need an earlier audit of the same site', async () => {
+      // Arrange
+      (findPreviousAudit as jest.Mock).mockResolvedValueOnce(null);
+      (loadReportSource as jest.Mock)
+        .mockResolvedValueOnce(audit('audit-2'))
+        .mockResolvedValueOnce(audit('audit-2'))
+        .mockResolvedValueOnce(audit('audit-8', { site: { id: 'site-2' } }));
+
+      // Act
+      const first = await get('crawlId=audit-2');
+      const otherSite = await get('crawlId=audit-2&baseId=audit-8');
+
+      // Assert
+      expect(first.status).toBe(404);
+      expect((await first.json()).error.message).toBe('No earlier completed audit of this site to compare with: audit-2');
+      expect(otherSite.status).toBe(400);
+      expect((await otherSite.json()).error.message).toBe('Only audits of the same site can be compared');
+    });
+  });
+
+  describe('GREEN Phase: Comparison', () => {
+    it('should compare with the previous audit by default', async () => {
+      // Act
+      const response = await get('crawlId=audit-2');
+
+      // Assert
+      expect(await response.json()).toEqual({ success: true, data: comparison });
+      expect(findPreviousAudit).toHaveBeenCalledWith(audit('audit-2'));
+      expect(compareAudits).toHaveBeenCalledWith(audit('audit-1'), audit('audit-2'));
+    });
+
+    it('should compare with the requested base audit', async () => {
+      // Act
+      await get('crawlId=audit-2&baseId=audit-0');
+
+      // Assert
+      expect(findPreviousAudit).not.toHaveBeenCalled();
+      expect(loadReportSource).toHaveBeenLastCalledWith('audit-0');
+    });
+
+    it('should answer 500 when audits cannot be loaded', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (loadReportSource as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+
+      // Act
+      const response = await get('crawlId=audit-2');
+
+      // Assert
+      expect(response.status).toBe(500);
+      consoleSpy.mockRestore();
+    });
+  });
+});
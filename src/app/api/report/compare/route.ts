@@ -0,0 +1,51 @@
+/**
+ * GET /api/report/compare?crawlId=…&baseId=…
+ * Compares an audit with an earlier one of the same site: regressed, new,
+ * persisting, fixed and not re-checked findings plus score deltas per category. Without baseId
+ * the previous completed audit of the site is used.
+ * Audits of other users answer 404 so their ids cannot be probed.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { compareAudits, findPreviousAudit } from '@/lib/report/compare';
+import { loadReportSource } from '@/lib/report/report';
+import { CompareQuerySchema } from '@/types';
+
+export async function GET(request: Request) {
+  const params = Object.fromEntries(new URL(request.url).searchParams);
+  const parsed = CompareQuerySchema.safeParse(params);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to compare audits');
+  }
+
+  const { crawlId } = parsed.data;
+  try {
+    const target = await loadReportSource(crawlId);
+    if (!target || target.userId !== userId) {
+      return errorResponse('CRAWL_NOT_FOUND', `Audit not found: ${crawlId}`);
+    }
+
+    const baseId = parsed.data.baseId ?? (await findPreviousAudit(target));
+    if (!baseId) {
+      return errorResponse('CRAWL_NOT_FOUND', `No earlier completed audit of this site to compare with: ${crawlId}`);
+    }
+    const base = await loadReportSource(baseId);
+    if (!base || base.userId !== userId) {
+      return errorResponse('CRAWL_NOT_FOUND', `Audit not found: ${baseId}`);
+    }
+    if (base.site.id !== target.site.id) {
+      return errorResponse('VALIDATION_ERROR', 'Only audits of the same site can be compared');
+    }
+
+    return successResponse(compareAudits(base, target));
+  } catch (error) {
+    console.error('Failed to compare audits', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Audits could not be compared');
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for GET /api/report/export
+ * Sign-in, report loading and rendering are mocked; they have their own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { buildExportDocument, loadScreenshots, renderExport } from '@/lib/export/export';
+import { loadReportSource } from '@/lib/report/report';
+import { GET } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/report/report', () => ({
+  loadReportSource: jest.fn()
+}));
+
+jest.mock('@/lib/export/export', () => ({
+  buildExportDocument: jest.fn(),
+  loadScreenshots: jest.fn(),
+  renderExport: jest.fn()
+}));
+
+const get = (query: string) => GET(new Request(`http://localhost/api/report/export?${query}`));
+
+const audit = { id: 'audit-1', userId: 'user-1' };
+
+const screenshots = [{ url: 'https://test-store.myshopify.com/', pageType: 'home', image: 'iVBORw0KGgo=' }];
+
+const document = { report: { crawl: { id: 'audit-1' } }, screenshots };
+
+describe('GET /api/report/export - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (loadReportSource as jest.Mock).mockResolvedValue(audit);
+    (loadScreenshots as jest.Mock).mockResolvedValue(screenshots);
+    (buildExportDocument as jest.Mock).mockReturnValue(document);
+    (renderExport as jest.Mock).mockResolvedValue({
+      body: '# CRO audit: Test Store\n',
+      contentType: 'text/markdown; charset=utf-8',
+      filename: 'cro-audit-test-store.myshopify.com-audit-1.md'
+    });
+  });
+
+  describe('RED Phase: Access and Validation', () => {
+    it('should require a crawl id and a known format', async () => {
+      // Act
+      const invalid = await (await get('format=docx')).json();
+
+      // Assert
+      expect(invalid.error.details.issues.map((issue: { path: string }) => issue.path)).toEqual(['crawlId', 'format']);
+    });
+
+    it('should reject anonymous callers and audits of other users', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValueOnce(null);
+      (loadReportSource as jest.Mock).mockResolvedValueOnce({ ...audit, userId: 'user-2' });
+
+      // Act
+      const anonymous = await get('crawlId=audit-1');
+      const foreign = await get('crawlId=audit-1');
+
+      // Assert
+      expect(anonymous.status).toBe(401);
+      expect(foreign.status).toBe(404);
+      expect((await foreign.json()).error).toEqual({ code: 'CRAWL_NOT_FOUND', message: 'Audit not found: audit-1' });
+      expect(renderExport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Downloads', () => {
+    it('should download Markdown by default without loading screenshots', async () => {
+      // Act
+      const response = await get('crawlId=audit-1');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/markdown; charset=utf-8');
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="cro-audit-test-store.myshopify.com-audit-1.md"');
+      expect(await response.text()).toBe('# CRO audit: Test Store\n');
+      expect(loadScreenshots).not.toHaveBeenCalled();
+      expect(buildExportDocument).toHaveBeenCalledWith(audit, []);
+      expect(renderExport).toHaveBeenCalledWith(document, 'md');
+    });
+
+    it('should embed screenshots in PDF downloads', async () => {
+      // Arrange
+      (renderExport as jest.Mock).mockResolvedValueOnce({
+        body: new Uint8Array([37, 80, 68, 70]),
+        contentType: 'application/pdf',
+        filename: 'cro-audit-test-store.myshopify.com-audit-1.pdf'
+      });
+
+      // Act
+      const response = await get('crawlId=audit-1&format=pdf');
+
+      // Assert
+      expect(response.headers.get('Content-Type')).toBe('application/pdf');
+      expect(await response.text()).toBe('%PDF');
+      expect(loadScreenshots).toHaveBeenCalledWith('audit-1');
+      expect(buildExportDocument).toHaveBeenCalledWith(audit, screenshots);
+    });
+
+    it('should answer 500 when the export fails', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (renderExport as jest.Mock).mockRejectedValueOnce(new Error('Executable doesn\'t exist'));
+
+      // Act
+      const response = await get('crawlId=audit-1&format=html');
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.message).toBe('Report could not be exported');
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * GET /api/report/export?crawlId=…&format=md|csv|html|pdf
+ * Downloads an audit as a client deliverable with every finding, in ICE order.
+ * Audits of other users answer 404 so their ids cannot be probed.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, validationErrorResponse } from '@/lib/api/responses';
+import { buildExportDocument, loadScreenshots, renderExport } from '@/lib/export/export';
+import { loadReportSource } from '@/lib/report/report';
+import { ExportQuerySchema } from '@/types';
+
+export async function GET(request: Request) {
+  const params = Object.fromEntries(new URL(request.url).searchParams);
+  const parsed = ExportQuerySchema.safeParse(params);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to export reports');
+  }
+
+  const { crawlId, format } = parsed.data;
+  try {
+    const source = await loadReportSource(crawlId);
+    if (!source || source.userId !== userId) {
+      return errorResponse('CRAWL_NOT_FOUND', `Audit not found: ${crawlId}`);
+    }
+
+    const document = buildExportDocument(source, format === 'html' || format === 'pdf' ? await loadScreenshots(crawlId) : []);
+    const { body, contentType, filename } = await renderExport(document, format);
+    return new Response(body, {
+      headers: { 'Content-Type': contentType, 'Content-Disposition': `attachment; filename="${filename}"` },
+    });
+  } catch (error) {
+    console.error('Failed to export report', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Report could not be exported');
+  }
+}
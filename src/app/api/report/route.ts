@@ -0,0 +1,36 @@
+/**
+ * GET /api/report?crawlId=…&sort=ice&limit=20&page=1
+ * Returns an audit's status, score and ICE-prioritised findings, optionally
+ * filtered by page type, category and severity (comma-separated lists).
+ * Audits of other users answer 404 so their ids cannot be probed.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { buildReport, loadReportSource } from '@/lib/report/report';
+import { ReportQuerySchema } from '@/types';
+
+export async function GET(request: Request) {
+  const params = Object.fromEntries(new URL(request.url).searchParams);
+  const parsed = ReportQuerySchema.safeParse(params);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to view reports');
+  }
+
+  try {
+    const source = await loadReportSource(parsed.data.crawlId);
+    if (!source || source.userId !== userId) {
+      return errorResponse('CRAWL_NOT_FOUND', `Audit not found: ${parsed.data.crawlId}`);
+    }
+
+    return successResponse(buildReport(source, parsed.data));
+  } catch (error) {
+    console.error('Failed to build report', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Report could not be loaded');
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for /api/screenshots/[id]
+ * Sign-in and screenshot storage are mocked; they have their own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { loadScreenshotImage } from '@/lib/screenshots/screenshot-store';
+import { GET } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/screenshots/screenshot-store', () => ({
+  loadScreenshotImage: jest.fn()
+}));
+
+const context = { params: { id: 'shot-1' } };
+
+const request = (query = '') => new Request(`http://localhost/api/screenshots/shot-1${query}`);
+
+describe('/api/screenshots/[id] - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (loadScreenshotImage as jest.Mock).mockResolvedValue({ data: Buffer.from('jpeg-bytes'), contentType: 'image/jpeg' });
+  });
+
+  describe('RED Phase: Access and Validation', () => {
+    it('should reject anonymous callers and unknown variants', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const anonymous = await GET(request(), context);
+      const invalid = await GET(request('?variant=tiny'), context);
+
+      // Assert
+      expect(anonymous.status).toBe(401);
+      expect(invalid.status).toBe(400);
+      expect(loadScreenshotImage).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 for screenshots the user does not have', async () => {
+      // Arrange
+      (loadScreenshotImage as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const response = await GET(request(), context);
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect((await response.json()).error).toEqual({ code: 'SCREENSHOT_NOT_FOUND', message: 'Screenshot not found: shot-1' });
+    });
+  });
+
+  describe('GREEN Phase: Images', () => {
+    it('should serve the full screenshot by default and the thumbnail on request', async () => {
+      // Act
+      const full = await GET(request(), context);
+      await GET(request('?variant=thumbnail'), context);
+
+      // Assert
+      expect(full.status).toBe(200);
+      expect(full.headers.get('Content-Type')).toBe('image/jpeg');
+      expect(full.headers.get('Cache-Control')).toBe('private, max-age=86400, immutable');
+      expect(Buffer.from(await full.arrayBuffer()).toString()).toBe('jpeg-bytes');
+      expect(loadScreenshotImage).toHaveBeenNthCalledWith(1, 'user-1', 'shot-1', 'full');
+      expect(loadScreenshotImage).toHaveBeenNthCalledWith(2, 'user-1', 'shot-1', 'thumbnail');
+    });
+  });
+
+  describe('REFACTOR Phase: Failures', () => {
+    it('should log storage failures and answer 500', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (loadScreenshotImage as jest.Mock).mockRejectedValueOnce(new Error('EACCES'));
+
+      // Act
+      const response = await GET(request(), context);
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to load screenshot', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * GET /api/screenshots/[id]?variant=full|thumbnail
+ * Serves a page screenshot, or its thumbnail for the dashboard.
+ * Screenshots of other users answer 404 like missing ones.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, validationErrorResponse } from '@/lib/api/responses';
+import { loadScreenshotImage } from '@/lib/screenshots/screenshot-store';
+import { ScreenshotQuerySchema } from '@/types';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Stored images never change, but they are only for the owner's browser
+const CACHE_CONTROL = 'private, max-age=86400, immutable';
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const query = Object.fromEntries(new URL(request.url).searchParams);
+  const parsed = ScreenshotQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to view screenshots');
+  }
+
+  try {
+    const image = await loadScreenshotImage(userId, params.id, parsed.data.variant);
+    if (!image) {
+      return errorResponse('SCREENSHOT_NOT_FOUND', `Screenshot not found: ${params.id}`);
+    }
+    return new Response(new Uint8Array(image.data), {
+      headers: { 'Content-Type': image.contentType, 'Cache-Control': CACHE_CONTROL },
+    });
+  } catch (error) {
+    console.error('Failed to load screenshot', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Screenshot could not be loaded');
+  }
+}
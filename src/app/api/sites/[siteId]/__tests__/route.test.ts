@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for /api/sites/[siteId]
+ * Sign-in and site storage are mocked; they have their own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { deleteSite, getSiteWithHistory, updateSite } from '@/lib/sites/site-store';
+import { DELETE, GET, PUT } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/sites/site-store', () => ({
+  deleteSite: jest.fn(),
+  getSiteWithHistory: jest.fn(),
+  updateSite: jest.fn()
+}));
+
+const site = { id: 'site-1', url: 'https://test-store.myshopify.com', isActive: true, audits: [{ id: 'audit-1', status: 'completed' }] };
+
+const context = { params: { siteId: 'site-1' } };
+
+const request = (method: string, body?: unknown) => new Request('http://localhost/api/sites/site-1', {
+  method,
+  ...(body !== undefined ? { body: typeof body === 'string' ? body : JSON.stringify(body) } : {})
+});
+
+describe('/api/sites/[siteId] - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (getSiteWithHistory as jest.Mock).mockResolvedValue(site);
+    (updateSite as jest.Mock).mockResolvedValue({ ...site, isActive: false });
+    (deleteSite as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('RED Phase: Access', () => {
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const responses = [
+        await GET(request('GET'), context),
+        await PUT(request('PUT', { name: 'Store' }), context),
+        await DELETE(request('DELETE'), context)
+      ];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([401, 401, 401]);
+    });
+
+    it('should answer 404 for sites the user does not have', async () => {
+      // Arrange
+      (getSiteWithHistory as jest.Mock).mockResolvedValueOnce(null);
+      (updateSite as jest.Mock).mockResolvedValueOnce(null);
+      (deleteSite as jest.Mock).mockResolvedValueOnce(false);
+
+      // Act
+      const responses = [
+        await GET(request('GET'), context),
+        await PUT(request('PUT', { name: 'Store' }), context),
+        await DELETE(request('DELETE'), context)
+      ];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([404, 404, 404]);
+      expect((await responses[0]!.json()).error).toEqual({ code: 'SITE_NOT_FOUND', message: 'Site not found: site-1' });
+    });
+
+    it('should validate updates', async () => {
+      // Act
+      const notJson = await PUT(request('PUT', '{name'), context);
+      const invalid = await (await PUT(request('PUT', { isActive: 'no', settings: { persona: 'pirate' } }), context)).json();
+
+      // Assert
+      expect(notJson.status).toBe(400);
+      expect(invalid.error.details.issues.map((issue: { path: string }) => issue.path)).toEqual(['settings.persona', 'isActive']);
+      expect(updateSite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Read, Update and Delete', () => {
+    it('should return the site with its audit history', async () => {
+      // Act
+      const response = await GET(request('GET'), context);
+
+      // Assert
+      expect(await response.json()).toEqual({ success: true, data: site });
+      expect(getSiteWithHistory).toHaveBeenCalledWith('user-1', 'site-1');
+    });
+
+    it('should update and delete the site', async () => {
+      // Act
+      const updated = await (await PUT(request('PUT', { isActive: false, settings: { maxPages: 10 } }), context)).json();
+      const deleted = await (await DELETE(request('DELETE'), context)).json();
+
+      // Assert
+      expect(updated.data.isActive).toBe(false);
+      expect(updateSite).toHaveBeenCalledWith('user-1', 'site-1', { isActive: false, settings: { maxPages: 10 } });
+      expect(deleted).toEqual({ success: true, data: { id: 'site-1' } });
+    });
+
+    it('should answer 500 when storage fails', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const failure = new Error('Connection refused');
+      (getSiteWithHistory as jest.Mock).mockRejectedValueOnce(failure);
+      (updateSite as jest.Mock).mockRejectedValueOnce(failure);
+      (deleteSite as jest.Mock).mockRejectedValueOnce(failure);
+
+      // Act
+      const responses = [
+        await GET(request('GET'), context),
+        await PUT(request('PUT', { name: 'Store' }), context),
+        await DELETE(request('DELETE'), context)
+      ];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([500, 500, 500]);
+      consoleSpy.mockRestore();
+    });
+  });
+});
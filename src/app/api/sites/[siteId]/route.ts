@@ -0,0 +1,73 @@
+/**
+ * GET /api/sites/[siteId] - a site with its most recent audits
+ * PUT /api/sites/[siteId] - update name, description, settings or isActive
+ * DELETE /api/sites/[siteId] - remove a site and its audit history
+ * Sites of other users answer 404 like missing ones.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { deleteSite, getSiteWithHistory, updateSite } from '@/lib/sites/site-store';
+import { UpdateSiteSchema } from '@/types';
+
+interface RouteContext {
+  params: { siteId: string };
+}
+
+const notFound = (siteId: string) => errorResponse('SITE_NOT_FOUND', `Site not found: ${siteId}`);
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to view sites');
+  }
+
+  try {
+    const site = await getSiteWithHistory(userId, params.siteId);
+    return site ? successResponse(site) : notFound(params.siteId);
+  } catch (error) {
+    console.error('Failed to load site', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Site could not be loaded');
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('VALIDATION_ERROR', 'Request body must be valid JSON');
+  }
+
+  const parsed = UpdateSiteSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to update sites');
+  }
+
+  try {
+    const site = await updateSite(userId, params.siteId, parsed.data);
+    return site ? successResponse(site) : notFound(params.siteId);
+  } catch (error) {
+    console.error('Failed to update site', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Site could not be updated');
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to delete sites');
+  }
+
+  try {
+    return (await deleteSite(userId, params.siteId)) ? successResponse({ id: params.siteId }) : notFound(params.siteId);
+  } catch (error) {
+    console.error('Failed to delete site', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Site could not be deleted');
+  }
+}
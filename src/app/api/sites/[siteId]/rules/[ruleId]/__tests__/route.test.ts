@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for /api/sites/[siteId]/rules/[ruleId]
+ * Sign-in, rule lookup, validation and storage are mocked; they have their own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { validateRuleConfig } from '@/lib/heuristics/rule-config';
+import { deleteSiteRuleOverride, findConfigurableRule, saveSiteRuleOverride } from '@/lib/heuristics/rule-config-store';
+import { DELETE, PUT } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/heuristics/rule-config', () => ({
+  validateRuleConfig: jest.fn()
+}));
+
+jest.mock('@/lib/heuristics/rule-config-store', () => ({
+  deleteSiteRuleOverride: jest.fn(),
+  findConfigurableRule: jest.fn(),
+  saveSiteRuleOverride: jest.fn()
+}));
+
+const rule = { ruleId: 'hero_cta_detection', name: 'Hero CTA Presence' };
+
+const context = { params: { siteId: 'site-1', ruleId: 'hero_cta_detection' } };
+
+const request = (method: string, body?: unknown) => new Request('http://localhost/api/sites/site-1/rules/hero_cta_detection', {
+  method,
+  ...(body !== undefined ? { body: typeof body === 'string' ? body : JSON.stringify(body) } : {})
+});
+
+describe('/api/sites/[siteId]/rules/[ruleId] - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (findConfigurableRule as jest.Mock).mockReturnValue(rule);
+    (validateRuleConfig as jest.Mock).mockReturnValue(null);
+    (saveSiteRuleOverride as jest.Mock).mockResolvedValue({ ruleId: 'hero_cta_detection' });
+    (deleteSiteRuleOverride as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('RED Phase: Access and Validation', () => {
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const responses = [await PUT(request('PUT', {}), context), await DELETE(request('DELETE'), context)];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([401, 401]);
+      expect(saveSiteRuleOverride).not.toHaveBeenCalled();
+      expect(deleteSiteRuleOverride).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['not json', 'Request body must be valid JSON'],
+      [{ enabled: 'no' }, 'Expected boolean, received string'],
+      [{ maxScore: 2.5 }, 'Expected integer, received float']
+    ])('should reject %p', async (body, message) => {
+      // Act
+      const response = await PUT(request('PUT', body), context);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.message).toBe(message);
+    });
+
+    it('should answer 404 for unknown rules and 400 for thresholds the rule does not accept', async () => {
+      // Arrange
+      (findConfigurableRule as jest.Mock).mockReturnValueOnce(null);
+      (validateRuleConfig as jest.Mock).mockReturnValueOnce('Rule hero_cta_detection has no threshold named ratio');
+
+      // Act
+      const unknown = await PUT(request('PUT', {}), context);
+      const invalid = await PUT(request('PUT', { thresholds: { ratio: 1 } }), context);
+
+      // Assert
+      expect(unknown.status).toBe(404);
+      expect((await unknown.json()).error.code).toBe('RULE_NOT_FOUND');
+      expect(invalid.status).toBe(400);
+      expect((await invalid.json()).error.message).toBe('Rule hero_cta_detection has no threshold named ratio');
+      expect(saveSiteRuleOverride).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 for sites the user does not own and overrides that do not exist', async () => {
+      // Arrange
+      (saveSiteRuleOverride as jest.Mock).mockResolvedValueOnce(null);
+      (deleteSiteRuleOverride as jest.Mock).mockResolvedValueOnce(false);
+
+      // Act
+      const saved = await PUT(request('PUT', {}), context);
+      const deleted = await DELETE(request('DELETE'), context);
+
+      // Assert
+      expect((await saved.json()).error).toEqual({ code: 'SITE_NOT_FOUND', message: 'Site not found: site-1' });
+      expect(deleted.status).toBe(404);
+      expect((await deleted.json()).error.message).toBe('No override of hero_cta_detection for site: site-1');
+    });
+  });
+
+  describe('GREEN Phase: Overrides', () => {
+    it('should save an override that leaves omitted settings to the global configuration', async () => {
+      // Act
+      const response = await PUT(request('PUT', { thresholds: { minProminentWidth: 160 } }), context);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toEqual({ ruleId: 'hero_cta_detection' });
+      expect(saveSiteRuleOverride).toHaveBeenCalledWith('user-1', 'site-1', rule, {
+        enabled: null,
+        severity: null,
+        maxScore: null,
+        thresholds: { minProminentWidth: 160 }
+      });
+    });
+
+    it('should delete the override', async () => {
+      // Act
+      const response = await DELETE(request('DELETE'), context);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toEqual({ siteId: 'site-1', ruleId: 'hero_cta_detection' });
+      expect(deleteSiteRuleOverride).toHaveBeenCalledWith('user-1', 'site-1', 'hero_cta_detection');
+    });
+
+    it('should answer 500 when storage fails', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (saveSiteRuleOverride as jest.Mock).mockRejectedValueOnce(new Error('db down'));
+      (deleteSiteRuleOverride as jest.Mock).mockRejectedValueOnce(new Error('db down'));
+
+      // Act
+      const saved = await PUT(request('PUT', {}), context);
+      const deleted = await DELETE(request('DELETE'), context);
+
+      // Assert
+      expect([saved.status, deleted.status]).toEqual([500, 500]);
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to save rule override', expect.any(Error));
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to delete rule override', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * PUT /api/sites/[siteId]/rules/[ruleId] - replace the site's override of a rule
+ * DELETE /api/sites/[siteId]/rules/[ruleId] - drop the override so the global configuration applies again
+ * Sites of other users answer 404 like missing ones.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { validateRuleConfig } from '@/lib/heuristics/rule-config';
+import { deleteSiteRuleOverride, findConfigurableRule, saveSiteRuleOverride } from '@/lib/heuristics/rule-config-store';
+import { SaveRuleOverrideSchema } from '@/types';
+
+interface RouteContext {
+  params: { siteId: string; ruleId: string };
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('VALIDATION_ERROR', 'Request body must be valid JSON');
+  }
+
+  const parsed = SaveRuleOverrideSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const rule = findConfigurableRule(params.ruleId);
+  if (!rule) {
+    return errorResponse('RULE_NOT_FOUND', `Rule not found: ${params.ruleId}`);
+  }
+  const configError = validateRuleConfig(rule, parsed.data);
+  if (configError) {
+    return errorResponse('VALIDATION_ERROR', configError);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to override rules');
+  }
+
+  try {
+    const view = await saveSiteRuleOverride(userId, params.siteId, rule, parsed.data);
+    return view ? successResponse(view) : errorResponse('SITE_NOT_FOUND', `Site not found: ${params.siteId}`);
+  } catch (error) {
+    console.error('Failed to save rule override', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Rule override could not be saved');
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to override rules');
+  }
+
+  try {
+    return (await deleteSiteRuleOverride(userId, params.siteId, params.ruleId))
+      ? successResponse({ siteId: params.siteId, ruleId: params.ruleId })
+      : errorResponse('RULE_NOT_FOUND', `No override of ${params.ruleId} for site: ${params.siteId}`);
+  } catch (error) {
+    console.error('Failed to delete rule override', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Rule override could not be deleted');
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for GET /api/sites/[siteId]/rules
+ * Sign-in and rule configuration storage are mocked; they have their own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { listSiteRuleConfigs } from '@/lib/heuristics/rule-config-store';
+import { GET } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/heuristics/rule-config-store', () => ({
+  listSiteRuleConfigs: jest.fn()
+}));
+
+const views = [{ ruleId: 'hero_cta_detection', global: null, override: null }];
+
+const context = { params: { siteId: 'site-1' } };
+
+const get = () => GET(new Request('http://localhost/api/sites/site-1/rules'), context);
+
+describe('GET /api/sites/[siteId]/rules - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (listSiteRuleConfigs as jest.Mock).mockResolvedValue(views);
+  });
+
+  describe('RED Phase: Access', () => {
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const response = await get();
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(listSiteRuleConfigs).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 for sites the user does not own', async () => {
+      // Arrange
+      (listSiteRuleConfigs as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const response = await get();
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect((await response.json()).error).toEqual({ code: 'SITE_NOT_FOUND', message: 'Site not found: site-1' });
+    });
+  });
+
+  describe('GREEN Phase: Listing', () => {
+    it('should list the rules with the site layer', async () => {
+      // Act
+      const response = await get();
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toEqual(views);
+      expect(listSiteRuleConfigs).toHaveBeenCalledWith('user-1', 'site-1');
+    });
+
+    it('should answer 500 when the overrides cannot be loaded', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (listSiteRuleConfigs as jest.Mock).mockRejectedValueOnce(new Error('db down'));
+
+      // Act
+      const response = await get();
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to load rule overrides', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * GET /api/sites/[siteId]/rules - every built-in heuristic rule with the global configuration,
+ * the site's override and the settings the site's audits run with
+ * Sites of other users answer 404 like missing ones.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse } from '@/lib/api/responses';
+import { listSiteRuleConfigs } from '@/lib/heuristics/rule-config-store';
+
+interface RouteContext {
+  params: { siteId: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to view rule overrides');
+  }
+
+  try {
+    const rules = await listSiteRuleConfigs(userId, params.siteId);
+    return rules ? successResponse(rules) : errorResponse('SITE_NOT_FOUND', `Site not found: ${params.siteId}`);
+  } catch (error) {
+    console.error('Failed to load rule overrides', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Rule overrides could not be loaded');
+  }
+}
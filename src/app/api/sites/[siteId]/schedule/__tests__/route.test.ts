@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for /api/sites/[siteId]/schedule
+ * Sign-in and schedule storage are mocked; they have their own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { deleteSchedule, getSchedule, saveSchedule } from '@/lib/schedules/schedule-store';
+import { DELETE, GET, PUT } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/schedules/schedule-store', () => ({
+  deleteSchedule: jest.fn(),
+  getSchedule: jest.fn(),
+  saveSchedule: jest.fn(),
+  scheduleCron: ({ frequency, cron }: { frequency: string; cron?: string }) => (frequency === 'cron' ? cron : '0 6 * * *')
+}));
+
+const schedule = { id: 'schedule-1', siteId: 'site-1', frequency: 'daily', cron: '0 6 * * *', webhookSecret: 'whsec_test', deliveries: [] };
+
+const context = { params: { siteId: 'site-1' } };
+
+const request = (method: string, body?: unknown) => new Request('http://localhost/api/sites/site-1/schedule', {
+  method,
+  ...(body !== undefined ? { body: typeof body === 'string' ? body : JSON.stringify(body) } : {})
+});
+
+describe('/api/sites/[siteId]/schedule - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (getSchedule as jest.Mock).mockResolvedValue(schedule);
+    (saveSchedule as jest.Mock).mockResolvedValue(schedule);
+    (deleteSchedule as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('RED Phase: Access and Validation', () => {
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const responses = [
+        await GET(request('GET'), context),
+        await PUT(request('PUT', { frequency: 'daily' }), context),
+        await DELETE(request('DELETE'), context)
+      ];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([401, 401, 401]);
+    });
+
+    it('should answer 404 for sites or schedules the user does not have', async () => {
+      // Arrange
+      (getSchedule as jest.Mock).mockResolvedValueOnce(null);
+      (saveSchedule as jest.Mock).mockResolvedValueOnce(null);
+      (deleteSchedule as jest.Mock).mockResolvedValueOnce(false);
+
+      // Act
+      const responses = [
+        await GET(request('GET'), context),
+        await PUT(request('PUT', { frequency: 'daily' }), context),
+        await DELETE(request('DELETE'), context)
+      ];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([404, 404, 404]);
+      expect((await responses[0]!.json()).error).toEqual({ code: 'SCHEDULE_NOT_FOUND', message: 'No audit schedule for site: site-1' });
+      expect((await responses[1]!.json()).error.code).toBe('SITE_NOT_FOUND');
+    });
+
+    it.each([
+      ['not json', 'Request body must be valid JSON'],
+      [{ frequency: 'hourly' }, "Invalid enum value. Expected 'daily' | 'weekly' | 'cron', received 'hourly'"],
+      [{ frequency: 'cron' }, 'cron is required for the cron frequency'],
+      [{ frequency: 'daily', webhookUrl: 'ftp://hooks.example.com' }, 'Webhook URL must use http or https'],
+      [{ frequency: 'daily', scoreDropThreshold: 0 }, 'Number must be greater than or equal to 1'],
+      [{ frequency: 'cron', cron: '0 6 * *' }, 'Invalid cron expression "0 6 * *": expected 5 fields'],
+      [{ frequency: 'cron', cron: '*/30 * * * *' }, 'Schedules may run at most once an hour: use a single minute value']
+    ])('should reject %p', async (body, message) => {
+      // Act
+      const response = await PUT(request('PUT', body), context);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.message).toBe(message);
+      expect(saveSchedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Schedules', () => {
+    it('should return the schedule with its deliveries', async () => {
+      // Act
+      const response = await GET(request('GET'), context);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toEqual(schedule);
+      expect(getSchedule).toHaveBeenCalledWith('user-1', 'site-1');
+    });
+
+    it('should save the schedule with defaults applied', async () => {
+      // Act
+      const response = await PUT(request('PUT', { frequency: 'cron', cron: ' 15 3 * * 1-5 ', webhookUrl: 'https://hooks.example.com/cro' }), context);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(saveSchedule).toHaveBeenCalledWith('user-1', 'site-1', {
+        frequency: 'cron',
+        cron: '15 3 * * 1-5',
+        enabled: true,
+        webhookUrl: 'https://hooks.example.com/cro',
+        scoreDropThreshold: 5,
+        alertOnHighSeverity: true,
+        rotateSecret: false
+      });
+    });
+
+    it('should delete the schedule', async () => {
+      // Act
+      const response = await DELETE(request('DELETE'), context);
+
+      // Assert
+      expect((await response.json()).data).toEqual({ siteId: 'site-1' });
+      expect(deleteSchedule).toHaveBeenCalledWith('user-1', 'site-1');
+    });
+  });
+
+  describe('REFACTOR Phase: Failures', () => {
+    it('should answer 500 when storage fails', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (getSchedule as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable'));
+      (saveSchedule as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable'));
+      (deleteSchedule as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable'));
+
+      // Act
+      const responses = [
+        await GET(request('GET'), context),
+        await PUT(request('PUT', { frequency: 'weekly' }), context),
+        await DELETE(request('DELETE'), context)
+      ];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([500, 500, 500]);
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to save schedule', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+});
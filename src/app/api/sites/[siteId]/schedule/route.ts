@@ -0,0 +1,87 @@
+/**
+ * GET /api/sites/[siteId]/schedule - the site's audit schedule with its recent webhook deliveries
+ * PUT /api/sites/[siteId]/schedule - create or replace the schedule
+ * DELETE /api/sites/[siteId]/schedule - stop scheduling audits of the site
+ * Sites of other users answer 404 like missing ones.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { parseCron } from '@/lib/schedules/cron';
+import { deleteSchedule, getSchedule, saveSchedule, scheduleCron } from '@/lib/schedules/schedule-store';
+import { SaveScheduleSchema } from '@/types';
+
+interface RouteContext {
+  params: { siteId: string };
+}
+
+const notFound = (siteId: string) => errorResponse('SCHEDULE_NOT_FOUND', `No audit schedule for site: ${siteId}`);
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to view schedules');
+  }
+
+  try {
+    const schedule = await getSchedule(userId, params.siteId);
+    return schedule ? successResponse(schedule) : notFound(params.siteId);
+  } catch (error) {
+    console.error('Failed to load schedule', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Schedule could not be loaded');
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('VALIDATION_ERROR', 'Request body must be valid JSON');
+  }
+
+  const parsed = SaveScheduleSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+  const cronError = validateCron(scheduleCron(parsed.data));
+  if (cronError) {
+    return errorResponse('VALIDATION_ERROR', cronError);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to schedule audits');
+  }
+
+  try {
+    const schedule = await saveSchedule(userId, params.siteId, parsed.data);
+    return schedule ? successResponse(schedule) : errorResponse('SITE_NOT_FOUND', `Site not found: ${params.siteId}`);
+  } catch (error) {
+    console.error('Failed to save schedule', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Schedule could not be saved');
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to delete schedules');
+  }
+
+  try {
+    return (await deleteSchedule(userId, params.siteId)) ? successResponse({ siteId: params.siteId }) : notFound(params.siteId);
+  } catch (error) {
+    console.error('Failed to delete schedule', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Schedule could not be deleted');
+  }
+}
+
+// Audits take minutes and cost LLM spend, so a schedule may run at most once an hour
+function validateCron(cron: string): string | null {
+  try {
+    return parseCron(cron).minutes.size === 1 ? null : 'Schedules may run at most once an hour: use a single minute value';
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
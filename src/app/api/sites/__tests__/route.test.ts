@@ -0,0 +1,146 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for GET and POST /api/sites
+ * Sign-in, site storage and storefront detection are mocked; they have their own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { createSite, findSiteByUrl, listSites } from '@/lib/sites/site-store';
+import { isShopifyStorefront } from '@/lib/sites/storefront';
+import { GET, POST } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/sites/site-store', () => ({
+  createSite: jest.fn(),
+  findSiteByUrl: jest.fn(),
+  listSites: jest.fn()
+}));
+
+jest.mock('@/lib/sites/storefront', () => ({
+  isShopifyStorefront: jest.fn(),
+  normalizeStoreUrl: (url: string) => new URL(url).origin
+}));
+
+const site = {
+  id: 'site-1',
+  url: 'https://new-store.myshopify.com',
+  name: 'New Store',
+  settings: { persona: 'fr-que', maxPages: 20, excludePaths: ['/admin'] }
+};
+
+const list = (query = '') => GET(new Request(`http://localhost/api/sites${query}`));
+
+const create = (body: unknown) => POST(new Request('http://localhost/api/sites', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: typeof body === 'string' ? body : JSON.stringify(body)
+}));
+
+describe('/api/sites - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (listSites as jest.Mock).mockResolvedValue({ sites: [site], total: 25 });
+    (findSiteByUrl as jest.Mock).mockResolvedValue(null);
+    (isShopifyStorefront as jest.Mock).mockResolvedValue(true);
+    (createSite as jest.Mock).mockResolvedValue(site);
+  });
+
+  describe('RED Phase: Validation', () => {
+    it('should validate pagination and site bodies', async () => {
+      // Act
+      const badPage = await list('?limit=0');
+      const notJson = await create('{url');
+      const badSettings = await (await create({ url: 'https://new-store.myshopify.com', settings: { maxPages: 80, excludePaths: ['admin'] } })).json();
+
+      // Assert
+      expect(badPage.status).toBe(400);
+      expect((await notJson.json()).error.message).toBe('Request body must be valid JSON');
+      expect(badSettings.error.details.issues.map((issue: { path: string }) => issue.path)).toEqual(['settings.maxPages', 'settings.excludePaths.0']);
+    });
+
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const responses = [await list(), await create({ url: 'https://new-store.myshopify.com' })];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([401, 401]);
+    });
+
+    it('should refuse duplicates and stores that are not on Shopify', async () => {
+      // Arrange
+      (findSiteByUrl as jest.Mock).mockResolvedValueOnce(site);
+      (isShopifyStorefront as jest.Mock).mockResolvedValueOnce(false);
+
+      // Act
+      const duplicate = await create({ url: 'https://new-store.myshopify.com/products/a' });
+      const notShopify = await create({ url: 'https://example.com' });
+
+      // Assert
+      expect(duplicate.status).toBe(409);
+      expect((await duplicate.json()).error.message).toBe('Site already exists: https://new-store.myshopify.com');
+      expect(notShopify.status).toBe(400);
+      expect((await notShopify.json()).error.message).toBe('URL is not a Shopify storefront: https://example.com');
+      expect(createSite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: List and Create', () => {
+    it('should list sites with pagination', async () => {
+      // Act
+      const response = await list('?page=1&limit=10');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        success: true,
+        data: { data: [site], pagination: { page: 1, limit: 10, total: 25, hasNext: true, hasPrev: false } }
+      });
+      expect(listSites).toHaveBeenCalledWith('user-1', { page: 1, limit: 10 });
+    });
+
+    it('should create a site with its settings', async () => {
+      // Act
+      const response = await create({ url: 'https://new-store.myshopify.com', name: 'New Store', settings: site.settings });
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect((await response.json()).data).toEqual(site);
+      expect(createSite).toHaveBeenCalledWith('user-1', { url: 'https://new-store.myshopify.com', name: 'New Store', settings: site.settings });
+    });
+
+    it('should answer 409 when a concurrent request registered the store first', async () => {
+      // Arrange
+      (createSite as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const response = await create({ url: 'https://new-store.myshopify.com' });
+
+      // Assert
+      expect(response.status).toBe(409);
+      expect((await response.json()).error).toEqual({ code: 'DUPLICATE_ENTRY', message: 'Site already exists: https://new-store.myshopify.com' });
+    });
+
+    it('should answer 500 when sites cannot be stored or read', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (listSites as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+      (createSite as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+
+      // Act
+      const responses = [await list(), await create({ url: 'https://new-store.myshopify.com' })];
+
+      // Assert
+      expect(responses.map(response => response.status)).toEqual([500, 500]);
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * GET /api/sites?page=1&limit=10 - the user's sites, newest first
+ * POST /api/sites - register a Shopify storefront with its crawl settings
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { buildPagination } from '@/lib/api/pagination';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { createSite, findSiteByUrl, listSites } from '@/lib/sites/site-store';
+import { isShopifyStorefront, normalizeStoreUrl } from '@/lib/sites/storefront';
+import { CreateSiteSchema, PaginationQuerySchema } from '@/types';
+
+export async function GET(request: Request) {
+  const parsed = PaginationQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to view sites');
+  }
+
+  try {
+    const { sites, total } = await listSites(userId, parsed.data);
+    return successResponse({ data: sites, pagination: buildPagination(parsed.data, total) });
+  } catch (error) {
+    console.error('Failed to list sites', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Sites could not be loaded');
+  }
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('VALIDATION_ERROR', 'Request body must be valid JSON');
+  }
+
+  const parsed = CreateSiteSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to add a site');
+  }
+
+  const url = normalizeStoreUrl(parsed.data.url);
+  try {
+    if (await findSiteByUrl(userId, url)) {
+      return errorResponse('DUPLICATE_ENTRY', `Site already exists: ${url}`);
+    }
+    if (!(await isShopifyStorefront(url))) {
+      return errorResponse('VALIDATION_ERROR', `URL is not a Shopify storefront: ${url}`);
+    }
+
+    // A concurrent request may have registered the store since it was looked up
+    const site = await createSite(userId, parsed.data);
+    if (!site) {
+      return errorResponse('DUPLICATE_ENTRY', `Site already exists: ${url}`);
+    }
+    return successResponse(site, 201);
+  } catch (error) {
+    console.error('Failed to create site', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Site could not be created');
+  }
+}
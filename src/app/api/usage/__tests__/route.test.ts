@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for GET /api/usage
+ * Sign-in and the usage rollup are mocked; the rollup has its own tests
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { getUserUsage } from '@/lib/llm/usage-store';
+import { GET } from '../route';
+
+jest.mock('@/lib/api/auth', () => ({
+  getCurrentUserId: jest.fn()
+}));
+
+jest.mock('@/lib/llm/usage-store', () => ({
+  getUserUsage: jest.fn()
+}));
+
+const get = (query = '') => GET(new Request(`http://localhost/api/usage${query}`));
+
+const usage = { audits: 4, calls: 30, tokenUsage: { prompt: 24000, completion: 6000, total: 30000 }, costCents: 0.72 };
+
+describe('GET /api/usage - TDD', () => {
+  beforeEach(() => {
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (getUserUsage as jest.Mock).mockResolvedValue(usage);
+  });
+
+  describe('RED Phase: Access and Validation', () => {
+    it('should reject anonymous callers', async () => {
+      // Arrange
+      (getCurrentUserId as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const response = await get();
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect((await response.json()).error.code).toBe('UNAUTHORIZED');
+      expect(getUserUsage).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid dates and empty periods', async () => {
+      // Act
+      const invalid = await get('?from=yesterday');
+      const empty = await get('?from=2026-11-01&to=2026-10-01');
+
+      // Assert
+      expect(invalid.status).toBe(400);
+      expect(empty.status).toBe(400);
+      expect((await empty.json()).error.code).toBe('VALIDATION_ERROR');
+      expect(getUserUsage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Usage', () => {
+    it('should roll up the spend of the period', async () => {
+      // Act
+      const response = await get('?from=2026-10-01&to=2026-11-01');
+
+      // Assert
+      expect(await response.json()).toEqual({ success: true, data: usage });
+      expect(getUserUsage).toHaveBeenCalledWith('user-1', {
+        since: new Date('2026-10-01T00:00:00Z'),
+        until: new Date('2026-11-01T00:00:00Z')
+      });
+    });
+
+    it('should count every audit without a period', async () => {
+      // Act
+      await get();
+
+      // Assert
+      expect(getUserUsage).toHaveBeenCalledWith('user-1', {});
+    });
+
+    it('should answer 500 when usage cannot be loaded', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (getUserUsage as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+
+      // Act
+      const response = await get();
+
+      // Assert
+      expect(response.status).toBe(500);
+      consoleSpy.mockRestore();
+    });
+  });
+});
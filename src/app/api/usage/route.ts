@@ -0,0 +1,32 @@
+/**
+ * GET /api/usage?from=…&to=…
+ * LLM spend of the signed-in user's audits for billing: audits, calls, tokens
+ * and cost. from (inclusive) and to (exclusive) filter on the audit creation
+ * date; without them every audit counts.
+ */
+
+import { getCurrentUserId } from '@/lib/api/auth';
+import { errorResponse, successResponse, validationErrorResponse } from '@/lib/api/responses';
+import { getUserUsage } from '@/lib/llm/usage-store';
+import { UsageQuerySchema } from '@/types';
+
+export async function GET(request: Request) {
+  const params = Object.fromEntries(new URL(request.url).searchParams);
+  const parsed = UsageQuerySchema.safeParse(params);
+  if (!parsed.success) {
+    return validationErrorResponse(parsed.error);
+  }
+
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return errorResponse('UNAUTHORIZED', 'Sign in to see your usage');
+  }
+
+  const { from, to } = parsed.data;
+  try {
+    return successResponse(await getUserUsage(userId, { ...(from ? { since: from } : {}), ...(to ? { until: to } : {}) }));
+  } catch (error) {
+    console.error('Failed to load usage', error);
+    return errorResponse('INTERNAL_SERVER_ERROR', 'Usage could not be loaded');
+  }
+}
@@ -1,3 +1,5 @@
+import QuickAuditForm from '@/components/QuickAuditForm'
+
 export default function HomePage() {
 
   return (
@@ -31,12 +33,7 @@ export default function HomePage() {
                 <p className="text-gray-600 mb-4">
                   Analyze your store&apos;s homepage, product pages, and checkout flow
                 </p>
-                <button 
-                  className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-                  disabled
-                >
-                  Coming Soon (TDD Implementation)
-                </button>
+                <QuickAuditForm />
               </div>
 
               <div className="p-6 border border-gray-200 rounded-lg">
@@ -0,0 +1,45 @@
+/**
+ * TDD Test Suite for the report page
+ * The findings and diff views are mocked; they have their own tests
+ */
+
+import { render, screen } from '@testing-library/react'
+import ReportPage from '../page'
+
+jest.mock('@/components/AuditDiff', () => ({
+  __esModule: true,
+  default: ({ crawlId, baseId }: { crawlId: string; baseId?: string }) => <p>Diff of {crawlId} against {baseId ?? 'previous'}</p>
+}))
+
+jest.mock('@/components/ReportFindings', () => ({
+  __esModule: true,
+  default: ({ crawlId }: { crawlId: string }) => <p>Findings of {crawlId}</p>
+}))
+
+describe('ReportPage - TDD', () => {
+  describe('GREEN Phase: Layout', () => {
+    it('should link every export format of the audit', () => {
+      // Act
+      render(<ReportPage params={{ crawlId: 'audit 2' }} searchParams={{}} />)
+
+      // Assert
+      expect(screen.getByRole('heading', { name: 'Audit audit 2' })).toBeInTheDocument()
+      expect(screen.getAllByRole('link').map(link => link.getAttribute('href'))).toEqual([
+        '/api/report/export?crawlId=audit%202&format=pdf',
+        '/api/report/export?crawlId=audit%202&format=html',
+        '/api/report/export?crawlId=audit%202&format=md',
+        '/api/report/export?crawlId=audit%202&format=csv'
+      ])
+      expect(screen.getByText('Findings of audit 2')).toBeInTheDocument()
+      expect(screen.getByText('Diff of audit 2 against previous')).toBeInTheDocument()
+    })
+
+    it('should pass the chosen base audit to the diff view', () => {
+      // Act
+      render(<ReportPage params={{ crawlId: 'audit-2' }} searchParams={{ baseId: 'audit-0' }} />)
+
+      // Assert
+      expect(screen.getByText('Diff of audit-2 against audit-0')).toBeInTheDocument()
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import AuditDiff from '@/components/AuditDiff'
+import ReportFindings from '@/components/ReportFindings'
+import type { ExportFormat } from '@/types'
+
+interface ReportPageProps {
+  params: { crawlId: string }
+  searchParams: { baseId?: string }
+}
+
+const EXPORT_LINKS: { format: ExportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'html', label: 'HTML' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'csv', label: 'CSV' },
+]
+
+export default function ReportPage({ params, searchParams }: ReportPageProps) {
+  const crawlId = encodeURIComponent(params.crawlId)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Audit {params.crawlId}</h1>
+          <nav aria-label="Downloads" className="flex gap-4 text-sm">
+            {EXPORT_LINKS.map(({ format, label }) => (
+              <a key={format} href={`/api/report/export?crawlId=${crawlId}&format=${format}`} className="text-blue-700 hover:underline">
+                Download {label}
+              </a>
+            ))}
+          </nav>
+        </header>
+
+        <div className="bg-white rounded-lg shadow-lg p-8 mb-8">
+          <ReportFindings crawlId={params.crawlId} />
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <AuditDiff crawlId={params.crawlId} {...(searchParams.baseId ? { baseId: searchParams.baseId } : {})} />
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import type { FindingScreenshot, ScreenshotOverlay } from '@/types'
+
+interface AnnotatedScreenshotProps {
+  screenshot: FindingScreenshot
+  alt: string
+}
+
+// Overlays are in page pixels; as percentages they follow the image as it scales
+const percent = (value: number, total: number) => `${(value / total) * 100}%`
+
+export default function AnnotatedScreenshot({ screenshot, alt }: AnnotatedScreenshotProps) {
+  return (
+    <figure className="space-y-1">
+      <div className="relative border border-gray-300">
+        {/* Screenshots are served per user by our API, so they bypass the image optimizer */}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={screenshot.imageUrl} alt={alt} width={screenshot.width} height={screenshot.height} className="block w-full h-auto" />
+        {screenshot.overlays.map(overlay => (
+          <Overlay key={`${overlay.kind}-${overlay.top}-${overlay.left}`} overlay={overlay} screenshot={screenshot} />
+        ))}
+      </div>
+      <figcaption className="text-xs text-gray-600 capitalize">{screenshot.device}</figcaption>
+    </figure>
+  )
+}
+
+function Overlay({ overlay, screenshot }: { overlay: ScreenshotOverlay; screenshot: FindingScreenshot }) {
+  const position = {
+    top: percent(overlay.top, screenshot.height),
+    left: percent(overlay.left, screenshot.width),
+    width: percent(overlay.width, screenshot.width),
+  }
+
+  if (overlay.kind === 'fold') {
+    return (
+      <div data-overlay="fold" className="absolute border-t-2 border-dashed border-blue-600" style={position}>
+        <span className="absolute right-0 -top-5 bg-blue-600 text-white text-xs px-1">{overlay.label}</span>
+      </div>
+    )
+  }
+  return (
+    <div
+      data-overlay="element"
+      className="absolute border-2 border-red-600 bg-red-600/10"
+      style={{ ...position, height: percent(overlay.height, screenshot.height) }}
+    >
+      <span className="absolute left-0 -top-5 bg-red-600 text-white text-xs px-1 whitespace-nowrap">{overlay.label}</span>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { AuditComparison, ComparedFinding, FindingChange, ScoreDelta } from '@/types'
+
+interface AuditDiffProps {
+  crawlId: string
+  baseId?: string // Defaults to the previous completed audit of the site
+}
+
+type LoadState =
+  | { kind: 'loading' }
+  | { kind: 'loaded'; comparison: AuditComparison }
+  | { kind: 'error'; message: string }
+
+const CHANGE_LABELS: Record<FindingChange, string> = {
+  regressed: 'Regressed',
+  new: 'New',
+  persisting: 'Persisting',
+  fixed: 'Fixed',
+  not_rechecked: 'Not re-checked',
+}
+
+const CHANGE_STYLES: Record<FindingChange, string> = {
+  regressed: 'bg-red-100 text-red-800',
+  new: 'bg-orange-100 text-orange-800',
+  persisting: 'bg-gray-100 text-gray-800',
+  fixed: 'bg-green-100 text-green-800',
+  not_rechecked: 'bg-yellow-100 text-yellow-800',
+}
+
+const SEVERITY_LABELS = { high: 'High', med: 'Medium', low: 'Low' } as const
+
+export default function AuditDiff({ crawlId, baseId }: AuditDiffProps) {
+  const [state, setState] = useState<LoadState>({ kind: 'loading' })
+
+  useEffect(() => {
+    const query = new URLSearchParams({ crawlId, ...(baseId ? { baseId } : {}) })
+    let active = true
+
+    fetch(`/api/report/compare?${query}`)
+      .then(response => response.json())
+      .then(payload => {
+        if (active) {
+          setState(payload.success ? { kind: 'loaded', comparison: payload.data } : { kind: 'error', message: payload.error.message })
+        }
+      })
+      .catch(() => active && setState({ kind: 'error', message: 'Could not reach the server, please try again' }))
+
+    return () => {
+      active = false
+    }
+  }, [crawlId, baseId])
+
+  if (state.kind === 'loading') {
+    return <p role="status" className="text-gray-600">Comparing with the previous audit…</p>
+  }
+  if (state.kind === 'error') {
+    return <p role="alert" className="text-red-700">{state.message}</p>
+  }
+
+  const { comparison } = state
+  return (
+    <section aria-label="Changes since the previous audit" className="space-y-6">
+      <h2 className="text-2xl font-semibold">Changes since audit {comparison.base.id}</h2>
+
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr className="border-b">
+            <th className="py-2">Score</th>
+            <th className="py-2">Before</th>
+            <th className="py-2">Now</th>
+            <th className="py-2">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          <ScoreRow label="Overall" score={comparison.score.overall} />
+          {Object.entries(comparison.score.categories).map(([category, score]) => (
+            <ScoreRow key={category} label={category} score={score} />
+          ))}
+        </tbody>
+      </table>
+
+      <ul className="flex flex-wrap gap-2" aria-label="Summary">
+        {(Object.keys(CHANGE_LABELS) as FindingChange[]).map(change => (
+          <li key={change} className={`px-3 py-1 rounded-full text-sm ${CHANGE_STYLES[change]}`}>
+            {CHANGE_LABELS[change]}: {comparison.summary[change]}
+          </li>
+        ))}
+      </ul>
+
+      {comparison.findings.length === 0 ? (
+        <p className="text-gray-600">Neither audit reported any findings.</p>
+      ) : (
+        <ul className="divide-y" aria-label="Findings">
+          {comparison.findings.map(finding => (
+            <FindingRow key={`${finding.base?.id}-${finding.target?.id}`} finding={finding} />
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+function ScoreRow({ label, score }: { label: string; score: ScoreDelta }) {
+  const tone = score.delta === null || score.delta === 0 ? 'text-gray-600' : score.delta > 0 ? 'text-green-700' : 'text-red-700'
+  return (
+    <tr className="border-b">
+      <td className="py-2 capitalize">{label}</td>
+      <td className="py-2">{score.base ?? '–'}</td>
+      <td className="py-2">{score.target ?? '–'}</td>
+      <td className={`py-2 font-medium ${tone}`}>
+        {score.delta === null ? '–' : score.delta > 0 ? `+${score.delta}` : score.delta}
+      </td>
+    </tr>
+  )
+}
+
+function FindingRow({ finding }: { finding: ComparedFinding }) {
+  const current = (finding.target ?? finding.base)!
+  const severity = finding.change === 'regressed'
+    ? `${SEVERITY_LABELS[finding.base!.severity]} → ${SEVERITY_LABELS[current.severity]}`
+    : SEVERITY_LABELS[current.severity]
+  // A rule can report a different finding on the same page, e.g. hero_cta_weak → hero_cta_missing
+  const title = finding.base && finding.target && finding.base.ruleId !== finding.target.ruleId
+    ? `${finding.base.ruleId} → ${finding.target.ruleId}`
+    : finding.ruleId
+
+  return (
+    <li className="py-3 flex items-start gap-3">
+      <span className={`px-2 py-0.5 rounded text-xs font-semibold ${CHANGE_STYLES[finding.change]}`}>
+        {CHANGE_LABELS[finding.change]}
+      </span>
+      <div>
+        <p className="font-medium">{title}</p>
+        <p className="text-sm text-gray-600">
+          {severity} · {finding.category} · {current.pageUrl}
+        </p>
+      </div>
+    </li>
+  )
+}
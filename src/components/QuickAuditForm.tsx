@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import type { PersonaId } from '@/types'
+
+type SubmitState =
+  | { kind: 'idle' }
+  | { kind: 'submitting' }
+  | { kind: 'queued'; crawlId: string; estimatedDuration: number }
+  | { kind: 'error'; message: string }
+
+export default function QuickAuditForm() {
+  const [storeUrl, setStoreUrl] = useState('')
+  const [persona, setPersona] = useState<PersonaId>('default')
+  const [state, setState] = useState<SubmitState>({ kind: 'idle' })
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setState({ kind: 'submitting' })
+
+    try {
+      const response = await fetch('/api/audit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storeUrl, persona }),
+      })
+      const payload = await response.json()
+      if (!payload.success) {
+        setState({ kind: 'error', message: payload.error.message })
+        return
+      }
+      setState({ kind: 'queued', ...payload.data })
+    } catch {
+      setState({ kind: 'error', message: 'Could not reach the server, please try again' })
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label className="block">
+        <span className="text-sm text-gray-700">Store URL</span>
+        <input
+          type="url"
+          required
+          value={storeUrl}
+          onChange={event => setStoreUrl(event.target.value)}
+          placeholder="https://your-store.myshopify.com"
+          className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+        />
+      </label>
+      <label className="block">
+        <span className="text-sm text-gray-700">Language</span>
+        <select
+          value={persona}
+          onChange={event => setPersona(event.target.value as PersonaId)}
+          className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+        >
+          <option value="default">English</option>
+          <option value="fr-que">Français (Québec)</option>
+        </select>
+      </label>
+      <button
+        type="submit"
+        disabled={state.kind === 'submitting'}
+        className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {state.kind === 'submitting' ? 'Starting audit…' : 'Start audit'}
+      </button>
+      {state.kind === 'queued' && (
+        <p role="status" className="text-sm text-green-700">
+          Audit {state.crawlId} queued, ready in about {Math.ceil(state.estimatedDuration / 60)} min.
+        </p>
+      )}
+      {state.kind === 'error' && (
+        <p role="alert" className="text-sm text-red-700">
+          {state.message}
+        </p>
+      )}
+    </form>
+  )
+}
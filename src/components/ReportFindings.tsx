@@ -0,0 +1,104 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import AnnotatedScreenshot from './AnnotatedScreenshot'
+import type { AuditReport, ReportFinding, ReportPage } from '@/types'
+
+interface ReportFindingsProps {
+  crawlId: string
+}
+
+type LoadState =
+  | { kind: 'loading' }
+  | { kind: 'loaded'; report: AuditReport }
+  | { kind: 'error'; message: string }
+
+const SEVERITY_LABELS = { high: 'High', med: 'Medium', low: 'Low' } as const
+
+export default function ReportFindings({ crawlId }: ReportFindingsProps) {
+  const [state, setState] = useState<LoadState>({ kind: 'loading' })
+
+  useEffect(() => {
+    let active = true
+
+    fetch(`/api/report?${new URLSearchParams({ crawlId })}`)
+      .then(response => response.json())
+      .then(payload => {
+        if (active) {
+          setState(payload.success ? { kind: 'loaded', report: payload.data } : { kind: 'error', message: payload.error.message })
+        }
+      })
+      .catch(() => active && setState({ kind: 'error', message: 'Could not reach the server, please try again' }))
+
+    return () => {
+      active = false
+    }
+  }, [crawlId])
+
+  if (state.kind === 'loading') {
+    return <p role="status" className="text-gray-600">Loading the report…</p>
+  }
+  if (state.kind === 'error') {
+    return <p role="alert" className="text-red-700">{state.message}</p>
+  }
+
+  const { report } = state
+  return (
+    <section aria-label="Report" className="space-y-6">
+      <h2 className="text-2xl font-semibold">Top findings</h2>
+
+      {report.pages.some(page => page.screenshots.length > 0) && (
+        <ul className="grid grid-cols-2 md:grid-cols-4 gap-4" aria-label="Pages">
+          {report.pages.map(page => <PageThumbnail key={page.id} page={page} />)}
+        </ul>
+      )}
+
+      {report.findings.length === 0 ? (
+        <p className="text-gray-600">This audit has no findings.</p>
+      ) : (
+        <ol className="space-y-4" aria-label="Findings">
+          {report.findings.map(finding => <FindingItem key={finding.id} finding={finding} />)}
+        </ol>
+      )}
+    </section>
+  )
+}
+
+function PageThumbnail({ page }: { page: ReportPage }) {
+  const [screenshot] = page.screenshots
+  if (!screenshot) {
+    return null
+  }
+  return (
+    <li>
+      <a href={screenshot.imageUrl} className="block text-sm text-blue-700 hover:underline">
+        {/* Screenshots are served per user by our API, so they bypass the image optimizer */}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={screenshot.thumbnailUrl} alt={`Screenshot of ${page.url}`} loading="lazy" className="w-full border border-gray-300 mb-1" />
+        <span className="capitalize">{page.pageType}</span>
+      </a>
+    </li>
+  )
+}
+
+function FindingItem({ finding }: { finding: ReportFinding }) {
+  return (
+    <li className="border-b pb-4">
+      <p className="font-medium">{finding.recommendation?.issue ?? finding.ruleId}</p>
+      <p className="text-sm text-gray-600">
+        {SEVERITY_LABELS[finding.severity]} · {finding.category} · {finding.pageUrl}
+      </p>
+      {finding.recommendation?.pastePath && (
+        <p className="text-sm mt-1">
+          Paste into <code>{finding.recommendation.pastePath}</code>, at <code>{finding.recommendation.searchCue}</code>
+        </p>
+      )}
+      {finding.screenshot && (
+        <details className="mt-2">
+          <summary className="cursor-pointer text-sm text-blue-700">Show on the page</summary>
+          <AnnotatedScreenshot screenshot={finding.screenshot} alt={`Screenshot of ${finding.pageUrl}`} />
+        </details>
+      )}
+    </li>
+  )
+}
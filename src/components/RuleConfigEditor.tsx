@@ -0,0 +1,251 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import type { RuleConfigView, RuleSettings, Severity, StoredRuleConfig } from '@/types'
+
+interface RuleConfigEditorProps {
+  siteId?: string // Edits the site's overrides instead of the global configuration
+}
+
+type LoadState =
+  | { kind: 'loading' }
+  | { kind: 'loaded'; rules: RuleConfigView[] }
+  | { kind: 'error'; message: string }
+
+type SaveState =
+  | { kind: 'idle' }
+  | { kind: 'saving' }
+  | { kind: 'saved' }
+  | { kind: 'error'; message: string }
+
+// Form fields hold strings; an empty field leaves the setting to the layer below
+interface RuleDraft {
+  enabled: string
+  severity: string
+  maxScore: string
+  thresholds: Record<string, string>
+}
+
+const SEVERITY_LABELS: Record<Severity, string> = { high: 'High', med: 'Medium', low: 'Low' }
+
+const NETWORK_ERROR = 'Could not reach the server, please try again'
+
+export default function RuleConfigEditor({ siteId }: RuleConfigEditorProps) {
+  const [state, setState] = useState<LoadState>({ kind: 'loading' })
+  const [version, setVersion] = useState(0)
+  const endpoint = siteId ? `/api/sites/${encodeURIComponent(siteId)}/rules` : '/api/admin/rules'
+
+  useEffect(() => {
+    let active = true
+
+    fetch(endpoint)
+      .then(response => response.json())
+      .then(payload => {
+        if (active) {
+          setState(payload.success ? { kind: 'loaded', rules: payload.data } : { kind: 'error', message: payload.error.message })
+        }
+      })
+      .catch(() => active && setState({ kind: 'error', message: NETWORK_ERROR }))
+
+    return () => {
+      active = false
+    }
+  }, [endpoint, version])
+
+  if (state.kind === 'loading') {
+    return <p role="status" className="text-gray-600">Loading rules…</p>
+  }
+  if (state.kind === 'error') {
+    return <p role="alert" className="text-red-700">{state.message}</p>
+  }
+
+  return (
+    <ul className="space-y-6" aria-label="Rules">
+      {state.rules.map(rule => (
+        <RuleForm
+          key={rule.ruleId}
+          rule={rule}
+          endpoint={`${endpoint}/${encodeURIComponent(rule.ruleId)}`}
+          isOverride={!!siteId}
+          onReset={() => {
+            setState({ kind: 'loading' })
+            setVersion(current => current + 1)
+          }}
+        />
+      ))}
+    </ul>
+  )
+}
+
+interface RuleFormProps {
+  rule: RuleConfigView
+  endpoint: string
+  isOverride: boolean
+  onReset: () => void
+}
+
+function RuleForm({ rule: initial, endpoint, isOverride, onReset }: RuleFormProps) {
+  const [rule, setRule] = useState(initial)
+  const [draft, setDraft] = useState(() => toDraft(isOverride ? initial.override : initial.global, isOverride))
+  const [state, setState] = useState<SaveState>({ kind: 'idle' })
+  const inherited = isOverride ? 'Global' : 'Built-in'
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setState({ kind: 'saving' })
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fromDraft(draft)),
+      })
+      const payload = await response.json()
+      if (!payload.success) {
+        setState({ kind: 'error', message: payload.error.message })
+        return
+      }
+      setRule(payload.data)
+      setState({ kind: 'saved' })
+    } catch {
+      setState({ kind: 'error', message: NETWORK_ERROR })
+    }
+  }
+
+  async function handleReset() {
+    setState({ kind: 'saving' })
+
+    try {
+      const payload = await (await fetch(endpoint, { method: 'DELETE' })).json()
+      if (!payload.success) {
+        setState({ kind: 'error', message: payload.error.message })
+        return
+      }
+      onReset()
+    } catch {
+      setState({ kind: 'error', message: NETWORK_ERROR })
+    }
+  }
+
+  return (
+    <li className="border-b pb-6">
+      <form onSubmit={handleSubmit} aria-label={rule.name} className="space-y-3">
+        <div>
+          <h3 className="text-lg font-semibold">{rule.name}</h3>
+          <p className="text-sm text-gray-600">{rule.description}</p>
+          <p className="text-sm text-gray-500">Audits use: {describeSettings(rule.effective)}</p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <label className="block">
+            <span className="text-sm text-gray-700">Status</span>
+            <select
+              value={draft.enabled}
+              onChange={event => setDraft({ ...draft, enabled: event.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+            >
+              {isOverride && <option value="">{inherited}</option>}
+              <option value="true">Enabled</option>
+              <option value="false">Disabled</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-700">Severity</span>
+            <select
+              value={draft.severity}
+              onChange={event => setDraft({ ...draft, severity: event.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+            >
+              <option value="">{inherited}</option>
+              {(Object.keys(SEVERITY_LABELS) as Severity[]).map(severity => (
+                <option key={severity} value={severity}>{SEVERITY_LABELS[severity]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-sm text-gray-700">Weight</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={draft.maxScore}
+              onChange={event => setDraft({ ...draft, maxScore: event.target.value })}
+              placeholder={String(rule.defaults.maxScore)}
+              className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+            />
+          </label>
+          {Object.entries(rule.thresholds).map(([name, threshold]) => (
+            <label key={name} className="block">
+              <span className="text-sm text-gray-700" title={threshold.description}>{name}</span>
+              <input
+                type="number"
+                min={threshold.min}
+                max={threshold.max}
+                step="any"
+                value={draft.thresholds[name] ?? ''}
+                onChange={event => setDraft({ ...draft, thresholds: { ...draft.thresholds, [name]: event.target.value } })}
+                placeholder={String(threshold.default)}
+                className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3 items-center">
+          <button
+            type="submit"
+            disabled={state.kind === 'saving'}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+          {isOverride && rule.override && (
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={state.kind === 'saving'}
+              className="text-blue-700 hover:underline disabled:opacity-50"
+            >
+              Use global settings
+            </button>
+          )}
+          {state.kind === 'saved' && <p role="status" className="text-sm text-green-700">Saved</p>}
+          {state.kind === 'error' && <p role="alert" className="text-sm text-red-700">{state.message}</p>}
+        </div>
+      </form>
+    </li>
+  )
+}
+
+function toDraft(config: StoredRuleConfig | null, isOverride: boolean): RuleDraft {
+  const enabled = config?.enabled ?? (isOverride ? null : true)
+  return {
+    enabled: enabled === null ? '' : String(enabled),
+    severity: config?.severity ?? '',
+    maxScore: String(config?.maxScore ?? ''),
+    thresholds: Object.fromEntries(Object.entries(config?.thresholds ?? {}).map(([name, value]) => [name, String(value)])),
+  }
+}
+
+function fromDraft(draft: RuleDraft) {
+  return {
+    enabled: draft.enabled === '' ? null : draft.enabled === 'true',
+    severity: draft.severity || null,
+    maxScore: draft.maxScore === '' ? null : Number(draft.maxScore),
+    thresholds: Object.fromEntries(
+      Object.entries(draft.thresholds).filter(([, value]) => value !== '').map(([name, value]) => [name, Number(value)])
+    ),
+  }
+}
+
+function describeSettings(settings: RuleSettings): string {
+  const parts = [
+    settings.enabled ? 'enabled' : 'disabled',
+    `weight ${settings.maxScore}`,
+    ...(settings.severity ? [`${SEVERITY_LABELS[settings.severity].toLowerCase()} severity`] : []),
+    ...Object.entries(settings.thresholds).map(([name, value]) => `${name} ${value}`),
+  ]
+  return parts.join(', ')
+}
@@ -0,0 +1,40 @@
+/**
+ * TDD Test Suite for annotated screenshots
+ * Overlays are positioned in percentages of the page size
+ */
+
+import { render, screen } from '@testing-library/react'
+import AnnotatedScreenshot from '../AnnotatedScreenshot'
+import type { FindingScreenshot } from '@/types'
+
+const screenshot: FindingScreenshot = {
+  id: 'shot-1',
+  device: 'mobile',
+  width: 400,
+  height: 2000,
+  imageUrl: '/api/screenshots/shot-1',
+  thumbnailUrl: '/api/screenshots/shot-1?variant=thumbnail',
+  overlays: [
+    { kind: 'element', label: 'Shop now', top: 500, left: 20, width: 100, height: 40 },
+    { kind: 'fold', label: 'Fold', top: 800, left: 0, width: 400, height: 0 }
+  ]
+}
+
+describe('AnnotatedScreenshot - TDD', () => {
+  describe('GREEN Phase: Overlays', () => {
+    it('should draw element boxes and the fold line over the screenshot', () => {
+      // Act
+      const { container } = render(<AnnotatedScreenshot screenshot={screenshot} alt="Screenshot of the home page" />)
+
+      // Assert
+      expect(screen.getByRole('img', { name: 'Screenshot of the home page' })).toHaveAttribute('src', '/api/screenshots/shot-1')
+      expect(screen.getByText('mobile')).toBeInTheDocument()
+      const element = container.querySelector<HTMLElement>('[data-overlay="element"]')!
+      expect(element).toHaveTextContent('Shop now')
+      expect(element.style).toMatchObject({ top: '25%', left: '5%', width: '25%', height: '2%' })
+      const fold = container.querySelector<HTMLElement>('[data-overlay="fold"]')!
+      expect(fold).toHaveTextContent('Fold')
+      expect(fold.style).toMatchObject({ top: '40%', left: '0%', width: '100%' })
+    })
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * TDD Test Suite for the audit diff view
+ * fetch is mocked per test with createMockFetch
+ */
+
+import { render, screen, within } from '@testing-library/react'
+import AuditDiff from '../AuditDiff'
+import { createMockFetch } from '@/test-utils'
+import type { AuditComparison } from '@/types'
+
+const side = (id: string, ruleId: string, severity: 'high' | 'med' | 'low', pageUrl = 'https://test-store.myshopify.com/') => ({ id, ruleId, pageUrl, severity, evidence: {} })
+
+const comparison: AuditComparison = {
+  site: { id: 'site-1', url: 'https://test-store.myshopify.com', name: 'Test Store' },
+  base: { id: 'audit-1', status: 'completed', score: 60, completedAt: '2026-01-01T10:03:00.000Z' },
+  target: { id: 'audit-2', status: 'completed', score: 72, completedAt: '2026-02-01T10:03:00.000Z' },
+  score: {
+    overall: { base: 60, target: 72, delta: 12 },
+    categories: {
+      conversion: { base: 50, target: 45, delta: -5 },
+      trust: { base: 80, target: 80, delta: 0 },
+      accessibility: { base: null, target: 90, delta: null }
+    }
+  },
+  summary: { regressed: 1, new: 0, persisting: 0, fixed: 1, not_rechecked: 1 },
+  findings: [
+    { change: 'regressed', ruleId: 'hero_cta_missing', ruleKey: 'hero_cta_detection', category: 'conversion', pageType: 'home', base: side('b-1', 'hero_cta_weak', 'low'), target: side('t-1', 'hero_cta_missing', 'high') },
+    { change: 'fixed', ruleId: 'trust_badges', ruleKey: 'social_proof', category: 'trust', pageType: 'product', base: side('b-2', 'trust_badges', 'med', 'https://test-store.myshopify.com/products/shirt'), target: null },
+    { change: 'not_rechecked', ruleId: 'alt_text_missing', ruleKey: 'alt_text_coverage', category: 'accessibility', pageType: 'collection', base: side('b-3', 'alt_text_missing', 'low', 'https://test-store.myshopify.com/collections/all'), target: null }
+  ]
+}
+
+describe('AuditDiff - TDD', () => {
+  describe('GREEN Phase: Comparison', () => {
+    it('should compare with the previous audit by default', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: comparison })
+
+      // Act
+      render(<AuditDiff crawlId="audit-2" />)
+
+      // Assert
+      expect(screen.getByRole('status')).toHaveTextContent('Comparing with the previous audit…')
+      expect(await screen.findByRole('heading', { name: 'Changes since audit audit-1' })).toBeInTheDocument()
+      expect(global.fetch).toHaveBeenCalledWith('/api/report/compare?crawlId=audit-2')
+    })
+
+    it('should show score deltas per category', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: comparison })
+
+      // Act
+      render(<AuditDiff crawlId="audit-2" baseId="audit-1" />)
+
+      // Assert
+      const rows = (await screen.findAllByRole('row')).map(row => row.textContent)
+      expect(rows).toEqual(['ScoreBeforeNowChange', 'Overall6072+12', 'conversion5045-5', 'trust80800', 'accessibility–90–'])
+      expect(global.fetch).toHaveBeenCalledWith('/api/report/compare?crawlId=audit-2&baseId=audit-1')
+    })
+
+    it('should list findings by change with severity movements', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: comparison })
+
+      // Act
+      render(<AuditDiff crawlId="audit-2" />)
+
+      // Assert
+      const summary = await screen.findByRole('list', { name: 'Summary' })
+      expect(within(summary).getAllByRole('listitem').map(item => item.textContent)).toEqual(['Regressed: 1', 'New: 0', 'Persisting: 0', 'Fixed: 1', 'Not re-checked: 1'])
+      const findings = within(screen.getByRole('list', { name: 'Findings' })).getAllByRole('listitem')
+      expect(findings[0]).toHaveTextContent('Regressedhero_cta_weak → hero_cta_missingLow → High · conversion · https://test-store.myshopify.com/')
+      expect(findings[1]).toHaveTextContent('Fixedtrust_badgesMedium · trust · https://test-store.myshopify.com/products/shirt')
+      expect(findings[2]).toHaveTextContent('Not re-checkedalt_text_missingLow · accessibility · https://test-store.myshopify.com/collections/all')
+    })
+
+    it('should say when neither audit has findings', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: { ...comparison, findings: [] } })
+
+      // Act
+      render(<AuditDiff crawlId="audit-2" />)
+
+      // Assert
+      expect(await screen.findByText('Neither audit reported any findings.')).toBeInTheDocument()
+    })
+  })
+
+  describe('REFACTOR Phase: Errors', () => {
+    it('should show the API error message', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: false, error: { code: 'CRAWL_NOT_FOUND', message: 'No earlier completed audit of this site to compare with: audit-2' } }, false)
+
+      // Act
+      render(<AuditDiff crawlId="audit-2" />)
+
+      // Assert
+      expect(await screen.findByRole('alert')).toHaveTextContent('No earlier completed audit of this site to compare with: audit-2')
+    })
+
+    it('should report network failures', async () => {
+      // Arrange
+      global.fetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'))
+
+      // Act
+      render(<AuditDiff crawlId="audit-2" />)
+
+      // Assert
+      expect(await screen.findByRole('alert')).toHaveTextContent('Could not reach the server, please try again')
+    })
+
+    it('should ignore answers that arrive after unmounting', async () => {
+      // Arrange
+      const response = { json: jest.fn(async () => ({ success: true, data: comparison })) }
+      global.fetch = jest.fn().mockResolvedValue(response)
+      const { unmount } = render(<AuditDiff crawlId="audit-2" />)
+
+      // Act
+      unmount()
+
+      // Assert
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(response.json).toHaveBeenCalled()
+      expect(screen.queryByRole('heading')).not.toBeInTheDocument()
+    })
+  })
+})
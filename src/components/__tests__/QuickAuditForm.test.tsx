@@ -0,0 +1,73 @@
+/**
+ * TDD Test Suite for the Quick Audit form
+ * fetch is mocked per test with createMockFetch
+ */
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import QuickAuditForm from '../QuickAuditForm'
+import { createMockFetch } from '@/test-utils'
+
+const submit = (url = 'https://test-store.myshopify.com') => {
+  fireEvent.change(screen.getByLabelText('Store URL'), { target: { value: url } })
+  fireEvent.click(screen.getByRole('button', { name: 'Start audit' }))
+}
+
+describe('QuickAuditForm - TDD', () => {
+  describe('GREEN Phase: Submission', () => {
+    it('should start an audit with the chosen persona', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: { crawlId: 'audit-1', status: 'pending', estimatedDuration: 180 } })
+      render(<QuickAuditForm />)
+      fireEvent.change(screen.getByLabelText('Language'), { target: { value: 'fr-que' } })
+
+      // Act
+      submit()
+
+      // Assert
+      expect(await screen.findByRole('status')).toHaveTextContent('Audit audit-1 queued, ready in about 3 min.')
+      expect(global.fetch).toHaveBeenCalledWith('/api/audit', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ storeUrl: 'https://test-store.myshopify.com', persona: 'fr-que' })
+      }))
+    })
+
+    it('should disable the button while the request is in flight', async () => {
+      // Arrange
+      global.fetch = jest.fn(() => new Promise(() => {})) as jest.Mock
+      render(<QuickAuditForm />)
+
+      // Act
+      submit()
+
+      // Assert
+      await waitFor(() => expect(screen.getByRole('button')).toBeDisabled())
+      expect(screen.getByRole('button')).toHaveTextContent('Starting audit…')
+    })
+  })
+
+  describe('REFACTOR Phase: Errors', () => {
+    it('should show the API error message', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: false, error: { code: 'UNAUTHORIZED', message: 'Sign in to start an audit' } }, false)
+      render(<QuickAuditForm />)
+
+      // Act
+      submit()
+
+      // Assert
+      expect(await screen.findByRole('alert')).toHaveTextContent('Sign in to start an audit')
+    })
+
+    it('should report network failures', async () => {
+      // Arrange
+      global.fetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'))
+      render(<QuickAuditForm />)
+
+      // Act
+      submit()
+
+      // Assert
+      expect(await screen.findByRole('alert')).toHaveTextContent('Could not reach the server, please try again')
+    })
+  })
+})
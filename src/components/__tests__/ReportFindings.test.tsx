@@ -0,0 +1,112 @@
+/**
+ * TDD Test Suite for the report findings view
+ * fetch is mocked per test with createMockFetch; annotated screenshots have their own tests
+ */
+
+import { render, screen, within } from '@testing-library/react'
+import ReportFindings from '../ReportFindings'
+import { createMockFetch } from '@/test-utils'
+import type { AuditReport, FindingScreenshot, ReportFinding } from '@/types'
+
+jest.mock('../AnnotatedScreenshot', () => ({
+  __esModule: true,
+  default: ({ screenshot }: { screenshot: FindingScreenshot }) => <p>Screenshot {screenshot.id} with {screenshot.overlays.length} overlays</p>
+}))
+
+const screenshot = {
+  id: 'shot-1',
+  device: 'desktop' as const,
+  width: 1440,
+  height: 3200,
+  imageUrl: '/api/screenshots/shot-1',
+  thumbnailUrl: '/api/screenshots/shot-1?variant=thumbnail'
+}
+
+const finding = (id: string, overrides: Partial<ReportFinding> = {}): ReportFinding => ({
+  id,
+  ruleId: 'hero_cta_missing',
+  category: 'conversion',
+  severity: 'high',
+  pageUrl: 'https://test-store.myshopify.com/',
+  pageType: 'home',
+  evidence: {},
+  recommendation: null,
+  screenshot: null,
+  ...overrides
+})
+
+const report = {
+  pages: [
+    { id: 'page-1', url: 'https://test-store.myshopify.com/', pageType: 'home', screenshots: [screenshot] },
+    { id: 'page-2', url: 'https://test-store.myshopify.com/cart', pageType: 'cart', screenshots: [] }
+  ],
+  findings: [
+    finding('f-1', { screenshot: { ...screenshot, overlays: [{ kind: 'fold', label: 'Fold', top: 900, left: 0, width: 1440, height: 0 }] } }),
+    finding('f-2', { ruleId: 'trust_badges', category: 'trust', severity: 'low', recommendation: {
+      issue: 'No trust badges',
+      pastePath: 'sections/main-product.liquid',
+      searchCue: 'class="product-form__buttons"'
+    } as ReportFinding['recommendation'] })
+  ]
+} as AuditReport
+
+describe('ReportFindings - TDD', () => {
+  describe('GREEN Phase: Findings', () => {
+    it('should show page thumbnails and findings pointed out on their screenshot', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: report })
+
+      // Act
+      render(<ReportFindings crawlId="audit 1" />)
+
+      // Assert
+      expect(screen.getByRole('status')).toHaveTextContent('Loading the report…')
+      const pages = await screen.findByRole('list', { name: 'Pages' })
+      expect(within(pages).getAllByRole('listitem')).toHaveLength(1)
+      expect(within(pages).getByRole('img')).toHaveAttribute('src', '/api/screenshots/shot-1?variant=thumbnail')
+      expect(within(pages).getByRole('link')).toHaveAttribute('href', '/api/screenshots/shot-1')
+      const [pictured, unpictured] = within(screen.getByRole('list', { name: 'Findings' })).getAllByRole('listitem')
+      expect(pictured).toHaveTextContent('hero_cta_missingHigh · conversion · https://test-store.myshopify.com/Show on the page')
+      expect(pictured).toHaveTextContent('Screenshot shot-1 with 1 overlays')
+      expect(unpictured).toHaveTextContent('No trust badgesLow · trust · https://test-store.myshopify.com/')
+      expect(unpictured).toHaveTextContent('Paste into sections/main-product.liquid, at class="product-form__buttons"')
+      expect(pictured).not.toHaveTextContent('Paste into')
+      expect(global.fetch).toHaveBeenCalledWith('/api/report?crawlId=audit+1')
+    })
+
+    it('should leave out the gallery and say when there are no findings', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: { ...report, pages: [], findings: [] } })
+
+      // Act
+      render(<ReportFindings crawlId="audit-1" />)
+
+      // Assert
+      expect(await screen.findByText('This audit has no findings.')).toBeInTheDocument()
+      expect(screen.queryByRole('list', { name: 'Pages' })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('REFACTOR Phase: Errors', () => {
+    it('should show API errors and network failures', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: false, error: { code: 'CRAWL_NOT_FOUND', message: 'Audit not found: audit-9' } })
+
+      // Act
+      const { unmount } = render(<ReportFindings crawlId="audit-9" />)
+
+      // Assert
+      expect(await screen.findByRole('alert')).toHaveTextContent('Audit not found: audit-9')
+      unmount()
+
+      // Arrange
+      global.fetch = jest.fn().mockRejectedValue(new Error('offline'))
+
+      // Act
+      render(<ReportFindings crawlId="audit-1" />)
+
+      // Assert
+      expect(await screen.findByRole('alert')).toHaveTextContent('Could not reach the server, please try again')
+    })
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * TDD Test Suite for the rule configuration editor
+ * fetch is mocked per test with createMockFetch
+ */
+
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react'
+import RuleConfigEditor from '../RuleConfigEditor'
+import { createMockFetch } from '@/test-utils'
+import type { RuleConfigView } from '@/types'
+
+const heroRule: RuleConfigView = {
+  ruleId: 'hero_cta_detection',
+  name: 'Hero CTA Presence',
+  description: 'Ensures prominent call-to-action buttons are visible above the fold',
+  category: 'conversion',
+  thresholds: { minProminentWidth: { default: 120, min: 120, max: 600, description: 'Minimum width' } },
+  defaults: { enabled: true, severity: null, maxScore: 15, thresholds: { minProminentWidth: 120 } },
+  global: { ruleId: 'hero_cta_detection', enabled: true, severity: 'low', maxScore: 20, thresholds: {} },
+  override: null,
+  effective: { enabled: true, severity: 'low', maxScore: 20, thresholds: { minProminentWidth: 120 } }
+}
+
+const override = { ruleId: 'hero_cta_detection', enabled: false, severity: null, maxScore: null, thresholds: { minProminentWidth: 160 } }
+
+const form = () => screen.getByRole('form', { name: 'Hero CTA Presence' })
+
+describe('RuleConfigEditor - TDD', () => {
+  describe('GREEN Phase: Global Configuration', () => {
+    it('should list rules with the settings audits use', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: [heroRule] })
+
+      // Act
+      render(<RuleConfigEditor />)
+
+      // Assert
+      expect(await screen.findByRole('heading', { name: 'Hero CTA Presence' })).toBeInTheDocument()
+      expect(global.fetch).toHaveBeenCalledWith('/api/admin/rules')
+      expect(screen.getByText('Audits use: enabled, weight 20, low severity, minProminentWidth 120')).toBeInTheDocument()
+      expect(within(form()).getByLabelText('Severity')).toHaveValue('low')
+      expect(within(form()).getByLabelText('Weight')).toHaveValue(20)
+      expect(within(form()).getByLabelText('minProminentWidth')).toHaveAttribute('placeholder', '120')
+      expect(screen.queryByRole('button', { name: 'Use global settings' })).not.toBeInTheDocument()
+    })
+
+    it('should save the global configuration', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: [heroRule] })
+      render(<RuleConfigEditor />)
+      await screen.findByRole('form')
+      const saved = { ...heroRule, effective: { ...heroRule.effective, enabled: false, severity: null, maxScore: 20 } }
+      global.fetch = createMockFetch({ success: true, data: saved })
+
+      // Act
+      fireEvent.change(within(form()).getByLabelText('Status'), { target: { value: 'false' } })
+      fireEvent.change(within(form()).getByLabelText('Severity'), { target: { value: '' } })
+      fireEvent.change(within(form()).getByLabelText('minProminentWidth'), { target: { value: '160' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+      // Assert
+      expect(await screen.findByRole('status')).toHaveTextContent('Saved')
+      expect(screen.getByText('Audits use: disabled, weight 20, minProminentWidth 120')).toBeInTheDocument()
+      expect(global.fetch).toHaveBeenCalledWith('/api/admin/rules/hero_cta_detection', expect.objectContaining({
+        method: 'PUT',
+        body: JSON.stringify({ enabled: false, severity: null, maxScore: 20, thresholds: { minProminentWidth: 160 } })
+      }))
+    })
+  })
+
+  describe('REFACTOR Phase: Site Overrides', () => {
+    it('should edit the site override and leave empty fields to the global configuration', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: [heroRule] })
+      render(<RuleConfigEditor siteId="site-1" />)
+      await screen.findByRole('form')
+      global.fetch = createMockFetch({ success: true, data: { ...heroRule, override } })
+
+      // Act
+      fireEvent.change(within(form()).getByLabelText('Weight'), { target: { value: '5' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+      // Assert
+      expect(within(form()).getByLabelText('Status')).toHaveValue('')
+      expect(await screen.findByRole('button', { name: 'Use global settings' })).toBeInTheDocument()
+      expect(global.fetch).toHaveBeenCalledWith('/api/sites/site-1/rules/hero_cta_detection', expect.objectContaining({
+        body: JSON.stringify({ enabled: null, severity: null, maxScore: 5, thresholds: {} })
+      }))
+    })
+
+    it('should drop the override and reload the rules', async () => {
+      // Arrange
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce({ json: async () => ({ success: true, data: [{ ...heroRule, override }] }) })
+        .mockResolvedValueOnce({ json: async () => ({ success: true, data: { siteId: 'site-1', ruleId: 'hero_cta_detection' } }) })
+        .mockResolvedValueOnce({ json: async () => ({ success: true, data: [heroRule] }) })
+      global.fetch = fetchMock
+      render(<RuleConfigEditor siteId="site-1" />)
+      await screen.findByRole('form')
+      expect(within(form()).getByLabelText('Status')).toHaveValue('false')
+      expect(within(form()).getByLabelText('minProminentWidth')).toHaveValue(160)
+
+      // Act
+      fireEvent.click(screen.getByRole('button', { name: 'Use global settings' }))
+
+      // Assert
+      await waitFor(() => expect(within(form()).getByLabelText('Status')).toHaveValue(''))
+      expect(fetchMock).toHaveBeenNthCalledWith(2, '/api/sites/site-1/rules/hero_cta_detection', { method: 'DELETE' })
+      expect(fetchMock).toHaveBeenNthCalledWith(3, '/api/sites/site-1/rules')
+      expect(screen.queryByRole('button', { name: 'Use global settings' })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('REFACTOR Phase: Errors', () => {
+    it('should show load errors', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: false, error: { code: 'FORBIDDEN', message: 'Only admins can view the global rule configuration' } }, false)
+
+      // Act
+      render(<RuleConfigEditor />)
+
+      // Assert
+      expect(screen.getByRole('status')).toHaveTextContent('Loading rules…')
+      expect(await screen.findByRole('alert')).toHaveTextContent('Only admins can view the global rule configuration')
+    })
+
+    it('should report network failures while loading', async () => {
+      // Arrange
+      global.fetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'))
+
+      // Act
+      render(<RuleConfigEditor />)
+
+      // Assert
+      expect(await screen.findByRole('alert')).toHaveTextContent('Could not reach the server, please try again')
+    })
+
+    it('should show save and reset errors', async () => {
+      // Arrange
+      global.fetch = createMockFetch({ success: true, data: [{ ...heroRule, override }] })
+      render(<RuleConfigEditor siteId="site-1" />)
+      await screen.findByRole('form')
+
+      // Act & Assert
+      global.fetch = createMockFetch({ success: false, error: { code: 'VALIDATION_ERROR', message: 'minProminentWidth must be between 120 and 600' } }, false)
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }))
+      expect(await screen.findByRole('alert')).toHaveTextContent('minProminentWidth must be between 120 and 600')
+
+      global.fetch = createMockFetch({ success: false, error: { code: 'RULE_NOT_FOUND', message: 'No override of hero_cta_detection for site: site-1' } }, false)
+      fireEvent.click(screen.getByRole('button', { name: 'Use global settings' }))
+      expect(await screen.findByText('No override of hero_cta_detection for site: site-1')).toBeInTheDocument()
+
+      global.fetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'))
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }))
+      expect(await screen.findByText('Could not reach the server, please try again')).toBeInTheDocument()
+
+      fireEvent.click(screen.getByRole('button', { name: 'Use global settings' }))
+      expect(await screen.findByText('Could not reach the server, please try again')).toBeInTheDocument()
+    })
+  })
+})
@@ -0,0 +1,23 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ * In the Node.js server runtime, starts the audit job runner, which fails
+ * audits cut off by a restart and resumes pending ones, and the audit
+ * scheduler. Set AUDIT_SCHEDULER=off on instances that should not start
+ * scheduled audits.
+ */
+
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // Imported here so the edge runtime never loads Prisma
+  const { getAuditJobRunner } = await import('./lib/audit/job-runner');
+  getAuditJobRunner();
+
+  if (process.env.AUDIT_SCHEDULER === 'off') {
+    return;
+  }
+  const { getAuditScheduler } = await import('./lib/schedules/scheduler');
+  getAuditScheduler().start();
+}
@@ -0,0 +1,37 @@
+/**
+ * API authentication
+ * Resolves the signed-in Clerk user to the local User row, creating it on the
+ * first request so audits can reference it. Admins, who edit the global rule
+ * configuration, are the users whose email is listed in ADMIN_EMAILS.
+ */
+
+import { auth, currentUser } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+
+/**
+ * Local user id of the caller, or null when nobody is signed in
+ */
+export async function getCurrentUserId(): Promise<string | null> {
+  const { userId: clerkId } = auth();
+  if (!clerkId) return null;
+
+  const existing = await prisma.user.findUnique({ where: { clerkId } });
+  if (existing) return existing.id;
+
+  const email = (await currentUser())?.emailAddresses[0]?.emailAddress;
+  if (!email) return null;
+
+  const user = await prisma.user.upsert({ where: { clerkId }, update: {}, create: { clerkId, email } });
+  return user.id;
+}
+
+/**
+ * Whether the user's email is listed in ADMIN_EMAILS (comma-separated)
+ */
+export async function isAdmin(userId: string): Promise<boolean> {
+  const admins = (process.env.ADMIN_EMAILS ?? '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean);
+  if (admins.length === 0) return false;
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+  return !!user && admins.includes(user.email.toLowerCase());
+}
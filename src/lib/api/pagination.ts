@@ -0,0 +1,21 @@
+/**
+ * Page-based pagination
+ * Shared by list endpoints so `page`/`limit` map to the same offsets and
+ * `pagination` metadata everywhere.
+ */
+
+import type { Pagination, PaginationQuery } from '../../types';
+
+export function pageOffset(query: PaginationQuery): number {
+  return (query.page - 1) * query.limit;
+}
+
+export function buildPagination(query: PaginationQuery, total: number): Pagination {
+  return {
+    page: query.page,
+    limit: query.limit,
+    total,
+    hasNext: pageOffset(query) + query.limit < total,
+    hasPrev: query.page > 1,
+  };
+}
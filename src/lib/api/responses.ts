@@ -0,0 +1,61 @@
+/**
+ * API response envelope
+ * Every route answers `{ success: true, data }` or
+ * `{ success: false, error: { code, message, details? } }`, with the HTTP
+ * status derived from the error code.
+ */
+
+import { NextResponse } from 'next/server';
+import type { ZodError } from 'zod';
+
+export type ApiErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'BUDGET_EXCEEDED'
+  | 'SITE_NOT_FOUND'
+  | 'CRAWL_NOT_FOUND'
+  | 'RECOMMENDATION_NOT_FOUND'
+  | 'SCHEDULE_NOT_FOUND'
+  | 'SCREENSHOT_NOT_FOUND'
+  | 'RULE_NOT_FOUND'
+  | 'DUPLICATE_ENTRY'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'INTERNAL_SERVER_ERROR'
+  | 'LLM_ERROR';
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  BUDGET_EXCEEDED: 402,
+  SITE_NOT_FOUND: 404,
+  CRAWL_NOT_FOUND: 404,
+  RECOMMENDATION_NOT_FOUND: 404,
+  SCHEDULE_NOT_FOUND: 404,
+  SCREENSHOT_NOT_FOUND: 404,
+  RULE_NOT_FOUND: 404,
+  DUPLICATE_ENTRY: 409,
+  RATE_LIMIT_EXCEEDED: 429,
+  INTERNAL_SERVER_ERROR: 500,
+  LLM_ERROR: 502,
+};
+
+export function successResponse<T>(data: T, status = 200) {
+  return NextResponse.json({ success: true, data }, { status });
+}
+
+export function errorResponse(code: ApiErrorCode, message: string, details?: unknown) {
+  return NextResponse.json(
+    { success: false, error: { code, message, ...(details !== undefined ? { details } : {}) } },
+    { status: STATUS_BY_CODE[code] }
+  );
+}
+
+/**
+ * 400 listing every invalid field as `path: message`
+ */
+export function validationErrorResponse(error: ZodError) {
+  const issues = error.issues.map(issue => ({ path: issue.path.join('.') || 'root', message: issue.message }));
+  return errorResponse('VALIDATION_ERROR', issues[0]!.message, { issues });
+}
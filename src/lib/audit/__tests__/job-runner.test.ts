@@ -0,0 +1,218 @@
+/**
+ * TDD Test Suite for the Audit Job Runner
+ * In-process queue with a scripted pipeline, heartbeats, and recovery after a restart (Prisma mocked in jest.setup.js)
+ */
+
+import prisma from '@/lib/prisma';
+import { AuditJobRunner, getAuditJobRunner } from '../job-runner';
+
+// A factory keeps the real pipeline, and the engines and rule files it loads, out of this suite
+jest.mock('../pipeline', () => ({
+  AuditPipeline: jest.fn()
+}));
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe('AuditJobRunner - TDD', () => {
+  describe('RED Phase: Queue', () => {
+    it('should run queued audits one at a time, in order', async () => {
+      // Arrange
+      const order: string[] = [];
+      const first = deferred();
+      const pipeline = {
+        run: jest.fn(async (auditId: string) => {
+          order.push(`start ${auditId}`);
+          if (auditId === 'audit-1') await first.promise;
+          order.push(`end ${auditId}`);
+          return true;
+        })
+      };
+      const runner = new AuditJobRunner({ pipeline });
+
+      // Act
+      runner.enqueue('audit-1');
+      runner.enqueue('audit-2');
+      runner.enqueue('audit-2');
+      expect(runner.pending).toBe(1);
+      first.resolve();
+      await runner.onIdle();
+
+      // Assert
+      expect(order).toEqual(['start audit-1', 'end audit-1', 'start audit-2', 'end audit-2']);
+      expect(pipeline.run).toHaveBeenCalledTimes(2);
+      expect(runner.pending).toBe(0);
+    });
+
+    it('should keep processing after a job throws', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const pipeline = { run: jest.fn().mockRejectedValueOnce(new Error('Database unavailable')).mockResolvedValue(true) };
+      const runner = new AuditJobRunner({ pipeline });
+
+      // Act
+      runner.enqueue('audit-1');
+      runner.enqueue('audit-2');
+      await runner.onIdle();
+
+      // Assert
+      expect(pipeline.run).toHaveBeenLastCalledWith('audit-2');
+      expect(consoleSpy).toHaveBeenCalledWith('Audit audit-1 could not be processed', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    it('should restart draining for audits enqueued after going idle', async () => {
+      // Arrange
+      const pipeline = { run: jest.fn().mockResolvedValue(true) };
+      const runner = new AuditJobRunner({ pipeline });
+
+      // Act
+      runner.enqueue('audit-1');
+      await runner.onIdle();
+      runner.enqueue('audit-2');
+      await runner.onIdle();
+
+      // Assert
+      expect(pipeline.run.mock.calls).toEqual([['audit-1'], ['audit-2']]);
+    });
+  });
+
+  describe('GREEN Phase: Restart Recovery', () => {
+    it('should fail stale audits and resume pending ones', async () => {
+      // Arrange
+      const pipeline = { run: jest.fn().mockResolvedValue(true) };
+      const runner = new AuditJobRunner({ pipeline, staleAfter: 60_000 });
+      (prisma.audit.updateMany as jest.Mock).mockResolvedValueOnce({ count: 2 });
+      (prisma.audit.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'audit-3' }, { id: 'audit-4' }]);
+      const before = Date.now();
+
+      // Act
+      const result = await runner.recover();
+      await runner.onIdle();
+
+      // Assert
+      expect(result).toEqual({ resumed: ['audit-3', 'audit-4'], failed: 2 });
+      const [{ where, data }] = (prisma.audit.updateMany as jest.Mock).mock.calls[0];
+      expect(where.status).toEqual({ in: ['crawling', 'analyzing'] });
+      expect(where.updatedAt.lt.getTime()).toBeLessThanOrEqual(before - 60_000 + 1000);
+      expect(data).toEqual({ status: 'failed', failureReason: AuditJobRunner.INTERRUPTED_REASON, completedAt: expect.any(Date) });
+      expect(pipeline.run.mock.calls).toEqual([['audit-3'], ['audit-4']]);
+    });
+  });
+
+  describe('GREEN Phase: Heartbeats', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should touch the running audit every heartbeat interval until it ends', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      const done = deferred();
+      const pipeline = { run: jest.fn(() => done.promise.then(() => true)) };
+      const runner = new AuditJobRunner({ pipeline, heartbeatInterval: 1000 });
+      (prisma.audit.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      // Act
+      runner.enqueue('audit-1');
+      await jest.advanceTimersByTimeAsync(2500);
+      done.resolve();
+      await runner.onIdle();
+      await jest.advanceTimersByTimeAsync(5000);
+
+      // Assert
+      expect(prisma.audit.updateMany).toHaveBeenCalledTimes(2);
+      expect(prisma.audit.updateMany).toHaveBeenCalledWith({
+        where: { id: 'audit-1', status: { in: ['crawling', 'analyzing'] } },
+        data: { updatedAt: expect.any(Date) }
+      });
+    });
+
+    it('should log failed heartbeats and keep running', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const done = deferred();
+      const runner = new AuditJobRunner({ pipeline: { run: jest.fn(() => done.promise.then(() => true)) }, heartbeatInterval: 1000 });
+      (prisma.audit.updateMany as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable'));
+
+      // Act
+      runner.enqueue('audit-1');
+      await jest.advanceTimersByTimeAsync(1000);
+      done.resolve();
+      await runner.onIdle();
+
+      // Assert
+      expect(consoleSpy).toHaveBeenCalledWith('Audit audit-1 heartbeat failed', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    it('should recover on start, then fail stale audits on every interval until stopped', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const runner = new AuditJobRunner({ pipeline: { run: jest.fn() }, heartbeatInterval: 1000 });
+      (prisma.audit.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      (prisma.audit.findMany as jest.Mock).mockResolvedValue([]);
+
+      // Act
+      runner.start();
+      runner.start();
+      await jest.advanceTimersByTimeAsync(1000);
+      (prisma.audit.updateMany as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable'));
+      await jest.advanceTimersByTimeAsync(1000);
+      runner.stop();
+      runner.stop();
+      await jest.advanceTimersByTimeAsync(5000);
+
+      // Assert
+      expect(prisma.audit.findMany).toHaveBeenCalledTimes(1);
+      expect(prisma.audit.updateMany).toHaveBeenCalledTimes(3);
+      expect((prisma.audit.updateMany as jest.Mock).mock.calls[1][0].data).toMatchObject({ status: 'failed' });
+      expect(consoleSpy).toHaveBeenCalledWith('Stale audit check failed', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('REFACTOR Phase: Process-wide Runner', () => {
+    afterEach(() => {
+      globalThis.__auditJobRunner?.stop();
+      globalThis.__auditJobRunner = undefined;
+    });
+
+    it('should create one runner and recover once', async () => {
+      // Arrange
+      (prisma.audit.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      (prisma.audit.findMany as jest.Mock).mockResolvedValue([]);
+
+      // Act
+      const runner = getAuditJobRunner();
+      const again = getAuditJobRunner();
+      await runner.onIdle();
+
+      // Assert
+      expect(again).toBe(runner);
+      expect(runner.pending).toBe(0);
+      expect(prisma.audit.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log a failed recovery without throwing', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (prisma.audit.updateMany as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable'));
+
+      // Act
+      getAuditJobRunner();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      // Assert
+      expect(consoleSpy).toHaveBeenCalledWith('Audit recovery failed', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+});
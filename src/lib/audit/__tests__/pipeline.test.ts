@@ -0,0 +1,489 @@
+/**
+ * TDD Test Suite for the Audit Pipeline
+ * Discovery, crawler, heuristic engines, rule settings, LLM, regression alerts and theme template loading are faked;
+ * Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import { AuditPipeline } from '../pipeline';
+import type { PageCrawler } from '../pipeline';
+import type { Finding, ThemePage } from '../../../types';
+import { saveCrawlResult } from '../../crawler/crawl-results';
+import { ShopifyCrawler } from '../../crawler/shopify-crawler';
+import { loadAuditRuleConfig } from '../../heuristics/rule-config-store';
+import { loadThemePages } from '../../themes/theme-results';
+import { createMockLLMRecommendation, createMockPage } from '../../../test-utils';
+
+// The crawler modules have their own tests, and coverage is not merged across test files
+jest.mock('../../crawler/discovery', () => ({
+  PageDiscovery: jest.fn(),
+  classifyUrl: (url: string) => (url.includes('/products/') ? 'product' : null)
+}));
+
+jest.mock('../../crawler/shopify-crawler', () => ({
+  ShopifyCrawler: jest.fn()
+}));
+
+jest.mock('../../crawler/crawl-results', () => ({
+  saveCrawlResult: jest.fn()
+}));
+
+// The default engine would load the rule files in rules/, which have their own tests
+jest.mock('../../heuristics/declarative-rules', () => ({
+  loadRuntimeDeclarativeRules: jest.fn(() => [])
+}));
+
+jest.mock('../../heuristics/rule-config-store', () => ({
+  loadAuditRuleConfig: jest.fn()
+}));
+
+jest.mock('../../schedules/alerts', () => ({
+  RegressionAlerter: jest.fn()
+}));
+
+jest.mock('../../screenshots/screenshot-store', () => ({
+  saveScreenshots: jest.fn()
+}));
+
+jest.mock('../../themes/theme-results', () => ({
+  loadThemePages: jest.fn()
+}));
+
+jest.mock('../../themes/theme-rules', () => ({
+  createThemeEngine: jest.fn(() => ({ run: jest.fn() }))
+}));
+
+const storeUrl = 'https://test-store.myshopify.com';
+
+const auditRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: 'audit-1',
+  siteId: 'site-1',
+  site: { url: storeUrl, settings: {} },
+  persona: 'default',
+  source: 'crawl',
+  requestedPages: null,
+  budgetCents: null,
+  scheduleId: null,
+  ...overrides
+});
+
+const crawlResultFor = (url: string) => ({
+  url,
+  finalUrl: url,
+  html: '<html></html>',
+  metrics: createMockPage().metrics,
+  theme: null,
+  screenshots: [],
+  crawledAt: new Date('2026-10-19T10:00:00Z')
+});
+
+const finding: Finding = {
+  id: 'hero_cta_missing-page-home-1',
+  pageId: 'page-home',
+  ruleId: 'hero_cta_missing',
+  severity: 'high',
+  evidence: { ctaCount: 0 }
+};
+
+const ruleConfig = {
+  rules: { hero_cta_detection: { enabled: true, severity: null, maxScore: 20, thresholds: { minProminentWidth: 120 } } },
+  changes: [{ ruleId: 'hero_cta_detection', setting: 'maxScore', from: 15, to: 20, source: 'global' }]
+};
+
+const messages = [{ role: 'user', content: 'Audit finding: hero_cta_missing' }];
+
+const usage = { calls: 1, tokenUsage: { prompt: 900, completion: 200, total: 1100 }, costCents: 0.0255 };
+
+const statuses = () => (prisma.audit.update as jest.Mock).mock.calls
+  .map(([args]) => args.data.status)
+  .filter(Boolean);
+
+const auditUpdate = (key: string) => (prisma.audit.update as jest.Mock).mock.calls
+  .map(([args]) => args.data)
+  .find(data => key in data);
+
+describe('AuditPipeline - TDD', () => {
+  let crawler: jest.Mocked<PageCrawler>;
+  let discovery: { discover: jest.Mock };
+  let engine: { run: jest.Mock };
+  let themeEngine: { run: jest.Mock };
+  let llm: { generateRecommendations: jest.Mock };
+  let alerts: { check: jest.Mock };
+  let pipeline: AuditPipeline;
+
+  beforeEach(() => {
+    crawler = {
+      crawlPage: jest.fn(async (url: string) => crawlResultFor(url)),
+      crawlFunnel: jest.fn(async () => crawlResultFor(`${storeUrl}/cart`)),
+      close: jest.fn()
+    } as unknown as jest.Mocked<PageCrawler>;
+    discovery = { discover: jest.fn().mockResolvedValue([{ url: `${storeUrl}/`, pageType: 'home', source: 'root' }]) };
+    const analysis = {
+      score: { overall: 64, breakdown: { conversion: 64 } },
+      findings: [finding],
+      executions: [
+        { ruleId: 'hero_cta', pageId: 'page-home', category: 'conversion', maxScore: 15, result: { passed: false, score: 0, finding } },
+        { ruleId: 'alt_text_coverage', pageId: 'page-home', category: 'accessibility', maxScore: 5, result: { passed: true, score: 5, finding: null } },
+        { ruleId: 'price_display', pageId: 'page-home', category: 'conversion', maxScore: 12, result: { passed: true, score: 0, finding: null, skipped: true } }
+      ],
+      errors: []
+    };
+    engine = { run: jest.fn().mockReturnValue(analysis) };
+    themeEngine = { run: jest.fn().mockReturnValue(analysis) };
+    llm = {
+      generateRecommendations: jest.fn().mockResolvedValue({
+        recommendations: [{ finding, recommendation: createMockLLMRecommendation(), model: 'mock-cro-1', messages }],
+        failed: [],
+        skipped: [],
+        budgetExceeded: false,
+        usage
+      })
+    };
+    alerts = { check: jest.fn().mockResolvedValue(null) };
+    pipeline = new AuditPipeline({ discovery, createCrawler: () => crawler, engine, themeEngine, llm, alerts });
+
+    (prisma.audit.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (loadAuditRuleConfig as jest.Mock).mockResolvedValue(ruleConfig);
+    (prisma.audit.findUniqueOrThrow as jest.Mock).mockResolvedValue(auditRecord());
+    (saveCrawlResult as jest.Mock).mockImplementation(async (_auditId, page) => ({ id: `page-${page.pageType}` }));
+    (prisma.finding.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: `finding-${data.ruleId}` }));
+  });
+
+  describe('RED Phase: Claiming', () => {
+    it('should claim only pending audits', async () => {
+      // Arrange
+      (prisma.audit.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+      // Act
+      const ran = await pipeline.run('audit-1');
+
+      // Assert
+      expect(ran).toBe(false);
+      expect(prisma.audit.updateMany).toHaveBeenCalledWith({
+        where: { id: 'audit-1', status: 'pending' },
+        data: { status: 'crawling', startedAt: expect.any(Date) }
+      });
+      expect(discovery.discover).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Full Run', () => {
+    it('should crawl, analyse and recommend, moving through every status', async () => {
+      // Act
+      const ran = await pipeline.run('audit-1');
+
+      // Assert
+      expect(ran).toBe(true);
+      expect(statuses()).toEqual(['analyzing', 'completed']);
+      expect(auditUpdate('completedAt')).toEqual({ status: 'completed', completedAt: expect.any(Date) });
+      expect(prisma.audit.findUniqueOrThrow).toHaveBeenCalledWith({ where: { id: 'audit-1' }, include: { site: true } });
+      expect(discovery.discover).toHaveBeenCalledWith(storeUrl, {});
+      expect(crawler.crawlPage).toHaveBeenCalledWith(`${storeUrl}/`, 'home');
+      expect(crawler.close).toHaveBeenCalled();
+      expect(auditUpdate('pagesTotal')).toEqual({ pagesTotal: 1, pagesFailed: 0 });
+      expect(engine.run).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'page-home', crawlId: 'audit-1', url: `${storeUrl}/`, type: 'home' })
+      ], ruleConfig.rules);
+      expect(loadAuditRuleConfig).toHaveBeenCalledWith('site-1');
+      expect(auditUpdate('score')).toEqual({ score: 64, scoreBreakdown: { conversion: 64 }, ruleConfig });
+      expect(prisma.site.update).toHaveBeenCalledWith({ where: { id: 'site-1' }, data: { lastCrawledAt: auditUpdate('completedAt').completedAt } });
+      expect(alerts.check).not.toHaveBeenCalled();
+    });
+
+    it('should check scheduled audits for regressions once completed', async () => {
+      // Arrange
+      (prisma.audit.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce(auditRecord({ scheduleId: 'schedule-1' }));
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(alerts.check).toHaveBeenCalledWith('audit-1', 'schedule-1');
+      expect(statuses()).toEqual(['analyzing', 'completed']);
+    });
+
+    it('should not wait for regression alerts to be delivered', async () => {
+      // Arrange
+      (prisma.audit.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce(auditRecord({ scheduleId: 'schedule-1' }));
+      alerts.check.mockReturnValueOnce(new Promise(() => {}));
+
+      // Act
+      const ran = await pipeline.run('audit-1');
+
+      // Assert
+      expect(ran).toBe(true);
+      expect(statuses()).toEqual(['analyzing', 'completed']);
+    });
+
+    it('should discover pages with the site crawl settings', async () => {
+      // Arrange
+      (prisma.audit.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce(auditRecord({
+        site: { url: storeUrl, settings: { persona: 'fr-que', maxPages: 5, excludePaths: ['/collections/sale'] } }
+      }));
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(discovery.discover).toHaveBeenCalledWith(storeUrl, { maxPages: 5, excludePaths: ['/collections/sale'] });
+    });
+
+    it('should store findings and link recommendations with their first version', async () => {
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(prisma.finding.create).toHaveBeenCalledWith({
+        data: {
+          auditId: 'audit-1',
+          crawlResultId: 'page-home',
+          ruleId: 'hero_cta_missing',
+          ruleKey: 'hero_cta',
+          category: 'conversion',
+          severity: 'high',
+          evidence: { ctaCount: 0 }
+        }
+      });
+      expect(prisma.crawlResult.update).toHaveBeenCalledWith({ where: { id: 'page-home' }, data: { checkedRules: ['hero_cta', 'alt_text_coverage'] } });
+      expect(prisma.recommendation.create).toHaveBeenCalledWith({
+        data: {
+          ...createMockLLMRecommendation(),
+          ruleId: 'hero_cta_missing',
+          auditId: 'audit-1',
+          findingId: 'finding-hero_cta_missing',
+          versions: { create: { ...createMockLLMRecommendation(), version: 1, persona: 'default', model: 'mock-cro-1', prompt: messages } }
+        }
+      });
+      expect(auditUpdate('llmCalls')).toMatchObject({ llmCalls: { increment: 1 }, costCents: { increment: 0.0255 } });
+    });
+
+    it('should crawl requested pages instead of discovering them', async () => {
+      // Arrange
+      (prisma.audit.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce(auditRecord({
+        requestedPages: [`${storeUrl}/products/linen-shirt`, `${storeUrl}/pages/about`]
+      }));
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(discovery.discover).not.toHaveBeenCalled();
+      expect(crawler.crawlPage).toHaveBeenCalledTimes(1);
+      expect(crawler.crawlPage).toHaveBeenCalledWith(`${storeUrl}/products/linen-shirt`, 'product');
+    });
+
+    it('should walk the funnel from the first product page in place of the discovered cart page', async () => {
+      // Arrange
+      discovery.discover.mockResolvedValueOnce([
+        { url: `${storeUrl}/`, pageType: 'home', source: 'root' },
+        { url: `${storeUrl}/cart`, pageType: 'cart', source: 'navigation' },
+        { url: `${storeUrl}/products/linen-shirt`, pageType: 'product', source: 'products' },
+        { url: `${storeUrl}/products/wool-coat`, pageType: 'product', source: 'products' }
+      ]);
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(crawler.crawlPage.mock.calls.map(([url]) => url)).toEqual([
+        `${storeUrl}/`,
+        `${storeUrl}/products/linen-shirt`,
+        `${storeUrl}/products/wool-coat`
+      ]);
+      expect(crawler.crawlFunnel).toHaveBeenCalledWith(`${storeUrl}/products/linen-shirt`);
+      expect(saveCrawlResult).toHaveBeenLastCalledWith(
+        'audit-1',
+        { url: `${storeUrl}/cart`, pageType: 'cart', source: 'funnel' },
+        crawlResultFor(`${storeUrl}/cart`)
+      );
+      expect(engine.run.mock.calls[0][0].map((page: { type: string }) => page.type)).toEqual(['home', 'product', 'product', 'cart']);
+      expect(auditUpdate('pagesTotal')).toEqual({ pagesTotal: 4, pagesFailed: 0 });
+    });
+
+    it('should ask for recommendations in the audit persona, per page', async () => {
+      // Arrange
+      (prisma.audit.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce(auditRecord({ persona: 'fr-que' }));
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      const [findings, contexts, tracker] = llm.generateRecommendations.mock.calls[0];
+      expect(findings).toEqual([finding]);
+      expect(contexts.get('page-home')).toEqual({ pageUrl: `${storeUrl}/`, pageType: 'home', persona: 'fr-que' });
+      expect(tracker.budgetCents).toBeNull();
+    });
+
+    it('should pass the theme detected on each page to its recommendations', async () => {
+      // Arrange
+      const theme = { name: 'Dawn', schemaName: 'Dawn', schemaVersion: '15.0.0', themeStoreId: 887, family: 'dawn' as const, sections: [] };
+      crawler.crawlPage.mockResolvedValueOnce({ ...crawlResultFor(`${storeUrl}/`), theme });
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      const [, contexts] = llm.generateRecommendations.mock.calls[0];
+      expect(contexts.get('page-home')).toEqual({ pageUrl: `${storeUrl}/`, pageType: 'home', persona: 'default', theme });
+    });
+  });
+
+  describe('GREEN Phase: Theme Audits', () => {
+    const theme = { name: 'Dawn', schemaName: 'Dawn', schemaVersion: '15.0.0', themeStoreId: null, family: 'dawn' as const, sections: [] };
+    const themePage: ThemePage = {
+      id: 'page-home',
+      crawlId: 'audit-1',
+      url: 'templates/index.json',
+      type: 'home',
+      metrics: { hero: null, mainProduct: null, images: { total: 0, withAlt: 0, missingAlt: [] } },
+      theme
+    };
+
+    it('should check the stored templates with the theme rules instead of crawling', async () => {
+      // Arrange
+      (prisma.audit.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce(auditRecord({ source: 'theme' }));
+      (loadThemePages as jest.Mock).mockResolvedValueOnce([themePage]);
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(loadThemePages).toHaveBeenCalledWith('audit-1');
+      expect(discovery.discover).not.toHaveBeenCalled();
+      expect(engine.run).not.toHaveBeenCalled();
+      expect(themeEngine.run).toHaveBeenCalledWith([themePage], ruleConfig.rules);
+      expect(statuses()).toEqual(['analyzing', 'completed']);
+      expect(auditUpdate('score')).toEqual({ score: 64, scoreBreakdown: { conversion: 64 }, ruleConfig });
+      expect(prisma.finding.create).toHaveBeenCalledWith({ data: expect.objectContaining({ crawlResultId: 'page-home', ruleId: 'hero_cta_missing' }) });
+      const [, contexts] = llm.generateRecommendations.mock.calls[0];
+      expect(contexts.get('page-home')).toEqual({ pageUrl: 'templates/index.json', pageType: 'home', persona: 'default', theme });
+      expect(prisma.site.update).not.toHaveBeenCalled();
+    });
+
+    it('should fail theme audits without stored templates', async () => {
+      // Arrange
+      (prisma.audit.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce(auditRecord({ source: 'theme' }));
+      (loadThemePages as jest.Mock).mockResolvedValueOnce([]);
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(auditUpdate('failureReason').failureReason).toBe('The uploaded theme has no auditable templates');
+      expect(themeEngine.run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('REFACTOR Phase: Failures and Budget', () => {
+    it('should count failed pages and keep going', async () => {
+      // Arrange
+      discovery.discover.mockResolvedValueOnce([
+        { url: `${storeUrl}/`, pageType: 'home', source: 'root' },
+        { url: `${storeUrl}/cart`, pageType: 'cart', source: 'navigation' }
+      ]);
+      crawler.crawlPage.mockRejectedValueOnce(new Error('Timeout'));
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(auditUpdate('pagesTotal')).toEqual({ pagesTotal: 2, pagesFailed: 1 });
+      expect(statuses()).toEqual(['analyzing', 'completed']);
+    });
+
+    it('should count a failed funnel walk like a failed page', async () => {
+      // Arrange
+      discovery.discover.mockResolvedValueOnce([{ url: `${storeUrl}/products/linen-shirt`, pageType: 'product', source: 'products' }]);
+      crawler.crawlFunnel.mockRejectedValueOnce(new Error('Browser closed'));
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(auditUpdate('pagesTotal')).toEqual({ pagesTotal: 2, pagesFailed: 1 });
+      expect(statuses()).toEqual(['analyzing', 'completed']);
+    });
+
+    it('should fail the audit when no page could be crawled', async () => {
+      // Arrange
+      crawler.crawlPage.mockRejectedValueOnce(new Error('Timeout'));
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(statuses()).toEqual(['failed']);
+      expect(auditUpdate('failureReason')).toEqual({ status: 'failed', failureReason: 'No page could be crawled', completedAt: expect.any(Date) });
+      expect(prisma.site.update).not.toHaveBeenCalled();
+      expect(crawler.close).toHaveBeenCalled();
+    });
+
+    it('should fail the audit when discovery finds nothing auditable', async () => {
+      // Arrange
+      discovery.discover.mockResolvedValueOnce([]);
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(auditUpdate('failureReason').failureReason).toBe('No auditable pages were found');
+    });
+
+    it('should record non-Error failures as the failure reason', async () => {
+      // Arrange
+      discovery.discover.mockRejectedValueOnce('sitemap unreachable');
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(auditUpdate('failureReason').failureReason).toBe('sitemap unreachable');
+    });
+
+    it('should keep findings but stop recommending once the budget is spent', async () => {
+      // Arrange
+      (prisma.audit.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce(auditRecord({ budgetCents: 5 }));
+      llm.generateRecommendations.mockResolvedValueOnce({ recommendations: [], failed: [], skipped: [finding], budgetExceeded: true, usage });
+
+      // Act
+      await pipeline.run('audit-1');
+
+      // Assert
+      expect(llm.generateRecommendations.mock.calls[0][2].budgetCents).toBe(5);
+      expect(prisma.finding.create).toHaveBeenCalled();
+      expect(prisma.recommendation.create).not.toHaveBeenCalled();
+      expect(auditUpdate('budgetExceeded')).toMatchObject({ budgetExceeded: true });
+      expect(statuses()).toEqual(['analyzing', 'completed']);
+    });
+
+    it('should keep the audit completed when the regression check fails', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (prisma.audit.findUniqueOrThrow as jest.Mock).mockResolvedValueOnce(auditRecord({ scheduleId: 'schedule-1' }));
+      alerts.check.mockRejectedValueOnce(new Error('database unavailable'));
+
+      // Act
+      await pipeline.run('audit-1');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      // Assert
+      expect(statuses()).toEqual(['analyzing', 'completed']);
+      expect(consoleSpy).toHaveBeenCalledWith('Regression check of audit audit-1 failed', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    it('should use the Playwright crawler by default', async () => {
+      // Arrange
+      (ShopifyCrawler as unknown as jest.Mock).mockImplementation(() => crawler);
+      const defaults = new AuditPipeline({ discovery, engine, themeEngine, llm, alerts });
+
+      // Act
+      await defaults.run('audit-1');
+
+      // Assert
+      expect(ShopifyCrawler).toHaveBeenCalledTimes(1);
+      expect(crawler.crawlPage).toHaveBeenCalledWith(`${storeUrl}/`, 'home');
+      expect(crawler.close).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Audit job runner
+ * In-process queue that feeds audits to the AuditPipeline one at a time.
+ *
+ * Restart safety:
+ * - start() runs recover() at server startup, then checks for stale audits
+ *   every heartbeatInterval ms
+ * - Audits still pending in the database are re-enqueued by recover()
+ * - While an audit runs, its updatedAt is touched every heartbeatInterval ms,
+ *   so one in crawling/analyzing without an update for staleAfter ms was cut
+ *   off by a restart and is marked failed, whichever process ran it
+ * - The pipeline claims an audit atomically, so enqueueing an id twice or
+ *   from two processes runs it once
+ */
+
+import prisma from '@/lib/prisma';
+import { AuditPipeline } from './pipeline';
+
+export interface AuditJobRunnerOptions {
+  pipeline?: Pick<AuditPipeline, 'run'>;
+  staleAfter?: number;
+  heartbeatInterval?: number; // Time between updatedAt touches of the running audit, and between stale checks, in ms
+}
+
+export interface RecoveryResult {
+  resumed: string[];
+  failed: number;
+}
+
+export class AuditJobRunner {
+  // Runner configuration constants
+  public static readonly DEFAULT_STALE_AFTER = 5 * 60 * 1000;
+  public static readonly DEFAULT_HEARTBEAT_INTERVAL = 60 * 1000;
+  public static readonly INTERRUPTED_REASON = 'Audit was interrupted by a server restart';
+
+  private readonly pipeline: Pick<AuditPipeline, 'run'>;
+  private readonly staleAfter: number;
+  private readonly heartbeatInterval: number;
+  private readonly queue: string[] = [];
+  private draining: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: AuditJobRunnerOptions = {}) {
+    this.pipeline = options.pipeline ?? new AuditPipeline();
+    this.staleAfter = options.staleAfter ?? AuditJobRunner.DEFAULT_STALE_AFTER;
+    this.heartbeatInterval = options.heartbeatInterval ?? AuditJobRunner.DEFAULT_HEARTBEAT_INTERVAL;
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue an audit and start processing in the background
+   */
+  enqueue(auditId: string): void {
+    if (!this.queue.includes(auditId)) {
+      this.queue.push(auditId);
+    }
+    this.draining ??= this.drain().finally(() => {
+      this.draining = null;
+    });
+  }
+
+  /**
+   * Resolves once every queued audit has been processed
+   */
+  async onIdle(): Promise<void> {
+    while (this.draining) {
+      await this.draining;
+    }
+  }
+
+  /**
+   * Recover now, then fail stale audits every heartbeat interval until stop()
+   * is called; the timer does not keep the process alive
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.recover().catch(error => console.error('Audit recovery failed', error));
+    this.timer = setInterval(() => {
+      this.failStale().catch(error => console.error('Stale audit check failed', error));
+    }, this.heartbeatInterval);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fail interrupted audits and resume pending ones, typically on startup
+   */
+  async recover(): Promise<RecoveryResult> {
+    const count = await this.failStale();
+
+    const pending: Array<{ id: string }> = await prisma.audit.findMany({
+      where: { status: 'pending' },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    pending.forEach(audit => this.enqueue(audit.id));
+
+    return { resumed: pending.map(audit => audit.id), failed: count };
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private async drain(): Promise<void> {
+    let auditId: string | undefined;
+    while ((auditId = this.queue.shift()) !== undefined) {
+      const running = auditId;
+      const heartbeat = setInterval(() => {
+        this.touch(running).catch(error => console.error(`Audit ${running} heartbeat failed`, error));
+      }, this.heartbeatInterval);
+      heartbeat.unref?.();
+      try {
+        await this.pipeline.run(auditId);
+      } catch (error) {
+        console.error(`Audit ${auditId} could not be processed`, error);
+      } finally {
+        clearInterval(heartbeat);
+      }
+    }
+  }
+
+  private async failStale(): Promise<number> {
+    const { count } = await prisma.audit.updateMany({
+      where: {
+        status: { in: ['crawling', 'analyzing'] },
+        updatedAt: { lt: new Date(Date.now() - this.staleAfter) },
+      },
+      data: { status: 'failed', failureReason: AuditJobRunner.INTERRUPTED_REASON, completedAt: new Date() },
+    });
+    return count;
+  }
+
+  // Shows the audit is still being worked on, however long a crawl or LLM call takes
+  private async touch(auditId: string): Promise<void> {
+    await prisma.audit.updateMany({
+      where: { id: auditId, status: { in: ['crawling', 'analyzing'] } },
+      data: { updatedAt: new Date() },
+    });
+  }
+}
+
+declare global {
+  // eslint-disable-next-line no-var, no-unused-vars
+  var __auditJobRunner: AuditJobRunner | undefined;
+}
+
+/**
+ * Process-wide runner, started when it is first created (at server startup,
+ * see instrumentation.ts)
+ */
+export function getAuditJobRunner(): AuditJobRunner {
+  if (!globalThis.__auditJobRunner) {
+    const runner = new AuditJobRunner();
+    globalThis.__auditJobRunner = runner;
+    runner.start();
+  }
+  return globalThis.__auditJobRunner;
+}
@@ -0,0 +1,293 @@
+/**
+ * Audit pipeline
+ * Runs one audit end to end and records its progress on the Audit row.
+ *
+ * Flow:
+ * - pending → crawling: claim the audit, then discover pages with the site settings (or take the
+ *   requested ones) and crawl them; theme audits load the templates stored at upload instead
+ * - crawling → analyzing: run the heuristic engine (the theme rules for theme audits) with the
+ *   site's rule settings, store the score, those settings and categorised findings
+ * - analyzing: generate recommendations within the audit's LLM budget, each stored with its
+ *   first version, and record the spend
+ * - → completed (stamping the site's lastCrawledAt after a crawl), or failed with a failureReason
+ *   from any stage
+ * - scheduled audits are then checked for regressions against the previous run
+ *
+ * When a product page is among them, the crawl also walks the add-to-cart funnel
+ * from the first one and records the cart page it reaches, in place of a
+ * discovered cart page.
+ *
+ * Pages that fail to crawl are counted and skipped; the audit only fails when
+ * no page could be crawled.
+ */
+
+import prisma from '@/lib/prisma';
+import type {
+  AuditRuleConfig,
+  AuditSource,
+  AuditStatus,
+  Finding,
+  HeuristicRunResult,
+  Page,
+  PersonaId,
+  RuleExecution,
+  SiteSettings,
+  ThemeInfo,
+  ThemePage,
+} from '../../types';
+import { saveCrawlResult } from '../crawler/crawl-results';
+import { PageDiscovery, classifyUrl } from '../crawler/discovery';
+import type { DiscoveredPage } from '../crawler/discovery';
+import { ShopifyCrawler } from '../crawler/shopify-crawler';
+import type { CrawlPageResult } from '../crawler/shopify-crawler';
+import { createDefaultEngine } from '../heuristics/engine';
+import type { HeuristicEngine } from '../heuristics/engine';
+import { loadAuditRuleConfig } from '../heuristics/rule-config-store';
+import { LLMService } from '../llm/llm-service';
+import type { RecommendationContext } from '../llm/prompts';
+import { UsageTracker } from '../llm/usage';
+import { saveAuditUsage } from '../llm/usage-store';
+import { RegressionAlerter } from '../schedules/alerts';
+import { loadThemePages } from '../themes/theme-results';
+import { createThemeEngine } from '../themes/theme-rules';
+
+export type PageDiscoverer = Pick<PageDiscovery, 'discover'>;
+export type PageCrawler = Pick<ShopifyCrawler, 'crawlPage' | 'crawlFunnel' | 'close'>;
+export type PageAnalyzer = Pick<HeuristicEngine, 'run'>;
+export type ThemeAnalyzer = Pick<HeuristicEngine<ThemePage>, 'run'>;
+export type RecommendationGenerator = Pick<LLMService, 'generateRecommendations'>;
+export type RegressionChecker = Pick<RegressionAlerter, 'check'>;
+
+export interface AuditPipelineOptions {
+  discovery?: PageDiscoverer;
+  createCrawler?: () => PageCrawler;
+  engine?: PageAnalyzer;
+  themeEngine?: ThemeAnalyzer;
+  llm?: RecommendationGenerator;
+  alerts?: RegressionChecker;
+}
+
+interface AuditRecord {
+  id: string;
+  siteId: string;
+  site: { url: string; settings: SiteSettings };
+  persona: string;
+  source: AuditSource;
+  requestedPages: unknown;
+  budgetCents: number | null;
+  scheduleId: string | null;
+}
+
+// Crawled page with the theme detected on it, for recommendation prompts
+interface CrawledPage extends Page {
+  theme: ThemeInfo | null;
+}
+
+type AuditedPage = Pick<CrawledPage, 'id' | 'url' | 'type' | 'theme'>;
+
+export class AuditPipeline {
+  private readonly discovery: PageDiscoverer;
+  private readonly createCrawler: () => PageCrawler;
+  private readonly engine: PageAnalyzer;
+  private readonly themeEngine: ThemeAnalyzer;
+  private readonly llm: RecommendationGenerator;
+  private readonly alerts: RegressionChecker;
+
+  constructor(options: AuditPipelineOptions = {}) {
+    this.discovery = options.discovery ?? new PageDiscovery();
+    this.createCrawler = options.createCrawler ?? (() => new ShopifyCrawler());
+    this.engine = options.engine ?? createDefaultEngine();
+    this.themeEngine = options.themeEngine ?? createThemeEngine();
+    this.llm = options.llm ?? new LLMService();
+    this.alerts = options.alerts ?? new RegressionAlerter();
+  }
+
+  /**
+   * Run a pending audit. Returns false when the audit was missing or already
+   * claimed, so the same id can safely be enqueued more than once.
+   */
+  async run(auditId: string): Promise<boolean> {
+    const claimed = await prisma.audit.updateMany({
+      where: { id: auditId, status: 'pending' },
+      data: { status: 'crawling', startedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    try {
+      const audit: AuditRecord = await prisma.audit.findUniqueOrThrow({ where: { id: auditId }, include: { site: true } });
+      const { pages, score, findings, executions, ruleConfig } = await this.analyze(audit);
+      await prisma.audit.update({ where: { id: auditId }, data: { score: score.overall, scoreBreakdown: score.breakdown, ruleConfig } });
+      await this.recordChecks(pages, executions);
+      await this.recommend(audit, pages, findings, executions);
+
+      const completedAt = new Date();
+      await this.setStatus(auditId, 'completed', { completedAt });
+      // An uploaded theme says nothing about when the live store was last checked
+      if (audit.source !== 'theme') {
+        await prisma.site.update({ where: { id: audit.siteId }, data: { lastCrawledAt: completedAt } });
+      }
+      if (audit.scheduleId) {
+        this.alert(auditId, audit.scheduleId);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.setStatus(auditId, 'failed', { failureReason: message, completedAt: new Date() });
+    }
+    return true;
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private async analyze(audit: AuditRecord): Promise<HeuristicRunResult & { pages: AuditedPage[]; ruleConfig: AuditRuleConfig }> {
+    if (audit.source === 'theme') {
+      const pages = await loadThemePages(audit.id);
+      if (pages.length === 0) {
+        throw new Error('The uploaded theme has no auditable templates');
+      }
+      const ruleConfig = await this.startAnalysis(audit);
+      return { ...this.themeEngine.run(pages, ruleConfig.rules), pages, ruleConfig };
+    }
+
+    const pages = await this.crawl(audit);
+    const ruleConfig = await this.startAnalysis(audit);
+    return { ...this.engine.run(pages, ruleConfig.rules), pages, ruleConfig };
+  }
+
+  // Rule settings are read once the pages are in, so edits made during the crawl still apply
+  private async startAnalysis(audit: AuditRecord): Promise<AuditRuleConfig> {
+    await this.setStatus(audit.id, 'analyzing');
+    return loadAuditRuleConfig(audit.siteId);
+  }
+
+  private async crawl(audit: AuditRecord): Promise<CrawledPage[]> {
+    const targets = await this.selectPages(audit);
+    const funnelFrom = targets.find(target => target.pageType === 'product');
+    const pageTargets = funnelFrom ? targets.filter(target => target.pageType !== 'cart') : targets;
+    const pagesTotal = pageTargets.length + (funnelFrom ? 1 : 0);
+    const crawler = this.createCrawler();
+    const pages: CrawledPage[] = [];
+
+    try {
+      for (const target of pageTargets) {
+        await this.collectPage(audit.id, target, crawler.crawlPage(target.url, target.pageType), pages);
+      }
+      if (funnelFrom) {
+        const cart = { url: new URL('/cart', funnelFrom.url).toString(), pageType: 'cart' as const, source: 'funnel' as const };
+        await this.collectPage(audit.id, cart, crawler.crawlFunnel(funnelFrom.url), pages);
+      }
+    } finally {
+      await crawler.close();
+    }
+
+    await prisma.audit.update({
+      where: { id: audit.id },
+      data: { pagesTotal, pagesFailed: pagesTotal - pages.length },
+    });
+    if (pages.length === 0) {
+      throw new Error(targets.length === 0 ? 'No auditable pages were found' : 'No page could be crawled');
+    }
+    return pages;
+  }
+
+  private async collectPage(auditId: string, target: DiscoveredPage, crawling: Promise<CrawlPageResult>, pages: CrawledPage[]): Promise<void> {
+    try {
+      const result = await crawling;
+      const saved = await saveCrawlResult(auditId, target, result);
+      pages.push({
+        id: saved.id,
+        crawlId: auditId,
+        url: target.url,
+        type: target.pageType,
+        metrics: result.metrics,
+        findings: [],
+        crawl: null,
+        theme: result.theme,
+      });
+    } catch {
+      // Counted in pagesFailed; one broken page should not sink the audit
+    }
+  }
+
+  private async selectPages(audit: AuditRecord): Promise<DiscoveredPage[]> {
+    const requested = Array.isArray(audit.requestedPages) ? (audit.requestedPages as string[]) : [];
+    if (requested.length === 0) {
+      const { maxPages, excludePaths } = audit.site.settings;
+      return this.discovery.discover(audit.site.url, {
+        ...(maxPages !== undefined ? { maxPages } : {}),
+        ...(excludePaths !== undefined ? { excludePaths } : {}),
+      });
+    }
+
+    return requested.flatMap(url => {
+      const pageType = classifyUrl(url);
+      return pageType ? [{ url, pageType, source: 'root' as const }] : [];
+    });
+  }
+
+  // A finding missing from a later audit only counts as fixed when its rule ran on the page again
+  private async recordChecks(pages: AuditedPage[], executions: RuleExecution[]): Promise<void> {
+    for (const page of pages) {
+      const checkedRules = executions
+        .filter(execution => execution.pageId === page.id && !execution.result.skipped)
+        .map(execution => execution.ruleId);
+      await prisma.crawlResult.update({ where: { id: page.id }, data: { checkedRules } });
+    }
+  }
+
+  private async recommend(audit: AuditRecord, pages: AuditedPage[], findings: Finding[], executions: RuleExecution[]): Promise<void> {
+    const reportedBy = new Map(executions.map(execution => [execution.result.finding?.id, execution]));
+    const storedIds = new Map<string, string>();
+    for (const finding of findings) {
+      const execution = reportedBy.get(finding.id);
+      const stored = await prisma.finding.create({
+        data: {
+          auditId: audit.id,
+          crawlResultId: finding.pageId,
+          ruleId: finding.ruleId,
+          ruleKey: execution?.ruleId,
+          category: execution?.category,
+          severity: finding.severity,
+          evidence: finding.evidence,
+        },
+      });
+      storedIds.set(finding.id, stored.id);
+    }
+
+    const contexts = new Map(
+      pages.map((page): [string, RecommendationContext] => [
+        page.id,
+        { pageUrl: page.url, pageType: page.type, persona: audit.persona as PersonaId, ...(page.theme ? { theme: page.theme } : {}) },
+      ])
+    );
+    const tracker = new UsageTracker(audit.budgetCents !== null ? { budgetCents: audit.budgetCents } : {});
+    const batch = await this.llm.generateRecommendations(findings, contexts, tracker);
+
+    for (const { finding, recommendation, model, messages } of batch.recommendations) {
+      await prisma.recommendation.create({
+        data: {
+          ...recommendation,
+          ruleId: finding.ruleId,
+          auditId: audit.id,
+          findingId: storedIds.get(finding.id),
+          versions: { create: { ...recommendation, version: 1, persona: audit.persona, model, prompt: messages } },
+        },
+      });
+    }
+
+    await saveAuditUsage(audit.id, batch.usage, batch.budgetExceeded);
+  }
+
+  // The audit itself succeeded; a failed alert must not mark it failed. Not awaited,
+  // so webhook retries never hold up the next audit in the job runner's queue
+  private alert(auditId: string, scheduleId: string): void {
+    this.alerts.check(auditId, scheduleId).catch(error => {
+      console.error(`Regression check of audit ${auditId} failed`, error);
+    });
+  }
+
+  private setStatus(auditId: string, status: AuditStatus, data: Record<string, unknown> = {}) {
+    return prisma.audit.update({ where: { id: auditId }, data: { status, ...data } });
+  }
+}
@@ -1,14 +1,1249 @@
 /**
  * TDD Test Suite for Shopify Crawler
- * RED-GREEN-REFACTOR: Starting with tests before implementation
+ * Runs the crawler against local HTML fixtures served from a throwaway HTTP server
  */
 
+import fs from 'fs';
+import path from 'path';
+import { chromium } from 'playwright';
+import { ShopifyCrawler } from '../shopify-crawler';
+import { HeroCTARule } from '../../heuristics/hero-cta';
+import { CrawlerError } from '../../../types';
+import type { Page } from '../../../types';
+import { createFixtureBrowser, startFixtureServer } from '../../../test-utils/crawler-fixtures';
+import type { FixtureServer } from '../../../test-utils/crawler-fixtures';
+import { detectTheme } from '../../themes/detection';
+
+jest.mock('../../themes/detection', () => ({
+  detectTheme: jest.fn(() => null)
+}));
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
 describe('ShopifyCrawler - TDD Test Suite', () => {
+  let server: FixtureServer;
+  let crawler: ShopifyCrawler;
+
+  beforeAll(async () => {
+    server = await startFixtureServer({
+      '/': fixture('home-hero-cta.html'),
+      '/no-cta': fixture('home-no-cta.html'),
+      '/weak-cta': fixture('home-weak-cta.html'),
+      '/slow': { body: fixture('home-hero-cta.html'), delay: 500 },
+      '/server-error': { body: 'Internal error', status: 500 },
+      '/products/linen-shirt': fixture('product-on-sale.html'),
+      '/products/wool-coat': fixture('product-disabled-atc.html'),
+      '/products/mystery-box': fixture('product-no-price.html'),
+      '/products/gift-card': fixture('product-no-reviews.html'),
+      '/products/gift-wrap': fixture('product-short.html'),
+      '/accessibility': fixture('home-accessibility.html'),
+      '/vitals': fixture('home-vitals.html'),
+      '/products/linen-dress': fixture('product-funnel-drawer.html'),
+      '/products/linen-shorts': fixture('product-funnel-cart-page.html'),
+      '/products/canvas-tote': fixture('product-funnel-notification.html'),
+      '/products/straw-hat': fixture('product-funnel-empty-drawer.html'),
+      '/products/silk-scarf': fixture('product-funnel-locked-drawer.html'),
+      '/collections/shirts': fixture('collection-filters.html'),
+      '/collections/hats': fixture('collection-sparse.html'),
+      '/collections/bags': fixture('collection-drawer.html'),
+      '/cart': fixture('cart-funnel.html'),
+      '/cart/add.js': { body: '{"id":102,"quantity":1}', contentType: 'application/json' },
+      '/cart/add': { body: '{"status":422,"description":"Sold out"}', status: 422, contentType: 'application/json' },
+      '/checkouts/cn/fixture-token': fixture('checkout.html'),
+      '/account/login': fixture('account-login.html'),
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    crawler = new ShopifyCrawler({ scrollSettleTime: 0, launchBrowser: async () => createFixtureBrowser() });
+  });
+
+  afterEach(async () => {
+    await crawler.close();
+  });
+
   describe('RED Phase: URL Validation', () => {
-    it('should be created following TDD principles', () => {
-      // This test will fail initially - that's the RED phase
-      // Implementation will be added in GREEN phase
-      expect(true).toBe(true) // Placeholder
-    })
-  })
-})
\ No newline at end of file
+    it('should reject unparsable URLs with INVALID_URL', async () => {
+      // Act & Assert
+      await expect(crawler.crawlPage('not a url')).rejects.toMatchObject({
+        name: 'CrawlerError',
+        code: 'INVALID_URL',
+        url: 'not a url'
+      });
+    });
+
+    it('should reject non-http protocols with INVALID_URL', async () => {
+      // Act & Assert
+      await expect(crawler.crawlPage('ftp://test-store.myshopify.com')).rejects.toMatchObject({
+        code: 'INVALID_URL'
+      });
+    });
+  });
+
+  describe('GREEN Phase: Metrics Extraction', () => {
+    it('should extract CTA buttons above the fold with selector, position, size and prominence', async () => {
+      // Act
+      const result = await crawler.crawlPage(`${server.url}/`);
+
+      // Assert
+      expect(result.url).toBe(`${server.url}/`);
+      expect(result.finalUrl).toBe(`${server.url}/`);
+      expect(result.html).toContain('Summer Collection');
+      expect(result.theme).toBeNull();
+      expect(detectTheme).toHaveBeenCalledWith(result.html, undefined);
+      expect(result.metrics.aboveFold.height).toBe(ShopifyCrawler.DEFAULT_VIEWPORT.height);
+      expect(result.metrics.performance.loadTime).toBeGreaterThanOrEqual(0);
+      expect(result.metrics.aboveFold.ctaButtons).toEqual([
+        {
+          text: 'Shop Now',
+          selector: 'section.hero > a.button.button--primary',
+          position: { top: 320, left: 100 },
+          size: { width: 200, height: 50 },
+          prominent: true
+        },
+        {
+          text: 'Learn more',
+          selector: 'section.hero > a.hero__link',
+          position: { top: 400, left: 100 },
+          size: { width: 90, height: 20 },
+          prominent: false
+        }
+      ]);
+    });
+
+    it('should compute the fold from the configured viewport', async () => {
+      // Arrange - a short viewport pushes the hero CTA below the fold
+      const shortCrawler = new ShopifyCrawler({
+        viewport: { width: 375, height: 300 },
+        userAgent: 'fixture-agent',
+        launchBrowser: async () => createFixtureBrowser()
+      });
+
+      // Act
+      const result = await shortCrawler.crawlPage(`${server.url}/`);
+      await shortCrawler.close();
+
+      // Assert
+      expect(result.metrics.aboveFold.height).toBe(300);
+      expect(result.metrics.aboveFold.ctaButtons).toHaveLength(0);
+    });
+
+    it('should mark CTAs that straddle the fold or are too small as not prominent', async () => {
+      // Act
+      const result = await crawler.crawlPage(`${server.url}/weak-cta`);
+
+      // Assert
+      const ctas = result.metrics.aboveFold.ctaButtons;
+      expect(ctas.map(cta => cta.text)).toEqual(['Shop all', 'Shop sale', 'Buy now', 'Open cart', 'Subscribe']);
+      expect(ctas.every(cta => !cta.prominent)).toBe(true);
+      expect(ctas[0]!.selector).toBe('section.hero > ul.hero__links > li:nth-of-type(1) > a');
+    });
+
+    it('should use element ids in selectors when available', async () => {
+      // Arrange - a tall viewport brings the id-tagged button above the fold
+      const tallCrawler = new ShopifyCrawler({
+        viewport: { width: 1440, height: 2000 },
+        launchBrowser: async () => createFixtureBrowser()
+      });
+
+      // Act
+      const result = await tallCrawler.crawlPage(`${server.url}/`);
+      await tallCrawler.close();
+
+      // Assert
+      const belowFoldCTA = result.metrics.aboveFold.ctaButtons.find(cta => cta.text === 'Add to cart');
+      expect(belowFoldCTA).toMatchObject({ selector: '#below-fold-cta', prominent: true });
+    });
+
+    it('should number siblings among every element with the same tag', async () => {
+      // Arrange
+      const store = await startFixtureServer({
+        '/': '<html><body><section class="hero" data-rect="0,0,1440,600">' +
+          '<a class="hero__close" href="#close" data-rect="10,1400,20,20">Close</a>' +
+          '<a class="button" href="/collections/all" data-rect="300,100,200,50">Shop all</a>' +
+          '<a class="button" href="/collections/sale" data-rect="300,320,200,50">Shop sale</a>' +
+          '</section></body></html>'
+      });
+
+      // Act
+      const result = await crawler.crawlPage(`${store.url}/`);
+      await store.close();
+
+      // Assert
+      const selectors = result.metrics.aboveFold.ctaButtons.map(cta => cta.selector);
+      expect(selectors).toEqual(expect.arrayContaining([
+        'section.hero > a.button:nth-of-type(2)',
+        'section.hero > a.button:nth-of-type(3)'
+      ]));
+    });
+
+    it('should reuse one browser across crawls and release it on close', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const launchBrowser = jest.fn(async () => browser);
+      const reusingCrawler = new ShopifyCrawler({ launchBrowser });
+
+      // Act
+      await reusingCrawler.crawlPage(`${server.url}/`);
+      await reusingCrawler.crawlPage(`${server.url}/no-cta`);
+      await reusingCrawler.close();
+      await reusingCrawler.close();
+
+      // Assert
+      expect(launchBrowser).toHaveBeenCalledTimes(1);
+      expect(browser.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should launch headless Chromium by default', async () => {
+      // Arrange
+      const defaultCrawler = new ShopifyCrawler();
+
+      // Act - the Playwright mock returns a browser without real pages
+      await expect(defaultCrawler.crawlPage(`${server.url}/`)).rejects.toBeInstanceOf(Error);
+      await defaultCrawler.close();
+
+      // Assert
+      expect(chromium.launch).toHaveBeenCalledWith({ headless: true });
+    });
+  });
+
+  describe('GREEN Phase: Product Metrics', () => {
+    it('should only collect product metrics on product pages', async () => {
+      // Act
+      const home = await crawler.crawlPage(`${server.url}/products/linen-shirt`, 'home');
+      const untyped = await crawler.crawlPage(`${server.url}/products/linen-shirt`);
+
+      // Assert
+      expect(home.metrics.product).toBeUndefined();
+      expect(home.metrics.socialProof).toBeUndefined();
+      expect(untyped.metrics.product).toBeUndefined();
+    });
+
+    it('should extract sale price, compare-at price, swatches and add-to-cart', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/products/linen-shirt`, 'product');
+
+      // Assert
+      expect(metrics.product).toEqual({
+        prices: [{
+          text: '$49.00',
+          amount: 49,
+          onSale: true,
+          aboveFold: true,
+          selector: 'div.price.price--on-sale > div.price__container > div.price__sale > span.price-item.price-item--sale',
+          position: { top: 180, left: 860 },
+          size: { width: 90, height: 30 }
+        }],
+        compareAtPrice: {
+          text: '$69.00',
+          amount: 69,
+          onSale: true,
+          aboveFold: true,
+          selector: 'div.price.price--on-sale > div.price__container > div.price__sale > s.price-item.price-item--regular',
+          position: { top: 180, left: 760 },
+          size: { width: 90, height: 30 }
+        },
+        variantSelector: { type: 'swatches', optionCount: 2 },
+        addToCart: {
+          text: 'Add to cart',
+          disabled: false,
+          aboveFold: true,
+          distanceFromPrice: 217,
+          selector: 'main > product-info.product > form.product-form > button.product-form__submit.button',
+          position: { top: 380, left: 760 },
+          size: { width: 400, height: 50 }
+        }
+      });
+    });
+
+    it('should detect a disabled add-to-cart, dropdown variants and prices below the fold', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/products/wool-coat`, 'product');
+
+      // Assert
+      const product = metrics.product!;
+      expect(product.prices).toHaveLength(1);
+      expect(product.prices[0]).toMatchObject({ amount: 199.99, onSale: true, aboveFold: false });
+      expect(product.compareAtPrice).toBeNull();
+      expect(product.variantSelector).toEqual({ type: 'dropdown', optionCount: 1 });
+      expect(product.addToCart).toMatchObject({
+        text: 'Select a size',
+        disabled: true,
+        aboveFold: false,
+        distanceFromPrice: 795
+      });
+    });
+
+    it('should report missing prices and aria-disabled add-to-cart links', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/products/mystery-box`, 'product');
+
+      // Assert
+      expect(metrics.product).toEqual({
+        prices: [],
+        compareAtPrice: null,
+        variantSelector: { type: 'buttons', optionCount: 1 },
+        addToCart: expect.objectContaining({ text: 'Sold out', disabled: true, distanceFromPrice: null })
+      });
+    });
+  });
+
+  describe('GREEN Phase: Social Proof', () => {
+    it('should read the Judge.me badge rating and count right below the title', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/products/linen-shirt`, 'product');
+
+      // Assert
+      expect(metrics.socialProof).toEqual({
+        app: 'judgeme',
+        detectedApps: ['judgeme'],
+        rating: 4.8,
+        reviewCount: 1284,
+        widget: {
+          selector: 'main > product-info.product > div.jdgm-widget.jdgm-preview-badge > div.jdgm-prev-badge',
+          position: { top: 162, left: 760 },
+          size: { width: 200, height: 16 }
+        },
+        nearTitle: true,
+        aboveFold: true
+      });
+    });
+
+    it('should parse ratings from widget text and report widgets far from the title', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/products/wool-coat`, 'product');
+
+      // Assert
+      expect(metrics.socialProof).toMatchObject({
+        app: 'yotpo',
+        detectedApps: ['yotpo', 'loox'],
+        rating: 4.5,
+        reviewCount: 87,
+        nearTitle: false,
+        aboveFold: false
+      });
+    });
+
+    it('should detect apps from scripts and hidden widgets without a rendered rating', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/products/mystery-box`, 'product');
+
+      // Assert
+      expect(metrics.socialProof).toEqual({
+        app: 'okendo',
+        detectedApps: ['okendo', 'shopify_reviews'],
+        rating: null,
+        reviewCount: null,
+        widget: null,
+        nearTitle: false,
+        aboveFold: false
+      });
+    });
+
+    it('should report a visible widget with no reviews yet', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/products/gift-card`, 'product');
+
+      // Assert
+      expect(metrics.socialProof).toMatchObject({
+        app: 'loox',
+        rating: null,
+        reviewCount: null,
+        nearTitle: false,
+        aboveFold: true
+      });
+    });
+
+    it('should report no app on pages without review signatures', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/`, 'product');
+
+      // Assert
+      expect(metrics.socialProof).toMatchObject({ app: null, detectedApps: [], widget: null });
+    });
+  });
+
+  describe('GREEN Phase: Collection Metrics', () => {
+    it('should read facet filters, the sort dropdown, product cards and numbered pages', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/collections/shirts`, 'collection');
+
+      // Assert
+      const collection = metrics.collection!;
+      expect(collection.filters).toEqual({
+        groups: ['size', 'color', 'availability', 'price'],
+        element: { selector: '#FacetFiltersForm', position: { top: 200, left: 40 }, size: { width: 900, height: 60 } }
+      });
+      expect(collection.sort).toEqual({
+        options: ['Featured', 'Best selling', 'Price, low to high'],
+        element: expect.objectContaining({ selector: '#SortBy' })
+      });
+      expect(collection).toMatchObject({ productCount: 5, totalProducts: 24, grid: { columns: 4, cardsAboveFold: 4 }, pagination: 'pages' });
+      expect(collection.cards[0]).toEqual({
+        selector: '#product-grid > li:nth-of-type(1)',
+        position: { top: 300, left: 40 },
+        size: { width: 330, height: 420 },
+        title: 'Linen Shirt',
+        price: '$49.00',
+        image: true,
+        rating: true,
+        badges: ['Sale'],
+        quickAdd: true,
+        aboveFold: true
+      });
+      expect(collection.cards[4]).toMatchObject({ title: 'Silk Shirt', rating: false, badges: [], quickAdd: false, aboveFold: false });
+      expect(metrics.viewports!.mobile!.productGrid).toEqual({ columns: 4, cardsAboveFold: 4 });
+    });
+
+    it('should report cards without price or image, sort links and infinite scroll', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/collections/hats`, 'collection');
+
+      // Assert
+      const collection = metrics.collection!;
+      expect(collection.filters).toEqual({ groups: [], element: null });
+      expect(collection.sort).toMatchObject({ options: ['Lowest price', 'Newest'], element: { position: { top: 180, left: 20 } } });
+      expect(collection.cards.map(card => [card.title, card.price, card.image])).toEqual([
+        ['Straw Hat', null, true],
+        ['Bucket Hat $25.00', '$25.00', false]
+      ]);
+      expect(collection).toMatchObject({ productCount: 2, totalProducts: 36, grid: { columns: 1, cardsAboveFold: 1 }, pagination: 'infinite_scroll' });
+    });
+
+    it('should fall back to the drawer toggle for filters and sorting and spot load more buttons', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/collections/bags`, 'collection');
+
+      // Assert
+      const collection = metrics.collection!;
+      const toggle = { selector: 'main > button.facets__open', position: { top: 180, left: 20 }, size: { width: 170, height: 40 } };
+      expect(collection.filters).toEqual({ groups: ['price', 'product type'], element: toggle });
+      expect(collection.sort).toEqual({ options: ['Featured', 'Price, low to high'], element: toggle });
+      expect(collection.cards[0]).toMatchObject({ title: 'Canvas Tote', price: '$35.00', badges: ['Sold out'], quickAdd: true });
+      expect(collection).toMatchObject({ productCount: 2, totalProducts: null, grid: { columns: 2, cardsAboveFold: 2 }, pagination: 'load_more' });
+    });
+
+    it('should only collect collection metrics on collection pages', async () => {
+      // Act
+      const empty = await crawler.crawlPage(`${server.url}/`, 'collection');
+      const product = await crawler.crawlPage(`${server.url}/collections/shirts`, 'product');
+
+      // Assert
+      expect(empty.metrics.collection).toEqual({
+        filters: { groups: [], element: null },
+        sort: null,
+        productCount: 0,
+        totalProducts: null,
+        grid: { columns: 0, cardsAboveFold: 0 },
+        cards: [],
+        pagination: 'none'
+      });
+      expect(product.metrics.collection).toBeUndefined();
+      expect(product.metrics.viewports!.desktop!.productGrid).toBeUndefined();
+    });
+  });
+
+  describe('GREEN Phase: Device Profiles', () => {
+    it('should crawl desktop then mobile and keep the fold of each device', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const deviceCrawler = new ShopifyCrawler({ launchBrowser: async () => browser });
+
+      // Act
+      const { metrics } = await deviceCrawler.crawlPage(`${server.url}/`);
+      await deviceCrawler.close();
+
+      // Assert
+      expect(browser.newContext).toHaveBeenNthCalledWith(1, expect.objectContaining({ viewport: { width: 1440, height: 900 }, isMobile: false }));
+      expect(browser.newContext).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        viewport: { width: 390, height: 844 },
+        isMobile: true,
+        hasTouch: true,
+        userAgent: expect.stringContaining('iPhone')
+      }));
+      expect(metrics.aboveFold.height).toBe(900);
+      expect(metrics.viewports!.desktop).toEqual({
+        viewport: { width: 1440, height: 900 },
+        aboveFold: metrics.aboveFold,
+        tapTargets: expect.objectContaining({ minSize: 24 })
+      });
+      expect(metrics.viewports!.mobile).toMatchObject({ viewport: { width: 390, height: 844 }, aboveFold: { height: 844 } });
+      expect(metrics.viewports!.mobile!.stickyAddToCart).toBeUndefined();
+    });
+
+    it('should use the first configured device as the primary one', async () => {
+      // Arrange
+      const mobileCrawler = new ShopifyCrawler({ devices: ['mobile'], launchBrowser: async () => createFixtureBrowser() });
+      const defaultCrawler = new ShopifyCrawler({ devices: [], launchBrowser: async () => createFixtureBrowser() });
+
+      // Act
+      const mobile = await mobileCrawler.crawlPage(`${server.url}/`);
+      const fallback = await defaultCrawler.crawlPage(`${server.url}/`);
+      await mobileCrawler.close();
+      await defaultCrawler.close();
+
+      // Assert
+      expect(mobile.metrics.aboveFold.height).toBe(844);
+      expect(Object.keys(mobile.metrics.viewports!)).toEqual(['mobile']);
+      expect(Object.keys(fallback.metrics.viewports!)).toEqual(['desktop', 'mobile']);
+    });
+
+    it('should detect an add-to-cart bar that stays on screen while scrolling', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/products/linen-shirt`, 'product');
+
+      // Assert
+      expect(metrics.viewports!.mobile!.stickyAddToCart).toEqual({
+        visibleAfterScroll: true,
+        scrolledPast: true,
+        scrollDepth: 2118,
+        element: expect.objectContaining({ text: 'Add to cart', selector: 'main > div.sticky-atc > button.sticky-atc__button' })
+      });
+      expect(metrics.viewports!.desktop!.stickyAddToCart).toMatchObject({ visibleAfterScroll: true, scrollDepth: 2230 });
+      expect(window.scrollY).toBe(0);
+    });
+
+    it('should report an add-to-cart button that scrolls out of view', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/products/wool-coat`, 'product');
+
+      // Assert
+      expect(metrics.viewports!.mobile!.stickyAddToCart).toEqual({ visibleAfterScroll: false, scrolledPast: true, scrollDepth: 2754, element: null });
+    });
+
+    it('should not count the main add-to-cart button on a page too short to scroll past it', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/products/gift-wrap`, 'product');
+
+      // Assert
+      expect(metrics.viewports!.mobile!.stickyAddToCart).toEqual({ visibleAfterScroll: false, scrolledPast: false, scrollDepth: 56, element: null });
+      expect(window.scrollY).toBe(0);
+    });
+
+    it('should not scroll pages without an add-to-cart button', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/no-cta`, 'product');
+
+      // Assert
+      expect(metrics.viewports!.mobile!.stickyAddToCart).toEqual({ visibleAfterScroll: false, scrolledPast: false, scrollDepth: 0, element: null });
+    });
+  });
+
+  describe('GREEN Phase: Screenshots', () => {
+    it('should capture a full-page screenshot and a fold thumbnail per device', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      (browser.newContext as jest.Mock).mockResolvedValueOnce(context);
+      const screenshotCrawler = new ShopifyCrawler({ scrollSettleTime: 0, launchBrowser: async () => browser });
+
+      // Act
+      const { screenshots } = await screenshotCrawler.crawlPage(`${server.url}/`);
+      await screenshotCrawler.close();
+
+      // Assert
+      expect(screenshots).toEqual([
+        {
+          device: 'desktop',
+          width: 1440,
+          height: 900,
+          contentType: 'image/jpeg',
+          image: Buffer.from('fixture-screenshot'),
+          thumbnail: Buffer.from('fixture-screenshot')
+        },
+        expect.objectContaining({ device: 'mobile', width: 390, height: 844 })
+      ]);
+      expect(page.screenshot).toHaveBeenCalledWith({
+        type: 'jpeg',
+        quality: 80,
+        scale: 'css',
+        fullPage: true,
+        clip: { x: 0, y: 0, width: 1440, height: 900 }
+      });
+      expect(page.setContent).toHaveBeenCalledWith(expect.stringContaining('width:320px'), { waitUntil: 'load' });
+      expect(page.screenshot).toHaveBeenCalledWith({ type: 'jpeg', quality: 80, scale: 'css', clip: { x: 0, y: 0, width: 320, height: 200 } });
+    });
+
+    it('should keep crawling pages whose screenshots fail, and skip screenshots when disabled', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      (page.screenshot as jest.Mock).mockRejectedValueOnce(new Error('Page too large'));
+      (browser.newContext as jest.Mock).mockResolvedValueOnce(context);
+      const failing = new ShopifyCrawler({ scrollSettleTime: 0, launchBrowser: async () => browser });
+      const disabled = new ShopifyCrawler({ scrollSettleTime: 0, screenshots: false, launchBrowser: async () => createFixtureBrowser() });
+
+      // Act
+      const failed = await failing.crawlPage(`${server.url}/`);
+      const skipped = await disabled.crawlPage(`${server.url}/`);
+      await failing.close();
+      await disabled.close();
+
+      // Assert
+      expect(failed.screenshots.map(screenshot => screenshot.device)).toEqual(['mobile']);
+      expect(failed.metrics.aboveFold.ctaButtons.length).toBeGreaterThan(0);
+      expect(skipped.screenshots).toEqual([]);
+    });
+  });
+
+  describe('GREEN Phase: Web Vitals', () => {
+    it('should measure web vitals and page weight on a throttled load of the mobile profile', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const vitalsCrawler = new ShopifyCrawler({ scrollSettleTime: 0, launchBrowser: async () => browser });
+
+      // Act
+      const { metrics } = await vitalsCrawler.crawlPage(`${server.url}/vitals`);
+      await vitalsCrawler.close();
+
+      // Assert
+      const [desktop, mobile, measured] = await Promise.all((browser.newContext as jest.Mock).mock.results.map(result => result.value));
+      const session = await measured.newCDPSession.mock.results[0].value;
+      expect(desktop.newCDPSession).not.toHaveBeenCalled();
+      expect(mobile.newCDPSession).not.toHaveBeenCalled();
+      expect((browser.newContext as jest.Mock).mock.calls[2][0]).toEqual((browser.newContext as jest.Mock).mock.calls[1][0]);
+      expect(measured.close).toHaveBeenCalled();
+      expect(session.send).toHaveBeenCalledWith('Network.enable');
+      expect(session.send).toHaveBeenCalledWith('Network.emulateNetworkConditions', {
+        offline: false,
+        latency: 150,
+        downloadThroughput: 209715.2,
+        uploadThroughput: 96000
+      });
+      expect(session.send).toHaveBeenCalledWith('Emulation.setCPUThrottlingRate', { rate: 4 });
+      expect(session.detach).toHaveBeenCalled();
+      expect(metrics.performance.vitals).toEqual({
+        device: 'mobile',
+        fcp: 800,
+        lcp: 3101,
+        cls: 0.22,
+        tbt: 240,
+        totalBytes: Buffer.byteLength(fixture('home-vitals.html')) + 705012,
+        jsBytes: 360012,
+        imageBytes: 330000,
+        thirdPartyScriptBytes: 300000,
+        apps: [
+          { app: 'klaviyo', name: 'Klaviyo', hosts: ['static.klaviyo.com', 'static-tracking.klaviyo.com'], bytes: 150000, requests: 2 },
+          { app: 'meta_pixel', name: 'Meta Pixel', hosts: ['connect.facebook.net'], bytes: 90000, requests: 1 },
+          { app: null, name: 'widgets.example-upsell.com', hosts: ['widgets.example-upsell.com'], bytes: 60000, requests: 1 }
+        ]
+      });
+    });
+
+    it('should measure on the primary profile with custom throttling when mobile is not crawled', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const throttling = { latency: 40, downloadThroughput: 1250000, uploadThroughput: 250000, cpuSlowdown: 1 };
+      const desktopCrawler = new ShopifyCrawler({ devices: ['desktop'], throttling, launchBrowser: async () => browser });
+
+      // Act
+      const { metrics } = await desktopCrawler.crawlPage(`${server.url}/`);
+      await desktopCrawler.close();
+
+      // Assert
+      const [captured, measured] = await Promise.all((browser.newContext as jest.Mock).mock.results.map(result => result.value));
+      const session = await measured.newCDPSession.mock.results[0].value;
+      expect(captured.newCDPSession).not.toHaveBeenCalled();
+      expect(session.send).toHaveBeenCalledWith('Network.emulateNetworkConditions', { offline: false, latency: 40, downloadThroughput: 1250000, uploadThroughput: 250000 });
+      expect(session.send).toHaveBeenCalledWith('Emulation.setCPUThrottlingRate', { rate: 1 });
+      expect(metrics.performance.vitals).toEqual({
+        device: 'desktop',
+        fcp: null,
+        lcp: null,
+        cls: 0,
+        tbt: 0,
+        totalBytes: Buffer.byteLength(fixture('home-hero-cta.html')),
+        jsBytes: 0,
+        imageBytes: 0,
+        thirdPartyScriptBytes: 0,
+        apps: []
+      });
+    });
+
+    it('should leave out entry types the browser does not support', async () => {
+      // Arrange
+      const paintOnly = new ShopifyCrawler({
+        devices: ['mobile'],
+        launchBrowser: async () => createFixtureBrowser({ performanceEntryTypes: ['paint'] })
+      });
+
+      // Act
+      const { metrics } = await paintOnly.crawlPage(`${server.url}/vitals`);
+      await paintOnly.close();
+
+      // Assert
+      expect(metrics.performance.vitals).toMatchObject({ fcp: 800, lcp: null, cls: 0, tbt: 0, jsBytes: 360012 });
+    });
+
+    it('should crawl without web vitals when turned off or when they cannot be measured', async () => {
+      // Arrange
+      const withoutCdp = new ShopifyCrawler({ launchBrowser: async () => createFixtureBrowser({ cdp: false }) });
+      const disabledBrowser = createFixtureBrowser();
+      const disabled = new ShopifyCrawler({ webVitals: false, launchBrowser: async () => disabledBrowser });
+
+      // Act
+      const chromiumless = await withoutCdp.crawlPage(`${server.url}/vitals`);
+      const turnedOff = await disabled.crawlPage(`${server.url}/vitals`);
+      await withoutCdp.close();
+      await disabled.close();
+
+      // Assert
+      expect(chromiumless.metrics.performance).toEqual({ loadTime: expect.any(Number) });
+      expect(chromiumless.metrics.aboveFold.ctaButtons.length).toBeGreaterThan(0);
+      expect(turnedOff.metrics.performance).toEqual({ loadTime: expect.any(Number) });
+      const contexts = await Promise.all((disabledBrowser.newContext as jest.Mock).mock.results.map(result => result.value));
+      contexts.forEach(context => expect(context.newCDPSession).not.toHaveBeenCalled());
+    });
+
+    it('should keep crawling when reading web vitals fails', async () => {
+      // Arrange
+      const mobileCrawler = async () => {
+        const browser = createFixtureBrowser();
+        const captured = await browser.newContext();
+        const measured = await browser.newContext();
+        const page = await measured.newPage();
+        (browser.newContext as jest.Mock).mockResolvedValueOnce(captured).mockResolvedValueOnce(measured);
+        return { page, crawler: new ShopifyCrawler({ devices: ['mobile'], launchBrowser: async () => browser }) };
+      };
+
+      // Act
+      const evaluateFails = await mobileCrawler();
+      (evaluateFails.page.evaluate as jest.Mock).mockRejectedValueOnce(new Error('Execution context was destroyed'));
+      const failed = await evaluateFails.crawler.crawlPage(`${server.url}/vitals`);
+      await evaluateFails.crawler.close();
+      const initScriptSkipped = await mobileCrawler();
+      (initScriptSkipped.page.addInitScript as jest.Mock).mockResolvedValueOnce(undefined);
+      const uninstrumented = await initScriptSkipped.crawler.crawlPage(`${server.url}/vitals`);
+      await initScriptSkipped.crawler.close();
+      let loads = 0;
+      const throttledLoadFails = new ShopifyCrawler({
+        devices: ['mobile'],
+        launchBrowser: async () => createFixtureBrowser({
+          onGoto: () => {
+            if (++loads > 1) throw new Error('net::ERR_TIMED_OUT');
+          }
+        })
+      });
+      const unmeasured = await throttledLoadFails.crawlPage(`${server.url}/vitals`);
+      await throttledLoadFails.close();
+
+      // Assert
+      expect(failed.metrics.performance.vitals).toBeUndefined();
+      expect(failed.metrics.aboveFold.ctaButtons.length).toBeGreaterThan(0);
+      expect(uninstrumented.metrics.performance.vitals).toBeUndefined();
+      expect(unmeasured.metrics.performance).toEqual({ loadTime: expect.any(Number) });
+    });
+  });
+
+  describe('GREEN Phase: Funnel Walk', () => {
+    const stepSummary = (run: { steps: { step: string; status: string; detail: string | null }[] }) =>
+      run.steps.map(step => [step.step, step.status, step.detail]);
+
+    it('should walk from the product page through the cart drawer to the checkout on every device', async () => {
+      // Act
+      const result = await crawler.crawlFunnel(`${server.url}/products/linen-dress`);
+
+      // Assert
+      expect(result.url).toBe(`${server.url}/cart`);
+      expect(result.finalUrl).toBe(`${server.url}/products/linen-dress`);
+      expect(result.html).toContain('CartDrawer');
+      expect(detectTheme).toHaveBeenCalledWith(result.html, 'cart');
+      expect(result.screenshots.map(screenshot => screenshot.device)).toEqual(['desktop', 'mobile']);
+      expect(result.metrics.viewports?.mobile?.viewport).toEqual({ width: 390, height: 844 });
+
+      const { productUrl, runs } = result.metrics.funnel!;
+      const [desktop, mobile] = runs;
+      expect(productUrl).toBe(`${server.url}/products/linen-dress`);
+      expect(stepSummary(desktop!)).toEqual([
+        ['product', 'passed', 'Opened the product page'],
+        ['variant', 'passed', 'Picked S / Blue'],
+        ['add_to_cart', 'passed', 'Added to cart, the cart drawer opened'],
+        ['cart', 'passed', '2 items in the cart drawer'],
+        ['checkout', 'passed', 'Reached the checkout']
+      ]);
+      expect(desktop).toMatchObject({
+        device: 'desktop',
+        variant: 'S / Blue',
+        opened: 'drawer',
+        checkoutUrl: `${server.url}/checkouts/cn/fixture-token`
+      });
+      expect(desktop!.steps.every(step => step.errors.length === 0)).toBe(true);
+      expect(desktop!.cart).toEqual({
+        view: 'drawer',
+        itemCount: 2,
+        checkoutButton: {
+          selector: '#CartDrawer > button.cart__checkout-button.button',
+          position: { top: 800, left: 20 },
+          size: { width: 350, height: 50 },
+          text: 'Check out',
+          disabled: false,
+          onScreen: true
+        },
+        upsell: true,
+        shippingThreshold: "You're $20.00 away from free shipping",
+        expressPay: ['shop_pay', 'paypal']
+      });
+      expect(result.metrics.performance.loadTime).toBe(desktop!.steps[3]!.durationMs);
+
+      // The drawer's checkout button ends below the phone's fold
+      expect(mobile).toMatchObject({ device: 'mobile', checkoutUrl: `${server.url}/checkouts/cn/fixture-token` });
+      expect(mobile!.cart!.checkoutButton).toMatchObject({ onScreen: false });
+    });
+
+    it('should read the cart page when adding to cart navigates, and record script errors and login walls', async () => {
+      // Arrange
+      const desktopCrawler = new ShopifyCrawler({ devices: ['desktop'], launchBrowser: async () => createFixtureBrowser() });
+
+      // Act
+      const result = await desktopCrawler.crawlFunnel(`${server.url}/products/linen-shorts`);
+      await desktopCrawler.close();
+
+      // Assert
+      const [run] = result.metrics.funnel!.runs;
+      expect(result.finalUrl).toBe(`${server.url}/cart`);
+      expect(run).toMatchObject({ variant: 'M', opened: 'page', checkoutUrl: null });
+      expect(run!.steps[2]!.errors).toEqual(["Cannot read properties of null (reading 'dataset')"]);
+      expect(run!.cart).toMatchObject({
+        view: 'page',
+        itemCount: 1,
+        checkoutButton: { text: 'Check out', onScreen: true },
+        upsell: true,
+        shippingThreshold: 'Free shipping on orders over $50',
+        expressPay: ['other']
+      });
+      expect(run!.steps[4]).toMatchObject({
+        step: 'checkout',
+        status: 'failed',
+        url: `${server.url}/account/login?checkout_url=%2Fcheckout`,
+        detail: 'Checkout asked shoppers to log in'
+      });
+    });
+
+    it('should open the cart page after a cart notification and record failed cart requests', async () => {
+      // Arrange
+      const desktopCrawler = new ShopifyCrawler({ devices: ['desktop'], launchBrowser: async () => createFixtureBrowser() });
+
+      // Act
+      const { metrics } = await desktopCrawler.crawlFunnel(`${server.url}/products/canvas-tote`);
+      await desktopCrawler.close();
+
+      // Assert
+      const [run] = metrics.funnel!.runs;
+      expect(run).toMatchObject({ variant: null, opened: 'notification', cart: { view: 'page', itemCount: 1 } });
+      expect(stepSummary(run!).slice(1, 4)).toEqual([
+        ['variant', 'passed', 'Nothing to pick, the product has a single variant'],
+        ['add_to_cart', 'passed', 'Added to cart, a cart notification opened'],
+        ['cart', 'passed', '1 item in the cart page']
+      ]);
+      expect(run!.steps[2]!.errors).toEqual(['HTTP 422 from /cart/add']);
+    });
+
+    it('should leave the time the theme gets to react out of the add-to-cart duration', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      const settle = (page.waitForTimeout as jest.Mock).getMockImplementation()!;
+      (page.waitForTimeout as jest.Mock).mockImplementation(async (ms: number) => {
+        await new Promise(resolve => setTimeout(resolve, ms));
+        return settle();
+      });
+      (browser.newContext as jest.Mock).mockResolvedValueOnce(context);
+      const settling = new ShopifyCrawler({ devices: ['desktop'], cartSettleTime: 300, launchBrowser: async () => browser });
+
+      // Act
+      const { metrics } = await settling.crawlFunnel(`${server.url}/products/linen-dress`);
+      await settling.close();
+
+      // Assert
+      const addToCart = metrics.funnel!.runs[0]!.steps[2]!;
+      expect(page.waitForTimeout).toHaveBeenCalledWith(300);
+      expect(addToCart).toMatchObject({ step: 'add_to_cart', status: 'passed' });
+      expect(addToCart.durationMs).toBeLessThan(300);
+    });
+
+    it('should stop at an empty cart and at a disabled checkout button', async () => {
+      // Arrange
+      const desktopCrawler = new ShopifyCrawler({ devices: ['desktop'], launchBrowser: async () => createFixtureBrowser() });
+
+      // Act
+      const empty = await desktopCrawler.crawlFunnel(`${server.url}/products/straw-hat`);
+      const locked = await desktopCrawler.crawlFunnel(`${server.url}/products/silk-scarf`);
+      await desktopCrawler.close();
+
+      // Assert
+      const [emptyRun] = empty.metrics.funnel!.runs;
+      expect(emptyRun!.cart).toEqual({ view: 'drawer', itemCount: 0, checkoutButton: null, upsell: false, shippingThreshold: null, expressPay: [] });
+      expect(stepSummary(emptyRun!).slice(3)).toEqual([
+        ['cart', 'failed', 'The cart is empty after adding the product'],
+        ['checkout', 'skipped', null]
+      ]);
+      expect(empty.html).toContain('Your cart is empty');
+
+      const [lockedRun] = locked.metrics.funnel!.runs;
+      expect(lockedRun!.cart).toMatchObject({ itemCount: 1, checkoutButton: { disabled: true } });
+      expect(lockedRun!.steps[4]).toMatchObject({ status: 'failed', detail: 'The checkout button "Check out" is disabled' });
+    });
+
+    it('should record where product pages stop the walk and skip the remaining steps', async () => {
+      // Arrange
+      const desktopCrawler = new ShopifyCrawler({ devices: ['desktop'], launchBrowser: async () => createFixtureBrowser() });
+
+      // Act
+      const unreachable = await desktopCrawler.crawlFunnel(`${server.url}/server-error`);
+      const formless = await desktopCrawler.crawlFunnel(`${server.url}/`);
+      const soldOut = await desktopCrawler.crawlFunnel(`${server.url}/products/wool-coat`);
+      const silent = await desktopCrawler.crawlFunnel(`${server.url}/products/gift-card`);
+      await desktopCrawler.close();
+
+      // Assert
+      expect(stepSummary(unreachable.metrics.funnel!.runs[0]!)).toEqual([
+        ['product', 'failed', `Failed to load ${server.url}/server-error: HTTP 500`],
+        ['variant', 'skipped', null],
+        ['add_to_cart', 'skipped', null],
+        ['cart', 'skipped', null],
+        ['checkout', 'skipped', null]
+      ]);
+      expect(unreachable.finalUrl).toBe(`${server.url}/cart`);
+      expect(unreachable.html).toBe('');
+      expect(unreachable.metrics.aboveFold).toEqual({ ctaButtons: [], height: 900 });
+      expect(unreachable.metrics.performance.loadTime).toBe(0);
+      expect(unreachable.screenshots).toEqual([]);
+
+      expect(formless.metrics.funnel!.runs[0]!.steps[1]).toMatchObject({ status: 'failed', detail: 'No add-to-cart form on the product page' });
+      expect(soldOut.metrics.funnel!.runs[0]).toMatchObject({ variant: null, opened: null, cart: null });
+      expect(soldOut.metrics.funnel!.runs[0]!.steps[2]).toMatchObject({
+        status: 'failed',
+        detail: 'The add-to-cart button "Select a size" is disabled'
+      });
+      expect(silent.metrics.funnel!.runs[0]).toMatchObject({ opened: 'none', cart: { view: 'page', itemCount: 1 } });
+    });
+
+    it('should report missing buttons and checkouts that never load', async () => {
+      // Arrange
+      const product = (body: string) => `<html><body><form action="/cart/add">${body}</form>${drawer}</body></html>`;
+      const drawer = '<div class="cart-drawer" style="display: none; position: fixed" data-rect="0,0,390,844">' +
+        '<div class="cart-item" data-rect="80,20,350,120">Tea</div>' +
+        '<button name="checkout" data-rect="220,20,350,50">Check out</button></div>';
+      const store = await startFixtureServer({
+        '/products/no-button': product('<input type="hidden" name="id" value="1">'),
+        '/products/plain': product('<button type="submit" data-rect="100,100,300,50">Add to cart</button>'),
+        '/products/stuck': product('<button type="submit" data-rect="100,100,300,50" data-fixture-opens=".cart-drawer">Add to cart</button>'),
+        '/cart': '<html><body><div class="cart-item" data-rect="80,20,350,120">Tea</div></body></html>'
+      });
+      const desktopCrawler = new ShopifyCrawler({ devices: ['desktop'], timeout: 5000, launchBrowser: async () => createFixtureBrowser() });
+
+      // Act
+      const noButton = await desktopCrawler.crawlFunnel(`${store.url}/products/no-button`);
+      const noCheckout = await desktopCrawler.crawlFunnel(`${store.url}/products/plain`);
+      const stuck = await desktopCrawler.crawlFunnel(`${store.url}/products/stuck`);
+      await desktopCrawler.close();
+      await store.close();
+
+      // Assert
+      expect(noButton.metrics.funnel!.runs[0]!.steps[2]).toMatchObject({ status: 'failed', detail: 'No visible add-to-cart button' });
+      expect(noCheckout.metrics.funnel!.runs[0]!.steps[4]).toMatchObject({ status: 'failed', detail: 'No visible checkout button in the cart' });
+      expect(stuck.metrics.funnel!.runs[0]!.steps[4]).toMatchObject({
+        status: 'failed',
+        url: `${store.url}/products/stuck`,
+        detail: 'page.waitForURL: Timeout 5000ms exceeded.'
+      });
+    });
+
+    it('should record navigations without a response and non-Error failures', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      (page.goto as jest.Mock).mockResolvedValueOnce(null).mockRejectedValueOnce('socket hang up');
+      (browser.newContext as jest.Mock).mockResolvedValue(context);
+      const brokenCrawler = new ShopifyCrawler({ devices: ['desktop'], launchBrowser: async () => browser });
+      const productUrl = `${server.url}/products/linen-dress`;
+
+      // Act
+      const noResponse = await brokenCrawler.crawlFunnel(productUrl);
+      const hungUp = await brokenCrawler.crawlFunnel(productUrl);
+
+      // Assert
+      expect(noResponse.metrics.funnel!.runs[0]!.steps[0]!.detail).toBe(`Failed to load ${productUrl}: HTTP no response`);
+      expect(hungUp.metrics.funnel!.runs[0]!.steps[0]!.detail).toBe('socket hang up');
+      await expect(brokenCrawler.crawlFunnel('not a url')).rejects.toMatchObject({ code: 'INVALID_URL' });
+    });
+  });
+
+  describe('GREEN Phase: Accessibility', () => {
+    it('should report images without alt text, ignoring decorative ones', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/accessibility`);
+
+      // Assert
+      expect(metrics.accessibility!.images).toEqual({
+        total: 4,
+        withAlt: 2,
+        missingAlt: [
+          { selector: 'main > section.hero > img.hero__image', attribute: 'alt', value: null },
+          { selector: 'main > section.featured > img:nth-of-type(2)', attribute: 'alt', value: null }
+        ]
+      });
+    });
+
+    it('should report form fields without an accessible label', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/accessibility`);
+
+      // Assert
+      expect(metrics.accessibility!.formFields).toEqual({
+        total: 8,
+        unlabeledCount: 3,
+        unlabeled: [
+          { selector: 'main > section.newsletter > form > input:nth-of-type(2)', attribute: 'aria-label', value: null },
+          { selector: 'main > section.newsletter > form > select', attribute: 'aria-label', value: null },
+          { selector: '#company', attribute: 'aria-label', value: ' ' }
+        ]
+      });
+    });
+
+    it('should capture the heading outline, skipped levels and positive tabindex', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/accessibility`);
+
+      // Assert
+      expect(metrics.accessibility!.headings).toEqual({
+        h1Count: 1,
+        outline: [
+          { level: 1, text: 'Summer Collection' },
+          { level: 2, text: 'Featured' },
+          { level: 4, text: 'Linen Shirt' },
+          { level: 2, text: 'Newsletter' }
+        ],
+        skippedLevels: [{ selector: 'main > section.featured > h4.card__title', attribute: 'level', value: 'h4' }]
+      });
+      expect(metrics.accessibility!.focusOrder.positiveTabIndex).toEqual([
+        { selector: 'header.site-header > a.header__icon', attribute: 'tabindex', value: '3' }
+      ]);
+    });
+
+    it('should measure tap targets on every device and exempt inline links', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/accessibility`);
+
+      // Assert
+      expect(metrics.viewports!.mobile!.tapTargets).toEqual({
+        total: 5,
+        minSize: 24,
+        undersizedCount: 1,
+        undersized: [{ selector: 'header.site-header > a.header__icon', attribute: 'size', value: '20x20' }]
+      });
+      expect(metrics.viewports!.desktop!.tapTargets!.undersizedCount).toBe(1);
+    });
+
+    it('should only collect page-level accessibility on the primary device', async () => {
+      // Act
+      const { metrics } = await crawler.crawlPage(`${server.url}/`);
+
+      // Assert
+      expect(metrics.accessibility).toBeDefined();
+      expect(metrics.viewports!.mobile).not.toHaveProperty('accessibility');
+    });
+  });
+
+  describe('GREEN Phase: Error Handling', () => {
+    it('should throw TIMEOUT when navigation exceeds the timeout', async () => {
+      // Arrange
+      const impatientCrawler = new ShopifyCrawler({
+        timeout: 50,
+        launchBrowser: async () => createFixtureBrowser()
+      });
+
+      // Act & Assert
+      await expect(impatientCrawler.crawlPage(`${server.url}/slow`)).rejects.toMatchObject({
+        code: 'TIMEOUT'
+      });
+      await impatientCrawler.close();
+    });
+
+    it('should throw NETWORK_ERROR on error status codes', async () => {
+      // Act & Assert
+      await expect(crawler.crawlPage(`${server.url}/server-error`)).rejects.toMatchObject({
+        code: 'NETWORK_ERROR',
+        message: expect.stringContaining('HTTP 500')
+      });
+    });
+
+    it('should throw NETWORK_ERROR when the host is unreachable', async () => {
+      // Act & Assert
+      await expect(crawler.crawlPage('http://127.0.0.1:1/')).rejects.toMatchObject({
+        code: 'NETWORK_ERROR'
+      });
+    });
+
+    it('should throw NETWORK_ERROR when navigation yields no response', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      (page.goto as jest.Mock).mockResolvedValueOnce(null);
+      (browser.newContext as jest.Mock).mockResolvedValueOnce(context);
+      const nullCrawler = new ShopifyCrawler({ launchBrowser: async () => browser });
+
+      // Act & Assert
+      await expect(nullCrawler.crawlPage(`${server.url}/`)).rejects.toMatchObject({
+        code: 'NETWORK_ERROR',
+        message: expect.stringContaining('no response')
+      });
+    });
+
+    it('should throw PARSE_ERROR when extraction fails', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      (page.evaluate as jest.Mock).mockRejectedValueOnce(new Error('Execution context was destroyed'));
+      (browser.newContext as jest.Mock).mockResolvedValueOnce(context);
+      const failingCrawler = new ShopifyCrawler({ launchBrowser: async () => browser });
+
+      // Act
+      const error = await failingCrawler.crawlPage(`${server.url}/`).catch(e => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(CrawlerError);
+      expect(error.code).toBe('PARSE_ERROR');
+      expect(error.message).toContain('Execution context was destroyed');
+    });
+
+    it('should throw PARSE_ERROR when extracted metrics are malformed', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      (page.evaluate as jest.Mock)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce({ ctaButtons: 'none', height: 900 });
+      (browser.newContext as jest.Mock).mockResolvedValueOnce(context);
+      const malformedCrawler = new ShopifyCrawler({ launchBrowser: async () => browser });
+
+      // Act & Assert
+      await expect(malformedCrawler.crawlPage(`${server.url}/`)).rejects.toMatchObject({
+        code: 'PARSE_ERROR',
+        message: expect.stringContaining('Invalid page metrics')
+      });
+    });
+
+    it('should stringify non-Error failures', async () => {
+      // Arrange
+      const browser = createFixtureBrowser();
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      (page.goto as jest.Mock).mockRejectedValueOnce('socket hang up');
+      (page.evaluate as jest.Mock).mockRejectedValueOnce('target closed');
+      (browser.newContext as jest.Mock).mockResolvedValue(context);
+      const brokenCrawler = new ShopifyCrawler({ launchBrowser: async () => browser });
+
+      // Act & Assert
+      await expect(brokenCrawler.crawlPage(`${server.url}/`)).rejects.toMatchObject({
+        code: 'NETWORK_ERROR',
+        message: expect.stringContaining('socket hang up')
+      });
+      await expect(brokenCrawler.crawlPage(`${server.url}/`)).rejects.toMatchObject({
+        code: 'PARSE_ERROR',
+        message: expect.stringContaining('target closed')
+      });
+    });
+  });
+
+  describe('REFACTOR Phase: Heuristics on crawled pages', () => {
+    const toPage = (id: string, url: string, metrics: Page['metrics'], type: Page['type'] = 'home'): Page => ({
+      id,
+      crawlId: 'fixture-crawl',
+      url,
+      type,
+      metrics,
+      findings: [],
+      crawl: null as any
+    });
+
+    it('should let HeroCTARule pass on a page with a prominent hero CTA', async () => {
+      // Arrange
+      const result = await crawler.crawlPage(`${server.url}/`);
+
+      // Act
+      const heuristic = new HeroCTARule().analyze(toPage('hero', result.url, result.metrics));
+
+      // Assert
+      expect(heuristic.passed).toBe(true);
+    });
+
+    it('should let HeroCTARule report a missing CTA', async () => {
+      // Arrange
+      const result = await crawler.crawlPage(`${server.url}/no-cta`);
+
+      // Act
+      const heuristic = new HeroCTARule().analyze(toPage('no-cta', result.url, result.metrics));
+
+      // Assert
+      expect(heuristic.finding!.ruleId).toBe('hero_cta_missing');
+    });
+
+    it('should let HeroCTARule report weak CTAs', async () => {
+      // Arrange
+      const result = await crawler.crawlPage(`${server.url}/weak-cta`);
+
+      // Act
+      const heuristic = new HeroCTARule().analyze(toPage('weak-cta', result.url, result.metrics));
+
+      // Assert
+      expect(heuristic.finding!.ruleId).toBe('hero_cta_weak');
+      expect(heuristic.finding!.evidence.ctaCount).toBe(5);
+    });
+
+    it('should let HeroCTARule name the device whose fold has no CTA', async () => {
+      // Arrange - a short desktop viewport pushes the hero CTA below the desktop fold only
+      const shortDesktopCrawler = new ShopifyCrawler({
+        viewport: { width: 1440, height: 300 },
+        launchBrowser: async () => createFixtureBrowser()
+      });
+      const mobileCrawler = new ShopifyCrawler({ devices: ['mobile'], launchBrowser: async () => createFixtureBrowser() });
+      const shortDesktop = await shortDesktopCrawler.crawlPage(`${server.url}/`);
+      const mobileOnly = await mobileCrawler.crawlPage(`${server.url}/weak-cta`);
+      await shortDesktopCrawler.close();
+      await mobileCrawler.close();
+
+      // Act
+      const desktopResult = new HeroCTARule().analyze(toPage('short', shortDesktop.url, shortDesktop.metrics));
+      const mobileResult = new HeroCTARule().analyze(toPage('mobile', mobileOnly.url, mobileOnly.metrics));
+
+      // Assert
+      expect(desktopResult.finding!.evidence).toMatchObject({ device: 'desktop', failedDevices: ['desktop'], aboveFoldHeight: 300 });
+      expect(mobileResult.finding!.evidence).toMatchObject({ device: 'mobile', failedDevices: ['mobile'] });
+    });
+
+    it('should let HeroCTARule analyse metrics stored without device data', async () => {
+      // Arrange
+      const { metrics } = await crawler.crawlPage(`${server.url}/no-cta`);
+      const { aboveFold, performance } = metrics;
+
+      // Act
+      const heuristic = new HeroCTARule().analyze(toPage('legacy', `${server.url}/no-cta`, { aboveFold, performance }));
+
+      // Assert
+      expect(heuristic.finding!.evidence).toEqual({ ctaCount: 0, pageType: 'home', aboveFoldHeight: 900 });
+    });
+
+    it('should let HeroCTARule skip crawled collection pages', async () => {
+      // Arrange
+      const result = await crawler.crawlPage(`${server.url}/weak-cta`);
+
+      // Act
+      const heuristic = new HeroCTARule().analyze(toPage('collection', result.url, result.metrics, 'collection'));
+
+      // Assert
+      expect(heuristic.skipped).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * TDD Test Suite for Store Page Discovery
+ * Discovery runs against sitemap, catalog and homepage fixtures served over HTTP
+ */
+
+import prisma from '@/lib/prisma';
+import { PageDiscovery, classifyUrl, selectRepresentativePages } from '../discovery';
+import type { DiscoveredPage } from '../discovery';
+import { saveCrawlResult } from '../crawl-results';
+import { saveScreenshots } from '../../screenshots/screenshot-store';
+import { createFixtureFetch, startFixtureServer } from '../../../test-utils/crawler-fixtures';
+import type { FixtureServer } from '../../../test-utils/crawler-fixtures';
+
+const sitemapIndex = (origin: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>${origin}/sitemap_products_1.xml?from=1&amp;to=99</loc></sitemap>
+  <sitemap><loc>${origin}/sitemap_pages_1.xml</loc></sitemap>
+  <sitemap><loc>${origin}/sitemap_missing.xml</loc></sitemap>
+</sitemapindex>`;
+
+const urlset = (urls: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map(url => `  <url><loc><![CDATA[${url}]]></loc></url>`).join('\n')}
+</urlset>`;
+
+const homepage = `<!DOCTYPE html>
+<html><body>
+  <header>
+    <a href="/">Home</a>
+    <a href="/collections/summer">Summer</a>
+    <a href="/pages/about">About</a>
+    <a href="/cart">Cart</a>
+    <a href="https://instagram.com/fixture">Instagram</a>
+    <a href="http://[broken">Broken</a>
+  </header>
+  <main><a href="/collections/hidden">Not navigation</a></main>
+  <nav class="footer-nav"><a href="/checkout">Checkout</a></nav>
+</body></html>`;
+
+jest.mock('../../screenshots/screenshot-store', () => ({
+  saveScreenshots: jest.fn()
+}));
+
+describe('PageDiscovery - TDD Test Suite', () => {
+  let server: FixtureServer;
+
+  beforeAll(async () => {
+    server = await startFixtureServer({});
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  // Routes are looked up per request, so they can be filled in once the origin is known
+  const serve = async () => {
+    await server.close();
+    const routes: Parameters<typeof startFixtureServer>[0] = {};
+    server = await startFixtureServer(routes);
+    return { routes, origin: server.url };
+  };
+
+  describe('RED Phase: URL Classification', () => {
+    it.each([
+      ['https://store.myshopify.com', 'home'],
+      ['https://store.myshopify.com/', 'home'],
+      ['https://store.myshopify.com/fr-ca', 'home'],
+      ['https://store.myshopify.com/products/blue-shirt', 'product'],
+      ['https://store.myshopify.com/collections/sale/products/blue-shirt', 'product'],
+      ['https://store.myshopify.com/fr/products/chemise-bleue/', 'product'],
+      ['https://store.myshopify.com/collections/sale', 'collection'],
+      ['https://store.myshopify.com/cart', 'cart'],
+      ['https://store.myshopify.com/checkout', 'checkout'],
+      ['https://store.myshopify.com/checkouts/cn/abc123', 'checkout'],
+      ['https://store.myshopify.com/pages/about', null],
+      ['https://store.myshopify.com/blogs/news/post', null],
+      ['https://store.myshopify.com/collections', null],
+      ['not a url', null],
+    ])('should classify %s as %s', (url, expected) => {
+      expect(classifyUrl(url)).toBe(expected);
+    });
+  });
+
+  describe('GREEN Phase: Representative Sampling', () => {
+    const page = (url: string, pageType: DiscoveredPage['pageType']): DiscoveredPage => ({ url, pageType, source: 'sitemap' });
+
+    it('should start with the homepage and alternate between page types', () => {
+      // Arrange
+      const pages = [
+        page('/products/a', 'product'),
+        page('/products/b', 'product'),
+        page('/products/c', 'product'),
+        page('/collections/x', 'collection'),
+        page('/cart', 'cart'),
+        page('/', 'home'),
+      ];
+
+      // Act
+      const sample = selectRepresentativePages(pages, 5);
+
+      // Assert
+      expect(sample.map(p => p.url)).toEqual(['/', '/products/a', '/collections/x', '/cart', '/products/b']);
+    });
+
+    it('should never exceed maxPages', () => {
+      // Arrange
+      const pages = [page('/', 'home'), page('/products/a', 'product')];
+
+      // Act & Assert
+      expect(selectRepresentativePages(pages, 1)).toEqual([pages[0]]);
+      expect(selectRepresentativePages(pages, 0)).toEqual([]);
+    });
+  });
+
+  describe('GREEN Phase: Store Discovery', () => {
+    it('should combine sitemap, catalog endpoints and header navigation', async () => {
+      // Arrange
+      const { routes, origin } = await serve();
+      Object.assign(routes, {
+        '/': homepage,
+        '/sitemap.xml': sitemapIndex(origin),
+        '/sitemap_products_1.xml': urlset([`${origin}/products/green-shirt`, `${origin}/products/blue-shirt`]),
+        '/sitemap_pages_1.xml': urlset([`${origin}/pages/faq`, `${origin}/collections/sale`]),
+        '/products.json': JSON.stringify({ products: [{ handle: 'blue-shirt' }, { handle: 'red-shirt' }, { title: 'no handle' }] }),
+        '/collections.json': JSON.stringify({ collections: [{ handle: 'summer' }, { handle: 'winter' }] }),
+      });
+      const discovery = new PageDiscovery({ fetch: createFixtureFetch(), maxPages: 20 });
+
+      // Act
+      const pages = await discovery.discover(`${server.url}/some/page`);
+
+      // Assert
+      expect(pages).toEqual([
+        { url: `${server.url}/`, pageType: 'home', source: 'root' },
+        { url: `${server.url}/products/blue-shirt`, pageType: 'product', source: 'products' },
+        { url: `${server.url}/collections/summer`, pageType: 'collection', source: 'navigation' },
+        { url: `${server.url}/cart`, pageType: 'cart', source: 'navigation' },
+        { url: `${server.url}/checkout`, pageType: 'checkout', source: 'navigation' },
+        { url: `${server.url}/products/red-shirt`, pageType: 'product', source: 'products' },
+        { url: `${server.url}/collections/winter`, pageType: 'collection', source: 'collections' },
+        { url: `${server.url}/products/green-shirt`, pageType: 'product', source: 'sitemap' },
+        { url: `${server.url}/collections/sale`, pageType: 'collection', source: 'sitemap' },
+      ]);
+      expect(server.requests).toContain('/products.json?limit=50');
+      expect(server.requests).toContain('/sitemap_products_1.xml?from=1&to=99');
+    });
+
+    it('should honour maxPages and excludePaths', async () => {
+      // Arrange
+      const { routes } = await serve();
+      Object.assign(routes, {
+        '/': homepage,
+        '/products.json': JSON.stringify({ products: [{ handle: 'a' }, { handle: 'b' }] }),
+        '/collections.json': JSON.stringify({ collections: [{ handle: 'summer' }] }),
+      });
+      const discovery = new PageDiscovery({
+        fetch: createFixtureFetch(),
+        maxPages: 3,
+        excludePaths: ['/checkout', '/collections/'],
+      });
+
+      // Act
+      const pages = await discovery.discover(server.url);
+
+      // Assert
+      expect(pages.map(p => p.pageType)).toEqual(['home', 'product', 'cart']);
+      expect(pages.some(p => p.url.includes('/collections/'))).toBe(false);
+    });
+
+    it('should apply per-store settings on top of the defaults', async () => {
+      // Arrange
+      const { routes } = await serve();
+      Object.assign(routes, {
+        '/': homepage,
+        '/products.json': JSON.stringify({ products: [{ handle: 'a' }, { handle: 'b' }] })
+      });
+      const discovery = new PageDiscovery({ fetch: createFixtureFetch(), excludePaths: ['/checkout'] });
+
+      // Act
+      const pages = await discovery.discover(server.url, { maxPages: 2, excludePaths: ['/products/a'] });
+
+      // Assert
+      expect(pages.map(p => p.url)).toEqual([`${server.url}/`, `${server.url}/products/b`]);
+    });
+
+    it('should read a plain urlset sitemap', async () => {
+      // Arrange
+      const { routes, origin } = await serve();
+      routes['/sitemap.xml'] = urlset([`${origin}/products/only-from-sitemap`]);
+      const discovery = new PageDiscovery({ fetch: createFixtureFetch() });
+
+      // Act
+      const pages = await discovery.discover(server.url);
+
+      // Assert
+      expect(pages.map(p => p.source)).toEqual(['root', 'sitemap']);
+    });
+
+    it('should fall back to the homepage when every source fails', async () => {
+      // Arrange
+      const { routes } = await serve();
+      Object.assign(routes, {
+        '/products.json': '{not json',
+        '/collections.json': JSON.stringify({ collections: 'none' }),
+      });
+      const discovery = new PageDiscovery({ fetch: createFixtureFetch() });
+
+      // Act
+      const pages = await discovery.discover(server.url);
+
+      // Assert
+      expect(pages).toEqual([{ url: `${server.url}/`, pageType: 'home', source: 'root' }]);
+    });
+
+    it('should abort sources that exceed the timeout', async () => {
+      // Arrange
+      const hangingFetch = jest.fn((...args: Parameters<typeof fetch>) =>
+        new Promise<Response>((...callbacks) => {
+          args[1]?.signal?.addEventListener('abort', () => callbacks[1](new Error('aborted')));
+        })
+      );
+      const discovery = new PageDiscovery({ fetch: hangingFetch, timeout: 10 });
+
+      // Act
+      const pages = await discovery.discover('https://store.myshopify.com');
+
+      // Assert
+      expect(hangingFetch).toHaveBeenCalledTimes(4);
+      expect(pages).toEqual([{ url: 'https://store.myshopify.com/', pageType: 'home', source: 'root' }]);
+    });
+
+    it('should use the global fetch by default', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, text: async () => '' });
+      const discovery = new PageDiscovery();
+
+      // Act
+      await discovery.discover('https://store.myshopify.com');
+
+      // Assert
+      expect(global.fetch).toHaveBeenCalledWith('https://store.myshopify.com/sitemap.xml', expect.any(Object));
+    });
+  });
+
+  describe('REFACTOR Phase: Persistence', () => {
+    it('should store the crawled page with its discovered page type and screenshots', async () => {
+      // Arrange
+      (prisma.crawlResult.create as jest.Mock).mockResolvedValueOnce({ id: 'page-1' });
+      const page: DiscoveredPage = { url: 'https://store.myshopify.com/cart', pageType: 'cart', source: 'navigation' };
+      const crawledAt = new Date('2025-08-10T10:00:00Z');
+      const metrics = { aboveFold: { ctaButtons: [], height: 900 }, performance: { loadTime: 800 } };
+
+      // Act
+      await saveCrawlResult('audit-1', page, {
+        url: page.url,
+        finalUrl: page.url,
+        html: '<html></html>',
+        metrics,
+        theme: null,
+        screenshots: [],
+        crawledAt,
+      });
+
+      // Assert
+      expect(prisma.crawlResult.create).toHaveBeenCalledWith({
+        data: {
+          auditId: 'audit-1',
+          url: page.url,
+          pageType: 'cart',
+          html: '<html></html>',
+          metadata: { source: 'navigation', finalUrl: page.url, metrics, theme: null },
+          crawledAt,
+        },
+      });
+      expect(saveScreenshots).toHaveBeenCalledWith('audit-1', 'page-1', []);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Crawl result persistence
+ * Stores a crawled page as a CrawlResult row, keeping the page type assigned
+ * during discovery so reports can group pages by home/product/collection/cart/checkout,
+ * and the detected theme so recommendations can be regenerated for it.
+ * Its screenshots go to the screenshot storage.
+ */
+
+import prisma from '@/lib/prisma';
+import { saveScreenshots } from '../screenshots/screenshot-store';
+import type { DiscoveredPage } from './discovery';
+import type { CrawlPageResult } from './shopify-crawler';
+
+export async function saveCrawlResult(auditId: string, page: DiscoveredPage, result: CrawlPageResult) {
+  const saved = await prisma.crawlResult.create({
+    data: {
+      auditId,
+      url: page.url,
+      pageType: page.pageType,
+      html: result.html,
+      metadata: {
+        source: page.source,
+        finalUrl: result.finalUrl,
+        metrics: result.metrics,
+        theme: result.theme,
+      },
+      crawledAt: result.crawledAt,
+    },
+  });
+  await saveScreenshots(auditId, saved.id, result.screenshots);
+  return saved;
+}
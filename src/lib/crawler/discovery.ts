@@ -0,0 +1,216 @@
+/**
+ * Store Page Discovery
+ * Finds crawlable pages of a Shopify store and picks a bounded, representative sample
+ *
+ * Sources (all optional, failures are tolerated):
+ * - sitemap.xml and its child sitemaps
+ * - /products.json and /collections.json storefront endpoints
+ * - links in the homepage header navigation
+ *
+ * Every URL is classified into PageTypeEnum; URLs that do not map to a page
+ * type (blogs, policies, content pages) are dropped.
+ */
+
+import type { PageType } from '../../types';
+
+// 'funnel' marks the cart page recorded by the audit's funnel walk, never a discovered page
+export type DiscoverySource = 'root' | 'sitemap' | 'products' | 'collections' | 'navigation' | 'funnel';
+
+export interface DiscoveredPage {
+  url: string;
+  pageType: PageType;
+  source: DiscoverySource;
+}
+
+export interface DiscoveryOptions {
+  maxPages?: number;
+  excludePaths?: string[];
+  timeout?: number;
+  fetch?: typeof fetch;
+}
+
+// Per-store settings; maxPages replaces the default, excludePaths add to it
+export type DiscoveryOverrides = Pick<DiscoveryOptions, 'maxPages' | 'excludePaths'>;
+
+// Order in which page types are drawn when building the sample
+const SAMPLE_ORDER: readonly PageType[] = ['product', 'collection', 'cart', 'checkout'];
+
+// Optional locale prefix used by Shopify Markets, e.g. /fr or /en-ca
+const LOCALE_PREFIX = /^\/[a-z]{2}(-[a-z]{2})?(?=\/|$)/i;
+
+/**
+ * Classify a storefront URL into a page type, or null when it is not auditable
+ */
+export function classifyUrl(url: string): PageType | null {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return null;
+  }
+
+  const path = pathname.replace(LOCALE_PREFIX, '').replace(/\/+$/, '') || '/';
+
+  if (path === '/') return 'home';
+  if (/^(\/collections\/[^/]+)?\/products\/[^/]+$/.test(path)) return 'product';
+  if (/^\/collections\/[^/]+$/.test(path)) return 'collection';
+  if (path === '/cart') return 'cart';
+  if (path === '/checkout' || path.startsWith('/checkouts/')) return 'checkout';
+  return null;
+}
+
+function isExcluded(url: string, excludePaths: string[]): boolean {
+  const { pathname } = new URL(url);
+  return excludePaths.some(path => pathname === path || pathname.startsWith(`${path.replace(/\/$/, '')}/`));
+}
+
+/**
+ * Pick at most maxPages pages: the homepage first, then one page of each type in turn
+ */
+export function selectRepresentativePages(pages: DiscoveredPage[], maxPages: number): DiscoveredPage[] {
+  const selected: DiscoveredPage[] = pages.filter(page => page.pageType === 'home').slice(0, 1);
+  const buckets = SAMPLE_ORDER.map(type => pages.filter(page => page.pageType === type));
+
+  let round = 0;
+  while (selected.length < maxPages && buckets.some(bucket => bucket.length > round)) {
+    for (const bucket of buckets) {
+      const page = bucket[round];
+      if (page && selected.length < maxPages) {
+        selected.push(page);
+      }
+    }
+    round++;
+  }
+
+  return selected.slice(0, maxPages);
+}
+
+export class PageDiscovery {
+  // Discovery configuration constants
+  public static readonly DEFAULT_MAX_PAGES = 15;
+  public static readonly DEFAULT_TIMEOUT = 10000;
+  private static readonly MAX_CHILD_SITEMAPS = 10;
+  private static readonly CATALOG_LIMIT = 50;
+
+  private readonly maxPages: number;
+  private readonly excludePaths: string[];
+  private readonly timeout: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: DiscoveryOptions = {}) {
+    this.maxPages = options.maxPages ?? PageDiscovery.DEFAULT_MAX_PAGES;
+    this.excludePaths = options.excludePaths ?? [];
+    this.timeout = options.timeout ?? PageDiscovery.DEFAULT_TIMEOUT;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  /**
+   * Discover and classify pages of a store, returning a representative sample
+   */
+  async discover(storeUrl: string, overrides: DiscoveryOverrides = {}): Promise<DiscoveredPage[]> {
+    const origin = new URL(storeUrl).origin;
+    const excludePaths = [...this.excludePaths, ...(overrides.excludePaths ?? [])];
+
+    const [sitemapUrls, productUrls, collectionUrls, navigationUrls] = await Promise.all([
+      this.fromSitemap(origin),
+      this.fromCatalog(origin, 'products'),
+      this.fromCatalog(origin, 'collections'),
+      this.fromNavigation(origin),
+    ]);
+
+    const candidates: Array<[string, DiscoverySource]> = [
+      [`${origin}/`, 'root'],
+      ...navigationUrls.map(url => [url, 'navigation'] as [string, DiscoverySource]),
+      ...productUrls.map(url => [url, 'products'] as [string, DiscoverySource]),
+      ...collectionUrls.map(url => [url, 'collections'] as [string, DiscoverySource]),
+      ...sitemapUrls.map(url => [url, 'sitemap'] as [string, DiscoverySource]),
+    ];
+
+    const pages = new Map<string, DiscoveredPage>();
+    for (const [url, source] of candidates) {
+      const normalized = this.normalize(url, origin);
+      if (!normalized || pages.has(normalized) || isExcluded(normalized, excludePaths)) continue;
+
+      const pageType = classifyUrl(normalized);
+      if (pageType) {
+        pages.set(normalized, { url: normalized, pageType, source });
+      }
+    }
+
+    return selectRepresentativePages(Array.from(pages.values()), overrides.maxPages ?? this.maxPages);
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private async fromSitemap(origin: string): Promise<string[]> {
+    const root = await this.fetchText(`${origin}/sitemap.xml`);
+    if (!root) return [];
+
+    if (!/<sitemapindex[\s>]/i.test(root)) {
+      return this.extractLocs(root);
+    }
+
+    const children = this.extractLocs(root).slice(0, PageDiscovery.MAX_CHILD_SITEMAPS);
+    const documents = await Promise.all(children.map(child => this.fetchText(child)));
+    return documents.flatMap(document => (document ? this.extractLocs(document) : []));
+  }
+
+  private async fromCatalog(origin: string, resource: 'products' | 'collections'): Promise<string[]> {
+    const body = await this.fetchText(`${origin}/${resource}.json?limit=${PageDiscovery.CATALOG_LIMIT}`);
+    if (!body) return [];
+
+    try {
+      const items = JSON.parse(body)[resource];
+      if (!Array.isArray(items)) return [];
+      return items
+        .filter((item): item is { handle: string } => typeof item?.handle === 'string')
+        .map(item => `${origin}/${resource}/${item.handle}`);
+    } catch {
+      return [];
+    }
+  }
+
+  private async fromNavigation(origin: string): Promise<string[]> {
+    const html = await this.fetchText(`${origin}/`);
+    if (!html) return [];
+
+    const regions = html.match(/<(header|nav)\b[\s\S]*?<\/\1>/gi) ?? [];
+    return regions.flatMap(region =>
+      Array.from(region.matchAll(/<a\b[^>]*\bhref\s*=\s*["']([^"'#]+)["']/gi), match => match[1] as string)
+    );
+  }
+
+  private extractLocs(xml: string): string[] {
+    return Array.from(
+      xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*(.*?)\s*(?:\]\]>)?\s*<\/loc>/gi),
+      match => (match[1] as string).replace(/&amp;/g, '&')
+    );
+  }
+
+  private normalize(url: string, origin: string): string | null {
+    try {
+      const parsed = new URL(url, origin);
+      if (parsed.origin !== origin) return null;
+      parsed.hash = '';
+      parsed.search = '';
+      parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+      return parsed.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private async fetchText(url: string): Promise<string | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetchImpl(url, { signal: controller.signal });
+      return response.ok ? await response.text() : null;
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Above-the-fold extractor
+ * Runs inside the browser via page.evaluate(), so it must stay self-contained:
+ * no imports, only its serialisable argument and the helpers on window.__croDom.
+ *
+ * Collects every button/link that looks like a call-to-action and reports its
+ * selector, document position, rendered size and whether it is prominent.
+ */
+
+import type { ElementBox } from '../../../types';
+
+export interface AboveFoldExtractorArgs {
+  foldHeight: number;
+  minProminentWidth: number;
+  minProminentHeight: number;
+}
+
+export interface ExtractedCTA extends ElementBox {
+  text: string;
+  prominent: boolean;
+}
+
+export interface AboveFoldExtraction {
+  ctaButtons: ExtractedCTA[];
+  height: number;
+}
+
+export function extractAboveFold(args: AboveFoldExtractorArgs): AboveFoldExtraction {
+  const CANDIDATE_SELECTOR = 'button, a[href], input[type="submit"], input[type="button"], [role="button"]';
+  const CTA_TEXT_PATTERN = /\b(shop|buy|add to (cart|bag)|order|get started|start|discover|explore|view (all|collection|products)|browse|subscribe|sign up|checkout|learn more)\b/i;
+  const CTA_CLASS_PATTERN = /(^|[\s_-])(btn|button|cta)([\s_-]|$)/i;
+  const dom = window.__croDom!;
+
+  const looksLikeCTA = (element: Element, text: string): boolean => {
+    const isButton = element.tagName === 'BUTTON' || element.tagName === 'INPUT' || element.getAttribute('role') === 'button';
+    return isButton || CTA_CLASS_PATTERN.test(element.className.toString()) || CTA_TEXT_PATTERN.test(text);
+  };
+
+  const hasSolidBackground = (element: Element): boolean => {
+    const background = window.getComputedStyle(element).backgroundColor;
+    return background !== '' && background !== 'transparent' && !/rgba\(.*,\s*0\)$/.test(background);
+  };
+
+  const ctaButtons: ExtractedCTA[] = [];
+
+  for (const element of Array.from(document.querySelectorAll(CANDIDATE_SELECTOR))) {
+    const text = dom.readText(element);
+    if (!text || !dom.isVisible(element) || !looksLikeCTA(element, text)) continue;
+
+    const box = dom.describeBox(element);
+    if (box.position.top >= args.foldHeight) continue;
+
+    const fitsInFold = box.position.top + box.size.height <= args.foldHeight;
+    const styledAsButton = element.tagName !== 'A' || hasSolidBackground(element) || CTA_CLASS_PATTERN.test(element.className.toString());
+
+    ctaButtons.push({
+      text,
+      ...box,
+      prominent: fitsInFold &&
+        styledAsButton &&
+        box.size.width >= args.minProminentWidth &&
+        box.size.height >= args.minProminentHeight,
+    });
+  }
+
+  return { ctaButtons, height: args.foldHeight };
+}
@@ -0,0 +1,106 @@
+/**
+ * Accessibility extractors
+ * Run inside the browser via page.evaluate() after installDomHelpers().
+ *
+ * extractAccessibility() checks image alt text, form field labels, the heading
+ * outline and positive tabindex values once per page. extractTapTargets() runs
+ * on every device profile because target sizes depend on the viewport.
+ * Each offending element is reported with its selector and the attribute at fault.
+ */
+
+import type { AccessibilityIssue, AccessibilityMetrics, TapTargetMetrics } from '../../../types';
+
+export interface AccessibilityExtractorArgs {
+  maxIssues: number;
+}
+
+export interface TapTargetExtractorArgs {
+  minSize: number;
+  maxIssues: number;
+}
+
+export function extractAccessibility(args: AccessibilityExtractorArgs): AccessibilityMetrics {
+  const FIELD_SELECTOR = 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea';
+  const dom = window.__croDom!;
+
+  const issue = (element: Element, attribute: string): AccessibilityIssue => ({
+    selector: dom.buildSelector(element),
+    attribute,
+    value: element.getAttribute(attribute),
+  });
+
+  // Images hidden from assistive technology don't need alt text
+  const images = Array.from(document.querySelectorAll('img'))
+    .filter(image => image.getAttribute('aria-hidden') !== 'true' && image.getAttribute('role') !== 'presentation');
+  const missingAlt = images.filter(image => !image.hasAttribute('alt'));
+
+  const hasLabel = (field: Element): boolean => {
+    const labelledBy = field.getAttribute('aria-labelledby');
+    return Array.from((field as HTMLSelectElement).labels).some(label => dom.readText(label) !== '') ||
+      (field.getAttribute('aria-label') ?? '').trim() !== '' ||
+      (field.getAttribute('title') ?? '').trim() !== '' ||
+      (labelledBy !== null && labelledBy.split(/\s+/).some(id => document.getElementById(id) !== null));
+  };
+  const fields = Array.from(document.querySelectorAll(FIELD_SELECTOR));
+  const unlabeled = fields.filter(field => !hasLabel(field));
+
+  const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'));
+  const skippedLevels: AccessibilityIssue[] = [];
+  let previousLevel = 0;
+  for (const heading of headings) {
+    const level = Number(heading.tagName.charAt(1));
+    if (previousLevel > 0 && level > previousLevel + 1) {
+      skippedLevels.push({ selector: dom.buildSelector(heading), attribute: 'level', value: heading.tagName.toLowerCase() });
+    }
+    previousLevel = level;
+  }
+
+  const positiveTabIndex = Array.from(document.querySelectorAll('[tabindex]'))
+    .filter(element => Number(element.getAttribute('tabindex')) > 0);
+
+  return {
+    images: {
+      total: images.length,
+      withAlt: images.length - missingAlt.length,
+      missingAlt: missingAlt.slice(0, args.maxIssues).map(image => issue(image, 'alt')),
+    },
+    formFields: {
+      total: fields.length,
+      unlabeledCount: unlabeled.length,
+      unlabeled: unlabeled.slice(0, args.maxIssues).map(field => issue(field, 'aria-label')),
+    },
+    headings: {
+      h1Count: headings.filter(heading => heading.tagName === 'H1').length,
+      outline: headings.slice(0, args.maxIssues).map(heading => ({
+        level: Number(heading.tagName.charAt(1)),
+        text: dom.readText(heading),
+      })),
+      skippedLevels: skippedLevels.slice(0, args.maxIssues),
+    },
+    focusOrder: {
+      positiveTabIndex: positiveTabIndex.slice(0, args.maxIssues).map(element => issue(element, 'tabindex')),
+    },
+  };
+}
+
+export function extractTapTargets(args: TapTargetExtractorArgs): TapTargetMetrics {
+  const TARGET_SELECTOR = 'a[href], button, input:not([type="hidden"]), select, textarea, [role="button"], [role="link"]';
+  const dom = window.__croDom!;
+
+  // Links inside running text are exempt from target size requirements (WCAG 2.5.8)
+  const targets = Array.from(document.querySelectorAll(TARGET_SELECTOR))
+    .filter(element => dom.isVisible(element) && !element.matches('p > a'));
+
+  const undersized = targets.flatMap(element => {
+    const { width, height } = element.getBoundingClientRect();
+    if (width >= args.minSize && height >= args.minSize) return [];
+    return [{ selector: dom.buildSelector(element), attribute: 'size', value: `${Math.round(width)}x${Math.round(height)}` }];
+  });
+
+  return {
+    total: targets.length,
+    minSize: args.minSize,
+    undersizedCount: undersized.length,
+    undersized: undersized.slice(0, args.maxIssues),
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Collection page extractor
+ * Runs inside the browser via page.evaluate() after installDomHelpers().
+ *
+ * Reads the filter and sort controls, the product grid and what each product
+ * card shows (price, image, rating, badges, quick-add), and how shoppers reach
+ * more products: numbered pages, a load more button or infinite scroll.
+ */
+
+import type { CollectionMetrics, ElementBox, ProductCard } from '../../../types';
+
+export interface CollectionExtractorArgs {
+  foldHeight: number;
+  maxCards: number; // Cards described in the result, the grid size counts them all
+}
+
+export function extractCollection(args: CollectionExtractorArgs): CollectionMetrics {
+  const FILTER_FORM_SELECTOR = 'facet-filters-form, #FacetFiltersForm, .facets, .collection-filters, [data-collection-filters]';
+  const FILTER_INPUT_SELECTOR = '[name^="filter."]';
+  const SORT_SELECTOR = 'select[name="sort_by"], a[href*="sort_by="]';
+  const CARD_SELECTOR = '.product-card, .card-wrapper, .product-item, .grid-product, [data-product-card], #product-grid > li, .product-grid > li';
+  const PRODUCT_LINK_SELECTOR = 'a[href*="/products/"]';
+  const TITLE_SELECTOR = '.card__heading, [class*="title"], h2, h3, h4';
+  const PRICE_SELECTOR = '.price, [class*="price"], .money';
+  const IMAGE_SELECTOR = 'img, picture, [style*="background-image"]';
+  const RATING_SELECTOR = '[class*="rating"], [class*="stars"], [data-rating], .jdgm-prev-badge, .stamped-badge, .yotpo';
+  const BADGE_SELECTOR = '.badge, [class*="badge"], .product-tag, [class*="label--"]';
+  const QUICK_ADD_SELECTOR = 'form[action*="/cart/add"], button[name="add"], [class*="quick-add"], [class*="quick-view"], [class*="quick-shop"]';
+  const INFINITE_SCROLL_SELECTOR = '[data-infinite-scroll], .infinite-scroll, #AjaxinateContainer, #AjaxinateLoop';
+  const PAGES_SELECTOR = '.pagination a, nav[class*="pagination"] a, a[href*="page="], link[rel="next"]';
+  const CONTROL_SELECTOR = 'button, summary, a[role="button"]';
+  const LOAD_MORE_PATTERN = /^(load|show|view) more/i;
+  const COUNT_SELECTOR = '#ProductCount, #ProductCountDesktop, .product-count, [class*="product-count"], .collection__products-count';
+  const COUNT_PATTERN = /(\d[\d,.]*)\s*(products|items|results)/i;
+  const MONEY_PATTERN = /\d/;
+  const ROW_TOLERANCE = 5;
+  const dom = window.__croDom!;
+
+  const visible = (selector: string, scope: ParentNode = document) =>
+    Array.from(scope.querySelectorAll(selector)).filter(element => dom.isVisible(element));
+  // Buttons opening a closed filter or sort drawer, e.g. "Filter and sort" on mobile
+  const toggle = (pattern: RegExp) => visible(CONTROL_SELECTOR).find(element => pattern.test(dom.readText(element)));
+  const boxOf = (element: Element | undefined): ElementBox | null => element ? dom.describeBox(element) : null;
+
+  // "filter.v.option.size" is size, "filter.v.price.gte" is price, "filter.p.product_type" is product type
+  const groups = new Set(
+    Array.from(document.querySelectorAll(FILTER_INPUT_SELECTOR)).map(input => {
+      const parts = (input.getAttribute('name') as string).split('.').filter(part => !['gte', 'lte'].includes(part));
+      return (parts[parts.length - 1] as string).replace(/[_-]/g, ' ').toLowerCase();
+    })
+  );
+  const filterElement = visible(FILTER_FORM_SELECTOR)[0] ?? toggle(/^filter/i);
+
+  const sortSelect = document.querySelector<HTMLSelectElement>('select[name="sort_by"]');
+  const sortOptions = sortSelect
+    ? Array.from(sortSelect.options).map(option => option.text.trim())
+    : Array.from(document.querySelectorAll('a[href*="sort_by="]')).map(link => dom.readText(link));
+  const sortElement = visible(SORT_SELECTOR)[0] ?? toggle(/sort/i);
+  const sort = sortOptions.length > 0 && sortElement ? { options: sortOptions, element: dom.describeBox(sortElement) } : null;
+
+  // Nested matches (a list item and its card) are one card, and a card links to its product
+  const matched = visible(CARD_SELECTOR);
+  const cardElements = matched
+    .filter(card => !matched.some(other => other !== card && other.contains(card)))
+    .filter(card => card.matches(PRODUCT_LINK_SELECTOR) || card.querySelector(PRODUCT_LINK_SELECTOR) !== null);
+
+  const cards: ProductCard[] = cardElements.map(card => {
+    const box = dom.describeBox(card);
+    const title = visible(TITLE_SELECTOR, card)[0] ?? card.querySelector(PRODUCT_LINK_SELECTOR) ?? card;
+    const prices = visible(PRICE_SELECTOR, card).filter(element => MONEY_PATTERN.test(dom.readText(element)));
+    const badges = visible(BADGE_SELECTOR, card).map(element => dom.readText(element)).filter(text => text.length > 0);
+    return {
+      ...box,
+      title: dom.readText(title),
+      price: prices[0] ? dom.readText(prices[0]) : null,
+      image: card.querySelector(IMAGE_SELECTOR) !== null,
+      rating: card.querySelector(RATING_SELECTOR) !== null,
+      badges: Array.from(new Set(badges)),
+      quickAdd: card.querySelector(QUICK_ADD_SELECTOR) !== null,
+      aboveFold: box.position.top + box.size.height / 2 <= args.foldHeight,
+    };
+  });
+
+  const firstRow = Math.min(...cards.map(card => card.position.top));
+  const grid = {
+    columns: cards.filter(card => card.position.top - firstRow < ROW_TOLERANCE).length,
+    cardsAboveFold: cards.filter(card => card.aboveFold).length,
+  };
+
+  const countText = Array.from(document.querySelectorAll(COUNT_SELECTOR)).map(element => dom.readText(element)).join(' ');
+  const count = countText.match(COUNT_PATTERN);
+  const totalProducts = count ? parseInt((count[1] as string).replace(/[,.]/g, ''), 10) : null;
+
+  let pagination: CollectionMetrics['pagination'] = 'none';
+  if (document.querySelector(INFINITE_SCROLL_SELECTOR)) {
+    pagination = 'infinite_scroll';
+  } else if (visible(CONTROL_SELECTOR).some(element => LOAD_MORE_PATTERN.test(dom.readText(element)))) {
+    pagination = 'load_more';
+  } else if (document.querySelector(PAGES_SELECTOR)) {
+    pagination = 'pages';
+  }
+
+  return {
+    filters: { groups: Array.from(groups), element: boxOf(filterElement) },
+    sort,
+    productCount: cards.length,
+    totalProducts,
+    grid,
+    cards: cards.slice(0, args.maxCards),
+    pagination,
+  };
+}
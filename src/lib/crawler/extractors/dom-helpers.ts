@@ -0,0 +1,79 @@
+/**
+ * Shared DOM helpers for the in-page extractors
+ * installDomHelpers() is evaluated once per page before any extractor runs and
+ * exposes the helpers on window.__croDom, so each extractor can stay small while
+ * still being serialisable by page.evaluate().
+ */
+
+import type { ElementBox } from '../../../types';
+
+export function installDomHelpers(): void {
+  const cssEscape = (value: string): string =>
+    value.replace(/([^a-zA-Z0-9_-])/g, '\\$1');
+
+  const buildSelector = (element: Element): string => {
+    const parts: string[] = [];
+    let current: Element | null = element;
+
+    while (current && current !== document.body && parts.length < 4) {
+      if (current.id) {
+        parts.unshift(`#${cssEscape(current.id)}`);
+        break;
+      }
+
+      let part = current.tagName.toLowerCase();
+      const classes = Array.from(current.classList).slice(0, 2);
+      if (classes.length > 0) {
+        part += classes.map(name => `.${cssEscape(name)}`).join('');
+      }
+
+      const parent: Element | null = current.parentElement;
+      if (parent) {
+        const siblingSelector = part;
+        const siblings = Array.from(parent.children).filter(child => child.matches(siblingSelector));
+        if (siblings.length > 1) {
+          // nth-of-type counts every sibling with the same tag, whatever its classes
+          const tagName = current.tagName;
+          const sameTag = Array.from(parent.children).filter(child => child.tagName === tagName);
+          part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+        }
+      }
+
+      parts.unshift(part);
+      current = parent;
+    }
+
+    return parts.join(' > ');
+  };
+
+  const describeBox = (element: Element): ElementBox => {
+    const rect = element.getBoundingClientRect();
+    return {
+      selector: buildSelector(element),
+      position: {
+        top: Math.round(rect.top + window.scrollY),
+        left: Math.round(rect.left + window.scrollX),
+      },
+      size: {
+        width: Math.round(rect.width),
+        height: Math.round(rect.height),
+      },
+    };
+  };
+
+  const isVisible = (element: Element): boolean => {
+    const rect = element.getBoundingClientRect();
+    if (rect.width <= 0 || rect.height <= 0) return false;
+    const style = window.getComputedStyle(element);
+    return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
+  };
+
+  const readText = (element: Element): string => {
+    const value = element instanceof HTMLInputElement
+      ? element.value
+      : element.textContent || element.getAttribute('aria-label') || '';
+    return value.replace(/\s+/g, ' ').trim();
+  };
+
+  window.__croDom = { buildSelector, describeBox, isVisible, readText };
+}
@@ -0,0 +1,167 @@
+/**
+ * Funnel extractors
+ * In-page actions and reads of the funnel walk (see crawler/funnel), run via
+ * page.evaluate(). Selectors come in as arguments so each function stays
+ * serialisable; everything but selectVariant() needs installDomHelpers().
+ *
+ * - selectVariant: picks an available value in every option picker of the product form
+ * - clickControl: clicks the first visible control matching the selectors, unless disabled
+ * - findCartOverlay: tells whether adding to cart opened a drawer or a notification
+ * - extractCartView: reads line items, checkout button, upsells, free shipping message
+ *   and express checkout buttons from the open drawer, or from the whole page
+ */
+
+import type { CartView, ExpressPayProvider } from '../../../types';
+
+export interface CartSelectors {
+  drawer: string[];
+  notification: string[];
+  lineItems: string[];
+  checkout: string[];
+  upsell: string[];
+  shippingThreshold: string[];
+  expressPay: string[];
+}
+
+export interface VariantPickerArgs {
+  form: string; // Product form
+  pickers: string[]; // Option pickers, inside the form or next to it
+}
+
+export interface VariantSelection {
+  formFound: boolean;
+  label: string | null; // Values picked, null when there was nothing to pick
+}
+
+export interface ClickControlArgs {
+  selectors: string[];
+  drawer: string[] | null; // Look inside the open drawer first
+}
+
+export interface ClickedControl {
+  text: string;
+  disabled: boolean;
+}
+
+export interface CartViewArgs {
+  view: CartView['view'];
+  selectors: CartSelectors;
+  upsellHeadingPattern: string;
+  shippingTextPattern: string;
+  expressPayPatterns: Record<Exclude<ExpressPayProvider, 'other'>, string>;
+  maxTextLength: number;
+}
+
+export function selectVariant(args: VariantPickerArgs): VariantSelection {
+  if (!document.querySelector(args.form)) {
+    return { formFound: false, label: null };
+  }
+
+  const picked: string[] = [];
+  const scoped = (element: string) => [args.form, ...args.pickers].map(scope => `${scope} ${element}`).join(', ');
+
+  // Keep the current choice when it is available, else take the first available one
+  document.querySelectorAll<HTMLSelectElement>(scoped('select')).forEach(select => {
+    const options = Array.from(select.options);
+    const option = options.find(candidate => candidate.selected && !candidate.disabled) ?? options.find(candidate => !candidate.disabled);
+    if (option) {
+      select.value = option.value;
+      select.dispatchEvent(new Event('change', { bubbles: true }));
+      picked.push(option.text.trim());
+    }
+  });
+
+  const groups = new Map<string, HTMLInputElement[]>();
+  document.querySelectorAll<HTMLInputElement>(scoped('input[type="radio"]')).forEach(radio => {
+    groups.set(radio.name, [...(groups.get(radio.name) ?? []), radio]);
+  });
+  groups.forEach(radios => {
+    const radio = radios.find(candidate => candidate.checked && !candidate.disabled) ?? radios.find(candidate => !candidate.disabled);
+    if (radio) {
+      radio.checked = true;
+      radio.dispatchEvent(new Event('change', { bubbles: true }));
+      picked.push(radio.value);
+    }
+  });
+
+  return { formFound: true, label: picked.length > 0 ? picked.join(' / ') : null };
+}
+
+export function clickControl(args: ClickControlArgs): ClickedControl | null {
+  const dom = window.__croDom!;
+  const drawer = args.drawer
+    ? Array.from(document.querySelectorAll(args.drawer.join(', '))).find(element => dom.isVisible(element))
+    : undefined;
+  const control = Array.from((drawer ?? document).querySelectorAll(args.selectors.join(', '))).find(element => dom.isVisible(element));
+  if (!control) {
+    return null;
+  }
+
+  const disabled = (control as HTMLButtonElement).disabled === true || control.getAttribute('aria-disabled') === 'true';
+  if (!disabled) {
+    (control as HTMLElement).click();
+  }
+  return { text: dom.readText(control), disabled };
+}
+
+export function findCartOverlay(args: Pick<CartSelectors, 'drawer' | 'notification'>): 'drawer' | 'notification' | 'none' {
+  const dom = window.__croDom!;
+  const isOpen = (selectors: string[]) => Array.from(document.querySelectorAll(selectors.join(', '))).some(element => dom.isVisible(element));
+  if (isOpen(args.drawer)) {
+    return 'drawer';
+  }
+  return isOpen(args.notification) ? 'notification' : 'none';
+}
+
+export function extractCartView(args: CartViewArgs): CartView {
+  const dom = window.__croDom!;
+  const { selectors } = args;
+  const visibleIn = (scope: ParentNode, list: string[]) => Array.from(scope.querySelectorAll(list.join(', '))).filter(element => dom.isVisible(element));
+
+  const drawer = args.view === 'drawer' ? visibleIn(document, selectors.drawer)[0] : undefined;
+  const scope: ParentNode = drawer ?? document;
+
+  // Nested matches (a row and its inner wrapper) are one line item
+  const matchedItems = visibleIn(scope, selectors.lineItems);
+  const itemCount = matchedItems.filter(item => !matchedItems.some(other => other !== item && other.contains(item))).length;
+
+  const checkout = visibleIn(scope, selectors.checkout)[0];
+  let checkoutButton: CartView['checkoutButton'] = null;
+  if (checkout) {
+    const rect = checkout.getBoundingClientRect();
+    checkoutButton = {
+      ...dom.describeBox(checkout),
+      text: dom.readText(checkout),
+      disabled: (checkout as HTMLButtonElement).disabled === true || checkout.getAttribute('aria-disabled') === 'true',
+      onScreen: rect.top >= 0 && rect.bottom <= window.innerHeight,
+    };
+  }
+
+  const upsellHeading = new RegExp(args.upsellHeadingPattern, 'i');
+  const upsell = visibleIn(scope, selectors.upsell).length > 0 ||
+    visibleIn(scope, ['h2', 'h3', 'h4', 'p']).some(heading => upsellHeading.test(dom.readText(heading)));
+
+  // The marked-up message, else the innermost element mentioning free shipping
+  const shippingText = new RegExp(args.shippingTextPattern, 'i');
+  const mentions = visibleIn(scope, ['*']).filter(element => shippingText.test(dom.readText(element)));
+  const message = visibleIn(scope, selectors.shippingThreshold)[0] ??
+    mentions.find(element => !mentions.some(other => other !== element && element.contains(other)));
+  const shippingThreshold = message ? dom.readText(message).slice(0, args.maxTextLength) : null;
+
+  const expressPay: ExpressPayProvider[] = [];
+  const containers = visibleIn(scope, selectors.expressPay);
+  const described = containers
+    .flatMap(container => [container, ...Array.from(container.querySelectorAll('*'))])
+    .map(element => ['aria-label', 'title', 'class', 'data-testid', 'alt'].map(name => element.getAttribute(name) ?? '').join(' '))
+    .join(' ');
+  for (const [provider, pattern] of Object.entries(args.expressPayPatterns)) {
+    if (new RegExp(pattern, 'i').test(described)) {
+      expressPay.push(provider as ExpressPayProvider);
+    }
+  }
+  if (containers.length > 0 && expressPay.length === 0) {
+    expressPay.push('other');
+  }
+
+  return { view: args.view, itemCount, checkoutButton, upsell, shippingThreshold, expressPay };
+}
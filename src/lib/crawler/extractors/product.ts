@@ -0,0 +1,124 @@
+/**
+ * Product page extractor
+ * Runs inside the browser via page.evaluate() after installDomHelpers().
+ *
+ * Reads the price block (regular, sale and compare-at prices), the variant
+ * picker and the add-to-cart button of the main product form.
+ */
+
+import type { ElementBox } from '../../../types';
+
+export interface ProductExtractorArgs {
+  foldHeight: number;
+}
+
+export interface ExtractedPrice extends ElementBox {
+  text: string;
+  amount: number;
+  onSale: boolean;
+  aboveFold: boolean;
+}
+
+export interface ProductExtraction {
+  prices: ExtractedPrice[];
+  compareAtPrice: ExtractedPrice | null;
+  variantSelector: { type: 'dropdown' | 'buttons' | 'swatches' | 'none'; optionCount: number };
+  addToCart: (ElementBox & {
+    text: string;
+    disabled: boolean;
+    aboveFold: boolean;
+    distanceFromPrice: number | null;
+  }) | null;
+}
+
+export function extractProduct(args: ProductExtractorArgs): ProductExtraction {
+  const PRICE_SELECTOR = '.price-item, .price__regular, .price__sale, .product__price, .product-price, [data-product-price], [data-compare-price], [itemprop="price"], .price, s, del';
+  const COMPARE_AT_PATTERN = /compare|was-price|price--compare|price__compare/i;
+  const SALE_PATTERN = /(^|[\s_-])(sale|on-sale|discount)([\s_-]|$)/i;
+  const ATC_SELECTOR = 'form[action*="/cart/add"] [type="submit"], form[action*="/cart/add"] button[name="add"], [data-add-to-cart], .product-form__submit';
+  const SWATCH_PATTERN = /swatch|color/i;
+  const MONEY_PATTERN = /\d[\d\s.,]*/;
+  const dom = window.__croDom!;
+
+  const scope = document.querySelector('product-info, [data-product-id], .product, main') ?? document.body;
+
+  // Only called on text that matched MONEY_PATTERN
+  const parseAmount = (text: string): number => {
+    let digits = (text.match(MONEY_PATTERN) as RegExpMatchArray)[0].replace(/\s/g, '');
+    // Treat a trailing ",dd" as a decimal comma (e.g. "19,99 €")
+    if (/,\d{2}$/.test(digits)) {
+      digits = digits.replace(/\./g, '').replace(',', '.');
+    } else {
+      digits = digits.replace(/,/g, '');
+    }
+    return parseFloat(digits);
+  };
+
+  const isCompareAt = (element: Element): boolean =>
+    element.closest('s, del') !== null ||
+    COMPARE_AT_PATTERN.test(element.className.toString()) ||
+    element.hasAttribute('data-compare-price');
+
+  const toPrice = (element: Element): ExtractedPrice => {
+    const box = dom.describeBox(element);
+    const text = dom.readText(element);
+    return {
+      ...box,
+      text,
+      amount: parseAmount(text),
+      onSale: SALE_PATTERN.test(`${element.className} ${(element.parentElement as Element).className}`),
+      aboveFold: box.position.top < args.foldHeight,
+    };
+  };
+
+  // Keep the innermost visible elements that actually contain a money value
+  const candidates = Array.from(scope.querySelectorAll(PRICE_SELECTOR)).filter(element =>
+    dom.isVisible(element) && MONEY_PATTERN.test(dom.readText(element))
+  );
+  const leaves = candidates.filter(element => !candidates.some(other => other !== element && element.contains(other)));
+
+  const prices = leaves.filter(element => !isCompareAt(element)).map(toPrice);
+  const compareAtElement = leaves.find(isCompareAt);
+  const compareAtPrice = compareAtElement ? toPrice(compareAtElement) : null;
+
+  const selects = Array.from(scope.querySelectorAll('select[name^="options"], variant-selects select, select.product-form__input'))
+    .filter(element => dom.isVisible(element));
+  const radioGroups = new Set(
+    Array.from(scope.querySelectorAll<HTMLInputElement>('input[type="radio"][name^="options"], variant-radios input[type="radio"]'))
+      .map(input => input.name)
+  );
+
+  let variantSelector: ProductExtraction['variantSelector'] = { type: 'none', optionCount: 0 };
+  if (selects.length > 0) {
+    variantSelector = { type: 'dropdown', optionCount: selects.length };
+  } else if (radioGroups.size > 0) {
+    const swatches = Array.from(scope.querySelectorAll('input[type="radio"] + label, .swatch'))
+      .some(element => SWATCH_PATTERN.test(element.className.toString()) || element.hasAttribute('data-swatch'));
+    variantSelector = { type: swatches ? 'swatches' : 'buttons', optionCount: radioGroups.size };
+  }
+
+  const atcElement = Array.from(document.querySelectorAll(ATC_SELECTOR)).find(element => dom.isVisible(element));
+  let addToCart: ProductExtraction['addToCart'] = null;
+  if (atcElement) {
+    const box = dom.describeBox(atcElement);
+    const price = prices[0];
+    const distanceFromPrice = price
+      ? Math.round(Math.hypot(
+        (box.position.left + box.size.width / 2) - (price.position.left + price.size.width / 2),
+        (box.position.top + box.size.height / 2) - (price.position.top + price.size.height / 2)
+      ))
+      : null;
+
+    addToCart = {
+      ...box,
+      text: dom.readText(atcElement),
+      disabled: atcElement.hasAttribute('disabled') ||
+        atcElement.getAttribute('aria-disabled') === 'true' ||
+        /(^|\s)(disabled|sold-out)(\s|$)/i.test(atcElement.className.toString()),
+      aboveFold: box.position.top < args.foldHeight,
+      distanceFromPrice,
+    };
+  }
+
+  return { prices, compareAtPrice, variantSelector, addToCart };
+}
@@ -0,0 +1,100 @@
+/**
+ * Social proof extractor
+ * Runs inside the browser via page.evaluate() after installDomHelpers().
+ *
+ * Matches the page against the review app signatures passed in as argument
+ * (widget selectors and script URLs), then reads the star rating and review
+ * count from the visible widget and checks where it sits relative to the
+ * product title and the fold.
+ */
+
+import type { ElementBox, ReviewApp } from '../../../types';
+import type { ReviewAppSignature } from '../review-apps';
+
+export interface SocialProofExtractorArgs {
+  foldHeight: number;
+  maxTitleDistance: number;
+  apps: ReviewAppSignature[];
+}
+
+export interface SocialProofExtraction {
+  app: ReviewApp | null;
+  detectedApps: ReviewApp[];
+  rating: number | null;
+  reviewCount: number | null;
+  widget: ElementBox | null;
+  nearTitle: boolean;
+  aboveFold: boolean;
+}
+
+export function extractSocialProof(args: SocialProofExtractorArgs): SocialProofExtraction {
+  const RATING_TEXT_PATTERN = /(\d(?:[.,]\d+)?)\s*(?:out of 5|\/\s*5|stars?|étoiles?)/i;
+  const COUNT_TEXT_PATTERN = /(\d[\d,.\s]*)\s*(?:reviews?|ratings?|avis)/i;
+  const TITLE_SELECTOR = '.product__title h1, .product__title, .product-title, h1';
+  const dom = window.__croDom!;
+
+  const scriptSources = Array.from(document.querySelectorAll('script'))
+    .map(script => `${script.src} ${script.text}`.toLowerCase());
+
+  const parseNumber = (value: string | null | undefined): number | null => {
+    if (!value) return null;
+    const parsed = parseFloat(value.replace(/[\s,](?=\d{3}\b)/g, '').replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : null;
+  };
+
+  const readAttribute = (widget: Element, attributes: string[]): number | null => {
+    for (const attribute of attributes) {
+      const source = widget.hasAttribute(attribute) ? widget : widget.querySelector(`[${attribute}]`);
+      const value = parseNumber(source?.getAttribute(attribute));
+      if (value !== null) return value;
+    }
+    return null;
+  };
+
+  const readPattern = (widget: Element, pattern: RegExp): number | null =>
+    parseNumber(dom.readText(widget).match(pattern)?.[1]);
+
+  const matches = args.apps.map(app => {
+    const elements = app.widgetSelectors.flatMap(selector => Array.from(document.querySelectorAll(selector)));
+    const widget = elements.find(element => dom.isVisible(element)) ?? null;
+    const detected = elements.length > 0 || app.scriptPatterns.some(pattern => scriptSources.some(source => source.includes(pattern)));
+    const rating = widget ? readAttribute(widget, app.ratingAttributes) ?? readPattern(widget, RATING_TEXT_PATTERN) : null;
+    const reviewCount = widget ? readAttribute(widget, app.countAttributes) ?? readPattern(widget, COUNT_TEXT_PATTERN) : null;
+    return { id: app.id, detected, widget, rating, reviewCount };
+  }).filter(match => match.detected);
+
+  const primary = matches.find(match => match.rating !== null) ??
+    matches.find(match => match.widget !== null) ??
+    matches[0];
+
+  if (!primary?.widget) {
+    return {
+      app: primary?.id ?? null,
+      detectedApps: matches.map(match => match.id),
+      rating: null,
+      reviewCount: null,
+      widget: null,
+      nearTitle: false,
+      aboveFold: false,
+    };
+  }
+
+  const widget = dom.describeBox(primary.widget);
+  const title = Array.from(document.querySelectorAll(TITLE_SELECTOR)).find(element => dom.isVisible(element));
+  let nearTitle = false;
+  if (title) {
+    const titleBox = dom.describeBox(title);
+    const titleBottom = titleBox.position.top + titleBox.size.height;
+    nearTitle = Math.abs(widget.position.top - titleBottom) <= args.maxTitleDistance;
+  }
+
+  return {
+    app: primary.id,
+    detectedApps: matches.map(match => match.id),
+    rating: primary.rating,
+    reviewCount: primary.reviewCount,
+    widget,
+    nearTitle,
+    aboveFold: widget.position.top < args.foldHeight,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Sticky add-to-cart extractor
+ * Runs inside the browser via page.evaluate() after installDomHelpers(), and
+ * after every other extractor because it scrolls the page.
+ *
+ * Scrolls past the main add-to-cart button in viewport-sized steps and checks
+ * after each step whether an add-to-cart control is still fully on screen
+ * (typically a sticky bar or floating button). The main button only counts when
+ * it moved with the scroll. Pages too short to scroll past the main button are
+ * reported with scrolledPast false, as the check means nothing there. Scroll is
+ * reset before returning.
+ */
+
+import type { StickyAddToCart } from '../../../types';
+
+export interface StickyAddToCartExtractorArgs {
+  scrollSteps: number[]; // Multiples of the viewport height to scroll past the main button
+  settleTime: number; // Milliseconds to wait for scroll-triggered UI after each step
+}
+
+export async function extractStickyAddToCart(args: StickyAddToCartExtractorArgs): Promise<StickyAddToCart> {
+  const ATC_SELECTOR = 'form[action*="/cart/add"] [type="submit"], form[action*="/cart/add"] button[name="add"], [data-add-to-cart], .product-form__submit';
+  const BUTTON_SELECTOR = 'button, a[href], [role="button"]';
+  const ATC_TEXT_PATTERN = /add to (cart|bag|basket)|buy (it )?now|ajouter au panier|acheter/i;
+  const dom = window.__croDom!;
+
+  // Product form buttons whatever their label, plus any other button labelled as add-to-cart
+  const candidates = Array.from(document.querySelectorAll(`${ATC_SELECTOR}, ${BUTTON_SELECTOR}`))
+    .filter(element => element.matches(ATC_SELECTOR) || ATC_TEXT_PATTERN.test(dom.readText(element)));
+
+  const main = candidates.find(element => dom.isVisible(element));
+  if (!main) {
+    return { visibleAfterScroll: false, scrolledPast: false, scrollDepth: 0, element: null };
+  }
+
+  const mainTop = dom.describeBox(main).position.top;
+  const mainBottom = mainTop + main.getBoundingClientRect().height;
+
+  // Still where it was before scrolling, rather than pinned to the viewport
+  const isMainInPlace = (element: Element): boolean =>
+    element === main && Math.round(main.getBoundingClientRect().top + window.scrollY) === mainTop;
+
+  const isOnScreen = (element: Element): boolean => {
+    const rect = element.getBoundingClientRect();
+    return dom.isVisible(element) && rect.top >= 0 && rect.bottom <= window.innerHeight;
+  };
+
+  let scrollDepth = 0;
+  let scrolledPast = true;
+  let visible: Element | undefined;
+  for (const step of args.scrollSteps) {
+    window.scrollTo(0, Math.round(mainBottom + window.innerHeight * step));
+    await new Promise(resolve => setTimeout(resolve, args.settleTime));
+    scrollDepth = Math.round(window.scrollY);
+    // Browsers stop at the bottom of the page, which can leave the main button in view
+    if (window.scrollY <= mainBottom) {
+      scrolledPast = false;
+      visible = undefined;
+      break;
+    }
+    visible = candidates.find(element => isOnScreen(element) && !isMainInPlace(element));
+    if (!visible) {
+      break;
+    }
+  }
+
+  const result: StickyAddToCart = {
+    visibleAfterScroll: visible !== undefined,
+    scrolledPast,
+    scrollDepth,
+    element: visible ? { text: dom.readText(visible), ...dom.describeBox(visible) } : null,
+  };
+  window.scrollTo(0, 0);
+  return result;
+}
@@ -0,0 +1,87 @@
+/**
+ * Web vitals extractor
+ * installVitalsObservers() is registered with page.addInitScript() so it runs
+ * before the store's own scripts; it records paints, layout shifts and long
+ * tasks on window.__croVitals. Buffered observers also pick up entries from
+ * before they were created. Entry types the browser does not support are left
+ * out rather than failing the page.
+ *
+ * extractWebVitals() runs via page.evaluate() once the page has loaded and
+ * turns the recorded entries into lab metrics:
+ * - CLS: layout shifts grouped into session windows, the largest window counts
+ * - TBT: time beyond the long task budget of every long task after first paint
+ */
+
+import type { VitalsRecorder, WebVitals } from '../../../types';
+
+export interface WebVitalsExtractorArgs {
+  longTaskBudget: number; // Milliseconds of each long task that do not block input
+  sessionGap: number; // Milliseconds without shifts that close a session window
+  maxSessionLength: number; // Milliseconds after which a session window is closed anyway
+}
+
+export type WebVitalsTimings = Pick<WebVitals, 'fcp' | 'lcp' | 'cls' | 'tbt'>;
+
+export function installVitalsObservers(): void {
+  const recorder: VitalsRecorder = { fcp: null, lcp: null, layoutShifts: [], longTasks: [] };
+  window.__croVitals = recorder;
+
+  const observe = (type: string, callback: PerformanceObserverCallback): void => {
+    try {
+      new PerformanceObserver(callback).observe({ type, buffered: true });
+    } catch {
+      // Entry type not supported by this browser
+    }
+  };
+
+  observe('paint', list => list.getEntries().forEach(entry => {
+    if (entry.name === 'first-contentful-paint') {
+      recorder.fcp = entry.startTime;
+    }
+  }));
+  observe('largest-contentful-paint', list => list.getEntries().forEach(entry => {
+    recorder.lcp = entry.startTime;
+  }));
+  observe('layout-shift', list => list.getEntries().forEach(entry => {
+    const shift = entry as PerformanceEntry & { value: number; hadRecentInput: boolean };
+    if (!shift.hadRecentInput) {
+      recorder.layoutShifts.push({ value: shift.value, startTime: shift.startTime });
+    }
+  }));
+  observe('longtask', list => list.getEntries().forEach(entry => {
+    recorder.longTasks.push({ startTime: entry.startTime, duration: entry.duration });
+  }));
+}
+
+export function extractWebVitals(args: WebVitalsExtractorArgs): WebVitalsTimings | null {
+  const recorder = window.__croVitals;
+  if (!recorder) {
+    return null;
+  }
+
+  let cls = 0;
+  let sessionValue = 0;
+  let sessionStart = -Infinity;
+  let previousShift = -Infinity;
+  for (const shift of recorder.layoutShifts) {
+    if (shift.startTime - previousShift >= args.sessionGap || shift.startTime - sessionStart >= args.maxSessionLength) {
+      sessionValue = 0;
+      sessionStart = shift.startTime;
+    }
+    sessionValue += shift.value;
+    previousShift = shift.startTime;
+    cls = Math.max(cls, sessionValue);
+  }
+
+  const paintedAt = recorder.fcp ?? 0;
+  const tbt = recorder.longTasks
+    .filter(task => task.startTime >= paintedAt)
+    .reduce((total, task) => total + Math.max(0, task.duration - args.longTaskBudget), 0);
+
+  return {
+    fcp: recorder.fcp === null ? null : Math.round(recorder.fcp),
+    lcp: recorder.lcp === null ? null : Math.round(recorder.lcp),
+    cls: Math.round(cls * 10000) / 10000,
+    tbt: Math.round(tbt),
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * Funnel walk
+ * Scripts the purchase path a shopper takes from a product page to the
+ * checkout entry point, in an already open Playwright page:
+ *
+ * 1. product: open the product page
+ * 2. variant: pick an available value in every option picker
+ * 3. add_to_cart: click the add-to-cart button and see what the theme opens
+ *    (a cart drawer, a notification, the cart page, or nothing)
+ * 4. cart: read the cart drawer when it opened, else the /cart page
+ * 5. checkout: click the checkout button and wait for the checkout to load
+ *
+ * Every step records how long it took, the page it ended on, and the uncaught
+ * script errors and failed cart requests seen meanwhile. The time add_to_cart
+ * gives the theme to react (settleTime) is not part of its duration, so a slow
+ * step is the theme's doing rather than the crawler's. A step that fails
+ * skips the rest, so the walk shows where shoppers get stuck. Failures are
+ * recorded, never thrown.
+ */
+
+import type { Page as PlaywrightPage, Response } from 'playwright';
+import type { ExpressPayProvider, FunnelRun, FunnelStep, FunnelStepId } from '../../types';
+import { installDomHelpers } from './extractors/dom-helpers';
+import { clickControl, extractCartView, findCartOverlay, selectVariant } from './extractors/funnel';
+import type { CartSelectors } from './extractors/funnel';
+
+export interface FunnelWalkOptions {
+  timeout: number;
+  waitUntil: 'load' | 'domcontentloaded' | 'networkidle';
+  settleTime: number; // Milliseconds the theme gets to react to the add-to-cart click
+  onCart?: () => Promise<void>; // Runs on the cart view, before heading to checkout
+}
+
+export type FunnelWalk = Omit<FunnelRun, 'device'>;
+
+interface StepClock {
+  pausedMs: number; // Time the running step spent in pauses that do not count towards its duration
+}
+
+export const PRODUCT_FORM = 'form[action*="/cart/add"]';
+
+// Dawn and most Online Store 2.0 themes render option pickers next to the product form
+export const VARIANT_PICKERS = ['variant-radios', 'variant-selects', 'variant-picker', '.product-form__input'];
+
+export const ADD_TO_CART_SELECTORS = [`${PRODUCT_FORM} [type="submit"]`, `${PRODUCT_FORM} button[name="add"]`];
+
+export const CART_SELECTORS: CartSelectors = {
+  drawer: ['cart-drawer', '#CartDrawer', '.cart-drawer', '[data-cart-drawer]', '.drawer--cart'],
+  notification: ['cart-notification', '#cart-notification', '.cart-notification', '[data-cart-notification]'],
+  lineItems: ['.cart-item', '[data-cart-item]', '[id^="CartItem-"]', '[id^="CartDrawer-Item-"]', '.cart__item'],
+  checkout: ['[name="checkout"]', 'a[href*="/checkout"]', '.cart__checkout-button', '#checkout'],
+  upsell: ['product-recommendations', '[class*="upsell"]', '[class*="cross-sell"]', '[data-upsell]'],
+  shippingThreshold: ['[class*="free-shipping"]', '[class*="shipping-bar"]', '[data-free-shipping]'],
+  expressPay: ['shopify-accelerated-checkout-cart', '.additional-checkout-buttons', '[data-shopify="dynamic-checkout-cart"]', '.dynamic-checkout__content'],
+};
+
+const UPSELL_HEADING_PATTERN = 'you may also like|frequently bought|pairs well with|complete the look|recommended for you';
+const SHIPPING_TEXT_PATTERN = 'free (shipping|delivery)';
+
+const EXPRESS_PAY_PATTERNS: Record<Exclude<ExpressPayProvider, 'other'>, string> = {
+  shop_pay: 'shop[ -]?pay',
+  apple_pay: 'apple[ -]?pay',
+  google_pay: 'google[ -]?pay|gpay',
+  paypal: 'paypal',
+  amazon_pay: 'amazon[ -]?pay',
+};
+
+const MAX_TEXT_LENGTH = 160;
+
+const FUNNEL_STEPS: readonly FunnelStepId[] = ['product', 'variant', 'add_to_cart', 'cart', 'checkout'];
+
+// Storefront requests that change the cart: /cart, /cart/add.js, /cart/change.js...
+const CART_REQUEST_PATH = /^\/cart(\/|\.js|$)/;
+const CHECKOUT_PATH = /^(\/\d+)?\/checkouts?(\/|$)/;
+const LOGIN_PATH = /^\/account\/login/;
+
+const OPENED_DETAILS: Record<NonNullable<FunnelRun['opened']>, string> = {
+  drawer: 'Added to cart, the cart drawer opened',
+  notification: 'Added to cart, a cart notification opened',
+  page: 'Added to cart, the cart page opened',
+  none: 'Added to cart without any visible confirmation',
+};
+
+/**
+ * Walk the funnel from a product page in the given page.
+ */
+export async function walkFunnel(page: PlaywrightPage, productUrl: string, options: FunnelWalkOptions): Promise<FunnelWalk> {
+  const errors: string[] = [];
+  page.on('pageerror', error => errors.push(error.message));
+  page.on('response', response => recordCartFailure(response, errors));
+
+  const walk: FunnelWalk = { steps: [], variant: null, opened: null, cart: null, checkoutUrl: null };
+
+  // The theme gets time to react, which is not counted as the step's own
+  const clock: StepClock = { pausedMs: 0 };
+  const pause = async (ms: number) => {
+    const pausedAt = Date.now();
+    await page.waitForTimeout(ms);
+    clock.pausedMs += Date.now() - pausedAt;
+  };
+
+  const actions: Record<FunnelStepId, () => Promise<string>> = {
+    product: async () => {
+      await load(page, productUrl, options);
+      return 'Opened the product page';
+    },
+    variant: async () => {
+      const selection = await page.evaluate(selectVariant, { form: PRODUCT_FORM, pickers: VARIANT_PICKERS });
+      if (!selection.formFound) {
+        throw new Error('No add-to-cart form on the product page');
+      }
+      walk.variant = selection.label;
+      return selection.label ? `Picked ${selection.label}` : 'Nothing to pick, the product has a single variant';
+    },
+    add_to_cart: async () => {
+      await page.evaluate(installDomHelpers);
+      const button = await page.evaluate(clickControl, { selectors: ADD_TO_CART_SELECTORS, drawer: null });
+      if (!button) {
+        throw new Error('No visible add-to-cart button');
+      }
+      if (button.disabled) {
+        throw new Error(`The add-to-cart button "${button.text}" is disabled`);
+      }
+      await pause(options.settleTime);
+      await page.waitForLoadState('load', { timeout: options.timeout });
+      walk.opened = isCartPage(page.url()) ? 'page' : await findOverlay(page);
+      return OPENED_DETAILS[walk.opened];
+    },
+    cart: async () => {
+      if (walk.opened !== 'drawer' && walk.opened !== 'page') {
+        await load(page, new URL('/cart', productUrl).toString(), options);
+      }
+      await page.evaluate(installDomHelpers);
+      const cart = await page.evaluate(extractCartView, {
+        view: walk.opened === 'drawer' ? 'drawer' as const : 'page' as const,
+        selectors: CART_SELECTORS,
+        upsellHeadingPattern: UPSELL_HEADING_PATTERN,
+        shippingTextPattern: SHIPPING_TEXT_PATTERN,
+        expressPayPatterns: EXPRESS_PAY_PATTERNS,
+        maxTextLength: MAX_TEXT_LENGTH,
+      });
+      walk.cart = cart;
+      await options.onCart?.();
+      if (cart.itemCount === 0) {
+        throw new Error('The cart is empty after adding the product');
+      }
+      return `${cart.itemCount} item${cart.itemCount === 1 ? '' : 's'} in the cart ${cart.view}`;
+    },
+    checkout: async () => {
+      const button = await page.evaluate(clickControl, {
+        selectors: CART_SELECTORS.checkout,
+        drawer: walk.cart?.view === 'drawer' ? CART_SELECTORS.drawer : null,
+      });
+      if (!button) {
+        throw new Error('No visible checkout button in the cart');
+      }
+      if (button.disabled) {
+        throw new Error(`The checkout button "${button.text}" is disabled`);
+      }
+      await page.waitForURL(url => CHECKOUT_PATH.test(url.pathname) || LOGIN_PATH.test(url.pathname), {
+        timeout: options.timeout,
+        waitUntil: 'commit',
+      });
+      if (LOGIN_PATH.test(new URL(page.url()).pathname)) {
+        throw new Error('Checkout asked shoppers to log in');
+      }
+      walk.checkoutUrl = page.url();
+      return 'Reached the checkout';
+    },
+  };
+
+  for (const step of FUNNEL_STEPS) {
+    walk.steps.push(walk.steps.some(previous => previous.status !== 'passed')
+      ? { step, status: 'skipped', durationMs: 0, url: null, errors: [], detail: null }
+      : await runStep(page, step, actions[step], errors, clock));
+  }
+  return walk;
+}
+
+// Private helper methods for cleaner code organization
+
+async function runStep(page: PlaywrightPage, step: FunnelStepId, action: () => Promise<string>, errors: string[], clock: StepClock): Promise<FunnelStep> {
+  const startedAt = Date.now();
+  const seenErrors = errors.length;
+  clock.pausedMs = 0;
+  let status: FunnelStep['status'] = 'passed';
+  let detail: string;
+  try {
+    detail = await action();
+  } catch (error) {
+    status = 'failed';
+    detail = describeFailure(error);
+  }
+  return { step, status, durationMs: Date.now() - startedAt - clock.pausedMs, url: page.url(), errors: errors.slice(seenErrors), detail };
+}
+
+async function load(page: PlaywrightPage, url: string, options: FunnelWalkOptions): Promise<void> {
+  const response = await page.goto(url, { timeout: options.timeout, waitUntil: options.waitUntil });
+  if (!response || !response.ok()) {
+    throw new Error(`Failed to load ${url}: HTTP ${response ? response.status() : 'no response'}`);
+  }
+}
+
+async function findOverlay(page: PlaywrightPage): Promise<'drawer' | 'notification' | 'none'> {
+  await page.evaluate(installDomHelpers);
+  return page.evaluate(findCartOverlay, { drawer: CART_SELECTORS.drawer, notification: CART_SELECTORS.notification });
+}
+
+function recordCartFailure(response: Response, errors: string[]): void {
+  const { pathname } = new URL(response.url());
+  if (response.status() >= 400 && CART_REQUEST_PATH.test(pathname)) {
+    errors.push(`HTTP ${response.status()} from ${pathname}`);
+  }
+}
+
+function isCartPage(url: string): boolean {
+  return new URL(url).pathname === '/cart';
+}
+
+function describeFailure(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
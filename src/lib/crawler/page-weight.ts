@@ -0,0 +1,75 @@
+/**
+ * Page weight
+ * Totals the bytes a page transferred, by resource type, and groups the
+ * third-party scripts by the app that loaded them (see third-party-apps).
+ * Requests to the store's own host and to Shopify are first-party; any other
+ * host is third-party, and scripts from hosts no signature knows are grouped
+ * by host so heavy unknown tags still show up.
+ */
+
+import type { AppScriptWeight } from '../../types';
+import { findThirdPartyApp, matchesHost } from './third-party-apps';
+
+const SHOPIFY_HOSTS = ['shopify.com', 'shopifycdn.com', 'shopifycdn.net', 'myshopify.com'];
+
+export interface NetworkResource {
+  url: string;
+  type: string; // DevTools resource type, e.g. Document, Script, Image, Stylesheet
+  bytes: number; // Transferred (compressed) bytes
+}
+
+export interface PageWeight {
+  totalBytes: number;
+  jsBytes: number;
+  imageBytes: number;
+  thirdPartyScriptBytes: number;
+  apps: AppScriptWeight[]; // Heaviest first
+}
+
+export function summarizePageWeight(resources: NetworkResource[], pageUrl: string): PageWeight {
+  const pageHost = readHost(pageUrl);
+  const apps = new Map<string, AppScriptWeight>();
+  const weight: PageWeight = { totalBytes: 0, jsBytes: 0, imageBytes: 0, thirdPartyScriptBytes: 0, apps: [] };
+
+  for (const resource of resources) {
+    weight.totalBytes += resource.bytes;
+    if (resource.type === 'Image') {
+      weight.imageBytes += resource.bytes;
+    }
+    if (resource.type !== 'Script') {
+      continue;
+    }
+
+    weight.jsBytes += resource.bytes;
+    const host = readHost(resource.url);
+    if (!host || isFirstParty(host, pageHost)) {
+      continue;
+    }
+
+    weight.thirdPartyScriptBytes += resource.bytes;
+    const app = findThirdPartyApp(host);
+    const key = app?.id ?? host;
+    const entry = apps.get(key) ?? { app: app?.id ?? null, name: app?.name ?? host, hosts: [], bytes: 0, requests: 0 };
+    if (!entry.hosts.includes(host)) {
+      entry.hosts.push(host);
+    }
+    entry.bytes += resource.bytes;
+    entry.requests += 1;
+    apps.set(key, entry);
+  }
+
+  weight.apps = Array.from(apps.values()).sort((a, b) => b.bytes - a.bytes || a.name.localeCompare(b.name));
+  return weight;
+}
+
+// Private helper methods for cleaner code organization
+
+// URLs come from the browser, so they always parse; data: and blob: URLs have no host
+function readHost(url: string): string | null {
+  const { protocol, hostname } = new URL(url);
+  return protocol === 'http:' || protocol === 'https:' ? hostname : null;
+}
+
+function isFirstParty(host: string, pageHost: string | null): boolean {
+  return host === pageHost || SHOPIFY_HOSTS.some(candidate => matchesHost(host, candidate));
+}
@@ -0,0 +1,76 @@
+/**
+ * Review app signatures
+ * DOM and script fingerprints of the Shopify review apps we recognise, plus the
+ * settings merchants should look at when the widget is badly placed. Passed to
+ * the social proof extractor as its argument, so entries must stay serialisable.
+ */
+
+import type { ReviewApp } from '../../types';
+
+export interface ReviewAppSignature {
+  id: ReviewApp;
+  name: string;
+  widgetSelectors: string[];
+  scriptPatterns: string[];
+  ratingAttributes: string[];
+  countAttributes: string[];
+  themePatterns: string[]; // Found in the snippets and app block types of an uploaded theme
+  configurationHint: string;
+}
+
+export const REVIEW_APP_SIGNATURES: readonly ReviewAppSignature[] = [
+  {
+    id: 'judgeme',
+    name: 'Judge.me',
+    widgetSelectors: ['.jdgm-prev-badge', '.jdgm-widget', '.jdgm-preview-badge'],
+    scriptPatterns: ['judge.me', 'judgeme'],
+    ratingAttributes: ['data-average-rating'],
+    countAttributes: ['data-number-of-reviews'],
+    themePatterns: ['judge-me', 'judgeme', 'jdgm-'],
+    configurationHint: 'Judge.me > Settings > Widgets > Star Rating Badge: enable "Show on product page" and place the app block under the product title in the theme editor',
+  },
+  {
+    id: 'yotpo',
+    name: 'Yotpo',
+    widgetSelectors: ['.yotpo-bottomline', '.yotpo-widget-instance', '.yotpo'],
+    scriptPatterns: ['yotpo.com'],
+    ratingAttributes: ['data-rating', 'data-yotpo-rating'],
+    countAttributes: ['data-reviews-count', 'data-yotpo-reviews-count'],
+    themePatterns: ['yotpo'],
+    configurationHint: 'Yotpo > Display > On-site widgets > Star Rating: add the "Yotpo Star Rating" app block directly below the product title',
+  },
+  {
+    id: 'loox',
+    name: 'Loox',
+    widgetSelectors: ['.loox-rating', '#looxReviews'],
+    scriptPatterns: ['loox.io'],
+    ratingAttributes: ['data-rating'],
+    countAttributes: ['data-raters'],
+    themePatterns: ['loox'],
+    configurationHint: 'Loox > Settings > Widgets > Product page star rating: enable it and move the "Loox Star Rating" app block under the product title',
+  },
+  {
+    id: 'okendo',
+    name: 'Okendo',
+    widgetSelectors: ['[data-oke-star-rating]', '.okeReviews', '[data-oke-reviews-widget]'],
+    scriptPatterns: ['okendo.io'],
+    ratingAttributes: ['data-oke-rating', 'data-rating'],
+    countAttributes: ['data-oke-review-count', 'data-review-count'],
+    themePatterns: ['okendo', 'data-oke-'],
+    configurationHint: 'Okendo > Reviews > Widgets > Star Rating: enable the "Okendo Star Rating" app block and position it beneath the product title',
+  },
+  {
+    id: 'shopify_reviews',
+    name: 'Shopify Product Reviews',
+    widgetSelectors: ['.spr-badge', '#shopify-product-reviews'],
+    scriptPatterns: ['productreviews.shopifycdn.com'],
+    ratingAttributes: ['data-rating'],
+    countAttributes: ['data-number-of-reviews'],
+    themePatterns: ['shopify://apps/product-reviews/', 'spr-badge', 'shopify-product-reviews'],
+    configurationHint: 'Shopify Product Reviews is deprecated: migrate to a supported review app, then add its star rating block below the product title',
+  },
+];
+
+export function getReviewAppSignature(id: ReviewApp): ReviewAppSignature {
+  return REVIEW_APP_SIGNATURES.find(signature => signature.id === id)!;
+}
@@ -0,0 +1,581 @@
+/**
+ * Shopify Crawler
+ * Loads a storefront page in Playwright (Chromium) and turns it into PageMetrics
+ * that the heuristic rules can analyse.
+ *
+ * Every page is loaded once per device profile (desktop and mobile by default).
+ * The first profile is the primary one: its metrics fill the top-level fields,
+ * while PageMetrics.viewports keeps the fold, sticky add-to-cart and product
+ * grid data per device.
+ *
+ * Each device also yields a full-page JPEG screenshot in CSS pixels, so element
+ * boxes in the metrics map 1:1 onto it, and a thumbnail of the part above the
+ * fold. Screenshots are best effort: a page that cannot be captured still crawls.
+ * The theme is detected from the primary device's HTML.
+ *
+ * Web vitals (LCP, CLS, TBT) and page weight are measured on one profile, the
+ * mobile one when it is crawled, under the throttling of a mid-range phone on
+ * slow 4G (MOBILE_THROTTLING), and end up in PageMetrics.performance.vitals.
+ * They get a throttled load of their own after the captures, so loadTime and
+ * the extracted metrics of every profile come from an unthrottled load.
+ * Throttling and network accounting go through the DevTools protocol, so a
+ * browser without it still crawls, just without vitals; like screenshots, the
+ * measurement is best effort.
+ *
+ * crawlFunnel() walks the purchase path from a product page to the checkout
+ * entry point on every profile (see funnel.ts). It yields the cart as the
+ * primary device saw it, with each device's walk in PageMetrics.funnel; the
+ * cart step's duration stands in for the load time.
+ *
+ * Failures are always surfaced as CrawlerError:
+ * - INVALID_URL: the URL cannot be parsed or is not http(s)
+ * - TIMEOUT: navigation did not finish within the configured timeout
+ * - NETWORK_ERROR: the page could not be reached or answered with an error status
+ * - PARSE_ERROR: the extracted metrics do not match PageMetricsSchema
+ */
+
+import { chromium } from 'playwright';
+import type { Browser, BrowserContext, CDPSession, Page as PlaywrightPage } from 'playwright';
+import { CrawlerError, PageMetricsSchema } from '../../types';
+import type { AboveFoldMetrics, Device, FunnelRun, PageMetrics, PageType, ThemeInfo, WebVitals } from '../../types';
+import { detectTheme } from '../themes/detection';
+import { installDomHelpers } from './extractors/dom-helpers';
+import { extractAccessibility, extractTapTargets } from './extractors/accessibility';
+import { extractAboveFold } from './extractors/above-fold';
+import { extractCollection } from './extractors/collection';
+import { extractProduct } from './extractors/product';
+import { extractSocialProof } from './extractors/social-proof';
+import { extractStickyAddToCart } from './extractors/sticky-add-to-cart';
+import { extractWebVitals, installVitalsObservers } from './extractors/web-vitals';
+import { walkFunnel } from './funnel';
+import { summarizePageWeight } from './page-weight';
+import type { NetworkResource } from './page-weight';
+import { REVIEW_APP_SIGNATURES } from './review-apps';
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export interface DeviceProfile {
+  device: Device;
+  viewport: ViewportSize;
+  userAgent?: string;
+  isMobile: boolean;
+  hasTouch: boolean;
+  deviceScaleFactor: number;
+}
+
+export interface ThrottlingProfile {
+  latency: number; // Added round trip time in milliseconds
+  downloadThroughput: number; // Bytes per second
+  uploadThroughput: number; // Bytes per second
+  cpuSlowdown: number; // CPU slowdown factor, 1 for none
+}
+
+export interface ShopifyCrawlerOptions {
+  viewport?: ViewportSize; // Overrides the desktop profile viewport
+  timeout?: number;
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle';
+  userAgent?: string; // Overrides the desktop profile user agent
+  devices?: Device[]; // Profiles to crawl, primary first
+  scrollSettleTime?: number;
+  screenshots?: boolean; // Capture screenshots, on by default
+  webVitals?: boolean; // Measure web vitals and page weight, on by default
+  throttling?: ThrottlingProfile; // Conditions web vitals are measured under
+  cartSettleTime?: number; // Milliseconds the theme gets to open its cart after add-to-cart
+  launchBrowser?: () => Promise<Browser>;
+}
+
+interface ExtractedMetrics {
+  page: Record<string, unknown>; // Top-level PageMetrics fields
+  device: Record<string, unknown>; // DeviceMetrics for this profile
+}
+
+interface DeviceCapture extends ExtractedMetrics {
+  profile: DeviceProfile;
+  loadTime: number;
+  finalUrl: string;
+  html: string;
+  screenshot: PageScreenshotCapture | null;
+}
+
+interface FunnelCapture {
+  profile: DeviceProfile;
+  run: FunnelRun;
+  aboveFold: AboveFoldMetrics; // Of the cart view, empty when the walk did not get there
+  finalUrl: string | null; // Cart page or page the drawer opened on
+  html: string;
+  screenshot: PageScreenshotCapture | null;
+}
+
+interface VitalsMeasurement {
+  session: CDPSession;
+  responses: Map<string, Omit<NetworkResource, 'bytes'>>; // By request id
+  transferred: Map<string, number>; // Bytes of the requests that finished loading, by request id
+}
+
+export interface PageScreenshotCapture {
+  device: Device;
+  width: number; // Captured page size in CSS pixels
+  height: number;
+  contentType: string; // Of both images
+  image: Buffer; // Full page
+  thumbnail: Buffer; // Above the fold, THUMBNAIL_WIDTH wide
+}
+
+export interface CrawlPageResult {
+  url: string;
+  finalUrl: string;
+  html: string;
+  metrics: PageMetrics;
+  theme: ThemeInfo | null; // Detected in the primary device's HTML
+  screenshots: PageScreenshotCapture[];
+  crawledAt: Date;
+}
+
+export class ShopifyCrawler {
+  // Crawler configuration constants
+  public static readonly DEFAULT_VIEWPORT: ViewportSize = { width: 1440, height: 900 };
+  public static readonly DEFAULT_TIMEOUT = 30000;
+  public static readonly DEFAULT_DEVICES: readonly Device[] = ['desktop', 'mobile'];
+  public static readonly DEVICE_PROFILES: Readonly<Record<Device, DeviceProfile>> = {
+    desktop: {
+      device: 'desktop',
+      viewport: ShopifyCrawler.DEFAULT_VIEWPORT,
+      isMobile: false,
+      hasTouch: false,
+      deviceScaleFactor: 1,
+    },
+    mobile: {
+      device: 'mobile',
+      viewport: { width: 390, height: 844 },
+      userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+      isMobile: true,
+      hasTouch: true,
+      deviceScaleFactor: 3,
+    },
+  };
+  public static readonly DEFAULT_SCROLL_SETTLE_TIME = 300;
+  public static readonly DEFAULT_CART_SETTLE_TIME = 1500;
+  // Lighthouse's mobile preset: slow 4G and a 4x slower CPU
+  public static readonly MOBILE_THROTTLING: ThrottlingProfile = {
+    latency: 150,
+    downloadThroughput: (1.6 * 1024 * 1024) / 8,
+    uploadThroughput: (750 * 1024) / 8,
+    cpuSlowdown: 4,
+  };
+  public static readonly SCREENSHOT_CONTENT_TYPE = 'image/jpeg';
+  public static readonly THUMBNAIL_WIDTH = 320;
+  private static readonly SCREENSHOT_QUALITY = 80;
+  private static readonly MAX_SCREENSHOT_HEIGHT = 12000; // Long pages are cut here to keep images a sane size
+  private static readonly MIN_PROMINENT_WIDTH = 120;
+  private static readonly MIN_PROMINENT_HEIGHT = 35;
+  private static readonly MAX_RATING_TITLE_DISTANCE = 150;
+  private static readonly MAX_COLLECTION_CARDS = 24;
+  private static readonly STICKY_SCROLL_STEPS = [1, 2];
+  private static readonly MIN_TAP_TARGET_SIZE = 24;
+  private static readonly MAX_ACCESSIBILITY_ISSUES = 20;
+  private static readonly LONG_TASK_BUDGET = 50;
+  private static readonly CLS_SESSION_GAP = 1000;
+  private static readonly CLS_MAX_SESSION_LENGTH = 5000;
+
+  private readonly profiles: DeviceProfile[];
+  private readonly timeout: number;
+  private readonly waitUntil: 'load' | 'domcontentloaded' | 'networkidle';
+  private readonly scrollSettleTime: number;
+  private readonly cartSettleTime: number;
+  private readonly screenshots: boolean;
+  private readonly vitalsDevice: Device | null; // Profile web vitals are measured on, null when turned off
+  private readonly throttling: ThrottlingProfile;
+  private readonly launchBrowser: () => Promise<Browser>;
+  private browser: Browser | null = null;
+
+  constructor(options: ShopifyCrawlerOptions = {}) {
+    const devices = options.devices?.length ? options.devices : ShopifyCrawler.DEFAULT_DEVICES;
+    this.profiles = devices.map(device => this.resolveProfile(device, options));
+    this.timeout = options.timeout ?? ShopifyCrawler.DEFAULT_TIMEOUT;
+    this.waitUntil = options.waitUntil ?? 'load';
+    this.scrollSettleTime = options.scrollSettleTime ?? ShopifyCrawler.DEFAULT_SCROLL_SETTLE_TIME;
+    this.cartSettleTime = options.cartSettleTime ?? ShopifyCrawler.DEFAULT_CART_SETTLE_TIME;
+    this.screenshots = options.screenshots ?? true;
+    this.vitalsDevice = options.webVitals === false ? null : devices.includes('mobile') ? 'mobile' : devices[0]!;
+    this.throttling = options.throttling ?? ShopifyCrawler.MOBILE_THROTTLING;
+    this.launchBrowser = options.launchBrowser ?? (() => chromium.launch({ headless: true }));
+  }
+
+  /**
+   * Crawl a single storefront URL and extract its metrics.
+   * Page-type specific metrics (e.g. product pricing, reviews) are only collected when the type is known.
+   */
+  async crawlPage(url: string, pageType?: PageType): Promise<CrawlPageResult> {
+    const targetUrl = this.validateUrl(url);
+    const browser = await this.getBrowser();
+
+    const captures: DeviceCapture[] = [];
+    for (const profile of this.profiles) {
+      captures.push(await this.capturePage(browser, profile, targetUrl, pageType, captures.length === 0));
+    }
+
+    const vitalsProfile = this.profiles.find(profile => profile.device === this.vitalsDevice);
+    const vitals = vitalsProfile ? await this.measureVitals(browser, vitalsProfile, targetUrl) : null;
+
+    const primary = captures[0]!;
+    const viewports = Object.fromEntries(captures.map(capture => [capture.profile.device, capture.device]));
+    const performance = { loadTime: primary.loadTime, ...(vitals ? { vitals } : {}) };
+
+    return {
+      url: targetUrl,
+      finalUrl: primary.finalUrl,
+      html: primary.html,
+      metrics: this.parseMetrics(targetUrl, { ...primary.page, performance, viewports }),
+      theme: detectTheme(primary.html, pageType),
+      screenshots: captures.flatMap(capture => (capture.screenshot ? [capture.screenshot] : [])),
+      crawledAt: new Date(),
+    };
+  }
+
+  /**
+   * Walk from a product page through add-to-cart and the cart to the checkout entry point.
+   * Returns the cart page; steps that fail are recorded in metrics.funnel rather than thrown.
+   */
+  async crawlFunnel(productUrl: string): Promise<CrawlPageResult> {
+    const targetUrl = this.validateUrl(productUrl);
+    const browser = await this.getBrowser();
+
+    const captures: FunnelCapture[] = [];
+    for (const profile of this.profiles) {
+      captures.push(await this.captureFunnel(browser, profile, targetUrl, captures.length === 0));
+    }
+
+    const primary = captures[0]!;
+    const cartUrl = new URL('/cart', targetUrl).toString();
+    const cartStep = primary.run.steps.find(step => step.step === 'cart')!;
+    const viewports = Object.fromEntries(captures.map(capture => [
+      capture.profile.device,
+      { viewport: capture.profile.viewport, aboveFold: capture.aboveFold },
+    ]));
+
+    return {
+      url: cartUrl,
+      finalUrl: primary.finalUrl ?? cartUrl,
+      html: primary.html,
+      metrics: this.parseMetrics(cartUrl, {
+        aboveFold: primary.aboveFold,
+        performance: { loadTime: cartStep.durationMs },
+        funnel: { productUrl: targetUrl, runs: captures.map(capture => capture.run) },
+        viewports,
+      }),
+      theme: detectTheme(primary.html, 'cart'),
+      screenshots: captures.flatMap(capture => (capture.screenshot ? [capture.screenshot] : [])),
+      crawledAt: new Date(),
+    };
+  }
+
+  /**
+   * Release the underlying browser. Safe to call more than once.
+   */
+  async close(): Promise<void> {
+    if (this.browser) {
+      const browser = this.browser;
+      this.browser = null;
+      await browser.close();
+    }
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private validateUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new CrawlerError(`Invalid URL: ${url}`, 'INVALID_URL', url);
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new CrawlerError(`Unsupported protocol: ${parsed.protocol}`, 'INVALID_URL', url);
+    }
+
+    return parsed.toString();
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      this.browser = await this.launchBrowser();
+    }
+    return this.browser;
+  }
+
+  private resolveProfile(device: Device, options: ShopifyCrawlerOptions): DeviceProfile {
+    const profile = ShopifyCrawler.DEVICE_PROFILES[device];
+    if (device !== 'desktop') {
+      return profile;
+    }
+    return {
+      ...profile,
+      ...(options.viewport ? { viewport: options.viewport } : {}),
+      ...(options.userAgent ? { userAgent: options.userAgent } : {}),
+    };
+  }
+
+  private createContext(browser: Browser, profile: DeviceProfile): Promise<BrowserContext> {
+    return browser.newContext({
+      viewport: profile.viewport,
+      isMobile: profile.isMobile,
+      hasTouch: profile.hasTouch,
+      deviceScaleFactor: profile.deviceScaleFactor,
+      ...(profile.userAgent ? { userAgent: profile.userAgent } : {}),
+    });
+  }
+
+  private async capturePage(
+    browser: Browser,
+    profile: DeviceProfile,
+    url: string,
+    pageType: PageType | undefined,
+    primary: boolean
+  ): Promise<DeviceCapture> {
+    const context = await this.createContext(browser, profile);
+
+    try {
+      const page = await context.newPage();
+      const loadTime = await this.navigate(page, url);
+      const extracted = await this.extractPageMetrics(page, url, profile, pageType, primary);
+
+      return {
+        profile,
+        loadTime,
+        finalUrl: page.url(),
+        html: primary ? await page.content() : '',
+        screenshot: this.screenshots ? await this.captureScreenshot(context, page, profile) : null,
+        ...extracted,
+      };
+    } finally {
+      await context.close();
+    }
+  }
+
+  // The cart view is captured from inside the walk, before the checkout click leaves it
+  private async captureFunnel(browser: Browser, profile: DeviceProfile, url: string, primary: boolean): Promise<FunnelCapture> {
+    const context = await this.createContext(browser, profile);
+
+    try {
+      const page = await context.newPage();
+      const capture: Omit<FunnelCapture, 'run'> = {
+        profile,
+        aboveFold: { ctaButtons: [], height: profile.viewport.height },
+        finalUrl: null,
+        html: '',
+        screenshot: null,
+      };
+      const walk = await walkFunnel(page, url, {
+        timeout: this.timeout,
+        waitUntil: this.waitUntil,
+        settleTime: this.cartSettleTime,
+        onCart: async () => {
+          capture.finalUrl = page.url();
+          capture.html = primary ? await page.content() : '';
+          capture.aboveFold = await page.evaluate(extractAboveFold, {
+            foldHeight: profile.viewport.height,
+            minProminentWidth: ShopifyCrawler.MIN_PROMINENT_WIDTH,
+            minProminentHeight: ShopifyCrawler.MIN_PROMINENT_HEIGHT,
+          });
+          capture.screenshot = this.screenshots ? await this.captureScreenshot(context, page, profile) : null;
+        },
+      });
+
+      return { ...capture, run: { device: profile.device, ...walk } };
+    } finally {
+      await context.close();
+    }
+  }
+
+  // A throttled load in a context of its own; null when the browser cannot be throttled or the load fails
+  private async measureVitals(browser: Browser, profile: DeviceProfile, url: string): Promise<WebVitals | null> {
+    const context = await this.createContext(browser, profile);
+
+    try {
+      const page = await context.newPage();
+      const measurement = await this.startVitalsMeasurement(context, page);
+      if (!measurement) {
+        return null;
+      }
+      await this.navigate(page, url);
+      return await this.readWebVitals(page, measurement, profile);
+    } catch {
+      return null;
+    } finally {
+      await context.close();
+    }
+  }
+
+  // Throttles the page and records what it downloads; null when the browser cannot be throttled
+  private async startVitalsMeasurement(context: BrowserContext, page: PlaywrightPage): Promise<VitalsMeasurement | null> {
+    const { latency, downloadThroughput, uploadThroughput, cpuSlowdown } = this.throttling;
+    try {
+      const session = await context.newCDPSession(page);
+      const measurement: VitalsMeasurement = { session, responses: new Map(), transferred: new Map() };
+      session.on('Network.responseReceived', event => {
+        measurement.responses.set(event.requestId, { url: event.response.url, type: event.type });
+      });
+      session.on('Network.loadingFinished', event => {
+        measurement.transferred.set(event.requestId, event.encodedDataLength);
+      });
+      await session.send('Network.enable');
+      await session.send('Network.emulateNetworkConditions', { offline: false, latency, downloadThroughput, uploadThroughput });
+      await session.send('Emulation.setCPUThrottlingRate', { rate: cpuSlowdown });
+      await page.addInitScript(installVitalsObservers);
+      return measurement;
+    } catch {
+      return null;
+    }
+  }
+
+  // Detaching lifts the throttling before the timings are read
+  private async readWebVitals(page: PlaywrightPage, measurement: VitalsMeasurement, profile: DeviceProfile): Promise<WebVitals | null> {
+    try {
+      await measurement.session.detach();
+      const timings = await page.evaluate(extractWebVitals, {
+        longTaskBudget: ShopifyCrawler.LONG_TASK_BUDGET,
+        sessionGap: ShopifyCrawler.CLS_SESSION_GAP,
+        maxSessionLength: ShopifyCrawler.CLS_MAX_SESSION_LENGTH,
+      });
+      if (!timings) {
+        return null;
+      }
+
+      // Requests still loading at this point have no transferred size yet and are left out
+      const resources = Array.from(measurement.responses).flatMap(([requestId, response]) => {
+        const bytes = measurement.transferred.get(requestId);
+        return bytes === undefined ? [] : [{ ...response, bytes }];
+      });
+      return { device: profile.device, ...timings, ...summarizePageWeight(resources, page.url()) };
+    } catch {
+      return null;
+    }
+  }
+
+  private async navigate(page: PlaywrightPage, url: string): Promise<number> {
+    const startedAt = Date.now();
+
+    let response;
+    try {
+      response = await page.goto(url, { timeout: this.timeout, waitUntil: this.waitUntil });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new CrawlerError(`Timed out after ${this.timeout}ms loading ${url}`, 'TIMEOUT', url);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CrawlerError(`Failed to load ${url}: ${message}`, 'NETWORK_ERROR', url);
+    }
+
+    if (!response || !response.ok()) {
+      const status = response ? response.status() : 'no response';
+      throw new CrawlerError(`Failed to load ${url}: HTTP ${status}`, 'NETWORK_ERROR', url);
+    }
+
+    return Date.now() - startedAt;
+  }
+
+  private async extractPageMetrics(
+    page: PlaywrightPage,
+    url: string,
+    profile: DeviceProfile,
+    pageType: PageType | undefined,
+    primary: boolean
+  ): Promise<ExtractedMetrics> {
+    const foldHeight = profile.viewport.height;
+    try {
+      await page.evaluate(installDomHelpers);
+      const aboveFold = await page.evaluate(extractAboveFold, {
+        foldHeight,
+        minProminentWidth: ShopifyCrawler.MIN_PROMINENT_WIDTH,
+        minProminentHeight: ShopifyCrawler.MIN_PROMINENT_HEIGHT,
+      });
+      const tapTargets = await page.evaluate(extractTapTargets, {
+        minSize: ShopifyCrawler.MIN_TAP_TARGET_SIZE,
+        maxIssues: ShopifyCrawler.MAX_ACCESSIBILITY_ISSUES,
+      });
+      const extracted: ExtractedMetrics = {
+        page: { aboveFold },
+        device: { viewport: profile.viewport, aboveFold, tapTargets },
+      };
+      if (primary) {
+        extracted.page.accessibility = await page.evaluate(extractAccessibility, {
+          maxIssues: ShopifyCrawler.MAX_ACCESSIBILITY_ISSUES,
+        });
+      }
+      if (pageType === 'product' && primary) {
+        extracted.page.product = await page.evaluate(extractProduct, { foldHeight });
+        extracted.page.socialProof = await page.evaluate(extractSocialProof, {
+          foldHeight,
+          maxTitleDistance: ShopifyCrawler.MAX_RATING_TITLE_DISTANCE,
+          apps: [...REVIEW_APP_SIGNATURES],
+        });
+      }
+      if (pageType === 'collection') {
+        const collection = await page.evaluate(extractCollection, {
+          foldHeight,
+          maxCards: ShopifyCrawler.MAX_COLLECTION_CARDS,
+        });
+        extracted.device.productGrid = collection.grid;
+        if (primary) {
+          extracted.page.collection = collection;
+        }
+      }
+      // Scrolls the page, so it has to run last
+      if (pageType === 'product') {
+        extracted.device.stickyAddToCart = await page.evaluate(extractStickyAddToCart, {
+          scrollSteps: ShopifyCrawler.STICKY_SCROLL_STEPS,
+          settleTime: this.scrollSettleTime,
+        });
+      }
+      return extracted;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CrawlerError(`Failed to extract metrics from ${url}: ${message}`, 'PARSE_ERROR', url);
+    }
+  }
+
+  private async captureScreenshot(context: BrowserContext, page: PlaywrightPage, profile: DeviceProfile): Promise<PageScreenshotCapture | null> {
+    const { viewport } = profile;
+    const jpeg = { type: 'jpeg', quality: ShopifyCrawler.SCREENSHOT_QUALITY, scale: 'css' } as const;
+    try {
+      const measured = await page.evaluate(() => ({
+        width: document.documentElement.clientWidth,
+        height: document.documentElement.scrollHeight,
+      }));
+      const width = measured.width || viewport.width;
+      const height = Math.min(Math.max(measured.height, viewport.height), ShopifyCrawler.MAX_SCREENSHOT_HEIGHT);
+      const image = await page.screenshot({ ...jpeg, fullPage: true, clip: { x: 0, y: 0, width, height } });
+      const fold = await page.screenshot(jpeg);
+
+      // Chromium scales the fold capture down in a blank page, away from the store's CSP
+      const thumbnailHeight = Math.round((ShopifyCrawler.THUMBNAIL_WIDTH * viewport.height) / viewport.width);
+      const thumbnailPage = await context.newPage();
+      await thumbnailPage.setContent(
+        `<body style="margin:0"><img src="data:image/jpeg;base64,${fold.toString('base64')}" style="display:block;width:${ShopifyCrawler.THUMBNAIL_WIDTH}px"></body>`,
+        { waitUntil: 'load' }
+      );
+      const thumbnail = await thumbnailPage.screenshot({
+        ...jpeg,
+        clip: { x: 0, y: 0, width: ShopifyCrawler.THUMBNAIL_WIDTH, height: thumbnailHeight },
+      });
+
+      return { device: profile.device, width, height, contentType: ShopifyCrawler.SCREENSHOT_CONTENT_TYPE, image, thumbnail };
+    } catch {
+      return null;
+    }
+  }
+
+  private parseMetrics(url: string, extracted: Record<string, unknown>): PageMetrics {
+    const parsed = PageMetricsSchema.safeParse(extracted);
+
+    if (!parsed.success) {
+      throw new CrawlerError(`Invalid page metrics for ${url}: ${parsed.error.message}`, 'PARSE_ERROR', url);
+    }
+
+    return parsed.data;
+  }
+}
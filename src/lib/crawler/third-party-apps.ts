@@ -0,0 +1,42 @@
+/**
+ * Third-party app signatures
+ * Script hosts of the Shopify apps and marketing tags we recognise, used to put
+ * a name on the third-party JavaScript a storefront downloads. A host matches
+ * a signature when it is one of its hosts or a subdomain of one.
+ */
+
+export interface ThirdPartyAppSignature {
+  id: string;
+  name: string;
+  hosts: string[];
+}
+
+export const THIRD_PARTY_APP_SIGNATURES: readonly ThirdPartyAppSignature[] = [
+  { id: 'klaviyo', name: 'Klaviyo', hosts: ['klaviyo.com'] },
+  { id: 'judgeme', name: 'Judge.me', hosts: ['judge.me'] },
+  { id: 'yotpo', name: 'Yotpo', hosts: ['yotpo.com'] },
+  { id: 'loox', name: 'Loox', hosts: ['loox.io'] },
+  { id: 'okendo', name: 'Okendo', hosts: ['okendo.io'] },
+  { id: 'privy', name: 'Privy', hosts: ['privy.com'] },
+  { id: 'gorgias', name: 'Gorgias', hosts: ['gorgias.chat', 'gorgias.io'] },
+  { id: 'tidio', name: 'Tidio', hosts: ['tidio.co', 'tidiochat.com'] },
+  { id: 'hotjar', name: 'Hotjar', hosts: ['hotjar.com'] },
+  { id: 'recharge', name: 'Recharge', hosts: ['rechargecdn.com', 'rechargeapps.com'] },
+  { id: 'smile', name: 'Smile.io', hosts: ['smile.io'] },
+  { id: 'attentive', name: 'Attentive', hosts: ['attn.tv', 'attentivemobile.com'] },
+  { id: 'afterpay', name: 'Afterpay', hosts: ['afterpay.com'] },
+  { id: 'klarna', name: 'Klarna', hosts: ['klarna.com', 'klarnaservices.com'] },
+  { id: 'meta_pixel', name: 'Meta Pixel', hosts: ['connect.facebook.net'] },
+  { id: 'google_tag', name: 'Google Tag', hosts: ['googletagmanager.com', 'google-analytics.com'] },
+  { id: 'tiktok_pixel', name: 'TikTok Pixel', hosts: ['analytics.tiktok.com'] },
+  { id: 'pinterest_tag', name: 'Pinterest Tag', hosts: ['s.pinimg.com', 'ct.pinterest.com'] },
+  { id: 'bold', name: 'Bold Commerce', hosts: ['boldapps.net', 'boldcommerce.com'] },
+];
+
+export function findThirdPartyApp(host: string): ThirdPartyAppSignature | null {
+  return THIRD_PARTY_APP_SIGNATURES.find(app => app.hosts.some(candidate => matchesHost(host, candidate))) ?? null;
+}
+
+export function matchesHost(host: string, candidate: string): boolean {
+  return host === candidate || host.endsWith(`.${candidate}`);
+}
@@ -0,0 +1,348 @@
+/**
+ * TDD Test Suite for Audit Export
+ * Markdown, CSV and HTML rendering of a report; Chromium is faked for PDF,
+ * report assembly is mocked (it has its own tests) and Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import { buildReport } from '../../report/report';
+import type { ReportSource } from '../../report/report';
+import { buildExportDocument, exportFilename, loadScreenshots, renderExport } from '../export';
+import type { ExportDocument } from '../export';
+import { renderCsv } from '../csv';
+import { escapeHtml, renderHtml } from '../html';
+import { renderMarkdown } from '../markdown';
+import { renderPdf } from '../pdf';
+import type { AuditReport, ReportFinding } from '../../../types';
+
+jest.mock('../../report/report', () => ({
+  buildReport: jest.fn()
+}));
+
+const recommended: ReportFinding = {
+  id: 'finding-1',
+  ruleId: 'hero_cta_missing',
+  category: 'conversion',
+  severity: 'high',
+  pageUrl: 'https://test-store.myshopify.com/',
+  pageType: 'home',
+  evidence: { ctaCount: 0, heading: 'Summer "sale"' },
+  screenshot: null,
+  recommendation: {
+    id: 'rec-1',
+    issue: 'No call to action above the fold',
+    rationale: 'Visitors do not know where to start shopping.',
+    impact: 5,
+    confidence: 5,
+    effort: 3,
+    ice: 8.3,
+    copyVariants: ['Shop the collection', 'Find your fit'],
+    snippet: '<a class="button" href="/collections/all">Shop now</a>',
+    whereToPlace: 'Online Store > Themes > Customize > Image banner',
+    pastePath: 'sections/image-banner.liquid',
+    searchCue: 'class="banner__buttons"',
+    version: 2
+  }
+};
+
+const unrecommended: ReportFinding = {
+  id: 'finding-2',
+  ruleId: 'alt_text_coverage',
+  category: 'accessibility',
+  severity: 'low',
+  pageUrl: 'https://test-store.myshopify.com/products/linen-shirt',
+  pageType: 'product',
+  evidence: { missing: ['=HYPERLINK("http://evil.example")'] },
+  recommendation: null,
+  screenshot: null
+};
+
+const report: AuditReport = {
+  crawl: {
+    id: 'audit-1',
+    status: 'completed',
+    source: 'crawl',
+    persona: 'default',
+    ruleChanges: [],
+    startedAt: '2026-01-01T10:00:00.000Z',
+    finishedAt: '2026-01-01T10:03:05.000Z',
+    failureReason: null,
+    stats: {
+      pagesTotal: 5,
+      pagesSuccessful: 4,
+      pagesFailed: 1,
+      duration: 185,
+      costCents: 0.42,
+      tokenUsage: { prompt: 1200, completion: 300, total: 1500 }
+    }
+  },
+  site: { id: 'site-1', url: 'https://test-store.myshopify.com', name: 'Test Store' },
+  score: { overall: 72, breakdown: { conversion: 60, accessibility: 90 } },
+  pages: [],
+  findings: [recommended, unrecommended],
+  summary: { totalFindings: 2, highCount: 1, mediumCount: 0, lowCount: 1 },
+  pagination: { page: 1, limit: 2, total: 2, hasNext: false, hasPrev: false }
+};
+
+const screenshot = {
+  id: 'shot-desktop',
+  url: 'https://test-store.myshopify.com/',
+  pageType: 'home' as const,
+  device: 'desktop' as const,
+  image: '/9j/4AA=',
+  contentType: 'image/jpeg'
+};
+
+const documentOf = (overrides: Partial<ExportDocument> = {}): ExportDocument => ({ report, screenshots: [screenshot], ...overrides });
+
+const fakeBrowser = () => {
+  const page = { setContent: jest.fn(), pdf: jest.fn().mockResolvedValue(Buffer.from('%PDF-1.4')) };
+  return { page, browser: { newPage: jest.fn().mockResolvedValue(page), close: jest.fn() } };
+};
+
+describe('Audit Export - TDD', () => {
+  describe('RED Phase: Untrusted Content', () => {
+    it('should escape store content in HTML', () => {
+      // Act & Assert
+      expect(escapeHtml(`<script>alert('x') & "y"</script>`)).toBe('&lt;script&gt;alert(&#39;x&#39;) &amp; &quot;y&quot;&lt;/script&gt;');
+      expect(renderHtml(documentOf())).toContain('&lt;a class=&quot;button&quot; href=&quot;/collections/all&quot;&gt;Shop now&lt;/a&gt;');
+    });
+
+    it('should quote CSV cells and defuse spreadsheet formulas', () => {
+      // Act
+      const [, , second] = renderCsv(documentOf()).split('\r\n');
+
+      // Assert
+      expect(second).toBe(
+        'finding-2,alt_text_coverage,accessibility,Low,product,https://test-store.myshopify.com/products/linen-shirt,' +
+        '"{""missing"":[""=HYPERLINK(\\""http://evil.example\\"")""]}",,,,,,,,,,,,'
+      );
+      expect(renderCsv(documentOf({ report: { ...report, findings: [{ ...unrecommended, ruleId: '=cmd' }] } }))).toContain(",'=cmd,");
+    });
+
+    it('should keep code fences closed around backticks', () => {
+      // Arrange
+      const snippet = 'Use ```liquid``` here';
+      const searchCue = '`{{ block.settings.text }}';
+      const withBackticks = { ...recommended, recommendation: { ...recommended.recommendation!, snippet, searchCue } };
+
+      // Act
+      const markdown = renderMarkdown(documentOf({ report: { ...report, findings: [withBackticks] } }));
+
+      // Assert
+      expect(markdown).toContain(`\`\`\`\`liquid\n${snippet}\n\`\`\`\``);
+      expect(markdown).toContain(`at \`\` ${searchCue} \`\``);
+    });
+  });
+
+  describe('GREEN Phase: Formats', () => {
+    it('should render Markdown with the score breakdown, evidence and recommendation', () => {
+      // Act
+      const markdown = renderMarkdown(documentOf());
+
+      // Assert
+      expect(markdown).toMatch(/^# CRO audit: Test Store\n/);
+      expect(markdown).toContain('- Audit: audit-1 (completed, 2026-01-01)');
+      expect(markdown).toContain('- 4 of 5 pages crawled');
+      expect(markdown).toContain('## Score: 72/100');
+      expect(markdown).toContain('| conversion | 60 |\n| accessibility | 90 |');
+      expect(markdown).toContain('### 1. No call to action above the fold');
+      expect(markdown).toContain('"ctaCount": 0');
+      expect(markdown).toContain('**Recommendation** (version 2, ICE 8.3 (impact 5/5, confidence 5/5, effort 3/5))');
+      expect(markdown).toContain('- Shop the collection\n- Find your fit');
+      expect(markdown).toContain('Paste into `sections/image-banner.liquid`, at `class="banner__buttons"`');
+      expect(markdown).toContain('```liquid\n<a class="button" href="/collections/all">Shop now</a>\n```');
+      expect(markdown).toContain('### 2. alt_text_coverage');
+      expect(markdown).toContain('_No recommendation was generated for this finding._');
+      expect(markdown).not.toContain('/9j/4AA=');
+    });
+
+    it('should render one CSV row per finding with every recommendation field', () => {
+      // Act
+      const rows = renderCsv(documentOf()).split('\r\n');
+
+      // Assert
+      expect(rows).toHaveLength(4);
+      expect(rows[0]).toBe('finding_id,rule_id,category,severity,page_type,page_url,evidence,issue,why,impact,confidence,effort,ice,copy_variants,code_snippet,where_to_place,paste_path,search_cue,version');
+      expect(rows[1]).toContain(',No call to action above the fold,Visitors do not know where to start shopping.,5,5,3,8.3,"Shop the collection\nFind your fit",');
+      expect(rows[1]).toMatch(/,Online Store > Themes > Customize > Image banner,sections\/image-banner.liquid,"class=""banner__buttons""",2$/);
+      expect(rows[3]).toBe('');
+    });
+
+    it('should render standalone HTML with screenshots embedded and linked from findings', () => {
+      // Act
+      const html = renderHtml(documentOf());
+
+      // Assert
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).not.toMatch(/<link|<script|src="http/);
+      expect(html).toContain('<tr><td>conversion</td><td>60</td></tr>');
+      expect(html).toContain('<span class="severity severity-high">High</span>');
+      expect(html).toContain('<a href="#page-1">https://test-store.myshopify.com/</a>');
+      expect(html).toContain('<figure id="page-1">\n<img src="data:image/jpeg;base64,/9j/4AA="');
+      expect(html).toContain('<li>Find your fit</li>');
+      expect(html).toContain('<p>Paste into <code>sections/image-banner.liquid</code>, at <code>class=&quot;banner__buttons&quot;</code></p>');
+      expect(html).toContain('<em>No recommendation was generated for this finding.</em>');
+    });
+
+    it('should draw the overlays and fold over the screenshot of the device a finding was reported on', () => {
+      // Arrange
+      const mobile = { ...screenshot, id: 'shot-mobile', device: 'mobile' as const, image: 'iVBORw0=', contentType: 'image/png' };
+      const annotated: ReportFinding = {
+        ...recommended,
+        screenshot: {
+          id: 'shot-mobile',
+          device: 'mobile',
+          width: 400,
+          height: 1000,
+          imageUrl: '/api/screenshots/shot-mobile',
+          thumbnailUrl: '/api/screenshots/shot-mobile?variant=thumbnail',
+          overlays: [
+            { kind: 'element', label: 'Shop <now>', top: 500, left: 20, width: 120, height: 30 },
+            { kind: 'fold', label: 'Fold', top: 844, left: 0, width: 400, height: 0 }
+          ]
+        }
+      };
+
+      // Act
+      const html = renderHtml(documentOf({ report: { ...report, findings: [annotated] }, screenshots: [screenshot, mobile] }));
+
+      // Assert
+      expect(html).toContain(
+        [
+          '<figure>',
+          '<div class="annotated">',
+          '<img src="data:image/png;base64,iVBORw0=" alt="Screenshot of https://test-store.myshopify.com/ on mobile">',
+          '<div class="overlay" style="top: 50%; left: 5%; width: 30%; height: 3%"><span>Shop &lt;now&gt;</span></div>',
+          '<div class="fold" style="top: 84.4%; left: 0%; width: 100%"><span>Fold</span></div>',
+          '</div>',
+          '<figcaption>mobile</figcaption>',
+          '</figure>'
+        ].join('\n')
+      );
+      expect(html.match(/<figure id="page-/g)).toHaveLength(1);
+      expect(html).toContain('<figure id="page-1">\n<img src="data:image/jpeg;base64,/9j/4AA="');
+    });
+
+    it('should leave out the pages section and empty snippets, and count theme templates', () => {
+      // Arrange
+      const noSnippet = { ...recommended, recommendation: { ...recommended.recommendation!, snippet: '', pastePath: '', searchCue: '' } };
+      const pending = {
+        ...report,
+        crawl: { ...report.crawl, status: 'pending' as const, source: 'theme' as const, startedAt: null, finishedAt: null },
+        score: { overall: null, breakdown: {} },
+        site: { ...report.site, name: null },
+        findings: [noSnippet]
+      };
+
+      // Act
+      const html = renderHtml(documentOf({ report: pending, screenshots: [] }));
+      const markdown = renderMarkdown(documentOf({ report: pending, screenshots: [] }));
+
+      // Assert
+      expect(html).not.toContain('<h2>Pages</h2>');
+      expect(html).toContain('<h1>CRO audit: test-store.myshopify.com</h1>');
+      expect(html).toContain('Audit audit-1 (pending) · Persona default · 4 of 5 theme templates checked');
+      expect(markdown).toContain('## Score: n/a/100');
+      expect(markdown).not.toContain('```liquid');
+      expect(html).not.toContain('<code>');
+    });
+
+    it('should print the HTML to an A4 PDF and close the browser', async () => {
+      // Arrange
+      const { page, browser } = fakeBrowser();
+
+      // Act
+      const pdf = await renderPdf('<html></html>', { launchBrowser: async () => browser as any });
+      page.pdf.mockRejectedValueOnce(new Error('Target closed'));
+
+      // Assert
+      expect(pdf.toString()).toBe('%PDF-1.4');
+      expect(page.setContent).toHaveBeenCalledWith('<html></html>', { waitUntil: 'load' });
+      expect(page.pdf).toHaveBeenCalledWith({ format: 'A4', printBackground: true, preferCSSPageSize: true });
+      await expect(renderPdf('<html></html>', { launchBrowser: async () => browser as any })).rejects.toThrow('Target closed');
+      expect(browser.close).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('REFACTOR Phase: Export Documents', () => {
+    it('should export every finding in ICE order', () => {
+      // Arrange
+      (buildReport as jest.Mock).mockReturnValueOnce(report).mockReturnValueOnce(report);
+      const source = { id: 'audit-1', findings: [{}, {}, {}] } as unknown as ReportSource;
+
+      // Act
+      const document = buildExportDocument(source, [screenshot]);
+      buildExportDocument({ ...source, findings: [] }, []);
+
+      // Assert
+      expect(document).toEqual({ report, screenshots: [screenshot] });
+      expect(buildReport).toHaveBeenNthCalledWith(1, source, { crawlId: 'audit-1', sort: 'ice', page: 1, limit: 3 });
+      expect((buildReport as jest.Mock).mock.calls[1][1].limit).toBe(1);
+    });
+
+    it('should load the screenshots kept by the crawl from the storage', async () => {
+      // Arrange
+      const storage = { put: jest.fn(), removePrefix: jest.fn(), get: jest.fn(async (key: string) => (key.includes('/home/') ? Buffer.from('/9j/4AA=', 'base64') : null)) };
+      (prisma.crawlResult.findMany as jest.Mock).mockResolvedValueOnce([
+        {
+          url: screenshot.url,
+          pageType: 'home',
+          screenshots: [
+            { id: 'shot-desktop', device: 'desktop', contentType: 'image/jpeg', imageKey: 'audits/audit-1/home/desktop.jpeg' },
+            { id: 'shot-mobile', device: 'mobile', contentType: 'image/jpeg', imageKey: 'audits/audit-1/home/mobile.jpeg' }
+          ]
+        },
+        {
+          url: `${screenshot.url}cart`,
+          pageType: 'cart',
+          screenshots: [{ id: 'shot-cart', device: 'desktop', contentType: 'image/jpeg', imageKey: 'audits/audit-1/cart/desktop.jpeg' }]
+        }
+      ]);
+
+      // Act
+      const screenshots = await loadScreenshots('audit-1', storage);
+
+      // Assert
+      expect(screenshots).toEqual([screenshot, { ...screenshot, id: 'shot-mobile', device: 'mobile' }]);
+      expect(prisma.crawlResult.findMany).toHaveBeenCalledWith({
+        where: { auditId: 'audit-1', screenshots: { some: {} } },
+        select: {
+          url: true,
+          pageType: true,
+          screenshots: { select: { id: true, device: true, contentType: true, imageKey: true }, orderBy: { device: 'asc' } }
+        },
+        orderBy: [{ crawledAt: 'asc' }, { id: 'asc' }]
+      });
+    });
+
+    it.each([
+      ['md', 'text/markdown; charset=utf-8'],
+      ['csv', 'text/csv; charset=utf-8'],
+      ['html', 'text/html; charset=utf-8']
+    ] as const)('should render %s reproducibly with its content type and file name', async (format, contentType) => {
+      // Act
+      const first = await renderExport(documentOf(), format);
+      const second = await renderExport(documentOf(), format);
+
+      // Assert
+      expect(first).toEqual(second);
+      expect(first.contentType).toBe(contentType);
+      expect(first.filename).toBe(`cro-audit-test-store.myshopify.com-audit-1.${format}`);
+    });
+
+    it('should render PDFs from the HTML export', async () => {
+      // Arrange
+      const { page, browser } = fakeBrowser();
+
+      // Act
+      const exported = await renderExport(documentOf(), 'pdf', { launchBrowser: async () => browser as any });
+
+      // Assert
+      expect(exported.contentType).toBe('application/pdf');
+      expect(Buffer.from(exported.body as Uint8Array).toString()).toBe('%PDF-1.4');
+      expect(page.setContent).toHaveBeenCalledWith(renderHtml(documentOf()), { waitUntil: 'load' });
+      expect(exportFilename(report, 'pdf')).toBe('cro-audit-test-store.myshopify.com-audit-1.pdf');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * CSV export
+ * One row per finding with its recommendation, for spreadsheets and tickets.
+ * Fields follow RFC 4180 (CRLF rows, quoted when needed); cells that a
+ * spreadsheet would run as a formula are prefixed with a quote, since evidence
+ * and copy come from the crawled store.
+ */
+
+import type { ReportFinding } from '../../types';
+import type { ExportDocument } from './export';
+import { SEVERITY_LABELS } from './labels';
+
+const COLUMNS = [
+  'finding_id',
+  'rule_id',
+  'category',
+  'severity',
+  'page_type',
+  'page_url',
+  'evidence',
+  'issue',
+  'why',
+  'impact',
+  'confidence',
+  'effort',
+  'ice',
+  'copy_variants',
+  'code_snippet',
+  'where_to_place',
+  'paste_path',
+  'search_cue',
+  'version',
+] as const;
+
+export function renderCsv({ report }: ExportDocument): string {
+  const rows = [COLUMNS, ...report.findings.map(toRow)];
+  return rows.map(row => row.map(toCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// Private helper methods for cleaner code organization
+
+function toRow(finding: ReportFinding): (string | number)[] {
+  const recommendation = finding.recommendation;
+  return [
+    finding.id,
+    finding.ruleId,
+    finding.category,
+    SEVERITY_LABELS[finding.severity],
+    finding.pageType,
+    finding.pageUrl,
+    JSON.stringify(finding.evidence),
+    recommendation?.issue ?? '',
+    recommendation?.rationale ?? '',
+    recommendation?.impact ?? '',
+    recommendation?.confidence ?? '',
+    recommendation?.effort ?? '',
+    recommendation?.ice ?? '',
+    recommendation?.copyVariants.join('\n') ?? '',
+    recommendation?.snippet ?? '',
+    recommendation?.whereToPlace ?? '',
+    recommendation?.pastePath ?? '',
+    recommendation?.searchCue ?? '',
+    recommendation?.version ?? '',
+  ];
+}
+
+function toCell(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,105 @@
+/**
+ * Audit export
+ * Renders an audit into the deliverables we send clients: Markdown, CSV with
+ * one row per finding, and standalone HTML that is printed to PDF.
+ *
+ * Every export lists all findings in ICE order and is built only from what is
+ * stored for the audit, so exporting the same audit twice gives the same
+ * document. Page screenshots are embedded in HTML and PDF when the crawl kept
+ * them: each finding shows the one of the device it was reported on, with its
+ * overlays and the fold drawn over it, and the pages section shows each page
+ * desktop first.
+ */
+
+import prisma from '@/lib/prisma';
+import type { AuditReport, Device, ExportFormat, PageType } from '../../types';
+import { buildReport } from '../report/report';
+import type { ReportSource } from '../report/report';
+import { getScreenshotStorage } from '../screenshots/storage';
+import type { ScreenshotStorage } from '../screenshots/storage';
+import { renderCsv } from './csv';
+import { renderHtml } from './html';
+import { renderMarkdown } from './markdown';
+import { renderPdf } from './pdf';
+import type { PdfOptions } from './pdf';
+
+export interface PageScreenshot {
+  id: string; // Screenshot id, as in ReportFinding.screenshot
+  url: string;
+  pageType: PageType;
+  device: Device;
+  image: string; // Base64
+  contentType: string;
+}
+
+interface StoredPageScreenshots {
+  url: string;
+  pageType: PageType;
+  screenshots: { id: string; device: Device; contentType: string; imageKey: string }[];
+}
+
+export interface ExportDocument {
+  report: AuditReport; // Every finding, highest ICE first
+  screenshots: PageScreenshot[];
+}
+
+export interface RenderedExport {
+  body: string | Uint8Array<ArrayBuffer>;
+  contentType: string;
+  filename: string;
+}
+
+export const EXPORT_CONTENT_TYPES: Readonly<Record<ExportFormat, string>> = {
+  md: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+// Every device's screenshot of each page, in alphabetical device order (desktop before mobile)
+export async function loadScreenshots(auditId: string, storage: ScreenshotStorage = getScreenshotStorage()): Promise<PageScreenshot[]> {
+  const pages: StoredPageScreenshots[] = await prisma.crawlResult.findMany({
+    where: { auditId, screenshots: { some: {} } },
+    select: {
+      url: true,
+      pageType: true,
+      screenshots: { select: { id: true, device: true, contentType: true, imageKey: true }, orderBy: { device: 'asc' } },
+    },
+    orderBy: [{ crawledAt: 'asc' }, { id: 'asc' }],
+  });
+
+  const screenshots: PageScreenshot[] = [];
+  for (const { url, pageType, screenshots: stored } of pages) {
+    for (const { id, device, contentType, imageKey } of stored) {
+      const image = await storage.get(imageKey);
+      if (image) {
+        screenshots.push({ id, url, pageType, device, image: Buffer.from(image).toString('base64'), contentType });
+      }
+    }
+  }
+  return screenshots;
+}
+
+export function buildExportDocument(source: ReportSource, screenshots: PageScreenshot[]): ExportDocument {
+  const report = buildReport(source, { crawlId: source.id, sort: 'ice', page: 1, limit: Math.max(1, source.findings.length) });
+  return { report, screenshots };
+}
+
+export async function renderExport(document: ExportDocument, format: ExportFormat, options: PdfOptions = {}): Promise<RenderedExport> {
+  const output = { contentType: EXPORT_CONTENT_TYPES[format], filename: exportFilename(document.report, format) };
+  switch (format) {
+    case 'md':
+      return { ...output, body: renderMarkdown(document) };
+    case 'csv':
+      return { ...output, body: renderCsv(document) };
+    case 'html':
+      return { ...output, body: renderHtml(document) };
+    case 'pdf':
+      return { ...output, body: new Uint8Array(await renderPdf(renderHtml(document), options)) };
+  }
+}
+
+// e.g. cro-audit-test-store.myshopify.com-audit-1.pdf
+export function exportFilename(report: AuditReport, format: ExportFormat): string {
+  return `cro-audit-${new URL(report.site.url).hostname}-${report.crawl.id}.${format}`;
+}
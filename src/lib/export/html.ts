@@ -0,0 +1,152 @@
+/**
+ * HTML export
+ * A single self-contained file (inline styles, screenshots as data URIs) that
+ * opens offline and prints cleanly to A4, which is how the PDF export is made.
+ *
+ * Finding screenshots carry their overlays as absolutely positioned boxes in
+ * percentages of the page size, so they stay on the elements as the image scales.
+ */
+
+import type { FindingScreenshot, ReportFinding, ScreenshotOverlay } from '../../types';
+import type { ExportDocument, PageScreenshot } from './export';
+import { SEVERITY_LABELS, auditDate, iceLine, pagesLine, storeName } from './labels';
+
+const STYLES = `
+  @page { size: A4; margin: 16mm; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #1f2937; line-height: 1.5; max-width: 960px; margin: 0 auto; padding: 24px; }
+  h1, h2, h3 { color: #111827; line-height: 1.25; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 12px; text-align: left; }
+  pre { background: #f3f4f6; padding: 12px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; font-size: 12px; }
+  .meta { color: #4b5563; }
+  .finding { border-top: 1px solid #e5e7eb; padding-top: 8px; break-inside: avoid; }
+  .severity { display: inline-block; padding: 0 8px; border-radius: 4px; font-size: 12px; font-weight: 600; color: #fff; }
+  .severity-high { background: #b91c1c; }
+  .severity-med { background: #b45309; }
+  .severity-low { background: #4b5563; }
+  .recommendation { background: #f9fafb; border-left: 4px solid #2563eb; padding: 8px 16px; }
+  figure { margin: 16px 0; break-inside: avoid; }
+  figure img { max-width: 100%; border: 1px solid #d1d5db; }
+  .annotated { position: relative; }
+  .annotated img { display: block; width: 100%; height: auto; box-sizing: border-box; }
+  .overlay { position: absolute; box-sizing: border-box; border: 2px solid #dc2626; background: rgba(220, 38, 38, 0.1); }
+  .overlay span { position: absolute; left: 0; bottom: 100%; background: #dc2626; color: #fff; font-size: 10px; padding: 0 4px; white-space: nowrap; }
+  .fold { position: absolute; border-top: 2px dashed #2563eb; }
+  .fold span { position: absolute; right: 0; bottom: 100%; background: #2563eb; color: #fff; font-size: 10px; padding: 0 4px; }
+  @media print { body { padding: 0; } a { color: inherit; text-decoration: none; } }
+`;
+
+export function renderHtml({ report, screenshots }: ExportDocument): string {
+  const { crawl, summary } = report;
+  const pages = firstPerPage(screenshots);
+  const title = `CRO audit: ${storeName(report)}`;
+  const date = auditDate(report);
+  const breakdown = Object.entries(report.score.breakdown)
+    .map(([category, score]) => `<tr><td>${escapeHtml(category)}</td><td>${score}</td></tr>`)
+    .join('');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="meta">${escapeHtml(report.site.url)} · Audit ${escapeHtml(crawl.id)} (${crawl.status}${date ? `, ${date}` : ''}) · Persona ${crawl.persona} · ${pagesLine(report)}</p>`,
+    `<h2>Score: ${report.score.overall ?? 'n/a'}/100</h2>`,
+    `<table><thead><tr><th>Category</th><th>Score</th></tr></thead><tbody>${breakdown}</tbody></table>`,
+    `<h2>Findings (${summary.totalFindings})</h2>`,
+    `<p>High: ${summary.highCount} · Medium: ${summary.mediumCount} · Low: ${summary.lowCount}</p>`,
+    ...report.findings.map((finding, index) => findingSection(finding, index + 1, pages, screenshots)),
+    ...(pages.length > 0 ? ['<h2>Pages</h2>', ...pages.map(screenshotFigure)] : []),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Private helper methods for cleaner code organization
+
+function findingSection(finding: ReportFinding, position: number, pages: PageScreenshot[], screenshots: PageScreenshot[]): string {
+  const { recommendation } = finding;
+  const screenshotIndex = pages.findIndex(screenshot => screenshot.url === finding.pageUrl);
+  const embedded = finding.screenshot && screenshots.find(screenshot => screenshot.id === finding.screenshot!.id);
+  const page = screenshotIndex >= 0
+    ? `<a href="#page-${screenshotIndex + 1}">${escapeHtml(finding.pageUrl)}</a>`
+    : escapeHtml(finding.pageUrl);
+
+  const parts = [
+    '<section class="finding">',
+    `<h3>${position}. ${escapeHtml(recommendation?.issue ?? finding.ruleId)}</h3>`,
+    `<p><span class="severity severity-${finding.severity}">${SEVERITY_LABELS[finding.severity]}</span> ${escapeHtml(finding.ruleId)} (${finding.category}) · ${finding.pageType} · ${page}</p>`,
+    `<pre>${escapeHtml(JSON.stringify(finding.evidence, null, 2))}</pre>`,
+    ...(embedded ? [annotatedFigure(finding.screenshot!, embedded)] : []),
+  ];
+  if (recommendation) {
+    parts.push(
+      '<div class="recommendation">',
+      `<p><strong>Recommendation</strong> (version ${recommendation.version}, ${iceLine(recommendation)})</p>`,
+      `<p>${escapeHtml(recommendation.rationale)}</p>`,
+      `<p>Copy variants:</p><ul>${recommendation.copyVariants.map(variant => `<li>${escapeHtml(variant)}</li>`).join('')}</ul>`,
+      `<p>Where to place: ${escapeHtml(recommendation.whereToPlace)}</p>`,
+      ...(recommendation.pastePath
+        ? [`<p>Paste into <code>${escapeHtml(recommendation.pastePath)}</code>, at <code>${escapeHtml(recommendation.searchCue)}</code></p>`]
+        : []),
+      ...(recommendation.snippet ? [`<pre><code>${escapeHtml(recommendation.snippet)}</code></pre>`] : []),
+      '</div>'
+    );
+  } else {
+    parts.push('<p><em>No recommendation was generated for this finding.</em></p>');
+  }
+  parts.push('</section>');
+  return parts.join('\n');
+}
+
+// The first device of each page (desktop before mobile), for the pages section
+function firstPerPage(screenshots: PageScreenshot[]): PageScreenshot[] {
+  return screenshots.filter((screenshot, index) => screenshots.findIndex(other => other.url === screenshot.url) === index);
+}
+
+// Overlays are in page pixels; as percentages they follow the image as it scales
+const percent = (value: number, total: number) => `${Number(((value / total) * 100).toFixed(3))}%`;
+
+function annotatedFigure(screenshot: FindingScreenshot, embedded: PageScreenshot): string {
+  return [
+    '<figure>',
+    '<div class="annotated">',
+    `<img src="data:${embedded.contentType};base64,${embedded.image}" alt="Screenshot of ${escapeHtml(embedded.url)} on ${screenshot.device}">`,
+    ...screenshot.overlays.map(overlay => overlayBox(overlay, screenshot)),
+    '</div>',
+    `<figcaption>${screenshot.device}</figcaption>`,
+    '</figure>',
+  ].join('\n');
+}
+
+function overlayBox(overlay: ScreenshotOverlay, screenshot: FindingScreenshot): string {
+  const position = `top: ${percent(overlay.top, screenshot.height)}; left: ${percent(overlay.left, screenshot.width)}; width: ${percent(overlay.width, screenshot.width)}`;
+  if (overlay.kind === 'fold') {
+    return `<div class="fold" style="${position}"><span>${escapeHtml(overlay.label)}</span></div>`;
+  }
+  return `<div class="overlay" style="${position}; height: ${percent(overlay.height, screenshot.height)}"><span>${escapeHtml(overlay.label)}</span></div>`;
+}
+
+function screenshotFigure(screenshot: PageScreenshot, index: number): string {
+  return [
+    `<figure id="page-${index + 1}">`,
+    `<img src="data:${screenshot.contentType};base64,${screenshot.image}" alt="Screenshot of ${escapeHtml(screenshot.url)}">`,
+    `<figcaption>${screenshot.pageType} · ${escapeHtml(screenshot.url)}</figcaption>`,
+    '</figure>',
+  ].join('\n');
+}
@@ -0,0 +1,33 @@
+/**
+ * Export labels
+ * Wording shared by the Markdown, CSV and HTML exports so a client sees the
+ * same names whichever file they open.
+ */
+
+import type { AuditReport, ReportFinding, Severity } from '../../types';
+
+export const SEVERITY_LABELS: Readonly<Record<Severity, string>> = {
+  high: 'High',
+  med: 'Medium',
+  low: 'Low',
+};
+
+export function storeName(report: AuditReport): string {
+  return report.site.name ?? new URL(report.site.url).hostname;
+}
+
+// Day the audit finished, or started when it never did; blank for audits that never ran
+export function auditDate(report: AuditReport): string {
+  return (report.crawl.finishedAt ?? report.crawl.startedAt ?? '').slice(0, 10);
+}
+
+// e.g. "4 of 5 pages crawled", or "3 of 3 theme templates checked" for uploaded themes
+export function pagesLine(report: AuditReport): string {
+  const { source, stats } = report.crawl;
+  return `${stats.pagesSuccessful} of ${stats.pagesTotal} ${source === 'theme' ? 'theme templates checked' : 'pages crawled'}`;
+}
+
+export function iceLine(recommendation: NonNullable<ReportFinding['recommendation']>): string {
+  const { ice, impact, confidence, effort } = recommendation;
+  return `ICE ${ice} (impact ${impact}/5, confidence ${confidence}/5, effort ${effort}/5)`;
+}
@@ -0,0 +1,88 @@
+/**
+ * Markdown export
+ * A readable audit summary for email or a shared doc: score breakdown, then
+ * every finding with its evidence and recommendation. Screenshots are left to
+ * the HTML/PDF export, where they can be embedded.
+ */
+
+import type { ReportFinding } from '../../types';
+import type { ExportDocument } from './export';
+import { SEVERITY_LABELS, auditDate, iceLine, pagesLine, storeName } from './labels';
+
+export function renderMarkdown({ report }: ExportDocument): string {
+  const { crawl, summary } = report;
+  const lines = [
+    `# CRO audit: ${storeName(report)}`,
+    '',
+    `- Store: ${report.site.url}`,
+    `- Audit: ${crawl.id} (${crawl.status}${auditDate(report) ? `, ${auditDate(report)}` : ''})`,
+    `- Persona: ${crawl.persona}`,
+    `- ${pagesLine(report)}`,
+    '',
+    `## Score: ${report.score.overall ?? 'n/a'}/100`,
+    '',
+    '| Category | Score |',
+    '| --- | --- |',
+    ...Object.entries(report.score.breakdown).map(([category, score]) => `| ${category} | ${score} |`),
+    '',
+    `## Findings (${summary.totalFindings})`,
+    '',
+    `High: ${summary.highCount} · Medium: ${summary.mediumCount} · Low: ${summary.lowCount}`,
+    ...report.findings.flatMap((finding, index) => findingSection(finding, index + 1)),
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+// Private helper methods for cleaner code organization
+
+function findingSection(finding: ReportFinding, position: number): string[] {
+  const { recommendation } = finding;
+  const lines = [
+    '',
+    `### ${position}. ${recommendation?.issue ?? finding.ruleId}`,
+    '',
+    `- Severity: ${SEVERITY_LABELS[finding.severity]}`,
+    `- Rule: ${finding.ruleId} (${finding.category})`,
+    `- Page: ${finding.pageType}, ${finding.pageUrl}`,
+    '',
+    'Evidence:',
+    '',
+    fence('json', JSON.stringify(finding.evidence, null, 2)),
+  ];
+  if (!recommendation) {
+    return [...lines, '', '_No recommendation was generated for this finding._'];
+  }
+
+  return [
+    ...lines,
+    '',
+    `**Recommendation** (version ${recommendation.version}, ${iceLine(recommendation)})`,
+    '',
+    recommendation.rationale,
+    '',
+    'Copy variants:',
+    '',
+    ...recommendation.copyVariants.map(variant => `- ${variant}`),
+    '',
+    `Where to place: ${recommendation.whereToPlace}`,
+    ...(recommendation.pastePath
+      ? ['', `Paste into ${inlineCode(recommendation.pastePath)}, at ${inlineCode(recommendation.searchCue)}`]
+      : []),
+    ...(recommendation.snippet ? ['', fence('liquid', recommendation.snippet)] : []),
+  ];
+}
+
+// Code span whose backticks outnumber any run in the content, padded when it starts or ends with one
+function inlineCode(content: string): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  const padding = /^`|`$/.test(content) ? ' ' : '';
+  return `${marker}${padding}${content}${padding}${marker}`;
+}
+
+// Fenced block long enough that backticks inside the content cannot close it
+function fence(language: string, content: string): string {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
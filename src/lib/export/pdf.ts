@@ -0,0 +1,25 @@
+/**
+ * PDF export
+ * Prints the HTML export to A4 with headless Chromium, the browser the crawler
+ * already ships with.
+ */
+
+import { chromium } from 'playwright';
+import type { Browser } from 'playwright';
+
+export interface PdfOptions {
+  launchBrowser?: () => Promise<Browser>;
+}
+
+export async function renderPdf(html: string, options: PdfOptions = {}): Promise<Buffer> {
+  const launchBrowser = options.launchBrowser ?? (() => chromium.launch({ headless: true }));
+  const browser = await launchBrowser();
+  try {
+    const page = await browser.newPage();
+    // Everything is inline, so the load event means images are decoded
+    await page.setContent(html, { waitUntil: 'load' });
+    return await page.pdf({ format: 'A4', printBackground: true, preferCSSPageSize: true });
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * TDD Test Suite for Accessibility Heuristic Rules
+ * Alt text, tap targets, form labels, heading structure and focus order
+ */
+
+import {
+  AltTextCoverageRule,
+  FocusOrderRule,
+  FormLabelRule,
+  HeadingStructureRule,
+  TapTargetSizeRule
+} from '../accessibility';
+import type { AccessibilityIssue, AccessibilityMetrics, DeviceMetrics, Page, TapTargetMetrics } from '../../../types';
+import { createMockPage } from '../../../test-utils';
+
+const issue = (selector: string, attribute: string, value: string | null = null): AccessibilityIssue => ({ selector, attribute, value });
+
+const accessiblePage = (overrides: Partial<AccessibilityMetrics> = {}): Page => createMockPage({
+  metrics: {
+    aboveFold: { ctaButtons: [], height: 900 },
+    performance: { loadTime: 1000 },
+    accessibility: {
+      images: { total: 4, withAlt: 4, missingAlt: [] },
+      formFields: { total: 2, unlabeledCount: 0, unlabeled: [] },
+      headings: { h1Count: 1, outline: [{ level: 1, text: 'Summer Collection' }, { level: 2, text: 'Featured' }], skippedLevels: [] },
+      focusOrder: { positiveTabIndex: [] },
+      ...overrides
+    }
+  }
+});
+
+const tapTargets = (overrides: Partial<TapTargetMetrics> = {}): TapTargetMetrics => ({
+  total: 10,
+  minSize: 24,
+  undersizedCount: 0,
+  undersized: [],
+  ...overrides
+});
+
+const pageWithDevices = (viewports: { desktop?: DeviceMetrics; mobile?: DeviceMetrics }): Page => createMockPage({
+  metrics: { aboveFold: { ctaButtons: [], height: 900 }, performance: { loadTime: 1000 }, viewports }
+});
+
+const device = (height: number, targets?: TapTargetMetrics): DeviceMetrics => ({
+  viewport: { width: height === 844 ? 390 : 1440, height },
+  aboveFold: { ctaButtons: [], height },
+  ...(targets ? { tapTargets: targets } : {})
+});
+
+describe('Accessibility Heuristic Rules - TDD', () => {
+  describe('RED Phase: Alt Text Coverage', () => {
+    const rule = new AltTextCoverageRule();
+
+    it('should pass when every image has an alt attribute', () => {
+      // Act & Assert
+      expect(rule.analyze(accessiblePage())).toEqual({ passed: true, score: 5, finding: null });
+      expect(rule.category).toBe('accessibility');
+    });
+
+    it('should score coverage and list images missing alt text', () => {
+      // Arrange
+      const missingAlt = [issue('img.hero__image', 'alt')];
+
+      // Act
+      const result = rule.analyze(accessiblePage({ images: { total: 4, withAlt: 3, missingAlt } }));
+
+      // Assert
+      expect(result.score).toBe(3);
+      expect(result.finding).toMatchObject({
+        ruleId: 'alt_text_missing',
+        severity: 'low',
+        evidence: { imageCount: 4, missingCount: 1, coverage: 75, elements: missingAlt }
+      });
+    });
+
+    it('should raise severity when most images lack alt text', () => {
+      // Act
+      const result = rule.analyze(accessiblePage({ images: { total: 4, withAlt: 1, missingAlt: [] } }));
+      const configured = rule.analyze(accessiblePage({ images: { total: 4, withAlt: 1, missingAlt: [] } }), { majorityFailingRatio: 0.8 });
+
+      // Assert
+      expect(result.finding!.severity).toBe('med');
+      expect(configured.finding!.severity).toBe('low');
+    });
+
+    it('should skip pages without images or accessibility metrics', () => {
+      // Act & Assert
+      expect(rule.analyze(accessiblePage({ images: { total: 0, withAlt: 0, missingAlt: [] } })).reason).toBe('Page has no images');
+      expect(rule.analyze(createMockPage()).reason).toBe('Accessibility metrics were not collected for this page');
+    });
+  });
+
+  describe('GREEN Phase: Tap Target Size', () => {
+    const rule = new TapTargetSizeRule();
+
+    it('should prefer the mobile measurement', () => {
+      // Arrange
+      const undersized = [issue('a.header__icon', 'size', '20x20')];
+
+      // Act
+      const result = rule.analyze(pageWithDevices({
+        desktop: device(900, tapTargets()),
+        mobile: device(844, tapTargets({ undersizedCount: 1, undersized }))
+      }));
+
+      // Assert
+      expect(result.score).toBe(4);
+      expect(result.finding).toMatchObject({
+        ruleId: 'tap_target_too_small',
+        severity: 'low',
+        evidence: { device: 'mobile', minSize: 24, targetCount: 10, undersizedCount: 1, elements: undersized }
+      });
+    });
+
+    it('should fall back to desktop when mobile was not measured', () => {
+      // Act
+      const result = rule.analyze(pageWithDevices({
+        desktop: device(900, tapTargets({ undersizedCount: 6 })),
+        mobile: device(844)
+      }));
+      const configured = rule.analyze(pageWithDevices({ desktop: device(900, tapTargets({ undersizedCount: 1 })) }), { majorityFailingRatio: 0.1 });
+
+      // Assert
+      expect(result.finding).toMatchObject({ severity: 'med', evidence: { device: 'desktop' } });
+      expect(configured.finding).toMatchObject({ severity: 'med' });
+    });
+
+    it('should pass when every target is large enough', () => {
+      // Act & Assert
+      expect(rule.analyze(pageWithDevices({ mobile: device(844, tapTargets()) }))).toEqual({ passed: true, score: 5, finding: null });
+    });
+
+    it('should skip pages without measurements or targets', () => {
+      // Act & Assert
+      expect(rule.analyze(createMockPage()).reason).toBe('Tap targets were not measured for this page');
+      expect(rule.analyze(pageWithDevices({ mobile: device(844) })).skipped).toBe(true);
+      expect(rule.analyze(pageWithDevices({ mobile: device(844, tapTargets({ total: 0 })) })).reason).toBe('Page has no interactive elements');
+    });
+  });
+
+  describe('GREEN Phase: Form Labels', () => {
+    const rule = new FormLabelRule();
+
+    it('should pass when every field is labelled', () => {
+      // Act & Assert
+      expect(rule.analyze(accessiblePage())).toEqual({ passed: true, score: 6, finding: null });
+    });
+
+    it('should create a high severity finding for unlabelled fields', () => {
+      // Arrange
+      const unlabeled = [issue('form > input:nth-of-type(2)', 'aria-label')];
+
+      // Act
+      const result = rule.analyze(accessiblePage({ formFields: { total: 4, unlabeledCount: 1, unlabeled } }));
+
+      // Assert
+      expect(result.score).toBe(4);
+      expect(result.finding).toMatchObject({
+        ruleId: 'form_field_unlabeled',
+        severity: 'high',
+        evidence: { fieldCount: 4, unlabeledCount: 1, elements: unlabeled }
+      });
+    });
+
+    it('should skip pages without form fields', () => {
+      // Act & Assert
+      expect(rule.analyze(accessiblePage({ formFields: { total: 0, unlabeledCount: 0, unlabeled: [] } })).reason).toBe('Page has no form fields');
+      expect(rule.analyze(createMockPage()).skipped).toBe(true);
+    });
+  });
+
+  describe('REFACTOR Phase: Heading Structure and Focus Order', () => {
+    const headingRule = new HeadingStructureRule();
+    const focusRule = new FocusOrderRule();
+
+    it('should pass a single h1 without skipped levels', () => {
+      // Act & Assert
+      expect(headingRule.analyze(accessiblePage())).toEqual({ passed: true, score: 4, finding: null });
+      expect(headingRule.analyze(createMockPage()).skipped).toBe(true);
+    });
+
+    it('should flag a missing h1', () => {
+      // Act
+      const result = headingRule.analyze(accessiblePage({ headings: { h1Count: 0, outline: [], skippedLevels: [] } }));
+
+      // Assert
+      expect(result.score).toBe(0);
+      expect(result.finding).toMatchObject({ ruleId: 'heading_h1_missing', severity: 'med' });
+    });
+
+    it('should flag several h1s and skipped levels with partial score', () => {
+      // Arrange
+      const skippedLevels = [issue('h4.card__title', 'level', 'h4')];
+
+      // Act
+      const multiple = headingRule.analyze(accessiblePage({ headings: { h1Count: 2, outline: [], skippedLevels } }));
+      const skipped = headingRule.analyze(accessiblePage({ headings: { h1Count: 1, outline: [], skippedLevels } }));
+
+      // Assert
+      expect(multiple).toMatchObject({ score: 2, finding: { ruleId: 'heading_h1_multiple', evidence: { h1Count: 2 } } });
+      expect(skipped).toMatchObject({ score: 2, finding: { ruleId: 'heading_level_skipped', evidence: { elements: skippedLevels } } });
+    });
+
+    it('should flag positive tabindex values', () => {
+      // Arrange
+      const positiveTabIndex = [issue('a.header__icon', 'tabindex', '3')];
+
+      // Act
+      const result = focusRule.analyze(accessiblePage({ focusOrder: { positiveTabIndex } }));
+
+      // Assert
+      expect(result.score).toBe(0);
+      expect(result.finding).toMatchObject({
+        ruleId: 'focus_order_positive_tabindex',
+        severity: 'med',
+        evidence: { elementCount: 1, elements: positiveTabIndex }
+      });
+    });
+
+    it('should pass the natural focus order', () => {
+      // Act & Assert
+      expect(focusRule.analyze(accessiblePage())).toEqual({ passed: true, score: 3, finding: null });
+      expect(focusRule.analyze(createMockPage()).skipped).toBe(true);
+    });
+  });
+});
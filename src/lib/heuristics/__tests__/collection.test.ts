@@ -0,0 +1,231 @@
+/**
+ * TDD Test Suite for Collection Page Heuristic Rules
+ * Filtering and sorting, product card content, grid density and pagination
+ */
+
+import {
+  CollectionDiscoverabilityRule,
+  CollectionGridDensityRule,
+  CollectionPaginationRule,
+  ProductCardContentRule
+} from '../collection';
+import type { CollectionMetrics, Page, ProductCard } from '../../../types';
+import { createMockPage } from '../../../test-utils';
+
+const card = (position: number, overrides: Partial<ProductCard> = {}): ProductCard => ({
+  selector: `#product-grid > li:nth-of-type(${position})`,
+  position: { top: 300, left: 40 + (position - 1) * 340 },
+  size: { width: 330, height: 420 },
+  title: `Shirt ${position}`,
+  price: '$49.00',
+  image: true,
+  rating: true,
+  badges: [],
+  quickAdd: false,
+  aboveFold: true,
+  ...overrides
+});
+
+const collectionMetrics = (overrides: Partial<CollectionMetrics> = {}): CollectionMetrics => ({
+  filters: {
+    groups: ['size', 'price'],
+    element: { selector: '#FacetFiltersForm', position: { top: 200, left: 40 }, size: { width: 900, height: 60 } }
+  },
+  sort: {
+    options: ['Featured', 'Best selling'],
+    element: { selector: '#SortBy', position: { top: 210, left: 1200 }, size: { width: 200, height: 40 } }
+  },
+  productCount: 24,
+  totalProducts: 48,
+  grid: { columns: 4, cardsAboveFold: 4 },
+  cards: [card(1), card(2), card(3), card(4)],
+  pagination: 'pages',
+  ...overrides
+});
+
+const collectionPage = (collection: CollectionMetrics, mobileGrid = { columns: 2, cardsAboveFold: 4 }): Page => createMockPage({
+  type: 'collection',
+  url: 'https://test-store.myshopify.com/collections/shirts',
+  metrics: {
+    aboveFold: { ctaButtons: [], height: 900 },
+    performance: { loadTime: 1200 },
+    collection,
+    viewports: {
+      desktop: { viewport: { width: 1440, height: 900 }, aboveFold: { ctaButtons: [], height: 900 }, productGrid: collection.grid },
+      mobile: { viewport: { width: 390, height: 844 }, aboveFold: { ctaButtons: [], height: 844 }, productGrid: mobileGrid }
+    }
+  }
+});
+
+const completePage = collectionPage(collectionMetrics());
+const uncrawledPage = createMockPage({ type: 'collection' });
+
+describe('Collection Heuristic Rules - TDD', () => {
+  describe('RED Phase: Filtering and Sorting', () => {
+    const rule = new CollectionDiscoverabilityRule();
+
+    it('should pass large collections with filters and sorting', () => {
+      // Act & Assert
+      expect(rule.analyze(completePage)).toEqual({ passed: true, score: 10, finding: null });
+      expect(rule.pageTypes).toEqual(['collection']);
+      expect(rule.category).toBe('conversion');
+    });
+
+    it('should report missing filters, keeping the points of the sort control', () => {
+      // Arrange
+      const hiddenFilters = collectionMetrics({ filters: { groups: ['size'], element: null } });
+
+      // Act
+      const withSort = rule.analyze(collectionPage(hiddenFilters));
+      const withoutSort = rule.analyze(collectionPage({ ...hiddenFilters, sort: null }));
+
+      // Assert
+      expect(withSort).toMatchObject({ passed: false, score: 3, finding: { ruleId: 'collection_filters_missing', severity: 'med' } });
+      expect(withSort.finding!.evidence).toEqual({
+        productCount: 24,
+        totalProducts: 48,
+        filterGroups: ['size'],
+        sortOptions: ['Featured', 'Best selling']
+      });
+      expect(withoutSort).toMatchObject({ score: 0, finding: { evidence: { sortOptions: [] } } });
+    });
+
+    it('should report missing sorting', () => {
+      // Act
+      const result = rule.analyze(collectionPage(collectionMetrics({ sort: null })));
+
+      // Assert
+      expect(result).toMatchObject({
+        score: 7,
+        finding: { ruleId: 'collection_sort_missing', severity: 'low', evidence: { filters: { selector: '#FacetFiltersForm' } } }
+      });
+    });
+
+    it('should skip small collections and pages without collection metrics', () => {
+      // Arrange
+      const small = collectionPage(collectionMetrics({ filters: { groups: [], element: null }, sort: null, productCount: 8, totalProducts: null }));
+
+      // Act & Assert
+      expect(rule.analyze(small)).toMatchObject({ skipped: true, reason: 'Collection has fewer than 12 products' });
+      expect(rule.analyze(small, { minProductsForFilters: 6 })).toMatchObject({ finding: { ruleId: 'collection_filters_missing' } });
+      expect(rule.analyze(uncrawledPage)).toMatchObject({ skipped: true, reason: 'Collection metrics were not collected for this page' });
+    });
+  });
+
+  describe('GREEN Phase: Product Card Content', () => {
+    const rule = new ProductCardContentRule();
+
+    it('should pass cards with price, image and a rating or quick-add', () => {
+      // Act & Assert
+      expect(rule.analyze(completePage)).toEqual({ passed: true, score: 10, finding: null });
+    });
+
+    it('should report every card missing a price or an image', () => {
+      // Arrange
+      const cards = [card(1), card(2, { price: null }), card(3, { price: null, image: false })];
+
+      // Act
+      const result = rule.analyze(collectionPage(collectionMetrics({ cards })));
+
+      // Assert
+      expect(result).toMatchObject({ passed: false, score: 0, finding: { ruleId: 'product_card_incomplete', severity: 'high' } });
+      expect(result.finding!.evidence).toEqual({
+        cardCount: 3,
+        incompleteCount: 2,
+        cards: [
+          { selector: cards[1]!.selector, position: cards[1]!.position, size: cards[1]!.size, title: 'Shirt 2', missing: ['price'] },
+          { selector: cards[2]!.selector, position: cards[2]!.position, size: cards[2]!.size, title: 'Shirt 3', missing: ['price', 'image'] }
+        ]
+      });
+    });
+
+    it('should halve the score of cards without ratings or quick-add', () => {
+      // Arrange
+      const cards = [card(1, { rating: false, badges: ['Sale'] }), card(2, { rating: false })];
+
+      // Act & Assert
+      expect(rule.analyze(collectionPage(collectionMetrics({ cards })))).toMatchObject({
+        score: 5,
+        finding: { ruleId: 'product_card_details_missing', severity: 'low', evidence: { cardCount: 2, badgedCount: 1, firstCard: cards[0]!.selector } }
+      });
+      expect(rule.analyze(collectionPage(collectionMetrics({ cards: [card(1, { rating: false, quickAdd: true })] })))).toMatchObject({ passed: true });
+    });
+
+    it('should skip collections without product cards', () => {
+      // Act & Assert
+      expect(rule.analyze(collectionPage(collectionMetrics({ cards: [], productCount: 0 })))).toMatchObject({ skipped: true, reason: 'Collection has no product cards' });
+      expect(rule.analyze(uncrawledPage)).toMatchObject({ skipped: true });
+    });
+  });
+
+  describe('GREEN Phase: Product Grid Density', () => {
+    const rule = new CollectionGridDensityRule();
+
+    it('should pass grids showing enough products on every device', () => {
+      // Act & Assert
+      expect(rule.analyze(completePage)).toEqual({ passed: true, score: 6, finding: null });
+    });
+
+    it('should report the device showing too few products above the fold', () => {
+      // Act
+      const result = rule.analyze(collectionPage(collectionMetrics(), { columns: 1, cardsAboveFold: 1 }));
+
+      // Assert
+      expect(result).toMatchObject({ passed: false, score: 3, finding: { ruleId: 'collection_few_products_above_fold', severity: 'med' } });
+      expect(result.finding!.evidence).toEqual({ device: 'mobile', columns: 1, cardsAboveFold: 1, minCardsAboveFold: 4, aboveFoldHeight: 844 });
+      expect(rule.analyze(collectionPage(collectionMetrics(), { columns: 1, cardsAboveFold: 1 }), { minCardsAboveFold: 1 })).toMatchObject({ passed: true });
+    });
+
+    it('should report grids starting below the fold and fall back to the primary grid', () => {
+      // Arrange
+      const belowFold = collectionMetrics({ grid: { columns: 4, cardsAboveFold: 0 } });
+      const withoutViewports = { ...collectionPage(belowFold) };
+      delete withoutViewports.metrics.viewports;
+
+      // Act
+      const result = rule.analyze(withoutViewports);
+
+      // Assert
+      expect(result).toMatchObject({ score: 0, finding: { ruleId: 'collection_products_below_fold', severity: 'high' } });
+      expect(result.finding!.evidence).toEqual({ columns: 4, cardsAboveFold: 0, minCardsAboveFold: 4, aboveFoldHeight: 900 });
+    });
+
+    it('should only expect small collections to show all their products', () => {
+      // Arrange
+      const small = collectionMetrics({ productCount: 2, grid: { columns: 2, cardsAboveFold: 2 } });
+
+      // Act & Assert
+      expect(rule.analyze(collectionPage(small, { columns: 2, cardsAboveFold: 2 }))).toMatchObject({ passed: true });
+      expect(rule.analyze(collectionPage(collectionMetrics({ productCount: 0 })))).toMatchObject({ skipped: true, reason: 'Collection has no product cards' });
+      expect(rule.analyze(uncrawledPage)).toMatchObject({ skipped: true });
+    });
+  });
+
+  describe('REFACTOR Phase: Pagination', () => {
+    const rule = new CollectionPaginationRule();
+
+    it('should pass numbered pages and load more buttons', () => {
+      // Act & Assert
+      expect(rule.analyze(completePage)).toEqual({ passed: true, score: 4, finding: null });
+      expect(rule.analyze(collectionPage(collectionMetrics({ pagination: 'load_more' })))).toMatchObject({ passed: true });
+      expect(rule.analyze(collectionPage(collectionMetrics({ pagination: 'none', totalProducts: null })))).toMatchObject({ passed: true });
+    });
+
+    it('should report collections whose remaining products cannot be reached', () => {
+      // Act & Assert
+      expect(rule.analyze(collectionPage(collectionMetrics({ pagination: 'none' })))).toMatchObject({
+        score: 0,
+        finding: { ruleId: 'collection_pagination_missing', severity: 'med', evidence: { productCount: 24, totalProducts: 48 } }
+      });
+    });
+
+    it('should halve the score of infinite scroll', () => {
+      // Act & Assert
+      expect(rule.analyze(collectionPage(collectionMetrics({ pagination: 'infinite_scroll' })))).toMatchObject({
+        score: 2,
+        finding: { ruleId: 'collection_infinite_scroll', severity: 'low' }
+      });
+      expect(rule.analyze(uncrawledPage)).toMatchObject({ skipped: true });
+    });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for Declarative Heuristic Rules
+ * Validation of rule files, their evaluation on pages and loading them from disk
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HeuristicError } from '../../../types';
+import type { PageMetrics } from '../../../types';
+import {
+  DeclarativeRule,
+  loadDeclarativeRuleFile,
+  loadDeclarativeRules,
+  loadRuleFixtureFile,
+  loadRuntimeDeclarativeRules,
+  parseDeclarativeRule,
+  parseRuleFixtures
+} from '../declarative-rules';
+import { createMockPage } from '../../../test-utils';
+
+const definition = {
+  ruleId: 'page_load_time',
+  name: 'Page Load Time',
+  description: 'Flags slow pages',
+  category: 'performance',
+  maxScore: 10,
+  requires: ['performance.loadTime'],
+  thresholds: {
+    slowLoadMs: { default: 3000, min: 1000, max: 10000, description: 'Slow from' }
+  },
+  tiers: [
+    {
+      when: [{ path: 'performance.loadTime', op: 'gte', value: 6000 }],
+      scoreRatio: 0,
+      finding: 'page_load_very_slow',
+      severity: 'high',
+      evidence: { loadTime: 'performance.loadTime' }
+    },
+    {
+      when: [{ path: 'performance.loadTime', op: 'gte', threshold: 'slowLoadMs' }],
+      scoreRatio: 0.5,
+      finding: 'page_load_slow',
+      severity: 'med',
+      evidence: { loadTime: 'performance.loadTime', price: 'product.prices.0.text' }
+    }
+  ]
+};
+
+const parse = (overrides: Record<string, unknown> = {}) => parseDeclarativeRule(JSON.stringify({ ...definition, ...overrides }), 'rule.json');
+
+const tier = (when: unknown[], extra: Record<string, unknown> = {}) => ({ when, scoreRatio: 0, finding: 'checked', severity: 'low', ...extra });
+
+const pageWith = (metrics: Partial<PageMetrics>, type: 'home' | 'product' = 'home') => createMockPage({
+  type,
+  metrics: { aboveFold: { ctaButtons: [], height: 800 }, performance: { loadTime: 1000 }, ...metrics }
+});
+
+const errorOf = (action: () => unknown): HeuristicError => {
+  try {
+    action();
+  } catch (error) {
+    return error as HeuristicError;
+  }
+  throw new Error('Expected the rule to be rejected');
+};
+
+describe('Declarative Rules - TDD', () => {
+  describe('RED Phase: Validation', () => {
+    it('should reject files that are neither JSON nor YAML', () => {
+      // Act
+      const error = errorOf(() => parseDeclarativeRule('ruleId: [unclosed', 'broken.yaml'));
+
+      // Assert
+      expect(error).toBeInstanceOf(HeuristicError);
+      expect(error.rule).toBe('broken.yaml');
+      expect(error.message).toMatch(/^broken\.yaml is not valid JSON or YAML: /);
+    });
+
+    it('should list every schema issue with its location', () => {
+      // Act
+      const error = errorOf(() => parse({ ruleId: 'Page Load', tiers: [], extra: true }));
+
+      // Assert
+      expect(error.message).toBe(
+        "rule.json is not a valid rule: ruleId: Rule ids are snake_case; tiers: Array must contain at least 1 element(s); root: Unrecognized key(s) in object: 'extra'"
+      );
+    });
+
+    it('should only accept paths of the page metrics', () => {
+      // Act
+      const error = errorOf(() => parse({
+        requires: ['performance.ttfb'],
+        tiers: [tier([
+          { path: 'aboveFold.ctaButtons.length', op: 'gt', value: 0 },
+          { path: 'aboveFold.ctaButtons.first', op: 'exists' },
+          { path: 'aboveFold.ctaButtons.length.value', op: 'exists' },
+          { path: 'aboveFold.toString', op: 'exists' },
+          { path: 'viewports.mobile.stickyAddToCart.element.text', op: 'exists' },
+          { path: 'product.addToCart.disabled.flag', op: 'exists' }
+        ], { evidence: { box: 'socialProof.widget.size.width', bogus: 'socialProof.stars' } })]
+      }));
+
+      // Assert
+      expect(error.message).toBe([
+        'rule.json is not a valid rule: requires.0: performance.ttfb is not a page metric',
+        'tiers.0.when.1.path: aboveFold.ctaButtons.first is not a page metric',
+        'tiers.0.when.2.path: aboveFold.ctaButtons.length.value is not a page metric',
+        'tiers.0.when.3.path: aboveFold.toString is not a page metric',
+        'tiers.0.when.5.path: product.addToCart.disabled.flag is not a page metric',
+        'tiers.0.evidence.bogus: socialProof.stars is not a page metric'
+      ].join('; '));
+    });
+
+    it('should check operands and thresholds', () => {
+      // Act
+      const error = errorOf(() => parse({
+        thresholds: { slowLoadMs: { default: 500, min: 1000, max: 10000, description: 'Slow from' } },
+        tiers: [tier([
+          { path: 'performance.loadTime', op: 'exists', value: 1 },
+          { path: 'performance.loadTime', op: 'eq' },
+          { path: 'performance.loadTime', op: 'eq', value: 1, threshold: 'slowLoadMs' },
+          { path: 'performance.loadTime', op: 'lt', threshold: 'fastLoadMs' },
+          { path: 'performance.loadTime', op: 'gte', value: '3s' },
+          { path: 'performance.loadTime', op: 'missing' },
+          { path: 'performance.loadTime', op: 'ne', value: null }
+        ])]
+      }));
+
+      // Assert
+      expect(error.message).toBe([
+        'rule.json is not a valid rule: thresholds.slowLoadMs: default must be between min and max',
+        'tiers.0.when.0: exists takes no value or threshold',
+        'tiers.0.when.1: eq takes either a value or a threshold',
+        'tiers.0.when.2: eq takes either a value or a threshold',
+        'tiers.0.when.3: Threshold fastLoadMs is not declared',
+        'tiers.0.when.4: gte compares with a number'
+      ].join('; '));
+    });
+  });
+
+  describe('GREEN Phase: Evaluation', () => {
+    it('should compile the metadata and thresholds of the rule', () => {
+      // Act
+      const rule = parse();
+
+      // Assert
+      expect(rule).toBeInstanceOf(DeclarativeRule);
+      expect(rule).toMatchObject({ ruleId: 'page_load_time', name: 'Page Load Time', category: 'performance', maxScore: 10 });
+      expect(rule.pageTypes).toBeUndefined();
+      expect(rule.thresholds).toEqual(definition.thresholds);
+      expect(parse({ pageTypes: ['cart'] }).pageTypes).toEqual(['cart']);
+    });
+
+    it('should fail pages with the first tier they match and capture its evidence', () => {
+      // Arrange
+      const rule = parse();
+
+      // Act
+      const verySlow = rule.analyze(pageWith({ performance: { loadTime: 7000 } }));
+      const slow = rule.analyze(pageWith({ performance: { loadTime: 4000 } }));
+      const fast = rule.analyze(pageWith({ performance: { loadTime: 1200 } }));
+
+      // Assert
+      expect(verySlow).toMatchObject({ passed: false, score: 0, finding: { ruleId: 'page_load_very_slow', severity: 'high', evidence: { loadTime: 7000 } } });
+      expect(slow).toMatchObject({ passed: false, score: 5, finding: { ruleId: 'page_load_slow', severity: 'med', evidence: { loadTime: 4000, price: null } } });
+      expect(fast).toEqual({ passed: true, score: 10, finding: null });
+    });
+
+    it('should compare with configured thresholds, falling back to the defaults', () => {
+      // Arrange
+      const rule = parse();
+      const page = pageWith({ performance: { loadTime: 2000 } });
+
+      // Act & Assert
+      expect(rule.analyze(page, { slowLoadMs: 1500 }).finding!.ruleId).toBe('page_load_slow');
+      expect(rule.analyze(page, {}).passed).toBe(true);
+    });
+
+    it('should skip pages missing a required metric', () => {
+      // Arrange
+      const rule = parse({ requires: ['performance.loadTime', 'product.addToCart'] });
+
+      // Act
+      const result = rule.analyze(pageWith({}));
+
+      // Assert
+      expect(result).toMatchObject({ skipped: true, reason: 'product.addToCart was not collected for this page' });
+    });
+
+    it('should evaluate every operator', () => {
+      // Arrange
+      const check = (condition: Record<string, unknown>) => parse({ requires: [], tiers: [tier([condition])] });
+      const button = { text: 'Check out', selector: '#checkout', position: { top: 0, left: 0 }, size: { width: 200, height: 48 }, prominent: false };
+      const page = pageWith({ aboveFold: { ctaButtons: [button], height: 800 } });
+      const matches = (condition: Record<string, unknown>) => !check(condition).analyze(page).passed;
+
+      // Act & Assert
+      expect(matches({ path: 'aboveFold.ctaButtons.0.text', op: 'exists' })).toBe(true);
+      expect(matches({ path: 'product.addToCart', op: 'missing' })).toBe(true);
+      expect(matches({ path: 'product.addToCart', op: 'eq', value: null })).toBe(true);
+      expect(matches({ path: 'aboveFold.ctaButtons.0.prominent', op: 'eq', value: false })).toBe(true);
+      expect(matches({ path: 'aboveFold.ctaButtons.0.text', op: 'ne', value: 'Check out' })).toBe(false);
+      expect(matches({ path: 'aboveFold.ctaButtons.length', op: 'lt', value: 2 })).toBe(true);
+      expect(matches({ path: 'aboveFold.ctaButtons.length', op: 'lte', value: 0 })).toBe(false);
+      expect(matches({ path: 'aboveFold.ctaButtons.0.size.width', op: 'gt', value: 199 })).toBe(true);
+      expect(matches({ path: 'aboveFold.ctaButtons.1.size.width', op: 'gte', value: 0 })).toBe(false);
+    });
+  });
+
+  describe('REFACTOR Phase: Rule Files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cro-rules-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+      delete process.env.HEURISTIC_RULES_DIR;
+    });
+
+    it('should load JSON and YAML rule files in name order', () => {
+      // Arrange
+      fs.writeFileSync(path.join(dir, 'b-load.json'), JSON.stringify(definition));
+      fs.writeFileSync(path.join(dir, 'a-cart.yml'), [
+        'ruleId: cart_checkout_cta',
+        'name: Checkout Button',
+        'description: Checkout above the fold',
+        'category: conversion',
+        'pageTypes: [cart]',
+        'maxScore: 8',
+        'tiers:',
+        '  - when: [{ path: aboveFold.ctaButtons.length, op: eq, value: 0 }]',
+        '    scoreRatio: 0',
+        '    finding: cart_checkout_cta_missing',
+        '    severity: high'
+      ].join('\n'));
+      fs.writeFileSync(path.join(dir, 'README.md'), '# Rules');
+      fs.mkdirSync(path.join(dir, 'fixtures'));
+      process.env.HEURISTIC_RULES_DIR = dir;
+
+      // Act
+      const rules = loadDeclarativeRules();
+
+      // Assert
+      expect(rules.map(rule => rule.ruleId)).toEqual(['cart_checkout_cta', 'page_load_time']);
+      expect(loadDeclarativeRuleFile(path.join(dir, 'b-load.json')).name).toBe('Page Load Time');
+    });
+
+    it('should have no rules without a rules directory and reject invalid files', () => {
+      // Arrange
+      fs.writeFileSync(path.join(dir, 'broken.yaml'), 'ruleId: broken');
+
+      // Act & Assert
+      expect(loadDeclarativeRules(path.join(dir, 'missing'))).toEqual([]);
+      expect(() => loadDeclarativeRules(dir)).toThrow(/^broken\.yaml is not a valid rule: name: Required/);
+    });
+
+    it('should leave invalid files out of audits and read the files once', () => {
+      // Arrange
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      fs.writeFileSync(path.join(dir, 'a-broken.yaml'), 'ruleId: broken');
+      fs.writeFileSync(path.join(dir, 'b-load.json'), JSON.stringify(definition));
+      process.env.HEURISTIC_RULES_DIR = dir;
+
+      // Act
+      const rules = loadRuntimeDeclarativeRules();
+      fs.rmSync(path.join(dir, 'b-load.json'));
+      const again = loadRuntimeDeclarativeRules(dir);
+
+      // Assert
+      expect(rules.map(rule => rule.ruleId)).toEqual(['page_load_time']);
+      expect(again).toBe(rules);
+      expect(consoleError).toHaveBeenCalledTimes(1);
+      expect(consoleError).toHaveBeenCalledWith(`Rule file ${path.join(dir, 'a-broken.yaml')} was left out of audits`, expect.any(HeuristicError));
+      consoleError.mockRestore();
+    });
+
+    it('should compile the rules shipped with the repository', () => {
+      // Act
+      const rules = loadDeclarativeRules(path.join(process.cwd(), 'rules'));
+
+      // Assert
+      expect(rules.map(rule => rule.ruleId)).toEqual(['page_load_time']);
+    });
+
+    it('should read fixture pages and reject invalid ones', () => {
+      // Arrange
+      const fixture = {
+        name: 'slow page',
+        pageType: 'home',
+        metrics: { aboveFold: { ctaButtons: [], height: 800 }, performance: { loadTime: 4000 } },
+        expect: { finding: 'page_load_slow' }
+      };
+      fs.writeFileSync(path.join(dir, 'load.json'), JSON.stringify([fixture]));
+
+      // Act
+      const fixtures = loadRuleFixtureFile(path.join(dir, 'load.json'));
+
+      // Assert
+      expect(fixtures).toEqual([{ ...fixture, url: 'https://fixture-store.myshopify.com/' }]);
+      expect(() => parseRuleFixtures('[]', 'empty.yaml')).toThrow('empty.yaml is not a valid fixture file: root: Array must contain at least 1 element(s)');
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * TDD Test Suite for the Heuristic Engine
+ * Covers rule registration, per-page execution, rule settings and 0-100 scoring;
+ * declarative rule files are mocked, they have their own tests
+ */
+
+import { HeuristicEngine, createDefaultEngine } from '../engine';
+import { loadRuntimeDeclarativeRules } from '../declarative-rules';
+import { HeuristicError } from '../../../types';
+import type { BaseHeuristicRule, HeuristicCategory, HeuristicResult, Page, RuleExecution, RuleSettings } from '../../../types';
+import { createMockPage } from '../../../test-utils';
+
+const createRule = (
+  ruleId: string,
+  category: HeuristicCategory,
+  maxScore: number,
+  analyze: BaseHeuristicRule['analyze'],
+  pageTypes?: BaseHeuristicRule['pageTypes']
+): BaseHeuristicRule => ({
+  ruleId,
+  category,
+  maxScore,
+  name: ruleId,
+  description: `${ruleId} test rule`,
+  ...(pageTypes ? { pageTypes } : {}),
+  analyze,
+});
+
+jest.mock('../declarative-rules', () => ({
+  loadRuntimeDeclarativeRules: jest.fn(() => [])
+}));
+
+const scored = (score: number): BaseHeuristicRule['analyze'] => () => ({ passed: score > 0, score, finding: null });
+
+describe('Heuristic Engine - TDD', () => {
+  let engine: HeuristicEngine;
+  let homePage: Page;
+  let productPage: Page;
+
+  beforeEach(() => {
+    engine = new HeuristicEngine();
+    homePage = createMockPage({ id: 'home-1', type: 'home' });
+    productPage = createMockPage({ id: 'product-1', type: 'product', url: 'https://test-store.myshopify.com/products/a' });
+  });
+
+  describe('RED Phase: Rule Registry', () => {
+    it('should register rules and reject duplicate ids', () => {
+      // Arrange
+      const rule = createRule('speed', 'performance', 10, scored(10));
+
+      // Act
+      engine.register(rule);
+
+      // Assert
+      expect(engine.getRules()).toEqual([rule]);
+      expect(() => engine.register(rule)).toThrow(HeuristicError);
+    });
+
+    it('should register the built-in rules in the default engine', () => {
+      // Act
+      const ruleIds = createDefaultEngine().getRules().map(rule => rule.ruleId);
+
+      // Assert
+      expect(ruleIds).toContain('hero_cta_detection');
+      expect(ruleIds).toContain('social_proof');
+      expect(ruleIds).toContain('sticky_atc_mobile');
+      expect(ruleIds).toEqual(expect.arrayContaining(['alt_text_coverage', 'tap_target_size', 'form_labels', 'heading_structure', 'focus_order']));
+      expect(ruleIds).toEqual(expect.arrayContaining(['largest_contentful_paint', 'cumulative_layout_shift', 'total_blocking_time', 'third_party_app_weight']));
+      expect(ruleIds).toEqual(expect.arrayContaining(['funnel_completion', 'cart_checkout_visible', 'cart_express_checkout', 'cart_free_shipping_message', 'cart_upsell']));
+      expect(ruleIds).toEqual(expect.arrayContaining(['collection_discoverability', 'product_card_content', 'collection_grid_density', 'collection_pagination']));
+    });
+
+    it('should register declarative rules after the built-in ones', () => {
+      // Arrange
+      const declarative = createRule('page_load_time', 'performance', 10, scored(10));
+      (loadRuntimeDeclarativeRules as jest.Mock).mockReturnValueOnce([declarative]);
+
+      // Act
+      const rules = createDefaultEngine().getRules();
+
+      // Assert
+      expect(rules[rules.length - 1]).toBe(declarative);
+      expect(rules).toHaveLength(25);
+    });
+  });
+
+  describe('GREEN Phase: Per-page Execution', () => {
+    it('should only run rules declared for the page type', () => {
+      // Arrange
+      const productOnly = jest.fn(scored(5));
+      engine.register(createRule('pdp', 'conversion', 5, productOnly, ['product']));
+
+      // Act
+      const result = engine.run([homePage, productPage]);
+
+      // Assert
+      expect(productOnly).toHaveBeenCalledTimes(1);
+      expect(productOnly).toHaveBeenCalledWith(productPage);
+      expect(result.executions).toEqual([
+        { ruleId: 'pdp', pageId: 'product-1', category: 'conversion', maxScore: 5, result: { passed: true, score: 5, finding: null } }
+      ]);
+    });
+
+    it('should collect findings from every page', () => {
+      // Arrange
+      engine.register(createRule('cta', 'conversion', 10, (page): HeuristicResult => ({
+        passed: false,
+        score: 0,
+        finding: { id: `cta-${page.id}`, pageId: page.id, ruleId: 'cta_missing', severity: 'high', evidence: {} }
+      })));
+
+      // Act
+      const result = engine.run([homePage, productPage]);
+
+      // Assert
+      expect(result.findings.map(finding => finding.id)).toEqual(['cta-home-1', 'cta-product-1']);
+    });
+
+    it('should surface rule crashes as HeuristicError without aborting the audit', () => {
+      // Arrange
+      engine
+        .register(createRule('broken', 'trust', 5, () => { throw new TypeError('metrics.reviews is undefined'); }))
+        .register(createRule('thrower', 'trust', 5, () => { throw 'boom'; }))
+        .register(createRule('explicit', 'trust', 5, () => { throw new HeuristicError('bad config', 'explicit'); }))
+        .register(createRule('healthy', 'trust', 5, scored(5)));
+
+      // Act
+      const result = engine.run([homePage]);
+
+      // Assert
+      expect(result.errors).toHaveLength(3);
+      expect(result.errors[0]).toBeInstanceOf(HeuristicError);
+      expect(result.errors[0]).toMatchObject({
+        rule: 'broken',
+        url: homePage.url,
+        message: expect.stringContaining('metrics.reviews is undefined')
+      });
+      expect(result.errors[1]!.message).toContain('boom');
+      expect(result.errors[2]!.message).toBe('bad config');
+      expect(result.executions.map(execution => execution.ruleId)).toEqual(['healthy']);
+      expect(result.score.overall).toBe(100);
+    });
+  });
+
+  describe('GREEN Phase: Rule Settings', () => {
+    const settings = (overrides: Partial<RuleSettings> = {}): RuleSettings => ({ enabled: true, severity: null, maxScore: 10, thresholds: {}, ...overrides });
+
+    it('should leave disabled rules out and hand thresholds to the others', () => {
+      // Arrange
+      const disabled = jest.fn(scored(5));
+      const tuned = jest.fn(scored(5));
+      engine.register(createRule('off', 'trust', 5, disabled)).register(createRule('tuned', 'trust', 10, tuned));
+
+      // Act
+      const result = engine.run([homePage], { off: settings({ enabled: false }), tuned: settings({ thresholds: { minWidth: 160 } }) });
+
+      // Assert
+      expect(disabled).not.toHaveBeenCalled();
+      expect(tuned).toHaveBeenCalledWith(homePage, { minWidth: 160 });
+      expect(result.executions.map(execution => execution.ruleId)).toEqual(['tuned']);
+    });
+
+    it('should rescale scores to the configured weight', () => {
+      // Arrange
+      engine
+        .register(createRule('heavy', 'conversion', 10, scored(5)))
+        .register(createRule('light', 'conversion', 10, scored(10)))
+        .register(createRule('unscored', 'conversion', 0, scored(0)));
+
+      // Act
+      const result = engine.run([homePage], { heavy: settings({ maxScore: 30 }), unscored: settings({ maxScore: 5 }) });
+
+      // Assert
+      expect(result.executions.map(({ ruleId, maxScore, result }) => [ruleId, maxScore, result.score])).toEqual([
+        ['heavy', 30, 15],
+        ['light', 10, 10],
+        ['unscored', 5, 0]
+      ]);
+      expect(result.score.overall).toBe(56);
+    });
+
+    it('should replace the severity of findings when one is configured', () => {
+      // Arrange
+      const failing = (page: Page): HeuristicResult => ({
+        passed: false,
+        score: 0,
+        finding: { id: `cta-${page.id}`, pageId: page.id, ruleId: 'cta_missing', severity: 'high', evidence: {} }
+      });
+      engine.register(createRule('cta', 'conversion', 10, failing)).register(createRule('own', 'conversion', 10, failing));
+
+      // Act
+      const result = engine.run([homePage], { cta: settings({ severity: 'low' }), own: settings() });
+
+      // Assert
+      expect(result.findings.map(finding => finding.severity)).toEqual(['low', 'high']);
+    });
+  });
+
+  describe('REFACTOR Phase: Scoring', () => {
+    it('should normalise to 0-100 with a category breakdown', () => {
+      // Arrange
+      engine
+        .register(createRule('speed', 'performance', 12, scored(6)))
+        .register(createRule('cta', 'conversion', 15, scored(15)))
+        .register(createRule('reviews', 'trust', 10, scored(0)))
+        .register(createRule('sticky', 'mobile', 9, scored(9), ['product']));
+
+      // Act
+      const result = engine.run([homePage, productPage]);
+
+      // Assert - (12 + 30 + 0 + 9) / (24 + 30 + 20 + 9)
+      expect(result.score).toEqual({
+        overall: 61,
+        breakdown: { performance: 50, conversion: 100, trust: 0, mobile: 100 }
+      });
+    });
+
+    it('should not let skipped results dilute the score', () => {
+      // Arrange
+      engine
+        .register(createRule('cta', 'conversion', 15, scored(15)))
+        .register(createRule('skipper', 'conversion', 10, () => ({ passed: false, score: 0, finding: null, skipped: true })));
+
+      // Act
+      const result = engine.run([homePage]);
+
+      // Assert
+      expect(result.score).toEqual({ overall: 100, breakdown: { conversion: 100 } });
+    });
+
+    it('should clamp out-of-range rule scores and ignore zero-point rules', () => {
+      // Arrange
+      const executions: RuleExecution[] = [
+        { ruleId: 'over', pageId: 'p', category: 'conversion', maxScore: 10, result: { passed: true, score: 25, finding: null } },
+        { ruleId: 'under', pageId: 'p', category: 'conversion', maxScore: 10, result: { passed: false, score: -5, finding: null } },
+        { ruleId: 'info', pageId: 'p', category: 'trust', maxScore: 0, result: { passed: true, score: 0, finding: null } },
+      ];
+
+      // Act & Assert
+      expect(HeuristicEngine.calculateScore(executions)).toEqual({ overall: 50, breakdown: { conversion: 50 } });
+    });
+
+    it('should report no overall score when nothing was scored', () => {
+      // Act & Assert
+      expect(engine.run([homePage]).score).toEqual({ overall: null, breakdown: {} });
+    });
+  });
+});
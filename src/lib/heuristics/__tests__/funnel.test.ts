@@ -0,0 +1,213 @@
+/**
+ * TDD Test Suite for Funnel Heuristic Rules
+ * Funnel completion, checkout button visibility, express checkout, free shipping message and cart upsell
+ */
+
+import {
+  CartCheckoutVisibilityRule,
+  CartUpsellRule,
+  ExpressCheckoutRule,
+  FreeShippingMessageRule,
+  FunnelCompletionRule
+} from '../funnel';
+import type { CartView, FunnelRun, FunnelStep, FunnelStepId, Page } from '../../../types';
+import { createMockPage } from '../../../test-utils';
+
+const PRODUCT_URL = 'https://test-store.myshopify.com/products/linen-shirt';
+
+const step = (id: FunnelStepId, overrides: Partial<FunnelStep> = {}): FunnelStep => ({
+  step: id,
+  status: 'passed',
+  durationMs: 400,
+  url: 'https://test-store.myshopify.com/cart',
+  errors: [],
+  detail: null,
+  ...overrides
+});
+
+const cartView = (overrides: Partial<CartView> = {}): CartView => ({
+  view: 'drawer',
+  itemCount: 1,
+  checkoutButton: {
+    selector: '#CartDrawer > button[name="checkout"]',
+    position: { top: 700, left: 20 },
+    size: { width: 350, height: 50 },
+    text: 'Check out',
+    disabled: false,
+    onScreen: true
+  },
+  upsell: true,
+  shippingThreshold: "You're $20.00 away from free shipping",
+  expressPay: ['shop_pay'],
+  ...overrides
+});
+
+const run = (device: FunnelRun['device'], overrides: Partial<FunnelRun> = {}): FunnelRun => ({
+  device,
+  steps: (['product', 'variant', 'add_to_cart', 'cart', 'checkout'] as const).map(id => step(id)),
+  variant: 'M',
+  opened: 'drawer',
+  cart: cartView(),
+  checkoutUrl: 'https://test-store.myshopify.com/checkouts/cn/token',
+  ...overrides
+});
+
+const cartPage = (runs: FunnelRun[]): Page => createMockPage({
+  type: 'cart',
+  url: 'https://test-store.myshopify.com/cart',
+  metrics: {
+    aboveFold: { ctaButtons: [], height: 900 },
+    performance: { loadTime: 400 },
+    funnel: { productUrl: PRODUCT_URL, runs },
+    viewports: {
+      desktop: { viewport: { width: 1440, height: 900 }, aboveFold: { ctaButtons: [], height: 900 } },
+      mobile: { viewport: { width: 390, height: 844 }, aboveFold: { ctaButtons: [], height: 844 } }
+    }
+  }
+});
+
+const completePage = cartPage([run('desktop'), run('mobile')]);
+const unwalkedPage = createMockPage({ type: 'cart' });
+const cartlessPage = cartPage([run('desktop', { cart: null })]);
+
+describe('Funnel Heuristic Rules - TDD', () => {
+  describe('RED Phase: Funnel Completion', () => {
+    const rule = new FunnelCompletionRule();
+
+    it('should pass walks that reach the checkout quickly and without errors', () => {
+      // Act & Assert
+      expect(rule.analyze(completePage)).toEqual({ passed: true, score: 15, finding: null });
+      expect(rule.pageTypes).toEqual(['cart']);
+      expect(rule.category).toBe('conversion');
+    });
+
+    it('should report the first failed step and every device it failed on', () => {
+      // Arrange
+      const failedCheckout = step('checkout', { status: 'failed', url: 'https://test-store.myshopify.com/account/login', detail: 'Checkout asked shoppers to log in' });
+      const stuck = run('mobile', { steps: [...run('mobile').steps.slice(0, 4), failedCheckout], checkoutUrl: null });
+
+      // Act
+      const result = rule.analyze(cartPage([run('desktop'), stuck]));
+
+      // Assert
+      expect(result).toMatchObject({ passed: false, score: 0, finding: { ruleId: 'funnel_step_failed', severity: 'high' } });
+      expect(result.finding!.evidence).toEqual({
+        device: 'mobile',
+        step: 'checkout',
+        detail: 'Checkout asked shoppers to log in',
+        url: 'https://test-store.myshopify.com/account/login',
+        errors: [],
+        failedDevices: ['mobile'],
+        productUrl: PRODUCT_URL
+      });
+    });
+
+    it('should halve the score of walks with script errors or slow cart steps', () => {
+      // Arrange
+      const erroring = run('desktop', { steps: [step('product'), step('variant'), step('add_to_cart', { errors: ['HTTP 422 from /cart/add.js'] })] });
+      const slow = run('desktop', { steps: [step('product', { durationMs: 9000 }), step('add_to_cart', { durationMs: 3500 })] });
+
+      // Act
+      const withErrors = rule.analyze(cartPage([erroring]));
+      const slowCart = rule.analyze(cartPage([slow]));
+
+      // Assert
+      expect(withErrors).toMatchObject({ score: 7, finding: { ruleId: 'funnel_script_errors', severity: 'med' } });
+      expect(withErrors.finding!.evidence).toEqual({ device: 'desktop', step: 'add_to_cart', errors: ['HTTP 422 from /cart/add.js'], productUrl: PRODUCT_URL });
+      expect(slowCart).toMatchObject({ score: 7, finding: { ruleId: 'funnel_step_slow', evidence: { step: 'add_to_cart', durationMs: 3500, slowStepMs: 3000 } } });
+      expect(rule.analyze(cartPage([slow]), { slowStepMs: 5000 })).toMatchObject({ passed: true });
+    });
+
+    it('should skip pages without a funnel walk', () => {
+      // Act & Assert
+      expect(rule.analyze(unwalkedPage)).toMatchObject({ skipped: true, reason: 'No funnel walk was recorded for this page' });
+    });
+  });
+
+  describe('GREEN Phase: Checkout Button Visibility', () => {
+    const rule = new CartCheckoutVisibilityRule();
+
+    it('should pass carts showing the checkout button on every device', () => {
+      // Act & Assert
+      expect(rule.analyze(completePage)).toEqual({ passed: true, score: 10, finding: null });
+    });
+
+    it('should report a drawer that hides the checkout button below the fold on mobile', () => {
+      // Arrange
+      const belowFold = cartView({ checkoutButton: { ...cartView().checkoutButton!, position: { top: 820, left: 20 }, onScreen: false } });
+
+      // Act
+      const result = rule.analyze(cartPage([run('desktop'), run('mobile', { cart: belowFold })]));
+
+      // Assert
+      expect(result).toMatchObject({ passed: false, score: 0, finding: { ruleId: 'cart_checkout_hidden', severity: 'high' } });
+      expect(result.finding!.evidence).toEqual({
+        device: 'mobile',
+        view: 'drawer',
+        checkoutButton: belowFold.checkoutButton,
+        aboveFoldHeight: 844
+      });
+    });
+
+    it('should report carts without a checkout button and fall back to the primary fold', () => {
+      // Arrange
+      const hidden = run('desktop', { cart: cartView({ checkoutButton: { ...cartView().checkoutButton!, onScreen: false } }) });
+      const withoutViewports = { ...cartPage([hidden]) };
+      delete withoutViewports.metrics.viewports;
+
+      // Act & Assert
+      expect(rule.analyze(cartPage([run('desktop', { cart: cartView({ view: 'page', checkoutButton: null }) })]))).toMatchObject({
+        score: 0,
+        finding: { ruleId: 'cart_checkout_missing', evidence: { device: 'desktop', view: 'page', itemCount: 1 } }
+      });
+      expect(rule.analyze(withoutViewports)).toMatchObject({ finding: { evidence: { aboveFoldHeight: 900 } } });
+    });
+
+    it('should skip pages whose walk did not reach the cart', () => {
+      // Act & Assert
+      expect(rule.analyze(cartlessPage)).toMatchObject({ skipped: true, reason: 'The funnel walk did not reach the cart' });
+      expect(rule.analyze(unwalkedPage)).toMatchObject({ skipped: true, reason: 'No funnel walk was recorded for this page' });
+    });
+  });
+
+  describe('REFACTOR Phase: Cart Extras', () => {
+    it('should report carts without express checkout buttons', () => {
+      // Arrange
+      const rule = new ExpressCheckoutRule();
+
+      // Act & Assert
+      expect(rule.analyze(completePage)).toEqual({ passed: true, score: 5, finding: null });
+      expect(rule.analyze(cartPage([run('desktop'), run('mobile', { cart: cartView({ expressPay: [] }) })]))).toMatchObject({
+        score: 0,
+        finding: { ruleId: 'express_checkout_missing', severity: 'low', evidence: { device: 'mobile', view: 'drawer' } }
+      });
+      expect(rule.analyze(cartlessPage)).toMatchObject({ skipped: true });
+    });
+
+    it('should report carts without a free shipping message', () => {
+      // Arrange
+      const rule = new FreeShippingMessageRule();
+
+      // Act & Assert
+      expect(rule.analyze(completePage)).toEqual({ passed: true, score: 4, finding: null });
+      expect(rule.analyze(cartPage([run('desktop', { cart: cartView({ view: 'page', shippingThreshold: null }) })]))).toMatchObject({
+        score: 0,
+        finding: { ruleId: 'free_shipping_message_missing', severity: 'low', evidence: { device: 'desktop', view: 'page' } }
+      });
+      expect(rule.analyze(unwalkedPage)).toMatchObject({ skipped: true });
+    });
+
+    it('should report carts that recommend nothing', () => {
+      // Arrange
+      const rule = new CartUpsellRule();
+
+      // Act & Assert
+      expect(rule.analyze(completePage)).toEqual({ passed: true, score: 3, finding: null });
+      expect(rule.analyze(cartPage([run('desktop', { cart: cartView({ upsell: false, itemCount: 2 }) })]))).toMatchObject({
+        score: 0,
+        finding: { ruleId: 'cart_upsell_missing', severity: 'low', evidence: { device: 'desktop', view: 'drawer', itemCount: 2 } }
+      });
+      expect(rule.analyze(cartlessPage)).toMatchObject({ skipped: true });
+    });
+  });
+});
@@ -4,7 +4,8 @@
  */
 
 import { HeroCTARule } from '../hero-cta';
-import type { Page, HeuristicResult } from '../../../types';
+import type { Page, HeuristicResult, CTAButton } from '../../../types';
+import { createMockPage } from '../../../test-utils';
 
 describe('Hero CTA Heuristic Rule - TDD', () => {
   let heroCTARule: HeroCTARule;
@@ -143,6 +144,75 @@ describe('Hero CTA Heuristic Rule - TDD', () => {
     });
   });
 
+  describe('GREEN Phase: Per-device Folds', () => {
+    const prominentCTA: CTAButton = {
+      text: 'Shop Now',
+      selector: '.hero-cta',
+      position: { top: 300, left: 100 },
+      size: { width: 200, height: 50 },
+      prominent: true
+    };
+    const weakCTA: CTAButton = { ...prominentCTA, text: 'Shop', size: { width: 60, height: 20 }, prominent: false };
+
+    const pageWithFolds = (desktop: CTAButton[], mobile: CTAButton[]): Page => createMockPage({
+      metrics: {
+        aboveFold: { ctaButtons: desktop, height: 900 },
+        performance: { loadTime: 1000 },
+        viewports: {
+          desktop: { viewport: { width: 1440, height: 900 }, aboveFold: { ctaButtons: desktop, height: 900 } },
+          mobile: { viewport: { width: 390, height: 844 }, aboveFold: { ctaButtons: mobile, height: 844 } }
+        }
+      }
+    });
+
+    it('should pass only when every device has a prominent CTA', () => {
+      // Act
+      const result = heroCTARule.analyze(pageWithFolds([prominentCTA], [prominentCTA]));
+
+      // Assert
+      expect(result).toEqual({ passed: true, score: 15, finding: null });
+    });
+
+    it('should report the device whose fold has no CTA', () => {
+      // Act
+      const result = heroCTARule.analyze(pageWithFolds([prominentCTA], []));
+
+      // Assert
+      expect(result.score).toBe(0);
+      expect(result.finding!.ruleId).toBe('hero_cta_missing');
+      expect(result.finding!.evidence).toMatchObject({ device: 'mobile', failedDevices: ['mobile'], aboveFoldHeight: 844 });
+    });
+
+    it('should let a missing CTA outweigh a weak one and list every failed device', () => {
+      // Act
+      const result = heroCTARule.analyze(pageWithFolds([weakCTA], []));
+
+      // Assert
+      expect(result.finding!.ruleId).toBe('hero_cta_missing');
+      expect(result.finding!.evidence).toMatchObject({ device: 'mobile', failedDevices: ['mobile', 'desktop'] });
+    });
+
+    it('should report weak CTAs per device', () => {
+      // Act
+      const result = heroCTARule.analyze(pageWithFolds([weakCTA], [prominentCTA]));
+
+      // Assert
+      expect(result.score).toBe(7);
+      expect(result.finding!.ruleId).toBe('hero_cta_weak');
+      expect(result.finding!.evidence).toMatchObject({ device: 'desktop', failedDevices: ['desktop'], ctaCount: 1 });
+    });
+
+    it('should fall back to the primary fold when no device metrics were captured', () => {
+      // Act
+      const result = heroCTARule.analyze(createMockPage({
+        metrics: { aboveFold: { ctaButtons: [], height: 800 }, performance: { loadTime: 1000 }, viewports: {} }
+      }));
+
+      // Assert
+      expect(result.finding!.evidence).toEqual({ ctaCount: 0, pageType: 'home', aboveFoldHeight: 800 });
+    });
+  });
+
   describe('Helper Methods', () => {
     it('should correctly identify prominent CTAs', () => {
       // Arrange - prominent CTA
@@ -167,5 +237,28 @@ describe('Hero CTA Heuristic Rule - TDD', () => {
       expect(heroCTARule.isProminentCTA(prominentCTA)).toBe(true);
       expect(heroCTARule.isProminentCTA(smallCTA)).toBe(false);
     });
+
+    it('should judge prominence and weak scores with configured thresholds', () => {
+      // Arrange
+      const thresholds = { minProminentWidth: 240, minProminentHeight: 35, weakCtaScoreRatio: 0.2 };
+      const page = createMockPage({
+        metrics: {
+          aboveFold: {
+            ctaButtons: [{ text: 'Shop Now', selector: '.hero-cta', position: { top: 300, left: 100 }, size: { width: 200, height: 50 }, prominent: true }],
+            height: 800
+          },
+          performance: { loadTime: 1000 }
+        }
+      });
+
+      // Act
+      const result = heroCTARule.analyze(page, thresholds);
+
+      // Assert
+      expect(Object.keys(heroCTARule.thresholds)).toEqual(['minProminentWidth', 'minProminentHeight', 'weakCtaScoreRatio']);
+      expect(heroCTARule.analyze(page).passed).toBe(true);
+      expect(result.score).toBe(3);
+      expect(result.finding!.ruleId).toBe('hero_cta_weak');
+    });
   });
 })
\ No newline at end of file
@@ -0,0 +1,154 @@
+/**
+ * TDD Test Suite for Performance Heuristic Rules
+ * Largest contentful paint, layout shift, blocking time and third-party app weight
+ */
+
+import {
+  CumulativeLayoutShiftRule,
+  LargestContentfulPaintRule,
+  ThirdPartyAppWeightRule,
+  TotalBlockingTimeRule
+} from '../performance';
+import type { AppScriptWeight, Page, WebVitals } from '../../../types';
+import { createMockPage } from '../../../test-utils';
+
+const app = (name: string, kilobytes: number, id: string | null = name.toLowerCase()): AppScriptWeight => ({
+  app: id,
+  name,
+  hosts: [`static.${name.toLowerCase()}.com`],
+  bytes: kilobytes * 1024,
+  requests: 1
+});
+
+const fastVitals: WebVitals = {
+  device: 'mobile',
+  fcp: 900,
+  lcp: 1800,
+  cls: 0.02,
+  tbt: 120,
+  totalBytes: 900000,
+  jsBytes: 300000,
+  imageBytes: 450000,
+  thirdPartyScriptBytes: 100 * 1024,
+  apps: [app('Klaviyo', 60), app('Hotjar', 40)]
+};
+
+const measuredPage = (overrides: Partial<WebVitals> = {}): Page => createMockPage({
+  metrics: {
+    aboveFold: { ctaButtons: [], height: 844 },
+    performance: { loadTime: 2400, vitals: { ...fastVitals, ...overrides } }
+  }
+});
+
+const unmeasuredPage = createMockPage();
+
+describe('Performance Heuristic Rules - TDD', () => {
+  describe('RED Phase: Largest Contentful Paint', () => {
+    const rule = new LargestContentfulPaintRule();
+
+    it('should pass pages whose main content paints within the good boundary', () => {
+      // Act & Assert
+      expect(rule.analyze(measuredPage())).toEqual({ passed: true, score: 10, finding: null });
+      expect(rule.analyze(measuredPage({ lcp: 2500 }))).toMatchObject({ passed: true, score: 10 });
+      expect(rule.category).toBe('performance');
+    });
+
+    it('should halve the score of pages that need improvement and zero slow ones', () => {
+      // Act
+      const slow = rule.analyze(measuredPage({ lcp: 3200 }));
+      const poor = rule.analyze(measuredPage({ lcp: 4000 }));
+
+      // Assert
+      expect(slow).toMatchObject({ passed: false, score: 5, finding: { ruleId: 'lcp_needs_improvement', severity: 'med' } });
+      expect(slow.finding!.evidence).toEqual({ device: 'mobile', lcp: 3200, fcp: 900, goodLcpMs: 2500, imageBytes: 450000 });
+      expect(poor).toMatchObject({ passed: false, score: 0, finding: { ruleId: 'lcp_poor', severity: 'high' } });
+    });
+
+    it('should apply configured boundaries', () => {
+      // Act & Assert
+      expect(rule.analyze(measuredPage({ lcp: 3200 }), { goodLcpMs: 3500, poorLcpMs: 6000 })).toMatchObject({ passed: true });
+      expect(rule.analyze(measuredPage({ lcp: 1800 }), { goodLcpMs: 1000, poorLcpMs: 1500 })).toMatchObject({ score: 0 });
+    });
+
+    it('should skip pages without vitals or without a contentful paint', () => {
+      // Act & Assert
+      expect(rule.analyze(unmeasuredPage)).toMatchObject({ skipped: true, reason: 'Web vitals were not measured for this page' });
+      expect(rule.analyze(measuredPage({ lcp: null }))).toMatchObject({ skipped: true, reason: 'No largest contentful paint was recorded' });
+    });
+  });
+
+  describe('GREEN Phase: Cumulative Layout Shift', () => {
+    const rule = new CumulativeLayoutShiftRule();
+
+    it('should rate layout shift against the good and poor boundaries', () => {
+      // Act & Assert
+      expect(rule.analyze(measuredPage({ cls: 0.1 }))).toEqual({ passed: true, score: 8, finding: null });
+      expect(rule.analyze(measuredPage({ cls: 0.18 }))).toMatchObject({
+        score: 4,
+        finding: { ruleId: 'cls_needs_improvement', severity: 'med', evidence: { device: 'mobile', cls: 0.18, goodCls: 0.1 } }
+      });
+      expect(rule.analyze(measuredPage({ cls: 0.4 }))).toMatchObject({ score: 0, finding: { ruleId: 'cls_poor', severity: 'high' } });
+      expect(rule.analyze(measuredPage({ cls: 0.18 }), { goodCls: 0.2, poorCls: 0.5 })).toMatchObject({ passed: true });
+      expect(rule.analyze(unmeasuredPage)).toMatchObject({ skipped: true });
+    });
+  });
+
+  describe('GREEN Phase: Total Blocking Time', () => {
+    const rule = new TotalBlockingTimeRule();
+
+    it('should rate blocking time and list the apps loading scripts', () => {
+      // Act
+      const blocked = rule.analyze(measuredPage({ tbt: 450 }));
+
+      // Assert
+      expect(rule.analyze(measuredPage())).toEqual({ passed: true, score: 8, finding: null });
+      expect(blocked).toMatchObject({ score: 4, finding: { ruleId: 'tbt_needs_improvement', severity: 'med' } });
+      expect(blocked.finding!.evidence).toEqual({ device: 'mobile', tbt: 450, goodTbtMs: 200, jsBytes: 300000, apps: fastVitals.apps });
+      expect(rule.analyze(measuredPage({ tbt: 900 }))).toMatchObject({ score: 0, finding: { ruleId: 'tbt_poor', severity: 'high' } });
+      expect(rule.analyze(measuredPage({ tbt: 450 }), { goodTbtMs: 500, poorTbtMs: 1000 })).toMatchObject({ passed: true });
+      expect(rule.analyze(unmeasuredPage)).toMatchObject({ skipped: true });
+    });
+  });
+
+  describe('REFACTOR Phase: Third-Party App Weight', () => {
+    const rule = new ThirdPartyAppWeightRule();
+
+    it('should pass pages whose app scripts fit the budget', () => {
+      // Act & Assert
+      expect(rule.analyze(measuredPage())).toEqual({ passed: true, score: 6, finding: null });
+      expect(rule.analyze(measuredPage({ thirdPartyScriptBytes: 150 * 1024 }))).toMatchObject({ passed: true });
+    });
+
+    it('should name the costliest apps of pages over budget', () => {
+      // Arrange
+      const apps = [app('Klaviyo', 120), app('Gorgias', 60), app('widgets.upsell.io', 30, null), app('Hotjar', 20), app('Smile', 10), app('Privy', 5)];
+
+      // Act
+      const heavy = rule.analyze(measuredPage({ thirdPartyScriptBytes: 245 * 1024, apps }));
+
+      // Assert
+      expect(heavy).toMatchObject({ passed: false, score: 3, finding: { ruleId: 'app_scripts_heavy', severity: 'med' } });
+      expect(heavy.finding!.evidence).toEqual({
+        device: 'mobile',
+        thirdPartyScriptBytes: 245 * 1024,
+        jsBytes: 300000,
+        budgetBytes: 150 * 1024,
+        costliestApps: ['Klaviyo', 'Gorgias', 'widgets.upsell.io', 'Hotjar', 'Smile'],
+        apps: apps.slice(0, 5)
+      });
+    });
+
+    it('should zero pages over the maximum and apply configured budgets', () => {
+      // Act & Assert
+      expect(rule.analyze(measuredPage({ thirdPartyScriptBytes: 400 * 1024 }))).toMatchObject({
+        score: 0,
+        finding: { ruleId: 'app_scripts_very_heavy', severity: 'high' }
+      });
+      expect(rule.analyze(measuredPage(), { appScriptBudgetKb: 50, maxAppScriptKb: 400 })).toMatchObject({
+        score: 3,
+        finding: { evidence: { budgetBytes: 50 * 1024 } }
+      });
+      expect(rule.analyze(unmeasuredPage)).toMatchObject({ skipped: true });
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * TDD Test Suite for Product Page Heuristic Rules
+ * Price display, sale-price anchoring and add-to-cart checks
+ */
+
+import { AddToCartRule, PriceDisplayRule, SalePriceAnchoringRule } from '../product-page';
+import type { AddToCart, Page, PriceElement, ProductMetrics } from '../../../types';
+import { createMockPage } from '../../../test-utils';
+
+const price = (overrides: Partial<PriceElement> = {}): PriceElement => ({
+  text: '$49.00',
+  amount: 49,
+  onSale: false,
+  aboveFold: true,
+  selector: '.price-item--regular',
+  position: { top: 200, left: 760 },
+  size: { width: 90, height: 30 },
+  ...overrides
+});
+
+const addToCart = (overrides: Partial<AddToCart> = {}): AddToCart => ({
+  text: 'Add to cart',
+  disabled: false,
+  aboveFold: true,
+  distanceFromPrice: 180,
+  selector: '.product-form__submit',
+  position: { top: 380, left: 760 },
+  size: { width: 400, height: 50 },
+  ...overrides
+});
+
+const productPage = (product?: Partial<ProductMetrics>): Page => createMockPage({
+  id: 'pdp-1',
+  type: 'product',
+  url: 'https://test-store.myshopify.com/products/linen-shirt',
+  metrics: {
+    aboveFold: { ctaButtons: [], height: 900 },
+    performance: { loadTime: 1000 },
+    ...(product ? {
+      product: {
+        prices: [price()],
+        compareAtPrice: null,
+        variantSelector: { type: 'buttons', optionCount: 1 },
+        addToCart: addToCart(),
+        ...product
+      }
+    } : {})
+  }
+});
+
+describe('Product Page Heuristic Rules - TDD', () => {
+  describe('RED Phase: Price Display', () => {
+    const rule = new PriceDisplayRule();
+
+    it('should pass with full score when the price is above the fold', () => {
+      // Act
+      const result = rule.analyze(productPage({}));
+
+      // Assert
+      expect(result).toEqual({ passed: true, score: 12, finding: null });
+    });
+
+    it('should create a high severity finding when no price is shown', () => {
+      // Act
+      const result = rule.analyze(productPage({ prices: [], addToCart: null }));
+
+      // Assert
+      expect(result.score).toBe(0);
+      expect(result.finding).toMatchObject({
+        ruleId: 'price_missing',
+        severity: 'high',
+        evidence: { priceCount: 0, addToCartPresent: false }
+      });
+    });
+
+    it('should flag a price below the fold with partial score', () => {
+      // Act
+      const result = rule.analyze(productPage({ prices: [price({ aboveFold: false, position: { top: 1080, left: 100 } })] }));
+
+      // Assert
+      expect(result.score).toBe(6);
+      expect(result.finding).toMatchObject({
+        ruleId: 'price_below_fold',
+        severity: 'high',
+        evidence: { position: { top: 1080, left: 100 }, aboveFoldHeight: 900 }
+      });
+      expect(rule.analyze(productPage({ prices: [price({ aboveFold: false })] }), { belowFoldScoreRatio: 0.25 }).score).toBe(3);
+    });
+
+    it('should skip pages without product metrics', () => {
+      // Act
+      const result = rule.analyze(productPage());
+
+      // Assert
+      expect(result.skipped).toBe(true);
+      expect(result.reason).toBe('Product metrics were not collected for this page');
+      expect(rule.pageTypes).toEqual(['product']);
+    });
+  });
+
+  describe('GREEN Phase: Sale Price Anchoring', () => {
+    const rule = new SalePriceAnchoringRule();
+
+    it('should skip products that are not on sale', () => {
+      // Act & Assert
+      expect(rule.analyze(productPage({})).reason).toBe('Product is not on sale');
+      expect(rule.analyze(productPage()).skipped).toBe(true);
+    });
+
+    it('should flag a sale price without a compare-at price', () => {
+      // Act
+      const result = rule.analyze(productPage({ prices: [price({ onSale: true, selector: '.price-item--sale' })] }));
+
+      // Assert
+      expect(result.passed).toBe(false);
+      expect(result.finding).toMatchObject({
+        ruleId: 'sale_price_anchor_missing',
+        severity: 'med',
+        evidence: { selector: '.price-item--sale', salePrice: '$49.00' }
+      });
+    });
+
+    it('should flag a compare-at price that is not higher than the price', () => {
+      // Act
+      const result = rule.analyze(productPage({
+        prices: [price()],
+        compareAtPrice: price({ text: '$45.00', amount: 45, selector: 's.price-item' })
+      }));
+
+      // Assert
+      expect(result.finding).toMatchObject({
+        ruleId: 'sale_price_anchor_invalid',
+        severity: 'low',
+        evidence: { compareAtPrice: '$45.00', price: '$49.00' }
+      });
+    });
+
+    it('should pass when the sale price is anchored by a higher compare-at price', () => {
+      // Act
+      const result = rule.analyze(productPage({
+        prices: [price({ onSale: true })],
+        compareAtPrice: price({ text: '$69.00', amount: 69 })
+      }));
+
+      // Assert
+      expect(result).toEqual({ passed: true, score: 5, finding: null });
+    });
+
+    it('should pass when only a compare-at price was found', () => {
+      // Act
+      const result = rule.analyze(productPage({ prices: [], compareAtPrice: price({ amount: 69 }) }));
+
+      // Assert
+      expect(result.passed).toBe(true);
+    });
+  });
+
+  describe('GREEN Phase: Add to Cart', () => {
+    const rule = new AddToCartRule();
+    const defaults = { maxPriceDistance: 400, belowFoldScoreRatio: 0.5, farFromPriceScoreRatio: 0.8 };
+
+    it('should pass when an enabled button sits above the fold near the price', () => {
+      // Act & Assert
+      expect(rule.analyze(productPage({}))).toEqual({ passed: true, score: 10, finding: null });
+      expect(rule.analyze(productPage({ addToCart: addToCart({ distanceFromPrice: null }) })).passed).toBe(true);
+    });
+
+    it('should flag a missing add-to-cart button', () => {
+      // Act
+      const result = rule.analyze(productPage({ addToCart: null }));
+
+      // Assert
+      expect(result.score).toBe(0);
+      expect(result.finding).toMatchObject({ ruleId: 'atc_missing', severity: 'high', evidence: { variantSelector: 'buttons' } });
+    });
+
+    it('should flag an add-to-cart button that is disabled by default', () => {
+      // Act
+      const result = rule.analyze(productPage({
+        variantSelector: { type: 'dropdown', optionCount: 2 },
+        addToCart: addToCart({ disabled: true, text: 'Select a size' })
+      }));
+
+      // Assert
+      expect(result.finding).toMatchObject({
+        ruleId: 'atc_disabled_by_default',
+        severity: 'high',
+        evidence: { text: 'Select a size', variantSelector: 'dropdown', optionCount: 2 }
+      });
+    });
+
+    it('should flag an add-to-cart button below the fold', () => {
+      // Act
+      const result = rule.analyze(productPage({ addToCart: addToCart({ aboveFold: false }) }));
+
+      // Assert
+      expect(result.score).toBe(5);
+      expect(result.finding).toMatchObject({ ruleId: 'atc_below_fold', severity: 'med', evidence: { aboveFoldHeight: 900 } });
+      expect(rule.analyze(productPage({ addToCart: addToCart({ aboveFold: false }) }), { ...defaults, belowFoldScoreRatio: 0.2 }).score).toBe(2);
+    });
+
+    it('should flag an add-to-cart button far from the price', () => {
+      // Act
+      const result = rule.analyze(productPage({ addToCart: addToCart({ distanceFromPrice: 795 }) }));
+
+      // Assert
+      expect(result.score).toBe(8);
+      expect(result.finding).toMatchObject({
+        ruleId: 'atc_far_from_price',
+        severity: 'low',
+        evidence: { distanceFromPrice: 795, maxDistance: 400 }
+      });
+    });
+
+    it('should compare the distance and scores with configured thresholds', () => {
+      // Arrange
+      const far = productPage({ addToCart: addToCart({ distanceFromPrice: 795 }) });
+
+      // Act & Assert
+      expect(rule.analyze(far, { ...defaults, maxPriceDistance: 800 })).toMatchObject({ passed: true, score: 10 });
+      expect(rule.analyze(far, { ...defaults, farFromPriceScoreRatio: 0.5 })).toMatchObject({ score: 5, finding: { evidence: { maxDistance: 400 } } });
+      expect(rule.analyze(far, { ...defaults, maxPriceDistance: 600 }).finding).toMatchObject({ evidence: { maxDistance: 600 } });
+    });
+
+    it('should skip pages without product metrics', () => {
+      // Act & Assert
+      expect(rule.analyze(productPage()).skipped).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * TDD Test Suite for Rule Configuration Persistence
+ * Global rows, user-scoped site overrides and the settings loaded for audits;
+ * the rule registry, layering and site lookup are mocked and Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import {
+  deleteSiteRuleOverride,
+  findConfigurableRule,
+  listRuleConfigs,
+  listSiteRuleConfigs,
+  loadAuditRuleConfig,
+  saveRuleConfig,
+  saveSiteRuleOverride
+} from '../rule-config-store';
+import { describeRuleConfig, resolveRuleConfig } from '../rule-config';
+import { getSite } from '../../sites/site-store';
+
+const heroRule = { ruleId: 'hero_cta_detection', name: 'Hero CTA Presence', description: 'Hero CTA', category: 'conversion' as const, maxScore: 15 };
+const socialRule = { ruleId: 'social_proof', name: 'Social Proof Present', description: 'Ratings', category: 'trust' as const, maxScore: 10 };
+
+jest.mock('../engine', () => ({
+  createDefaultEngine: () => ({ getRules: () => [heroRule, socialRule] })
+}));
+
+jest.mock('../rule-config', () => ({
+  describeRuleConfig: jest.fn((rule, global, override) => ({ ruleId: rule.ruleId, global, override })),
+  resolveRuleConfig: jest.fn(() => ({ rules: {}, changes: [] }))
+}));
+
+jest.mock('../../sites/site-store', () => ({
+  getSite: jest.fn()
+}));
+
+const globalRow = { id: 'hero_cta_detection', enabled: false, severity: 'low', maxScore: 20, thresholds: { minProminentWidth: 160 } };
+const overrideRow = { ruleId: 'hero_cta_detection', enabled: null, severity: null, maxScore: 5, thresholds: null };
+
+const globalConfig = { ruleId: 'hero_cta_detection', enabled: false, severity: 'low', maxScore: 20, thresholds: { minProminentWidth: 160 } };
+const overrideConfig = { ruleId: 'hero_cta_detection', enabled: null, severity: null, maxScore: 5, thresholds: {} };
+
+const input = { enabled: true, severity: null, maxScore: 20, thresholds: {} };
+
+describe('Rule Configuration Store - TDD', () => {
+  beforeEach(() => {
+    (getSite as jest.Mock).mockResolvedValue({ id: 'site-1' });
+    (prisma.heuristicRule.findMany as jest.Mock).mockResolvedValue([globalRow]);
+    (prisma.siteRuleOverride.findMany as jest.Mock).mockResolvedValue([overrideRow]);
+  });
+
+  describe('RED Phase: Access', () => {
+    it('should find built-in rules by id', () => {
+      // Act & Assert
+      expect(findConfigurableRule('social_proof')).toBe(socialRule);
+      expect(findConfigurableRule('trust_badges')).toBeNull();
+    });
+
+    it('should scope site overrides to the site owner', async () => {
+      // Arrange
+      (getSite as jest.Mock).mockResolvedValue(null);
+      (prisma.siteRuleOverride.deleteMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+      // Act & Assert
+      await expect(listSiteRuleConfigs('user-2', 'site-1')).resolves.toBeNull();
+      await expect(saveSiteRuleOverride('user-2', 'site-1', heroRule, input)).resolves.toBeNull();
+      await expect(deleteSiteRuleOverride('user-2', 'site-1', 'hero_cta_detection')).resolves.toBe(false);
+      expect(getSite).toHaveBeenCalledWith('user-2', 'site-1');
+      expect(prisma.siteRuleOverride.upsert).not.toHaveBeenCalled();
+      expect(prisma.siteRuleOverride.deleteMany).toHaveBeenCalledWith({
+        where: { siteId: 'site-1', ruleId: 'hero_cta_detection', site: { userId: 'user-2' } }
+      });
+    });
+  });
+
+  describe('GREEN Phase: Global Configuration', () => {
+    it('should list every built-in rule with its global row', async () => {
+      // Act
+      const views = await listRuleConfigs();
+
+      // Assert
+      expect(views).toEqual([
+        { ruleId: 'hero_cta_detection', global: globalConfig, override: null },
+        { ruleId: 'social_proof', global: null, override: null }
+      ]);
+    });
+
+    it('should upsert the global row with the rule metadata', async () => {
+      // Arrange
+      (prisma.heuristicRule.upsert as jest.Mock).mockResolvedValueOnce({ ...globalRow, enabled: true, severity: null, thresholds: {} });
+
+      // Act
+      const view = await saveRuleConfig(heroRule, input);
+
+      // Assert
+      const metadata = { name: 'Hero CTA Presence', description: 'Hero CTA', category: 'conversion' };
+      expect(prisma.heuristicRule.upsert).toHaveBeenCalledWith({
+        where: { id: 'hero_cta_detection' },
+        create: { id: 'hero_cta_detection', ...metadata, ...input },
+        update: { ...metadata, ...input },
+        select: { id: true, enabled: true, severity: true, maxScore: true, thresholds: true }
+      });
+      expect(view).toEqual({ ruleId: 'hero_cta_detection', global: { ...globalConfig, enabled: true, severity: null, thresholds: {} }, override: null });
+    });
+  });
+
+  describe('REFACTOR Phase: Site Overrides', () => {
+    it('should list rules with the global and site layers', async () => {
+      // Act
+      const views = await listSiteRuleConfigs('user-1', 'site-1');
+
+      // Assert
+      expect(prisma.siteRuleOverride.findMany).toHaveBeenCalledWith({
+        where: { siteId: 'site-1' },
+        select: { ruleId: true, enabled: true, severity: true, maxScore: true, thresholds: true }
+      });
+      expect(views).toEqual([
+        { ruleId: 'hero_cta_detection', global: globalConfig, override: overrideConfig },
+        { ruleId: 'social_proof', global: null, override: null }
+      ]);
+    });
+
+    it('should upsert a site override and describe it over the global row', async () => {
+      // Arrange
+      (prisma.heuristicRule.findUnique as jest.Mock).mockResolvedValueOnce(null).mockResolvedValueOnce(globalRow);
+      (prisma.siteRuleOverride.upsert as jest.Mock).mockResolvedValue(overrideRow);
+      (prisma.siteRuleOverride.deleteMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+      const override = { enabled: null, severity: null, maxScore: 5, thresholds: {} };
+
+      // Act
+      const withoutGlobal = await saveSiteRuleOverride('user-1', 'site-1', heroRule, override);
+      const withGlobal = await saveSiteRuleOverride('user-1', 'site-1', heroRule, override);
+      const deleted = await deleteSiteRuleOverride('user-1', 'site-1', 'hero_cta_detection');
+
+      // Assert
+      expect(prisma.siteRuleOverride.upsert).toHaveBeenCalledWith({
+        where: { siteId_ruleId: { siteId: 'site-1', ruleId: 'hero_cta_detection' } },
+        create: { siteId: 'site-1', ruleId: 'hero_cta_detection', ...override },
+        update: override,
+        select: { ruleId: true, enabled: true, severity: true, maxScore: true, thresholds: true }
+      });
+      expect(withoutGlobal).toEqual({ ruleId: 'hero_cta_detection', global: null, override: overrideConfig });
+      expect(withGlobal).toEqual({ ruleId: 'hero_cta_detection', global: globalConfig, override: overrideConfig });
+      expect(deleted).toBe(true);
+    });
+
+    it('should resolve the settings of an audit from both layers', async () => {
+      // Act
+      const config = await loadAuditRuleConfig('site-1');
+
+      // Assert
+      expect(config).toEqual({ rules: {}, changes: [] });
+      expect(resolveRuleConfig).toHaveBeenCalledWith([heroRule, socialRule], [globalConfig], [overrideConfig]);
+      expect(describeRuleConfig).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * TDD Test Suite for Rule Configuration
+ * Layering of built-in, global and site settings, and the changes recorded on audits
+ */
+
+import type { StoredRuleConfig } from '../../../types';
+import { describeRuleConfig, resolveRuleConfig, resolveRuleSettings, validateRuleConfig } from '../rule-config';
+import type { ConfigurableRule } from '../rule-config';
+
+const heroRule: ConfigurableRule = {
+  ruleId: 'hero_cta_detection',
+  name: 'Hero CTA Presence',
+  description: 'Ensures prominent call-to-action buttons are visible above the fold',
+  category: 'conversion',
+  maxScore: 15,
+  thresholds: {
+    minProminentWidth: { default: 120, min: 120, max: 600, description: 'Minimum width' },
+    weakCtaScoreRatio: { default: 0.47, min: 0, max: 1, description: 'Weak score ratio' }
+  }
+};
+
+const socialRule: ConfigurableRule = {
+  ruleId: 'social_proof',
+  name: 'Social Proof Present',
+  description: 'Ensures product ratings are visible',
+  category: 'trust',
+  maxScore: 10
+};
+
+const layer = (overrides: Partial<StoredRuleConfig> = {}): StoredRuleConfig => ({
+  ruleId: 'hero_cta_detection',
+  enabled: null,
+  severity: null,
+  maxScore: null,
+  thresholds: {},
+  ...overrides
+});
+
+describe('Rule Configuration - TDD', () => {
+  describe('RED Phase: Validation', () => {
+    it('should only accept thresholds the rule declares, within their range', () => {
+      // Act & Assert
+      expect(validateRuleConfig(heroRule, { thresholds: { minProminentWidth: 160, weakCtaScoreRatio: 0 } })).toBeNull();
+      expect(validateRuleConfig(heroRule, { thresholds: { minProminentHeight: 40 } })).toBe('Rule hero_cta_detection has no threshold named minProminentHeight');
+      expect(validateRuleConfig(heroRule, { thresholds: { minProminentWidth: 100 } })).toBe('minProminentWidth must be between 120 and 600');
+      expect(validateRuleConfig(socialRule, { thresholds: { ratio: 1 } })).toBe('Rule social_proof has no threshold named ratio');
+    });
+  });
+
+  describe('GREEN Phase: Layering', () => {
+    it('should run rules without configuration with their built-in settings', () => {
+      // Act & Assert
+      expect(resolveRuleSettings(heroRule, null, null)).toEqual({
+        enabled: true,
+        severity: null,
+        maxScore: 15,
+        thresholds: { minProminentWidth: 120, weakCtaScoreRatio: 0.47 }
+      });
+      expect(resolveRuleSettings(socialRule, null, null).thresholds).toEqual({});
+    });
+
+    it('should let site overrides win over the global configuration setting by setting', () => {
+      // Arrange
+      const global = layer({ enabled: false, severity: 'low', maxScore: 20, thresholds: { minProminentWidth: 140, removed: 3 } });
+      const override = layer({ enabled: true, thresholds: { weakCtaScoreRatio: 0.2 } });
+
+      // Act
+      const settings = resolveRuleSettings(heroRule, global, override);
+
+      // Assert
+      expect(settings).toEqual({
+        enabled: true,
+        severity: 'low',
+        maxScore: 20,
+        thresholds: { minProminentWidth: 140, weakCtaScoreRatio: 0.2 }
+      });
+    });
+  });
+
+  describe('REFACTOR Phase: Audit Records', () => {
+    it('should record every setting that differs from the built-in rule with its source', () => {
+      // Act
+      const config = resolveRuleConfig(
+        [heroRule, socialRule],
+        [layer({ enabled: true, maxScore: 20, thresholds: { minProminentWidth: 140 } }), layer({ ruleId: 'social_proof', enabled: true })],
+        [layer({ maxScore: 15, thresholds: { minProminentWidth: 160 } }), layer({ ruleId: 'social_proof', enabled: false, severity: 'high' })]
+      );
+
+      // Assert
+      expect(Object.keys(config.rules)).toEqual(['hero_cta_detection', 'social_proof']);
+      expect(config.rules.hero_cta_detection!.maxScore).toBe(15);
+      expect(config.changes).toEqual([
+        { ruleId: 'hero_cta_detection', setting: 'thresholds.minProminentWidth', from: 120, to: 160, source: 'site' },
+        { ruleId: 'social_proof', setting: 'enabled', from: true, to: false, source: 'site' },
+        { ruleId: 'social_proof', setting: 'severity', from: null, to: 'high', source: 'site' }
+      ]);
+    });
+
+    it('should attribute changes left to the global configuration to it', () => {
+      // Act
+      const { changes } = resolveRuleConfig([heroRule], [layer({ enabled: true, maxScore: 20 })], []);
+
+      // Assert
+      expect(changes).toEqual([{ ruleId: 'hero_cta_detection', setting: 'maxScore', from: 15, to: 20, source: 'global' }]);
+    });
+
+    it('should describe a rule with its defaults, layers and effective settings', () => {
+      // Arrange
+      const global = layer({ enabled: true, maxScore: 20 });
+
+      // Act
+      const view = describeRuleConfig(heroRule, global, null);
+
+      // Assert
+      expect(view).toMatchObject({
+        ruleId: 'hero_cta_detection',
+        name: 'Hero CTA Presence',
+        category: 'conversion',
+        thresholds: heroRule.thresholds,
+        defaults: { maxScore: 15 },
+        global,
+        override: null,
+        effective: { enabled: true, maxScore: 20, thresholds: { minProminentWidth: 120, weakCtaScoreRatio: 0.47 } }
+      });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for the Declarative Rule Test Harness
+ * Rule and fixture files are mocked, declarative-rules has its own tests
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { BaseHeuristicRule, RuleFixture } from '../../../types';
+import { loadDeclarativeRuleFile, loadRuleFixtureFile } from '../declarative-rules';
+import { fixturePathFor, runRuleFixtures, testRuleFile } from '../rule-harness';
+import { createFinding, failedResult, passedResult, skippedResult } from '../rule-helpers';
+
+jest.mock('../declarative-rules', () => ({
+  loadDeclarativeRuleFile: jest.fn(),
+  loadRuleFixtureFile: jest.fn()
+}));
+
+// Fails pages slower than the slowLoadMs threshold (3000 by default), skips carts
+const loadRule: BaseHeuristicRule = {
+  ruleId: 'page_load_time',
+  name: 'Page Load Time',
+  description: 'Flags slow pages',
+  category: 'performance',
+  maxScore: 10,
+  analyze: (page, thresholds) => {
+    if (page.type === 'cart') return skippedResult('Carts are not timed');
+    const { loadTime } = page.metrics.performance;
+    return loadTime >= (thresholds?.slowLoadMs ?? 3000)
+      ? failedResult(5, createFinding(page, 'page_load_slow', 'med', { loadTime }))
+      : passedResult(10);
+  }
+};
+
+const fixture = (name: string, loadTime: number, expectations: RuleFixture['expect'], extra: Partial<RuleFixture> = {}): RuleFixture => ({
+  name,
+  pageType: 'home',
+  url: 'https://fixture-store.myshopify.com/',
+  metrics: { aboveFold: { ctaButtons: [], height: 800 }, performance: { loadTime } },
+  expect: expectations,
+  ...extra
+});
+
+describe('Declarative Rule Test Harness - TDD', () => {
+  describe('RED Phase: Unmet Expectations', () => {
+    it('should list every expectation the result does not meet', () => {
+      // Act
+      const [result] = runRuleFixtures(loadRule, [
+        fixture('slow page', 4000, { passed: true, score: 10, finding: null, severity: 'high', skipped: true, evidence: { loadTime: 1000, device: 'mobile' } })
+      ]);
+
+      // Assert
+      expect(result!.passed).toBe(false);
+      expect(result!.failures).toEqual([
+        'expected skipped true, got false',
+        'expected passed true, got false',
+        'expected score 10, got 5',
+        'expected finding null, got "page_load_slow"',
+        'expected severity "high", got "med"',
+        'expected evidence loadTime 1000, got 4000',
+        'expected evidence device "mobile", got nothing'
+      ]);
+    });
+
+    it('should report findings expected on pages that pass', () => {
+      // Act
+      const [result] = runRuleFixtures(loadRule, [fixture('fast page', 1000, { finding: 'page_load_slow', evidence: { loadTime: 1000 } })]);
+
+      // Assert
+      expect(result!.failures).toEqual(['expected finding "page_load_slow", got null', 'expected evidence loadTime 1000, got nothing']);
+    });
+  });
+
+  describe('GREEN Phase: Fixture Pages', () => {
+    it('should run each fixture as a page of its type with its thresholds', () => {
+      // Act
+      const results = runRuleFixtures(loadRule, [
+        fixture('slow page', 4000, { passed: false, score: 5, finding: 'page_load_slow', severity: 'med', evidence: { loadTime: 4000 } }),
+        fixture('stricter threshold', 2000, { finding: 'page_load_slow' }, { thresholds: { slowLoadMs: 1500 } }),
+        fixture('cart', 9000, { skipped: true }, { pageType: 'cart' })
+      ]);
+
+      // Assert
+      expect(results.map(({ name, passed, failures }) => ({ name, passed, failures }))).toEqual([
+        { name: 'slow page', passed: true, failures: [] },
+        { name: 'stricter threshold', passed: true, failures: [] },
+        { name: 'cart', passed: true, failures: [] }
+      ]);
+      expect(results[0]!.result.finding).toMatchObject({ pageId: 'fixture-1', evidence: { loadTime: 4000 } });
+    });
+  });
+
+  describe('REFACTOR Phase: Rule Files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cro-harness-'));
+      fs.mkdirSync(path.join(dir, 'fixtures'));
+      (loadDeclarativeRuleFile as jest.Mock).mockReturnValue(loadRule);
+      (loadRuleFixtureFile as jest.Mock).mockReturnValue([fixture('fast page', 1000, { passed: true })]);
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should find the fixtures next to a rule file', () => {
+      // Arrange
+      fs.writeFileSync(path.join(dir, 'fixtures', 'load.yml'), '');
+      fs.writeFileSync(path.join(dir, 'fixtures', 'cart.json'), '');
+
+      // Act & Assert
+      expect(fixturePathFor(path.join(dir, 'load.yaml'))).toBe(path.join(dir, 'fixtures', 'load.yml'));
+      expect(fixturePathFor(path.join(dir, 'cart.json'))).toBe(path.join(dir, 'fixtures', 'cart.json'));
+      expect(fixturePathFor(path.join(dir, 'speed.yaml'))).toBeNull();
+    });
+
+    it('should run a rule file against its fixtures', () => {
+      // Arrange
+      fs.writeFileSync(path.join(dir, 'fixtures', 'load.yaml'), '');
+
+      // Act
+      const report = testRuleFile(path.join(dir, 'load.yaml'));
+
+      // Assert
+      expect(loadDeclarativeRuleFile).toHaveBeenCalledWith(path.join(dir, 'load.yaml'));
+      expect(loadRuleFixtureFile).toHaveBeenCalledWith(path.join(dir, 'fixtures', 'load.yaml'));
+      expect(report).toMatchObject({ ruleId: 'page_load_time', results: [{ name: 'fast page', passed: true }] });
+    });
+
+    it('should reject rule files without fixtures', () => {
+      // Act & Assert
+      expect(() => testRuleFile(path.join(dir, 'load.yaml'))).toThrow(`load.yaml has no fixtures in ${path.join(dir, 'fixtures')}`);
+    });
+  });
+});
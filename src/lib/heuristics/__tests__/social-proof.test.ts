@@ -0,0 +1,149 @@
+/**
+ * TDD Test Suite for Social Proof Heuristic Rule
+ * Review app detection, rating presence and placement
+ */
+
+import { SocialProofRule } from '../social-proof';
+import type { Page, SocialProofMetrics } from '../../../types';
+import { createMockPage } from '../../../test-utils';
+
+const productPage = (socialProof?: Partial<SocialProofMetrics>): Page => createMockPage({
+  id: 'pdp-1',
+  type: 'product',
+  url: 'https://test-store.myshopify.com/products/linen-shirt',
+  metrics: {
+    aboveFold: { ctaButtons: [], height: 900 },
+    performance: { loadTime: 1000 },
+    ...(socialProof ? {
+      socialProof: {
+        app: 'judgeme',
+        detectedApps: ['judgeme'],
+        rating: 4.8,
+        reviewCount: 128,
+        widget: {
+          selector: '.jdgm-prev-badge',
+          position: { top: 162, left: 760 },
+          size: { width: 200, height: 16 }
+        },
+        nearTitle: true,
+        aboveFold: true,
+        ...socialProof
+      }
+    } : {})
+  }
+});
+
+describe('SocialProofRule - TDD', () => {
+  const rule = new SocialProofRule();
+
+  describe('RED Phase: Rule Metadata', () => {
+    it('should be a 10 point trust rule for product pages', () => {
+      // Assert
+      expect(rule.ruleId).toBe('social_proof');
+      expect(rule.maxScore).toBe(10);
+      expect(rule.category).toBe('trust');
+      expect(rule.pageTypes).toEqual(['product']);
+    });
+
+    it('should skip pages without social proof metrics', () => {
+      // Act
+      const result = rule.analyze(productPage());
+
+      // Assert
+      expect(result.skipped).toBe(true);
+      expect(result.reason).toBe('Social proof metrics were not collected for this page');
+    });
+  });
+
+  describe('GREEN Phase: Detection', () => {
+    it('should pass when the rating sits next to the product title', () => {
+      // Act & Assert
+      expect(rule.analyze(productPage({}))).toEqual({ passed: true, score: 10, finding: null });
+      expect(rule.analyze(productPage({ nearTitle: false })).passed).toBe(true);
+      expect(rule.analyze(productPage({ aboveFold: false })).passed).toBe(true);
+    });
+
+    it('should flag pages without any review app', () => {
+      // Act
+      const result = rule.analyze(productPage({ app: null, detectedApps: [], widget: null, rating: null, reviewCount: null }));
+
+      // Assert
+      expect(result.score).toBe(0);
+      expect(result.finding).toMatchObject({
+        ruleId: 'social_proof_missing',
+        severity: 'med',
+        evidence: { app: null, configurationHint: null }
+      });
+    });
+
+    it('should name the installed app when its widget is not rendered', () => {
+      // Act
+      const result = rule.analyze(productPage({
+        app: 'okendo',
+        detectedApps: ['okendo', 'shopify_reviews'],
+        widget: null,
+        rating: null,
+        reviewCount: null
+      }));
+
+      // Assert
+      expect(result.score).toBe(0);
+      expect(result.finding).toMatchObject({
+        ruleId: 'social_proof_widget_hidden',
+        severity: 'med',
+        evidence: {
+          app: 'okendo',
+          appName: 'Okendo',
+          configurationHint: expect.stringContaining('Okendo Star Rating'),
+          detectedApps: ['okendo', 'shopify_reviews']
+        }
+      });
+    });
+  });
+
+  describe('REFACTOR Phase: Placement', () => {
+    it('should give partial score to a widget without reviews', () => {
+      // Act
+      const result = rule.analyze(productPage({ app: 'loox', rating: null, reviewCount: 0 }));
+
+      // Assert
+      expect(result.score).toBe(5);
+      expect(result.finding).toMatchObject({
+        ruleId: 'social_proof_no_reviews',
+        severity: 'low',
+        evidence: { app: 'loox', appName: 'Loox', selector: '.jdgm-prev-badge' }
+      });
+    });
+
+    it('should accept a review count without an average rating', () => {
+      // Act & Assert
+      expect(rule.analyze(productPage({ rating: null, reviewCount: 12 })).passed).toBe(true);
+    });
+
+    it('should flag ratings that are neither near the title nor above the fold', () => {
+      // Act
+      const result = rule.analyze(productPage({
+        app: 'yotpo',
+        nearTitle: false,
+        aboveFold: false,
+        widget: { selector: '.yotpo-bottomline', position: { top: 1960, left: 100 }, size: { width: 240, height: 20 } }
+      }));
+
+      // Assert
+      expect(result.score).toBe(5);
+      expect(result.finding).toMatchObject({
+        ruleId: 'social_proof_below_fold',
+        severity: 'med',
+        evidence: {
+          app: 'yotpo',
+          appName: 'Yotpo',
+          configurationHint: expect.stringContaining('Yotpo'),
+          rating: 4.8,
+          reviewCount: 128,
+          position: { top: 1960, left: 100 },
+          aboveFoldHeight: 900
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * TDD Test Suite for Sticky ATC Mobile Heuristic Rule
+ * Add-to-cart visibility after scrolling on the mobile profile
+ */
+
+import { StickyATCMobileRule } from '../sticky-atc-mobile';
+import type { Page, StickyAddToCart } from '../../../types';
+import { createMockPage } from '../../../test-utils';
+
+const productPage = (stickyAddToCart?: StickyAddToCart): Page => createMockPage({
+  id: 'pdp-1',
+  type: 'product',
+  url: 'https://test-store.myshopify.com/products/linen-shirt',
+  metrics: {
+    aboveFold: { ctaButtons: [], height: 900 },
+    performance: { loadTime: 1000 },
+    viewports: {
+      mobile: {
+        viewport: { width: 390, height: 844 },
+        aboveFold: { ctaButtons: [], height: 844 },
+        ...(stickyAddToCart ? { stickyAddToCart } : {})
+      }
+    }
+  }
+});
+
+describe('StickyATCMobileRule - TDD', () => {
+  const rule = new StickyATCMobileRule();
+
+  describe('RED Phase: Rule Metadata', () => {
+    it('should be a 9 point mobile rule for product pages', () => {
+      // Assert
+      expect(rule.ruleId).toBe('sticky_atc_mobile');
+      expect(rule.maxScore).toBe(9);
+      expect(rule.category).toBe('mobile');
+      expect(rule.pageTypes).toEqual(['product']);
+    });
+
+    it('should skip pages without a mobile scroll check', () => {
+      // Act & Assert
+      expect(rule.analyze(productPage()).reason).toBe('Page was not crawled with the mobile profile');
+      expect(rule.analyze(createMockPage({ type: 'product' })).skipped).toBe(true);
+    });
+
+    it('should skip pages where no add-to-cart button was found', () => {
+      // Act
+      const result = rule.analyze(productPage({ visibleAfterScroll: false, scrolledPast: false, scrollDepth: 0, element: null }));
+
+      // Assert
+      expect(result.skipped).toBe(true);
+      expect(result.reason).toBe('No add-to-cart button was found on mobile');
+    });
+
+    it('should skip pages too short to scroll past the add-to-cart button', () => {
+      // Act
+      const result = rule.analyze(productPage({ visibleAfterScroll: false, scrolledPast: false, scrollDepth: 56, element: null }));
+
+      // Assert
+      expect(result.skipped).toBe(true);
+      expect(result.reason).toBe('Page is too short to scroll past the add-to-cart button on mobile');
+    });
+  });
+
+  describe('GREEN Phase: Sticky Detection', () => {
+    it('should pass when an add-to-cart control stays on screen', () => {
+      // Act
+      const result = rule.analyze(productPage({
+        visibleAfterScroll: true,
+        scrolledPast: true,
+        scrollDepth: 2118,
+        element: {
+          text: 'Add to cart',
+          selector: '.sticky-atc__button',
+          position: { top: 2904, left: 10 },
+          size: { width: 370, height: 48 }
+        }
+      }));
+
+      // Assert
+      expect(result).toEqual({ passed: true, score: 9, finding: null });
+    });
+
+    it('should flag an add-to-cart button that scrolls out of view', () => {
+      // Act
+      const result = rule.analyze(productPage({ visibleAfterScroll: false, scrolledPast: true, scrollDepth: 2754, element: null }));
+
+      // Assert
+      expect(result.score).toBe(0);
+      expect(result.finding).toMatchObject({
+        ruleId: 'sticky_atc_missing',
+        severity: 'med',
+        evidence: { device: 'mobile', scrollDepth: 2754, viewport: { width: 390, height: 844 } }
+      });
+    });
+  });
+});
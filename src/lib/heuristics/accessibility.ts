@@ -0,0 +1,191 @@
+/**
+ * Accessibility Heuristic Rules
+ * Alt text, tap target size, form labels, heading structure and focus order.
+ * Apply to every page type; findings list the offending elements with their
+ * selector and the attribute at fault so merchants can fix them one by one.
+ *
+ * Scoring:
+ * - Alt Text Coverage (5 points): share of images with an alt attribute
+ * - Tap Target Size (5 points): share of targets meeting the minimum size (mobile when crawled)
+ * - Form Labels (6 points): share of labelled fields
+ * - Heading Structure (4 points): 0 without an h1, 2 with several h1s or skipped levels
+ * - Focus Order (3 points): 0 when any element has a positive tabindex
+ */
+
+import type { BaseHeuristicRule, HeuristicResult, Page, RuleThreshold, Severity } from '../../types';
+import { createFinding, failedResult, passedResult, skippedResult, thresholdDefaults } from './rule-helpers';
+
+const MISSING_ACCESSIBILITY_METRICS = 'Accessibility metrics were not collected for this page';
+
+type CoverageThreshold = 'majorityFailingRatio';
+
+const COVERAGE_THRESHOLDS: Readonly<Record<CoverageThreshold, RuleThreshold>> = {
+  majorityFailingRatio: { default: 0.5, min: 0, max: 1, description: 'Share of failing elements from which the finding is raised to medium severity' },
+};
+
+const toPercentage = (part: number, total: number): number => Math.round((part / total) * 100);
+
+export class AltTextCoverageRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'alt_text_coverage';
+  public readonly maxScore = 5;
+  public readonly name = 'Alt Text Coverage';
+  public readonly description = 'Ensures images have alt text so screen readers and search engines can describe them';
+  public readonly category = 'accessibility' as const;
+  public readonly thresholds = COVERAGE_THRESHOLDS;
+
+  analyze(page: Page, thresholds: Record<CoverageThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const images = page.metrics.accessibility?.images;
+    if (!images) {
+      return skippedResult(MISSING_ACCESSIBILITY_METRICS);
+    }
+    if (images.total === 0) {
+      return skippedResult('Page has no images');
+    }
+
+    const missingCount = images.total - images.withAlt;
+    if (missingCount === 0) {
+      return passedResult(this.maxScore);
+    }
+
+    const severity: Severity = missingCount / images.total >= thresholds.majorityFailingRatio ? 'med' : 'low';
+    return failedResult(this.maxScore * (images.withAlt / images.total), createFinding(page, 'alt_text_missing', severity, {
+      imageCount: images.total,
+      missingCount,
+      coverage: toPercentage(images.withAlt, images.total),
+      elements: images.missingAlt
+    }));
+  }
+}
+
+export class TapTargetSizeRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'tap_target_size';
+  public readonly maxScore = 5;
+  public readonly name = 'Tap Target Size';
+  public readonly description = 'Ensures links, buttons and fields are large enough to tap on touch screens';
+  public readonly category = 'accessibility' as const;
+  public readonly thresholds = COVERAGE_THRESHOLDS;
+
+  analyze(page: Page, thresholds: Record<CoverageThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const viewports = page.metrics.viewports;
+    const device = viewports?.mobile?.tapTargets ? 'mobile' : 'desktop';
+    const tapTargets = viewports?.[device]?.tapTargets;
+    if (!tapTargets) {
+      return skippedResult('Tap targets were not measured for this page');
+    }
+    if (tapTargets.total === 0) {
+      return skippedResult('Page has no interactive elements');
+    }
+    if (tapTargets.undersizedCount === 0) {
+      return passedResult(this.maxScore);
+    }
+
+    const failingRatio = tapTargets.undersizedCount / tapTargets.total;
+    return failedResult(this.maxScore * (1 - failingRatio), createFinding(page, 'tap_target_too_small', failingRatio >= thresholds.majorityFailingRatio ? 'med' : 'low', {
+      device,
+      minSize: tapTargets.minSize,
+      targetCount: tapTargets.total,
+      undersizedCount: tapTargets.undersizedCount,
+      elements: tapTargets.undersized
+    }));
+  }
+}
+
+export class FormLabelRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'form_labels';
+  public readonly maxScore = 6;
+  public readonly name = 'Form Field Labels';
+  public readonly description = 'Ensures every form field has a label announced by assistive technology';
+  public readonly category = 'accessibility' as const;
+
+  analyze(page: Page): HeuristicResult {
+    const formFields = page.metrics.accessibility?.formFields;
+    if (!formFields) {
+      return skippedResult(MISSING_ACCESSIBILITY_METRICS);
+    }
+    if (formFields.total === 0) {
+      return skippedResult('Page has no form fields');
+    }
+    if (formFields.unlabeledCount === 0) {
+      return passedResult(this.maxScore);
+    }
+
+    const labeledCount = formFields.total - formFields.unlabeledCount;
+    return failedResult(this.maxScore * (labeledCount / formFields.total), createFinding(page, 'form_field_unlabeled', 'high', {
+      fieldCount: formFields.total,
+      unlabeledCount: formFields.unlabeledCount,
+      elements: formFields.unlabeled
+    }));
+  }
+}
+
+export class HeadingStructureRule implements BaseHeuristicRule {
+  // Rule configuration constants
+  private static readonly STRUCTURE_ISSUE_SCORE_RATIO = 0.5;
+
+  // Rule metadata
+  public readonly ruleId = 'heading_structure';
+  public readonly maxScore = 4;
+  public readonly name = 'Heading Structure';
+  public readonly description = 'Ensures pages have a single h1 and headings that do not skip levels';
+  public readonly category = 'accessibility' as const;
+
+  analyze(page: Page): HeuristicResult {
+    const headings = page.metrics.accessibility?.headings;
+    if (!headings) {
+      return skippedResult(MISSING_ACCESSIBILITY_METRICS);
+    }
+
+    if (headings.h1Count === 0) {
+      return failedResult(0, createFinding(page, 'heading_h1_missing', 'med', {
+        h1Count: 0,
+        outline: headings.outline
+      }));
+    }
+
+    const partialScore = this.maxScore * HeadingStructureRule.STRUCTURE_ISSUE_SCORE_RATIO;
+
+    if (headings.h1Count > 1) {
+      return failedResult(partialScore, createFinding(page, 'heading_h1_multiple', 'low', {
+        h1Count: headings.h1Count,
+        outline: headings.outline
+      }));
+    }
+
+    if (headings.skippedLevels.length > 0) {
+      return failedResult(partialScore, createFinding(page, 'heading_level_skipped', 'low', {
+        elements: headings.skippedLevels,
+        outline: headings.outline
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+export class FocusOrderRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'focus_order';
+  public readonly maxScore = 3;
+  public readonly name = 'Focus Order';
+  public readonly description = 'Ensures keyboard focus follows the document order instead of positive tabindex values';
+  public readonly category = 'accessibility' as const;
+
+  analyze(page: Page): HeuristicResult {
+    const focusOrder = page.metrics.accessibility?.focusOrder;
+    if (!focusOrder) {
+      return skippedResult(MISSING_ACCESSIBILITY_METRICS);
+    }
+
+    if (focusOrder.positiveTabIndex.length > 0) {
+      return failedResult(0, createFinding(page, 'focus_order_positive_tabindex', 'med', {
+        elementCount: focusOrder.positiveTabIndex.length,
+        elements: focusOrder.positiveTabIndex
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Collection Page Heuristic Rules
+ * Filtering, sorting, product card and grid checks for collection pages.
+ * All rules are skipped when the crawl did not collect collection metrics.
+ *
+ * Scoring:
+ * - Collection Discoverability (10 points): 3 without filters, 7 without sorting,
+ *   0 without both; small collections are skipped
+ * - Product Card Content (10 points): 0 when a card lacks a price or an image,
+ *   half when no card shows a rating or offers quick-add
+ * - Product Grid Density (6 points): 0 when no product shows without scrolling,
+ *   half when fewer than the minimum do, on any device
+ * - Collection Pagination (4 points): 0 when only part of the collection can be
+ *   reached, half with infinite scroll
+ */
+
+import { DeviceEnum } from '../../types';
+import type { BaseHeuristicRule, CollectionMetrics, Device, HeuristicResult, Page, RuleThreshold } from '../../types';
+import { createFinding, failedResult, passedResult, skippedResult, thresholdDefaults } from './rule-helpers';
+
+const COLLECTION_PAGE_TYPES = ['collection'] as const;
+const MISSING_COLLECTION_METRICS = 'Collection metrics were not collected for this page';
+const NO_PRODUCTS = 'Collection has no product cards';
+
+const DEGRADED_SCORE_RATIO = 0.5;
+
+type DiscoverabilityThreshold = 'minProductsForFilters';
+type GridThreshold = 'minCardsAboveFold';
+
+interface DeviceGrid {
+  device: Device | null;
+  columns: number;
+  cardsAboveFold: number;
+  aboveFoldHeight: number;
+}
+
+export class CollectionDiscoverabilityRule implements BaseHeuristicRule {
+  // Rule configuration constants
+  private static readonly FILTERS_SCORE = 7;
+
+  // Rule metadata
+  public readonly ruleId = 'collection_discoverability';
+  public readonly maxScore = 10;
+  public readonly name = 'Collection Filtering and Sorting';
+  public readonly description = 'Ensures larger collections let shoppers narrow down and reorder products';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = COLLECTION_PAGE_TYPES;
+  public readonly thresholds: Readonly<Record<DiscoverabilityThreshold, RuleThreshold>> = {
+    minProductsForFilters: { default: 12, min: 1, max: 200, description: 'Products a collection holds before filters and sorting are expected' },
+  };
+
+  analyze(page: Page, thresholds: Record<DiscoverabilityThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const collection = page.metrics.collection;
+    if (!collection) {
+      return skippedResult(MISSING_COLLECTION_METRICS);
+    }
+
+    const size = collection.totalProducts ?? collection.productCount;
+    if (size < thresholds.minProductsForFilters) {
+      return skippedResult(`Collection has fewer than ${thresholds.minProductsForFilters} products`);
+    }
+
+    const evidence = {
+      productCount: collection.productCount,
+      totalProducts: collection.totalProducts,
+      filterGroups: collection.filters.groups,
+      sortOptions: collection.sort?.options ?? []
+    };
+
+    // Filters only in markup, with nothing on screen to open them, are missing to shoppers
+    if (!collection.filters.element) {
+      const score = collection.sort ? this.maxScore - CollectionDiscoverabilityRule.FILTERS_SCORE : 0;
+      return failedResult(score, createFinding(page, 'collection_filters_missing', 'med', evidence));
+    }
+
+    if (!collection.sort) {
+      return failedResult(CollectionDiscoverabilityRule.FILTERS_SCORE, createFinding(page, 'collection_sort_missing', 'low', {
+        ...evidence,
+        filters: collection.filters.element
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+export class ProductCardContentRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'product_card_content';
+  public readonly maxScore = 10;
+  public readonly name = 'Product Card Content';
+  public readonly description = 'Ensures every product card shows an image and a price, and cards help shoppers decide with ratings or quick-add';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = COLLECTION_PAGE_TYPES;
+
+  analyze(page: Page): HeuristicResult {
+    const collection = page.metrics.collection;
+    if (!collection) {
+      return skippedResult(MISSING_COLLECTION_METRICS);
+    }
+    if (collection.cards.length === 0) {
+      return skippedResult(NO_PRODUCTS);
+    }
+
+    const incomplete = collection.cards.flatMap(card => {
+      const missing = [...(card.price === null ? ['price'] : []), ...(card.image ? [] : ['image'])];
+      return missing.length > 0
+        ? [{ selector: card.selector, position: card.position, size: card.size, title: card.title, missing }]
+        : [];
+    });
+    if (incomplete.length > 0) {
+      return failedResult(0, createFinding(page, 'product_card_incomplete', 'high', {
+        cardCount: collection.cards.length,
+        incompleteCount: incomplete.length,
+        cards: incomplete
+      }));
+    }
+
+    if (!collection.cards.some(card => card.rating || card.quickAdd)) {
+      return failedResult(this.maxScore * DEGRADED_SCORE_RATIO, createFinding(page, 'product_card_details_missing', 'low', {
+        cardCount: collection.cards.length,
+        badgedCount: collection.cards.filter(card => card.badges.length > 0).length,
+        firstCard: collection.cards[0]!.selector
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+export class CollectionGridDensityRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'collection_grid_density';
+  public readonly maxScore = 6;
+  public readonly name = 'Product Grid Density';
+  public readonly description = 'Ensures shoppers see several products without scrolling, on desktop as on mobile';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = COLLECTION_PAGE_TYPES;
+  public readonly thresholds: Readonly<Record<GridThreshold, RuleThreshold>> = {
+    minCardsAboveFold: { default: 4, min: 1, max: 24, description: 'Product cards that should show without scrolling' },
+  };
+
+  analyze(page: Page, thresholds: Record<GridThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const collection = page.metrics.collection;
+    if (!collection) {
+      return skippedResult(MISSING_COLLECTION_METRICS);
+    }
+    if (collection.productCount === 0) {
+      return skippedResult(NO_PRODUCTS);
+    }
+
+    const grids = deviceGrids(page, collection);
+    const evidence = (grid: DeviceGrid) => ({
+      ...(grid.device ? { device: grid.device } : {}),
+      columns: grid.columns,
+      cardsAboveFold: grid.cardsAboveFold,
+      minCardsAboveFold: thresholds.minCardsAboveFold,
+      aboveFoldHeight: grid.aboveFoldHeight
+    });
+
+    const empty = grids.find(grid => grid.cardsAboveFold === 0);
+    if (empty) {
+      return failedResult(0, createFinding(page, 'collection_products_below_fold', 'high', evidence(empty)));
+    }
+
+    // A collection smaller than the minimum only has to show all of its products
+    const expected = Math.min(thresholds.minCardsAboveFold, collection.productCount);
+    const sparse = grids.find(grid => grid.cardsAboveFold < expected);
+    if (sparse) {
+      return failedResult(this.maxScore * DEGRADED_SCORE_RATIO, createFinding(page, 'collection_few_products_above_fold', 'med', evidence(sparse)));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+export class CollectionPaginationRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'collection_pagination';
+  public readonly maxScore = 4;
+  public readonly name = 'Collection Pagination';
+  public readonly description = 'Ensures shoppers can reach every product of the collection and find their way back to it';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = COLLECTION_PAGE_TYPES;
+
+  analyze(page: Page): HeuristicResult {
+    const collection = page.metrics.collection;
+    if (!collection) {
+      return skippedResult(MISSING_COLLECTION_METRICS);
+    }
+
+    if (collection.pagination === 'none' && collection.totalProducts !== null && collection.totalProducts > collection.productCount) {
+      return failedResult(0, createFinding(page, 'collection_pagination_missing', 'med', {
+        productCount: collection.productCount,
+        totalProducts: collection.totalProducts
+      }));
+    }
+
+    // Infinite scroll keeps the footer out of reach and loses the shopper's place on the way back
+    if (collection.pagination === 'infinite_scroll') {
+      return failedResult(this.maxScore * DEGRADED_SCORE_RATIO, createFinding(page, 'collection_infinite_scroll', 'low', {
+        productCount: collection.productCount,
+        totalProducts: collection.totalProducts
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+// Private helper methods for cleaner code organization
+
+// The grid of every crawled device, else the primary one for metrics stored without device data
+function deviceGrids(page: Page, collection: CollectionMetrics): DeviceGrid[] {
+  const viewports = page.metrics.viewports ?? {};
+  const grids = DeviceEnum.options.flatMap(device => {
+    const metrics = viewports[device];
+    return metrics?.productGrid ? [{ device, ...metrics.productGrid, aboveFoldHeight: metrics.viewport.height }] : [];
+  });
+  return grids.length > 0 ? grids : [{ device: null, ...collection.grid, aboveFoldHeight: page.metrics.aboveFold.height }];
+}
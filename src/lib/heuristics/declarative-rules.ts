@@ -0,0 +1,280 @@
+/**
+ * Declarative Heuristic Rules
+ * Rules written as JSON or YAML files instead of BaseHeuristicRule classes, for
+ * people who know what to check but don't write TypeScript. Files in
+ * HEURISTIC_RULES_DIR (default `rules`) are validated against
+ * DeclarativeRuleSchema, their paths are checked against the PageMetrics shape,
+ * and the default engine registers them next to the built-in rules. Audits read
+ * the files once per process and leave invalid ones out with an error in the
+ * log, so one bad file cannot stop them; `npm run rules:test` fails on it.
+ *
+ * Evaluation:
+ * - Pages missing one of the required paths are skipped
+ * - Tiers are tried in order: the first whose conditions all hold fails the page
+ *   with maxScore × scoreRatio and a finding carrying the evidence paths' values
+ * - Pages matching no tier pass with the full score
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { DeclarativeRuleSchema, HeuristicError, PageMetricsSchema, RuleFixtureSchema } from '../../types';
+import type {
+  BaseHeuristicRule,
+  DeclarativeRuleDefinition,
+  HeuristicCategory,
+  HeuristicResult,
+  Page,
+  PageMetrics,
+  PageType,
+  RuleCondition,
+  RuleFixture,
+  RuleThreshold,
+  RuleThresholdValues,
+} from '../../types';
+import { createFinding, failedResult, passedResult, skippedResult, thresholdDefaults } from './rule-helpers';
+
+const DEFAULT_RULES_DIR = 'rules';
+const RULE_FILE_PATTERN = /\.(json|ya?ml)$/;
+const NUMERIC_OPERATORS = ['lt', 'lte', 'gt', 'gte'];
+
+// Rules of each directory read by audits, by resolved path
+const runtimeRules = new Map<string, DeclarativeRule[]>();
+
+// Structural schema plus the checks that need the whole rule: threshold ranges and references, operands and paths
+const ValidatedRuleSchema = DeclarativeRuleSchema.superRefine((rule, ctx) => {
+  const checkPath = (metricPath: string, at: (string | number)[]) => {
+    if (!isMetricsPath(metricPath)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: at, message: `${metricPath} is not a page metric` });
+    }
+  };
+
+  for (const [name, threshold] of Object.entries(rule.thresholds)) {
+    if (threshold.min > threshold.default || threshold.default > threshold.max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['thresholds', name], message: 'default must be between min and max' });
+    }
+  }
+  rule.requires.forEach((metricPath, index) => checkPath(metricPath, ['requires', index]));
+
+  rule.tiers.forEach((tier, tierIndex) => {
+    tier.when.forEach((condition, conditionIndex) => {
+      const at = ['tiers', tierIndex, 'when', conditionIndex];
+      checkPath(condition.path, [...at, 'path']);
+      const operandError = describeOperandError(condition, rule.thresholds);
+      if (operandError) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: at, message: operandError });
+      }
+    });
+    for (const [field, metricPath] of Object.entries(tier.evidence)) {
+      checkPath(metricPath, ['tiers', tierIndex, 'evidence', field]);
+    }
+  });
+});
+
+const RuleFixturesSchema = z.array(RuleFixtureSchema).min(1);
+
+export class DeclarativeRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId: string;
+  public readonly maxScore: number;
+  public readonly name: string;
+  public readonly description: string;
+  public readonly category: HeuristicCategory;
+  public readonly pageTypes?: readonly PageType[];
+  public readonly thresholds: Readonly<Record<string, RuleThreshold>>;
+
+  constructor(private readonly definition: DeclarativeRuleDefinition) {
+    this.ruleId = definition.ruleId;
+    this.maxScore = definition.maxScore;
+    this.name = definition.name;
+    this.description = definition.description;
+    this.category = definition.category;
+    if (definition.pageTypes) {
+      this.pageTypes = definition.pageTypes;
+    }
+    this.thresholds = definition.thresholds;
+  }
+
+  analyze(page: Page, thresholds: RuleThresholdValues = {}): HeuristicResult {
+    const missing = this.definition.requires.find(metricPath => isMissing(readMetric(page.metrics, metricPath)));
+    if (missing) {
+      return skippedResult(`${missing} was not collected for this page`);
+    }
+
+    const values = { ...thresholdDefaults(this.thresholds), ...thresholds };
+    const tier = this.definition.tiers.find(candidate => candidate.when.every(condition => this.holds(condition, page.metrics, values)));
+    if (!tier) {
+      return passedResult(this.maxScore);
+    }
+
+    const evidence = Object.fromEntries(
+      Object.entries(tier.evidence).map(([field, metricPath]) => [field, readMetric(page.metrics, metricPath) ?? null])
+    );
+    return failedResult(this.maxScore * tier.scoreRatio, createFinding(page, tier.finding, tier.severity, evidence));
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private holds(condition: RuleCondition, metrics: PageMetrics, thresholds: RuleThresholdValues): boolean {
+    const actual = readMetric(metrics, condition.path);
+    const expected = condition.threshold !== undefined ? thresholds[condition.threshold] : condition.value;
+
+    switch (condition.op) {
+      case 'exists':
+        return !isMissing(actual);
+      case 'missing':
+        return isMissing(actual);
+      case 'eq':
+        return (actual ?? null) === expected;
+      case 'ne':
+        return (actual ?? null) !== expected;
+      default:
+        return typeof actual === 'number' && typeof expected === 'number' && compare(condition.op, actual, expected);
+    }
+  }
+}
+
+/**
+ * Validate and compile one rule file's contents; JSON is read as YAML
+ */
+export function parseDeclarativeRule(source: string, fileName: string): DeclarativeRule {
+  return new DeclarativeRule(parseDocument(source, fileName, ValidatedRuleSchema, 'rule'));
+}
+
+export function loadDeclarativeRuleFile(filePath: string): DeclarativeRule {
+  return parseDeclarativeRule(fs.readFileSync(filePath, 'utf8'), path.basename(filePath));
+}
+
+/**
+ * Every rule file in the directory, in file name order. A missing directory has
+ * no rules; an invalid file throws so it is not silently left out of audits.
+ */
+export function loadDeclarativeRules(dir = process.env.HEURISTIC_RULES_DIR ?? DEFAULT_RULES_DIR): DeclarativeRule[] {
+  return ruleFiles(dir).map(loadDeclarativeRuleFile);
+}
+
+/**
+ * Valid rule files of the directory for audits, read on the first call only.
+ * Invalid files are logged and left out so the built-in rules keep running.
+ */
+export function loadRuntimeDeclarativeRules(dir = process.env.HEURISTIC_RULES_DIR ?? DEFAULT_RULES_DIR): DeclarativeRule[] {
+  const root = path.resolve(dir);
+  let rules = runtimeRules.get(root);
+  if (!rules) {
+    rules = ruleFiles(root).flatMap(filePath => {
+      try {
+        return [loadDeclarativeRuleFile(filePath)];
+      } catch (error) {
+        console.error(`Rule file ${filePath} was left out of audits`, error);
+        return [];
+      }
+    });
+    runtimeRules.set(root, rules);
+  }
+  return rules;
+}
+
+/**
+ * Fixture pages of a rule file (see rule-harness)
+ */
+export function parseRuleFixtures(source: string, fileName: string): RuleFixture[] {
+  return parseDocument(source, fileName, RuleFixturesSchema, 'fixture file');
+}
+
+export function loadRuleFixtureFile(filePath: string): RuleFixture[] {
+  return parseRuleFixtures(fs.readFileSync(filePath, 'utf8'), path.basename(filePath));
+}
+
+// Private helper methods for cleaner code organization
+
+function ruleFiles(dir: string): string[] {
+  const root = path.resolve(dir);
+  if (!fs.existsSync(root)) {
+    return [];
+  }
+  return fs.readdirSync(root)
+    .filter(name => RULE_FILE_PATTERN.test(name))
+    .sort()
+    .map(name => path.join(root, name));
+}
+
+function parseDocument<T>(source: string, fileName: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, kind: string): T {
+  let document: unknown;
+  try {
+    document = parseYaml(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new HeuristicError(`${fileName} is not valid JSON or YAML: ${message}`, fileName);
+  }
+
+  const parsed = schema.safeParse(document);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+    throw new HeuristicError(`${fileName} is not a valid ${kind}: ${issues.join('; ')}`, fileName);
+  }
+  return parsed.data;
+}
+
+function describeOperandError(condition: RuleCondition, thresholds: Record<string, RuleThreshold>): string | null {
+  const operands = (condition.value !== undefined ? 1 : 0) + (condition.threshold !== undefined ? 1 : 0);
+  if (condition.op === 'exists' || condition.op === 'missing') {
+    return operands === 0 ? null : `${condition.op} takes no value or threshold`;
+  }
+  if (operands !== 1) {
+    return `${condition.op} takes either a value or a threshold`;
+  }
+  if (condition.threshold !== undefined && !thresholds[condition.threshold]) {
+    return `Threshold ${condition.threshold} is not declared`;
+  }
+  if (NUMERIC_OPERATORS.includes(condition.op) && condition.threshold === undefined && typeof condition.value !== 'number') {
+    return `${condition.op} compares with a number`;
+  }
+  return null;
+}
+
+function isMetricsPath(metricPath: string): boolean {
+  return describesMetric(PageMetricsSchema, metricPath.split('.'));
+}
+
+// Walks the PageMetrics schema: objects by field name, arrays by index or length
+function describesMetric(schema: z.ZodTypeAny, segments: string[]): boolean {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    return true;
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return describesMetric(schema.unwrap(), segments);
+  }
+  if (schema instanceof z.ZodArray) {
+    return segment === 'length' ? rest.length === 0 : /^\d+$/.test(segment) && describesMetric(schema.element, rest);
+  }
+  if (schema instanceof z.ZodObject && Object.prototype.hasOwnProperty.call(schema.shape, segment)) {
+    return describesMetric(schema.shape[segment], rest);
+  }
+  return false;
+}
+
+function readMetric(metrics: PageMetrics, metricPath: string): unknown {
+  return metricPath.split('.').reduce<unknown>(
+    (value, segment) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined),
+    metrics
+  );
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function compare(op: RuleCondition['op'], actual: number, expected: number): boolean {
+  switch (op) {
+    case 'lt':
+      return actual < expected;
+    case 'lte':
+      return actual <= expected;
+    case 'gt':
+      return actual > expected;
+    default:
+      return actual >= expected;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Heuristic Engine
+ * Runs the registered rules over the crawled pages of an audit and turns their
+ * scores into the 0-100 Audit.score with a per-category breakdown. Templates
+ * of an uploaded theme go through an engine of theme rules (see themes/theme-rules).
+ *
+ * Scoring:
+ * - Each rule contributes score/maxScore for every page it applies to
+ * - Skipped results and crashed rules are left out so they don't dilute the score
+ * - Category and overall scores are the rounded percentage of points earned
+ *
+ * Rule settings (see rule-config) are applied per run: disabled rules are not
+ * run, thresholds are handed to the rule, its score is rescaled to the
+ * configured maxScore and a configured severity replaces the finding's own.
+ *
+ * The default engine also registers the declarative rules written as JSON or
+ * YAML files (see declarative-rules).
+ */
+
+import { HeuristicError } from '../../types';
+import type {
+  AnalyzedPage,
+  AuditScore,
+  BaseHeuristicRule,
+  Finding,
+  HeuristicCategory,
+  HeuristicResult,
+  HeuristicRunResult,
+  Page,
+  RuleExecution,
+  RuleSettings,
+} from '../../types';
+import {
+  AltTextCoverageRule,
+  FocusOrderRule,
+  FormLabelRule,
+  HeadingStructureRule,
+  TapTargetSizeRule,
+} from './accessibility';
+import {
+  CollectionDiscoverabilityRule,
+  CollectionGridDensityRule,
+  CollectionPaginationRule,
+  ProductCardContentRule,
+} from './collection';
+import { loadRuntimeDeclarativeRules } from './declarative-rules';
+import {
+  CartCheckoutVisibilityRule,
+  CartUpsellRule,
+  ExpressCheckoutRule,
+  FreeShippingMessageRule,
+  FunnelCompletionRule,
+} from './funnel';
+import { HeroCTARule } from './hero-cta';
+import {
+  CumulativeLayoutShiftRule,
+  LargestContentfulPaintRule,
+  ThirdPartyAppWeightRule,
+  TotalBlockingTimeRule,
+} from './performance';
+import { AddToCartRule, PriceDisplayRule, SalePriceAnchoringRule } from './product-page';
+import { SocialProofRule } from './social-proof';
+import { StickyATCMobileRule } from './sticky-atc-mobile';
+
+export class HeuristicEngine<P extends AnalyzedPage = Page> {
+  private readonly rules = new Map<string, BaseHeuristicRule<P>>();
+
+  /**
+   * Add a rule to the registry. Rule ids must be unique.
+   */
+  register(rule: BaseHeuristicRule<P>): this {
+    if (this.rules.has(rule.ruleId)) {
+      throw new HeuristicError(`Rule "${rule.ruleId}" is already registered`, rule.ruleId);
+    }
+    this.rules.set(rule.ruleId, rule);
+    return this;
+  }
+
+  getRules(): BaseHeuristicRule<P>[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Run every applicable rule on every page and score the audit. Rules
+   * without settings run with their built-in ones.
+   */
+  run(pages: P[], settings: Record<string, RuleSettings> = {}): HeuristicRunResult {
+    const executions: RuleExecution[] = [];
+    const findings: Finding[] = [];
+    const errors: HeuristicError[] = [];
+
+    for (const page of pages) {
+      for (const rule of this.getApplicableRules(page, settings)) {
+        try {
+          const ruleSettings = settings[rule.ruleId];
+          const result = ruleSettings ? this.applySettings(rule.analyze(page, ruleSettings.thresholds), rule, ruleSettings) : rule.analyze(page);
+          executions.push({
+            ruleId: rule.ruleId,
+            pageId: page.id,
+            category: rule.category,
+            maxScore: ruleSettings?.maxScore ?? rule.maxScore,
+            result,
+          });
+          if (result.finding) {
+            findings.push(result.finding);
+          }
+        } catch (error) {
+          errors.push(this.toHeuristicError(error, rule, page));
+        }
+      }
+    }
+
+    return {
+      score: HeuristicEngine.calculateScore(executions),
+      findings,
+      executions,
+      errors,
+    };
+  }
+
+  /**
+   * Normalise rule executions into an overall 0-100 score and category breakdown
+   */
+  static calculateScore(executions: RuleExecution[]): AuditScore {
+    const totals = new Map<HeuristicCategory, { earned: number; possible: number }>();
+
+    for (const execution of executions) {
+      if (execution.result.skipped || execution.maxScore <= 0) continue;
+
+      const earned = Math.min(Math.max(execution.result.score, 0), execution.maxScore);
+      const total = totals.get(execution.category) ?? { earned: 0, possible: 0 };
+      total.earned += earned;
+      total.possible += execution.maxScore;
+      totals.set(execution.category, total);
+    }
+
+    const breakdown: AuditScore['breakdown'] = {};
+    let earned = 0;
+    let possible = 0;
+    for (const [category, total] of Array.from(totals)) {
+      breakdown[category] = HeuristicEngine.toPercentage(total.earned, total.possible);
+      earned += total.earned;
+      possible += total.possible;
+    }
+
+    return {
+      overall: possible > 0 ? HeuristicEngine.toPercentage(earned, possible) : null,
+      breakdown,
+    };
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private static toPercentage(earned: number, possible: number): number {
+    return Math.round((earned / possible) * 100);
+  }
+
+  private getApplicableRules(page: P, settings: Record<string, RuleSettings>): BaseHeuristicRule<P>[] {
+    return this.getRules().filter(rule =>
+      settings[rule.ruleId]?.enabled !== false && (!rule.pageTypes || rule.pageTypes.includes(page.type))
+    );
+  }
+
+  private applySettings(result: HeuristicResult, rule: BaseHeuristicRule<P>, settings: RuleSettings): HeuristicResult {
+    const score = rule.maxScore > 0 ? (result.score / rule.maxScore) * settings.maxScore : 0;
+    const finding = result.finding && settings.severity ? { ...result.finding, severity: settings.severity } : result.finding;
+    return { ...result, score, finding };
+  }
+
+  private toHeuristicError(error: unknown, rule: BaseHeuristicRule<P>, page: P): HeuristicError {
+    if (error instanceof HeuristicError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new HeuristicError(`Rule "${rule.ruleId}" failed on ${page.url}: ${message}`, rule.ruleId, page.url);
+  }
+}
+
+/**
+ * Engine with all built-in rules and the valid declarative rule files registered
+ */
+export function createDefaultEngine(): HeuristicEngine {
+  const engine = new HeuristicEngine()
+    .register(new HeroCTARule())
+    .register(new PriceDisplayRule())
+    .register(new SalePriceAnchoringRule())
+    .register(new AddToCartRule())
+    .register(new SocialProofRule())
+    .register(new StickyATCMobileRule())
+    .register(new AltTextCoverageRule())
+    .register(new TapTargetSizeRule())
+    .register(new FormLabelRule())
+    .register(new HeadingStructureRule())
+    .register(new FocusOrderRule())
+    .register(new LargestContentfulPaintRule())
+    .register(new CumulativeLayoutShiftRule())
+    .register(new TotalBlockingTimeRule())
+    .register(new ThirdPartyAppWeightRule())
+    .register(new FunnelCompletionRule())
+    .register(new CartCheckoutVisibilityRule())
+    .register(new ExpressCheckoutRule())
+    .register(new FreeShippingMessageRule())
+    .register(new CartUpsellRule())
+    .register(new CollectionDiscoverabilityRule())
+    .register(new ProductCardContentRule())
+    .register(new CollectionGridDensityRule())
+    .register(new CollectionPaginationRule());
+
+  for (const rule of loadRuntimeDeclarativeRules()) {
+    engine.register(rule);
+  }
+  return engine;
+}
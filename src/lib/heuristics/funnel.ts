@@ -0,0 +1,231 @@
+/**
+ * Funnel Heuristic Rules
+ * Checks the walk from a product page through add-to-cart and the cart to the
+ * checkout entry point, recorded on the cart page of a funnel crawl
+ * (metrics.funnel). Every device walks the funnel, and findings name the first
+ * device where the check fails. All rules are skipped on pages without a walk.
+ *
+ * Scoring:
+ * - Funnel Completion (15 points): 0 when a step fails, half when a step throws
+ *   script errors or cart requests fail, or when adding to cart or opening the cart is slow
+ * - Checkout Button Visibility (10 points): 0 when the cart has no checkout button
+ *   or shows it only after scrolling the page or the drawer
+ * - Express Checkout (5 points): 0 when the cart offers no accelerated checkout button
+ * - Free Shipping Message (4 points): 0 when the cart does not tell how far free shipping is
+ * - Cart Upsell (3 points): 0 when the cart recommends nothing to add
+ */
+
+import type { BaseHeuristicRule, CartView, FunnelRun, FunnelStep, HeuristicResult, Page, RuleThreshold } from '../../types';
+import { createFinding, failedResult, passedResult, skippedResult, thresholdDefaults } from './rule-helpers';
+
+type CartRun = FunnelRun & { cart: CartView };
+type StepMatcher = Parameters<FunnelStep[]['find']>[0];
+
+const FUNNEL_PAGE_TYPES = ['cart'] as const;
+const MISSING_FUNNEL = 'No funnel walk was recorded for this page';
+const MISSING_CART = 'The funnel walk did not reach the cart';
+
+const DEGRADED_SCORE_RATIO = 0.5;
+
+// Steps whose duration is the theme's own doing, unlike the product page load
+const TIMED_STEPS = ['add_to_cart', 'cart'];
+
+type FunnelThreshold = 'slowStepMs';
+
+export class FunnelCompletionRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'funnel_completion';
+  public readonly maxScore = 15;
+  public readonly name = 'Add-to-Cart Funnel';
+  public readonly description = 'Ensures shoppers can add a product to the cart and reach the checkout without errors or long waits';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = FUNNEL_PAGE_TYPES;
+  public readonly thresholds: Readonly<Record<FunnelThreshold, RuleThreshold>> = {
+    slowStepMs: { default: 3000, min: 500, max: 30000, description: 'Milliseconds adding to cart or opening the cart can take before shoppers give up' },
+  };
+
+  analyze(page: Page, thresholds: Record<FunnelThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const funnel = page.metrics.funnel;
+    if (!funnel) {
+      return skippedResult(MISSING_FUNNEL);
+    }
+
+    const failed = firstStep(funnel.runs, step => step.status === 'failed');
+    if (failed) {
+      return failedResult(0, createFinding(page, 'funnel_step_failed', 'high', {
+        device: failed.run.device,
+        step: failed.step.step,
+        detail: failed.step.detail,
+        url: failed.step.url,
+        errors: failed.step.errors,
+        failedDevices: funnel.runs.filter(run => run.steps.some(step => step.status === 'failed')).map(run => run.device),
+        productUrl: funnel.productUrl
+      }));
+    }
+
+    const erroring = firstStep(funnel.runs, step => step.errors.length > 0);
+    if (erroring) {
+      return failedResult(this.maxScore * DEGRADED_SCORE_RATIO, createFinding(page, 'funnel_script_errors', 'med', {
+        device: erroring.run.device,
+        step: erroring.step.step,
+        errors: erroring.step.errors,
+        productUrl: funnel.productUrl
+      }));
+    }
+
+    const slow = firstStep(funnel.runs, step => TIMED_STEPS.includes(step.step) && step.durationMs > thresholds.slowStepMs);
+    if (slow) {
+      return failedResult(this.maxScore * DEGRADED_SCORE_RATIO, createFinding(page, 'funnel_step_slow', 'med', {
+        device: slow.run.device,
+        step: slow.step.step,
+        durationMs: slow.step.durationMs,
+        slowStepMs: thresholds.slowStepMs
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+export class CartCheckoutVisibilityRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'cart_checkout_visible';
+  public readonly maxScore = 10;
+  public readonly name = 'Checkout Button Visibility';
+  public readonly description = 'Ensures the cart shows its checkout button without scrolling, in the drawer as on the cart page';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = FUNNEL_PAGE_TYPES;
+
+  analyze(page: Page): HeuristicResult {
+    const runs = cartRuns(page);
+    if (!runs) {
+      return missingCartResult(page);
+    }
+
+    const missing = runs.find(run => !run.cart.checkoutButton);
+    if (missing) {
+      return failedResult(0, createFinding(page, 'cart_checkout_missing', 'high', {
+        device: missing.device,
+        view: missing.cart.view,
+        itemCount: missing.cart.itemCount
+      }));
+    }
+
+    const hidden = runs.find(run => !run.cart.checkoutButton!.onScreen);
+    if (hidden) {
+      return failedResult(0, createFinding(page, 'cart_checkout_hidden', 'high', {
+        device: hidden.device,
+        view: hidden.cart.view,
+        checkoutButton: hidden.cart.checkoutButton,
+        aboveFoldHeight: page.metrics.viewports?.[hidden.device]?.viewport.height ?? page.metrics.aboveFold.height
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+export class ExpressCheckoutRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'cart_express_checkout';
+  public readonly maxScore = 5;
+  public readonly name = 'Express Checkout in Cart';
+  public readonly description = 'Ensures the cart offers accelerated checkout buttons such as Shop Pay, Apple Pay or PayPal';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = FUNNEL_PAGE_TYPES;
+
+  analyze(page: Page): HeuristicResult {
+    const runs = cartRuns(page);
+    if (!runs) {
+      return missingCartResult(page);
+    }
+
+    const missing = runs.find(run => run.cart.expressPay.length === 0);
+    if (missing) {
+      return failedResult(0, createFinding(page, 'express_checkout_missing', 'low', {
+        device: missing.device,
+        view: missing.cart.view
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+export class FreeShippingMessageRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'cart_free_shipping_message';
+  public readonly maxScore = 4;
+  public readonly name = 'Free Shipping Message in Cart';
+  public readonly description = 'Ensures the cart tells shoppers how far they are from free shipping';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = FUNNEL_PAGE_TYPES;
+
+  analyze(page: Page): HeuristicResult {
+    const runs = cartRuns(page);
+    if (!runs) {
+      return missingCartResult(page);
+    }
+
+    const missing = runs.find(run => run.cart.shippingThreshold === null);
+    if (missing) {
+      return failedResult(0, createFinding(page, 'free_shipping_message_missing', 'low', {
+        device: missing.device,
+        view: missing.cart.view
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+export class CartUpsellRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'cart_upsell';
+  public readonly maxScore = 3;
+  public readonly name = 'Cart Upsell';
+  public readonly description = 'Ensures the cart recommends products to add before checking out';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = FUNNEL_PAGE_TYPES;
+
+  analyze(page: Page): HeuristicResult {
+    const runs = cartRuns(page);
+    if (!runs) {
+      return missingCartResult(page);
+    }
+
+    const missing = runs.find(run => !run.cart.upsell);
+    if (missing) {
+      return failedResult(0, createFinding(page, 'cart_upsell_missing', 'low', {
+        device: missing.device,
+        view: missing.cart.view,
+        itemCount: missing.cart.itemCount
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+// Private helper methods for cleaner code organization
+
+// First step matching in the runs, in device order
+function firstStep(runs: FunnelRun[], matches: StepMatcher) {
+  for (const run of runs) {
+    const step = run.steps.find(matches);
+    if (step) {
+      return { run, step };
+    }
+  }
+  return null;
+}
+
+// Runs that got to read the cart, null when there are none
+function cartRuns(page: Page): CartRun[] | null {
+  const runs = (page.metrics.funnel?.runs ?? []).filter((run): run is CartRun => run.cart !== null);
+  return runs.length > 0 ? runs : null;
+}
+
+function missingCartResult(page: Page): HeuristicResult {
+  return skippedResult(page.metrics.funnel ? MISSING_CART : MISSING_FUNNEL);
+}
@@ -5,53 +5,77 @@
  * 
  * Scoring:
  * - 15 points: Prominent CTA present above fold
- * - 7 points: CTA present but not prominent (47% of max)
+ * - 7 points: CTA present but not prominent (weakCtaScoreRatio, 47% of max)
  * - 0 points: No CTA above fold
+ *
+ * A CTA is prominent when the crawler found it styled as a button inside the
+ * fold and it is at least minProminentWidth × minProminentHeight. The crawler
+ * only flags CTAs from 120×35 px, so the configurable minimums can only go up.
+ *
+ * When the page was crawled on several devices every fold is checked and the
+ * worst device decides the score; findings name the device that failed.
  */
 
-import type { Page, Finding, HeuristicResult, BaseHeuristicRule, CTAButton } from '../../types';
+import { DeviceEnum } from '../../types';
+import type { Page, Finding, HeuristicResult, BaseHeuristicRule, CTAButton, AboveFoldMetrics, Device, RuleThreshold } from '../../types';
+import { thresholdDefaults } from './rule-helpers';
+
+interface DeviceFold {
+  device: Device | null; // null for pages crawled before per-device metrics existed
+  aboveFold: AboveFoldMetrics;
+}
+
+type HeroCTAThreshold = 'minProminentWidth' | 'minProminentHeight' | 'weakCtaScoreRatio';
+type HeroCTAThresholds = Record<HeroCTAThreshold, number>;
 
 export class HeroCTARule implements BaseHeuristicRule {
   // Rule configuration constants
   private static readonly APPLICABLE_PAGE_TYPES = ['home', 'product'] as const;
-  private static readonly WEAK_CTA_SCORE_RATIO = 0.47;
-  private static readonly MIN_PROMINENT_WIDTH = 120;
-  private static readonly MIN_PROMINENT_HEIGHT = 35;
 
   // Rule metadata
   public readonly ruleId = 'hero_cta_detection';
   public readonly maxScore = 15;
   public readonly name = 'Hero CTA Presence';
   public readonly description = 'Ensures prominent call-to-action buttons are visible above the fold';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = HeroCTARule.APPLICABLE_PAGE_TYPES;
+  public readonly thresholds: Readonly<Record<HeroCTAThreshold, RuleThreshold>> = {
+    minProminentWidth: { default: 120, min: 120, max: 600, description: 'Minimum width of a prominent CTA in CSS pixels' },
+    minProminentHeight: { default: 35, min: 35, max: 200, description: 'Minimum height of a prominent CTA in CSS pixels' },
+    weakCtaScoreRatio: { default: 0.47, min: 0, max: 1, description: 'Share of the score kept when no CTA above the fold is prominent' },
+  };
 
-  analyze(page: Page): HeuristicResult {
+  analyze(page: Page, thresholds: HeroCTAThresholds = thresholdDefaults(this.thresholds)): HeuristicResult {
     // Only apply to specific page types
     if (!this.isApplicablePageType(page.type)) {
       return this.createSkippedResult();
     }
 
-    const ctaButtons = page.metrics.aboveFold.ctaButtons;
-    
-    if (ctaButtons.length === 0) {
-      return this.createMissingCTAResult(page);
+    const folds = this.getDeviceFolds(page);
+    const missingFolds = folds.filter(fold => fold.aboveFold.ctaButtons.length === 0);
+    const weakFolds = folds.filter(fold =>
+      fold.aboveFold.ctaButtons.length > 0 && !fold.aboveFold.ctaButtons.some(cta => this.isProminentCTA(cta, thresholds))
+    );
+    const failedDevices = [...missingFolds, ...weakFolds].flatMap(fold => fold.device ? [fold.device] : []);
+
+    if (missingFolds[0]) {
+      return this.createMissingCTAResult(page, missingFolds[0], failedDevices);
     }
 
-    const prominentCTAs = ctaButtons.filter(cta => cta.prominent);
-    
-    if (prominentCTAs.length > 0) {
-      return this.createSuccessResult();
-    } else {
-      return this.createWeakCTAResult(page, ctaButtons);
+    if (weakFolds[0]) {
+      return this.createWeakCTAResult(page, weakFolds[0], failedDevices, thresholds.weakCtaScoreRatio);
     }
+
+    return this.createSuccessResult();
   }
 
   /**
    * Helper method to determine if a CTA is prominent
    * Used for testing and debugging
    */
-  public isProminentCTA(cta: CTAButton): boolean {
-    return cta.size.width >= HeroCTARule.MIN_PROMINENT_WIDTH && 
-           cta.size.height >= HeroCTARule.MIN_PROMINENT_HEIGHT &&
+  public isProminentCTA(cta: CTAButton, thresholds: HeroCTAThresholds = thresholdDefaults(this.thresholds)): boolean {
+    return cta.size.width >= thresholds.minProminentWidth && 
+           cta.size.height >= thresholds.minProminentHeight &&
            cta.prominent;
   }
 
@@ -61,6 +85,19 @@ export class HeroCTARule implements BaseHeuristicRule {
     return HeroCTARule.APPLICABLE_PAGE_TYPES.includes(pageType as any);
   }
 
+  private getDeviceFolds(page: Page): DeviceFold[] {
+    const viewports = page.metrics.viewports ?? {};
+    const folds = DeviceEnum.options.flatMap(device => {
+      const metrics = viewports[device];
+      return metrics ? [{ device, aboveFold: metrics.aboveFold }] : [];
+    });
+    return folds.length > 0 ? folds : [{ device: null, aboveFold: page.metrics.aboveFold }];
+  }
+
+  private createDeviceEvidence(fold: DeviceFold, failedDevices: Device[]): Record<string, any> {
+    return fold.device ? { device: fold.device, failedDevices } : {};
+  }
+
   private createSkippedResult(): HeuristicResult {
     return {
       passed: false,
@@ -71,14 +108,15 @@ export class HeroCTARule implements BaseHeuristicRule {
     };
   }
 
-  private createMissingCTAResult(page: Page): HeuristicResult {
+  private createMissingCTAResult(page: Page, fold: DeviceFold, failedDevices: Device[]): HeuristicResult {
     return {
       passed: false,
       score: 0,
       finding: this.createFinding(page, 'hero_cta_missing', 'high', {
         ctaCount: 0,
         pageType: page.type,
-        aboveFoldHeight: page.metrics.aboveFold.height
+        aboveFoldHeight: fold.aboveFold.height,
+        ...this.createDeviceEvidence(fold, failedDevices)
       })
     };
   }
@@ -91,18 +129,22 @@ export class HeroCTARule implements BaseHeuristicRule {
     };
   }
 
-  private createWeakCTAResult(page: Page, ctaButtons: CTAButton[]): HeuristicResult {
+  private createWeakCTAResult(page: Page, fold: DeviceFold, failedDevices: Device[], scoreRatio: number): HeuristicResult {
+    const ctaButtons = fold.aboveFold.ctaButtons;
     return {
       passed: false,
-      score: Math.floor(this.maxScore * HeroCTARule.WEAK_CTA_SCORE_RATIO),
+      score: Math.floor(this.maxScore * scoreRatio),
       finding: this.createFinding(page, 'hero_cta_weak', 'med', {
         ctaCount: ctaButtons.length,
         prominentCount: 0,
         weakCTAs: ctaButtons.map(cta => ({
           text: cta.text,
+          selector: cta.selector,
+          position: cta.position,
           size: cta.size,
           prominent: cta.prominent
-        }))
+        })),
+        ...this.createDeviceEvidence(fold, failedDevices)
       })
     };
   }
@@ -0,0 +1,197 @@
+/**
+ * Performance Heuristic Rules
+ * Core Web Vitals and third-party app weight, read from the lab vitals the
+ * crawler measures under throttled mobile conditions (performance.vitals).
+ * Apply to every page type and are skipped on pages crawled without vitals.
+ *
+ * Each vital is rated against Google's good / poor boundaries, configurable as thresholds:
+ * - Good: full score
+ * - Needs improvement: half the score, medium severity
+ * - Poor: 0 points, high severity
+ *
+ * Scoring:
+ * - Largest Contentful Paint (10 points): good up to 2.5 s, poor from 4 s
+ * - Cumulative Layout Shift (8 points): good up to 0.1, poor from 0.25
+ * - Total Blocking Time (8 points): good up to 200 ms, poor from 600 ms; stands in for INP, which needs real input
+ * - Third-Party App Weight (6 points): script kilobytes of third-party apps against a budget;
+ *   findings name the costliest apps so merchants know which ones to review
+ */
+
+import type { BaseHeuristicRule, HeuristicResult, Page, RuleThreshold, Severity, WebVitals } from '../../types';
+import { createFinding, failedResult, passedResult, skippedResult, thresholdDefaults } from './rule-helpers';
+
+type Rating = 'good' | 'needs_improvement' | 'poor';
+
+interface RatedMetric {
+  rating: Rating;
+  scoreRatio: number;
+  severity: Severity;
+}
+
+const MISSING_VITALS = 'Web vitals were not measured for this page';
+
+const NEEDS_IMPROVEMENT_SCORE_RATIO = 0.5;
+
+// Apps listed in a third-party weight finding
+const MAX_REPORTED_APPS = 5;
+
+const BYTES_PER_KB = 1024;
+
+function rate(value: number, good: number, poor: number): RatedMetric {
+  if (value >= poor) {
+    return { rating: 'poor', scoreRatio: 0, severity: 'high' };
+  }
+  if (value > good) {
+    return { rating: 'needs_improvement', scoreRatio: NEEDS_IMPROVEMENT_SCORE_RATIO, severity: 'med' };
+  }
+  return { rating: 'good', scoreRatio: 1, severity: 'low' };
+}
+
+type LcpThreshold = 'goodLcpMs' | 'poorLcpMs';
+
+export class LargestContentfulPaintRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'largest_contentful_paint';
+  public readonly maxScore = 10;
+  public readonly name = 'Largest Contentful Paint';
+  public readonly description = 'Ensures the main content of the page shows up quickly on a mid-range phone';
+  public readonly category = 'performance' as const;
+  public readonly thresholds: Readonly<Record<LcpThreshold, RuleThreshold>> = {
+    goodLcpMs: { default: 2500, min: 1000, max: 10000, description: 'Largest contentful paint in milliseconds up to which the page is fast' },
+    poorLcpMs: { default: 4000, min: 1500, max: 20000, description: 'Largest contentful paint in milliseconds from which the page earns no points' },
+  };
+
+  analyze(page: Page, thresholds: Record<LcpThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const vitals = page.metrics.performance.vitals;
+    if (!vitals) {
+      return skippedResult(MISSING_VITALS);
+    }
+    if (vitals.lcp === null) {
+      return skippedResult('No largest contentful paint was recorded');
+    }
+
+    const rated = rate(vitals.lcp, thresholds.goodLcpMs, thresholds.poorLcpMs);
+    if (rated.rating === 'good') {
+      return passedResult(this.maxScore);
+    }
+    return failedResult(this.maxScore * rated.scoreRatio, createFinding(page, `lcp_${rated.rating}`, rated.severity, {
+      device: vitals.device,
+      lcp: vitals.lcp,
+      fcp: vitals.fcp,
+      goodLcpMs: thresholds.goodLcpMs,
+      imageBytes: vitals.imageBytes
+    }));
+  }
+}
+
+type ClsThreshold = 'goodCls' | 'poorCls';
+
+export class CumulativeLayoutShiftRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'cumulative_layout_shift';
+  public readonly maxScore = 8;
+  public readonly name = 'Cumulative Layout Shift';
+  public readonly description = 'Ensures content does not jump around while the page loads, so shoppers do not tap the wrong thing';
+  public readonly category = 'performance' as const;
+  public readonly thresholds: Readonly<Record<ClsThreshold, RuleThreshold>> = {
+    goodCls: { default: 0.1, min: 0, max: 1, description: 'Layout shift score up to which the page is stable' },
+    poorCls: { default: 0.25, min: 0.05, max: 2, description: 'Layout shift score from which the page earns no points' },
+  };
+
+  analyze(page: Page, thresholds: Record<ClsThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const vitals = page.metrics.performance.vitals;
+    if (!vitals) {
+      return skippedResult(MISSING_VITALS);
+    }
+
+    const rated = rate(vitals.cls, thresholds.goodCls, thresholds.poorCls);
+    if (rated.rating === 'good') {
+      return passedResult(this.maxScore);
+    }
+    return failedResult(this.maxScore * rated.scoreRatio, createFinding(page, `cls_${rated.rating}`, rated.severity, {
+      device: vitals.device,
+      cls: vitals.cls,
+      goodCls: thresholds.goodCls
+    }));
+  }
+}
+
+type TbtThreshold = 'goodTbtMs' | 'poorTbtMs';
+
+export class TotalBlockingTimeRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'total_blocking_time';
+  public readonly maxScore = 8;
+  public readonly name = 'Total Blocking Time';
+  public readonly description = 'Ensures scripts leave the page responsive to taps while it loads';
+  public readonly category = 'performance' as const;
+  public readonly thresholds: Readonly<Record<TbtThreshold, RuleThreshold>> = {
+    goodTbtMs: { default: 200, min: 50, max: 2000, description: 'Blocking time in milliseconds up to which the page is responsive' },
+    poorTbtMs: { default: 600, min: 100, max: 5000, description: 'Blocking time in milliseconds from which the page earns no points' },
+  };
+
+  analyze(page: Page, thresholds: Record<TbtThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const vitals = page.metrics.performance.vitals;
+    if (!vitals) {
+      return skippedResult(MISSING_VITALS);
+    }
+
+    const rated = rate(vitals.tbt, thresholds.goodTbtMs, thresholds.poorTbtMs);
+    if (rated.rating === 'good') {
+      return passedResult(this.maxScore);
+    }
+    return failedResult(this.maxScore * rated.scoreRatio, createFinding(page, `tbt_${rated.rating}`, rated.severity, {
+      device: vitals.device,
+      tbt: vitals.tbt,
+      goodTbtMs: thresholds.goodTbtMs,
+      jsBytes: vitals.jsBytes,
+      apps: reportedApps(vitals)
+    }));
+  }
+}
+
+type AppWeightThreshold = 'appScriptBudgetKb' | 'maxAppScriptKb';
+
+export class ThirdPartyAppWeightRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'third_party_app_weight';
+  public readonly maxScore = 6;
+  public readonly name = 'Third-Party App Weight';
+  public readonly description = 'Keeps the JavaScript added by apps and marketing tags within a budget';
+  public readonly category = 'performance' as const;
+  public readonly thresholds: Readonly<Record<AppWeightThreshold, RuleThreshold>> = {
+    appScriptBudgetKb: { default: 150, min: 25, max: 2000, description: 'Third-party script kilobytes the page can load without losing points' },
+    maxAppScriptKb: { default: 400, min: 50, max: 5000, description: 'Third-party script kilobytes from which the page earns no points' },
+  };
+
+  analyze(page: Page, thresholds: Record<AppWeightThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const vitals = page.metrics.performance.vitals;
+    if (!vitals) {
+      return skippedResult(MISSING_VITALS);
+    }
+
+    const rated = rate(
+      vitals.thirdPartyScriptBytes,
+      thresholds.appScriptBudgetKb * BYTES_PER_KB,
+      thresholds.maxAppScriptKb * BYTES_PER_KB
+    );
+    if (rated.rating === 'good') {
+      return passedResult(this.maxScore);
+    }
+    const finding = rated.rating === 'poor' ? 'app_scripts_very_heavy' : 'app_scripts_heavy';
+    return failedResult(this.maxScore * rated.scoreRatio, createFinding(page, finding, rated.severity, {
+      device: vitals.device,
+      thirdPartyScriptBytes: vitals.thirdPartyScriptBytes,
+      jsBytes: vitals.jsBytes,
+      budgetBytes: thresholds.appScriptBudgetKb * BYTES_PER_KB,
+      costliestApps: reportedApps(vitals).map(app => app.name),
+      apps: reportedApps(vitals)
+    }));
+  }
+}
+
+// Private helper methods for cleaner code organization
+
+function reportedApps(vitals: WebVitals): WebVitals['apps'] {
+  return vitals.apps.slice(0, MAX_REPORTED_APPS);
+}
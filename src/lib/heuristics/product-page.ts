@@ -0,0 +1,160 @@
+/**
+ * Product Page Heuristic Rules
+ * Price, sale-price anchoring and add-to-cart checks for product detail pages.
+ * All rules are skipped when the crawl did not collect product metrics.
+ *
+ * Scoring:
+ * - Price Display (12 points): 6 when the price sits below the fold, 0 when missing
+ * - Sale Price Anchoring (5 points): 0 when a sale has no valid compare-at price
+ * - Add to Cart (10 points): 0 when missing or disabled, 5 below the fold, 8 when far from the price
+ */
+
+import type { BaseHeuristicRule, HeuristicResult, Page, ProductMetrics, RuleThreshold } from '../../types';
+import { createFinding, failedResult, passedResult, skippedResult, thresholdDefaults } from './rule-helpers';
+
+const PRODUCT_PAGE_TYPES = ['product'] as const;
+const MISSING_PRODUCT_METRICS = 'Product metrics were not collected for this page';
+
+type PriceDisplayThreshold = 'belowFoldScoreRatio';
+type AddToCartThreshold = 'maxPriceDistance' | 'belowFoldScoreRatio' | 'farFromPriceScoreRatio';
+
+export class PriceDisplayRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'price_display';
+  public readonly maxScore = 12;
+  public readonly name = 'Price Display on PDP';
+  public readonly description = 'Ensures the product price is visible above the fold';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = PRODUCT_PAGE_TYPES;
+  public readonly thresholds: Readonly<Record<PriceDisplayThreshold, RuleThreshold>> = {
+    belowFoldScoreRatio: { default: 0.5, min: 0, max: 1, description: 'Share of the score kept when the price sits below the fold' },
+  };
+
+  analyze(page: Page, thresholds: Record<PriceDisplayThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const product = page.metrics.product;
+    if (!product) {
+      return skippedResult(MISSING_PRODUCT_METRICS);
+    }
+
+    const price = product.prices[0];
+    if (!price) {
+      return failedResult(0, createFinding(page, 'price_missing', 'high', {
+        priceCount: 0,
+        addToCartPresent: product.addToCart !== null
+      }));
+    }
+
+    if (!price.aboveFold) {
+      return failedResult(this.maxScore * thresholds.belowFoldScoreRatio, createFinding(page, 'price_below_fold', 'high', {
+        selector: price.selector,
+        text: price.text,
+        position: price.position,
+        aboveFoldHeight: page.metrics.aboveFold.height
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+export class SalePriceAnchoringRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'sale_price_anchoring';
+  public readonly maxScore = 5;
+  public readonly name = 'Sale Price Anchoring';
+  public readonly description = 'Ensures discounted products show the original compare-at price next to the sale price';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = PRODUCT_PAGE_TYPES;
+
+  analyze(page: Page): HeuristicResult {
+    const product = page.metrics.product;
+    if (!product) {
+      return skippedResult(MISSING_PRODUCT_METRICS);
+    }
+
+    const salePrice = product.prices.find(price => price.onSale);
+    if (!salePrice && !product.compareAtPrice) {
+      return skippedResult('Product is not on sale');
+    }
+
+    if (!product.compareAtPrice) {
+      return failedResult(0, createFinding(page, 'sale_price_anchor_missing', 'med', {
+        selector: salePrice!.selector,
+        salePrice: salePrice!.text
+      }));
+    }
+
+    const price = salePrice ?? product.prices[0];
+    if (price && product.compareAtPrice.amount <= price.amount) {
+      return failedResult(0, createFinding(page, 'sale_price_anchor_invalid', 'low', {
+        selector: product.compareAtPrice.selector,
+        compareAtPrice: product.compareAtPrice.text,
+        price: price.text
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
+
+export class AddToCartRule implements BaseHeuristicRule {
+  // Rule metadata
+  public readonly ruleId = 'add_to_cart';
+  public readonly maxScore = 10;
+  public readonly name = 'Add to Cart Visibility';
+  public readonly description = 'Ensures an enabled add-to-cart button sits above the fold close to the price';
+  public readonly category = 'conversion' as const;
+  public readonly pageTypes = PRODUCT_PAGE_TYPES;
+  public readonly thresholds: Readonly<Record<AddToCartThreshold, RuleThreshold>> = {
+    maxPriceDistance: { default: 400, min: 50, max: 2000, description: 'Largest distance between the button and the price in CSS pixels' },
+    belowFoldScoreRatio: { default: 0.5, min: 0, max: 1, description: 'Share of the score kept when the button sits below the fold' },
+    farFromPriceScoreRatio: { default: 0.8, min: 0, max: 1, description: 'Share of the score kept when the button is far from the price' },
+  };
+
+  analyze(page: Page, thresholds: Record<AddToCartThreshold, number> = thresholdDefaults(this.thresholds)): HeuristicResult {
+    const product = page.metrics.product;
+    if (!product) {
+      return skippedResult(MISSING_PRODUCT_METRICS);
+    }
+
+    const button = product.addToCart;
+    if (!button) {
+      return failedResult(0, createFinding(page, 'atc_missing', 'high', {
+        variantSelector: product.variantSelector.type
+      }));
+    }
+
+    if (button.disabled) {
+      return failedResult(0, createFinding(page, 'atc_disabled_by_default', 'high', {
+        selector: button.selector,
+        text: button.text,
+        variantSelector: product.variantSelector.type,
+        optionCount: product.variantSelector.optionCount
+      }));
+    }
+
+    if (!button.aboveFold) {
+      return failedResult(this.maxScore * thresholds.belowFoldScoreRatio, createFinding(page, 'atc_below_fold', 'med', this.describe(page, product)));
+    }
+
+    if (button.distanceFromPrice !== null && button.distanceFromPrice > thresholds.maxPriceDistance) {
+      return failedResult(this.maxScore * thresholds.farFromPriceScoreRatio, createFinding(page, 'atc_far_from_price', 'low', {
+        ...this.describe(page, product),
+        maxDistance: thresholds.maxPriceDistance
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+
+  private describe(page: Page, product: ProductMetrics): Record<string, any> {
+    const button = product.addToCart!;
+    return {
+      selector: button.selector,
+      position: button.position,
+      size: button.size,
+      distanceFromPrice: button.distanceFromPrice,
+      aboveFoldHeight: page.metrics.aboveFold.height
+    };
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Rule configuration persistence
+ * The global configuration of a rule is its HeuristicRule row, keyed by ruleId,
+ * and a site's overrides are SiteRuleOverride rows; rules without a row run with
+ * their built-in settings. Like sites, overrides are scoped to the user owning
+ * the site; another user's site reads as missing.
+ */
+
+import prisma from '@/lib/prisma';
+import type {
+  AuditRuleConfig,
+  BaseHeuristicRule,
+  RuleConfigView,
+  SaveRuleConfigRequest,
+  SaveRuleOverrideRequest,
+  StoredRuleConfig,
+} from '../../types';
+import { getSite } from '../sites/site-store';
+import { createDefaultEngine } from './engine';
+import { describeRuleConfig, resolveRuleConfig } from './rule-config';
+import type { ConfigurableRule } from './rule-config';
+
+interface RuleConfigRow {
+  enabled: boolean | null;
+  severity: StoredRuleConfig['severity'];
+  maxScore: number | null;
+  thresholds: unknown;
+}
+
+const GLOBAL_FIELDS = { id: true, enabled: true, severity: true, maxScore: true, thresholds: true } as const;
+const OVERRIDE_FIELDS = { ruleId: true, enabled: true, severity: true, maxScore: true, thresholds: true } as const;
+
+/**
+ * Every configurable rule; theme rules share the ids of their live counterparts
+ */
+export function configurableRules(): BaseHeuristicRule[] {
+  return createDefaultEngine().getRules();
+}
+
+export function findConfigurableRule(ruleId: string): BaseHeuristicRule | null {
+  return configurableRules().find(rule => rule.ruleId === ruleId) ?? null;
+}
+
+/**
+ * Settings an audit of the site runs with
+ */
+export async function loadAuditRuleConfig(siteId: string): Promise<AuditRuleConfig> {
+  const [globals, overrides] = await Promise.all([loadGlobalConfigs(), loadSiteOverrides(siteId)]);
+  return resolveRuleConfig(configurableRules(), globals, overrides);
+}
+
+export async function listRuleConfigs(): Promise<RuleConfigView[]> {
+  const globals = await loadGlobalConfigs();
+  return configurableRules().map(rule => describeRuleConfig(rule, findLayer(globals, rule.ruleId), null));
+}
+
+/**
+ * Replace the global configuration of a rule
+ */
+export async function saveRuleConfig(rule: ConfigurableRule, input: SaveRuleConfigRequest): Promise<RuleConfigView> {
+  const metadata = { name: rule.name, description: rule.description, category: rule.category };
+  const row = await prisma.heuristicRule.upsert({
+    where: { id: rule.ruleId },
+    create: { id: rule.ruleId, ...metadata, ...input },
+    update: { ...metadata, ...input },
+    select: GLOBAL_FIELDS,
+  });
+  return describeRuleConfig(rule, toStoredConfig(rule.ruleId, row), null);
+}
+
+/**
+ * Rules with the site's overrides; returns null when the user has no such site
+ */
+export async function listSiteRuleConfigs(userId: string, siteId: string): Promise<RuleConfigView[] | null> {
+  if (!(await getSite(userId, siteId))) {
+    return null;
+  }
+
+  const [globals, overrides] = await Promise.all([loadGlobalConfigs(), loadSiteOverrides(siteId)]);
+  return configurableRules().map(rule => describeRuleConfig(rule, findLayer(globals, rule.ruleId), findLayer(overrides, rule.ruleId)));
+}
+
+/**
+ * Replace a site's override of a rule; returns null when the user has no such site
+ */
+export async function saveSiteRuleOverride(
+  userId: string,
+  siteId: string,
+  rule: ConfigurableRule,
+  input: SaveRuleOverrideRequest
+): Promise<RuleConfigView | null> {
+  if (!(await getSite(userId, siteId))) {
+    return null;
+  }
+
+  const [global, row] = await Promise.all([
+    prisma.heuristicRule.findUnique({ where: { id: rule.ruleId }, select: GLOBAL_FIELDS }),
+    prisma.siteRuleOverride.upsert({
+      where: { siteId_ruleId: { siteId, ruleId: rule.ruleId } },
+      create: { siteId, ruleId: rule.ruleId, ...input },
+      update: input,
+      select: OVERRIDE_FIELDS,
+    }),
+  ]);
+  return describeRuleConfig(rule, global ? toStoredConfig(rule.ruleId, global) : null, toStoredConfig(rule.ruleId, row));
+}
+
+/**
+ * Drop a site's override of a rule; false when the user has no such override
+ */
+export async function deleteSiteRuleOverride(userId: string, siteId: string, ruleId: string): Promise<boolean> {
+  const { count } = await prisma.siteRuleOverride.deleteMany({ where: { siteId, ruleId, site: { userId } } });
+  return count > 0;
+}
+
+// Private helper methods for cleaner code organization
+
+async function loadGlobalConfigs(): Promise<StoredRuleConfig[]> {
+  const rows: (RuleConfigRow & { id: string })[] = await prisma.heuristicRule.findMany({ select: GLOBAL_FIELDS });
+  return rows.map(row => toStoredConfig(row.id, row));
+}
+
+async function loadSiteOverrides(siteId: string): Promise<StoredRuleConfig[]> {
+  const rows: (RuleConfigRow & { ruleId: string })[] = await prisma.siteRuleOverride.findMany({ where: { siteId }, select: OVERRIDE_FIELDS });
+  return rows.map(row => toStoredConfig(row.ruleId, row));
+}
+
+function findLayer(layers: StoredRuleConfig[], ruleId: string): StoredRuleConfig | null {
+  return layers.find(layer => layer.ruleId === ruleId) ?? null;
+}
+
+function toStoredConfig(ruleId: string, row: RuleConfigRow): StoredRuleConfig {
+  return {
+    ruleId,
+    enabled: row.enabled,
+    severity: row.severity,
+    maxScore: row.maxScore,
+    thresholds: (row.thresholds ?? {}) as StoredRuleConfig['thresholds'],
+  };
+}
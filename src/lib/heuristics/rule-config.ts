@@ -0,0 +1,118 @@
+/**
+ * Rule configuration
+ * Built-in rules are tuned in three layers: the rule's own defaults, the global
+ * configuration edited by admins and a site's overrides. Each layer wins setting
+ * by setting over the previous one (null settings are left to it) and thresholds
+ * merge by name. Audits record the resolved settings with every setting that
+ * differs from the built-in rule, so their score can be explained later.
+ */
+
+import type {
+  AuditRuleConfig,
+  BaseHeuristicRule,
+  RuleConfigChange,
+  RuleConfigSource,
+  RuleConfigView,
+  RuleSettings,
+  SaveRuleConfigRequest,
+  StoredRuleConfig,
+} from '../../types';
+import { thresholdDefaults } from './rule-helpers';
+
+export type ConfigurableRule = Pick<BaseHeuristicRule, 'ruleId' | 'name' | 'description' | 'category' | 'maxScore' | 'thresholds'>;
+
+type SettingValue = RuleConfigChange['to'];
+
+export function defaultRuleSettings(rule: ConfigurableRule): RuleSettings {
+  return { enabled: true, severity: null, maxScore: rule.maxScore, thresholds: thresholdDefaults(rule.thresholds ?? {}) };
+}
+
+/**
+ * Settings a rule runs with under a global configuration and a site override
+ */
+export function resolveRuleSettings(rule: ConfigurableRule, global: StoredRuleConfig | null, override: StoredRuleConfig | null): RuleSettings {
+  return [global, override].reduce<RuleSettings>((settings, layer) => (layer ? applyLayer(rule, settings, layer) : settings), defaultRuleSettings(rule));
+}
+
+/**
+ * Settings of every rule for one audit, with the changes from the built-in rules
+ */
+export function resolveRuleConfig(rules: ConfigurableRule[], globals: StoredRuleConfig[], overrides: StoredRuleConfig[]): AuditRuleConfig {
+  const config: AuditRuleConfig = { rules: {}, changes: [] };
+  for (const rule of rules) {
+    const global = globals.find(layer => layer.ruleId === rule.ruleId) ?? null;
+    const override = overrides.find(layer => layer.ruleId === rule.ruleId) ?? null;
+    const settings = resolveRuleSettings(rule, global, override);
+    config.rules[rule.ruleId] = settings;
+    config.changes.push(...describeChanges(rule, settings, override));
+  }
+  return config;
+}
+
+export function describeRuleConfig(rule: ConfigurableRule, global: StoredRuleConfig | null, override: StoredRuleConfig | null): RuleConfigView {
+  return {
+    ruleId: rule.ruleId,
+    name: rule.name,
+    description: rule.description,
+    category: rule.category,
+    thresholds: { ...rule.thresholds },
+    defaults: defaultRuleSettings(rule),
+    global,
+    override,
+    effective: resolveRuleSettings(rule, global, override),
+  };
+}
+
+/**
+ * Why a configuration cannot be saved for the rule, or null when it can
+ */
+export function validateRuleConfig(rule: ConfigurableRule, input: Pick<SaveRuleConfigRequest, 'thresholds'>): string | null {
+  for (const [name, value] of Object.entries(input.thresholds)) {
+    const threshold = rule.thresholds?.[name];
+    if (!threshold) {
+      return `Rule ${rule.ruleId} has no threshold named ${name}`;
+    }
+    if (value < threshold.min || value > threshold.max) {
+      return `${name} must be between ${threshold.min} and ${threshold.max}`;
+    }
+  }
+  return null;
+}
+
+// Private helper methods for cleaner code organization
+
+function applyLayer(rule: ConfigurableRule, settings: RuleSettings, layer: StoredRuleConfig): RuleSettings {
+  const thresholds = { ...settings.thresholds };
+  for (const [name, value] of Object.entries(layer.thresholds)) {
+    // Thresholds a rule no longer declares are left behind by older configurations
+    if (rule.thresholds?.[name]) {
+      thresholds[name] = value;
+    }
+  }
+  return {
+    enabled: layer.enabled ?? settings.enabled,
+    severity: layer.severity ?? settings.severity,
+    maxScore: layer.maxScore ?? settings.maxScore,
+    thresholds,
+  };
+}
+
+function describeChanges(rule: ConfigurableRule, settings: RuleSettings, override: StoredRuleConfig | null): RuleConfigChange[] {
+  const defaults = flatten(defaultRuleSettings(rule));
+  const overridden = override ? flatten(override) : {};
+  return Object.entries(flatten(settings)).flatMap(([setting, to]) => {
+    const from = defaults[setting] ?? null;
+    if (to === from) return [];
+    const source: RuleConfigSource = (overridden[setting] ?? null) !== null ? 'site' : 'global';
+    return [{ ruleId: rule.ruleId, setting, from, to, source }];
+  });
+}
+
+function flatten(settings: Omit<StoredRuleConfig, 'ruleId'>): Record<string, SettingValue> {
+  return {
+    enabled: settings.enabled,
+    severity: settings.severity,
+    maxScore: settings.maxScore,
+    ...Object.fromEntries(Object.entries(settings.thresholds).map(([name, value]) => [`thresholds.${name}`, value])),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Declarative rule test harness
+ * Runs a rule file against fixture pages and compares each result with the one
+ * the fixture expects. Fixtures of rules/<name>.yaml live in
+ * rules/fixtures/<name>.yaml (or .yml/.json); `npm run rules:test` checks every
+ * rule file in HEURISTIC_RULES_DIR, or the files given as arguments.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { BaseHeuristicRule, HeuristicResult, Page, RuleFixture, RuleFixtureResult } from '../../types';
+import { HeuristicError } from '../../types';
+import { loadDeclarativeRuleFile, loadRuleFixtureFile } from './declarative-rules';
+
+const FIXTURE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+export interface RuleFileReport {
+  ruleId: string;
+  results: RuleFixtureResult[];
+}
+
+export function runRuleFixtures(rule: BaseHeuristicRule, fixtures: RuleFixture[]): RuleFixtureResult[] {
+  return fixtures.map((fixture, index) => {
+    const result = rule.analyze(toPage(fixture, index), fixture.thresholds);
+    const failures = compareResult(fixture.expect, result);
+    return { name: fixture.name, passed: failures.length === 0, failures, result };
+  });
+}
+
+/**
+ * Fixture file next to a rule file, or null when it has none
+ */
+export function fixturePathFor(ruleFile: string): string | null {
+  const base = path.join(path.dirname(ruleFile), 'fixtures', path.basename(ruleFile, path.extname(ruleFile)));
+  return FIXTURE_EXTENSIONS.map(extension => base + extension).find(candidate => fs.existsSync(candidate)) ?? null;
+}
+
+export function testRuleFile(ruleFile: string): RuleFileReport {
+  const rule = loadDeclarativeRuleFile(ruleFile);
+  const fixtureFile = fixturePathFor(ruleFile);
+  if (!fixtureFile) {
+    throw new HeuristicError(`${path.basename(ruleFile)} has no fixtures in ${path.join(path.dirname(ruleFile), 'fixtures')}`, rule.ruleId);
+  }
+  return { ruleId: rule.ruleId, results: runRuleFixtures(rule, loadRuleFixtureFile(fixtureFile)) };
+}
+
+// Private helper methods for cleaner code organization
+
+function toPage(fixture: RuleFixture, index: number): Page {
+  return {
+    id: `fixture-${index + 1}`,
+    crawlId: 'fixtures',
+    url: fixture.url,
+    type: fixture.pageType,
+    metrics: fixture.metrics,
+    findings: [],
+    crawl: null,
+  };
+}
+
+function compareResult(expected: RuleFixture['expect'], result: HeuristicResult): string[] {
+  const actual: Record<string, unknown> = {
+    skipped: result.skipped ?? false,
+    passed: result.passed,
+    score: result.score,
+    finding: result.finding?.ruleId ?? null,
+    severity: result.finding?.severity,
+  };
+  const failures = (['skipped', 'passed', 'score', 'finding', 'severity'] as const)
+    .filter(key => expected[key] !== undefined && expected[key] !== actual[key])
+    .map(key => `expected ${key} ${format(expected[key])}, got ${format(actual[key])}`);
+
+  for (const [field, value] of Object.entries(expected.evidence ?? {})) {
+    const captured = result.finding?.evidence[field];
+    if (format(captured) !== format(value)) {
+      failures.push(`expected evidence ${field} ${format(value)}, got ${format(captured)}`);
+    }
+  }
+  return failures;
+}
+
+function format(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
@@ -0,0 +1,49 @@
+/**
+ * Shared result builders for heuristic rules
+ * Keeps finding ids, skipped/passed results and threshold defaults consistent across rule families.
+ */
+
+import type { AnalyzedPage, Finding, HeuristicResult, RuleThreshold, Severity } from '../../types';
+
+export function createFinding(page: AnalyzedPage, ruleId: string, severity: Severity, evidence: Record<string, any>): Finding {
+  return {
+    id: `${ruleId}-${page.id}-${Date.now()}`,
+    pageId: page.id,
+    ruleId,
+    severity,
+    evidence
+  };
+}
+
+export function skippedResult(reason: string): HeuristicResult {
+  return {
+    passed: false,
+    score: 0,
+    finding: null,
+    skipped: true,
+    reason
+  };
+}
+
+export function passedResult(score: number): HeuristicResult {
+  return {
+    passed: true,
+    score,
+    finding: null
+  };
+}
+
+export function failedResult(score: number, finding: Finding): HeuristicResult {
+  return {
+    passed: false,
+    score: Math.floor(score),
+    finding
+  };
+}
+
+/**
+ * Built-in values of a rule's thresholds, used when the engine passes none
+ */
+export function thresholdDefaults<K extends string>(thresholds: Readonly<Record<K, RuleThreshold>>): Record<K, number> {
+  return Object.fromEntries(Object.entries<RuleThreshold>(thresholds).map(([name, threshold]) => [name, threshold.default])) as Record<K, number>;
+}
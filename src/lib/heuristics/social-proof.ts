@@ -0,0 +1,87 @@
+/**
+ * Social Proof Heuristic Rule
+ * Checks that product pages show a star rating from a review app where shoppers
+ * look first: next to the product title or at least above the fold.
+ * Findings name the detected app and its settings path so recommendations can
+ * point at that app's configuration instead of generic advice.
+ *
+ * Scoring:
+ * - 10 points: Rating shown near the title or above the fold
+ * - 5 points: Rating widget without reviews, or rating only further down the page
+ * - 0 points: No review app, or an installed app whose widget is not rendered
+ */
+
+import type { BaseHeuristicRule, HeuristicResult, Page, ReviewApp } from '../../types';
+import { getReviewAppSignature } from '../crawler/review-apps';
+import { createFinding, failedResult, passedResult, skippedResult } from './rule-helpers';
+
+export class SocialProofRule implements BaseHeuristicRule {
+  // Rule configuration constants
+  private static readonly APPLICABLE_PAGE_TYPES = ['product'] as const;
+  private static readonly PARTIAL_SCORE_RATIO = 0.5;
+
+  // Rule metadata
+  public readonly ruleId = 'social_proof';
+  public readonly maxScore = 10;
+  public readonly name = 'Social Proof Present';
+  public readonly description = 'Ensures product ratings from a review app are visible near the product title';
+  public readonly category = 'trust' as const;
+  public readonly pageTypes = SocialProofRule.APPLICABLE_PAGE_TYPES;
+
+  analyze(page: Page): HeuristicResult {
+    const socialProof = page.metrics.socialProof;
+    if (!socialProof) {
+      return skippedResult('Social proof metrics were not collected for this page');
+    }
+
+    if (!socialProof.app) {
+      return failedResult(0, createFinding(page, 'social_proof_missing', 'med', {
+        app: null,
+        appName: null,
+        configurationHint: null
+      }));
+    }
+
+    const appEvidence = this.describeApp(socialProof.app);
+
+    if (!socialProof.widget) {
+      return failedResult(0, createFinding(page, 'social_proof_widget_hidden', 'med', {
+        ...appEvidence,
+        detectedApps: socialProof.detectedApps
+      }));
+    }
+
+    const partialScore = this.maxScore * SocialProofRule.PARTIAL_SCORE_RATIO;
+
+    if (socialProof.rating === null && !socialProof.reviewCount) {
+      return failedResult(partialScore, createFinding(page, 'social_proof_no_reviews', 'low', {
+        ...appEvidence,
+        selector: socialProof.widget.selector
+      }));
+    }
+
+    if (!socialProof.nearTitle && !socialProof.aboveFold) {
+      return failedResult(partialScore, createFinding(page, 'social_proof_below_fold', 'med', {
+        ...appEvidence,
+        rating: socialProof.rating,
+        reviewCount: socialProof.reviewCount,
+        selector: socialProof.widget.selector,
+        position: socialProof.widget.position,
+        aboveFoldHeight: page.metrics.aboveFold.height
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private describeApp(app: ReviewApp): Record<string, string> {
+    const signature = getReviewAppSignature(app);
+    return {
+      app,
+      appName: signature.name,
+      configurationHint: signature.configurationHint
+    };
+  }
+}
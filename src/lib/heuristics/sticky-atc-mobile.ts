@@ -0,0 +1,51 @@
+/**
+ * Sticky ATC Mobile Heuristic Rule
+ * On phones the add-to-cart button scrolls away as soon as shoppers read the
+ * description or reviews. Checks that the mobile crawl still found an
+ * add-to-cart control on screen after scrolling past the product form.
+ *
+ * Scoring:
+ * - 9 points: Add-to-cart stays visible while scrolling on mobile
+ * - 0 points: Add-to-cart disappears after scrolling
+ */
+
+import type { BaseHeuristicRule, HeuristicResult, Page } from '../../types';
+import { createFinding, failedResult, passedResult, skippedResult } from './rule-helpers';
+
+export class StickyATCMobileRule implements BaseHeuristicRule {
+  // Rule configuration constants
+  private static readonly APPLICABLE_PAGE_TYPES = ['product'] as const;
+
+  // Rule metadata
+  public readonly ruleId = 'sticky_atc_mobile';
+  public readonly maxScore = 9;
+  public readonly name = 'Sticky ATC Mobile';
+  public readonly description = 'Ensures an add-to-cart control stays visible while scrolling product pages on mobile';
+  public readonly category = 'mobile' as const;
+  public readonly pageTypes = StickyATCMobileRule.APPLICABLE_PAGE_TYPES;
+
+  analyze(page: Page): HeuristicResult {
+    const mobile = page.metrics.viewports?.mobile;
+    if (!mobile?.stickyAddToCart) {
+      return skippedResult('Page was not crawled with the mobile profile');
+    }
+
+    const sticky = mobile.stickyAddToCart;
+    if (sticky.scrollDepth === 0) {
+      return skippedResult('No add-to-cart button was found on mobile');
+    }
+    if (!sticky.scrolledPast) {
+      return skippedResult('Page is too short to scroll past the add-to-cart button on mobile');
+    }
+
+    if (!sticky.visibleAfterScroll) {
+      return failedResult(0, createFinding(page, 'sticky_atc_missing', 'med', {
+        device: 'mobile',
+        scrollDepth: sticky.scrollDepth,
+        viewport: mobile.viewport
+      }));
+    }
+
+    return passedResult(this.maxScore);
+  }
+}
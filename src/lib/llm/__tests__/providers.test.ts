@@ -0,0 +1,188 @@
+/**
+ * TDD Test Suite for LLM Providers
+ * OpenAI-compatible provider (SDK mocked in jest.setup.js) and the local mock provider
+ */
+
+import OpenAI from 'openai';
+import { OpenAIProvider } from '../openai-provider';
+import { MockLLMProvider } from '../mock-provider';
+import { buildRecommendationMessages } from '../prompts';
+import { LLMError, LLMRecommendationSchema } from '../../../types';
+import type { LLMMessage } from '../../../types';
+
+const messages: LLMMessage[] = [{ role: 'user', content: 'Audit finding' }];
+
+const lastClient = () => (OpenAI as unknown as jest.Mock).mock.results.at(-1)!.value;
+
+const httpError = (status: number) => Object.assign(new Error(`${status} status code`), { status });
+
+describe('LLM Providers - TDD', () => {
+  describe('RED Phase: OpenAI Provider', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('should configure the SDK from options without built-in retries', () => {
+      // Act
+      new OpenAIProvider({ apiKey: 'sk-option', baseURL: 'https://llm.example.com/v1' });
+
+      // Assert
+      expect(OpenAI).toHaveBeenCalledWith({ apiKey: 'sk-option', baseURL: 'https://llm.example.com/v1', maxRetries: 0 });
+    });
+
+    it('should fall back to environment configuration', async () => {
+      // Arrange
+      process.env.OPENAI_BASE_URL = 'http://localhost:8000/v1';
+      process.env.OPENAI_MODEL = 'llama-3.1-8b';
+      const provider = new OpenAIProvider();
+
+      // Act
+      const completion = await provider.complete(messages);
+
+      // Assert
+      expect(OpenAI).toHaveBeenCalledWith({ apiKey: 'test_openai_key', baseURL: 'http://localhost:8000/v1', maxRetries: 0 });
+      expect(lastClient().chat.completions.create).toHaveBeenCalledWith({
+        model: 'llama-3.1-8b',
+        messages,
+        temperature: 0.4,
+        response_format: { type: 'json_object' }
+      });
+      expect(completion.model).toBe('llama-3.1-8b');
+      expect(JSON.parse(completion.content).issue).toBe('Test issue');
+    });
+
+    it('should use gpt-4o-mini by default and report the served model', async () => {
+      // Arrange
+      const provider = new OpenAIProvider({ temperature: 0 });
+      lastClient().chat.completions.create.mockResolvedValueOnce({ model: 'gpt-4o-mini-2024-07-18', choices: [{ message: { content: '{}' } }] });
+
+      // Act
+      const completion = await provider.complete(messages);
+
+      // Assert
+      expect(OpenAI).toHaveBeenCalledWith({ apiKey: 'test_openai_key', maxRetries: 0 });
+      expect(lastClient().chat.completions.create).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-4o-mini', temperature: 0 }));
+      expect(completion.model).toBe('gpt-4o-mini-2024-07-18');
+    });
+
+    it('should pass through token usage reported by the endpoint', async () => {
+      // Arrange
+      const provider = new OpenAIProvider();
+      lastClient().chat.completions.create.mockResolvedValueOnce({
+        choices: [{ message: { content: '{}' } }],
+        usage: { prompt_tokens: 812, completion_tokens: 164, total_tokens: 976 }
+      });
+
+      // Act
+      const completion = await provider.complete(messages);
+
+      // Assert
+      expect(completion.usage).toEqual({ prompt: 812, completion: 164, total: 976 });
+    });
+
+    it('should reject empty completions with a retryable PARSING_ERROR', async () => {
+      // Arrange
+      const provider = new OpenAIProvider();
+      lastClient().chat.completions.create.mockResolvedValueOnce({ choices: [] });
+
+      // Act & Assert
+      await expect(provider.complete(messages)).rejects.toMatchObject({ code: 'PARSING_ERROR', retryable: true });
+    });
+
+    it.each([
+      [httpError(429), 'RATE_LIMIT', true],
+      [httpError(503), 'API_ERROR', true],
+      [httpError(408), 'API_ERROR', true],
+      [new Error('Connection error.'), 'API_ERROR', true],
+      [httpError(401), 'API_ERROR', false],
+      ['socket closed', 'API_ERROR', true]
+    ])('should map %p to %s (retryable: %p)', async (failure, code, retryable) => {
+      // Arrange
+      const provider = new OpenAIProvider();
+      lastClient().chat.completions.create.mockRejectedValueOnce(failure);
+
+      // Act
+      const error = await provider.complete(messages).catch(e => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(LLMError);
+      expect(error).toMatchObject({ code, retryable });
+    });
+  });
+
+  describe('GREEN Phase: Mock Provider', () => {
+    it('should derive a valid recommendation from the finding in the prompt', async () => {
+      // Arrange
+      const provider = new MockLLMProvider();
+      const prompt = buildRecommendationMessages(
+        { id: 'f-1', pageId: 'p-1', ruleId: 'atc_missing', severity: 'high', evidence: {} },
+        { pageUrl: 'https://test-store.myshopify.com/products/a', pageType: 'product' }
+      );
+
+      // Act
+      const completion = await provider.complete(prompt);
+
+      // Assert
+      const recommendation = LLMRecommendationSchema.parse(JSON.parse(completion.content));
+      expect(completion.model).toBe('mock-cro-1');
+      expect(recommendation).toMatchObject({ impact: 'High', effort: 'Medium', whereToPlace: 'Online Store > Themes > Customize' });
+      expect(recommendation.issue).toContain('atc missing');
+    });
+
+    it('should still answer prompts without a finding', async () => {
+      // Act
+      const withoutUser = await new MockLLMProvider().complete([{ role: 'system', content: 'Hi' }]);
+      const unknownSeverity = await new MockLLMProvider().complete([{ role: 'user', content: '"ruleId": "x", "severity": "critical"' }]);
+
+      // Assert
+      expect(JSON.parse(withoutUser.content)).toMatchObject({ impact: 'Low', issue: expect.stringContaining('unknown issue') });
+      expect(JSON.parse(unknownSeverity.content).impact).toBe('Low');
+    });
+
+    it('should point at the detected app settings', async () => {
+      // Act
+      const completion = await new MockLLMProvider().complete([{ role: 'user', content: '"ruleId": "social_proof_missing", "appName": "Loox"' }]);
+
+      // Assert
+      expect(JSON.parse(completion.content)).toMatchObject({ effort: 'Low', whereToPlace: expect.stringMatching(/^Loox app settings/) });
+    });
+
+    it('should answer in French when the persona locale is French', async () => {
+      // Arrange
+      const finding = { id: 'f-1', pageId: 'p-1', ruleId: 'social_proof_missing', severity: 'high' as const, evidence: {} };
+      const page = { pageUrl: 'https://boutique.myshopify.com/products/tuque', pageType: 'product' as const, persona: 'fr-que' as const };
+      const withApp = { ...finding, evidence: { appName: 'Loox' } };
+
+      // Act
+      const generic = JSON.parse((await new MockLLMProvider().complete(buildRecommendationMessages(finding, page))).content);
+      const app = JSON.parse((await new MockLLMProvider().complete(buildRecommendationMessages(withApp, page))).content);
+
+      // Assert
+      expect(generic).toMatchObject({ impact: 'High', effort: 'Medium', whereToPlace: 'Dans Boutique en ligne > Thèmes > Personnaliser' });
+      expect(app.whereToPlace).toMatch(/^Dans les paramètres de l'application Loox/);
+      expect(LLMRecommendationSchema.safeParse(generic).success).toBe(true);
+    });
+
+    it('should replay scripted answers and errors before generating', async () => {
+      // Arrange
+      const error = new LLMError('Too many requests', 'RATE_LIMIT', true);
+      const provider = new MockLLMProvider({ responses: ['raw answer', error] });
+
+      // Act & Assert
+      expect((await provider.complete(messages)).content).toBe('raw answer');
+      await expect(provider.complete(messages)).rejects.toBe(error);
+      expect(JSON.parse((await provider.complete(messages)).content).issue).toBeDefined();
+      expect(provider.calls).toHaveLength(3);
+    });
+
+    it('should estimate token usage from the prompt and answer', async () => {
+      // Act
+      const completion = await new MockLLMProvider({ responses: ['x'.repeat(40)] }).complete(messages);
+
+      // Assert
+      expect(completion.usage).toEqual({ prompt: 4, completion: 10, total: 14 });
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * TDD Test Suite for LLM Usage Accounting
+ * Pricing, the per-audit UsageTracker and persistence of spend (Prisma mocked in jest.setup.js)
+ */
+
+import prisma from '@/lib/prisma';
+import { MODEL_PRICING, UsageTracker, calculateCostCents, estimateUsage, getModelPricing } from '../usage';
+import { getUserUsage, saveAuditUsage } from '../usage-store';
+
+const usage = { prompt: 1_000_000, completion: 500_000, total: 1_500_000 };
+
+describe('LLM Usage - TDD', () => {
+  describe('RED Phase: Pricing', () => {
+    it('should price dated snapshots with their model family', () => {
+      // Act & Assert
+      expect(getModelPricing('gpt-4o-mini-2024-07-18')).toBe(MODEL_PRICING['gpt-4o-mini']);
+      expect(getModelPricing('gpt-4o-2024-08-06')).toBe(MODEL_PRICING['gpt-4o']);
+    });
+
+    it('should bill unknown models at the gpt-4o rate', () => {
+      // Act & Assert
+      expect(getModelPricing('llama-3.1-70b')).toBe(MODEL_PRICING['gpt-4o']);
+    });
+
+    it('should compute cost in cents, keeping fractions', () => {
+      // Act & Assert
+      expect(calculateCostCents('gpt-4o-mini', usage)).toBe(45);
+      expect(calculateCostCents('gpt-4o-mini', { prompt: 1000, completion: 200, total: 1200 })).toBeCloseTo(0.027);
+    });
+
+    it('should estimate usage at four characters per token', () => {
+      // Act & Assert
+      expect(estimateUsage([{ role: 'user', content: 'x'.repeat(10) }], 'y'.repeat(8))).toEqual({ prompt: 3, completion: 2, total: 5 });
+    });
+  });
+
+  describe('GREEN Phase: Usage Tracker', () => {
+    it('should accumulate calls, tokens and cost', () => {
+      // Arrange
+      const tracker = new UsageTracker();
+
+      // Act
+      const cost = tracker.record('gpt-4o-mini', usage);
+      tracker.record('gpt-4o', { prompt: 1000, completion: 0, total: 1000 });
+
+      // Assert
+      expect(cost).toBe(45);
+      expect(tracker.summary).toEqual({ calls: 2, tokenUsage: { prompt: 1_001_000, completion: 500_000, total: 1_501_000 }, costCents: 45.25 });
+      expect(tracker.isOverBudget).toBe(false);
+      expect(tracker.budgetCents).toBeNull();
+    });
+
+    it('should report when the budget is spent', () => {
+      // Arrange
+      const tracker = new UsageTracker({ budgetCents: 45 });
+
+      // Act
+      tracker.record('gpt-4o-mini', usage);
+
+      // Assert
+      expect(tracker.isOverBudget).toBe(true);
+    });
+
+    it('should return copies of its totals', () => {
+      // Arrange
+      const tracker = new UsageTracker();
+
+      // Act
+      tracker.summary.tokenUsage.total = 99;
+
+      // Assert
+      expect(tracker.summary.tokenUsage.total).toBe(0);
+    });
+  });
+
+  describe('REFACTOR Phase: Persistence', () => {
+    const summary = { calls: 3, tokenUsage: { prompt: 2400, completion: 600, total: 3000 }, costCents: 0.072 };
+
+    it('should add an audit spend to its Audit row', async () => {
+      // Act
+      await saveAuditUsage('audit-1', summary);
+
+      // Assert
+      expect(prisma.audit.update).toHaveBeenCalledWith({
+        where: { id: 'audit-1' },
+        data: {
+          llmCalls: { increment: 3 },
+          promptTokens: { increment: 2400 },
+          completionTokens: { increment: 600 },
+          totalTokens: { increment: 3000 },
+          costCents: { increment: 0.072 }
+        }
+      });
+    });
+
+    it('should flag audits that hit their budget', async () => {
+      // Act
+      await saveAuditUsage('audit-1', summary, true);
+
+      // Assert
+      expect((prisma.audit.update as jest.Mock).mock.calls[0][0].data.budgetExceeded).toBe(true);
+    });
+
+    it('should roll spend up per user', async () => {
+      // Arrange
+      const since = new Date('2026-10-01T00:00:00Z');
+      (prisma.audit.aggregate as jest.Mock).mockResolvedValueOnce({
+        _count: { _all: 4 },
+        _sum: { llmCalls: 30, promptTokens: 24000, completionTokens: 6000, totalTokens: 30000, costCents: 0.72 }
+      });
+
+      // Act
+      const result = await getUserUsage('user-1', { since });
+
+      // Assert
+      expect(prisma.audit.aggregate).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'user-1', createdAt: { gte: since } } }));
+      expect(result).toEqual({ audits: 4, calls: 30, tokenUsage: { prompt: 24000, completion: 6000, total: 30000 }, costCents: 0.72 });
+    });
+
+    it('should end the period before the until date', async () => {
+      // Arrange
+      const since = new Date('2026-10-01T00:00:00Z');
+      const until = new Date('2026-11-01T00:00:00Z');
+      (prisma.audit.aggregate as jest.Mock).mockResolvedValueOnce({
+        _count: { _all: 1 },
+        _sum: { llmCalls: 5, promptTokens: 4000, completionTokens: 1000, totalTokens: 5000, costCents: 0.12 }
+      });
+
+      // Act
+      await getUserUsage('user-1', { since, until });
+
+      // Assert
+      expect((prisma.audit.aggregate as jest.Mock).mock.calls[0][0].where).toEqual({ userId: 'user-1', createdAt: { gte: since, lt: until } });
+    });
+
+    it('should report zero spend for users without audits', async () => {
+      // Arrange
+      (prisma.audit.aggregate as jest.Mock).mockResolvedValueOnce({
+        _count: { _all: 0 },
+        _sum: { llmCalls: null, promptTokens: null, completionTokens: null, totalTokens: null, costCents: null }
+      });
+
+      // Act
+      const result = await getUserUsage('user-2');
+
+      // Assert
+      expect(prisma.audit.aggregate).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'user-2' } }));
+      expect(result).toEqual({ audits: 0, calls: 0, tokenUsage: { prompt: 0, completion: 0, total: 0 }, costCents: 0 });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Lightweight language detection
+ * Distinguishes English from French by counting common function words, which
+ * is enough to catch an LLM answering in the wrong language. Short or
+ * ambiguous text is reported as unknown rather than guessed.
+ */
+
+import type { PersonaLanguage } from './personas';
+
+export type DetectedLanguage = PersonaLanguage | 'unknown';
+
+const STOPWORDS: Record<PersonaLanguage, ReadonlySet<string>> = {
+  en: new Set([
+    'the', 'and', 'is', 'are', 'for', 'your', 'you', 'to', 'of', 'with', 'on', 'in', 'this', 'that',
+    'it', 'more', 'will', 'can', 'from', 'by', 'at', 'be', 'or', 'as', 'add', 'shoppers', 'customers',
+  ]),
+  fr: new Set([
+    'le', 'la', 'les', 'des', 'du', 'de', 'et', 'est', 'sont', 'pour', 'vos', 'votre', 'vous', 'une',
+    'un', 'sur', 'avec', 'dans', 'au', 'aux', 'ce', 'cette', 'qui', 'que', 'plus', 'pas', 'par', 'ou',
+    'ajoutez', 'clients', 'achat', 'panier',
+  ]),
+};
+
+// Minimum number of stopword hits before a verdict is given
+const MIN_EVIDENCE = 3;
+// The winning language needs this share of all hits
+const MIN_SHARE = 0.65;
+
+export function detectLanguage(text: string): DetectedLanguage {
+  const words = text.toLowerCase().match(/[a-zà-ÿœ]+/g) ?? [];
+  const hits: Record<PersonaLanguage, number> = { en: 0, fr: 0 };
+  for (const word of words) {
+    if (STOPWORDS.en.has(word)) hits.en++;
+    if (STOPWORDS.fr.has(word)) hits.fr++;
+  }
+
+  const total = hits.en + hits.fr;
+  if (total < MIN_EVIDENCE) {
+    return 'unknown';
+  }
+  if (hits.fr / total >= MIN_SHARE) {
+    return 'fr';
+  }
+  return hits.en / total >= MIN_SHARE ? 'en' : 'unknown';
+}
@@ -0,0 +1,263 @@
+/**
+ * LLM Service
+ * Turns heuristic Findings into validated LLMRecommendations.
+ *
+ * Flow:
+ * - Prompt the provider with the finding and its page context
+ * - Repair the answer locally (markdown fences, text around the JSON),
+ *   validate it against LLMRecommendationSchema, check it is written in
+ *   the persona's language and that its code snippet is valid Liquid/HTML
+ *   with a theme file and search cue to paste it at
+ * - PARSING_ERROR: re-ask in the same conversation, quoting what was wrong
+ * - Other retryable errors (RATE_LIMIT, transient API_ERROR): exponential backoff
+ * - Non-retryable errors and exhausted retries are thrown as LLMError
+ *
+ * Every completion, including ones that are re-asked, is recorded on the
+ * audit's UsageTracker. Once its budget is spent no further call is made:
+ * batch generation skips the remaining findings, most severe first.
+ */
+
+import { LLMError, LLMRecommendationSchema } from '../../types';
+import type { Finding, LLMMessage, LLMProvider, LLMRecommendation, LLMUsageSummary, PersonaId } from '../../types';
+import { THEME_FILE_PATTERN, findSnippetProblems } from '../themes/liquid';
+import { detectLanguage } from './language';
+import { LANGUAGE_NAMES, getPersona } from './personas';
+import { MockLLMProvider } from './mock-provider';
+import { OpenAIProvider } from './openai-provider';
+import { buildRecommendationMessages, buildRepairMessages } from './prompts';
+import type { RecommendationContext } from './prompts';
+import { UsageTracker, estimateUsage } from './usage';
+
+export interface LLMServiceOptions {
+  provider?: LLMProvider;
+  maxRetries?: number;
+  retryDelay?: number; // Base backoff in ms, doubled on every retry
+}
+
+// Accepted answer with what produced it, kept as a recommendation version
+export interface RecommendationDraft {
+  recommendation: LLMRecommendation;
+  model: string; // Model that wrote the accepted answer
+  messages: LLMMessage[]; // Prompt of the first attempt; repair turns are not included
+}
+
+export interface GeneratedRecommendation extends RecommendationDraft {
+  finding: Finding;
+}
+
+export interface RecommendationBatch {
+  recommendations: GeneratedRecommendation[];
+  failed: { finding: Finding; error: LLMError }[];
+  skipped: Finding[]; // Left without a recommendation because the budget ran out
+  budgetExceeded: boolean;
+  usage: LLMUsageSummary;
+}
+
+const SEVERITY_ORDER: Record<Finding['severity'], number> = { high: 0, med: 1, low: 2 };
+
+/**
+ * OpenAI when an API key is configured, the local mock otherwise or when LLM_PROVIDER=mock
+ */
+export function createDefaultProvider(): LLMProvider {
+  if (process.env.LLM_PROVIDER === 'mock' || !process.env.OPENAI_API_KEY) {
+    return new MockLLMProvider();
+  }
+  return new OpenAIProvider();
+}
+
+export class LLMService {
+  // Service configuration constants
+  public static readonly DEFAULT_MAX_RETRIES = 2;
+  public static readonly DEFAULT_RETRY_DELAY = 1000;
+
+  private readonly provider: LLMProvider;
+  private readonly maxRetries: number;
+  private readonly retryDelay: number;
+
+  constructor(options: LLMServiceOptions = {}) {
+    this.provider = options.provider ?? createDefaultProvider();
+    this.maxRetries = options.maxRetries ?? LLMService.DEFAULT_MAX_RETRIES;
+    this.retryDelay = options.retryDelay ?? LLMService.DEFAULT_RETRY_DELAY;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Ask the provider for a recommendation fixing the given finding
+   */
+  async generateRecommendation(
+    finding: Finding,
+    context: RecommendationContext,
+    tracker: UsageTracker = new UsageTracker()
+  ): Promise<LLMRecommendation> {
+    return (await this.draftRecommendation(finding, context, tracker)).recommendation;
+  }
+
+  /**
+   * Like generateRecommendation, also returning the model and prompt behind the answer
+   */
+  async draftRecommendation(
+    finding: Finding,
+    context: RecommendationContext,
+    tracker: UsageTracker = new UsageTracker()
+  ): Promise<RecommendationDraft> {
+    const messages = buildRecommendationMessages(finding, context);
+    const { recommendation, model } = await this.requestRecommendation(messages, context.persona, tracker, 0);
+    return { recommendation, model, messages };
+  }
+
+  /**
+   * Generate recommendations for an audit's findings within the tracker's budget.
+   * Findings from several pages take a map of contexts keyed by page id.
+   * Failures are collected per finding so one bad answer does not lose the others.
+   */
+  async generateRecommendations(
+    findings: Finding[],
+    context: RecommendationContext | ReadonlyMap<string, RecommendationContext>,
+    tracker: UsageTracker = new UsageTracker()
+  ): Promise<RecommendationBatch> {
+    const batch: RecommendationBatch = { recommendations: [], failed: [], skipped: [], budgetExceeded: false, usage: tracker.summary };
+    const ordered = [...findings].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+    for (const finding of ordered) {
+      if (batch.budgetExceeded) {
+        batch.skipped.push(finding);
+        continue;
+      }
+      try {
+        batch.recommendations.push({ finding, ...(await this.draftRecommendation(finding, this.contextFor(finding, context), tracker)) });
+      } catch (error) {
+        const llmError = this.toLLMError(error);
+        if (llmError.code === 'BUDGET_EXCEEDED') {
+          batch.budgetExceeded = true;
+          batch.skipped.push(finding);
+        } else {
+          batch.failed.push({ finding, error: llmError });
+        }
+      }
+    }
+
+    batch.usage = tracker.summary;
+    return batch;
+  }
+
+  /**
+   * Extract and validate a recommendation from a raw completion
+   */
+  parseRecommendation(content: string, personaId: PersonaId = 'default'): LLMRecommendation {
+    let json: unknown;
+    try {
+      json = JSON.parse(this.extractJson(content));
+    } catch {
+      throw new LLMError('Answer is not valid JSON', 'PARSING_ERROR', true);
+    }
+
+    const parsed = LLMRecommendationSchema.safeParse(json);
+    if (!parsed.success) {
+      const problems = parsed.error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+      throw new LLMError(`Answer does not match the recommendation schema (${problems.join('; ')})`, 'PARSING_ERROR', true);
+    }
+
+    this.assertLanguage(parsed.data, personaId);
+    this.assertSnippet(parsed.data);
+    return parsed.data;
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private async requestRecommendation(
+    messages: LLMMessage[],
+    personaId: PersonaId | undefined,
+    tracker: UsageTracker,
+    attempt: number
+  ): Promise<{ recommendation: LLMRecommendation; model: string }> {
+    if (tracker.isOverBudget) {
+      throw new LLMError(`LLM budget of ${tracker.budgetCents} cents is spent`, 'BUDGET_EXCEEDED');
+    }
+
+    let answer: string | null = null;
+    try {
+      const completion = await this.provider.complete(messages);
+      answer = completion.content;
+      tracker.record(completion.model, completion.usage ?? estimateUsage(messages, answer));
+      return { recommendation: this.parseRecommendation(answer, personaId), model: completion.model };
+    } catch (error) {
+      const llmError = this.toLLMError(error);
+      if (!llmError.retryable || attempt >= this.maxRetries) {
+        throw llmError;
+      }
+
+      if (llmError.code === 'PARSING_ERROR' && answer !== null) {
+        return this.requestRecommendation([...messages, ...buildRepairMessages(answer, llmError.message)], personaId, tracker, attempt + 1);
+      }
+
+      await this.wait(this.retryDelay * 2 ** attempt);
+      return this.requestRecommendation(messages, personaId, tracker, attempt + 1);
+    }
+  }
+
+  private contextFor(
+    finding: Finding,
+    context: RecommendationContext | ReadonlyMap<string, RecommendationContext>
+  ): RecommendationContext {
+    if (!(context instanceof Map)) {
+      return context as RecommendationContext;
+    }
+    const pageContext = context.get(finding.pageId);
+    if (!pageContext) {
+      throw new LLMError(`No page context for finding ${finding.id}`, 'API_ERROR');
+    }
+    return pageContext;
+  }
+
+  private assertLanguage(recommendation: LLMRecommendation, personaId: PersonaId): void {
+    const expected = getPersona(personaId).language;
+    const text = [recommendation.issue, recommendation.why, recommendation.whereToPlace, ...recommendation.copyVariants].join('\n');
+    const detected = detectLanguage(text);
+    if (detected !== 'unknown' && detected !== expected) {
+      throw new LLMError(
+        `Answer is written in ${LANGUAGE_NAMES[detected]}, expected ${LANGUAGE_NAMES[expected]}`,
+        'PARSING_ERROR',
+        true
+      );
+    }
+  }
+
+  private assertSnippet({ codeSnippet, pastePath, searchCue }: LLMRecommendation): void {
+    if (codeSnippet.trim() === '') {
+      return;
+    }
+    const problems = findSnippetProblems(codeSnippet);
+    if (!THEME_FILE_PATTERN.test(pastePath)) {
+      problems.push('pastePath must name a theme file such as sections/main-product.liquid');
+    }
+    if (searchCue.trim().length < 5) {
+      problems.push('searchCue must quote at least 5 characters of that file');
+    }
+    if (problems.length > 0) {
+      throw new LLMError(`Code snippet cannot be pasted (${problems.join('; ')})`, 'PARSING_ERROR', true);
+    }
+  }
+
+  private extractJson(content: string): string {
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1]! : content;
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    return start >= 0 && end > start ? candidate.slice(start, end + 1) : candidate;
+  }
+
+  private toLLMError(error: unknown): LLMError {
+    if (error instanceof LLMError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new LLMError(`${this.provider.name} provider failed: ${message}`, 'API_ERROR');
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
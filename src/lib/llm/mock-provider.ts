@@ -0,0 +1,100 @@
+/**
+ * Local mock provider
+ * Deterministic stand-in for an LLM so the audit pipeline runs offline, in CI
+ * and in development without an API key. The same prompt always yields the
+ * same recommendation, derived from the finding embedded in the prompt and
+ * written in English or French depending on the persona locale.
+ *
+ * Token usage is estimated from the text so budgets can be exercised offline.
+ *
+ * Tests can queue scripted answers (raw strings or LLMErrors) that are
+ * returned before falling back to the generated recommendation.
+ */
+
+import { LLMError } from '../../types';
+import type { LLMCompletion, LLMMessage, LLMProvider, LLMRecommendation } from '../../types';
+import { estimateUsage } from './usage';
+
+export type MockLLMResponse = string | LLMError;
+
+export interface MockLLMProviderOptions {
+  responses?: MockLLMResponse[];
+}
+
+const IMPACT_BY_SEVERITY: Record<string, LLMRecommendation['impact']> = {
+  high: 'High',
+  med: 'Medium',
+  low: 'Low',
+};
+
+export class MockLLMProvider implements LLMProvider {
+  // Provider configuration constants
+  public static readonly MODEL = 'mock-cro-1';
+
+  public readonly name = 'mock';
+  public readonly calls: LLMMessage[][] = [];
+  private readonly responses: MockLLMResponse[];
+
+  constructor(options: MockLLMProviderOptions = {}) {
+    this.responses = [...(options.responses ?? [])];
+  }
+
+  async complete(messages: LLMMessage[]): Promise<LLMCompletion> {
+    this.calls.push(messages);
+
+    const scripted = this.responses.shift();
+    if (scripted instanceof LLMError) {
+      throw scripted;
+    }
+
+    const content = scripted ?? JSON.stringify(this.recommend(messages));
+    return {
+      content,
+      model: MockLLMProvider.MODEL,
+      usage: estimateUsage(messages, content),
+    };
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private recommend(messages: LLMMessage[]): LLMRecommendation {
+    const prompt = messages.find(message => message.role === 'user')?.content ?? '';
+    const ruleId = prompt.match(/"ruleId":\s*"([^"]+)"/)?.[1] ?? 'unknown_issue';
+    const severity = prompt.match(/"severity":\s*"([^"]+)"/)?.[1] ?? 'low';
+    const appName = prompt.match(/"appName":\s*"([^"]+)"/)?.[1];
+    const locale = messages.find(message => message.role === 'system')?.content.match(/^Locale: (\S+)$/m)?.[1];
+    const label = ruleId.replace(/_/g, ' ');
+    const impact = IMPACT_BY_SEVERITY[severity] ?? 'Low';
+    const effort = appName ? 'Low' : 'Medium';
+
+    if (locale?.startsWith('fr')) {
+      return {
+        issue: `L'audit a détecté « ${label} » sur cette page.`,
+        why: `Les problèmes comme « ${label} » ajoutent de la friction pour les clients et réduisent la part des visiteurs qui passent à l'achat.`,
+        impact,
+        effort,
+        copyVariants: [`Corriger ${label}`, `Vérifier ${label} sur mobile et sur ordinateur`],
+        codeSnippet: '',
+        whereToPlace: appName
+          ? `Dans les paramètres de l'application ${appName}, puis son bloc dans Boutique en ligne > Thèmes > Personnaliser`
+          : 'Dans Boutique en ligne > Thèmes > Personnaliser',
+        pastePath: '',
+        searchCue: '',
+      };
+    }
+
+    return {
+      issue: `The audit detected "${label}" on this page.`,
+      why: `Issues like "${label}" add friction for shoppers and reduce the share of visitors who buy.`,
+      impact,
+      effort,
+      copyVariants: [`Fix ${label}`, `Review ${label} on mobile and desktop`],
+      codeSnippet: '',
+      whereToPlace: appName
+        ? `${appName} app settings, then its app block in Online Store > Themes > Customize`
+        : 'Online Store > Themes > Customize',
+      pastePath: '',
+      searchCue: '',
+    };
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * OpenAI-compatible provider
+ * Sends chat completions through the official SDK. Any endpoint that speaks the
+ * OpenAI API (Azure, OpenRouter, a local vLLM...) works by setting baseURL.
+ * Token usage is passed through when the endpoint reports it.
+ *
+ * SDK failures are mapped to LLMError:
+ * - RATE_LIMIT (retryable): HTTP 429
+ * - API_ERROR (retryable): network failures, timeouts and 5xx responses
+ * - API_ERROR: any other HTTP error, e.g. a bad API key
+ * - PARSING_ERROR (retryable): the completion came back empty
+ */
+
+import OpenAI from 'openai';
+import { LLMError } from '../../types';
+import type { LLMCompletion, LLMMessage, LLMProvider } from '../../types';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  temperature?: number;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  // Provider configuration constants
+  public static readonly DEFAULT_MODEL = 'gpt-4o-mini';
+  private static readonly DEFAULT_TEMPERATURE = 0.4;
+
+  public readonly name = 'openai';
+  private readonly client: OpenAI;
+  private readonly model: string;
+  private readonly temperature: number;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    const baseURL = options.baseURL ?? process.env.OPENAI_BASE_URL;
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+      ...(baseURL ? { baseURL } : {}),
+      maxRetries: 0, // LLMService owns the retry policy
+    });
+    this.model = options.model ?? process.env.OPENAI_MODEL ?? OpenAIProvider.DEFAULT_MODEL;
+    this.temperature = options.temperature ?? OpenAIProvider.DEFAULT_TEMPERATURE;
+  }
+
+  async complete(messages: LLMMessage[]): Promise<LLMCompletion> {
+    let response;
+    try {
+      response = await this.client.chat.completions.create({
+        model: this.model,
+        messages,
+        temperature: this.temperature,
+        response_format: { type: 'json_object' },
+      });
+    } catch (error) {
+      throw this.toLLMError(error);
+    }
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new LLMError(`Empty completion from ${this.model}`, 'PARSING_ERROR', true);
+    }
+
+    const usage = response.usage;
+    return {
+      content,
+      model: response.model ?? this.model,
+      ...(usage
+        ? { usage: { prompt: usage.prompt_tokens, completion: usage.completion_tokens, total: usage.total_tokens } }
+        : {}),
+    };
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private toLLMError(error: unknown): LLMError {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = typeof error === 'object' && error !== null ? (error as { status?: unknown }).status : undefined;
+
+    if (status === 429) {
+      return new LLMError(`Rate limited by ${this.model}: ${message}`, 'RATE_LIMIT', true);
+    }
+
+    const retryable = typeof status !== 'number' || status === 408 || status >= 500;
+    return new LLMError(`Request to ${this.model} failed: ${message}`, 'API_ERROR', retryable);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Recommendation personas
+ * A persona fixes the language, tone and regulatory context of the advice.
+ * It is injected into the system prompt, and LLMService checks that answers
+ * actually come back in the persona's language.
+ */
+
+import type { PersonaId } from '../../types';
+
+export type PersonaLanguage = 'en' | 'fr';
+
+export interface Persona {
+  id: PersonaId;
+  name: string;
+  language: PersonaLanguage;
+  locale: string;
+  tone: string;
+  regulatoryNotes: string[];
+  themeEditorPath: string; // Shopify admin path as labelled in this locale
+}
+
+export const LANGUAGE_NAMES: Record<PersonaLanguage, string> = {
+  en: 'English',
+  fr: 'French',
+};
+
+export const PERSONAS: Readonly<Record<PersonaId, Persona>> = {
+  default: {
+    id: 'default',
+    name: 'Default',
+    language: 'en',
+    locale: 'en-US',
+    tone: 'Clear, friendly and direct. Plain words a busy merchant can act on today.',
+    regulatoryNotes: [],
+    themeEditorPath: 'Online Store > Themes > Customize',
+  },
+  'fr-que': {
+    id: 'fr-que',
+    name: 'Québec French',
+    language: 'fr',
+    locale: 'fr-CA',
+    tone: 'Professionnel et chaleureux, en français québécois standard, avec le vouvoiement.',
+    regulatoryNotes: [
+      'Charter of the French Language as amended by Bill 96: storefront text, product information and commercial messages must be available in French, and French must be at least as prominent as any other language.',
+      'Generic words next to a trademark must be translated; only the trademark itself may stay in another language.',
+      'Use Québec terminology ("magasiner", "panier", "courriel") rather than European French.',
+      'Format prices the Canadian French way, e.g. "49,99 $".',
+    ],
+    themeEditorPath: 'Boutique en ligne > Thèmes > Personnaliser',
+  },
+};
+
+export function getPersona(id: PersonaId = 'default'): Persona {
+  return PERSONAS[id];
+}
@@ -0,0 +1,132 @@
+/**
+ * Recommendation prompts
+ * Turns a heuristic Finding and the page it was found on into chat messages
+ * asking for a single JSON object matching LLMRecommendationSchema, written
+ * for the requested persona. When the page's theme is known, the model is
+ * steered toward the section files it is built from.
+ */
+
+import type { Finding, LLMMessage, LLMRecommendation, PageType, PersonaId, ThemeFamily, ThemeInfo } from '../../types';
+import { LANGUAGE_NAMES, getPersona } from './personas';
+
+export interface RecommendationContext {
+  pageUrl: string;
+  pageType: PageType;
+  storeName?: string;
+  persona?: PersonaId;
+  theme?: ThemeInfo; // Detected in the crawled HTML
+  previous?: LLMRecommendation; // Answer being regenerated
+  hint?: string; // What the merchant wants changed in the previous answer
+}
+
+export const RECOMMENDATION_SYSTEM_PROMPT = [
+  'You are a conversion rate optimisation expert for Shopify stores.',
+  'You receive one issue detected by an automated audit and answer with a single JSON object, without markdown, using exactly these keys:',
+  '- "issue": one sentence naming the problem',
+  '- "why": why it costs conversions, grounded in the evidence',
+  '- "impact": "High", "Medium" or "Low"',
+  '- "effort": "High", "Medium" or "Low"',
+  '- "copyVariants": 1 to 3 short copy suggestions',
+  '- "codeSnippet": Liquid, HTML or CSS the merchant can paste, or "" when no code is needed; close every Liquid block and HTML element it opens',
+  '- "whereToPlace": where the change goes in the theme editor or code',
+  '- "pastePath": the theme file the snippet goes in, such as "sections/main-product.liquid", or "" without a snippet',
+  '- "searchCue": a short exact text already in that file, where the snippet goes, such as "class=\\"product-form__buttons\\"", or "" without a snippet',
+  'When the evidence names an app, give instructions for that app instead of generic advice.',
+].join('\n');
+
+const THEME_FAMILY_NOTES: Record<ThemeFamily, string> = {
+  dawn: 'It is Dawn or built on Dawn (Online Store 2.0): reuse Dawn class names such as "button" and "product-form", and prefer editing a section file below or a "Custom Liquid" block added in the theme editor.',
+  os2: 'It is an Online Store 2.0 theme: prefer editing a section file below or a "Custom Liquid" block added in the theme editor.',
+  vintage: 'It predates Online Store 2.0 and has no app or custom blocks: edit its section, snippet or template files directly.',
+};
+
+export function buildRecommendationMessages(finding: Finding, context: RecommendationContext): LLMMessage[] {
+  const details = {
+    store: context.storeName ?? null,
+    page: { url: context.pageUrl, type: context.pageType },
+    ...(context.theme
+      ? {
+          theme: {
+            name: context.theme.name,
+            basedOn: context.theme.schemaName,
+            version: context.theme.schemaVersion,
+            sectionFiles: [...new Set(context.theme.sections.map(section => section.file))],
+          },
+        }
+      : {}),
+    finding: {
+      ruleId: finding.ruleId,
+      severity: finding.severity,
+      evidence: finding.evidence,
+    },
+  };
+
+  return [
+    { role: 'system', content: `${RECOMMENDATION_SYSTEM_PROMPT}\n\n${buildPersonaInstructions(context.persona)}` },
+    {
+      role: 'user',
+      content: `Audit finding:\n${JSON.stringify(details, null, 2)}${buildThemeInstructions(context.theme)}${buildRevisionRequest(context)}`,
+    },
+  ];
+}
+
+/**
+ * Where snippets should go in the detected theme, appended to the finding
+ */
+function buildThemeInstructions(theme: ThemeInfo | undefined): string {
+  if (!theme) {
+    return '';
+  }
+  const lines = [`\n\nThe store runs the theme "${theme.schemaName ?? theme.name ?? 'unknown'}". ${THEME_FAMILY_NOTES[theme.family]}`];
+  if (theme.sections.length > 0) {
+    lines.push('Set "pastePath" to the section file of theme.sectionFiles that renders the element at issue when one does.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Previous answer and merchant hint, appended to the finding when regenerating
+ */
+function buildRevisionRequest({ previous, hint }: RecommendationContext): string {
+  if (!previous && !hint) {
+    return '';
+  }
+  const lines = [''];
+  if (previous) {
+    lines.push(`Previous recommendation:\n${JSON.stringify(previous, null, 2)}`);
+  }
+  lines.push(hint ? `Revise it as the merchant asked: ${hint}` : 'Write a different recommendation that takes another angle.');
+  return lines.join('\n\n');
+}
+
+/**
+ * Language, tone and regulatory notes of the persona, appended to the system prompt
+ */
+export function buildPersonaInstructions(personaId: PersonaId = 'default'): string {
+  const persona = getPersona(personaId);
+  const language = LANGUAGE_NAMES[persona.language];
+  const lines = [
+    `Persona: ${persona.name}`,
+    `Locale: ${persona.locale}`,
+    `Write "issue", "why", "copyVariants" and "whereToPlace" in ${language}. Customer-facing text inside "codeSnippet" must be in ${language} too.`,
+    `Refer to the theme editor as "${persona.themeEditorPath}".`,
+    `Tone: ${persona.tone}`,
+  ];
+  if (persona.regulatoryNotes.length > 0) {
+    lines.push('Regulatory notes to respect and mention when relevant:', ...persona.regulatoryNotes.map(note => `- ${note}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Follow-up sent when the previous answer could not be used
+ */
+export function buildRepairMessages(previousAnswer: string, problem: string): LLMMessage[] {
+  return [
+    { role: 'assistant', content: previousAnswer },
+    {
+      role: 'user',
+      content: `Your previous answer could not be used: ${problem}\nReply again with only the corrected JSON object.`,
+    },
+  ];
+}
@@ -0,0 +1,51 @@
+/**
+ * LLM usage persistence
+ * Adds an audit's LLM spend to its Audit row and rolls spend up per user for
+ * billing. Usage is incremented rather than overwritten so regenerating
+ * recommendations later keeps adding to the same audit.
+ */
+
+import prisma from '@/lib/prisma';
+import type { LLMUsageSummary } from '../../types';
+
+export interface UserUsageSummary extends LLMUsageSummary {
+  audits: number;
+}
+
+export interface UserUsageOptions {
+  since?: Date; // Only count audits created at or after this date, e.g. a billing period start
+  until?: Date; // Only count audits created before this date, e.g. the next period start
+}
+
+export async function saveAuditUsage(auditId: string, usage: LLMUsageSummary, budgetExceeded = false) {
+  return prisma.audit.update({
+    where: { id: auditId },
+    data: {
+      llmCalls: { increment: usage.calls },
+      promptTokens: { increment: usage.tokenUsage.prompt },
+      completionTokens: { increment: usage.tokenUsage.completion },
+      totalTokens: { increment: usage.tokenUsage.total },
+      costCents: { increment: usage.costCents },
+      ...(budgetExceeded ? { budgetExceeded } : {}),
+    },
+  });
+}
+
+export async function getUserUsage(userId: string, options: UserUsageOptions = {}): Promise<UserUsageSummary> {
+  const result = await prisma.audit.aggregate({
+    where: { userId, ...(options.since || options.until ? { createdAt: { gte: options.since, lt: options.until } } : {}) },
+    _count: { _all: true },
+    _sum: { llmCalls: true, promptTokens: true, completionTokens: true, totalTokens: true, costCents: true },
+  });
+
+  return {
+    audits: result._count._all,
+    calls: result._sum.llmCalls ?? 0,
+    tokenUsage: {
+      prompt: result._sum.promptTokens ?? 0,
+      completion: result._sum.completionTokens ?? 0,
+      total: result._sum.totalTokens ?? 0,
+    },
+    costCents: result._sum.costCents ?? 0,
+  };
+}
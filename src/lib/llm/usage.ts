@@ -0,0 +1,90 @@
+/**
+ * LLM usage accounting
+ * Prices token usage per model and accumulates it for one audit, so spend can
+ * be billed per store and capped with an optional budget.
+ *
+ * Prices are in US cents per million tokens. Models are matched by prefix so
+ * dated snapshots (gpt-4o-mini-2024-07-18) use their family price; unknown
+ * models are billed at the gpt-4o rate so a budget never under-counts.
+ */
+
+import type { LLMMessage, LLMUsageSummary, TokenUsage } from '../../types';
+
+export interface ModelPricing {
+  promptCentsPerMillion: number;
+  completionCentsPerMillion: number;
+}
+
+export const MODEL_PRICING: Readonly<Record<string, ModelPricing>> = {
+  'gpt-4o-mini': { promptCentsPerMillion: 15, completionCentsPerMillion: 60 },
+  'gpt-4o': { promptCentsPerMillion: 250, completionCentsPerMillion: 1000 },
+  'gpt-4.1-mini': { promptCentsPerMillion: 40, completionCentsPerMillion: 160 },
+  'gpt-4.1': { promptCentsPerMillion: 200, completionCentsPerMillion: 800 },
+  // Priced like the default model so offline runs show realistic spend
+  'mock-cro-1': { promptCentsPerMillion: 15, completionCentsPerMillion: 60 },
+};
+
+const FALLBACK_PRICING = MODEL_PRICING['gpt-4o']!;
+
+// Rough English/French average, used when a provider does not report usage
+const CHARS_PER_TOKEN = 4;
+
+export function getModelPricing(model: string): ModelPricing {
+  const family = Object.keys(MODEL_PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find(prefix => model.startsWith(prefix));
+  return family ? MODEL_PRICING[family]! : FALLBACK_PRICING;
+}
+
+export function calculateCostCents(model: string, usage: TokenUsage): number {
+  const pricing = getModelPricing(model);
+  return (usage.prompt * pricing.promptCentsPerMillion + usage.completion * pricing.completionCentsPerMillion) / 1_000_000;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateUsage(messages: LLMMessage[], answer: string): TokenUsage {
+  const prompt = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const completion = estimateTokens(answer);
+  return { prompt, completion, total: prompt + completion };
+}
+
+export function emptyUsageSummary(): LLMUsageSummary {
+  return { calls: 0, tokenUsage: { prompt: 0, completion: 0, total: 0 }, costCents: 0 };
+}
+
+export interface UsageTrackerOptions {
+  budgetCents?: number; // Stop new calls once spend reaches this amount
+}
+
+export class UsageTracker {
+  public readonly budgetCents: number | null;
+  private readonly totals = emptyUsageSummary();
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.budgetCents = options.budgetCents ?? null;
+  }
+
+  /**
+   * Add one LLM call and return its cost in cents
+   */
+  record(model: string, usage: TokenUsage): number {
+    const costCents = calculateCostCents(model, usage);
+    this.totals.calls++;
+    this.totals.tokenUsage.prompt += usage.prompt;
+    this.totals.tokenUsage.completion += usage.completion;
+    this.totals.tokenUsage.total += usage.total;
+    this.totals.costCents += costCents;
+    return costCents;
+  }
+
+  get summary(): LLMUsageSummary {
+    return { ...this.totals, tokenUsage: { ...this.totals.tokenUsage } };
+  }
+
+  get isOverBudget(): boolean {
+    return this.budgetCents !== null && this.totals.costCents >= this.budgetCents;
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * TDD Test Suite for Recommendation Versions
+ * The LLM is faked and usage persistence mocked; Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import { getRecommendationHistory, pinVersion, RecommendationRegenerator } from '../versions';
+import { saveAuditUsage } from '../../llm/usage-store';
+import type { UsageTracker } from '../../llm/usage';
+import { LLMError } from '../../../types';
+import { createMockLLMRecommendation } from '../../../test-utils';
+
+jest.mock('../../llm/llm-service', () => ({
+  LLMService: jest.fn()
+}));
+
+jest.mock('../../llm/usage-store', () => ({
+  saveAuditUsage: jest.fn()
+}));
+
+const previous = createMockLLMRecommendation();
+
+const revised = { ...previous, copyVariants: ['Add to cart'] };
+
+const messages = [{ role: 'user', content: 'Audit finding: hero_cta_missing' }];
+
+const source = (overrides: Record<string, unknown> = {}) => ({
+  id: 'rec-1',
+  auditId: 'audit-1',
+  ...previous,
+  version: 2,
+  finding: {
+    id: 'finding-1',
+    crawlResultId: 'page-1',
+    ruleId: 'hero_cta_missing',
+    severity: 'high',
+    evidence: { ctaCount: 0 },
+    crawlResult: { url: 'https://test-store.myshopify.com/', pageType: 'home', metadata: { source: 'root' } }
+  },
+  audit: { persona: 'default', budgetCents: null, costCents: 0.5 },
+  versions: [{ version: 3, persona: 'default' }, { version: 2, persona: 'fr-que' }, { version: 1, persona: 'default' }],
+  ...overrides
+});
+
+const historyQuery = {
+  where: { id: 'rec-1', audit: { userId: 'user-1' } },
+  select: expect.objectContaining({ id: true, version: true, versions: expect.objectContaining({ orderBy: { version: 'desc' } }) })
+};
+
+describe('Recommendation Versions - TDD', () => {
+  let llm: { draftRecommendation: jest.Mock };
+  let regenerator: RecommendationRegenerator;
+
+  beforeEach(() => {
+    llm = {
+      draftRecommendation: jest.fn(async (_finding, _context, tracker: UsageTracker) => {
+        tracker.record('mock-cro-1', { prompt: 900, completion: 200, total: 1100 });
+        return { recommendation: revised, model: 'mock-cro-1', messages };
+      })
+    };
+    regenerator = new RecommendationRegenerator({ llm });
+    (prisma.recommendation.findFirst as jest.Mock)
+      .mockResolvedValueOnce(source())
+      .mockResolvedValue({ id: 'rec-1', version: 4, versions: [] });
+  });
+
+  describe('RED Phase: Access', () => {
+    it('should scope lookups to the audit owner', async () => {
+      // Act
+      await getRecommendationHistory('user-1', 'rec-1');
+
+      // Assert
+      expect(prisma.recommendation.findFirst).toHaveBeenCalledWith(historyQuery);
+    });
+
+    it('should not regenerate missing recommendations or ones without a finding', async () => {
+      // Arrange
+      (prisma.recommendation.findFirst as jest.Mock).mockReset()
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(source({ finding: null }));
+
+      // Act & Assert
+      await expect(regenerator.regenerate('user-1', 'rec-9', { pin: true })).resolves.toBeNull();
+      await expect(regenerator.regenerate('user-1', 'rec-1', { pin: true })).resolves.toBeNull();
+      expect(llm.draftRecommendation).not.toHaveBeenCalled();
+    });
+
+    it('should not pin versions that do not exist', async () => {
+      // Arrange
+      (prisma.recommendationVersion.findFirst as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const result = await pinVersion('user-1', 'rec-1', 9);
+
+      // Assert
+      expect(result).toBeNull();
+      expect(prisma.recommendationVersion.findFirst).toHaveBeenCalledWith({
+        where: { recommendationId: 'rec-1', version: 9, recommendation: { audit: { userId: 'user-1' } } },
+        select: expect.objectContaining({ issue: true, codeSnippet: true })
+      });
+      expect(prisma.recommendation.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Regeneration', () => {
+    it('should revise the pinned answer following the hint', async () => {
+      // Act
+      await regenerator.regenerate('user-1', 'rec-1', { hint: 'Shorter copy', pin: true });
+
+      // Assert
+      const [finding, context] = llm.draftRecommendation.mock.calls[0];
+      expect(finding).toEqual({ id: 'finding-1', pageId: 'page-1', ruleId: 'hero_cta_missing', severity: 'high', evidence: { ctaCount: 0 } });
+      expect(context).toEqual({
+        pageUrl: 'https://test-store.myshopify.com/',
+        pageType: 'home',
+        persona: 'fr-que',
+        previous,
+        hint: 'Shorter copy'
+      });
+    });
+
+    it('should prompt for the theme stored with the crawled page', async () => {
+      // Arrange
+      const theme = { name: 'Dawn', schemaName: 'Dawn', schemaVersion: '15.0.0', themeStoreId: 887, family: 'dawn', sections: [] };
+      const { finding } = source();
+      const themed = source({ finding: { ...finding, crawlResult: { ...finding.crawlResult, metadata: { source: 'root', theme } } } });
+      (prisma.recommendation.findFirst as jest.Mock).mockReset().mockResolvedValueOnce(themed);
+
+      // Act
+      await regenerator.regenerate('user-1', 'rec-1', { pin: true });
+
+      // Assert
+      expect(llm.draftRecommendation.mock.calls[0][1].theme).toEqual(theme);
+      expect(prisma.recommendation.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        include: expect.objectContaining({
+          finding: { include: { crawlResult: { select: { url: true, pageType: true, metadata: true } } } }
+        })
+      }));
+    });
+
+    it('should store the next version with its prompt and model, and pin it', async () => {
+      // Act
+      const result = await regenerator.regenerate('user-1', 'rec-1', { hint: 'Shorter copy', persona: 'default', pin: true });
+
+      // Assert
+      expect(prisma.recommendationVersion.create).toHaveBeenCalledWith({
+        data: {
+          ...revised,
+          recommendationId: 'rec-1',
+          version: 4,
+          persona: 'default',
+          hint: 'Shorter copy',
+          model: 'mock-cro-1',
+          prompt: messages
+        }
+      });
+      expect(prisma.recommendation.update).toHaveBeenCalledWith({ where: { id: 'rec-1' }, data: { ...revised, version: 4 } });
+      expect(saveAuditUsage).toHaveBeenCalledWith('audit-1', expect.objectContaining({ calls: 1 }));
+      expect(result).toEqual({ id: 'rec-1', version: 4, versions: [] });
+    });
+
+    it('should keep the pinned version when asked not to pin', async () => {
+      // Arrange
+      (prisma.recommendation.findFirst as jest.Mock).mockReset().mockResolvedValueOnce(source({ version: 1, versions: [] }));
+
+      // Act
+      await regenerator.regenerate('user-1', 'rec-1', { pin: false });
+
+      // Assert
+      const [, context] = llm.draftRecommendation.mock.calls[0];
+      expect(context).toEqual(expect.objectContaining({ persona: 'default', previous }));
+      expect(context).not.toHaveProperty('hint');
+      expect((prisma.recommendationVersion.create as jest.Mock).mock.calls[0][0].data).toMatchObject({ version: 2, hint: null });
+      expect(prisma.recommendation.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('REFACTOR Phase: Budget and Pinning', () => {
+    it('should spend only what is left of the audit budget', async () => {
+      // Arrange
+      (prisma.recommendation.findFirst as jest.Mock).mockReset()
+        .mockResolvedValueOnce(source({ audit: { persona: 'default', budgetCents: 2, costCents: 0.5 } }))
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(source({ audit: { persona: 'default', budgetCents: 2, costCents: 3 } }));
+
+      // Act
+      await regenerator.regenerate('user-1', 'rec-1', { pin: true });
+      await regenerator.regenerate('user-1', 'rec-1', { pin: true });
+
+      // Assert
+      expect(llm.draftRecommendation.mock.calls[0][2].budgetCents).toBe(1.5);
+      expect(llm.draftRecommendation.mock.calls[1][2].budgetCents).toBe(0);
+    });
+
+    it('should save the spend of failed attempts and rethrow', async () => {
+      // Arrange
+      llm.draftRecommendation
+        .mockImplementationOnce(async (_finding, _context, tracker: UsageTracker) => {
+          tracker.record('mock-cro-1', { prompt: 900, completion: 10, total: 910 });
+          throw new LLMError('Invalid recommendation', 'PARSING_ERROR');
+        });
+      (prisma.recommendation.findFirst as jest.Mock).mockResolvedValueOnce(source());
+      llm.draftRecommendation.mockRejectedValueOnce(new LLMError('Budget spent', 'BUDGET_EXCEEDED'));
+
+      // Act & Assert
+      await expect(regenerator.regenerate('user-1', 'rec-1', { pin: true })).rejects.toThrow('Invalid recommendation');
+      await expect(regenerator.regenerate('user-1', 'rec-1', { pin: true })).rejects.toThrow('Budget spent');
+      expect(saveAuditUsage).toHaveBeenCalledTimes(1);
+      expect(prisma.recommendationVersion.create).not.toHaveBeenCalled();
+    });
+
+    it('should take the next free version when a concurrent regeneration took this one', async () => {
+      // Arrange
+      const taken = Object.assign(new Error('Unique constraint failed on the fields: (`recommendationId`,`version`)'), { code: 'P2002' });
+      (prisma.recommendationVersion.create as jest.Mock).mockRejectedValueOnce(taken).mockRejectedValueOnce(taken);
+      (prisma.recommendationVersion.findFirst as jest.Mock).mockResolvedValueOnce({ version: 5 }).mockResolvedValueOnce(null);
+
+      // Act
+      await regenerator.regenerate('user-1', 'rec-1', { pin: true });
+
+      // Assert
+      expect((prisma.recommendationVersion.create as jest.Mock).mock.calls.map(([{ data }]) => data.version)).toEqual([4, 6, 7]);
+      expect(prisma.recommendationVersion.findFirst).toHaveBeenCalledWith({
+        where: { recommendationId: 'rec-1' },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+      expect(prisma.recommendation.update).toHaveBeenCalledWith({ where: { id: 'rec-1' }, data: { ...revised, version: 7 } });
+    });
+
+    it('should give up on versions after a few attempts and rethrow other failures', async () => {
+      // Arrange
+      const taken = Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        (prisma.recommendationVersion.create as jest.Mock).mockRejectedValueOnce(taken);
+      }
+      // The newest version is only re-read before another attempt
+      for (let attempt = 1; attempt < 5; attempt++) {
+        (prisma.recommendationVersion.findFirst as jest.Mock).mockResolvedValueOnce(null);
+      }
+      (prisma.recommendation.findFirst as jest.Mock).mockResolvedValueOnce(source());
+
+      // Act & Assert
+      await expect(regenerator.regenerate('user-1', 'rec-1', { pin: true })).rejects.toBe(taken);
+      expect(prisma.recommendationVersion.create).toHaveBeenCalledTimes(5);
+      (prisma.recommendationVersion.create as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable'));
+      await expect(regenerator.regenerate('user-1', 'rec-1', { pin: true })).rejects.toThrow('Database unavailable');
+      expect(prisma.recommendation.update).not.toHaveBeenCalled();
+      expect(saveAuditUsage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should copy a stored version onto the recommendation when pinned', async () => {
+      // Arrange
+      (prisma.recommendationVersion.findFirst as jest.Mock).mockResolvedValueOnce(previous);
+      (prisma.recommendation.findFirst as jest.Mock).mockReset().mockResolvedValueOnce({ id: 'rec-1', version: 1 });
+
+      // Act
+      const result = await pinVersion('user-1', 'rec-1', 1);
+
+      // Assert
+      expect(prisma.recommendation.update).toHaveBeenCalledWith({ where: { id: 'rec-1' }, data: { ...previous, version: 1 } });
+      expect(prisma.recommendation.findFirst).toHaveBeenCalledWith(historyQuery);
+      expect(result).toEqual({ id: 'rec-1', version: 1 });
+    });
+
+    it('should default to the LLM service', () => {
+      // Act & Assert
+      expect(new RecommendationRegenerator()).toBeInstanceOf(RecommendationRegenerator);
+    });
+  });
+});
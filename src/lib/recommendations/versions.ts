@@ -0,0 +1,213 @@
+/**
+ * Recommendation versions
+ * A recommendation can be regenerated, optionally following a merchant hint
+ * ("shorter copy") or in another persona. Every answer is kept as a
+ * RecommendationVersion with the prompt and model behind it, and the
+ * Recommendation row holds the pinned version that the report shows.
+ * Queries are scoped to the owner of the audit; another user's recommendation
+ * reads as missing. Concurrent regenerations of one recommendation each get
+ * their own version number.
+ */
+
+import prisma from '@/lib/prisma';
+import { ThemeInfoSchema } from '../../types';
+import type {
+  Finding,
+  LLMRecommendation,
+  PageType,
+  PersonaId,
+  RecommendationHistory,
+  RegenerateRecommendationRequest,
+  Severity,
+  ThemeInfo,
+} from '../../types';
+import { LLMService } from '../llm/llm-service';
+import type { RecommendationContext } from '../llm/prompts';
+import { UsageTracker } from '../llm/usage';
+import { saveAuditUsage } from '../llm/usage-store';
+
+export type RecommendationDrafter = Pick<LLMService, 'draftRecommendation'>;
+
+export interface RecommendationRegeneratorOptions {
+  llm?: RecommendationDrafter;
+}
+
+// Recommendation row with the relations loaded for regeneration
+interface RegenerationSource extends LLMRecommendation {
+  id: string;
+  auditId: string;
+  version: number;
+  finding: {
+    id: string;
+    crawlResultId: string;
+    ruleId: string;
+    severity: Severity;
+    evidence: Record<string, any>;
+    crawlResult: { url: string; pageType: PageType; metadata: unknown };
+  } | null;
+  audit: { persona: PersonaId; budgetCents: number | null; costCents: number };
+  versions: { version: number; persona: PersonaId }[]; // Newest first
+}
+
+// Prisma's unique constraint violation, raised when another regeneration took the version number
+const UNIQUE_VIOLATION = 'P2002';
+
+const CONTENT_FIELDS = {
+  issue: true,
+  why: true,
+  impact: true,
+  effort: true,
+  copyVariants: true,
+  codeSnippet: true,
+  whereToPlace: true,
+  pastePath: true,
+  searchCue: true,
+} as const;
+
+const VERSION_FIELDS = {
+  ...CONTENT_FIELDS,
+  version: true,
+  persona: true,
+  hint: true,
+  model: true,
+  prompt: true,
+  createdAt: true,
+} as const;
+
+export async function getRecommendationHistory(userId: string, recommendationId: string): Promise<RecommendationHistory | null> {
+  return prisma.recommendation.findFirst({
+    where: { id: recommendationId, audit: { userId } },
+    select: {
+      id: true,
+      ...CONTENT_FIELDS,
+      version: true,
+      versions: { select: VERSION_FIELDS, orderBy: { version: 'desc' } },
+    },
+  });
+}
+
+/**
+ * Show a stored version in the report; null when the user has no such recommendation or version
+ */
+export async function pinVersion(userId: string, recommendationId: string, version: number): Promise<RecommendationHistory | null> {
+  const stored: LLMRecommendation | null = await prisma.recommendationVersion.findFirst({
+    where: { recommendationId, version, recommendation: { audit: { userId } } },
+    select: CONTENT_FIELDS,
+  });
+  if (!stored) {
+    return null;
+  }
+
+  await prisma.recommendation.update({ where: { id: recommendationId }, data: { ...stored, version } });
+  return getRecommendationHistory(userId, recommendationId);
+}
+
+export class RecommendationRegenerator {
+  // Regenerator configuration constants
+  private static readonly MAX_VERSION_ATTEMPTS = 5;
+
+  private readonly llm: RecommendationDrafter;
+
+  constructor(options: RecommendationRegeneratorOptions = {}) {
+    this.llm = options.llm ?? new LLMService();
+  }
+
+  /**
+   * Store a new version of a recommendation, pinned unless asked otherwise.
+   * Returns null when the user has no such recommendation or its finding is gone.
+   * LLM spend counts against the audit budget and is saved even when no answer was usable.
+   */
+  async regenerate(
+    userId: string,
+    recommendationId: string,
+    request: RegenerateRecommendationRequest
+  ): Promise<RecommendationHistory | null> {
+    const source: RegenerationSource | null = await prisma.recommendation.findFirst({
+      where: { id: recommendationId, audit: { userId } },
+      include: {
+        finding: { include: { crawlResult: { select: { url: true, pageType: true, metadata: true } } } },
+        audit: { select: { persona: true, budgetCents: true, costCents: true } },
+        versions: { select: { version: true, persona: true }, orderBy: { version: 'desc' } },
+      },
+    });
+    if (!source?.finding) {
+      return null;
+    }
+
+    const persona = request.persona ?? this.pinnedPersona(source);
+    const theme = this.themeOf(source.finding.crawlResult.metadata);
+    const context: RecommendationContext = {
+      pageUrl: source.finding.crawlResult.url,
+      pageType: source.finding.crawlResult.pageType,
+      persona,
+      ...(theme ? { theme } : {}),
+      previous: this.contentOf(source),
+      ...(request.hint !== undefined ? { hint: request.hint } : {}),
+    };
+    const { budgetCents, costCents } = source.audit;
+    const tracker = new UsageTracker(budgetCents !== null ? { budgetCents: Math.max(0, budgetCents - costCents) } : {});
+
+    try {
+      const draft = await this.llm.draftRecommendation(this.toFinding(source.finding), context, tracker);
+      const version = await this.storeVersion(recommendationId, Math.max(source.version, source.versions[0]?.version ?? 0), {
+        ...draft.recommendation,
+        persona,
+        hint: request.hint ?? null,
+        model: draft.model,
+        prompt: draft.messages,
+      });
+      if (request.pin) {
+        await prisma.recommendation.update({ where: { id: recommendationId }, data: { ...draft.recommendation, version } });
+      }
+    } finally {
+      if (tracker.summary.calls > 0) {
+        await saveAuditUsage(source.auditId, tracker.summary);
+      }
+    }
+
+    return getRecommendationHistory(userId, recommendationId);
+  }
+
+  // Private helper methods for cleaner code organization
+
+  // Takes the version after the newest one, again after losing it to a concurrent regeneration
+  private async storeVersion(recommendationId: string, latest: number, data: Record<string, unknown>): Promise<number> {
+    for (let attempt = 1; ; attempt++) {
+      const version = latest + 1;
+      try {
+        await prisma.recommendationVersion.create({ data: { ...data, recommendationId, version } });
+        return version;
+      } catch (error) {
+        if ((error as { code?: unknown }).code !== UNIQUE_VIOLATION || attempt >= RecommendationRegenerator.MAX_VERSION_ATTEMPTS) {
+          throw error;
+        }
+        const newest: { version: number } | null = await prisma.recommendationVersion.findFirst({
+          where: { recommendationId },
+          orderBy: { version: 'desc' },
+          select: { version: true },
+        });
+        latest = Math.max(version, newest?.version ?? 0);
+      }
+    }
+  }
+
+  private pinnedPersona(source: RegenerationSource): PersonaId {
+    return source.versions.find(({ version }) => version === source.version)?.persona ?? source.audit.persona;
+  }
+
+  private contentOf(source: RegenerationSource): LLMRecommendation {
+    const { issue, why, impact, effort, copyVariants, codeSnippet, whereToPlace, pastePath, searchCue } = source;
+    return { issue, why, impact, effort, copyVariants, codeSnippet, whereToPlace, pastePath, searchCue };
+  }
+
+  // Pages crawled before theme detection have none stored
+  private themeOf(metadata: unknown): ThemeInfo | null {
+    const parsed = ThemeInfoSchema.safeParse((metadata as { theme?: unknown } | null)?.theme);
+    return parsed.success ? parsed.data : null;
+  }
+
+  private toFinding(finding: NonNullable<RegenerationSource['finding']>): Finding {
+    const { id, crawlResultId, ruleId, severity, evidence } = finding;
+    return { id, pageId: crawlResultId, ruleId, severity, evidence };
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * TDD Test Suite for Audit Comparison
+ * Finding matching, change classification and score deltas; Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import { compareAudits, findPreviousAudit } from '../compare';
+import type { ReportSource, StoredFinding, StoredPage } from '../report';
+
+const store = 'https://test-store.myshopify.com';
+
+const finding = (id: string, overrides: Partial<StoredFinding> = {}): StoredFinding => ({
+  id,
+  ruleId: 'hero_cta_missing',
+  ruleKey: 'hero_cta_detection',
+  category: 'conversion',
+  severity: 'med',
+  evidence: { ctaCount: 0 },
+  crawlResult: { id: 'page-home', url: `${store}/`, pageType: 'home' },
+  recommendation: null,
+  ...overrides
+});
+
+const product = (path: string) => ({ id: `page-${path}`, url: `${store}/products/${path}`, pageType: 'product' as const });
+
+// Page of the target audit and the rules that ran on it
+const checked = (crawlResult: StoredFinding['crawlResult'], checkedRules: string[]): StoredPage => ({
+  ...crawlResult,
+  metadata: null,
+  checkedRules,
+  screenshots: []
+});
+
+const home = { id: 'page-home', url: `${store}/`, pageType: 'home' as const };
+
+const audit = (id: string, findings: StoredFinding[], overrides: Partial<ReportSource> = {}): ReportSource => ({
+  id,
+  userId: 'user-1',
+  persona: 'default',
+  status: 'completed',
+  source: 'crawl',
+  ruleConfig: null,
+  score: 60,
+  scoreBreakdown: { conversion: 50, trust: 80 },
+  failureReason: null,
+  createdAt: new Date('2026-01-01T10:00:00Z'),
+  startedAt: new Date('2026-01-01T10:00:00Z'),
+  completedAt: new Date('2026-01-01T10:03:00Z'),
+  pagesTotal: 3,
+  pagesFailed: 0,
+  costCents: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  site: { id: 'site-1', url: store, name: 'Test Store' },
+  crawlResults: [],
+  findings,
+  ...overrides
+});
+
+const changes = (comparison: ReturnType<typeof compareAudits>) =>
+  comparison.findings.map(({ change, base, target }) => [change, base?.id ?? null, target?.id ?? null]);
+
+describe('Audit Comparison - TDD', () => {
+  describe('RED Phase: Matching', () => {
+    it('should classify fixed, persisting and new findings', () => {
+      // Arrange
+      const base = audit('audit-1', [finding('b-hero'), finding('b-trust', { ruleId: 'trust_badges', ruleKey: 'social_proof', category: 'trust' })]);
+      const target = audit(
+        'audit-2',
+        [finding('t-hero'), finding('t-alt', { ruleId: 'alt_text_missing', ruleKey: 'alt_text_coverage', category: 'accessibility' })],
+        { crawlResults: [checked(home, ['hero_cta_detection', 'social_proof', 'alt_text_coverage'])] }
+      );
+
+      // Act
+      const comparison = compareAudits(base, target);
+
+      // Assert
+      expect(changes(comparison)).toEqual([
+        ['new', null, 't-alt'],
+        ['persisting', 'b-hero', 't-hero'],
+        ['fixed', 'b-trust', null]
+      ]);
+      expect(comparison.summary).toEqual({ regressed: 0, new: 1, persisting: 1, fixed: 1, not_rechecked: 0 });
+    });
+
+    it('should mark findings that got more severe as regressed', () => {
+      // Arrange
+      const base = audit('audit-1', [
+        finding('b-1', { ruleId: 'hero_cta_weak', severity: 'low' }),
+        finding('b-2', { ruleId: 'price_visibility', ruleKey: 'price_display', severity: 'high' })
+      ]);
+      const target = audit('audit-2', [
+        finding('t-1', { severity: 'high' }),
+        finding('t-2', { ruleId: 'price_visibility', ruleKey: 'price_display', severity: 'low' })
+      ]);
+
+      // Act
+      const comparison = compareAudits(base, target);
+
+      // Assert
+      expect(changes(comparison)).toEqual([
+        ['regressed', 'b-1', 't-1'],
+        ['persisting', 'b-2', 't-2']
+      ]);
+      expect(comparison.findings[0]).toEqual({
+        change: 'regressed',
+        ruleId: 'hero_cta_missing',
+        ruleKey: 'hero_cta_detection',
+        category: 'conversion',
+        pageType: 'home',
+        base: { id: 'b-1', ruleId: 'hero_cta_weak', pageUrl: `${store}/`, severity: 'low', evidence: { ctaCount: 0 } },
+        target: { id: 't-1', ruleId: 'hero_cta_missing', pageUrl: `${store}/`, severity: 'high', evidence: { ctaCount: 0 } }
+      });
+    });
+
+    it('should prefer the same page path over the same template', () => {
+      // Arrange
+      const base = audit('audit-1', [
+        finding('b-shirt', { crawlResult: product('linen-shirt') }),
+        finding('b-dress', { crawlResult: product('summer-dress') })
+      ]);
+      const target = audit('audit-2', [
+        finding('t-hat', { crawlResult: product('straw-hat') }),
+        finding('t-dress', { crawlResult: { id: 'page-summer-dress', url: `${store}/products/Summer-Dress/`, pageType: 'product' } })
+      ]);
+
+      // Act
+      const comparison = compareAudits(base, target);
+
+      // Assert
+      expect(changes(comparison)).toEqual([
+        ['persisting', 'b-shirt', 't-hat'],
+        ['persisting', 'b-dress', 't-dress']
+      ]);
+    });
+
+    it('should pick the finding with the most similar evidence among equal candidates', () => {
+      // Arrange
+      const base = audit('audit-1', [
+        finding('b-shirt', { crawlResult: product('linen-shirt'), evidence: { price: false, reviews: 0 } }),
+        finding('b-dress', { crawlResult: product('summer-dress'), evidence: { price: true, reviews: 0 } })
+      ]);
+      const target = audit('audit-2', [
+        finding('t-hat', { crawlResult: product('straw-hat'), evidence: { price: true, reviews: 2 } }),
+        finding('t-cap', { crawlResult: product('cap'), evidence: null as unknown as Record<string, unknown> })
+      ]);
+
+      // Act
+      const comparison = compareAudits(base, target);
+
+      // Assert
+      expect(changes(comparison)).toEqual([
+        ['persisting', 'b-shirt', 't-cap'],
+        ['persisting', 'b-dress', 't-hat']
+      ]);
+    });
+
+    it('should not match findings across rules or templates', () => {
+      // Arrange
+      const base = audit('audit-1', [
+        finding('b-home'),
+        finding('b-product', { ruleId: 'price_visibility', ruleKey: 'price_display', crawlResult: product('shirt') })
+      ]);
+      const target = audit('audit-2', [finding('t-product', { crawlResult: product('shirt') })], {
+        crawlResults: [checked(home, ['hero_cta_detection']), checked(product('shirt'), ['hero_cta_detection', 'price_display'])]
+      });
+
+      // Act & Assert
+      expect(changes(compareAudits(base, target))).toEqual([
+        ['new', null, 't-product'],
+        ['fixed', 'b-home', null],
+        ['fixed', 'b-product', null]
+      ]);
+    });
+
+    it('should match findings stored before their rule was recorded on the finding id', () => {
+      // Arrange
+      const base = audit('audit-1', [finding('b-hero', { ruleKey: null })]);
+      const target = audit('audit-2', [finding('t-hero', { ruleKey: null }), finding('t-weak', { ruleId: 'hero_cta_weak', ruleKey: null })]);
+
+      // Act & Assert
+      expect(changes(compareAudits(base, target))).toEqual([
+        ['new', null, 't-weak'],
+        ['persisting', 'b-hero', 't-hero']
+      ]);
+    });
+
+    it('should only call findings fixed when their rule ran on the same page or template again', () => {
+      // Arrange
+      const base = audit('audit-1', [
+        finding('b-home'),
+        finding('b-product', { ruleId: 'price_visibility', ruleKey: 'price_display', crawlResult: product('shirt') }),
+        finding('b-collection', {
+          ruleId: 'collection_filters_missing',
+          ruleKey: 'collection_discoverability',
+          crawlResult: { id: 'page-all', url: `${store}/collections/all`, pageType: 'collection' }
+        }),
+        finding('b-legacy', { ruleId: 'alt_text_missing', ruleKey: null })
+      ]);
+      const target = audit('audit-2', [], {
+        crawlResults: [checked(home, ['alt_text_coverage']), checked(product('hat'), ['price_display'])]
+      });
+
+      // Act
+      const comparison = compareAudits(base, target);
+
+      // Assert
+      expect(changes(comparison)).toEqual([
+        ['fixed', 'b-product', null],
+        ['not_rechecked', 'b-legacy', null],
+        ['not_rechecked', 'b-collection', null],
+        ['not_rechecked', 'b-home', null]
+      ]);
+      expect(comparison.summary).toEqual({ regressed: 0, new: 0, persisting: 0, fixed: 1, not_rechecked: 3 });
+    });
+  });
+
+  describe('GREEN Phase: Scores', () => {
+    it('should report the overall and per-category score deltas', () => {
+      // Arrange
+      const base = audit('audit-1', [], { scoreBreakdown: { conversion: 50, trust: 80 } });
+      const target = audit('audit-2', [], { score: 72, scoreBreakdown: { conversion: 70, accessibility: 90 } });
+
+      // Act
+      const { score, base: baseSnapshot, target: targetSnapshot, site } = compareAudits(base, target);
+
+      // Assert
+      expect(score).toEqual({
+        overall: { base: 60, target: 72, delta: 12 },
+        categories: {
+          conversion: { base: 50, target: 70, delta: 20 },
+          trust: { base: 80, target: null, delta: null },
+          accessibility: { base: null, target: 90, delta: null }
+        }
+      });
+      expect(baseSnapshot).toEqual({ id: 'audit-1', status: 'completed', score: 60, completedAt: '2026-01-01T10:03:00.000Z' });
+      expect(targetSnapshot.id).toBe('audit-2');
+      expect(site).toEqual({ id: 'site-1', url: store, name: 'Test Store' });
+    });
+
+    it('should leave deltas empty for audits without scores', () => {
+      // Arrange
+      const failed = audit('audit-1', [], { status: 'failed', score: null, scoreBreakdown: null, completedAt: null });
+
+      // Act
+      const comparison = compareAudits(failed, audit('audit-2', []));
+
+      // Assert
+      expect(comparison.score.overall).toEqual({ base: null, target: 60, delta: null });
+      expect(comparison.base.completedAt).toBeNull();
+      expect(comparison.score.categories.conversion).toEqual({ base: null, target: 50, delta: null });
+    });
+  });
+
+  describe('REFACTOR Phase: Previous Audit', () => {
+    it('should find the latest completed audit of the site before the target', async () => {
+      // Arrange
+      (prisma.audit.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'audit-1' }).mockResolvedValueOnce(null);
+      const target = audit('audit-2', [], { createdAt: new Date('2026-02-01T10:00:00Z') });
+
+      // Act & Assert
+      await expect(findPreviousAudit(target)).resolves.toBe('audit-1');
+      await expect(findPreviousAudit(target)).resolves.toBeNull();
+      expect(prisma.audit.findFirst).toHaveBeenCalledWith({
+        where: { siteId: 'site-1', status: 'completed', createdAt: { lt: new Date('2026-02-01T10:00:00Z') } },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true }
+      });
+    });
+  });
+});
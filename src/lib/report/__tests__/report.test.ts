@@ -0,0 +1,331 @@
+/**
+ * TDD Test Suite for the audit report
+ * ICE scoring, filtering, sorting and pagination of an audit's findings;
+ * screenshot overlays are mocked (they have their own tests)
+ */
+
+import prisma from '@/lib/prisma';
+import { computeIce } from '../ice';
+import { buildReport, loadReportSource } from '../report';
+import type { ReportSource, StoredFinding, StoredPage } from '../report';
+import { findingOverlays, pickScreenshot } from '../../screenshots/overlays';
+import { ReportQuerySchema } from '../../../types';
+
+jest.mock('../../screenshots/overlays', () => ({
+  primaryDevice: jest.fn(() => 'desktop'),
+  pickScreenshot: jest.fn((_evidence, screenshots) => screenshots[0] ?? null),
+  findingOverlays: jest.fn(() => [{ kind: 'fold', label: 'Fold', top: 844, left: 0, width: 390, height: 0 }])
+}));
+
+const recommendation = (impact: 'High' | 'Medium' | 'Low', effort: 'High' | 'Medium' | 'Low') => ({
+  id: `rec-${impact}-${effort}`,
+  issue: 'Issue',
+  why: 'Why it matters',
+  impact,
+  effort,
+  copyVariants: ['Variant'],
+  codeSnippet: '<div></div>',
+  whereToPlace: 'Online Store > Themes > Customize',
+  pastePath: 'sections/image-banner.liquid',
+  searchCue: 'class="banner__buttons"',
+  version: 2
+});
+
+const finding = (id: string, overrides: Partial<StoredFinding> = {}): StoredFinding => ({
+  id,
+  ruleId: `${id}_rule`,
+  ruleKey: `${id}_check`,
+  category: 'conversion',
+  severity: 'med',
+  evidence: { count: 0 },
+  crawlResult: { id: 'page-home', url: 'https://test-store.myshopify.com/', pageType: 'home' },
+  recommendation: recommendation('Medium', 'Medium'),
+  ...overrides
+});
+
+const homePage: StoredPage = {
+  id: 'page-home',
+  url: 'https://test-store.myshopify.com/',
+  pageType: 'home',
+  checkedRules: [],
+  metadata: {
+    metrics: {
+      aboveFold: { ctaButtons: [], height: 900 },
+      performance: { loadTime: 1200 },
+      viewports: {
+        mobile: {
+          viewport: { width: 390, height: 844 },
+          aboveFold: {
+            ctaButtons: [{ selector: 'a.hero__cta', text: 'Shop', position: { top: 500, left: 20 }, size: { width: 120, height: 30 } }],
+            height: 844
+          }
+        },
+        desktop: { viewport: { width: 1440, height: 900 }, aboveFold: { ctaButtons: [], height: 900 } }
+      }
+    }
+  },
+  screenshots: [
+    { id: 'shot-desktop', device: 'desktop', width: 1440, height: 3200 },
+    { id: 'shot-mobile', device: 'mobile', width: 390, height: 5400 }
+  ]
+};
+
+const source = (findings: StoredFinding[], crawlResults: StoredPage[] = []): ReportSource => ({
+  id: 'audit-1',
+  userId: 'user-1',
+  persona: 'default',
+  status: 'completed',
+  source: 'crawl',
+  ruleConfig: null,
+  score: 72,
+  scoreBreakdown: { conversion: 60, trust: 90 },
+  failureReason: null,
+  createdAt: new Date('2026-01-01T09:59:58Z'),
+  startedAt: new Date('2026-01-01T10:00:00Z'),
+  completedAt: new Date('2026-01-01T10:03:05Z'),
+  pagesTotal: 5,
+  pagesFailed: 1,
+  costCents: 0.42,
+  promptTokens: 1200,
+  completionTokens: 300,
+  totalTokens: 1500,
+  site: { id: 'site-1', url: 'https://test-store.myshopify.com', name: 'Test Store' },
+  crawlResults,
+  findings
+});
+
+const query = (params: Record<string, string> = {}) => ReportQuerySchema.parse({ crawlId: 'audit-1', ...params });
+
+describe('Audit Report - TDD', () => {
+  describe('RED Phase: ICE Scoring', () => {
+    it('should score impact and effort 1-5 and take confidence from severity', () => {
+      // Act & Assert
+      expect(computeIce('High', 'Low', 'high')).toEqual({ impact: 5, confidence: 5, effort: 1, ice: 25 });
+      expect(computeIce('Low', 'High', 'low')).toEqual({ impact: 1, confidence: 3, effort: 5, ice: 0.6 });
+      expect(computeIce('Medium', 'High', 'med').ice).toBe(2.4);
+    });
+  });
+
+  describe('GREEN Phase: Report Assembly', () => {
+    it('should describe the crawl, site and score', () => {
+      // Act
+      const report = buildReport(source([]), query());
+
+      // Assert
+      expect(report.crawl).toEqual({
+        id: 'audit-1',
+        status: 'completed',
+        source: 'crawl',
+        persona: 'default',
+        ruleChanges: [],
+        startedAt: '2026-01-01T10:00:00.000Z',
+        finishedAt: '2026-01-01T10:03:05.000Z',
+        failureReason: null,
+        stats: {
+          pagesTotal: 5,
+          pagesSuccessful: 4,
+          pagesFailed: 1,
+          duration: 185,
+          costCents: 0.42,
+          tokenUsage: { prompt: 1200, completion: 300, total: 1500 }
+        }
+      });
+      expect(report.site).toEqual({ id: 'site-1', url: 'https://test-store.myshopify.com', name: 'Test Store' });
+      expect(report.score).toEqual({ overall: 72, breakdown: { conversion: 60, trust: 90 } });
+      expect(report.summary).toEqual({ totalFindings: 0, highCount: 0, mediumCount: 0, lowCount: 0 });
+    });
+
+    it('should leave timing and breakdown empty for audits that have not run', () => {
+      // Act
+      const report = buildReport({ ...source([]), status: 'pending', score: null, scoreBreakdown: null, startedAt: null, completedAt: null }, query());
+
+      // Assert
+      expect(report.crawl).toMatchObject({ startedAt: null, finishedAt: null, stats: { duration: null } });
+      expect(report.score).toEqual({ overall: null, breakdown: {} });
+    });
+
+    it('should list the rule settings the audit was scored with that differed from the built-in rules', () => {
+      // Arrange
+      const change = { ruleId: 'hero_cta_detection', setting: 'thresholds.minProminentWidth', from: 120, to: 160, source: 'site' as const };
+
+      // Act
+      const report = buildReport({ ...source([]), ruleConfig: { rules: {}, changes: [change] } }, query());
+
+      // Assert
+      expect(report.crawl.ruleChanges).toEqual([change]);
+    });
+
+    it('should flatten findings with their page and scored recommendation', () => {
+      // Act
+      const [reported] = buildReport(source([finding('f-1', { severity: 'high', recommendation: recommendation('High', 'Medium') })]), query()).findings;
+
+      // Assert
+      expect(reported).toEqual({
+        id: 'f-1',
+        ruleId: 'f-1_rule',
+        category: 'conversion',
+        severity: 'high',
+        pageUrl: 'https://test-store.myshopify.com/',
+        pageType: 'home',
+        evidence: { count: 0 },
+        recommendation: {
+          id: 'rec-High-Medium',
+          issue: 'Issue',
+          rationale: 'Why it matters',
+          impact: 5,
+          confidence: 5,
+          effort: 3,
+          ice: 8.3,
+          copyVariants: ['Variant'],
+          snippet: '<div></div>',
+          whereToPlace: 'Online Store > Themes > Customize',
+          pastePath: 'sections/image-banner.liquid',
+          searchCue: 'class="banner__buttons"',
+          version: 2
+        },
+        screenshot: null
+      });
+    });
+
+    it('should list the pages with links to their screenshots', () => {
+      // Act
+      const { pages } = buildReport(source([], [homePage, { ...homePage, id: 'page-cart', screenshots: [] }]), query());
+
+      // Assert
+      expect(pages).toEqual([
+        {
+          id: 'page-home',
+          url: 'https://test-store.myshopify.com/',
+          pageType: 'home',
+          screenshots: [
+            {
+              id: 'shot-desktop',
+              device: 'desktop',
+              width: 1440,
+              height: 3200,
+              imageUrl: '/api/screenshots/shot-desktop',
+              thumbnailUrl: '/api/screenshots/shot-desktop?variant=thumbnail'
+            },
+            expect.objectContaining({ id: 'shot-mobile', device: 'mobile' })
+          ]
+        },
+        expect.objectContaining({ id: 'page-cart', screenshots: [] })
+      ]);
+    });
+
+    it('should show findings on the screenshot of their device with overlays from the evidence', () => {
+      // Arrange
+      const evidence = { device: 'mobile', aboveFoldHeight: 844, weakCTAs: [{ selector: 'a.hero__cta', text: 'Shop' }] };
+      const mobileShot = homePage.screenshots[1]!;
+      (pickScreenshot as jest.Mock).mockReturnValueOnce(mobileShot);
+      const findings = [
+        finding('f-1', { evidence }),
+        finding('f-2', { crawlResult: { id: 'page-gone', url: 'https://test-store.myshopify.com/gone', pageType: 'home' } }),
+        finding('f-3', { evidence: null, crawlResult: { id: 'page-bare', url: 'https://test-store.myshopify.com/cart', pageType: 'cart' } })
+      ];
+      const bare: StoredPage = { ...homePage, id: 'page-bare', metadata: null, screenshots: [] };
+
+      // Act
+      const [reported, bareReported, unpictured] = buildReport(source(findings, [homePage, bare]), query({ sort: 'page' })).findings;
+
+      // Assert
+      expect(reported!.screenshot).toEqual({
+        id: 'shot-mobile',
+        device: 'mobile',
+        width: 390,
+        height: 5400,
+        imageUrl: '/api/screenshots/shot-mobile',
+        thumbnailUrl: '/api/screenshots/shot-mobile?variant=thumbnail',
+        overlays: [{ kind: 'fold', label: 'Fold', top: 844, left: 0, width: 390, height: 0 }]
+      });
+      expect(pickScreenshot).toHaveBeenCalledWith(evidence, homePage.screenshots, 'desktop');
+      expect(findingOverlays).toHaveBeenCalledWith(evidence, (homePage.metadata as { metrics: unknown }).metrics, mobileShot, 'desktop');
+      expect(unpictured!.screenshot).toBeNull();
+      expect(bareReported!.screenshot).toBeNull();
+      expect(pickScreenshot).toHaveBeenLastCalledWith({}, [], 'desktop');
+    });
+  });
+
+  describe('REFACTOR Phase: Sorting, Filtering and Pagination', () => {
+    const findings = [
+      finding('low-quick', { severity: 'low', recommendation: recommendation('High', 'Low') }),
+      finding('high-none', {
+        severity: 'high',
+        category: 'trust',
+        recommendation: null,
+        crawlResult: { id: 'page-a', url: 'https://test-store.myshopify.com/products/a', pageType: 'product' }
+      }),
+      finding('high-slow', {
+        severity: 'high',
+        recommendation: recommendation('Medium', 'High'),
+        crawlResult: { id: 'page-cart', url: 'https://test-store.myshopify.com/cart', pageType: 'cart' }
+      }),
+      finding('med-mid', { category: 'accessibility' })
+    ];
+
+    const ids = (params: Record<string, string> = {}) => buildReport(source(findings), query(params)).findings.map(reported => reported.id);
+
+    it('should rank by ICE by default with unrecommended findings last', () => {
+      // Act & Assert
+      expect(ids()).toEqual(['low-quick', 'med-mid', 'high-slow', 'high-none']);
+    });
+
+    it('should sort by severity or page, breaking ties by ICE', () => {
+      // Act & Assert
+      expect(ids({ sort: 'severity' })).toEqual(['high-slow', 'high-none', 'med-mid', 'low-quick']);
+      expect(ids({ sort: 'page' })).toEqual(['med-mid', 'low-quick', 'high-slow', 'high-none']);
+    });
+
+    it('should filter by page type, category and severity lists', () => {
+      // Act & Assert
+      expect(ids({ pageType: 'cart,product' })).toEqual(['high-slow', 'high-none']);
+      expect(ids({ category: 'trust' })).toEqual(['high-none']);
+      expect(ids({ severity: 'high, low', category: 'conversion' })).toEqual(['low-quick', 'high-slow']);
+    });
+
+    it('should paginate and count every matching finding in the summary', () => {
+      // Act
+      const first = buildReport(source(findings), query({ limit: '3' }));
+      const second = buildReport(source(findings), query({ limit: '3', page: '2' }));
+
+      // Assert
+      expect(first.findings).toHaveLength(3);
+      expect(first.pagination).toEqual({ page: 1, limit: 3, total: 4, hasNext: true, hasPrev: false });
+      expect(second.findings.map(reported => reported.id)).toEqual(['high-none']);
+      expect(second.pagination).toEqual({ page: 2, limit: 3, total: 4, hasNext: false, hasPrev: true });
+      expect(second.summary).toEqual({ totalFindings: 4, highCount: 2, mediumCount: 1, lowCount: 1 });
+    });
+
+    it('should load the audit with its findings, pages and recommendations', async () => {
+      // Arrange
+      (prisma.audit.findUnique as jest.Mock).mockResolvedValueOnce(source(findings));
+
+      // Act
+      const loaded = await loadReportSource('audit-1');
+
+      // Assert
+      expect(loaded?.findings).toHaveLength(4);
+      expect(prisma.audit.findUnique).toHaveBeenCalledWith({
+        where: { id: 'audit-1' },
+        include: {
+          site: { select: { id: true, url: true, name: true } },
+          crawlResults: {
+            select: {
+              id: true,
+              url: true,
+              pageType: true,
+              metadata: true,
+              checkedRules: true,
+              screenshots: { select: { id: true, device: true, width: true, height: true }, orderBy: { device: 'asc' } }
+            },
+            orderBy: [{ crawledAt: 'asc' }, { id: 'asc' }]
+          },
+          findings: {
+            include: { crawlResult: { select: { id: true, url: true, pageType: true } }, recommendation: true },
+            orderBy: { id: 'asc' }
+          }
+        }
+      });
+    });
+  });
+});
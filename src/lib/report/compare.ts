@@ -0,0 +1,209 @@
+/**
+ * Audit comparison
+ * Matches the findings of two audits of the same store to show what changed
+ * after a merchant applied our advice.
+ *
+ * Findings reported by the same rule are matched on the same page path first,
+ * then on the same page template (product pages are sampled, so the product
+ * audited can differ between runs). When several findings qualify, the one with
+ * the most identical evidence values wins. Matching on the rule rather than the
+ * finding id keeps hero_cta_weak -> hero_cta_missing a single regressed finding.
+ * Matched findings are persisting, or regressed when their severity went up;
+ * target-only ones are new. A base-only finding is fixed when its rule ran again
+ * on the same page or template, and not re-checked otherwise.
+ */
+
+import prisma from '@/lib/prisma';
+import type {
+  AuditComparison,
+  AuditSnapshot,
+  ComparedFinding,
+  ComparedFindingSide,
+  FindingChange,
+  HeuristicCategory,
+  ScoreDelta,
+  Severity,
+} from '../../types';
+import type { ReportSource, StoredFinding, StoredPage } from './report';
+
+interface MatchedPair {
+  base: StoredFinding | null;
+  target: StoredFinding | null;
+}
+
+const CHANGE_ORDER: readonly FindingChange[] = ['regressed', 'new', 'persisting', 'fixed', 'not_rechecked'];
+
+const SEVERITY_RANK: Record<Severity, number> = { high: 0, med: 1, low: 2 };
+
+/**
+ * Id of the latest completed audit of the same site created before this one, or null
+ */
+export async function findPreviousAudit(target: ReportSource): Promise<string | null> {
+  const previous = await prisma.audit.findFirst({
+    where: { siteId: target.site.id, status: 'completed', createdAt: { lt: target.createdAt } },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true },
+  });
+  return previous?.id ?? null;
+}
+
+export function compareAudits(base: ReportSource, target: ReportSource): AuditComparison {
+  const findings = matchFindings(base.findings, target.findings)
+    .map(pair => toComparedFinding(pair, target.crawlResults))
+    .sort(compareChanges);
+  const summary = Object.fromEntries(CHANGE_ORDER.map(change => [change, 0])) as Record<FindingChange, number>;
+  for (const finding of findings) {
+    summary[finding.change]++;
+  }
+
+  return {
+    site: target.site,
+    base: toSnapshot(base),
+    target: toSnapshot(target),
+    score: {
+      overall: scoreDelta(base.score, target.score),
+      categories: categoryDeltas(breakdownOf(base), breakdownOf(target)),
+    },
+    summary,
+    findings,
+  };
+}
+
+// Private helper methods for cleaner code organization
+
+function matchFindings(baseFindings: StoredFinding[], targetFindings: StoredFinding[]): MatchedPair[] {
+  const unmatched = new Set(baseFindings);
+  const pairs = new Map<StoredFinding, StoredFinding | null>(targetFindings.map(finding => [finding, null]));
+
+  const samePath = (base: StoredFinding, target: StoredFinding) => pagePath(base.crawlResult.url) === pagePath(target.crawlResult.url);
+  const sameTemplate = (base: StoredFinding, target: StoredFinding) => base.crawlResult.pageType === target.crawlResult.pageType;
+
+  for (const sameLocation of [samePath, sameTemplate]) {
+    for (const [target, matched] of pairs) {
+      if (matched) {
+        continue;
+      }
+      const candidates = [...unmatched].filter(base => ruleKeyOf(base) === ruleKeyOf(target) && sameLocation(base, target));
+      const best = mostSimilar(target, candidates);
+      if (best) {
+        pairs.set(target, best);
+        unmatched.delete(best);
+      }
+    }
+  }
+
+  return [
+    ...[...pairs].map(([target, base]) => ({ base, target })),
+    ...[...unmatched].map(base => ({ base, target: null })),
+  ];
+}
+
+function mostSimilar(target: StoredFinding, candidates: StoredFinding[]): StoredFinding | undefined {
+  let best: StoredFinding | undefined;
+  let bestScore = -1;
+  for (const candidate of candidates) {
+    const score = evidenceSimilarity(candidate.evidence, target.evidence);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Number of evidence fields holding the same value in both findings
+function evidenceSimilarity(base: unknown, target: unknown): number {
+  const baseEvidence = (base ?? {}) as Record<string, unknown>;
+  const targetEvidence = (target ?? {}) as Record<string, unknown>;
+  return Object.keys(targetEvidence).filter(key => JSON.stringify(baseEvidence[key]) === JSON.stringify(targetEvidence[key])).length;
+}
+
+// Findings stored before the reporting rule was recorded fall back to their own id
+function ruleKeyOf(finding: StoredFinding): string {
+  return finding.ruleKey ?? finding.ruleId;
+}
+
+function pagePath(url: string): string {
+  return new URL(url).pathname.replace(/\/+$/, '').toLowerCase() || '/';
+}
+
+function toComparedFinding({ base, target }: MatchedPair, targetPages: StoredPage[]): ComparedFinding {
+  const reference = (target ?? base)!;
+  return {
+    change: changeOf(base, target, targetPages),
+    ruleId: reference.ruleId,
+    ruleKey: ruleKeyOf(reference),
+    category: reference.category,
+    pageType: reference.crawlResult.pageType,
+    base: base ? toSide(base) : null,
+    target: target ? toSide(target) : null,
+  };
+}
+
+function changeOf(base: StoredFinding | null, target: StoredFinding | null, targetPages: StoredPage[]): FindingChange {
+  if (!base) {
+    return 'new';
+  }
+  if (!target) {
+    return wasRechecked(base, targetPages) ? 'fixed' : 'not_rechecked';
+  }
+  return SEVERITY_RANK[target.severity] < SEVERITY_RANK[base.severity] ? 'regressed' : 'persisting';
+}
+
+// Whether the target audit ran the finding's rule on the same page or template
+function wasRechecked(base: StoredFinding, targetPages: StoredPage[]): boolean {
+  if (!base.ruleKey) {
+    return false;
+  }
+  return targetPages.some(
+    page =>
+      (pagePath(page.url) === pagePath(base.crawlResult.url) || page.pageType === base.crawlResult.pageType) &&
+      page.checkedRules.includes(base.ruleKey!)
+  );
+}
+
+function toSide(finding: StoredFinding): ComparedFindingSide {
+  return {
+    id: finding.id,
+    ruleId: finding.ruleId,
+    pageUrl: finding.crawlResult.url,
+    severity: finding.severity,
+    evidence: finding.evidence as Record<string, any>,
+  };
+}
+
+// Change order, then current (or last known) severity, then rule and page for a stable order
+function compareChanges(a: ComparedFinding, b: ComparedFinding): number {
+  const sideOf = (finding: ComparedFinding) => (finding.target ?? finding.base)!;
+  return (
+    CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change) ||
+    SEVERITY_RANK[sideOf(a).severity] - SEVERITY_RANK[sideOf(b).severity] ||
+    a.ruleId.localeCompare(b.ruleId) ||
+    sideOf(a).pageUrl.localeCompare(sideOf(b).pageUrl)
+  );
+}
+
+function toSnapshot(source: ReportSource): AuditSnapshot {
+  return {
+    id: source.id,
+    status: source.status,
+    score: source.score,
+    completedAt: source.completedAt?.toISOString() ?? null,
+  };
+}
+
+function breakdownOf(source: ReportSource): Partial<Record<HeuristicCategory, number>> {
+  return (source.scoreBreakdown ?? {}) as Partial<Record<HeuristicCategory, number>>;
+}
+
+function categoryDeltas(
+  base: Partial<Record<HeuristicCategory, number>>,
+  target: Partial<Record<HeuristicCategory, number>>
+): Partial<Record<HeuristicCategory, ScoreDelta>> {
+  const categories = [...new Set([...Object.keys(base), ...Object.keys(target)])] as HeuristicCategory[];
+  return Object.fromEntries(categories.map(category => [category, scoreDelta(base[category] ?? null, target[category] ?? null)]));
+}
+
+function scoreDelta(base: number | null, target: number | null): ScoreDelta {
+  return { base, target, delta: base !== null && target !== null ? target - base : null };
+}
@@ -0,0 +1,42 @@
+/**
+ * ICE prioritisation
+ * Turns the LLM's High/Medium/Low impact and effort into 1-5 scores and ranks
+ * recommendations by ICE = impact × confidence / effort.
+ *
+ * Confidence comes from the finding's severity: a high-severity finding is
+ * backed by strong, measured evidence, a low one is closer to a hint.
+ */
+
+import type { LLMRecommendation, Severity } from '../../types';
+
+type Level = LLMRecommendation['impact'];
+
+export const LEVEL_SCORES: Readonly<Record<Level, number>> = {
+  High: 5,
+  Medium: 3,
+  Low: 1,
+};
+
+export const CONFIDENCE_BY_SEVERITY: Readonly<Record<Severity, number>> = {
+  high: 5,
+  med: 4,
+  low: 3,
+};
+
+export interface IceScore {
+  impact: number;
+  confidence: number;
+  effort: number;
+  ice: number;
+}
+
+export function computeIce(impact: Level, effort: Level, severity: Severity): IceScore {
+  const scores = {
+    impact: LEVEL_SCORES[impact],
+    confidence: CONFIDENCE_BY_SEVERITY[severity],
+    effort: LEVEL_SCORES[effort],
+  };
+  // One decimal keeps ties between equivalent recommendations stable
+  const ice = Math.round((scores.impact * scores.confidence * 10) / scores.effort) / 10;
+  return { ...scores, ice };
+}
@@ -0,0 +1,253 @@
+/**
+ * Audit report
+ * Assembles an Audit, its crawled pages, findings and recommendations into the
+ * GET /api/report payload. The dashboard and exports read audits through this
+ * module so prioritisation, filters and counts are the same everywhere.
+ *
+ * An audit has at most a few hundred findings, so filtering, ICE sorting and
+ * pagination happen in memory on the loaded audit.
+ *
+ * Each finding comes with the screenshot of its page on the device it was
+ * reported on, and overlays pointing at the elements from its evidence.
+ */
+
+import { buildPagination, pageOffset } from '@/lib/api/pagination';
+import prisma from '@/lib/prisma';
+import { findingOverlays, pickScreenshot, primaryDevice } from '../screenshots/overlays';
+import type {
+  AuditReport,
+  AuditRuleConfig,
+  AuditScore,
+  AuditSource,
+  AuditStatus,
+  Device,
+  FindingScreenshot,
+  HeuristicCategory,
+  LLMRecommendation,
+  PageMetrics,
+  PageType,
+  PersonaId,
+  ReportFinding,
+  ReportPage,
+  ReportQuery,
+  ReportScreenshot,
+  ReportSort,
+  ReportSummary,
+  Severity,
+} from '../../types';
+import { computeIce } from './ice';
+
+// Stored recommendation columns the report exposes
+export interface StoredRecommendation extends Omit<LLMRecommendation, 'copyVariants'> {
+  id: string;
+  copyVariants: unknown;
+  version: number;
+}
+
+export interface StoredFinding {
+  id: string;
+  ruleId: string;
+  ruleKey: string | null; // Rule that reported it, null on findings stored before it was recorded
+  category: HeuristicCategory;
+  severity: Severity;
+  evidence: unknown;
+  crawlResult: { id: string; url: string; pageType: PageType };
+  recommendation: StoredRecommendation | null;
+}
+
+export interface StoredScreenshot {
+  id: string;
+  device: Device;
+  width: number;
+  height: number;
+}
+
+export interface StoredPage {
+  id: string;
+  url: string;
+  pageType: PageType;
+  metadata: unknown; // { metrics } as saved by the crawler
+  checkedRules: string[]; // Rules that ran on the page without skipping it
+  screenshots: StoredScreenshot[];
+}
+
+// Audit row with the relations loaded by loadReportSource
+export interface ReportSource {
+  id: string;
+  userId: string;
+  persona: PersonaId;
+  status: AuditStatus;
+  source: AuditSource;
+  ruleConfig: unknown;
+  score: number | null;
+  scoreBreakdown: unknown;
+  failureReason: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  pagesTotal: number;
+  pagesFailed: number;
+  costCents: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  site: { id: string; url: string; name: string | null };
+  crawlResults: StoredPage[];
+  findings: StoredFinding[];
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { high: 0, med: 1, low: 2 };
+
+/**
+ * Load an audit with everything the report needs, or null when it does not exist
+ */
+export async function loadReportSource(auditId: string): Promise<ReportSource | null> {
+  return prisma.audit.findUnique({
+    where: { id: auditId },
+    include: {
+      site: { select: { id: true, url: true, name: true } },
+      crawlResults: {
+        select: {
+          id: true,
+          url: true,
+          pageType: true,
+          metadata: true,
+          checkedRules: true,
+          screenshots: { select: { id: true, device: true, width: true, height: true }, orderBy: { device: 'asc' } },
+        },
+        orderBy: [{ crawledAt: 'asc' }, { id: 'asc' }],
+      },
+      findings: {
+        include: {
+          crawlResult: { select: { id: true, url: true, pageType: true } },
+          recommendation: true,
+        },
+        orderBy: { id: 'asc' }, // Stable order for findings that rank equally
+      },
+    },
+  });
+}
+
+export function buildReport(source: ReportSource, query: ReportQuery): AuditReport {
+  const pages = new Map(source.crawlResults.map(page => [page.id, page]));
+  const findings = source.findings
+    .filter(finding => matches(finding, query))
+    .map(finding => toReportFinding(finding, pages.get(finding.crawlResult.id)))
+    .sort(comparatorFor(query.sort));
+
+  const offset = pageOffset(query);
+
+  return {
+    crawl: {
+      id: source.id,
+      status: source.status,
+      source: source.source,
+      persona: source.persona,
+      ruleChanges: (source.ruleConfig as AuditRuleConfig | null)?.changes ?? [],
+      startedAt: source.startedAt?.toISOString() ?? null,
+      finishedAt: source.completedAt?.toISOString() ?? null,
+      failureReason: source.failureReason,
+      stats: {
+        pagesTotal: source.pagesTotal,
+        pagesSuccessful: source.pagesTotal - source.pagesFailed,
+        pagesFailed: source.pagesFailed,
+        duration:
+          source.startedAt && source.completedAt
+            ? Math.round((source.completedAt.getTime() - source.startedAt.getTime()) / 1000)
+            : null,
+        costCents: source.costCents,
+        tokenUsage: { prompt: source.promptTokens, completion: source.completionTokens, total: source.totalTokens },
+      },
+    },
+    site: source.site,
+    score: {
+      overall: source.score,
+      breakdown: (source.scoreBreakdown ?? {}) as AuditScore['breakdown'],
+    },
+    pages: source.crawlResults.map(toReportPage),
+    findings: findings.slice(offset, offset + query.limit),
+    summary: summarize(findings),
+    pagination: buildPagination(query, findings.length),
+  };
+}
+
+// Private helper methods for cleaner code organization
+
+function matches(finding: StoredFinding, query: ReportQuery): boolean {
+  return (
+    (!query.pageType || query.pageType.includes(finding.crawlResult.pageType)) &&
+    (!query.category || query.category.includes(finding.category)) &&
+    (!query.severity || query.severity.includes(finding.severity))
+  );
+}
+
+function toReportFinding(finding: StoredFinding, page: StoredPage | undefined): ReportFinding {
+  const stored = finding.recommendation;
+  const evidence = finding.evidence as Record<string, any>;
+  return {
+    id: finding.id,
+    ruleId: finding.ruleId,
+    category: finding.category,
+    severity: finding.severity,
+    pageUrl: finding.crawlResult.url,
+    pageType: finding.crawlResult.pageType,
+    evidence,
+    recommendation: stored
+      ? {
+          id: stored.id,
+          issue: stored.issue,
+          rationale: stored.why,
+          ...computeIce(stored.impact, stored.effort, finding.severity),
+          copyVariants: stored.copyVariants as string[],
+          snippet: stored.codeSnippet,
+          whereToPlace: stored.whereToPlace,
+          pastePath: stored.pastePath,
+          searchCue: stored.searchCue,
+          version: stored.version,
+        }
+      : null,
+    screenshot: page ? findingScreenshot(evidence ?? {}, page) : null,
+  };
+}
+
+function toReportPage(page: StoredPage): ReportPage {
+  return { id: page.id, url: page.url, pageType: page.pageType, screenshots: page.screenshots.map(toReportScreenshot) };
+}
+
+function toReportScreenshot({ id, device, width, height }: StoredScreenshot): ReportScreenshot {
+  return { id, device, width, height, imageUrl: `/api/screenshots/${id}`, thumbnailUrl: `/api/screenshots/${id}?variant=thumbnail` };
+}
+
+function findingScreenshot(evidence: Record<string, any>, page: StoredPage): FindingScreenshot | null {
+  const metrics = ((page.metadata ?? {}) as { metrics?: PageMetrics }).metrics ?? null;
+  const primary = primaryDevice(metrics);
+  const screenshot = pickScreenshot(evidence, page.screenshots, primary);
+  return screenshot ? { ...toReportScreenshot(screenshot), overlays: findingOverlays(evidence, metrics, screenshot, primary) } : null;
+}
+
+// Findings without a recommendation (failed or over budget) rank below every scored one
+const iceOf = (finding: ReportFinding) => finding.recommendation?.ice ?? -1;
+
+const bySeverity = (a: ReportFinding, b: ReportFinding) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity];
+
+const byIce = (a: ReportFinding, b: ReportFinding) => iceOf(b) - iceOf(a);
+
+function comparatorFor(sort: ReportSort) {
+  switch (sort) {
+    case 'severity':
+      return (a: ReportFinding, b: ReportFinding) => bySeverity(a, b) || byIce(a, b);
+    case 'page':
+      return (a: ReportFinding, b: ReportFinding) => a.pageUrl.localeCompare(b.pageUrl) || bySeverity(a, b) || byIce(a, b);
+    default:
+      return (a: ReportFinding, b: ReportFinding) => byIce(a, b) || bySeverity(a, b);
+  }
+}
+
+function summarize(findings: ReportFinding[]): ReportSummary {
+  return {
+    totalFindings: findings.length,
+    highCount: findings.filter(finding => finding.severity === 'high').length,
+    mediumCount: findings.filter(finding => finding.severity === 'med').length,
+    lowCount: findings.filter(finding => finding.severity === 'low').length,
+  };
+}
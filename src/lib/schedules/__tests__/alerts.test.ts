@@ -0,0 +1,163 @@
+/**
+ * TDD Test Suite for Regression Alerts
+ * Alert rules on audit comparisons; report loading and comparison are mocked
+ * (they have their own tests) and Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import { buildRegressionAlert, RegressionAlerter } from '../alerts';
+import { compareAudits, findPreviousAudit } from '../../report/compare';
+import { loadReportSource } from '../../report/report';
+import type { AuditComparison, ComparedFinding } from '../../../types';
+
+jest.mock('../../report/compare', () => ({
+  compareAudits: jest.fn(),
+  findPreviousAudit: jest.fn()
+}));
+
+jest.mock('../../report/report', () => ({
+  loadReportSource: jest.fn()
+}));
+
+jest.mock('../../webhooks/delivery', () => ({
+  WebhookSender: jest.fn()
+}));
+
+const store = 'https://test-store.myshopify.com';
+
+const compared = (change: ComparedFinding['change'], severity: 'high' | 'med' | 'low', ruleId = 'hero_cta_missing'): ComparedFinding => ({
+  change,
+  ruleId,
+  ruleKey: 'hero_cta_detection',
+  category: 'conversion',
+  pageType: 'home',
+  base: change === 'new' ? null : { id: 'b-1', ruleId, pageUrl: `${store}/`, severity: 'low', evidence: {} },
+  target: change === 'fixed' ? null : { id: 't-1', ruleId, pageUrl: `${store}/`, severity, evidence: {} }
+});
+
+const comparison = (overrides: Partial<AuditComparison> = {}): AuditComparison => ({
+  site: { id: 'site-1', url: store, name: 'Test Store' },
+  base: { id: 'audit-1', status: 'completed', score: 70, completedAt: '2026-10-12T06:03:00.000Z' },
+  target: { id: 'audit-2', status: 'completed', score: 64, completedAt: '2026-10-19T06:03:00.000Z' },
+  score: { overall: { base: 70, target: 64, delta: -6 }, categories: {} },
+  summary: { regressed: 0, new: 0, persisting: 0, fixed: 0, not_rechecked: 0 },
+  findings: [],
+  ...overrides
+});
+
+const settings = { scoreDropThreshold: 5, alertOnHighSeverity: true };
+
+const schedule = { id: 'schedule-1', webhookUrl: 'https://hooks.example.com/cro', webhookSecret: 'whsec_test', ...settings };
+
+describe('Regression Alerts - TDD', () => {
+  describe('RED Phase: Alert Rules', () => {
+    it('should alert when the score drops by at least the threshold', () => {
+      // Act
+      const alert = buildRegressionAlert(comparison(), settings);
+
+      // Assert
+      expect(alert).toEqual({
+        event: 'audit.regression',
+        site: { id: 'site-1', url: store, name: 'Test Store' },
+        audit: comparison().target,
+        previousAudit: comparison().base,
+        score: { base: 70, target: 64, delta: -6 },
+        reasons: ['score_drop'],
+        findings: []
+      });
+      expect(buildRegressionAlert(comparison(), { ...settings, scoreDropThreshold: 7 })).toBeNull();
+    });
+
+    it('should not alert on rising or unknown scores', () => {
+      // Act & Assert
+      expect(buildRegressionAlert(comparison({ score: { overall: { base: 60, target: 64, delta: 4 }, categories: {} } }), settings)).toBeNull();
+      expect(buildRegressionAlert(comparison({ score: { overall: { base: null, target: 64, delta: null }, categories: {} } }), settings)).toBeNull();
+    });
+
+    it('should alert on new or regressed high-severity findings only', () => {
+      // Arrange
+      const steady = { overall: { base: 64, target: 64, delta: 0 }, categories: {} };
+      const findings = [
+        compared('regressed', 'high'),
+        compared('new', 'high', 'price_visibility'),
+        compared('new', 'med', 'trust_badges'),
+        compared('persisting', 'high', 'alt_text_coverage'),
+        compared('fixed', 'high', 'sticky_atc_mobile')
+      ];
+
+      // Act
+      const alert = buildRegressionAlert(comparison({ score: steady, findings }), settings);
+
+      // Assert
+      expect(alert?.reasons).toEqual(['high_severity_finding']);
+      expect(alert?.findings).toEqual([
+        { change: 'regressed', ruleId: 'hero_cta_missing', category: 'conversion', pageType: 'home', pageUrl: `${store}/` },
+        { change: 'new', ruleId: 'price_visibility', category: 'conversion', pageType: 'home', pageUrl: `${store}/` }
+      ]);
+      expect(buildRegressionAlert(comparison({ score: steady, findings }), { ...settings, alertOnHighSeverity: false })).toBeNull();
+    });
+  });
+
+  describe('GREEN Phase: Checking Audits', () => {
+    let sender: { send: jest.Mock };
+    let alerter: RegressionAlerter;
+
+    beforeEach(() => {
+      sender = { send: jest.fn().mockResolvedValue({ id: 'delivery-1', status: 'delivered' }) };
+      alerter = new RegressionAlerter({ sender });
+      (prisma.auditSchedule.findUnique as jest.Mock).mockResolvedValue(schedule);
+      (loadReportSource as jest.Mock).mockImplementation(async (id: string) => ({ id }));
+      (findPreviousAudit as jest.Mock).mockResolvedValue('audit-1');
+      (compareAudits as jest.Mock).mockReturnValue(comparison());
+    });
+
+    it('should compare with the previous audit and send the signed alert', async () => {
+      // Act
+      const result = await alerter.check('audit-2', 'schedule-1');
+
+      // Assert
+      expect(result).toEqual({ id: 'delivery-1', status: 'delivered' });
+      expect(prisma.auditSchedule.findUnique).toHaveBeenCalledWith({ where: { id: 'schedule-1' } });
+      expect(findPreviousAudit).toHaveBeenCalledWith({ id: 'audit-2' });
+      expect(compareAudits).toHaveBeenCalledWith({ id: 'audit-1' }, { id: 'audit-2' });
+      expect(sender.send).toHaveBeenCalledWith({
+        event: 'audit.regression',
+        url: 'https://hooks.example.com/cro',
+        secret: 'whsec_test',
+        payload: buildRegressionAlert(comparison(), settings),
+        scheduleId: 'schedule-1',
+        auditId: 'audit-2'
+      });
+    });
+
+    it('should not send anything without a webhook, a previous audit or a regression', async () => {
+      // Arrange
+      (prisma.auditSchedule.findUnique as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...schedule, webhookUrl: null });
+      (findPreviousAudit as jest.Mock).mockResolvedValueOnce(null);
+      (loadReportSource as jest.Mock).mockResolvedValueOnce(null);
+      (compareAudits as jest.Mock).mockReturnValueOnce(comparison({ score: { overall: { base: 70, target: 70, delta: 0 }, categories: {} } }));
+
+      // Act
+      const results = [
+        await alerter.check('audit-2', 'schedule-9'),
+        await alerter.check('audit-2', 'schedule-1'),
+        await alerter.check('audit-2', 'schedule-1'),
+        await alerter.check('audit-9', 'schedule-1'),
+        await alerter.check('audit-2', 'schedule-1')
+      ];
+
+      // Assert
+      expect(results).toEqual([null, null, null, null, null]);
+      expect(sender.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('REFACTOR Phase: Defaults', () => {
+    it('should deliver through the webhook sender by default', () => {
+      // Act & Assert
+      expect(new RegressionAlerter()).toBeInstanceOf(RegressionAlerter);
+    });
+  });
+});
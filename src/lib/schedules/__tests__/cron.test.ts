@@ -0,0 +1,73 @@
+/**
+ * TDD Test Suite for Cron Expressions
+ * Parsing and next-run computation, in UTC
+ */
+
+import { CRON_PRESETS, isValidCron, nextCronRun, parseCron } from '../cron';
+
+const at = (iso: string) => new Date(iso);
+
+describe('Cron Expressions - TDD', () => {
+  describe('RED Phase: Parsing', () => {
+    it.each([
+      ['0 6 * *', 'expected 5 fields'],
+      ['0 6 * * * *', 'expected 5 fields'],
+      ['60 6 * * *', '"60" is outside 0-59'],
+      ['0 5-2 * * *', '"5-2" is outside 0-23'],
+      ['0 6 0 * *', '"0" is outside 1-31'],
+      ['*/0 6 * * *', '"*/0" is outside 0-59'],
+      ['0 6 * JAN *', 'cannot read "JAN"'],
+      ['0 6 * * 1,', 'cannot read ""']
+    ])('should reject "%s"', (expression, message) => {
+      // Act & Assert
+      expect(() => parseCron(expression)).toThrow(message);
+      expect(isValidCron(expression)).toBe(false);
+    });
+
+    it('should expand values, ranges, lists and steps', () => {
+      // Act
+      const schedule = parseCron('*/15 9-17/4 1,15 * 5-7');
+
+      // Assert
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 13, 17]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect([...schedule.daysOfWeek].sort()).toEqual([0, 5, 6]);
+      expect(schedule).toMatchObject({ anyDayOfMonth: false, anyDayOfWeek: false });
+      expect([...parseCron('10/20 * * * *').minutes]).toEqual([10, 30, 50]);
+    });
+  });
+
+  describe('GREEN Phase: Next Run', () => {
+    it('should run the presets at 06:00 UTC', () => {
+      // Act & Assert
+      expect(nextCronRun(CRON_PRESETS.daily, at('2026-10-19T05:59:30Z'))).toEqual(at('2026-10-19T06:00:00Z'));
+      expect(nextCronRun(CRON_PRESETS.daily, at('2026-10-19T06:00:00Z'))).toEqual(at('2026-10-20T06:00:00Z'));
+      expect(nextCronRun(CRON_PRESETS.weekly, at('2026-10-20T06:00:00Z'))).toEqual(at('2026-10-26T06:00:00Z'));
+    });
+
+    it('should roll over hours, days, months and years', () => {
+      // Act & Assert
+      expect(nextCronRun('30 * * * *', at('2026-10-19T10:45:00Z'))).toEqual(at('2026-10-19T11:30:00Z'));
+      expect(nextCronRun('0 0 1 * *', at('2026-12-15T00:00:00Z'))).toEqual(at('2027-01-01T00:00:00Z'));
+      expect(nextCronRun('0 12 * 3 *', at('2026-10-19T00:00:00Z'))).toEqual(at('2027-03-01T12:00:00Z'));
+      expect(nextCronRun('0 0 29 2 *', at('2026-10-19T00:00:00Z'))).toEqual(at('2028-02-29T00:00:00Z'));
+    });
+
+    it('should run on either restricted day field, like cron', () => {
+      // Act & Assert
+      expect(nextCronRun('0 6 13 * 5', at('2026-10-19T00:00:00Z'))).toEqual(at('2026-10-23T06:00:00Z'));
+      expect(nextCronRun('0 6 20 * 7', at('2026-10-19T00:00:00Z'))).toEqual(at('2026-10-20T06:00:00Z'));
+      expect(nextCronRun('0 6 * * 0', at('2026-10-19T00:00:00Z'))).toEqual(at('2026-10-25T06:00:00Z'));
+    });
+  });
+
+  describe('REFACTOR Phase: Impossible Dates', () => {
+    it('should fail for expressions that never run', () => {
+      // Act & Assert
+      expect(isValidCron('0 0 31 2 *')).toBe(true);
+      expect(() => nextCronRun('0 0 31 2 *', at('2026-10-19T00:00:00Z'))).toThrow('Cron expression "0 0 31 2 *" never runs');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * TDD Test Suite for Schedule Persistence
+ * User-scoped schedules with their next run and signing secret; site lookup
+ * and secret generation are mocked and Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import { deleteSchedule, getSchedule, saveSchedule, scheduleCron } from '../schedule-store';
+import { getSite } from '../../sites/site-store';
+import { generateWebhookSecret } from '../../webhooks/signature';
+import type { SaveScheduleRequest } from '../../../types';
+
+jest.mock('../../sites/site-store', () => ({
+  getSite: jest.fn()
+}));
+
+jest.mock('../../webhooks/signature', () => ({
+  generateWebhookSecret: jest.fn(() => 'whsec_new')
+}));
+
+const now = new Date('2026-10-19T10:00:00Z');
+
+const request = (overrides: Partial<SaveScheduleRequest> = {}): SaveScheduleRequest => ({
+  frequency: 'weekly',
+  enabled: true,
+  scoreDropThreshold: 5,
+  alertOnHighSeverity: true,
+  rotateSecret: false,
+  ...overrides
+});
+
+describe('Schedule Store - TDD', () => {
+  beforeEach(() => {
+    (getSite as jest.Mock).mockResolvedValue({ id: 'site-1' });
+    (prisma.auditSchedule.upsert as jest.Mock).mockResolvedValue({ id: 'schedule-1' });
+  });
+
+  describe('RED Phase: Access', () => {
+    it('should scope schedules to the site owner', async () => {
+      // Arrange
+      (prisma.auditSchedule.deleteMany as jest.Mock).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      // Act
+      await getSchedule('user-1', 'site-1');
+      const deleted = [await deleteSchedule('user-1', 'site-1'), await deleteSchedule('user-1', 'site-9')];
+
+      // Assert
+      expect(prisma.auditSchedule.findFirst).toHaveBeenCalledWith({
+        where: { siteId: 'site-1', site: { userId: 'user-1' } },
+        select: expect.objectContaining({
+          webhookSecret: true,
+          deliveries: expect.objectContaining({ orderBy: { createdAt: 'desc' }, take: 20 })
+        })
+      });
+      expect(prisma.auditSchedule.deleteMany).toHaveBeenCalledWith({ where: { siteId: 'site-1', site: { userId: 'user-1' } } });
+      expect(deleted).toEqual([true, false]);
+    });
+
+    it('should not schedule sites the user does not own', async () => {
+      // Arrange
+      (getSite as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const schedule = await saveSchedule('user-1', 'site-9', request(), now);
+
+      // Assert
+      expect(schedule).toBeNull();
+      expect(getSite).toHaveBeenCalledWith('user-1', 'site-9');
+      expect(prisma.auditSchedule.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Saving', () => {
+    it('should store the effective cron and its next run, with a new secret on create', async () => {
+      // Act
+      const schedule = await saveSchedule('user-1', 'site-1', request({ webhookUrl: 'https://hooks.example.com/cro' }), now);
+
+      // Assert
+      expect(schedule).toEqual({ id: 'schedule-1' });
+      const settings = {
+        frequency: 'weekly',
+        cron: '0 6 * * 1',
+        enabled: true,
+        nextRunAt: new Date('2026-10-26T06:00:00Z'),
+        webhookUrl: 'https://hooks.example.com/cro',
+        scoreDropThreshold: 5,
+        alertOnHighSeverity: true
+      };
+      expect(prisma.auditSchedule.upsert).toHaveBeenCalledWith({
+        where: { siteId: 'site-1' },
+        create: { siteId: 'site-1', ...settings, webhookSecret: 'whsec_new' },
+        update: settings,
+        select: expect.objectContaining({ cron: true, nextRunAt: true })
+      });
+    });
+
+    it('should keep the secret on update unless asked to rotate it', async () => {
+      // Act
+      await saveSchedule('user-1', 'site-1', request({ frequency: 'cron', cron: '30 */6 * * *', rotateSecret: true }), now);
+
+      // Assert
+      const { update } = (prisma.auditSchedule.upsert as jest.Mock).mock.calls[0][0];
+      expect(update).toMatchObject({ cron: '30 */6 * * *', nextRunAt: new Date('2026-10-19T12:30:00Z'), webhookUrl: null, webhookSecret: 'whsec_new' });
+      expect(generateWebhookSecret).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('REFACTOR Phase: Frequencies', () => {
+    it('should map frequencies to cron expressions', () => {
+      // Act & Assert
+      expect(scheduleCron({ frequency: 'daily' })).toBe('0 6 * * *');
+      expect(scheduleCron({ frequency: 'cron', cron: '15 3 * * *' })).toBe('15 3 * * *');
+    });
+
+    it('should default the run time to now', async () => {
+      // Act
+      await saveSchedule('user-1', 'site-1', request({ frequency: 'daily' }));
+
+      // Assert
+      expect((prisma.auditSchedule.upsert as jest.Mock).mock.calls[0][0].update.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+});
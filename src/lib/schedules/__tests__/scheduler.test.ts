@@ -0,0 +1,166 @@
+/**
+ * TDD Test Suite for the Audit Scheduler
+ * Due schedules start audits on a fake job runner; Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import { AuditScheduler, getAuditScheduler } from '../scheduler';
+import { getAuditJobRunner } from '../../audit/job-runner';
+
+jest.mock('../../audit/job-runner', () => ({
+  getAuditJobRunner: jest.fn()
+}));
+
+const now = new Date('2026-10-19T06:00:30Z');
+
+const due = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  cron: '0 6 * * *',
+  nextRunAt: new Date('2026-10-19T06:00:00Z'),
+  site: { id: `site-${id}`, userId: 'user-1', settings: {} },
+  ...overrides
+});
+
+describe('AuditScheduler - TDD', () => {
+  let runner: { enqueue: jest.Mock };
+  let scheduler: AuditScheduler;
+
+  beforeEach(() => {
+    runner = { enqueue: jest.fn() };
+    scheduler = new AuditScheduler({ runner });
+    (prisma.auditSchedule.findMany as jest.Mock).mockResolvedValue([due('schedule-1')]);
+    (prisma.auditSchedule.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.audit.create as jest.Mock).mockResolvedValue({ id: 'audit-1' });
+  });
+
+  describe('RED Phase: Claiming', () => {
+    it('should look up enabled schedules of active sites that are due', async () => {
+      // Act
+      await scheduler.tick(now);
+
+      // Assert
+      expect(prisma.auditSchedule.findMany).toHaveBeenCalledWith({
+        where: { enabled: true, nextRunAt: { lte: now }, site: { isActive: true } },
+        select: { id: true, cron: true, nextRunAt: true, site: { select: { id: true, userId: true, settings: true } } },
+        orderBy: { nextRunAt: 'asc' }
+      });
+    });
+
+    it('should skip schedules another process claimed first', async () => {
+      // Arrange
+      (prisma.auditSchedule.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+      // Act
+      const started = await scheduler.tick(now);
+
+      // Assert
+      expect(started).toEqual([]);
+      expect(prisma.audit.create).not.toHaveBeenCalled();
+      expect(runner.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GREEN Phase: Starting Audits', () => {
+    it('should move the next run forward and queue an audit linked to the schedule', async () => {
+      // Act
+      const started = await scheduler.tick(now);
+
+      // Assert
+      expect(started).toEqual(['audit-1']);
+      expect(prisma.auditSchedule.updateMany).toHaveBeenCalledWith({
+        where: { id: 'schedule-1', nextRunAt: new Date('2026-10-19T06:00:00Z') },
+        data: { nextRunAt: new Date('2026-10-20T06:00:00Z'), lastRunAt: now }
+      });
+      expect(prisma.audit.create).toHaveBeenCalledWith({
+        data: { siteId: 'site-schedule-1', userId: 'user-1', persona: 'default', scheduleId: 'schedule-1' },
+        select: { id: true }
+      });
+      expect(runner.enqueue).toHaveBeenCalledWith('audit-1');
+    });
+
+    it('should audit in the site persona and keep going when one schedule fails', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (prisma.auditSchedule.findMany as jest.Mock).mockResolvedValueOnce([
+        due('schedule-1', { cron: '0 0 31 2 *' }),
+        due('schedule-2', { site: { id: 'site-2', userId: 'user-2', settings: { persona: 'fr-que' } } })
+      ]);
+
+      // Act
+      const started = await scheduler.tick(now);
+
+      // Assert
+      expect(started).toEqual(['audit-1']);
+      expect((prisma.audit.create as jest.Mock).mock.calls[0][0].data).toMatchObject({ siteId: 'site-2', persona: 'fr-que' });
+      expect(consoleSpy).toHaveBeenCalledWith('Scheduled audit of site site-schedule-1 could not be started', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    it('should queue on the process-wide job runner by default', async () => {
+      // Arrange
+      (getAuditJobRunner as jest.Mock).mockReturnValue(runner);
+
+      // Act
+      await new AuditScheduler().tick();
+
+      // Assert
+      expect(runner.enqueue).toHaveBeenCalledWith('audit-1');
+    });
+  });
+
+  describe('REFACTOR Phase: Timer', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+      globalThis.__auditScheduler?.stop();
+      globalThis.__auditScheduler = undefined;
+    });
+
+    it('should tick every interval until stopped', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      const timed = new AuditScheduler({ runner, interval: 1000 });
+      const tickSpy = jest.spyOn(timed, 'tick').mockResolvedValue([]);
+
+      // Act
+      timed.start();
+      timed.start();
+      jest.advanceTimersByTime(2500);
+      timed.stop();
+      timed.stop();
+      jest.advanceTimersByTime(2000);
+
+      // Assert
+      expect(tickSpy).toHaveBeenCalledTimes(2);
+      expect(timed.running).toBe(false);
+    });
+
+    it('should log failed ticks without stopping', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const timed = new AuditScheduler({ runner, interval: 1000 });
+      jest.spyOn(timed, 'tick').mockRejectedValue(new Error('Database unavailable'));
+
+      // Act
+      timed.start();
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+      await Promise.resolve();
+
+      // Assert
+      expect(consoleSpy).toHaveBeenCalledWith('Audit scheduler tick failed', expect.any(Error));
+      expect(timed.running).toBe(true);
+      timed.stop();
+      consoleSpy.mockRestore();
+    });
+
+    it('should share one scheduler per process', () => {
+      // Act
+      const scheduler = getAuditScheduler();
+
+      // Assert
+      expect(getAuditScheduler()).toBe(scheduler);
+      expect(scheduler.running).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Regression alerts
+ * After a scheduled audit completes it is compared with the previous completed
+ * audit of the site. An `audit.regression` webhook is sent when:
+ * - the overall score fell by at least the schedule's scoreDropThreshold points, or
+ * - a high-severity finding is new or got more severe (when alertOnHighSeverity is on)
+ */
+
+import prisma from '@/lib/prisma';
+import type { AuditComparison, ComparedFinding, ScoreDelta } from '../../types';
+import { compareAudits, findPreviousAudit } from '../report/compare';
+import { loadReportSource } from '../report/report';
+import { WebhookSender } from '../webhooks/delivery';
+import type { WebhookDeliveryResult } from '../webhooks/delivery';
+
+export type RegressionReason = 'score_drop' | 'high_severity_finding';
+
+// Schedule columns that decide whether an alert is due
+export interface AlertSettings {
+  scoreDropThreshold: number;
+  alertOnHighSeverity: boolean;
+}
+
+export interface RegressionAlert {
+  event: 'audit.regression';
+  site: AuditComparison['site'];
+  audit: AuditComparison['target'];
+  previousAudit: AuditComparison['base'];
+  score: ScoreDelta;
+  reasons: RegressionReason[];
+  findings: Array<Pick<ComparedFinding, 'change' | 'ruleId' | 'category' | 'pageType'> & { pageUrl: string }>;
+}
+
+export interface RegressionAlerterOptions {
+  sender?: Pick<WebhookSender, 'send'>;
+}
+
+/**
+ * Alert payload for a comparison, or null when nothing regressed past the schedule's limits
+ */
+export function buildRegressionAlert(comparison: AuditComparison, settings: AlertSettings): RegressionAlert | null {
+  const reasons: RegressionReason[] = [];
+  const { delta } = comparison.score.overall;
+  if (delta !== null && -delta >= settings.scoreDropThreshold) {
+    reasons.push('score_drop');
+  }
+
+  const highSeverity = settings.alertOnHighSeverity
+    ? comparison.findings.filter(finding => (finding.change === 'new' || finding.change === 'regressed') && finding.target?.severity === 'high')
+    : [];
+  if (highSeverity.length > 0) {
+    reasons.push('high_severity_finding');
+  }
+  if (reasons.length === 0) {
+    return null;
+  }
+
+  return {
+    event: 'audit.regression',
+    site: comparison.site,
+    audit: comparison.target,
+    previousAudit: comparison.base,
+    score: comparison.score.overall,
+    reasons,
+    findings: highSeverity.map(({ change, ruleId, category, pageType, target }) => ({ change, ruleId, category, pageType, pageUrl: target!.pageUrl })),
+  };
+}
+
+export class RegressionAlerter {
+  private readonly sender: Pick<WebhookSender, 'send'>;
+
+  constructor(options: RegressionAlerterOptions = {}) {
+    this.sender = options.sender ?? new WebhookSender();
+  }
+
+  /**
+   * Compare a completed scheduled audit with the previous one and send the alert
+   * if one is due. Returns the delivery, or null when nothing was sent.
+   */
+  async check(auditId: string, scheduleId: string): Promise<WebhookDeliveryResult | null> {
+    const schedule = await prisma.auditSchedule.findUnique({ where: { id: scheduleId } });
+    if (!schedule?.webhookUrl) {
+      return null;
+    }
+
+    const target = await loadReportSource(auditId);
+    const baseId = target ? await findPreviousAudit(target) : null;
+    const base = baseId ? await loadReportSource(baseId) : null;
+    if (!target || !base) {
+      return null;
+    }
+
+    const alert = buildRegressionAlert(compareAudits(base, target), schedule);
+    if (!alert) {
+      return null;
+    }
+    return this.sender.send({
+      event: alert.event,
+      url: schedule.webhookUrl,
+      secret: schedule.webhookSecret,
+      payload: { ...alert },
+      scheduleId,
+      auditId,
+    });
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Cron expressions
+ * Parses standard 5-field expressions (minute hour day-of-month month
+ * day-of-week, evaluated in UTC) and finds their next run.
+ *
+ * Each field accepts `*`, values, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `0-30/10`); day-of-week is 0-7 with both 0 and 7 meaning Sunday.
+ * As in cron, when both day fields are restricted a day matching either runs.
+ */
+
+export interface CronSchedule {
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  daysOfWeek: ReadonlySet<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+// Preset expressions for the schedule frequencies
+export const CRON_PRESETS = {
+  daily: '0 6 * * *', // 06:00 UTC
+  weekly: '0 6 * * 1', // Mondays 06:00 UTC
+} as const;
+
+const FIELD_RANGES: readonly [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week
+];
+
+// Long enough to reach any valid date, including 29 February
+const SEARCH_LIMIT_YEARS = 8;
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELD_RANGES.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index]!, expression)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First run strictly after the given time
+ */
+export function nextCronRun(expression: string, after: Date): Date {
+  const schedule = parseCron(expression);
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+    } else {
+      return candidate;
+    }
+  }
+  throw new Error(`Cron expression "${expression}" never runs`);
+}
+
+// Private helper methods for cleaner code organization
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseField(field: string, [min, max]: [number, number], expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron expression "${expression}": cannot read "${part}"`);
+    }
+
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? min : Number(start);
+    const to = range === '*' ? max : end !== undefined ? Number(end) : step !== undefined ? max : from;
+    const increment = step !== undefined ? Number(step) : 1;
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new Error(`Invalid cron expression "${expression}": "${part}" is outside ${min}-${max}`);
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+  return values;
+}
@@ -0,0 +1,78 @@
+/**
+ * Schedule persistence
+ * A site has at most one AuditSchedule. Like sites, schedules are scoped to
+ * the user owning the site; another user's schedule reads as missing.
+ */
+
+import prisma from '@/lib/prisma';
+import type { AuditSchedule, SaveScheduleRequest } from '../../types';
+import { getSite } from '../sites/site-store';
+import { generateWebhookSecret } from '../webhooks/signature';
+import { CRON_PRESETS, nextCronRun } from './cron';
+
+// Deliveries listed with a schedule
+const DELIVERY_LIMIT = 20;
+
+const SCHEDULE_FIELDS = {
+  id: true,
+  siteId: true,
+  frequency: true,
+  cron: true,
+  enabled: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  webhookUrl: true,
+  webhookSecret: true,
+  scoreDropThreshold: true,
+  alertOnHighSeverity: true,
+  deliveries: {
+    select: { id: true, event: true, status: true, attempts: true, responseStatus: true, lastError: true, createdAt: true, deliveredAt: true },
+    orderBy: { createdAt: 'desc' },
+    take: DELIVERY_LIMIT,
+  },
+} as const;
+
+/**
+ * Effective cron expression of a schedule request
+ */
+export function scheduleCron(input: Pick<SaveScheduleRequest, 'frequency' | 'cron'>): string {
+  return input.frequency === 'cron' ? input.cron! : CRON_PRESETS[input.frequency];
+}
+
+export async function getSchedule(userId: string, siteId: string): Promise<AuditSchedule | null> {
+  return prisma.auditSchedule.findFirst({ where: { siteId, site: { userId } }, select: SCHEDULE_FIELDS });
+}
+
+/**
+ * Create or replace a site's schedule; returns null when the user has no such site
+ */
+export async function saveSchedule(userId: string, siteId: string, input: SaveScheduleRequest, now = new Date()): Promise<AuditSchedule | null> {
+  if (!(await getSite(userId, siteId))) {
+    return null;
+  }
+
+  const cron = scheduleCron(input);
+  const settings = {
+    frequency: input.frequency,
+    cron,
+    enabled: input.enabled,
+    nextRunAt: nextCronRun(cron, now),
+    webhookUrl: input.webhookUrl ?? null,
+    scoreDropThreshold: input.scoreDropThreshold,
+    alertOnHighSeverity: input.alertOnHighSeverity,
+  };
+  return prisma.auditSchedule.upsert({
+    where: { siteId },
+    create: { siteId, ...settings, webhookSecret: generateWebhookSecret() },
+    update: { ...settings, ...(input.rotateSecret ? { webhookSecret: generateWebhookSecret() } : {}) },
+    select: SCHEDULE_FIELDS,
+  });
+}
+
+/**
+ * Stop scheduling a site; false when the user has no schedule for it
+ */
+export async function deleteSchedule(userId: string, siteId: string): Promise<boolean> {
+  const { count } = await prisma.auditSchedule.deleteMany({ where: { siteId, site: { userId } } });
+  return count > 0;
+}
@@ -0,0 +1,126 @@
+/**
+ * Audit scheduler
+ * Starts the audits of due schedules and hands them to the job runner.
+ *
+ * Every tick claims each due schedule by moving its nextRunAt forward only if
+ * it still holds the value that was read, so two processes ticking at once
+ * start one audit. Runs missed while the server was down are not replayed:
+ * the next run is computed from the current time.
+ */
+
+import prisma from '@/lib/prisma';
+import type { SiteSettings } from '../../types';
+import { getAuditJobRunner } from '../audit/job-runner';
+import type { AuditJobRunner } from '../audit/job-runner';
+import { nextCronRun } from './cron';
+
+export interface AuditSchedulerOptions {
+  runner?: Pick<AuditJobRunner, 'enqueue'>;
+  interval?: number; // Time between ticks in ms
+}
+
+interface DueSchedule {
+  id: string;
+  cron: string;
+  nextRunAt: Date;
+  site: { id: string; userId: string; settings: SiteSettings };
+}
+
+export class AuditScheduler {
+  // Scheduler configuration constants
+  public static readonly DEFAULT_INTERVAL = 60 * 1000;
+
+  private readonly runner: Pick<AuditJobRunner, 'enqueue'> | undefined;
+  private readonly interval: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: AuditSchedulerOptions = {}) {
+    this.runner = options.runner;
+    this.interval = options.interval ?? AuditScheduler.DEFAULT_INTERVAL;
+  }
+
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Start the audits of every schedule due at the given time; returns their ids
+   */
+  async tick(now = new Date()): Promise<string[]> {
+    const due: DueSchedule[] = await prisma.auditSchedule.findMany({
+      where: { enabled: true, nextRunAt: { lte: now }, site: { isActive: true } },
+      select: { id: true, cron: true, nextRunAt: true, site: { select: { id: true, userId: true, settings: true } } },
+      orderBy: { nextRunAt: 'asc' },
+    });
+
+    const started: string[] = [];
+    for (const schedule of due) {
+      try {
+        const auditId = await this.startAudit(schedule, now);
+        if (auditId) {
+          started.push(auditId);
+        }
+      } catch (error) {
+        console.error(`Scheduled audit of site ${schedule.site.id} could not be started`, error);
+      }
+    }
+    return started;
+  }
+
+  /**
+   * Tick every interval until stop() is called; the timer does not keep the process alive
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Audit scheduler tick failed', error));
+    }, this.interval);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private async startAudit(schedule: DueSchedule, now: Date): Promise<string | null> {
+    const claimed = await prisma.auditSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt: nextCronRun(schedule.cron, now), lastRunAt: now },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const audit = await prisma.audit.create({
+      data: {
+        siteId: schedule.site.id,
+        userId: schedule.site.userId,
+        persona: schedule.site.settings.persona ?? 'default',
+        scheduleId: schedule.id,
+      },
+      select: { id: true },
+    });
+    (this.runner ?? getAuditJobRunner()).enqueue(audit.id);
+    return audit.id;
+  }
+}
+
+declare global {
+  // eslint-disable-next-line no-var, no-unused-vars
+  var __auditScheduler: AuditScheduler | undefined;
+}
+
+/**
+ * Process-wide scheduler
+ */
+export function getAuditScheduler(): AuditScheduler {
+  globalThis.__auditScheduler ??= new AuditScheduler();
+  return globalThis.__auditScheduler;
+}
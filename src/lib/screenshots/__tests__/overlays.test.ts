@@ -0,0 +1,121 @@
+/**
+ * TDD Test Suite for Screenshot Overlays
+ * Evidence boxes, selector lookups and fold lines drawn over page screenshots
+ */
+
+import { findingOverlays, pickScreenshot, primaryDevice } from '../overlays';
+import type { PageMetrics } from '../../../types';
+
+const box = (selector: string, top: number, left = 0, width = 200, height = 40) => ({
+  selector,
+  position: { top, left },
+  size: { width, height }
+});
+
+const cta = (selector: string, top: number) => ({ ...box(selector, top), text: 'Shop now', prominent: true });
+
+const metrics: PageMetrics = {
+  aboveFold: { ctaButtons: [cta('a.hero__cta', 400)], height: 900 },
+  performance: { loadTime: 1200 },
+  product: {
+    prices: [{ ...box('.price__sale', 1000), text: '€20', amount: 20, onSale: true, aboveFold: false }],
+    compareAtPrice: null,
+    variantSelector: { type: 'none', optionCount: 0 },
+    addToCart: { ...box('button[name="add"]', 1100), text: 'Add to cart', disabled: false, aboveFold: false, distanceFromPrice: 100 }
+  },
+  viewports: {
+    desktop: { viewport: { width: 1440, height: 900 }, aboveFold: { ctaButtons: [cta('a.hero__cta', 400)], height: 900 } },
+    mobile: { viewport: { width: 390, height: 844 }, aboveFold: { ctaButtons: [cta('a.hero__cta', 700)], height: 844 } }
+  }
+};
+
+const desktop = { device: 'desktop' as const, width: 1440, height: 3000 };
+
+const mobile = { device: 'mobile' as const, width: 390, height: 5000 };
+
+describe('Screenshot Overlays - TDD', () => {
+  describe('RED Phase: Devices', () => {
+    it('should take the primary device from the top-level fold', () => {
+      // Act & Assert
+      expect(primaryDevice(metrics)).toBe('desktop');
+      expect(primaryDevice({ ...metrics, aboveFold: { ctaButtons: [], height: 844 } })).toBe('mobile');
+      expect(primaryDevice({ aboveFold: { ctaButtons: [], height: 900 }, performance: { loadTime: 0 } })).toBe('desktop');
+      expect(primaryDevice(null)).toBe('desktop');
+    });
+
+    it('should pick the screenshot of the reported device, then the primary one, then any', () => {
+      // Act & Assert
+      expect(pickScreenshot({ device: 'mobile' }, [desktop, mobile], 'desktop')).toBe(mobile);
+      expect(pickScreenshot({}, [mobile, desktop], 'desktop')).toBe(desktop);
+      expect(pickScreenshot({ device: 'desktop' }, [mobile], 'desktop')).toBe(mobile);
+      expect(pickScreenshot({}, [], 'desktop')).toBeNull();
+    });
+  });
+
+  describe('GREEN Phase: Overlays', () => {
+    it('should draw evidence boxes and the reported fold', () => {
+      // Arrange
+      const evidence = { device: 'desktop', aboveFoldHeight: 900, weakCTAs: [{ ...box('a.small', 300, 40, 90, 20), text: 'Browse' }] };
+
+      // Act & Assert
+      expect(findingOverlays(evidence, metrics, desktop, 'desktop')).toEqual([
+        { kind: 'element', label: 'Browse', top: 300, left: 40, width: 90, height: 20 },
+        { kind: 'fold', label: 'Fold', top: 900, left: 0, width: 1440, height: 0 }
+      ]);
+    });
+
+    it('should find elements named only by selector among the measured boxes', () => {
+      // Arrange
+      const evidence = { selector: '.price__sale', position: { top: 1000, left: 0 }, aboveFoldHeight: 900, addToCart: { selector: 'button[name="add"]' } };
+
+      // Act & Assert
+      expect(findingOverlays(evidence, metrics, desktop, 'desktop')).toEqual([
+        { kind: 'element', label: '€20', top: 1000, left: 0, width: 200, height: 40 },
+        { kind: 'element', label: 'Add to cart', top: 1100, left: 0, width: 200, height: 40 },
+        { kind: 'fold', label: 'Fold', top: 900, left: 0, width: 1440, height: 0 }
+      ]);
+    });
+
+    it('should place evidence of another device by selector on the fold of the screenshot device', () => {
+      // Arrange
+      const evidence = { device: 'desktop', aboveFoldHeight: 900, ctas: [cta('a.hero__cta', 400), box('.price__sale', 1000)] };
+
+      // Act & Assert
+      expect(findingOverlays(evidence, metrics, mobile, 'desktop')).toEqual([
+        { kind: 'element', label: 'Shop now', top: 700, left: 0, width: 200, height: 40 },
+        { kind: 'fold', label: 'Fold', top: 844, left: 0, width: 390, height: 0 }
+      ]);
+    });
+  });
+
+  describe('REFACTOR Phase: Edge Cases', () => {
+    it('should merge duplicates, clip boxes to the screenshot and skip what lies below it', () => {
+      // Arrange
+      const evidence = {
+        ctas: [cta('a.hero__cta', 400), { selector: 'a.hero__cta' }],
+        tall: { ...box('', 2900, 0, 100, 400), text: '' },
+        below: box('.footer', 3000),
+        aboveFoldHeight: 'unknown',
+        unknown: { selector: '.missing' }
+      };
+
+      // Act & Assert
+      expect(findingOverlays(evidence, metrics, desktop, 'desktop')).toEqual([
+        { kind: 'element', label: 'Shop now', top: 400, left: 0, width: 200, height: 40 },
+        { kind: 'element', label: 'Element', top: 2900, left: 0, width: 100, height: 100 },
+        { kind: 'fold', label: 'Fold', top: 900, left: 0, width: 1440, height: 0 }
+      ]);
+    });
+
+    it('should draw no fold without fold data or below the screenshot', () => {
+      // Arrange
+      const legacy = { aboveFold: { ctaButtons: [], height: 900 }, performance: { loadTime: 0 } };
+
+      // Act & Assert
+      expect(findingOverlays({}, null, desktop, 'desktop')).toEqual([]);
+      expect(findingOverlays({}, legacy, mobile, 'desktop')).toEqual([]);
+      expect(findingOverlays({}, legacy, desktop, 'desktop')).toEqual([{ kind: 'fold', label: 'Fold', top: 900, left: 0, width: 1440, height: 0 }]);
+      expect(findingOverlays({ aboveFoldHeight: 4000 }, legacy, desktop, 'desktop')).toEqual([]);
+    });
+  });
+});
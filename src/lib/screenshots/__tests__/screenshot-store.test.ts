@@ -0,0 +1,160 @@
+/**
+ * TDD Test Suite for Screenshot Persistence
+ * Images go to an in-memory storage; Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import { auditScreenshotPrefix, loadScreenshotImage, removeAuditScreenshots, saveScreenshots } from '../screenshot-store';
+import type { ScreenshotStorage } from '../storage';
+import type { PageScreenshotCapture } from '../../crawler/shopify-crawler';
+
+const memoryStorage = () => {
+  const files = new Map<string, Uint8Array>();
+  const storage = {
+    files,
+    put: jest.fn(async (key: string, data: Uint8Array) => {
+      files.set(key, data);
+    }),
+    get: jest.fn(async (key: string) => files.get(key) ?? null),
+    removePrefix: jest.fn(async (prefix: string) => {
+      [...files.keys()].filter(key => key.startsWith(`${prefix}/`)).forEach(key => files.delete(key));
+    })
+  };
+  return storage satisfies ScreenshotStorage;
+};
+
+const capture = (device: 'desktop' | 'mobile'): PageScreenshotCapture => ({
+  device,
+  width: device === 'desktop' ? 1440 : 390,
+  height: 3200,
+  contentType: 'image/jpeg',
+  image: Buffer.from(`${device}-full`),
+  thumbnail: Buffer.from(`${device}-thumb`)
+});
+
+describe('Screenshot Store - TDD', () => {
+  let storage: ReturnType<typeof memoryStorage>;
+
+  beforeEach(() => {
+    storage = memoryStorage();
+  });
+
+  describe('RED Phase: Access', () => {
+    it('should scope reads to the audit owner', async () => {
+      // Arrange
+      (prisma.screenshot.findFirst as jest.Mock).mockResolvedValueOnce(null);
+
+      // Act
+      const image = await loadScreenshotImage('user-2', 'shot-1', 'full', storage);
+
+      // Assert
+      expect(image).toBeNull();
+      expect(prisma.screenshot.findFirst).toHaveBeenCalledWith({
+        where: { id: 'shot-1', crawlResult: { audit: { userId: 'user-2' } } },
+        select: { contentType: true, imageKey: true, thumbnailKey: true }
+      });
+      expect(storage.get).not.toHaveBeenCalled();
+    });
+
+    it('should read images whose file is gone as missing', async () => {
+      // Arrange
+      (prisma.screenshot.findFirst as jest.Mock).mockResolvedValueOnce({ contentType: 'image/jpeg', imageKey: 'audits/audit-1/page-1/desktop.jpeg', thumbnailKey: 'x' });
+
+      // Act & Assert
+      await expect(loadScreenshotImage('user-1', 'shot-1', 'full', storage)).resolves.toBeNull();
+    });
+  });
+
+  describe('GREEN Phase: Storage', () => {
+    it('should store both images of every device under the audit and record them', async () => {
+      // Act
+      await saveScreenshots('audit-1', 'page-1', [capture('desktop'), capture('mobile')], storage);
+
+      // Assert
+      expect([...storage.files.keys()]).toEqual([
+        'audits/audit-1/page-1/desktop.jpeg',
+        'audits/audit-1/page-1/desktop-thumb.jpeg',
+        'audits/audit-1/page-1/mobile.jpeg',
+        'audits/audit-1/page-1/mobile-thumb.jpeg'
+      ]);
+      expect(prisma.screenshot.create).toHaveBeenNthCalledWith(2, {
+        data: {
+          crawlResultId: 'page-1',
+          device: 'mobile',
+          width: 390,
+          height: 3200,
+          contentType: 'image/jpeg',
+          imageKey: 'audits/audit-1/page-1/mobile.jpeg',
+          thumbnailKey: 'audits/audit-1/page-1/mobile-thumb.jpeg'
+        }
+      });
+    });
+
+    it('should serve the full image or the thumbnail with its content type', async () => {
+      // Arrange
+      await saveScreenshots('audit-1', 'page-1', [capture('desktop')], storage);
+      const row = (prisma.screenshot.create as jest.Mock).mock.calls[0][0].data;
+      (prisma.screenshot.findFirst as jest.Mock).mockResolvedValueOnce(row).mockResolvedValueOnce(row);
+
+      // Act
+      const full = await loadScreenshotImage('user-1', 'shot-1', 'full', storage);
+      const thumbnail = await loadScreenshotImage('user-1', 'shot-1', 'thumbnail', storage);
+
+      // Assert
+      expect(full).toEqual({ data: Buffer.from('desktop-full'), contentType: 'image/jpeg' });
+      expect(Buffer.from(thumbnail!.data).toString()).toBe('desktop-thumb');
+    });
+  });
+
+  describe('REFACTOR Phase: Failures and Cleanup', () => {
+    it('should log captures that cannot be stored and keep the others', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      storage.put.mockRejectedValueOnce(new Error('ENOSPC'));
+
+      // Act
+      await saveScreenshots('audit-1', 'page-1', [capture('desktop'), capture('mobile')], storage);
+
+      // Assert
+      expect(consoleSpy).toHaveBeenCalledWith('Screenshot audits/audit-1/page-1/desktop.jpeg could not be stored', expect.any(Error));
+      expect(prisma.screenshot.create).toHaveBeenCalledTimes(1);
+      expect((prisma.screenshot.create as jest.Mock).mock.calls[0][0].data.device).toBe('mobile');
+      consoleSpy.mockRestore();
+    });
+
+    it('should remove every image of deleted audits and log failures', async () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      await saveScreenshots('audit-1', 'page-1', [capture('desktop')], storage);
+      await saveScreenshots('audit-3', 'page-3', [capture('desktop')], storage);
+      storage.removePrefix.mockImplementationOnce(async () => {
+        throw new Error('EACCES');
+      });
+
+      // Act
+      await removeAuditScreenshots(['audit-2', 'audit-1'], storage);
+
+      // Assert
+      expect(auditScreenshotPrefix('audit-1')).toBe('audits/audit-1');
+      expect(consoleSpy).toHaveBeenCalledWith('Screenshots of audit audit-2 could not be removed', expect.any(Error));
+      expect([...storage.files.keys()]).toEqual(['audits/audit-3/page-3/desktop.jpeg', 'audits/audit-3/page-3/desktop-thumb.jpeg']);
+      consoleSpy.mockRestore();
+    });
+
+    it('should default to the process-wide storage', async () => {
+      // Arrange
+      globalThis.__screenshotStorage = storage;
+
+      // Act
+      await saveScreenshots('audit-1', 'page-1', [capture('mobile')]);
+      (prisma.screenshot.findFirst as jest.Mock).mockResolvedValueOnce((prisma.screenshot.create as jest.Mock).mock.calls[0][0].data);
+      const image = await loadScreenshotImage('user-1', 'shot-1', 'full');
+      await removeAuditScreenshots(['audit-1']);
+
+      // Assert
+      expect(image?.contentType).toBe('image/jpeg');
+      expect(storage.files.size).toBe(0);
+      globalThis.__screenshotStorage = undefined;
+    });
+  });
+});
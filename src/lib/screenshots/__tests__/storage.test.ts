@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for Screenshot Storage
+ * The file store runs against a throwaway directory
+ */
+
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileScreenshotStorage, getScreenshotStorage } from '../storage';
+
+describe('Screenshot Storage - TDD', () => {
+  let root: string;
+  let storage: FileScreenshotStorage;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'screenshots-'));
+    storage = new FileScreenshotStorage({ root });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('RED Phase: Keys', () => {
+    it.each(['../escape.jpeg', 'audits/../../escape.jpeg', '/absolute.jpeg', 'audits//page.jpeg', 'audits/./page.jpeg', 'audits/page?.jpeg'])(
+      'should reject the key %s',
+      async key => {
+        // Act & Assert
+        await expect(storage.put(key, Buffer.from('x'))).rejects.toThrow(`Invalid screenshot key: ${key}`);
+      }
+    );
+  });
+
+  describe('GREEN Phase: Files', () => {
+    it('should write, read and remove images by prefix', async () => {
+      // Arrange
+      await storage.put('audits/audit-1/page-1/desktop.jpeg', Buffer.from('desktop'));
+      await storage.put('audits/audit-2/page-2/desktop.jpeg', Buffer.from('other'));
+
+      // Act
+      const stored = await storage.get('audits/audit-1/page-1/desktop.jpeg');
+      await storage.removePrefix('audits/audit-1');
+
+      // Assert
+      expect(Buffer.from(stored!).toString()).toBe('desktop');
+      await expect(storage.get('audits/audit-1/page-1/desktop.jpeg')).resolves.toBeNull();
+      await expect(readdir(path.join(root, 'audits'))).resolves.toEqual(['audit-2']);
+      await expect(storage.removePrefix('audits/audit-9')).resolves.toBeUndefined();
+    });
+
+    it('should rethrow read failures other than missing files', async () => {
+      // Arrange
+      await storage.put('audits/audit-1/page-1/desktop.jpeg', Buffer.from('desktop'));
+
+      // Act & Assert
+      await expect(storage.get('audits/audit-1')).rejects.toMatchObject({ code: 'EISDIR' });
+    });
+  });
+
+  describe('REFACTOR Phase: Configuration', () => {
+    const originalDir = process.env.SCREENSHOT_DIR;
+
+    afterEach(() => {
+      if (originalDir === undefined) {
+        delete process.env.SCREENSHOT_DIR;
+      } else {
+        process.env.SCREENSHOT_DIR = originalDir;
+      }
+      globalThis.__screenshotStorage = undefined;
+    });
+
+    it('should write under SCREENSHOT_DIR, then the default directory', async () => {
+      // Arrange
+      process.env.SCREENSHOT_DIR = root;
+      const configured = new FileScreenshotStorage();
+      delete process.env.SCREENSHOT_DIR;
+
+      // Act
+      await configured.put('audits/audit-1/page-1/mobile.jpeg', Buffer.from('mobile'));
+
+      // Assert
+      await expect(readdir(path.join(root, 'audits', 'audit-1', 'page-1'))).resolves.toEqual(['mobile.jpeg']);
+      expect(FileScreenshotStorage.DEFAULT_ROOT).toBe(path.join('.data', 'screenshots'));
+    });
+
+    it('should share one storage across the process', () => {
+      // Act & Assert
+      expect(getScreenshotStorage()).toBeInstanceOf(FileScreenshotStorage);
+      expect(getScreenshotStorage()).toBe(getScreenshotStorage());
+    });
+  });
+});
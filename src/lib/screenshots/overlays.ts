@@ -0,0 +1,121 @@
+/**
+ * Screenshot overlays
+ * Points a finding at the elements it is about by turning its evidence into
+ * boxes drawn over the page screenshot.
+ *
+ * - Evidence objects carrying a position and size (e.g. CTA buttons) are drawn as they are
+ * - Evidence selectors are looked up among the element boxes the crawler measured
+ *   on the screenshot's device, so a finding can also be shown on another device
+ * - The fold line is the evidence's aboveFoldHeight, or the device's fold
+ *
+ * Screenshots are in CSS pixels of the page, the same space as the evidence boxes.
+ */
+
+import { DeviceEnum } from '../../types';
+import type { Device, ElementBox, PageMetrics, ScreenshotOverlay } from '../../types';
+
+type MeasuredBox = ElementBox & { text?: string };
+
+export interface OverlayTarget {
+  device: Device;
+  width: number;
+  height: number;
+}
+
+/**
+ * Device whose metrics fill the top-level PageMetrics fields (the first one crawled)
+ */
+export function primaryDevice(metrics: PageMetrics | null): Device {
+  const viewports = metrics?.viewports ?? {};
+  return DeviceEnum.options.find(device => viewports[device]?.aboveFold.height === metrics?.aboveFold.height) ?? 'desktop';
+}
+
+/**
+ * Screenshot of the device the finding was reported on, falling back to the primary device, then any
+ */
+export function pickScreenshot<T extends { device: Device }>(evidence: Record<string, any>, screenshots: T[], primary: Device): T | null {
+  const reported = evidence.device ?? primary;
+  return screenshots.find(shot => shot.device === reported) ?? screenshots.find(shot => shot.device === primary) ?? screenshots[0] ?? null;
+}
+
+export function findingOverlays(
+  evidence: Record<string, any>,
+  metrics: PageMetrics | null,
+  target: OverlayTarget,
+  primary: Device
+): ScreenshotOverlay[] {
+  const sameDevice = (evidence.device ?? primary) === target.device;
+  const measured = measuredBoxes(metrics, target.device, primary);
+  const overlays = new Map<string, ScreenshotOverlay>();
+
+  const add = (box: MeasuredBox) => {
+    const { top, left } = box.position;
+    if (top >= target.height) {
+      return; // Below the captured part of the page
+    }
+    const overlay: ScreenshotOverlay = {
+      kind: 'element',
+      label: box.text || box.selector || 'Element',
+      top,
+      left,
+      width: box.size.width,
+      height: Math.min(box.size.height, target.height - top),
+    };
+    overlays.set(`${top},${left},${overlay.width},${overlay.height}`, overlay);
+  };
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!isRecord(value)) {
+      return;
+    }
+    if (sameDevice && isBox(value)) {
+      add({ ...value, selector: String(value.selector ?? '') });
+    } else if (typeof value.selector === 'string' && measured.has(value.selector)) {
+      add(measured.get(value.selector)!);
+    }
+    Object.values(value).forEach(visit);
+  };
+  visit(evidence);
+
+  const fold = sameDevice && typeof evidence.aboveFoldHeight === 'number' ? evidence.aboveFoldHeight : deviceFold(metrics, target.device, primary);
+  return [
+    ...overlays.values(),
+    ...(fold !== null && fold < target.height ? [{ kind: 'fold' as const, label: 'Fold', top: fold, left: 0, width: target.width, height: 0 }] : []),
+  ];
+}
+
+// Private helper methods for cleaner code organization
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isBox(value: Record<string, any>): value is MeasuredBox {
+  return (
+    isRecord(value.position) && typeof value.position.top === 'number' && typeof value.position.left === 'number' &&
+    isRecord(value.size) && typeof value.size.width === 'number' && typeof value.size.height === 'number'
+  );
+}
+
+// Element boxes measured on the device, by selector; page-level metrics were measured on the primary device
+function measuredBoxes(metrics: PageMetrics | null, device: Device, primary: Device): Map<string, MeasuredBox> {
+  const boxes: MeasuredBox[] = [...(metrics?.viewports?.[device]?.aboveFold.ctaButtons ?? [])];
+  if (metrics && device === primary) {
+    const { aboveFold, product, socialProof } = metrics;
+    boxes.push(...aboveFold.ctaButtons, ...(product?.prices ?? []));
+    for (const box of [product?.compareAtPrice, product?.addToCart, socialProof?.widget]) {
+      if (box) {
+        boxes.push(box);
+      }
+    }
+  }
+  return new Map(boxes.map(box => [box.selector, box]));
+}
+
+function deviceFold(metrics: PageMetrics | null, device: Device, primary: Device): number | null {
+  return metrics?.viewports?.[device]?.aboveFold.height ?? (device === primary ? metrics?.aboveFold.height ?? null : null);
+}
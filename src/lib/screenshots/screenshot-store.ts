@@ -0,0 +1,92 @@
+/**
+ * Screenshot persistence
+ * Writes the images captured by the crawler to the screenshot storage and
+ * records them as Screenshot rows of their crawled page. Reads are scoped to
+ * the user owning the audit; another user's screenshot reads as missing.
+ *
+ * Screenshots are best effort: a capture that cannot be stored is logged and
+ * the page is kept without it.
+ */
+
+import prisma from '@/lib/prisma';
+import type { ScreenshotVariant } from '../../types';
+import type { PageScreenshotCapture } from '../crawler/shopify-crawler';
+import { getScreenshotStorage } from './storage';
+import type { ScreenshotStorage } from './storage';
+
+export interface ScreenshotImage {
+  data: Uint8Array;
+  contentType: string;
+}
+
+/**
+ * Storage prefix holding every screenshot of an audit
+ */
+export function auditScreenshotPrefix(auditId: string): string {
+  return `audits/${auditId}`;
+}
+
+export async function saveScreenshots(
+  auditId: string,
+  crawlResultId: string,
+  captures: PageScreenshotCapture[],
+  storage: ScreenshotStorage = getScreenshotStorage()
+): Promise<void> {
+  for (const capture of captures) {
+    const base = `${auditScreenshotPrefix(auditId)}/${crawlResultId}/${capture.device}`;
+    const extension = capture.contentType.split('/')[1];
+    const imageKey = `${base}.${extension}`;
+    const thumbnailKey = `${base}-thumb.${extension}`;
+    try {
+      await storage.put(imageKey, capture.image);
+      await storage.put(thumbnailKey, capture.thumbnail);
+      await prisma.screenshot.create({
+        data: {
+          crawlResultId,
+          device: capture.device,
+          width: capture.width,
+          height: capture.height,
+          contentType: capture.contentType,
+          imageKey,
+          thumbnailKey,
+        },
+      });
+    } catch (error) {
+      console.error(`Screenshot ${imageKey} could not be stored`, error);
+    }
+  }
+}
+
+/**
+ * Image bytes of a screenshot, or null when the user has no such screenshot or its file is gone
+ */
+export async function loadScreenshotImage(
+  userId: string,
+  screenshotId: string,
+  variant: ScreenshotVariant,
+  storage: ScreenshotStorage = getScreenshotStorage()
+): Promise<ScreenshotImage | null> {
+  const screenshot = await prisma.screenshot.findFirst({
+    where: { id: screenshotId, crawlResult: { audit: { userId } } },
+    select: { contentType: true, imageKey: true, thumbnailKey: true },
+  });
+  if (!screenshot) {
+    return null;
+  }
+
+  const data = await storage.get(variant === 'thumbnail' ? screenshot.thumbnailKey : screenshot.imageKey);
+  return data ? { data, contentType: screenshot.contentType } : null;
+}
+
+/**
+ * Remove the stored images of deleted audits; failures are logged, not thrown
+ */
+export async function removeAuditScreenshots(auditIds: string[], storage: ScreenshotStorage = getScreenshotStorage()): Promise<void> {
+  for (const auditId of auditIds) {
+    try {
+      await storage.removePrefix(auditScreenshotPrefix(auditId));
+    } catch (error) {
+      console.error(`Screenshots of audit ${auditId} could not be removed`, error);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Screenshot storage
+ * Page screenshots are kept outside the database; rows only hold their keys.
+ * Keys are slash-separated paths such as `audits/<auditId>/<crawlResultId>/desktop.jpg`,
+ * so everything of an audit can be removed by prefix.
+ *
+ * The file store writes under SCREENSHOT_DIR (default `.data/screenshots`).
+ * Another backend (e.g. an object store) only has to provide the ScreenshotStorage methods.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface FileScreenshotStorageOptions {
+  root?: string;
+}
+
+// Segments of letters, digits, dots, dashes and underscores; no empty, `.` or `..` segments
+const KEY_PATTERN = /^(?!.*(?:^|\/)\.{1,2}(?:\/|$))[\w.-]+(?:\/[\w.-]+)*$/;
+
+export class FileScreenshotStorage {
+  public static readonly DEFAULT_ROOT = path.join('.data', 'screenshots');
+
+  private readonly root: string;
+
+  constructor(options: FileScreenshotStorageOptions = {}) {
+    this.root = path.resolve(options.root ?? process.env.SCREENSHOT_DIR ?? FileScreenshotStorage.DEFAULT_ROOT);
+  }
+
+  async put(key: string, data: Uint8Array): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  // null when nothing is stored under the key
+  async get(key: string): Promise<Uint8Array | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async removePrefix(prefix: string): Promise<void> {
+    await rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private resolve(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid screenshot key: ${key}`);
+    }
+    return path.join(this.root, ...key.split('/'));
+  }
+}
+
+export type ScreenshotStorage = Pick<FileScreenshotStorage, 'put' | 'get' | 'removePrefix'>;
+
+declare global {
+  // eslint-disable-next-line no-var, no-unused-vars
+  var __screenshotStorage: ScreenshotStorage | undefined;
+}
+
+/**
+ * Process-wide storage
+ */
+export function getScreenshotStorage(): ScreenshotStorage {
+  globalThis.__screenshotStorage ??= new FileScreenshotStorage();
+  return globalThis.__screenshotStorage;
+}
@@ -0,0 +1,200 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for Sites
+ * Shopify storefront detection and user-scoped site persistence; Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import { createSite, deleteSite, findSiteByUrl, getSite, getSiteWithHistory, listSites, updateSite } from '../site-store';
+import { isMyshopifyHost, isShopifyStorefront, normalizeStoreUrl } from '../storefront';
+import { removeAuditScreenshots } from '../../screenshots/screenshot-store';
+
+jest.mock('../../screenshots/screenshot-store', () => ({
+  removeAuditScreenshots: jest.fn()
+}));
+
+const storefront = (body: string, headers: Record<string, string> = {}) => jest.fn().mockResolvedValue(new Response(body, { headers }));
+
+const siteFields = {
+  id: true,
+  url: true,
+  name: true,
+  description: true,
+  settings: true,
+  isActive: true,
+  createdAt: true,
+  lastCrawledAt: true
+};
+
+describe('Sites - TDD', () => {
+  describe('RED Phase: Storefront Detection', () => {
+    it('should key sites by origin', () => {
+      // Act & Assert
+      expect(normalizeStoreUrl('https://Test-Store.myshopify.com/collections/all?page=2')).toBe('https://test-store.myshopify.com');
+    });
+
+    it.each([
+      ['test-store.myshopify.com', true],
+      ['TEST-STORE.MYSHOPIFY.COM', true],
+      ['myshopify.com', false],
+      ['myshopify.com.evil.io', false]
+    ])('should recognise %s as a myshopify host: %p', (hostname, expected) => {
+      // Act & Assert
+      expect(isMyshopifyHost(hostname)).toBe(expected);
+    });
+
+    it('should accept myshopify stores without a request', async () => {
+      // Arrange
+      const fetch = jest.fn();
+
+      // Act & Assert
+      await expect(isShopifyStorefront('https://test-store.myshopify.com/products/a', { fetch })).resolves.toBe(true);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['Shopify headers', storefront('<html></html>', { 'x-shopid': '123' })],
+      ['the powered-by header', storefront('<html></html>', { 'powered-by': 'Shopify' })],
+      ['storefront markup', storefront('<script>Shopify.shop = "boutique.myshopify.com";</script>')],
+      ['theme assets', storefront('<link href="//cdn.shopify.com/s/files/1/theme.css">')]
+    ])('should detect custom domains from %s', async (_, fetch) => {
+      // Act & Assert
+      await expect(isShopifyStorefront('https://boutique.example', { fetch })).resolves.toBe(true);
+      expect(fetch).toHaveBeenCalledWith('https://boutique.example/', expect.objectContaining({ signal: expect.any(AbortSignal) }));
+    });
+
+    it('should reject other sites and unreachable domains', async () => {
+      // Act & Assert
+      await expect(isShopifyStorefront('https://example.com', { fetch: storefront('<html>WooCommerce</html>') })).resolves.toBe(false);
+      await expect(isShopifyStorefront('https://example.com', { fetch: jest.fn().mockRejectedValue(new Error('ENOTFOUND')) })).resolves.toBe(false);
+    });
+
+    it('should give up on slow domains and use the global fetch by default', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockImplementationOnce((_url: string, init: RequestInit) =>
+        new Promise((...callbacks) => init.signal?.addEventListener('abort', () => callbacks[1](new Error('aborted'))))
+      );
+
+      // Act & Assert
+      await expect(isShopifyStorefront('https://slow.example', { timeout: 10 })).resolves.toBe(false);
+      expect(global.fetch).toHaveBeenCalledWith('https://slow.example/', expect.any(Object));
+    });
+  });
+
+  describe('GREEN Phase: Site Store', () => {
+    it('should create sites keyed by origin', async () => {
+      // Arrange
+      (prisma.site.create as jest.Mock).mockResolvedValueOnce({ id: 'site-1' });
+
+      // Act
+      await createSite('user-1', { url: 'https://test-store.myshopify.com/', name: 'Test Store', settings: { maxPages: 5 } });
+      await createSite('user-1', { url: 'https://boutique.example', description: 'Boutique', settings: {} });
+
+      // Assert
+      expect(prisma.site.create).toHaveBeenNthCalledWith(1, {
+        data: { userId: 'user-1', url: 'https://test-store.myshopify.com', settings: { maxPages: 5 }, name: 'Test Store' },
+        select: siteFields
+      });
+      expect((prisma.site.create as jest.Mock).mock.calls[1][0].data).toEqual({
+        userId: 'user-1',
+        url: 'https://boutique.example',
+        settings: {},
+        description: 'Boutique'
+      });
+    });
+
+    it('should answer null when the user already registered the store', async () => {
+      // Arrange
+      (prisma.site.create as jest.Mock)
+        .mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed on the fields: (`userId`,`url`)'), { code: 'P2002' }))
+        .mockRejectedValueOnce(new Error('Connection refused'));
+
+      // Act & Assert
+      await expect(createSite('user-1', { url: 'https://test-store.myshopify.com', settings: {} })).resolves.toBeNull();
+      await expect(createSite('user-1', { url: 'https://test-store.myshopify.com', settings: {} })).rejects.toThrow('Connection refused');
+    });
+
+    it('should list a page of the user sites with the total', async () => {
+      // Arrange
+      (prisma.site.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'site-3' }]);
+      (prisma.site.count as jest.Mock).mockResolvedValueOnce(21);
+
+      // Act
+      const result = await listSites('user-1', { page: 3, limit: 10 });
+
+      // Assert
+      expect(result).toEqual({ sites: [{ id: 'site-3' }], total: 21 });
+      expect(prisma.site.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        select: siteFields,
+        orderBy: { createdAt: 'desc' },
+        skip: 20,
+        take: 10
+      });
+      expect(prisma.site.count).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    });
+
+    it('should only find sites of the user', async () => {
+      // Act
+      await getSite('user-1', 'site-1');
+      await findSiteByUrl('user-1', 'https://test-store.myshopify.com/cart');
+      await getSiteWithHistory('user-1', 'site-1');
+
+      // Assert
+      expect(prisma.site.findFirst).toHaveBeenNthCalledWith(1, { where: { id: 'site-1', userId: 'user-1' }, select: siteFields });
+      expect(prisma.site.findUnique).toHaveBeenCalledWith({
+        where: { userId_url: { userId: 'user-1', url: 'https://test-store.myshopify.com' } },
+        select: siteFields
+      });
+      expect(prisma.site.findFirst).toHaveBeenNthCalledWith(2, {
+        where: { id: 'site-1', userId: 'user-1' },
+        select: {
+          ...siteFields,
+          audits: {
+            select: { id: true, status: true, persona: true, score: true, createdAt: true, completedAt: true },
+            orderBy: { createdAt: 'desc' },
+            take: 20
+          }
+        }
+      });
+    });
+  });
+
+  describe('REFACTOR Phase: Updates and Deletion', () => {
+    it('should update sites of the user and return them', async () => {
+      // Arrange
+      (prisma.site.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+      (prisma.site.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'site-1', isActive: false });
+
+      // Act
+      const site = await updateSite('user-1', 'site-1', { isActive: false, settings: { excludePaths: ['/pages'] } });
+
+      // Assert
+      expect(site).toEqual({ id: 'site-1', isActive: false });
+      expect(prisma.site.updateMany).toHaveBeenCalledWith({
+        where: { id: 'site-1', userId: 'user-1' },
+        data: { isActive: false, settings: { excludePaths: ['/pages'] } }
+      });
+    });
+
+    it('should report missing sites on update and delete, and remove the screenshots of deleted audits', async () => {
+      // Arrange
+      (prisma.audit.findMany as jest.Mock).mockResolvedValueOnce([]).mockResolvedValueOnce([{ id: 'audit-1' }, { id: 'audit-2' }]);
+      (prisma.site.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+      (prisma.site.deleteMany as jest.Mock).mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+      // Act & Assert
+      await expect(updateSite('user-1', 'site-9', { name: 'Other' })).resolves.toBeNull();
+      await expect(deleteSite('user-1', 'site-9')).resolves.toBe(false);
+      await expect(deleteSite('user-1', 'site-1')).resolves.toBe(true);
+      expect(prisma.site.findFirst).not.toHaveBeenCalled();
+      expect(prisma.site.deleteMany).toHaveBeenCalledWith({ where: { id: 'site-1', userId: 'user-1' } });
+      expect(prisma.audit.findMany).toHaveBeenCalledWith({ where: { siteId: 'site-1', userId: 'user-1' }, select: { id: true } });
+      expect(removeAuditScreenshots).toHaveBeenCalledTimes(1);
+      expect(removeAuditScreenshots).toHaveBeenCalledWith(['audit-1', 'audit-2']);
+    });
+  });
+});
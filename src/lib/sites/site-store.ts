@@ -0,0 +1,122 @@
+/**
+ * Site persistence
+ * A store is registered once per user as a Site and every audit hangs off its
+ * site, so repeated audits of the same store form that site's history.
+ * Queries are scoped to the owning user; another user's site reads as missing.
+ */
+
+import { pageOffset } from '@/lib/api/pagination';
+import prisma from '@/lib/prisma';
+import type { AuditStatus, CreateSiteRequest, PaginationQuery, PersonaId, Site, UpdateSiteRequest } from '../../types';
+import { removeAuditScreenshots } from '../screenshots/screenshot-store';
+import { normalizeStoreUrl } from './storefront';
+
+export interface SiteAuditSummary {
+  id: string;
+  status: AuditStatus;
+  persona: PersonaId;
+  score: number | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export interface SiteWithHistory extends Site {
+  audits: SiteAuditSummary[]; // Most recent first
+}
+
+// Columns returned by the API; userId and updatedAt stay internal
+const SITE_FIELDS = {
+  id: true,
+  url: true,
+  name: true,
+  description: true,
+  settings: true,
+  isActive: true,
+  createdAt: true,
+  lastCrawledAt: true,
+} as const;
+
+// Audits listed with a site; older audits stay reachable through /api/report
+const HISTORY_LIMIT = 20;
+
+// Prisma's unique constraint violation, raised when a concurrent request registered the same store
+const UNIQUE_VIOLATION = 'P2002';
+
+export async function listSites(userId: string, query: PaginationQuery): Promise<{ sites: Site[]; total: number }> {
+  const [sites, total] = await Promise.all([
+    prisma.site.findMany({
+      where: { userId },
+      select: SITE_FIELDS,
+      orderBy: { createdAt: 'desc' },
+      skip: pageOffset(query),
+      take: query.limit,
+    }),
+    prisma.site.count({ where: { userId } }),
+  ]);
+  return { sites, total };
+}
+
+export async function getSite(userId: string, siteId: string): Promise<Site | null> {
+  return prisma.site.findFirst({ where: { id: siteId, userId }, select: SITE_FIELDS });
+}
+
+export async function getSiteWithHistory(userId: string, siteId: string): Promise<SiteWithHistory | null> {
+  return prisma.site.findFirst({
+    where: { id: siteId, userId },
+    select: {
+      ...SITE_FIELDS,
+      audits: {
+        select: { id: true, status: true, persona: true, score: true, createdAt: true, completedAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: HISTORY_LIMIT,
+      },
+    },
+  });
+}
+
+export async function findSiteByUrl(userId: string, url: string): Promise<Site | null> {
+  return prisma.site.findUnique({ where: { userId_url: { userId, url: normalizeStoreUrl(url) } }, select: SITE_FIELDS });
+}
+
+/**
+ * Register a store for the user; returns null when the user already has a site for it
+ */
+export async function createSite(userId: string, input: CreateSiteRequest): Promise<Site | null> {
+  try {
+    return await prisma.site.create({
+      data: {
+        userId,
+        url: normalizeStoreUrl(input.url),
+        settings: input.settings,
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.description !== undefined ? { description: input.description } : {}),
+      },
+      select: SITE_FIELDS,
+    });
+  } catch (error) {
+    if ((error as { code?: unknown }).code === UNIQUE_VIOLATION) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update a site's details; returns null when the user has no such site
+ */
+export async function updateSite(userId: string, siteId: string, input: UpdateSiteRequest): Promise<Site | null> {
+  const { count } = await prisma.site.updateMany({ where: { id: siteId, userId }, data: input });
+  return count === 0 ? null : getSite(userId, siteId);
+}
+
+/**
+ * Delete a site together with its audit history and their screenshots; false when the user has no such site
+ */
+export async function deleteSite(userId: string, siteId: string): Promise<boolean> {
+  const audits: { id: string }[] = await prisma.audit.findMany({ where: { siteId, userId }, select: { id: true } });
+  const { count } = await prisma.site.deleteMany({ where: { id: siteId, userId } });
+  if (count > 0) {
+    await removeAuditScreenshots(audits.map(audit => audit.id));
+  }
+  return count > 0;
+}
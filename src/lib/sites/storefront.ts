@@ -0,0 +1,54 @@
+/**
+ * Shopify storefront validation
+ * Sites must be Shopify storefronts. *.myshopify.com hosts are accepted as
+ * they are; custom domains are fetched once and accepted when the homepage
+ * carries Shopify's response headers or storefront markup.
+ */
+
+export interface StorefrontCheckOptions {
+  timeout?: number;
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_TIMEOUT = 10000;
+
+// Headers set by Shopify's edge on every storefront response
+const SHOPIFY_HEADERS = ['x-shopid', 'x-shopify-stage', 'x-storefront-renderer-rendered'];
+
+// Markup every Online Store theme renders through content_for_header
+const SHOPIFY_MARKERS = [/cdn\.shopify\.com/i, /\bShopify\.shop\s*=/, /\bmyshopify\.com\b/i];
+
+/**
+ * Reduce a store URL to the origin sites are keyed by
+ */
+export function normalizeStoreUrl(url: string): string {
+  return new URL(url).origin;
+}
+
+export function isMyshopifyHost(hostname: string): boolean {
+  return /\.myshopify\.com$/i.test(hostname);
+}
+
+export async function isShopifyStorefront(url: string, options: StorefrontCheckOptions = {}): Promise<boolean> {
+  const origin = normalizeStoreUrl(url);
+  if (isMyshopifyHost(new URL(origin).hostname)) {
+    return true;
+  }
+
+  const fetchImpl = options.fetch ?? fetch;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeout ?? DEFAULT_TIMEOUT);
+
+  try {
+    const response = await fetchImpl(`${origin}/`, { signal: controller.signal });
+    if (SHOPIFY_HEADERS.some(header => response.headers.has(header)) || /shopify/i.test(response.headers.get('powered-by') ?? '')) {
+      return true;
+    }
+    const html = await response.text();
+    return SHOPIFY_MARKERS.some(marker => marker.test(html));
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * TDD Test Suite for the Theme Archive Reader
+ * Zips are built in memory by the theme archive test helpers
+ */
+
+import { ThemeArchiveError } from '@/types';
+import { buildZip, dawnThemeFiles } from '@/test-utils/theme-archives';
+import { readThemeArchive } from '../archive';
+
+const minimalTheme = {
+  'layout/theme.liquid': '{{ content_for_layout }}',
+  'templates/index.json': '{"sections": {}, "order": []}'
+};
+
+// Offset of the first central directory entry, read from the end record
+const directoryOf = (archive: Buffer) => archive.readUInt32LE(archive.length - 22 + 16);
+
+const readError = (archive: Buffer): ThemeArchiveError => {
+  try {
+    readThemeArchive(archive);
+  } catch (error) {
+    return error as ThemeArchiveError;
+  }
+  throw new Error('Archive was read');
+};
+
+describe('Theme Archive Reader - TDD', () => {
+  describe('RED Phase: Invalid Archives', () => {
+    it('should reject files that are not zip archives', () => {
+      // Act
+      const error = readError(Buffer.from('PK not really a zip'));
+
+      // Assert
+      expect(error).toBeInstanceOf(ThemeArchiveError);
+      expect(error).toMatchObject({ code: 'INVALID_ARCHIVE', message: 'File is not a zip archive' });
+      expect(readError(Buffer.alloc(0)).code).toBe('INVALID_ARCHIVE');
+    });
+
+    it('should reject archives without a theme layout', () => {
+      // Act
+      const error = readError(buildZip({ 'README.md': '# Not a theme', '__MACOSX/layout/theme.liquid': '' }));
+
+      // Assert
+      expect(error).toMatchObject({ code: 'NOT_A_THEME', message: 'Archive is not a Shopify theme: layout/theme.liquid is missing' });
+    });
+
+    it('should reject encrypted entries and unknown compression methods', () => {
+      // Arrange
+      const unknownMethod = buildZip(minimalTheme, { deflate: false });
+      unknownMethod.writeUInt16LE(12, directoryOf(unknownMethod) + 10);
+
+      // Act & Assert
+      expect(readError(buildZip(minimalTheme, { flags: 0x1 })).message).toBe('layout/theme.liquid is encrypted');
+      expect(readError(unknownMethod).message).toBe('layout/theme.liquid uses an unsupported compression method');
+    });
+
+    it('should reject corrupt and truncated archives', () => {
+      // Arrange
+      const archive = buildZip(minimalTheme);
+      const directory = directoryOf(archive);
+      const brokenDirectory = Buffer.from(archive);
+      brokenDirectory.writeUInt32LE(0, directory);
+      const brokenLocal = Buffer.from(archive);
+      brokenLocal.writeUInt32LE(0, 0);
+      const brokenData = Buffer.from(archive);
+      brokenData.fill(0xff, 30 + 'layout/theme.liquid'.length, 32 + 'layout/theme.liquid'.length);
+      const truncated = Buffer.from(archive);
+      truncated.writeUInt32LE(archive.length, directory + 20);
+
+      // Act & Assert
+      expect(readError(brokenDirectory).message).toBe('Central directory is corrupt');
+      expect(readError(brokenLocal).message).toBe('layout/theme.liquid is corrupt');
+      expect(readError(brokenData).message).toBe('layout/theme.liquid is corrupt');
+      expect(readError(truncated).message).toBe('layout/theme.liquid is truncated');
+    });
+
+    it('should reject ZIP64 archives', () => {
+      // Arrange
+      const archive = buildZip(minimalTheme);
+      const zip64End = Buffer.from(archive);
+      zip64End.writeUInt32LE(0xffffffff, archive.length - 22 + 16);
+      const zip64Entry = Buffer.from(archive);
+      zip64Entry.writeUInt32LE(0xffffffff, directoryOf(archive) + 24);
+
+      // Act & Assert
+      expect(readError(zip64End).message).toBe('ZIP64 archives are not supported');
+      expect(readError(zip64Entry).message).toBe('ZIP64 archives are not supported');
+    });
+  });
+
+  describe('GREEN Phase: Theme Files', () => {
+    it('should keep the Liquid and JSON files of the theme', () => {
+      // Act
+      const files = readThemeArchive(buildZip(dawnThemeFiles));
+
+      // Assert
+      expect(Array.from(files.keys())).toEqual(
+        Object.keys(dawnThemeFiles).filter(path => !path.startsWith('assets/') && !path.startsWith('locales/'))
+      );
+      expect(files.get('snippets/price.liquid')).toBe(dawnThemeFiles['snippets/price.liquid']);
+    });
+
+    it('should read stored entries, archive comments and byte order marks', () => {
+      // Act
+      const files = readThemeArchive(buildZip({ ...minimalTheme, 'snippets/icon.liquid': '\uFEFF<svg></svg>' }, { deflate: false, comment: 'Exported' }));
+
+      // Assert
+      expect(files.get('snippets/icon.liquid')).toBe('<svg></svg>');
+      expect(files.get('templates/index.json')).toBe(minimalTheme['templates/index.json']);
+    });
+
+    it('should find the theme in a top-level folder', () => {
+      // Act
+      const files = readThemeArchive(buildZip({
+        '__MACOSX/dawn/layout/theme.liquid': 'resource fork',
+        'dawn/layout/theme.liquid': '{{ content_for_layout }}',
+        'dawn/sections/header.liquid': '<header></header>',
+        'other/sections/footer.liquid': '<footer></footer>',
+        'dawn/sections/': ''
+      }));
+
+      // Assert
+      expect(Array.from(files.keys())).toEqual(['layout/theme.liquid', 'sections/header.liquid']);
+    });
+  });
+
+  describe('REFACTOR Phase: Size Limits', () => {
+    it('should reject archives with too many entries', () => {
+      // Arrange
+      const archive = buildZip(minimalTheme);
+      archive.writeUInt16LE(5001, archive.length - 22 + 10);
+
+      // Act & Assert
+      expect(readError(archive)).toMatchObject({ code: 'TOO_LARGE', message: 'Archive has more than 5000 files' });
+    });
+
+    it('should reject oversized files before inflating them', () => {
+      // Arrange
+      const archive = buildZip(minimalTheme);
+      archive.writeUInt32LE(6 * 1024 * 1024, directoryOf(archive) + 24);
+
+      // Act & Assert
+      expect(readError(archive)).toMatchObject({ code: 'TOO_LARGE', message: 'layout/theme.liquid is larger than 5 MB' });
+    });
+
+    it('should reject themes whose files add up to more than the total limit', () => {
+      // Arrange
+      const big = 'x'.repeat(4 * 1024 * 1024);
+      const files = Object.fromEntries(Array.from({ length: 8 }, (_, index) => [`snippets/big-${index}.liquid`, big]));
+
+      // Act & Assert
+      expect(readError(buildZip({ ...minimalTheme, ...files }))).toMatchObject({
+        code: 'TOO_LARGE',
+        message: 'Theme files are larger than 30 MB'
+      });
+    });
+
+    it('should stop inflating past the declared size', () => {
+      // Arrange
+      const archive = buildZip(minimalTheme);
+      archive.writeUInt32LE(4, directoryOf(archive) + 24);
+
+      // Act & Assert
+      expect(readError(archive).message).toBe('layout/theme.liquid is corrupt');
+    });
+  });
+});
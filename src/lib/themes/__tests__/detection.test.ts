@@ -0,0 +1,128 @@
+/**
+ * TDD Test Suite for Theme Detection
+ * Shopify.theme settings and section wrappers read from crawled storefront HTML
+ */
+
+import { detectTheme } from '../detection';
+
+const themeScript = (settings: Record<string, unknown>) =>
+  `<script>var Shopify = Shopify || {};\nShopify.theme = ${JSON.stringify(settings)};\nShopify.theme.handle = "null";</script>`;
+
+const section = (id: string) => `<div id="shopify-section-${id}" class="shopify-section"></div>`;
+
+const dawnProduct = [
+  '<html><head>',
+  themeScript({ name: 'Linen Co (live)', id: 1234, schema_name: 'Dawn', schema_version: '15.0.0', theme_store_id: 887, role: 'main' }),
+  '</head><body>',
+  section('sections--1620__announcement-bar'),
+  section('sections--1620__header'),
+  section('template--1621__main'),
+  section('template--1621__related-products'),
+  section('template--1621__image_with_text_Xk3bVn'),
+  section('sections--1620__footer'),
+  '</body></html>',
+].join('\n');
+
+describe('Theme Detection - TDD', () => {
+  describe('RED Phase: Theme Settings', () => {
+    it('should read the theme and the theme it was installed from', () => {
+      // Act
+      const theme = detectTheme(dawnProduct, 'product');
+
+      // Assert
+      expect(theme).toMatchObject({
+        name: 'Linen Co (live)',
+        schemaName: 'Dawn',
+        schemaVersion: '15.0.0',
+        themeStoreId: 887,
+        family: 'dawn'
+      });
+    });
+
+    it('should return null for pages without a Shopify theme', () => {
+      // Act & Assert
+      expect(detectTheme('<html><body><div id="main"></div></body></html>')).toBeNull();
+    });
+
+    it('should ignore theme settings that cannot be read', () => {
+      // Act
+      const broken = detectTheme(`<script>Shopify.theme = {"name": "Oops",};</script>${section('header')}`);
+      const empty = detectTheme(`<script>Shopify.theme = {} ;</script>`);
+
+      // Assert
+      expect(broken).toMatchObject({ name: null, schemaName: null, schemaVersion: null, themeStoreId: null, family: 'vintage' });
+      expect(empty).toEqual({ name: null, schemaName: null, schemaVersion: null, themeStoreId: null, family: 'vintage', sections: [] });
+    });
+  });
+
+  describe('GREEN Phase: Families', () => {
+    it('should recognise themes built on Dawn, including renamed copies', () => {
+      // Act
+      const sense = detectTheme(themeScript({ name: 'Sense', schema_name: 'Sense', theme_store_id: 1356 }));
+      const renamed = detectTheme(themeScript({ name: 'Copy of My theme', schema_name: '', theme_store_id: 887 }));
+
+      // Assert
+      expect(sense!.family).toBe('dawn');
+      expect(renamed).toMatchObject({ name: 'Copy of My theme', schemaName: null, family: 'dawn' });
+    });
+
+    it('should tell other Online Store 2.0 themes from vintage ones by their section ids', () => {
+      // Act
+      const impulse = detectTheme(themeScript({ name: 'Impulse', schema_name: 'Impulse', theme_store_id: 857 }) + section('template--99__main'));
+      const debut = detectTheme(themeScript({ name: 'Debut', schema_name: 'Debut', theme_store_id: 796 }) + section('header'));
+
+      // Assert
+      expect(impulse!.family).toBe('os2');
+      expect(debut!.family).toBe('vintage');
+    });
+  });
+
+  describe('REFACTOR Phase: Section Files', () => {
+    it('should map section ids to their files in page order', () => {
+      // Act
+      const { sections } = detectTheme(dawnProduct, 'product')!;
+
+      // Assert
+      expect(sections).toEqual([
+        { id: 'sections--1620__announcement-bar', type: 'announcement-bar', file: 'sections/announcement-bar.liquid' },
+        { id: 'sections--1620__header', type: 'header', file: 'sections/header.liquid' },
+        { id: 'template--1621__main', type: 'main-product', file: 'sections/main-product.liquid' },
+        { id: 'template--1621__related-products', type: 'related-products', file: 'sections/related-products.liquid' },
+        { id: 'template--1621__image_with_text_Xk3bVn', type: 'image-with-text', file: 'sections/image-with-text.liquid' },
+        { id: 'sections--1620__footer', type: 'footer', file: 'sections/footer.liquid' }
+      ]);
+    });
+
+    it('should use the main section keys of collection and cart templates', () => {
+      // Arrange
+      const html = [section('template--5__banner'), section('template--5__product-grid'), section('template--6__cart-items')].join('');
+
+      // Act & Assert
+      expect(detectTheme(html, 'collection')!.sections.map(({ type }) => type)).toEqual([
+        'main-collection-banner',
+        'main-collection-product-grid',
+        'cart-items'
+      ]);
+      expect(detectTheme(html, 'cart')!.sections.map(({ type }) => type)).toEqual(['banner', 'product-grid', 'main-cart-items']);
+    });
+
+    it('should skip sections whose type cannot be told from the id', () => {
+      // Arrange
+      const html = [
+        section('1525295772132'),
+        section('16574420025548b1c3'),
+        section('template--7__main'),
+        `<div id='shopify-section-rich_text'></div>`,
+        section('header'),
+        section('header')
+      ].join('');
+
+      // Act
+      const theme = detectTheme(html, 'home')!;
+
+      // Assert
+      expect(theme.sections.map(({ id }) => id)).toEqual(['rich_text', 'header']);
+      expect(theme.family).toBe('os2');
+    });
+  });
+});
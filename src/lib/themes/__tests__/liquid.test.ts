@@ -0,0 +1,105 @@
+/**
+ * TDD Test Suite for Liquid Snippet Validation
+ * Liquid tag balance, HTML element balance and theme file paths of pasted snippets
+ */
+
+import { THEME_FILE_PATTERN, findSnippetProblems } from '../liquid';
+
+describe('Liquid Snippet Validation - TDD', () => {
+  describe('RED Phase: Liquid', () => {
+    it('should accept balanced blocks, branches and whitespace control', () => {
+      // Arrange
+      const snippet = [
+        '{%- if product.available -%}',
+        '  {% for variant in product.variants %}{{ variant.title | escape }}{% else %}None{% endfor %}',
+        '{%- elsif product.tags contains "soon" -%}',
+        '  {% case product.type %}{% when "Shirt" %}Shirt{% else %}Other{% endcase %}',
+        '{%- endif -%}',
+        '{% render "price", product: product %}{% # inline note %}',
+        '{% liquid\n  if true\n    echo "x"\n  endif\n%}'
+      ].join('\n');
+
+      // Act & Assert
+      expect(findSnippetProblems(snippet)).toEqual([]);
+      expect(findSnippetProblems('.product-form__buttons { gap: 1rem; }')).toEqual([]);
+    });
+
+    it('should report unterminated tags and outputs', () => {
+      // Act & Assert
+      expect(findSnippetProblems('<p>{{ product.title </p>')).toEqual(['{{ is never closed']);
+      expect(findSnippetProblems('{% if product.available')).toEqual(['{% is never closed']);
+      expect(findSnippetProblems('<p>{% 42 %}</p>')).toEqual(['{% 42 %} is not a Liquid tag']);
+    });
+
+    it('should report blocks that are not closed in order', () => {
+      // Act & Assert
+      expect(findSnippetProblems('{% if a %}{% for b in c %}{% endif %}{% endfor %}')).toEqual(['{% endif %} closes {% for %}']);
+      expect(findSnippetProblems('{% endunless %}')).toEqual(['{% endunless %} has no opening tag']);
+      expect(findSnippetProblems('{% form "product", product %}{% capture label %}Buy{% endcapture %}')).toEqual(['{% form %} is never closed']);
+      expect(findSnippetProblems('{% if a %}{% unless b %}')).toEqual(['{% unless %} is never closed', '{% if %} is never closed']);
+    });
+
+    it('should report branch tags outside of their block', () => {
+      // Act & Assert
+      expect(findSnippetProblems('{% else %}')).toEqual(['{% else %} is outside of {% if %}, {% unless %}, {% case %}, {% for %}']);
+      expect(findSnippetProblems('{% for a in b %}{% when 1 %}{% endfor %}')).toEqual(['{% when %} is outside of {% case %}']);
+    });
+  });
+
+  describe('GREEN Phase: Opaque Bodies', () => {
+    it('should not parse raw, comment, schema and style bodies', () => {
+      // Arrange
+      const snippet = [
+        '{% raw %}{{ not liquid {% if %}{% endraw %}',
+        '{%- comment -%}<div>{%- endcomment -%}',
+        '{% style %}.badge > span { color: red; }{% endstyle %}',
+        '{% schema %}{"name": "Badge", "settings": [{"type": "html", "default": "<div>"}]}{% endschema %}'
+      ].join('\n');
+
+      // Act & Assert
+      expect(findSnippetProblems(snippet)).toEqual([]);
+    });
+
+    it('should report opaque blocks that are never closed', () => {
+      // Act & Assert
+      expect(findSnippetProblems('{% schema %}{"name": "Badge"}')).toEqual(['{% schema %} is never closed']);
+    });
+  });
+
+  describe('REFACTOR Phase: HTML', () => {
+    it('should accept void, self-closed and optionally closed elements', () => {
+      // Arrange
+      const snippet = [
+        '<!-- trust badges --><ul class="badges"><li><img src="{{ \'badge.svg\' | asset_url }}" alt=""><li>Free returns</ul>',
+        '<svg viewBox="0 0 10 10"><path d="M0 0h10" /></svg><br>',
+        '<div {% if section.settings.full %}class="full"{% endif %}><p>Ships today</div>',
+        '<script>if (a < b && "</div>") {}</script><style>.a > .b {}</style>'
+      ].join('');
+
+      // Act & Assert
+      expect(findSnippetProblems(snippet)).toEqual([]);
+    });
+
+    it('should report elements that are never closed or closed out of order', () => {
+      // Act & Assert
+      expect(findSnippetProblems('<div class="badge"><span>{{ product.title }}</div>')).toEqual(['</div> closes <span>']);
+      expect(findSnippetProblems('<section><div><a href="/">Shop')).toEqual(['<a> is never closed', '<div> is never closed', '<section> is never closed']);
+      expect(findSnippetProblems('<p>Free returns</p></p>')).toEqual(['</p> has no opening tag']);
+      expect(findSnippetProblems('<script>alert(1)')).toEqual(['<script> is never closed']);
+    });
+
+    it('should ignore closing tags of void and raw text elements', () => {
+      // Act & Assert
+      expect(findSnippetProblems('<img src="a.png"></img></script>')).toEqual([]);
+    });
+
+    it('should match paths of theme files', () => {
+      // Act & Assert
+      expect(THEME_FILE_PATTERN.test('sections/main-product.liquid')).toBe(true);
+      expect(THEME_FILE_PATTERN.test('templates/customers/account.liquid')).toBe(true);
+      expect(THEME_FILE_PATTERN.test('assets/base.css')).toBe(true);
+      expect(THEME_FILE_PATTERN.test('Online Store > Themes')).toBe(false);
+      expect(THEME_FILE_PATTERN.test('sections/../config/settings_data.json')).toBe(false);
+    });
+  });
+});
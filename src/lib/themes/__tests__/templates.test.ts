@@ -0,0 +1,238 @@
+/**
+ * TDD Test Suite for Theme Templates
+ * Sections, theme info and static metrics read from the files of an uploaded theme
+ */
+
+import { dawnThemeFiles } from '@/test-utils/theme-archives';
+import { readThemeTemplates } from '../templates';
+
+const themeOf = (files: Record<string, string>) => new Map(Object.entries(files));
+
+const productTemplate = (blocks: Record<string, string>) => JSON.stringify({
+  sections: {
+    main: {
+      type: 'main-product',
+      blocks: Object.fromEntries(Object.entries(blocks).map(([id, type]) => [id, { type, settings: {} }]))
+    }
+  }
+});
+
+const dawnProduct = (blocks: Record<string, string>) =>
+  readThemeTemplates(themeOf({ ...dawnThemeFiles, 'templates/product.json': productTemplate(blocks) }))
+    .find(template => template.pageType === 'product')!.metrics.mainProduct;
+
+describe('Theme Templates - TDD', () => {
+  describe('RED Phase: Templates and Sections', () => {
+    it('should read the home, product and collection templates of a Dawn theme', () => {
+      // Act
+      const templates = readThemeTemplates(themeOf(dawnThemeFiles));
+
+      // Assert
+      expect(templates.map(({ path, pageType }) => [path, pageType])).toEqual([
+        ['templates/index.json', 'home'],
+        ['templates/product.json', 'product'],
+        ['templates/collection.json', 'collection']
+      ]);
+      expect(templates[0]!.source).toBe(dawnThemeFiles['templates/index.json']);
+      expect(templates[1]!.theme).toEqual({
+        name: 'Dawn',
+        schemaName: 'Dawn',
+        schemaVersion: '15.0.0',
+        themeStoreId: null,
+        family: 'dawn',
+        sections: [
+          { id: 'main', type: 'main-product', file: 'sections/main-product.liquid' },
+          { id: 'related', type: 'related-products', file: 'sections/related-products.liquid' }
+        ]
+      });
+    });
+
+    it('should prefer JSON templates, keep alternate ones and skip the unreadable', () => {
+      // Act
+      const templates = readThemeTemplates(themeOf({
+        ...dawnThemeFiles,
+        'templates/product.liquid': '{% section \'product-template\' %}',
+        'templates/product.gift-card.json': JSON.stringify({ sections: { main: { type: 'main-product' } }, order: ['main'] }),
+        'templates/cart.json': '{"sections": ',
+        'templates/page.contact.json': JSON.stringify({ sections: {} }),
+        'templates/collection.json': JSON.stringify({ order: ['main'] })
+      }));
+
+      // Assert
+      expect(templates.map(({ path }) => path)).toEqual(['templates/index.json', 'templates/product.gift-card.json', 'templates/product.json']);
+    });
+
+    it('should leave out disabled sections and blocks and follow nested blocks', () => {
+      // Act
+      const [home] = readThemeTemplates(themeOf({
+        'layout/theme.liquid': '{{ content_for_layout }}',
+        'templates/index.json': JSON.stringify({
+          sections: {
+            announcement: { type: 'announcement', disabled: true },
+            broken: { settings: {} },
+            hero: {
+              type: 'hero',
+              blocks: {
+                group: { type: 'group', blocks: { cta: { type: 'button', settings: { label: 'Ignored', cta_text: 'Explore' } } } },
+                hidden: { type: 'button', disabled: true, settings: { cta_text: 'Hidden' } },
+                unknown: { settings: { cta_text: 'Typeless' } }
+              }
+            }
+          },
+          order: ['announcement', 'broken', 'hero']
+        })
+      }));
+
+      // Assert
+      expect(home!.theme.sections.map(({ id }) => id)).toEqual(['hero']);
+      expect(home!.metrics.hero).toEqual({ sectionId: 'hero', file: 'sections/hero.liquid', ctaLabels: ['Explore'] });
+      expect(home!.theme).toMatchObject({ name: null, schemaVersion: null, family: 'os2' });
+    });
+
+    it('should read vintage templates with their settings from settings_data.json', () => {
+      // Act
+      const templates = readThemeTemplates(themeOf({
+        'layout/theme.liquid': '{{ content_for_layout }}',
+        'config/settings_schema.json': JSON.stringify([{ name: 'theme_info', theme_name: 'Debut', theme_version: '' }]),
+        'config/settings_data.json': JSON.stringify({
+          current: {
+            content_for_index: ['1525295772132', 'hidden'],
+            sections: {
+              '1525295772132': { type: 'slideshow', blocks: { slide: { type: 'image', settings: { button_label: 'Shop now' } } }, block_order: ['slide'] },
+              hidden: { type: 'text', disabled: true },
+              'product-template': { settings: { show_vendor: true } }
+            }
+          }
+        }),
+        'templates/index.liquid': '<img src="{{ \'hero.jpg\' | asset_url }}">\n{{ content_for_index }}',
+        'templates/product.liquid': '{%- section \'product-template\' -%}\n{% section "product-recommendations" %}',
+        'sections/product-template.liquid': '<p>{{ current_variant.price | money_with_currency }}</p>'
+      }));
+
+      // Assert
+      expect(templates.map(({ theme }) => theme.sections.map(({ id, type }) => `${id}:${type}`))).toEqual([
+        ['1525295772132:slideshow'],
+        ['product-template:product-template', 'product-recommendations:product-recommendations']
+      ]);
+      expect(templates[0]!.theme).toMatchObject({ name: 'Debut', schemaVersion: null, family: 'vintage' });
+      expect(templates[0]!.metrics.hero!.ctaLabels).toEqual(['Shop now']);
+      expect(templates[0]!.metrics.images.missingAlt).toEqual([
+        { selector: 'img', attribute: 'alt', value: null, file: 'templates/index.liquid', line: 1 }
+      ]);
+      expect(templates[1]!.metrics.mainProduct).toMatchObject({ sectionId: 'product-template', rendersPrice: true, rendersReviews: false });
+    });
+
+    it('should read the current preset by name and survive broken config files', () => {
+      // Act
+      const [preset] = readThemeTemplates(themeOf({
+        'config/settings_data.json': JSON.stringify({ current: 'Bold', presets: { Bold: { content_for_index: ['hero'], sections: { hero: { type: 'hero' } } } } }),
+        'templates/index.liquid': '{{ content_for_index }}'
+      }));
+      const [broken] = readThemeTemplates(themeOf({
+        'config/settings_schema.json': '{"name": "theme_info"}',
+        'config/settings_data.json': '[',
+        'templates/index.liquid': '{{- content_for_index -}}'
+      }));
+
+      // Assert
+      expect(preset!.theme.sections).toEqual([{ id: 'hero', type: 'hero', file: 'sections/hero.liquid' }]);
+      expect(broken!.theme.sections).toEqual([]);
+      expect(broken!.metrics.hero).toBeNull();
+    });
+  });
+
+  describe('GREEN Phase: Hero and Product Metrics', () => {
+    it('should read the hero buttons and the product price and reviews of a Dawn theme', () => {
+      // Act
+      const [home, product, collection] = readThemeTemplates(themeOf(dawnThemeFiles));
+
+      // Assert
+      expect(home!.metrics.hero).toEqual({ sectionId: 'image_banner', file: 'sections/image-banner.liquid', ctaLabels: ['Shop all'] });
+      expect(home!.metrics.mainProduct).toBeNull();
+      expect(product!.metrics.hero).toBeNull();
+      expect(product!.metrics.mainProduct).toEqual({
+        sectionId: 'main',
+        file: 'sections/main-product.liquid',
+        rendersPrice: true,
+        rendersReviews: true,
+        reviewApp: 'judgeme'
+      });
+      expect(collection!.metrics.mainProduct).toBeNull();
+    });
+
+    it('should only count block-driven prices and ratings when the template has the block', () => {
+      // Act
+      const bare = dawnProduct({ title: 'title' });
+      const rated = dawnProduct({ price: 'price', rating: 'rating' });
+
+      // Assert
+      expect(bare).toMatchObject({ rendersPrice: false, rendersReviews: false, reviewApp: null });
+      expect(rated).toMatchObject({ rendersPrice: true, rendersReviews: true, reviewApp: null });
+    });
+
+    it('should read prices, review apps and buttons written in the section code', () => {
+      // Act
+      const [home, product] = readThemeTemplates(themeOf({
+        'templates/index.json': JSON.stringify({ sections: { hero: { type: 'custom-hero' } } }),
+        'templates/product.json': JSON.stringify({ sections: { main: { type: 'product' }, reviews: { type: 'product-reviews' } } }),
+        'sections/custom-hero.liquid': '<div class="hero"><a href="/collections/all" class="btn btn--large"> Shop the sale </a><a class="link">More</a></div>',
+        'sections/product.liquid': '<span>{{ product.price | money }}</span>{% render \'okendo-reviews-product-rating-summary\' %}'
+      }));
+
+      // Assert
+      expect(home!.metrics.hero!.ctaLabels).toEqual(['Shop the sale']);
+      expect(product!.metrics.mainProduct).toEqual({
+        sectionId: 'main',
+        file: 'sections/product.liquid',
+        rendersPrice: true,
+        rendersReviews: true,
+        reviewApp: 'okendo'
+      });
+    });
+
+    it('should leave product metrics empty without a main product section', () => {
+      // Act
+      const [product] = readThemeTemplates(themeOf({
+        'templates/product.json': JSON.stringify({ sections: { recommendations: { type: 'product-recommendations' } } })
+      }));
+
+      // Assert
+      expect(product!.metrics.mainProduct).toBeNull();
+    });
+  });
+
+  describe('REFACTOR Phase: Image Alt Text', () => {
+    it('should count <img> tags in the sections, blocks and snippets of each template', () => {
+      // Act
+      const [home, product, collection] = readThemeTemplates(themeOf(dawnThemeFiles));
+
+      // Assert
+      expect(home!.metrics.images).toEqual({ total: 1, withAlt: 1, missingAlt: [] });
+      expect(product!.metrics.images).toEqual({
+        total: 2,
+        withAlt: 1,
+        missingAlt: [{ selector: 'img.product__badge', attribute: 'alt', value: null, file: 'snippets/product-thumbnail.liquid', line: 2 }]
+      });
+      expect(collection!.metrics.images).toEqual({ total: 1, withAlt: 1, missingAlt: [] });
+    });
+
+    it('should follow theme blocks and static blocks, skip hidden images and cap the list', () => {
+      // Arrange
+      const images = Array.from({ length: 25 }, (_, index) => `<img src="{{ 'icon-${index}.svg' | asset_url }}">`).join('\n');
+
+      // Act
+      const [home] = readThemeTemplates(themeOf({
+        'templates/index.json': JSON.stringify({ sections: { hero: { type: 'hero', blocks: { logo: { type: 'logo' } } } } }),
+        'sections/hero.liquid': '{% content_for \'blocks\' %}{% content_for \'block\', type: "icons", id: "icons" %}{% render \'missing\' %}',
+        'blocks/logo.liquid': '{%- # <img src="commented.png"> -%}<img src="logo.png" {% if block.settings.alt != blank %}alt="{{ block.settings.alt }}"{% endif %} width="120"><img src="divider.png" aria-hidden="true"><img src="x.png" role="presentation">',
+        'blocks/icons.liquid': `<!-- <img src="old.png"> -->\n${images}`
+      }));
+
+      // Assert
+      expect(home!.metrics.images.total).toBe(26);
+      expect(home!.metrics.images.withAlt).toBe(1);
+      expect(home!.metrics.images.missingAlt).toHaveLength(20);
+      expect(home!.metrics.images.missingAlt[0]).toEqual({ selector: 'img', attribute: 'alt', value: null, file: 'blocks/icons.liquid', line: 2 });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * TDD Test Suite for Theme Template Persistence
+ * Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import type { ThemeTemplateMetrics } from '@/types';
+import { loadThemePages, saveThemeTemplate } from '../theme-results';
+
+const theme = {
+  name: 'Dawn',
+  schemaName: 'Dawn',
+  schemaVersion: '15.0.0',
+  themeStoreId: null,
+  family: 'dawn' as const,
+  sections: [{ id: 'main', type: 'main-product', file: 'sections/main-product.liquid' }]
+};
+
+const metrics: ThemeTemplateMetrics = {
+  hero: null,
+  mainProduct: { sectionId: 'main', file: 'sections/main-product.liquid', rendersPrice: true, rendersReviews: false, reviewApp: null },
+  images: { total: 1, withAlt: 1, missingAlt: [] }
+};
+
+describe('Theme Template Persistence - TDD', () => {
+  describe('RED Phase: Save', () => {
+    it('should store a template as a crawl result with its theme and metrics', async () => {
+      // Arrange
+      (prisma.crawlResult.create as jest.Mock).mockResolvedValueOnce({ id: 'page-1' });
+
+      // Act
+      const saved = await saveThemeTemplate('audit-1', {
+        path: 'templates/product.json',
+        pageType: 'product',
+        source: '{"sections": {}}',
+        theme,
+        metrics
+      });
+
+      // Assert
+      expect(saved).toEqual({ id: 'page-1' });
+      expect(prisma.crawlResult.create).toHaveBeenCalledWith({
+        data: {
+          auditId: 'audit-1',
+          url: 'templates/product.json',
+          pageType: 'product',
+          html: '{"sections": {}}',
+          metadata: { source: 'theme', theme, templateMetrics: metrics }
+        }
+      });
+    });
+  });
+
+  describe('GREEN Phase: Load', () => {
+    it('should load the templates of an audit as theme pages', async () => {
+      // Arrange
+      (prisma.crawlResult.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'page-1', url: 'templates/product.json', pageType: 'product', metadata: { source: 'theme', theme, templateMetrics: metrics } }
+      ]);
+
+      // Act
+      const pages = await loadThemePages('audit-1');
+
+      // Assert
+      expect(pages).toEqual([
+        { id: 'page-1', crawlId: 'audit-1', url: 'templates/product.json', type: 'product', metrics, theme }
+      ]);
+      expect(prisma.crawlResult.findMany).toHaveBeenCalledWith({
+        where: { auditId: 'audit-1' },
+        orderBy: [{ crawledAt: 'asc' }, { id: 'asc' }],
+        select: { id: true, url: true, pageType: true, metadata: true }
+      });
+    });
+
+    it('should refuse crawl results that were not saved from a theme', async () => {
+      // Arrange
+      (prisma.crawlResult.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'page-1', url: 'https://test-store.myshopify.com/', pageType: 'home', metadata: null }
+      ]);
+
+      // Act & Assert
+      await expect(loadThemePages('audit-1')).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * TDD Test Suite for Theme Heuristic Rules
+ * The live rules only lend their metadata and the engine is covered by its own
+ * tests, so both are replaced by stand-ins here
+ */
+
+import type { ThemePage, ThemeTemplateMetrics } from '@/types';
+import { HeuristicEngine } from '../../heuristics/engine';
+import {
+  ThemeAltTextCoverageRule,
+  ThemeHeroCTARule,
+  ThemePriceDisplayRule,
+  ThemeSocialProofRule,
+  createThemeEngine
+} from '../theme-rules';
+
+jest.mock('../../heuristics/hero-cta', () => ({
+  HeroCTARule: jest.fn(() => ({ ruleId: 'hero_cta_detection', maxScore: 15, name: 'Hero CTA Presence', category: 'conversion' }))
+}));
+
+jest.mock('../../heuristics/product-page', () => ({
+  PriceDisplayRule: jest.fn(() => ({ ruleId: 'price_display', maxScore: 12, name: 'Price Display on PDP', category: 'conversion' }))
+}));
+
+jest.mock('../../heuristics/social-proof', () => ({
+  SocialProofRule: jest.fn(() => ({ ruleId: 'social_proof', maxScore: 10, name: 'Social Proof Present', category: 'trust' }))
+}));
+
+jest.mock('../../heuristics/accessibility', () => ({
+  AltTextCoverageRule: jest.fn(() => ({ ruleId: 'alt_text_coverage', maxScore: 5, name: 'Alt Text Coverage', category: 'accessibility' }))
+}));
+
+jest.mock('../../heuristics/engine', () => ({
+  HeuristicEngine: jest.fn()
+}));
+
+const mainProduct = { sectionId: 'main', file: 'sections/main-product.liquid', rendersPrice: true, rendersReviews: true, reviewApp: 'judgeme' as const };
+
+const themePage = (type: ThemePage['type'], metrics: Partial<ThemeTemplateMetrics> = {}): ThemePage => ({
+  id: `page-${type}`,
+  crawlId: 'audit-1',
+  url: type === 'home' ? 'templates/index.json' : `templates/${type}.json`,
+  type,
+  metrics: { hero: null, mainProduct: null, images: { total: 0, withAlt: 0, missingAlt: [] }, ...metrics },
+  theme: { name: 'Dawn', schemaName: 'Dawn', schemaVersion: '15.0.0', themeStoreId: null, family: 'dawn', sections: [] }
+});
+
+describe('Theme Heuristic Rules - TDD', () => {
+  describe('RED Phase: Shared Metadata', () => {
+    it('should score under the ids, weights and categories of the live rules', () => {
+      // Act
+      const rules = [new ThemeHeroCTARule(), new ThemePriceDisplayRule(), new ThemeSocialProofRule(), new ThemeAltTextCoverageRule()];
+
+      // Assert
+      expect(rules.map(({ ruleId, maxScore, category }) => [ruleId, maxScore, category])).toEqual([
+        ['hero_cta_detection', 15, 'conversion'],
+        ['price_display', 12, 'conversion'],
+        ['social_proof', 10, 'trust'],
+        ['alt_text_coverage', 5, 'accessibility']
+      ]);
+      expect(rules.map(rule => 'pageTypes' in rule ? rule.pageTypes : undefined)).toEqual([['home'], ['product'], ['product'], undefined]);
+    });
+
+    it('should register every theme rule on a new engine', () => {
+      // Arrange
+      const engine = { register: jest.fn().mockReturnThis() };
+      (HeuristicEngine as unknown as jest.Mock).mockImplementationOnce(() => engine);
+
+      // Act
+      const created = createThemeEngine();
+
+      // Assert
+      expect(created).toBe(engine);
+      expect(engine.register.mock.calls.map(([rule]) => rule.constructor.name)).toEqual([
+        'ThemeHeroCTARule',
+        'ThemePriceDisplayRule',
+        'ThemeSocialProofRule',
+        'ThemeAltTextCoverageRule'
+      ]);
+    });
+  });
+
+  describe('GREEN Phase: Conversion and Trust', () => {
+    it('should pass home templates whose hero has a button label', () => {
+      // Act
+      const result = new ThemeHeroCTARule().analyze(themePage('home', {
+        hero: { sectionId: 'image_banner', file: 'sections/image-banner.liquid', ctaLabels: ['Shop all'] }
+      }));
+
+      // Assert
+      expect(result).toEqual({ passed: true, score: 15, finding: null });
+    });
+
+    it('should raise hero_cta_missing with the hero file, or the template when it is empty', () => {
+      // Act
+      const unlabeled = new ThemeHeroCTARule().analyze(themePage('home', {
+        hero: { sectionId: 'image_banner', file: 'sections/image-banner.liquid', ctaLabels: [] }
+      }));
+      const empty = new ThemeHeroCTARule().analyze(themePage('home'));
+
+      // Assert
+      expect(unlabeled.score).toBe(0);
+      expect(unlabeled.finding).toMatchObject({
+        pageId: 'page-home',
+        ruleId: 'hero_cta_missing',
+        severity: 'high',
+        evidence: { ctaCount: 0, pageType: 'home', file: 'sections/image-banner.liquid', sectionId: 'image_banner' }
+      });
+      expect(empty.finding!.evidence).toEqual({ ctaCount: 0, pageType: 'home', file: 'templates/index.json', sectionId: null });
+    });
+
+    it('should raise price_missing when the main product section renders no price', () => {
+      // Act
+      const priced = new ThemePriceDisplayRule().analyze(themePage('product', { mainProduct }));
+      const unpriced = new ThemePriceDisplayRule().analyze(themePage('product', { mainProduct: { ...mainProduct, rendersPrice: false } }));
+
+      // Assert
+      expect(priced).toEqual({ passed: true, score: 12, finding: null });
+      expect(unpriced.finding).toMatchObject({
+        ruleId: 'price_missing',
+        severity: 'high',
+        evidence: { priceCount: 0, file: 'sections/main-product.liquid', sectionId: 'main' }
+      });
+    });
+
+    it('should raise social_proof_missing when the main product section renders no rating', () => {
+      // Act
+      const rated = new ThemeSocialProofRule().analyze(themePage('product', { mainProduct }));
+      const unrated = new ThemeSocialProofRule().analyze(themePage('product', {
+        mainProduct: { ...mainProduct, rendersReviews: false, reviewApp: null }
+      }));
+
+      // Assert
+      expect(rated.passed).toBe(true);
+      expect(unrated.finding).toMatchObject({
+        ruleId: 'social_proof_missing',
+        severity: 'med',
+        evidence: { app: null, appName: null, configurationHint: null, file: 'sections/main-product.liquid', sectionId: 'main' }
+      });
+    });
+
+    it('should skip product rules without a main product section', () => {
+      // Act & Assert
+      expect(new ThemePriceDisplayRule().analyze(themePage('product'))).toMatchObject({ skipped: true, reason: 'Template has no main product section' });
+      expect(new ThemeSocialProofRule().analyze(themePage('product')).skipped).toBe(true);
+    });
+  });
+
+  describe('REFACTOR Phase: Accessibility', () => {
+    const missing = { selector: 'img.product__badge', attribute: 'alt', value: null, file: 'snippets/product-thumbnail.liquid', line: 2 };
+
+    it('should score alt text coverage like the live rule', () => {
+      // Act
+      const few = new ThemeAltTextCoverageRule().analyze(themePage('product', { images: { total: 4, withAlt: 3, missingAlt: [missing] } }));
+      const most = new ThemeAltTextCoverageRule().analyze(themePage('collection', { images: { total: 2, withAlt: 1, missingAlt: [missing] } }));
+
+      // Assert
+      expect(few.score).toBe(3);
+      expect(few.finding).toMatchObject({
+        ruleId: 'alt_text_missing',
+        severity: 'low',
+        evidence: { imageCount: 4, missingCount: 1, coverage: 75, elements: [missing] }
+      });
+      expect(most.finding!.severity).toBe('med');
+    });
+
+    it('should pass templates whose images all have alt text and skip those without images', () => {
+      // Act & Assert
+      expect(new ThemeAltTextCoverageRule().analyze(themePage('cart', { images: { total: 3, withAlt: 3, missingAlt: [] } })).score).toBe(5);
+      expect(new ThemeAltTextCoverageRule().analyze(themePage('cart'))).toMatchObject({ skipped: true, reason: 'Template code has no <img> tags' });
+    });
+  });
+});
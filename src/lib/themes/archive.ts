@@ -0,0 +1,162 @@
+/**
+ * Theme archive reader
+ * Unpacks the Liquid and JSON files of a theme zip, as downloaded from
+ * Online Store > Themes > Download theme file or packaged by the Shopify CLI.
+ *
+ * - Reads the zip central directory; entries are stored or deflated. ZIP64
+ *   and encrypted archives are rejected, and checksums are not verified
+ * - The theme root is the folder holding layout/theme.liquid, so archives
+ *   that wrap the theme in a top-level folder are accepted
+ * - Only layout, templates, sections, snippets, blocks and config files are
+ *   kept; assets and locales are never inflated
+ * - Entry count, file size and total size are capped before inflating, so a
+ *   zip bomb fails with TOO_LARGE instead of filling memory
+ */
+
+import { inflateRawSync } from 'zlib';
+import { ThemeArchiveError } from '../../types';
+
+// Theme file path → file content, paths relative to the theme root
+export type ThemeFiles = Map<string, string>;
+
+// Largest archive accepted for upload; assets included, themes rarely exceed it
+export const MAX_THEME_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+const MAX_ENTRIES = 5000;
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 30 * 1024 * 1024;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+const ENCRYPTED_FLAG = 0x1;
+
+const THEME_LAYOUT = 'layout/theme.liquid';
+const THEME_FILE = /^(?:layout|templates(?:\/customers)?|sections|snippets|blocks|config)\/[\w.-]+\.(?:liquid|json)$/;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Theme files of a zip archive. Throws ThemeArchiveError when the archive
+ * cannot be read, is not a theme, or is too large.
+ */
+export function readThemeArchive(archive: Buffer): ThemeFiles {
+  const entries = readCentralDirectory(archive);
+  const layout = entries
+    .filter(entry => !entry.name.startsWith('__MACOSX/') && (entry.name === THEME_LAYOUT || entry.name.endsWith(`/${THEME_LAYOUT}`)))
+    .sort((a, b) => a.name.length - b.name.length)[0];
+  if (!layout) {
+    throw new ThemeArchiveError(`Archive is not a Shopify theme: ${THEME_LAYOUT} is missing`, 'NOT_A_THEME');
+  }
+  const root = layout.name.slice(0, -THEME_LAYOUT.length);
+
+  const files: ThemeFiles = new Map();
+  let totalBytes = 0;
+  for (const entry of entries) {
+    const path = entry.name.slice(root.length);
+    if (!entry.name.startsWith(root) || !THEME_FILE.test(path)) {
+      continue;
+    }
+    if (entry.size > MAX_FILE_BYTES) {
+      throw new ThemeArchiveError(`${path} is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB`, 'TOO_LARGE');
+    }
+    totalBytes += entry.size;
+    if (totalBytes > MAX_TOTAL_BYTES) {
+      throw new ThemeArchiveError(`Theme files are larger than ${MAX_TOTAL_BYTES / 1024 / 1024} MB`, 'TOO_LARGE');
+    }
+    files.set(path, readEntry(archive, entry).toString('utf8').replace(/^\uFEFF/, ''));
+  }
+  return files;
+}
+
+// Private helper methods for cleaner code organization
+
+function readCentralDirectory(archive: Buffer): ZipEntry[] {
+  const end = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  const directoryOffset = archive.readUInt32LE(end + 16);
+  if (count > MAX_ENTRIES) {
+    throw new ThemeArchiveError(`Archive has more than ${MAX_ENTRIES} files`, 'TOO_LARGE');
+  }
+  if (directoryOffset === ZIP64_MARKER) {
+    throw invalidArchive('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  let position = directoryOffset;
+  for (let index = 0; index < count; index++) {
+    if (position + 46 > archive.length || archive.readUInt32LE(position) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw invalidArchive('Central directory is corrupt');
+    }
+    const nameLength = archive.readUInt16LE(position + 28);
+    const entry: ZipEntry = {
+      name: archive.toString('utf8', position + 46, position + 46 + nameLength),
+      flags: archive.readUInt16LE(position + 8),
+      method: archive.readUInt16LE(position + 10),
+      compressedSize: archive.readUInt32LE(position + 20),
+      size: archive.readUInt32LE(position + 24),
+      offset: archive.readUInt32LE(position + 42),
+    };
+    if (entry.compressedSize === ZIP64_MARKER || entry.size === ZIP64_MARKER || entry.offset === ZIP64_MARKER) {
+      throw invalidArchive('ZIP64 archives are not supported');
+    }
+    entries.push(entry);
+    position += 46 + nameLength + archive.readUInt16LE(position + 30) + archive.readUInt16LE(position + 32);
+  }
+  return entries;
+}
+
+// The record sits at the very end, unless the archive carries a comment
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const last = archive.length - END_OF_CENTRAL_DIRECTORY_SIZE;
+  for (let position = last; position >= Math.max(0, last - MAX_COMMENT_SIZE); position--) {
+    if (archive.readUInt32LE(position) === END_OF_CENTRAL_DIRECTORY) {
+      return position;
+    }
+  }
+  throw invalidArchive('File is not a zip archive');
+}
+
+function readEntry(archive: Buffer, entry: ZipEntry): Buffer {
+  if (entry.flags & ENCRYPTED_FLAG) {
+    throw invalidArchive(`${entry.name} is encrypted`);
+  }
+  if (entry.offset + 30 > archive.length || archive.readUInt32LE(entry.offset) !== LOCAL_FILE_HEADER) {
+    throw invalidArchive(`${entry.name} is corrupt`);
+  }
+  const start = entry.offset + 30 + archive.readUInt16LE(entry.offset + 26) + archive.readUInt16LE(entry.offset + 28);
+  const data = archive.subarray(start, start + entry.compressedSize);
+  if (data.length !== entry.compressedSize) {
+    throw invalidArchive(`${entry.name} is truncated`);
+  }
+
+  if (entry.method === STORED) {
+    return data;
+  }
+  if (entry.method !== DEFLATED) {
+    throw invalidArchive(`${entry.name} uses an unsupported compression method`);
+  }
+  try {
+    // The declared size is not trusted: inflating stops past it
+    return inflateRawSync(data, { maxOutputLength: Math.max(entry.size, 1) });
+  } catch {
+    throw invalidArchive(`${entry.name} is corrupt`);
+  }
+}
+
+function invalidArchive(message: string): ThemeArchiveError {
+  return new ThemeArchiveError(message, 'INVALID_ARCHIVE');
+}
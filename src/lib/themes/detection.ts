@@ -0,0 +1,107 @@
+/**
+ * Theme detection
+ * Works out which Shopify theme rendered a storefront page and which section
+ * files make up the page, so recommendations can name the file to edit.
+ *
+ * - Shopify.theme, printed by content_for_header, gives the theme name and the
+ *   theme it was installed from (schema_name, e.g. Dawn for a renamed copy)
+ * - Section wrappers (`<div id="shopify-section-…">`) give the sections; JSON
+ *   template sections (`template--<id>__<key>`) and section groups
+ *   (`sections--<id>__<key>`) only exist on Online Store 2.0 themes
+ *
+ * The section type is guessed from its key, which the theme editor derives from
+ * the type (image_banner → image-banner); main template sections use the
+ * conventional Dawn keys. Keys that say nothing about the type are skipped.
+ */
+
+import type { PageType, ThemeFamily, ThemeInfo } from '../../types';
+
+// Free Shopify themes built on Dawn, by schema_name
+export const DAWN_FAMILY = new Set([
+  'Dawn', 'Colorblock', 'Craft', 'Crave', 'Origin', 'Publisher', 'Refresh', 'Ride', 'Sense', 'Spotlight', 'Studio', 'Taste', 'Trade',
+]);
+
+const DAWN_THEME_STORE_ID = 887;
+
+// Keys of the main sections in the JSON templates of Dawn and most 2.0 themes
+const MAIN_SECTION_TYPES: Partial<Record<PageType, Record<string, string>>> = {
+  product: { main: 'main-product' },
+  collection: { banner: 'main-collection-banner', 'product-grid': 'main-collection-product-grid', main: 'main-collection-product-grid' },
+  cart: { 'cart-items': 'main-cart-items', 'cart-footer': 'main-cart-footer', main: 'main-cart-items' },
+};
+
+const SECTION_ID_PATTERN = /\sid\s*=\s*["']shopify-section-([^"']+)["']/g;
+
+const THEME_PATTERN = /Shopify\.theme\s*=\s*(\{[\s\S]*?\})\s*;/;
+
+/**
+ * Theme of a crawled page, or null when the HTML shows no sign of a Shopify theme
+ */
+export function detectTheme(html: string, pageType?: PageType): ThemeInfo | null {
+  const settings = readThemeSettings(html);
+  const ids = [...new Set([...html.matchAll(SECTION_ID_PATTERN)].map(match => match[1]!))];
+  if (!settings && ids.length === 0) {
+    return null;
+  }
+
+  const schemaName = stringOrNull(settings?.schema_name);
+  const themeStoreId = typeof settings?.theme_store_id === 'number' ? settings.theme_store_id : null;
+  const onlineStore2 = ids.some(id => /^(?:template|sections)--/.test(id));
+
+  return {
+    name: stringOrNull(settings?.name),
+    schemaName,
+    schemaVersion: stringOrNull(settings?.schema_version),
+    themeStoreId,
+    family: familyOf(schemaName, themeStoreId, onlineStore2),
+    sections: ids.flatMap(id => {
+      const type = sectionType(id, pageType);
+      return type ? [{ id, type, file: `sections/${type}.liquid` }] : [];
+    }),
+  };
+}
+
+/**
+ * Family of a theme, from the theme it was installed from and whether it uses JSON templates
+ */
+export function familyOf(schemaName: string | null, themeStoreId: number | null, onlineStore2: boolean): ThemeFamily {
+  if ((schemaName && DAWN_FAMILY.has(schemaName)) || themeStoreId === DAWN_THEME_STORE_ID) {
+    return 'dawn';
+  }
+  return onlineStore2 ? 'os2' : 'vintage';
+}
+
+// Private helper methods for cleaner code organization
+
+function readThemeSettings(html: string): Record<string, unknown> | null {
+  const json = html.match(THEME_PATTERN)?.[1];
+  if (!json) {
+    return null;
+  }
+  try {
+    return JSON.parse(json) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+function sectionType(id: string, pageType: PageType | undefined): string | null {
+  const grouped = id.match(/^(?:template|sections)--[^_]+__(.+)$/);
+  const key = grouped ? grouped[1]! : id;
+  const main = pageType ? MAIN_SECTION_TYPES[pageType]?.[key] : undefined;
+  if (main) {
+    return main;
+  }
+
+  // Keys added in the theme editor can end with a random suffix (image_banner_kX3bVn)
+  const base = key.replace(/_(?=[A-Za-z0-9]*[A-Z0-9])[A-Za-z0-9]{6}$/, '');
+  // Numeric keys of vintage homepage sections, and the bare main key outside known templates
+  if (/^[\d-]+$|^[\da-f]{16,}$/.test(base) || base === 'main') {
+    return null;
+  }
+  return base.toLowerCase().replace(/_/g, '-');
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value : null;
+}
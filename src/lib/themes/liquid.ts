@@ -0,0 +1,157 @@
+/**
+ * Liquid snippet validation
+ * Checks that a code snippet written for the merchant would render once pasted
+ * into a theme file, so broken answers are re-asked instead of saved.
+ *
+ * - Liquid: `{{ … }}` and `{% … %}` are terminated, block tags (if, for, form…)
+ *   are closed in order and branch tags (else, when…) sit inside their block;
+ *   raw, comment, schema, style and javascript bodies are not parsed further
+ * - HTML, once the Liquid is removed: every non-void element is closed in order.
+ *   Elements whose end tag HTML allows to omit (li, p, td…) may stay open, and
+ *   script and style bodies are skipped
+ *
+ * HTML is checked as one document, so markup split across the branches of a
+ * Liquid condition (an opening tag in each branch) is reported as unbalanced.
+ */
+
+// Pasted into the files of a theme, relative to its root
+export const THEME_FILE_PATTERN = /^(?:assets|blocks|config|layout|locales|sections|snippets|templates(?:\/customers)?)\/[\w.-]+\.(?:liquid|json|css|js)$/;
+
+const BLOCK_TAGS = new Set(['if', 'unless', 'case', 'for', 'tablerow', 'capture', 'form', 'paginate']);
+
+// Tags whose body is not Liquid or HTML to validate
+const OPAQUE_TAGS = new Set(['raw', 'comment', 'schema', 'style', 'javascript', 'stylesheet']);
+
+// Blocks each branch tag may appear in
+const BRANCH_TAGS: Record<string, string[]> = {
+  else: ['if', 'unless', 'case', 'for'],
+  elsif: ['if', 'unless'],
+  when: ['case'],
+};
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const OPTIONAL_END_ELEMENTS = new Set([
+  'li', 'dt', 'dd', 'p', 'rt', 'rp', 'optgroup', 'option', 'colgroup', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th',
+]);
+
+const MAX_PROBLEMS = 5;
+
+/**
+ * Problems that would break the snippet once pasted; empty when it is valid
+ */
+export function findSnippetProblems(snippet: string): string[] {
+  const { problems, html } = parseLiquid(snippet);
+  if (problems.length === 0) {
+    problems.push(...checkHtml(html));
+  }
+  return problems.slice(0, MAX_PROBLEMS);
+}
+
+// Private helper methods for cleaner code organization
+
+/**
+ * Validate the Liquid and return the HTML left once Liquid and opaque bodies are blanked out
+ */
+function parseLiquid(snippet: string): { problems: string[]; html: string } {
+  const problems: string[] = [];
+  const open: string[] = [];
+  let html = '';
+  let position = 0;
+
+  while (position < snippet.length) {
+    const start = snippet.slice(position).search(/\{\{|\{%/);
+    if (start < 0) {
+      html += snippet.slice(position);
+      break;
+    }
+    html += snippet.slice(position, position + start);
+    position += start;
+
+    const output = snippet.startsWith('{{', position);
+    const end = snippet.indexOf(output ? '}}' : '%}', position + 2);
+    if (end < 0) {
+      problems.push(`${output ? '{{' : '{%'} is never closed`);
+      break;
+    }
+    const body = snippet.slice(position + 2, end);
+    position = end + 2;
+    html += ' ';
+    if (output) {
+      continue;
+    }
+
+    const name = body.replace(/^-/, '').trim().match(/^(#|[a-z_]+)/)?.[1];
+    if (!name) {
+      problems.push(`{% ${body.replace(/^-|-$/g, '').trim()} %} is not a Liquid tag`);
+      break;
+    }
+    if (OPAQUE_TAGS.has(name)) {
+      const close = new RegExp(`\\{%-?\\s*end${name}\\s*-?%\\}`).exec(snippet.slice(position));
+      if (!close) {
+        problems.push(`{% ${name} %} is never closed`);
+        break;
+      }
+      position += close.index + close[0].length;
+    } else if (BLOCK_TAGS.has(name)) {
+      open.push(name);
+    } else if (name.startsWith('end')) {
+      const block = name.slice(3);
+      if (open[open.length - 1] !== block) {
+        problems.push(open.length > 0 ? `{% ${name} %} closes {% ${open[open.length - 1]} %}` : `{% ${name} %} has no opening tag`);
+        break;
+      }
+      open.pop();
+    } else if (BRANCH_TAGS[name] && !BRANCH_TAGS[name]!.includes(open[open.length - 1] ?? '')) {
+      problems.push(`{% ${name} %} is outside of ${BRANCH_TAGS[name]!.map(block => `{% ${block} %}`).join(', ')}`);
+      break;
+    }
+  }
+
+  if (problems.length === 0) {
+    problems.push(...open.reverse().map(block => `{% ${block} %} is never closed`));
+  }
+  return { problems, html };
+}
+
+function checkHtml(html: string): string[] {
+  const open: string[] = [];
+  const tokens = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w-]*)\b[^>]*?(\/?)>/g;
+
+  for (let match = tokens.exec(html); match; match = tokens.exec(html)) {
+    const [token, closing, rawName, selfClosing] = match;
+    if (!rawName) {
+      continue;
+    }
+    const name = rawName.toLowerCase();
+
+    if (!closing) {
+      if (name === 'script' || name === 'style') {
+        const close = html.toLowerCase().indexOf(`</${name}`, tokens.lastIndex);
+        if (close < 0) {
+          return [`<${name}> is never closed`];
+        }
+        tokens.lastIndex = close;
+      } else if (!VOID_ELEMENTS.has(name) && !selfClosing) {
+        open.push(name);
+      }
+      continue;
+    }
+
+    if (name === 'script' || name === 'style' || VOID_ELEMENTS.has(name)) {
+      continue;
+    }
+    const index = open.lastIndexOf(name);
+    if (index < 0) {
+      return [`${token} has no opening tag`];
+    }
+    const unclosed = open.slice(index + 1).find(element => !OPTIONAL_END_ELEMENTS.has(element));
+    if (unclosed) {
+      return [`${token} closes <${unclosed}>`];
+    }
+    open.length = index;
+  }
+
+  const unclosed = open.filter(element => !OPTIONAL_END_ELEMENTS.has(element));
+  return unclosed.reverse().map(element => `<${element}> is never closed`);
+}
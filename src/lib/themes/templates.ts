@@ -0,0 +1,293 @@
+/**
+ * Theme templates
+ * Reads the home, product, collection and cart templates of an uploaded theme
+ * into the sections they render and the static metrics the theme rules check.
+ *
+ * - JSON templates (Online Store 2.0) list their sections, blocks and settings;
+ *   disabled sections and blocks are left out
+ * - Liquid templates (vintage) render `{% section %}` tags, and the home page
+ *   its content_for_index sections, with settings from config/settings_data.json
+ * - The code of a section is its file, its theme blocks and the snippets they
+ *   render, followed recursively; comments and schema bodies are ignored
+ *
+ * Checks are static: a price or star rating that the section renders through
+ * a block only counts when the template has that block, and images written by
+ * the image_tag filter are left out since the filter adds their alt text.
+ */
+
+import type { PageType, ThemeImageIssue, ThemeInfo, ThemeTemplateMetrics } from '../../types';
+import { REVIEW_APP_SIGNATURES } from '../crawler/review-apps';
+import type { ThemeFiles } from './archive';
+import { familyOf } from './detection';
+
+// Template of an uploaded theme, ready to be stored as a crawl result
+export interface ThemeTemplate {
+  path: string; // e.g. templates/product.json
+  pageType: PageType;
+  source: string;
+  theme: ThemeInfo; // With the sections of this template
+  metrics: ThemeTemplateMetrics;
+}
+
+interface TemplateBlock {
+  type: string;
+  settings: Record<string, unknown>;
+}
+
+interface TemplateSection {
+  id: string;
+  type: string;
+  settings: Record<string, unknown>;
+  blocks: TemplateBlock[]; // Nested theme blocks flattened, in order
+}
+
+const TEMPLATE_PATTERN = /^templates\/(index|product|collection|cart)(?:\.[\w-]+)?\.(?:json|liquid)$/;
+
+const PAGE_TYPES: Record<string, PageType> = { index: 'home', product: 'product', collection: 'collection', cart: 'cart' };
+
+const MAIN_PRODUCT_SECTION = /^(?:main-product[\w-]*|product-template|product)$/;
+
+// Section and block settings holding a button label, e.g. button_label_1 in Dawn's image banner
+const CTA_SETTING = /button_label|button_text|cta/i;
+
+// Buttons with a label written in the section code rather than in its settings
+const LITERAL_BUTTON = /<(?:a|button)\b[^>]*\bclass\s*=\s*["'][^"']*\b(?:btn|button)\b[^"']*["'][^>]*>\s*([^<{\s][^<{]*?)\s*<\//gi;
+
+const SECTION_TAG = /\{%-?\s*section\s+['"]([\w-]+)['"]\s*-?%\}|\{\{-?\s*content_for_index\s*-?\}\}/g;
+
+const RENDER_TAG = /\b(?:render|include)\s+['"]([\w.-]+)['"]/g;
+
+const STATIC_BLOCK_TAG = /\bcontent_for\s+['"]block['"]\s*,\s*type:\s*['"]([\w-]+)['"]/g;
+
+const IGNORED_BODIES = /\{%-?\s*(comment|raw|schema|javascript|stylesheet)\s*-?%\}[\s\S]*?\{%-?\s*end\1\s*-?%\}|\{%-?\s*#[\s\S]*?%\}|<!--[\s\S]*?-->/g;
+
+const IMAGE_TAG = /<img\b(?:[^>{]|\{\{[\s\S]*?\}\}|\{%[\s\S]*?%\})*>/gi;
+
+const MAX_LISTED_IMAGES = 20;
+
+/**
+ * Auditable templates of a theme, home first; templates that cannot be read are skipped
+ */
+export function readThemeTemplates(files: ThemeFiles): ThemeTemplate[] {
+  const settingsData = readSettingsData(files);
+  const info = readThemeInfo(files);
+  const pageOrder = Object.keys(PAGE_TYPES);
+  const paths = Array.from(files.keys())
+    .filter(path => TEMPLATE_PATTERN.test(path))
+    // Shopify renders the JSON template when a theme has both
+    .filter(path => !path.endsWith('.liquid') || !files.has(path.replace(/\.liquid$/, '.json')))
+    .sort((a, b) => pageOrder.indexOf(templateName(a)) - pageOrder.indexOf(templateName(b)) || a.localeCompare(b));
+
+  return paths.flatMap(path => {
+    const source = files.get(path)!;
+    const sections = path.endsWith('.json') ? readJsonSections(source) : readLiquidSections(source, settingsData);
+    if (!sections) {
+      return [];
+    }
+    const pageType = PAGE_TYPES[templateName(path)]!;
+    return [{
+      path,
+      pageType,
+      source,
+      theme: { ...info, sections: sections.map(({ id, type }) => ({ id, type, file: sectionFile(type) })) },
+      metrics: readMetrics(files, path, pageType, sections),
+    }];
+  });
+}
+
+// Private helper methods for cleaner code organization
+
+function templateName(path: string): string {
+  return path.match(TEMPLATE_PATTERN)![1]!;
+}
+
+function sectionFile(type: string): string {
+  return `sections/${type}.liquid`;
+}
+
+function readThemeInfo(files: ThemeFiles): Omit<ThemeInfo, 'sections'> {
+  const schema = parseJson(files.get('config/settings_schema.json'));
+  const entries = Array.isArray(schema) ? schema : [];
+  const themeInfo = asRecord(entries.find(entry => asRecord(entry).name === 'theme_info'));
+  const name = stringOrNull(themeInfo.theme_name);
+  const onlineStore2 = Array.from(files.keys()).some(path => /^templates\/[\w.-]+\.json$/.test(path));
+  return {
+    name,
+    schemaName: name,
+    schemaVersion: stringOrNull(themeInfo.theme_version),
+    themeStoreId: null,
+    family: familyOf(name, null, onlineStore2),
+  };
+}
+
+// Settings of the current preset, where vintage themes keep their section settings
+function readSettingsData(files: ThemeFiles): Record<string, unknown> {
+  const data = asRecord(parseJson(files.get('config/settings_data.json')));
+  return typeof data.current === 'string' ? asRecord(asRecord(data.presets)[data.current]) : asRecord(data.current);
+}
+
+function readJsonSections(source: string): TemplateSection[] | null {
+  const template = asRecord(parseJson(source));
+  if (!template.sections || typeof template.sections !== 'object') {
+    return null;
+  }
+  const sections = asRecord(template.sections);
+  const order = Array.isArray(template.order) ? (template.order as string[]) : Object.keys(sections);
+  return order.flatMap(id => toSection(id, sections[id]));
+}
+
+function readLiquidSections(source: string, settingsData: Record<string, unknown>): TemplateSection[] {
+  const sections = asRecord(settingsData.sections);
+  const indexIds = Array.isArray(settingsData.content_for_index) ? (settingsData.content_for_index as string[]) : [];
+
+  return Array.from(stripIgnored(source).matchAll(SECTION_TAG)).flatMap(([, type]) =>
+    type
+      ? toSection(type, { type, ...asRecord(sections[type]) })
+      : indexIds.flatMap(id => toSection(id, sections[id]))
+  );
+}
+
+function toSection(id: string, value: unknown): TemplateSection[] {
+  const section = asRecord(value);
+  if (typeof section.type !== 'string' || section.disabled === true) {
+    return [];
+  }
+  return [{ id, type: section.type, settings: asRecord(section.settings), blocks: readBlocks(section) }];
+}
+
+function readBlocks(parent: Record<string, unknown>): TemplateBlock[] {
+  const blocks = asRecord(parent.blocks);
+  const order = Array.isArray(parent.block_order) ? (parent.block_order as string[]) : Object.keys(blocks);
+  return order.flatMap(id => {
+    const block = asRecord(blocks[id]);
+    if (typeof block.type !== 'string' || block.disabled === true) {
+      return [];
+    }
+    return [{ type: block.type, settings: asRecord(block.settings) }, ...readBlocks(block)];
+  });
+}
+
+function readMetrics(files: ThemeFiles, path: string, pageType: PageType, sections: TemplateSection[]): ThemeTemplateMetrics {
+  const hero = pageType === 'home' ? sections[0] : undefined;
+  const mainProduct = pageType === 'product' ? sections.find(section => MAIN_PRODUCT_SECTION.test(section.type)) : undefined;
+  const templateFiles = path.endsWith('.liquid') ? [path] : [];
+  const codeFiles = Array.from(new Set([...templateFiles, ...sections.flatMap(section => collectCode(files, section))]));
+
+  return {
+    hero: hero ? { sectionId: hero.id, file: sectionFile(hero.type), ctaLabels: readCtaLabels(files, hero) } : null,
+    mainProduct: mainProduct ? readMainProduct(files, mainProduct) : null,
+    images: readImages(files, codeFiles),
+  };
+}
+
+// Files making up a section: its own, its theme blocks and every snippet they render
+function collectCode(files: ThemeFiles, section: TemplateSection): string[] {
+  const queue = [sectionFile(section.type), ...section.blocks.map(block => `blocks/${block.type}.liquid`)];
+  const collected = new Set<string>();
+
+  for (let path = queue.shift(); path !== undefined; path = queue.shift()) {
+    const source = files.get(path);
+    if (source === undefined || collected.has(path)) {
+      continue;
+    }
+    collected.add(path);
+    const code = stripIgnored(source);
+    queue.push(
+      ...Array.from(code.matchAll(RENDER_TAG), ([, name]) => `snippets/${name}.liquid`),
+      ...Array.from(code.matchAll(STATIC_BLOCK_TAG), ([, type]) => `blocks/${type}.liquid`)
+    );
+  }
+  return Array.from(collected);
+}
+
+function readCtaLabels(files: ThemeFiles, section: TemplateSection): string[] {
+  const settingLabels = [section.settings, ...section.blocks.map(block => block.settings)].flatMap(settings =>
+    Object.entries(settings).flatMap(([key, value]) =>
+      CTA_SETTING.test(key) && typeof value === 'string' && value.trim() !== '' ? [value.trim()] : []
+    )
+  );
+  const literalLabels = collectCode(files, section).flatMap(path =>
+    Array.from(stripIgnored(files.get(path)!).matchAll(LITERAL_BUTTON), ([, label]) => label!)
+  );
+  return [...settingLabels, ...literalLabels];
+}
+
+function readMainProduct(files: ThemeFiles, section: TemplateSection): NonNullable<ThemeTemplateMetrics['mainProduct']> {
+  const sectionCode = stripIgnored(files.get(sectionFile(section.type)) ?? '');
+  const code = collectCode(files, section).map(path => stripIgnored(files.get(path)!)).join('\n');
+  const appBlockTypes = section.blocks.map(block => block.type).filter(type => type.startsWith('shopify://apps/'));
+  const reviewText = [code, ...appBlockTypes].join('\n').toLowerCase();
+  const reviewApp = REVIEW_APP_SIGNATURES.find(signature => signature.themePatterns.some(pattern => reviewText.includes(pattern)))?.id ?? null;
+
+  return {
+    sectionId: section.id,
+    file: sectionFile(section.type),
+    rendersPrice: rendersBlock(section, sectionCode, code, 'price', /\|\s*money/),
+    rendersReviews: reviewApp !== null || rendersBlock(section, sectionCode, code, 'rating', /metafields\.reviews\.rating/),
+    reviewApp,
+  };
+}
+
+// A section that renders the block type in a `when` branch only shows it when the template has the block
+function rendersBlock(section: TemplateSection, sectionCode: string, code: string, blockType: string, pattern: RegExp): boolean {
+  if (new RegExp(`\\bwhen\\s+['"]${blockType}['"]`).test(sectionCode)) {
+    return section.blocks.some(block => block.type === blockType);
+  }
+  return pattern.test(code);
+}
+
+function readImages(files: ThemeFiles, paths: string[]): ThemeTemplateMetrics['images'] {
+  let total = 0;
+  let withAlt = 0;
+  const missingAlt: ThemeImageIssue[] = [];
+
+  for (const path of paths) {
+    const code = stripIgnored(files.get(path)!);
+    for (const match of code.matchAll(IMAGE_TAG)) {
+      const tag = match[0];
+      // Images hidden from assistive technology don't need alt text
+      if (/\saria-hidden\s*=\s*["']true["']|\srole\s*=\s*["']presentation["']/i.test(tag)) {
+        continue;
+      }
+      total++;
+      if (/[\s"'}]alt(?:\s*=|[\s/>])/i.test(tag)) {
+        withAlt++;
+      } else if (missingAlt.length < MAX_LISTED_IMAGES) {
+        const className = tag.match(/\sclass\s*=\s*["']\s*([\w-]+)/)?.[1];
+        missingAlt.push({
+          selector: className ? `img.${className}` : 'img',
+          attribute: 'alt',
+          value: null,
+          file: path,
+          line: code.slice(0, match.index).split('\n').length,
+        });
+      }
+    }
+  }
+  return { total, withAlt, missingAlt };
+}
+
+// Blank out comments and non-markup bodies, keeping line breaks so line numbers still match
+function stripIgnored(source: string): string {
+  return source.replace(IGNORED_BODIES, body => body.replace(/[^\n]/g, ' '));
+}
+
+// JSON templates and config files may start with a generated /* … */ comment
+function parseJson(source: string | undefined): unknown {
+  if (source === undefined) {
+    return null;
+  }
+  try {
+    return JSON.parse(source.replace(/^\s*\/\*[\s\S]*?\*\//, ''));
+  } catch {
+    return null;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value : null;
+}
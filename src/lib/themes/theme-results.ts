@@ -0,0 +1,48 @@
+/**
+ * Theme template persistence
+ * Stores the templates of an uploaded theme as CrawlResult rows, so findings,
+ * reports and recommendations handle them like crawled pages, and loads them
+ * back as ThemePages when the audit runs. The row URL is the template path and
+ * its HTML the template source.
+ */
+
+import prisma from '@/lib/prisma';
+import { ThemeInfoSchema, ThemeTemplateMetricsSchema } from '../../types';
+import type { PageType, ThemePage } from '../../types';
+import type { ThemeTemplate } from './templates';
+
+export async function saveThemeTemplate(auditId: string, template: ThemeTemplate) {
+  return prisma.crawlResult.create({
+    data: {
+      auditId,
+      url: template.path,
+      pageType: template.pageType,
+      html: template.source,
+      metadata: {
+        source: 'theme',
+        theme: template.theme,
+        templateMetrics: template.metrics,
+      },
+    },
+  });
+}
+
+/**
+ * Templates saved for a theme audit, in upload order
+ */
+export async function loadThemePages(auditId: string): Promise<ThemePage[]> {
+  const results: { id: string; url: string; pageType: PageType; metadata: any }[] = await prisma.crawlResult.findMany({
+    where: { auditId },
+    orderBy: [{ crawledAt: 'asc' }, { id: 'asc' }],
+    select: { id: true, url: true, pageType: true, metadata: true },
+  });
+
+  return results.map(result => ({
+    id: result.id,
+    crawlId: auditId,
+    url: result.url,
+    type: result.pageType,
+    metrics: ThemeTemplateMetricsSchema.parse(result.metadata?.templateMetrics),
+    theme: ThemeInfoSchema.parse(result.metadata?.theme),
+  }));
+}
@@ -0,0 +1,152 @@
+/**
+ * Theme Heuristic Rules
+ * Static counterparts of the live rules, run on the templates of an uploaded
+ * theme. Each one scores under the id, weight and category of the live rule it
+ * stands in for and raises the same finding ids with the same evidence, plus
+ * the theme file to edit, so reports and recommendations treat both alike.
+ *
+ * Scoring:
+ * - Hero CTA (15 points): 0 when the first home section has no button label
+ * - Price Display (12 points): 0 when the main product section renders no price
+ * - Social Proof (10 points): 0 when it renders no star rating
+ * - Alt Text Coverage (5 points): share of <img> tags with an alt attribute
+ *
+ * Placement above the fold, prominence and review counts can only be measured
+ * on a live store, so those findings are never raised here.
+ */
+
+import type { BaseHeuristicRule, HeuristicResult, Severity, ThemePage } from '../../types';
+import { AltTextCoverageRule } from '../heuristics/accessibility';
+import { HeuristicEngine } from '../heuristics/engine';
+import { HeroCTARule } from '../heuristics/hero-cta';
+import { PriceDisplayRule } from '../heuristics/product-page';
+import { createFinding, failedResult, passedResult, skippedResult } from '../heuristics/rule-helpers';
+import { SocialProofRule } from '../heuristics/social-proof';
+
+const HERO_CTA = new HeroCTARule();
+const PRICE_DISPLAY = new PriceDisplayRule();
+const SOCIAL_PROOF = new SocialProofRule();
+const ALT_TEXT_COVERAGE = new AltTextCoverageRule();
+
+const MISSING_MAIN_PRODUCT = 'Template has no main product section';
+
+// Share of images without alt text from which the finding is raised one severity level up
+const MAJORITY_FAILING_RATIO = 0.5;
+
+export class ThemeHeroCTARule implements BaseHeuristicRule<ThemePage> {
+  // Rule metadata
+  public readonly ruleId = HERO_CTA.ruleId;
+  public readonly maxScore = HERO_CTA.maxScore;
+  public readonly name = HERO_CTA.name;
+  public readonly description = 'Ensures the first section of the home template has a call-to-action button';
+  public readonly category = HERO_CTA.category;
+  public readonly pageTypes = ['home'] as const;
+
+  analyze(page: ThemePage): HeuristicResult {
+    const hero = page.metrics.hero;
+    if (hero && hero.ctaLabels.length > 0) {
+      return passedResult(this.maxScore);
+    }
+
+    return failedResult(0, createFinding(page, 'hero_cta_missing', 'high', {
+      ctaCount: 0,
+      pageType: page.type,
+      file: hero?.file ?? page.url,
+      sectionId: hero?.sectionId ?? null
+    }));
+  }
+}
+
+export class ThemePriceDisplayRule implements BaseHeuristicRule<ThemePage> {
+  // Rule metadata
+  public readonly ruleId = PRICE_DISPLAY.ruleId;
+  public readonly maxScore = PRICE_DISPLAY.maxScore;
+  public readonly name = PRICE_DISPLAY.name;
+  public readonly description = 'Ensures the main product section renders the product price';
+  public readonly category = PRICE_DISPLAY.category;
+  public readonly pageTypes = ['product'] as const;
+
+  analyze(page: ThemePage): HeuristicResult {
+    const mainProduct = page.metrics.mainProduct;
+    if (!mainProduct) {
+      return skippedResult(MISSING_MAIN_PRODUCT);
+    }
+    if (mainProduct.rendersPrice) {
+      return passedResult(this.maxScore);
+    }
+
+    return failedResult(0, createFinding(page, 'price_missing', 'high', {
+      priceCount: 0,
+      file: mainProduct.file,
+      sectionId: mainProduct.sectionId
+    }));
+  }
+}
+
+export class ThemeSocialProofRule implements BaseHeuristicRule<ThemePage> {
+  // Rule metadata
+  public readonly ruleId = SOCIAL_PROOF.ruleId;
+  public readonly maxScore = SOCIAL_PROOF.maxScore;
+  public readonly name = SOCIAL_PROOF.name;
+  public readonly description = 'Ensures the main product section renders a star rating from a review app or the reviews metafield';
+  public readonly category = SOCIAL_PROOF.category;
+  public readonly pageTypes = ['product'] as const;
+
+  analyze(page: ThemePage): HeuristicResult {
+    const mainProduct = page.metrics.mainProduct;
+    if (!mainProduct) {
+      return skippedResult(MISSING_MAIN_PRODUCT);
+    }
+    if (mainProduct.rendersReviews) {
+      return passedResult(this.maxScore);
+    }
+
+    return failedResult(0, createFinding(page, 'social_proof_missing', 'med', {
+      app: null,
+      appName: null,
+      configurationHint: null,
+      file: mainProduct.file,
+      sectionId: mainProduct.sectionId
+    }));
+  }
+}
+
+export class ThemeAltTextCoverageRule implements BaseHeuristicRule<ThemePage> {
+  // Rule metadata
+  public readonly ruleId = ALT_TEXT_COVERAGE.ruleId;
+  public readonly maxScore = ALT_TEXT_COVERAGE.maxScore;
+  public readonly name = ALT_TEXT_COVERAGE.name;
+  public readonly description = 'Ensures <img> tags in the template code have an alt attribute';
+  public readonly category = ALT_TEXT_COVERAGE.category;
+
+  analyze(page: ThemePage): HeuristicResult {
+    const images = page.metrics.images;
+    if (images.total === 0) {
+      return skippedResult('Template code has no <img> tags');
+    }
+
+    const missingCount = images.total - images.withAlt;
+    if (missingCount === 0) {
+      return passedResult(this.maxScore);
+    }
+
+    const severity: Severity = missingCount / images.total >= MAJORITY_FAILING_RATIO ? 'med' : 'low';
+    return failedResult(this.maxScore * (images.withAlt / images.total), createFinding(page, 'alt_text_missing', severity, {
+      imageCount: images.total,
+      missingCount,
+      coverage: Math.round((images.withAlt / images.total) * 100),
+      elements: images.missingAlt
+    }));
+  }
+}
+
+/**
+ * Engine with all theme rules registered
+ */
+export function createThemeEngine(): HeuristicEngine<ThemePage> {
+  return new HeuristicEngine<ThemePage>()
+    .register(new ThemeHeroCTARule())
+    .register(new ThemePriceDisplayRule())
+    .register(new ThemeSocialProofRule())
+    .register(new ThemeAltTextCoverageRule());
+}
@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test Suite for Webhook Delivery
+ * Delivers to a real local HTTP sink that verifies signatures the way a
+ * receiver would. jest.setup.js replaces the global fetch, so requests go
+ * through a minimal node:http fetch; Prisma is mocked in jest.setup.js.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import prisma from '@/lib/prisma';
+import { WebhookSender } from '../delivery';
+import { SIGNATURE_HEADER, verifyWebhookSignature } from '../signature';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  verified: boolean;
+}
+
+const secret = 'whsec_sink';
+
+// Answers with the queued statuses, then 200
+const startSink = async (statuses: number[] = []) => {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      const verified = verifyWebhookSignature(secret, request.headers[SIGNATURE_HEADER.toLowerCase()] as string, body);
+      received.push({ headers: request.headers, body, verified });
+      response.writeHead(verified ? statuses.shift() ?? 200 : 401).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/hooks`, received, close: () => new Promise(resolve => server.close(resolve)) };
+};
+
+const nodeFetch = ((url: string, init: RequestInit) =>
+  new Promise((resolve, reject) => {
+    const request = http.request(url, { method: init.method, headers: init.headers as http.OutgoingHttpHeaders }, response => {
+      response.resume();
+      response.on('end', () => resolve({ ok: response.statusCode! < 300, status: response.statusCode }));
+    });
+    request.on('error', reject);
+    request.end(init.body);
+  })) as unknown as typeof fetch;
+
+const message = (url: string, overrides: Record<string, unknown> = {}) => ({
+  event: 'audit.regression' as const,
+  url,
+  secret,
+  payload: { event: 'audit.regression', reasons: ['score_drop'] },
+  scheduleId: 'schedule-1',
+  auditId: 'audit-2',
+  ...overrides
+});
+
+describe('Webhook Delivery - Integration', () => {
+  let sink: Awaited<ReturnType<typeof startSink>>;
+
+  beforeEach(() => {
+    (prisma.webhookDelivery.create as jest.Mock).mockResolvedValue({ id: 'delivery-1' });
+  });
+
+  afterEach(async () => {
+    await sink.close();
+  });
+
+  it('should deliver a payload the sink can verify', async () => {
+    // Arrange
+    sink = await startSink();
+
+    // Act
+    const result = await new WebhookSender({ fetch: nodeFetch }).send(message(sink.url));
+
+    // Assert
+    expect(result).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 });
+    expect(sink.received).toHaveLength(1);
+    expect(sink.received[0]!.verified).toBe(true);
+    expect(JSON.parse(sink.received[0]!.body)).toEqual({ event: 'audit.regression', reasons: ['score_drop'] });
+    expect(sink.received[0]!.headers).toMatchObject({ 'content-type': 'application/json', 'x-cro-event': 'audit.regression', 'x-cro-delivery': 'delivery-1' });
+  });
+
+  it('should retry until the sink recovers, signing every attempt', async () => {
+    // Arrange
+    sink = await startSink([500, 503]);
+
+    // Act
+    const result = await new WebhookSender({ fetch: nodeFetch, retryDelay: 5 }).send(message(sink.url));
+
+    // Assert
+    expect(result).toMatchObject({ status: 'delivered', attempts: 3 });
+    expect(sink.received.map(request => request.verified)).toEqual([true, true, true]);
+  });
+
+  it('should fail once the sink rejects the signature', async () => {
+    // Arrange
+    sink = await startSink();
+
+    // Act
+    const result = await new WebhookSender({ fetch: nodeFetch, retryDelay: 5 }).send(message(sink.url, { secret: 'whsec_wrong' }));
+
+    // Assert
+    expect(result).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 401 });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * TDD Test Suite for Webhooks
+ * Signing and delivery with a fake fetch; Prisma is mocked in jest.setup.js
+ */
+
+import prisma from '@/lib/prisma';
+import { WebhookSender } from '../delivery';
+import type { WebhookMessage } from '../delivery';
+import { generateWebhookSecret, signWebhook, verifyWebhookSignature } from '../signature';
+import { createMockFetch } from '../../../test-utils';
+
+const secret = 'whsec_test';
+
+const body = JSON.stringify({ event: 'audit.regression' });
+
+const message: WebhookMessage = {
+  event: 'audit.regression',
+  url: 'https://hooks.example.com/cro',
+  secret,
+  payload: { event: 'audit.regression' },
+  scheduleId: 'schedule-1',
+  auditId: 'audit-2'
+};
+
+const answer = (status: number) => ({ ok: status < 300, status });
+
+describe('Webhooks - TDD', () => {
+  describe('RED Phase: Signatures', () => {
+    it('should sign the timestamp and raw body with HMAC-SHA256', () => {
+      // Act
+      const header = signWebhook(secret, body, 1760000000);
+
+      // Assert
+      expect(header).toMatch(/^t=1760000000,v1=[0-9a-f]{64}$/);
+      expect(signWebhook(secret, body, 1760000000)).toBe(header);
+      expect(signWebhook('whsec_other', body, 1760000000)).not.toBe(header);
+    });
+
+    it('should verify fresh signatures and reject tampered, stale or malformed ones', () => {
+      // Arrange
+      const now = new Date(1760000000 * 1000);
+      const header = signWebhook(secret, body, 1760000000);
+
+      // Act & Assert
+      expect(verifyWebhookSignature(secret, header, body, { now })).toBe(true);
+      expect(verifyWebhookSignature(secret, header, `${body} `, { now })).toBe(false);
+      expect(verifyWebhookSignature('whsec_other', header, body, { now })).toBe(false);
+      expect(verifyWebhookSignature(secret, header, body, { now: new Date((1760000000 + 301) * 1000) })).toBe(false);
+      expect(verifyWebhookSignature(secret, header, body, { now: new Date((1760000000 + 301) * 1000), toleranceSeconds: 600 })).toBe(true);
+      expect(verifyWebhookSignature(secret, 't=1760000000,v1=abc', body, { now })).toBe(false);
+      expect(verifyWebhookSignature(secret, null, body, { now })).toBe(false);
+      expect(verifyWebhookSignature(secret, signWebhook(secret, body), body)).toBe(true);
+    });
+
+    it('should generate distinct secrets', () => {
+      // Act & Assert
+      expect(generateWebhookSecret()).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(generateWebhookSecret()).not.toBe(generateWebhookSecret());
+    });
+  });
+
+  describe('GREEN Phase: Delivery', () => {
+    beforeEach(() => {
+      (prisma.webhookDelivery.create as jest.Mock).mockResolvedValue({ id: 'delivery-1' });
+    });
+
+    it('should POST the signed payload and record the delivery', async () => {
+      // Arrange
+      const fetch = createMockFetch({}, true);
+      const sender = new WebhookSender({ fetch });
+
+      // Act
+      const result = await sender.send(message);
+
+      // Assert
+      expect(result).toEqual({ id: 'delivery-1', status: 'delivered', attempts: 1, responseStatus: 200, lastError: null });
+      expect(prisma.webhookDelivery.create).toHaveBeenCalledWith({
+        data: { scheduleId: 'schedule-1', auditId: 'audit-2', event: 'audit.regression', url: message.url, payload: message.payload },
+        select: { id: true }
+      });
+      const [url, init] = fetch.mock.calls[0];
+      expect(url).toBe(message.url);
+      expect(init).toMatchObject({ method: 'POST', body });
+      expect(init.headers).toMatchObject({ 'Content-Type': 'application/json', 'X-CRO-Event': 'audit.regression', 'X-CRO-Delivery': 'delivery-1' });
+      expect(verifyWebhookSignature(secret, init.headers['X-CRO-Signature'], body)).toBe(true);
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: { status: 'delivered', attempts: 1, responseStatus: 200, lastError: null, deliveredAt: expect.any(Date) }
+      });
+    });
+
+    it('should retry server errors, rate limits and network failures with backoff', async () => {
+      // Arrange
+      const fetch = jest.fn()
+        .mockResolvedValueOnce(answer(503))
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+        .mockResolvedValueOnce(answer(429))
+        .mockResolvedValueOnce(answer(204));
+      const sender = new WebhookSender({ fetch, retryDelay: 1 });
+      const waitSpy = jest.spyOn(sender as any, 'wait');
+
+      // Act
+      const result = await sender.send(message);
+
+      // Assert
+      expect(result).toMatchObject({ status: 'delivered', attempts: 4, responseStatus: 204 });
+      expect(waitSpy.mock.calls).toEqual([[1], [2], [4]]);
+    });
+
+    it('should give up after the last attempt', async () => {
+      // Arrange
+      const fetch = jest.fn().mockResolvedValue(answer(500));
+      const sender = new WebhookSender({ fetch, retryDelay: 0, maxAttempts: 3 });
+
+      // Act
+      const result = await sender.send(message);
+
+      // Assert
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(result).toEqual({ id: 'delivery-1', status: 'failed', attempts: 3, responseStatus: 500, lastError: 'Receiver answered 500' });
+      expect((prisma.webhookDelivery.update as jest.Mock).mock.calls[0][0].data).not.toHaveProperty('deliveredAt');
+    });
+  });
+
+  describe('REFACTOR Phase: Rejections and Timeouts', () => {
+    beforeEach(() => {
+      (prisma.webhookDelivery.create as jest.Mock).mockResolvedValue({ id: 'delivery-1' });
+    });
+
+    it('should not retry events the receiver rejected', async () => {
+      // Arrange
+      const fetch = jest.fn().mockResolvedValue(answer(410));
+
+      // Act
+      const result = await new WebhookSender({ fetch, retryDelay: 0 }).send(message);
+
+      // Assert
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 410 });
+    });
+
+    it('should abort attempts that get no answer in time', async () => {
+      // Arrange
+      const fetch = jest.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+      const sender = new WebhookSender({ fetch: fetch as unknown as typeof globalThis.fetch, retryDelay: 0, maxAttempts: 2, timeout: 5 });
+
+      // Act
+      const result = await sender.send(message);
+
+      // Assert
+      expect(result).toMatchObject({ status: 'failed', attempts: 2, responseStatus: null, lastError: 'No answer within 5 ms' });
+    });
+
+    it('should record non-Error failures and default to the global fetch', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockRejectedValueOnce('socket hang up');
+
+      // Act
+      const result = await new WebhookSender({ maxAttempts: 1 }).send(message);
+
+      // Assert
+      expect(result.lastError).toBe('socket hang up');
+      expect(global.fetch).toHaveBeenCalledWith(message.url, expect.objectContaining({ method: 'POST' }));
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Webhook delivery
+ * POSTs a signed JSON event and records it as a WebhookDelivery.
+ *
+ * Network errors, timeouts, 429 and 5xx answers are retried with exponential
+ * backoff; other 4xx answers mean the receiver rejected the event and are not
+ * retried. The signature is recomputed on every attempt so its timestamp stays fresh.
+ */
+
+import prisma from '@/lib/prisma';
+import { SIGNATURE_HEADER, signWebhook } from './signature';
+
+export type WebhookEvent = 'audit.regression';
+
+export interface WebhookMessage {
+  event: WebhookEvent;
+  url: string;
+  secret: string;
+  payload: Record<string, unknown>;
+  scheduleId: string;
+  auditId: string;
+}
+
+export interface WebhookDeliveryResult {
+  id: string;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+}
+
+export interface WebhookSenderOptions {
+  fetch?: typeof fetch;
+  maxAttempts?: number;
+  retryDelay?: number; // Base backoff in ms, doubled after every failed attempt
+  timeout?: number; // Per attempt, in ms
+}
+
+interface AttemptResult {
+  ok: boolean;
+  retryable: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+export class WebhookSender {
+  // Delivery configuration constants
+  public static readonly DEFAULT_MAX_ATTEMPTS = 5;
+  public static readonly DEFAULT_RETRY_DELAY = 1000;
+  public static readonly DEFAULT_TIMEOUT = 10000;
+  public static readonly USER_AGENT = 'ShopifyCROCopilot-Webhooks/1.0';
+
+  private readonly fetch: typeof fetch;
+  private readonly maxAttempts: number;
+  private readonly retryDelay: number;
+  private readonly timeout: number;
+
+  constructor(options: WebhookSenderOptions = {}) {
+    this.fetch = options.fetch ?? ((...args) => fetch(...args));
+    this.maxAttempts = options.maxAttempts ?? WebhookSender.DEFAULT_MAX_ATTEMPTS;
+    this.retryDelay = options.retryDelay ?? WebhookSender.DEFAULT_RETRY_DELAY;
+    this.timeout = options.timeout ?? WebhookSender.DEFAULT_TIMEOUT;
+  }
+
+  async send(message: WebhookMessage): Promise<WebhookDeliveryResult> {
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        scheduleId: message.scheduleId,
+        auditId: message.auditId,
+        event: message.event,
+        url: message.url,
+        payload: message.payload,
+      },
+      select: { id: true },
+    });
+    const body = JSON.stringify(message.payload);
+
+    let attempts = 0;
+    let result: AttemptResult;
+    do {
+      if (attempts > 0) {
+        await this.wait(this.retryDelay * 2 ** (attempts - 1));
+      }
+      attempts++;
+      result = await this.attempt(message, delivery.id, body);
+    } while (!result.ok && result.retryable && attempts < this.maxAttempts);
+
+    const status = result.ok ? 'delivered' : 'failed';
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        attempts,
+        responseStatus: result.responseStatus,
+        lastError: result.error,
+        ...(result.ok ? { deliveredAt: new Date() } : {}),
+      },
+    });
+    return { id: delivery.id, status, attempts, responseStatus: result.responseStatus, lastError: result.error };
+  }
+
+  // Private helper methods for cleaner code organization
+
+  private async attempt(message: WebhookMessage, deliveryId: string, body: string): Promise<AttemptResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+    try {
+      const response = await this.fetch(message.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': WebhookSender.USER_AGENT,
+          'X-CRO-Event': message.event,
+          'X-CRO-Delivery': deliveryId,
+          [SIGNATURE_HEADER]: signWebhook(message.secret, body),
+        },
+        body,
+        signal: controller.signal,
+      });
+      if (response.ok) {
+        return { ok: true, retryable: false, responseStatus: response.status, error: null };
+      }
+      return {
+        ok: false,
+        retryable: response.status === 429 || response.status >= 500,
+        responseStatus: response.status,
+        error: `Receiver answered ${response.status}`,
+      };
+    } catch (error) {
+      const reason = controller.signal.aborted ? `No answer within ${this.timeout} ms` : error instanceof Error ? error.message : String(error);
+      return { ok: false, retryable: true, responseStatus: null, error: reason };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
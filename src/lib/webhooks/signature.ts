@@ -0,0 +1,47 @@
+/**
+ * Webhook signatures
+ * Every delivery carries `X-CRO-Signature: t=<unix seconds>,v1=<hex>` where v1
+ * is the HMAC-SHA256 of `<t>.<raw body>` keyed with the schedule's secret.
+ * Receivers recompute it over the raw body and reject stale timestamps to
+ * stop replays.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-CRO-Signature';
+
+// Signatures older than this are rejected by verifyWebhookSignature
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface VerifyOptions {
+  now?: Date;
+  toleranceSeconds?: number;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+export function signWebhook(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${digest(secret, `${timestamp}.${body}`)}`;
+}
+
+export function verifyWebhookSignature(secret: string, header: string | null, body: string, options: VerifyOptions = {}): boolean {
+  const parts = new Map((header ?? '').split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1') ?? '';
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > (options.toleranceSeconds ?? SIGNATURE_TOLERANCE_SECONDS)) {
+    return false;
+  }
+
+  const expected = Buffer.from(digest(secret, `${timestamp}.${body}`), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// Private helper methods for cleaner code organization
+
+function digest(secret: string, content: string): string {
+  return createHmac('sha256', secret).update(content).digest('hex');
+}
@@ -0,0 +1,362 @@
+/**
+ * Crawler fixture helpers
+ * Serves local HTML fixtures from a throwaway HTTP server and provides a
+ * jsdom-backed stand-in for a Playwright browser so crawler code can be
+ * exercised end-to-end in Jest without downloading Chromium.
+ *
+ * Layout does not exist in jsdom, so fixtures describe it explicitly with a
+ * `data-rect="top,left,width,height"` attribute on any element whose box matters.
+ * Boxes are in document coordinates and move with window.scrollTo(), except for
+ * elements inside a `position: fixed` or `position: sticky` container, whose
+ * data-rect is relative to the viewport. A `<meta name="fixture-page-height">`
+ * tag stops window.scrollTo() at the bottom of the page, as browsers do.
+ *
+ * Web vitals are faked the same way: a `<meta name="fixture-performance">` tag
+ * holds the JSON performance entries the PerformanceObserver delivers, and the
+ * DevTools session reports the document plus every script, image and
+ * stylesheet as downloaded, with the size in its `data-bytes` attribute.
+ * Resources without data-bytes are reported as still loading.
+ *
+ * Clicks do nothing by default. Funnel fixtures script what a theme would do
+ * with attributes on the clicked element, applied in this order:
+ * - `data-fixture-opens="selector"`: shows the matching elements (a cart drawer)
+ * - `data-fixture-error="message"`: throws an uncaught script error
+ * - `data-fixture-request="/path"`: fetches the path, like an add-to-cart call
+ * - `data-fixture-navigates="/path"`: loads the path, like a form submission
+ * Requests and navigations complete on the next waitForTimeout(), waitForLoadState()
+ * or waitForURL().
+ */
+
+import http from 'http'
+import type { AddressInfo } from 'net'
+import type { Browser } from 'playwright'
+
+export interface FixtureRoute {
+  body: string
+  status?: number
+  delay?: number
+  contentType?: string
+}
+
+export interface FixtureServer {
+  url: string
+  requests: string[]
+  close: () => Promise<void>
+}
+
+/**
+ * Start an HTTP server on a random port that answers with the given fixtures
+ */
+export const startFixtureServer = async (
+  routes: Record<string, FixtureRoute | string>
+): Promise<FixtureServer> => {
+  const requests: string[] = []
+  const server = http.createServer((req, res) => {
+    const path = req.url ?? '/'
+    requests.push(path)
+    const route = routes[path] ?? routes[path.split('?')[0] ?? path]
+    if (!route) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' })
+      res.end('Not found')
+      return
+    }
+
+    const fixture = typeof route === 'string' ? { body: route } : route
+    const respond = () => {
+      res.writeHead(fixture.status ?? 200, { 'Content-Type': fixture.contentType ?? 'text/html' })
+      res.end(fixture.body)
+    }
+    if (fixture.delay) {
+      setTimeout(respond, fixture.delay)
+    } else {
+      respond()
+    }
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections()
+        server.close(() => resolve())
+      }),
+  }
+}
+
+/**
+ * Plain HTTP GET used by the fixture browser and by tests that need raw responses
+ */
+export const fetchFixture = (
+  url: string,
+  timeout: number
+): Promise<{ status: number; body: string; headers: http.IncomingHttpHeaders }> =>
+  new Promise((resolve, reject) => {
+    const request = http.get(url, (res) => {
+      let body = ''
+      res.setEncoding('utf8')
+      res.on('data', (chunk) => (body += chunk))
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body, headers: res.headers }))
+    })
+    request.setTimeout(timeout, () => {
+      const error = new Error(`Timeout ${timeout}ms exceeded.`)
+      error.name = 'TimeoutError'
+      request.destroy(error)
+    })
+    request.on('error', reject)
+  })
+
+const isPinned = (element: Element) => {
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const position = window.getComputedStyle(current).position
+    if (position === 'fixed' || position === 'sticky') return true
+  }
+  return false
+}
+
+const readRect = (element: Element) => {
+  const [documentTop = 0, left = 0, width = 0, height = 0] = (element.getAttribute('data-rect') ?? '')
+    .split(',')
+    .map((value) => Number(value.trim()) || 0)
+  const top = isPinned(element) ? documentTop : documentTop - window.scrollY
+  return {
+    x: left,
+    y: top,
+    top,
+    left,
+    width,
+    height,
+    right: left + width,
+    bottom: top + height,
+    toJSON: () => ({ top, left, width, height }),
+  } as DOMRect
+}
+
+/**
+ * Load an HTML document into the jsdom global used by the test environment
+ */
+export const loadDocument = (html: string) => {
+  const parsed = new DOMParser().parseFromString(html, 'text/html')
+  document.head.innerHTML = parsed.head.innerHTML
+  document.body.innerHTML = parsed.body.innerHTML
+  document.title = parsed.title
+}
+
+// Performance entry as written in a fixture's fixture-performance meta tag
+interface FixturePerformanceEntry {
+  entryType: string
+  name?: string
+  startTime: number
+  duration?: number
+  value?: number
+  hadRecentInput?: boolean
+}
+
+type CDPListener = (event: Record<string, unknown>) => void
+
+type PageListener = (event: unknown) => void
+
+const PERFORMANCE_ENTRY_TYPES = ['paint', 'largest-contentful-paint', 'layout-shift', 'longtask']
+
+const readPerformanceEntries = (): FixturePerformanceEntry[] =>
+  JSON.parse(document.querySelector('meta[name="fixture-performance"]')?.getAttribute('content') ?? '[]')
+
+const createPerformanceObserver = (entries: FixturePerformanceEntry[], supportedTypes: string[]) =>
+  class {
+    constructor(private readonly callback: (list: { getEntries: () => FixturePerformanceEntry[] }) => void) {}
+
+    observe({ type }: { type: string }) {
+      if (!supportedTypes.includes(type)) throw new TypeError(`Unsupported entry type: ${type}`)
+      const matching = entries.filter((entry) => entry.entryType === type)
+      if (matching.length > 0) this.callback({ getEntries: () => matching })
+    }
+
+    disconnect() {}
+  }
+
+const RESOURCE_TYPES: Record<string, string> = { SCRIPT: 'Script', IMG: 'Image', LINK: 'Stylesheet' }
+
+export interface FixtureBrowserOptions {
+  onGoto?: (url: string) => void
+  cdp?: boolean // newCDPSession() rejects when false, like in a browser other than Chromium
+  performanceEntryTypes?: string[] // Entry types the PerformanceObserver supports, all by default
+}
+
+/**
+ * Create a Playwright-compatible browser backed by the jsdom global document
+ */
+export const createFixtureBrowser = (options: FixtureBrowserOptions = {}) => {
+  const originalRect = Element.prototype.getBoundingClientRect
+  const originalScrollTo = window.scrollTo
+  const originalObserver = window.PerformanceObserver
+  const scrollTo = (x: number, requestedY: number) => {
+    const pageHeight = Number(document.querySelector('meta[name="fixture-page-height"]')?.getAttribute('content') ?? Infinity)
+    const y = Math.max(0, Math.min(requestedY, pageHeight - window.innerHeight))
+    Object.assign(window, { scrollX: x, scrollY: y, pageXOffset: x, pageYOffset: y })
+  }
+
+  const browser = {
+    newContext: jest.fn(async (contextOptions: { viewport?: { width: number; height: number } } = {}) => {
+      const context = { viewport: contextOptions.viewport }
+      Element.prototype.getBoundingClientRect = function () {
+        return readRect(this)
+      }
+      window.scrollTo = scrollTo as typeof window.scrollTo
+
+      const listeners = new Map<string, CDPListener[]>()
+      const emit = (name: string, event: Record<string, unknown>) => listeners.get(name)?.forEach((listener) => listener(event))
+      let requestCount = 0
+      const download = (url: string, type: string, bytes: number | null) => {
+        const requestId = String(++requestCount)
+        emit('Network.responseReceived', { requestId, type, response: { url } })
+        if (bytes !== null) emit('Network.loadingFinished', { requestId, encodedDataLength: bytes })
+      }
+
+      const pageListeners = new Map<string, PageListener[]>()
+      const emitPage = (name: string, event: unknown) => pageListeners.get(name)?.forEach((listener) => listener(event))
+      const respond = (url: string, status: number) => emitPage('response', { url: () => url, status: () => status })
+
+      let currentUrl = 'about:blank'
+      const initScripts: (() => void)[] = []
+      const load = async (url: string, timeout: number) => {
+        options.onGoto?.(url)
+        const response = await fetchFixture(url, timeout)
+        respond(url, response.status)
+        currentUrl = url
+        if (context.viewport) {
+          Object.assign(window, {
+            innerWidth: context.viewport.width,
+            innerHeight: context.viewport.height,
+          })
+        }
+        scrollTo(0, 0)
+        loadDocument(response.body)
+        delete window.__croVitals
+        Object.assign(window, {
+          PerformanceObserver: createPerformanceObserver(
+            readPerformanceEntries(),
+            options.performanceEntryTypes ?? PERFORMANCE_ENTRY_TYPES
+          ),
+        })
+        initScripts.forEach((script) => script())
+        download(url, 'Document', Buffer.byteLength(response.body))
+        document.querySelectorAll('script[src], img[src], link[rel="stylesheet"][href]').forEach((element) => {
+          const bytes = element.getAttribute('data-bytes')
+          download(
+            new URL(element.getAttribute('src') ?? element.getAttribute('href') ?? '', url).toString(),
+            RESOURCE_TYPES[element.tagName] ?? 'Other',
+            bytes === null ? null : Number(bytes)
+          )
+        })
+        return response
+      }
+
+      // Scripted reactions to clicks, completed in order by settle()
+      let pending = Promise.resolve()
+      const settle = () => pending
+      const onClick = (event: MouseEvent) => {
+        event.preventDefault()
+        const target = (event.target as Element).closest('[data-fixture-opens], [data-fixture-error], [data-fixture-request], [data-fixture-navigates]')
+        const opens = target?.getAttribute('data-fixture-opens')
+        const error = target?.getAttribute('data-fixture-error')
+        const request = target?.getAttribute('data-fixture-request')
+        const navigates = target?.getAttribute('data-fixture-navigates')
+        if (opens) document.querySelectorAll<HTMLElement>(opens).forEach((element) => (element.style.display = 'block'))
+        if (error) emitPage('pageerror', new Error(error))
+        if (request) {
+          const url = new URL(request, currentUrl).toString()
+          pending = pending.then(async () => respond(url, (await fetchFixture(url, 30000)).status))
+        }
+        if (navigates) {
+          const url = new URL(navigates, currentUrl).toString()
+          pending = pending.then(async () => {
+            await load(url, 30000)
+          })
+        }
+      }
+      document.addEventListener('click', onClick, true)
+
+      const page = {
+        goto: jest.fn(async (url: string, gotoOptions: { timeout?: number } = {}) => {
+          const response = await load(url, gotoOptions.timeout ?? 30000)
+          return {
+            ok: () => response.status >= 200 && response.status < 300,
+            status: () => response.status,
+            headers: () => response.headers,
+          }
+        }),
+        on: jest.fn((name: string, listener: PageListener) => {
+          pageListeners.set(name, [...(pageListeners.get(name) ?? []), listener])
+        }),
+        waitForTimeout: jest.fn(settle),
+        waitForLoadState: jest.fn(settle),
+        waitForURL: jest.fn(async (matches: (url: URL) => boolean, waitOptions: { timeout?: number } = {}) => {
+          await settle()
+          if (!matches(new URL(currentUrl))) {
+            const error = new Error(`page.waitForURL: Timeout ${waitOptions.timeout ?? 30000}ms exceeded.`)
+            error.name = 'TimeoutError'
+            throw error
+          }
+        }),
+        url: () => currentUrl,
+        addInitScript: jest.fn(async (script: () => void) => {
+          initScripts.push(script)
+        }),
+        content: jest.fn(async () => `<!DOCTYPE html>${document.documentElement.outerHTML}`),
+        evaluate: jest.fn(async (fn: (arg: unknown) => unknown, arg?: unknown) => fn(arg)),
+        setContent: jest.fn(async () => undefined),
+        screenshot: jest.fn(async () => Buffer.from('fixture-screenshot')),
+        close: jest.fn(async () => undefined),
+      }
+
+      return {
+        newPage: jest.fn(async () => page),
+        newCDPSession: jest.fn(async () => {
+          if (options.cdp === false) throw new Error('CDP session is only available in Chromium')
+          return {
+            send: jest.fn(async () => ({})),
+            on: jest.fn((name: string, listener: CDPListener) => {
+              listeners.set(name, [...(listeners.get(name) ?? []), listener])
+            }),
+            detach: jest.fn(async () => {
+              listeners.clear()
+            }),
+          }
+        }),
+        close: jest.fn(async () => {
+          document.removeEventListener('click', onClick, true)
+          Element.prototype.getBoundingClientRect = originalRect
+          window.scrollTo = originalScrollTo
+          Object.assign(window, { PerformanceObserver: originalObserver })
+        }),
+      }
+    }),
+    close: jest.fn(async () => undefined),
+  }
+
+  return browser as unknown as Browser
+}
+
+/**
+ * fetch() replacement that talks to the fixture server over plain HTTP
+ * (the global fetch is mocked in jest.setup.js)
+ */
+export const createFixtureFetch = (timeout = 5000) =>
+  jest.fn(async (input: RequestInfo | URL) => {
+    const response = await fetchFixture(String(input), timeout)
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      headers: {
+        get: (name: string) => {
+          const value = response.headers[name.toLowerCase()]
+          return value === undefined ? null : String(value)
+        },
+      },
+      text: async () => response.body,
+      json: async () => JSON.parse(response.body),
+    } as unknown as Response
+  }) as jest.Mock & typeof fetch
@@ -2,6 +2,7 @@ import React from 'react'
 import { render, RenderOptions } from '@testing-library/react'
 import { ReactElement, ReactNode } from 'react'
 import { ClerkProvider } from '@clerk/nextjs'
+import type { Page } from '../types'
 
 // Mock data factories for TDD
 export const createMockCrawlResult = (overrides?: Partial<any>) => ({
@@ -31,6 +32,8 @@ export const createMockLLMRecommendation = (overrides?: Partial<any>) => ({
   ],
   codeSnippet: '<div class="trust-badges">Trust badges here</div>',
   whereToPlace: 'Below the add to cart button on product pages',
+  pastePath: 'sections/main-product.liquid',
+  searchCue: 'class="product-form__buttons"',
   ...overrides,
 })
 
@@ -45,6 +48,20 @@ export const createMockAuditReport = (overrides?: Partial<any>) => ({
   ...overrides,
 })
 
+export const createMockPage = (overrides?: Partial<Page>): Page => ({
+  id: 'test-page-id',
+  crawlId: 'test-crawl-id',
+  url: 'https://test-store.myshopify.com',
+  type: 'home',
+  metrics: {
+    aboveFold: { ctaButtons: [], height: 800 },
+    performance: { loadTime: 1000 },
+  },
+  findings: [],
+  crawl: null,
+  ...overrides,
+})
+
 export const createMockHeuristicRule = (overrides?: Partial<any>) => ({
   id: 'test-rule-1',
   name: 'Trust Signal Presence',
@@ -173,6 +173,8 @@ class RecommendationBuilder {
     copyVariants: ['Test copy'],
     codeSnippet: '<div>Test</div>',
     whereToPlace: 'Test placement',
+    pastePath: 'sections/main-product.liquid',
+    searchCue: 'product-form',
   }
   
   withIssue(issue: string) {
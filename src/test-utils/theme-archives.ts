@@ -0,0 +1,134 @@
+/**
+ * Theme archive helpers
+ * Builds theme zips in memory, laid out like Shopify's "Download theme file",
+ * so the archive reader and the upload route can be tested without binary
+ * fixtures. Checksums are left at zero since the reader does not verify them.
+ */
+
+import { deflateRawSync } from 'zlib'
+
+export interface ZipOptions {
+  deflate?: boolean // Stored entries otherwise
+  flags?: number // General purpose bit flags of every entry
+  comment?: string
+}
+
+export const buildZip = (files: Record<string, string>, options: ZipOptions = {}): Buffer => {
+  const { deflate = true, flags = 0, comment = '' } = options
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name)
+    const data = Buffer.from(content)
+    const stored = deflate ? deflateRawSync(data) : data
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(flags, 6)
+    local.writeUInt16LE(deflate ? 8 : 0, 8)
+    local.writeUInt32LE(stored.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, stored)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(flags, 8)
+    central.writeUInt16LE(deflate ? 8 : 0, 10)
+    central.writeUInt32LE(stored.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBytes)
+
+    offset += local.length + nameBytes.length + stored.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  end.writeUInt16LE(Buffer.byteLength(comment), 20)
+
+  return Buffer.concat([...locals, directory, end, Buffer.from(comment)])
+}
+
+const json = (value: unknown) => JSON.stringify(value, null, 2)
+
+// A trimmed down Dawn: image banner hero, block-driven product section with a Judge.me badge
+export const dawnThemeFiles: Record<string, string> = {
+  'layout/theme.liquid': '<!doctype html><html><head>{{ content_for_header }}</head><body>{% sections \'header-group\' %}{{ content_for_layout }}</body></html>',
+  'config/settings_schema.json': json([{ name: 'theme_info', theme_name: 'Dawn', theme_version: '15.0.0', theme_author: 'Shopify' }]),
+  'config/settings_data.json': `/*\n * Generated by Shopify\n */\n${json({ current: 'Default', presets: { Default: {} } })}`,
+  'templates/index.json': `/*\n * IMPORTANT: The contents of this file are auto-generated.\n */\n${json({
+    sections: {
+      image_banner: {
+        type: 'image-banner',
+        blocks: {
+          heading: { type: 'heading', settings: { heading: 'Linen for every season' } },
+          buttons: { type: 'buttons', settings: { button_label_1: 'Shop all', button_label_2: '' } }
+        },
+        block_order: ['heading', 'buttons']
+      },
+      featured_collection: { type: 'featured-collection', settings: { collection: 'all' } }
+    },
+    order: ['image_banner', 'featured_collection']
+  })}`,
+  'templates/product.json': json({
+    sections: {
+      main: {
+        type: 'main-product',
+        blocks: {
+          title: { type: 'title', settings: {} },
+          price: { type: 'price', settings: {} },
+          judge_me: { type: 'shopify://apps/judge-me-reviews/blocks/preview_badge/61ccd3b1-a9f2-4160-9fe9-4fec8413e5d8', settings: {} },
+          buy_buttons: { type: 'buy_buttons', settings: {} }
+        },
+        block_order: ['title', 'price', 'judge_me', 'buy_buttons']
+      },
+      related: { type: 'related-products', settings: {} }
+    },
+    order: ['main', 'related']
+  }),
+  'templates/collection.json': json({ sections: { product_grid: { type: 'main-collection-product-grid', settings: {} } }, order: ['product_grid'] }),
+  'sections/image-banner.liquid': [
+    '{{ section.settings.image | image_url: width: 1500 | image_tag }}',
+    '{%- for block in section.blocks -%}',
+    '  {%- case block.type -%}',
+    '    {%- when \'heading\' -%}<h2>{{ block.settings.heading | escape }}</h2>',
+    '    {%- when \'buttons\' -%}<a class="button button--primary">{{ block.settings.button_label_1 | escape }}</a>',
+    '  {%- endcase -%}',
+    '{%- endfor -%}',
+    '{% schema %}{"name": "Image banner", "blocks": [{"type": "buttons", "name": "<img>"}]}{% endschema %}'
+  ].join('\n'),
+  'sections/featured-collection.liquid': '{% for product in section.settings.collection.products %}{% render \'card-product\', card_product: product %}{% endfor %}',
+  'sections/main-product.liquid': [
+    '{% render \'product-thumbnail\' %}',
+    '{%- for block in section.blocks -%}',
+    '  {%- case block.type -%}',
+    '    {%- when \'@app\' -%}{% render block %}',
+    '    {%- when \'title\' -%}<h1>{{ product.title | escape }}</h1>',
+    '    {%- when \'price\' -%}{%- render \'price\', product: product -%}',
+    '    {%- when \'rating\' -%}{{ product.metafields.reviews.rating.value }}',
+    '  {%- endcase -%}',
+    '{%- endfor -%}'
+  ].join('\n'),
+  'sections/related-products.liquid': '{% comment %}<img src="placeholder.png">{% endcomment %}<div class="related"></div>',
+  'sections/main-collection-product-grid.liquid': '{% for product in collection.products %}{% render \'card-product\', card_product: product %}{% endfor %}',
+  'snippets/price.liquid': '<span class="price">{{ product.price | money }}</span>',
+  'snippets/product-thumbnail.liquid': [
+    '<img src="{{ media | image_url: width: 416 }}" alt="{{ media.alt | escape }}">',
+    '<img class="product__badge" src="{{ \'badge.svg\' | asset_url }}">'
+  ].join('\n'),
+  'snippets/card-product.liquid': '<img src="{{ card_product.featured_media | image_url: width: 533 }}" alt="" {% if lazy %}loading="lazy"{% endif %}>',
+  'assets/base.css': '.button { display: inline-flex; }',
+  'locales/en.default.json': json({ general: { cart: 'Cart' } })
+}
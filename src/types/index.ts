@@ -4,6 +4,21 @@ import { z } from 'zod'
 export const PageTypeEnum = z.enum(['home', 'product', 'collection', 'cart', 'checkout'])
 export const SeverityEnum = z.enum(['high', 'med', 'low'])
 
+export const HeuristicCategoryEnum = z.enum(['performance', 'conversion', 'trust', 'mobile', 'accessibility'])
+
+export const DeviceEnum = z.enum(['desktop', 'mobile'])
+export const PersonaEnum = z.enum(['default', 'fr-que'])
+export const AuditStatusEnum = z.enum(['pending', 'crawling', 'analyzing', 'completed', 'failed'])
+export const AuditSourceEnum = z.enum(['crawl', 'theme']) // Live store pages, or templates of an uploaded theme
+
+export type PageType = z.infer<typeof PageTypeEnum>
+export type Severity = z.infer<typeof SeverityEnum>
+export type HeuristicCategory = z.infer<typeof HeuristicCategoryEnum>
+export type Device = z.infer<typeof DeviceEnum>
+export type PersonaId = z.infer<typeof PersonaEnum>
+export type AuditStatus = z.infer<typeof AuditStatusEnum>
+export type AuditSource = z.infer<typeof AuditSourceEnum>
+
 // CTA Button type
 export const CTAButtonSchema = z.object({
   text: z.string(),
@@ -21,30 +36,384 @@ export const CTAButtonSchema = z.object({
 
 export type CTAButton = z.infer<typeof CTAButtonSchema>
 
-// Page metrics type
-export const PageMetricsSchema = z.object({
-  aboveFold: z.object({
-    ctaButtons: z.array(CTAButtonSchema),
+// Rendered box of an element, in document coordinates
+export const ElementBoxSchema = z.object({
+  selector: z.string(),
+  position: z.object({
+    top: z.number(),
+    left: z.number(),
+  }),
+  size: z.object({
+    width: z.number(),
+    height: z.number(),
+  }),
+})
+
+export type ElementBox = z.infer<typeof ElementBoxSchema>
+
+// Helpers the crawler installs on window.__croDom before running in-page extractors
+export interface CrawlerDomHelpers {
+  buildSelector: (element: Element) => string
+  describeBox: (element: Element) => ElementBox
+  isVisible: (element: Element) => boolean
+  readText: (element: Element) => string
+}
+
+// Performance entries the web vitals observers record on window.__croVitals from the start of navigation
+export interface VitalsRecorder {
+  fcp: number | null
+  lcp: number | null
+  layoutShifts: { value: number; startTime: number }[] // Shifts without recent input
+  longTasks: { startTime: number; duration: number }[]
+}
+
+declare global {
+  interface Window {
+    __croDom?: CrawlerDomHelpers
+    __croVitals?: VitalsRecorder
+  }
+}
+
+// Product page pricing, variant and add-to-cart data
+export const PriceElementSchema = ElementBoxSchema.extend({
+  text: z.string(),
+  amount: z.number(),
+  onSale: z.boolean(), // Element is styled as a sale price
+  aboveFold: z.boolean(),
+})
+
+export type PriceElement = z.infer<typeof PriceElementSchema>
+
+export const AddToCartSchema = ElementBoxSchema.extend({
+  text: z.string(),
+  disabled: z.boolean(),
+  aboveFold: z.boolean(),
+  distanceFromPrice: z.number().nullable(), // Pixels between price and button centres
+})
+
+export type AddToCart = z.infer<typeof AddToCartSchema>
+
+export const ProductMetricsSchema = z.object({
+  prices: z.array(PriceElementSchema),
+  compareAtPrice: PriceElementSchema.nullable(),
+  variantSelector: z.object({
+    type: z.enum(['dropdown', 'buttons', 'swatches', 'none']),
+    optionCount: z.number(),
+  }),
+  addToCart: AddToCartSchema.nullable(),
+})
+
+export type ProductMetrics = z.infer<typeof ProductMetricsSchema>
+
+// Review app widgets detected on the page
+export const ReviewAppEnum = z.enum(['judgeme', 'yotpo', 'loox', 'okendo', 'shopify_reviews'])
+
+export type ReviewApp = z.infer<typeof ReviewAppEnum>
+
+export const SocialProofMetricsSchema = z.object({
+  app: ReviewAppEnum.nullable(), // App whose widget shows the rating, or the first one detected
+  detectedApps: z.array(ReviewAppEnum),
+  rating: z.number().nullable(),
+  reviewCount: z.number().nullable(),
+  widget: ElementBoxSchema.nullable(),
+  nearTitle: z.boolean(),
+  aboveFold: z.boolean(),
+})
+
+export type SocialProofMetrics = z.infer<typeof SocialProofMetricsSchema>
+
+// Add-to-cart control still on screen after scrolling past the main product form
+export const StickyAddToCartSchema = z.object({
+  visibleAfterScroll: z.boolean(),
+  scrolledPast: z.boolean(), // False when the page is too short to scroll the main button out of view, or has none
+  scrollDepth: z.number(), // Deepest scroll position checked, 0 when the page has no add-to-cart button
+  element: ElementBoxSchema.extend({ text: z.string() }).nullable(),
+})
+
+export type StickyAddToCart = z.infer<typeof StickyAddToCartSchema>
+
+// Collection page filtering, sorting, product grid and pagination
+export const ProductCardSchema = ElementBoxSchema.extend({
+  title: z.string(),
+  price: z.string().nullable(), // Price text, null when the card shows none
+  image: z.boolean(),
+  rating: z.boolean(), // Star rating or review count
+  badges: z.array(z.string()), // e.g. "Sale", "Sold out", "New"
+  quickAdd: z.boolean(), // Adds to cart or opens a quick view without leaving the collection
+  aboveFold: z.boolean(), // At least half of the card shows without scrolling
+})
+
+export type ProductCard = z.infer<typeof ProductCardSchema>
+
+export const ProductGridSchema = z.object({
+  columns: z.number(), // Cards in the first row
+  cardsAboveFold: z.number(),
+})
+
+export type ProductGrid = z.infer<typeof ProductGridSchema>
+
+export const CollectionMetricsSchema = z.object({
+  filters: z.object({
+    groups: z.array(z.string()), // Filtered attributes, e.g. "size", "price"
+    element: ElementBoxSchema.nullable(), // Filter form, or the button opening it
+  }),
+  sort: z.object({
+    options: z.array(z.string()),
+    element: ElementBoxSchema, // Sort control, or the button opening it
+  }).nullable(),
+  productCount: z.number(), // Cards in the grid
+  totalProducts: z.number().nullable(), // Products in the collection, when the theme shows the count
+  grid: ProductGridSchema,
+  cards: z.array(ProductCardSchema), // The first cards of the grid
+  pagination: z.enum(['pages', 'load_more', 'infinite_scroll', 'none']),
+})
+
+export type CollectionMetrics = z.infer<typeof CollectionMetricsSchema>
+
+export const AboveFoldMetricsSchema = z.object({
+  ctaButtons: z.array(CTAButtonSchema),
+  height: z.number(),
+})
+
+export type AboveFoldMetrics = z.infer<typeof AboveFoldMetricsSchema>
+
+// Accessibility checks, one entry per offending element (lists are capped, counts are not)
+export const AccessibilityIssueSchema = z.object({
+  selector: z.string(),
+  attribute: z.string(), // Attribute at fault, e.g. alt, tabindex, aria-label
+  value: z.string().nullable(), // Its current value, null when missing
+})
+
+export type AccessibilityIssue = z.infer<typeof AccessibilityIssueSchema>
+
+export const TapTargetMetricsSchema = z.object({
+  total: z.number(),
+  minSize: z.number(), // Smallest acceptable width and height, in CSS pixels
+  undersizedCount: z.number(),
+  undersized: z.array(AccessibilityIssueSchema),
+})
+
+export type TapTargetMetrics = z.infer<typeof TapTargetMetricsSchema>
+
+export const AccessibilityMetricsSchema = z.object({
+  images: z.object({
+    total: z.number(),
+    withAlt: z.number(), // alt="" counts: it marks the image as decorative
+    missingAlt: z.array(AccessibilityIssueSchema),
+  }),
+  formFields: z.object({
+    total: z.number(),
+    unlabeledCount: z.number(),
+    unlabeled: z.array(AccessibilityIssueSchema),
+  }),
+  headings: z.object({
+    h1Count: z.number(),
+    outline: z.array(z.object({ level: z.number(), text: z.string() })),
+    skippedLevels: z.array(AccessibilityIssueSchema),
+  }),
+  focusOrder: z.object({
+    positiveTabIndex: z.array(AccessibilityIssueSchema),
+  }),
+})
+
+export type AccessibilityMetrics = z.infer<typeof AccessibilityMetricsSchema>
+
+// Script bytes one third-party app, or one unrecognised third-party host, added to the page
+export const AppScriptWeightSchema = z.object({
+  app: z.string().nullable(), // Id of a known app (see crawler/third-party-apps), null for an unrecognised host
+  name: z.string(), // App name, or the host when unrecognised
+  hosts: z.array(z.string()),
+  bytes: z.number(), // Transferred (compressed) bytes
+  requests: z.number(),
+})
+
+export type AppScriptWeight = z.infer<typeof AppScriptWeightSchema>
+
+// Lab Core Web Vitals and page weight, measured once per page under throttled mobile conditions
+export const WebVitalsSchema = z.object({
+  device: DeviceEnum, // Profile the page was measured with
+  fcp: z.number().nullable(), // First contentful paint in ms, null when nothing was painted
+  lcp: z.number().nullable(), // Largest contentful paint in ms
+  cls: z.number(), // Cumulative layout shift, largest session window
+  tbt: z.number(), // Total blocking time in ms after first paint, the lab stand-in for INP
+  totalBytes: z.number(), // Transferred bytes of every request
+  jsBytes: z.number(),
+  imageBytes: z.number(),
+  thirdPartyScriptBytes: z.number(),
+  apps: z.array(AppScriptWeightSchema), // Third-party scripts by app, heaviest first
+})
+
+export type WebVitals = z.infer<typeof WebVitalsSchema>
+
+// Scripted purchase path from a product page to the checkout entry point, walked once per device
+export const FunnelStepIdEnum = z.enum(['product', 'variant', 'add_to_cart', 'cart', 'checkout'])
+
+export type FunnelStepId = z.infer<typeof FunnelStepIdEnum>
+
+export const FunnelStepSchema = z.object({
+  step: FunnelStepIdEnum,
+  status: z.enum(['passed', 'failed', 'skipped']), // Steps after a failed one are skipped
+  durationMs: z.number(),
+  url: z.string().nullable(), // Page the step ended on
+  errors: z.array(z.string()), // Uncaught script errors and failed cart requests during the step
+  detail: z.string().nullable(), // What happened, or why the step failed
+})
+
+export type FunnelStep = z.infer<typeof FunnelStepSchema>
+
+export const ExpressPayProviderEnum = z.enum(['shop_pay', 'apple_pay', 'google_pay', 'paypal', 'amazon_pay', 'other'])
+
+export type ExpressPayProvider = z.infer<typeof ExpressPayProviderEnum>
+
+// Cart as shoppers see it after adding the product: the drawer when the theme opens one, else the cart page
+export const CartViewSchema = z.object({
+  view: z.enum(['drawer', 'page']),
+  itemCount: z.number(), // Line items shown
+  checkoutButton: ElementBoxSchema.extend({
+    text: z.string(),
+    disabled: z.boolean(),
+    onScreen: z.boolean(), // Fully visible without scrolling the page or the drawer
+  }).nullable(),
+  upsell: z.boolean(), // Product recommendations or cross-sells in the cart
+  shippingThreshold: z.string().nullable(), // Free shipping message, e.g. "You're $20 away from free shipping"
+  expressPay: z.array(ExpressPayProviderEnum), // Accelerated checkout buttons
+})
+
+export type CartView = z.infer<typeof CartViewSchema>
+
+export const FunnelRunSchema = z.object({
+  device: DeviceEnum,
+  steps: z.array(FunnelStepSchema), // One per FunnelStepIdEnum value, in order
+  variant: z.string().nullable(), // Variant picked, e.g. "M / Blue", null when the product has a single one
+  opened: z.enum(['drawer', 'notification', 'page', 'none']).nullable(), // What adding to cart opened, null when it was not attempted
+  cart: CartViewSchema.nullable(),
+  checkoutUrl: z.string().nullable(), // Checkout entry point reached
+})
+
+export type FunnelRun = z.infer<typeof FunnelRunSchema>
+
+export const FunnelMetricsSchema = z.object({
+  productUrl: z.string(),
+  runs: z.array(FunnelRunSchema), // Primary device first
+})
+
+export type FunnelMetrics = z.infer<typeof FunnelMetricsSchema>
+
+// Metrics captured separately for each device profile the page was crawled with
+export const DeviceMetricsSchema = z.object({
+  viewport: z.object({
+    width: z.number(),
     height: z.number(),
   }),
+  aboveFold: AboveFoldMetricsSchema,
+  stickyAddToCart: StickyAddToCartSchema.optional(), // Only collected on product pages
+  productGrid: ProductGridSchema.optional(), // Only collected on collection pages
+  tapTargets: TapTargetMetricsSchema.optional(),
+})
+
+export type DeviceMetrics = z.infer<typeof DeviceMetricsSchema>
+
+// Page metrics type
+export const PageMetricsSchema = z.object({
+  aboveFold: AboveFoldMetricsSchema, // Primary (first crawled) device
   performance: z.object({
     loadTime: z.number(),
+    vitals: WebVitalsSchema.optional(), // Not collected when web vitals are turned off or cannot be measured
   }),
+  product: ProductMetricsSchema.optional(), // Only collected on product pages
+  socialProof: SocialProofMetricsSchema.optional(), // Only collected on product pages
+  collection: CollectionMetricsSchema.optional(), // Only collected on collection pages
+  accessibility: AccessibilityMetricsSchema.optional(),
+  funnel: FunnelMetricsSchema.optional(), // Only on the cart page recorded by a funnel crawl
+  viewports: z.object({
+    desktop: DeviceMetricsSchema.optional(),
+    mobile: DeviceMetricsSchema.optional(),
+  }).optional(),
 })
 
 export type PageMetrics = z.infer<typeof PageMetricsSchema>
 
+// dawn: Dawn or a free Shopify theme built on it; os2: other Online Store 2.0 theme; vintage: pre-2.0 theme
+export const ThemeFamilyEnum = z.enum(['dawn', 'os2', 'vintage'])
+
+export type ThemeFamily = z.infer<typeof ThemeFamilyEnum>
+
+// Theme section rendered on a page, read from its shopify-section-* wrapper
+export const ThemeSectionSchema = z.object({
+  id: z.string(), // Wrapper id without the shopify-section- prefix
+  type: z.string(), // Section type, i.e. its file name in sections/
+  file: z.string(), // e.g. sections/main-product.liquid
+})
+
+export type ThemeSection = z.infer<typeof ThemeSectionSchema>
+
+// Theme detected in the crawled HTML, from Shopify.theme and the section ids
+export const ThemeInfoSchema = z.object({
+  name: z.string().nullable(), // As renamed by the merchant
+  schemaName: z.string().nullable(), // Theme it was installed from, e.g. Dawn
+  schemaVersion: z.string().nullable(),
+  themeStoreId: z.number().nullable(),
+  family: ThemeFamilyEnum,
+  sections: z.array(ThemeSectionSchema), // In page order
+})
+
+export type ThemeInfo = z.infer<typeof ThemeInfoSchema>
+
+// <img> tag of an uploaded theme without an alt attribute
+export const ThemeImageIssueSchema = AccessibilityIssueSchema.extend({
+  file: z.string(), // e.g. snippets/card-product.liquid
+  line: z.number(),
+})
+
+export type ThemeImageIssue = z.infer<typeof ThemeImageIssueSchema>
+
+// Static checks of one template of an uploaded theme, read from its Liquid and JSON files
+export const ThemeTemplateMetricsSchema = z.object({
+  hero: z.object({
+    sectionId: z.string(),
+    file: z.string(),
+    ctaLabels: z.array(z.string()), // Button labels set in the section or its blocks
+  }).nullable(), // First section of home templates; null elsewhere or when the template is empty
+  mainProduct: z.object({
+    sectionId: z.string(),
+    file: z.string(),
+    rendersPrice: z.boolean(),
+    rendersReviews: z.boolean(), // Star rating from an app or from the reviews metafield
+    reviewApp: ReviewAppEnum.nullable(),
+  }).nullable(), // Main section of product templates
+  images: z.object({
+    total: z.number(),
+    withAlt: z.number(),
+    missingAlt: z.array(ThemeImageIssueSchema),
+  }),
+})
+
+export type ThemeTemplateMetrics = z.infer<typeof ThemeTemplateMetricsSchema>
+
 // Core Page type (matches Prisma model)
 export interface Page {
   id: string
   crawlId: string
   url: string
-  type: 'home' | 'product' | 'collection'
+  type: PageType
   metrics: PageMetrics
   findings: Finding[]
   crawl: any // Will be properly typed with Prisma
 }
 
+// Template of an uploaded theme, analyzed like a crawled page
+export interface ThemePage {
+  id: string
+  crawlId: string
+  url: string // Template path, e.g. templates/product.json
+  type: PageType
+  metrics: ThemeTemplateMetrics
+  theme: ThemeInfo
+}
+
+// What the heuristic engine needs to know about a page, crawled or read from a theme
+export type AnalyzedPage = Pick<Page, 'id' | 'url' | 'type'>
+
 // Finding type
 export interface Finding {
   id: string
@@ -66,12 +435,176 @@ export interface HeuristicResult {
 }
 
 // Base heuristic rule interface
-export interface BaseHeuristicRule {
+export interface BaseHeuristicRule<P extends AnalyzedPage = Page> {
   ruleId: string
   maxScore: number
   name: string
   description: string
-  analyze(page: Page): HeuristicResult
+  category: HeuristicCategory
+  pageTypes?: readonly PageType[] // Rule is only run on these page types when set
+  thresholds?: Readonly<Record<string, RuleThreshold>> // Tunable values, configurable per rule and per site
+  analyze(page: P, thresholds?: RuleThresholdValues): HeuristicResult
+}
+
+// Tunable value of a rule with its built-in default and the range it may be configured in
+export const RuleThresholdSchema = z.object({
+  default: z.number().finite(),
+  min: z.number().finite(),
+  max: z.number().finite(),
+  description: z.string().min(1),
+}).strict()
+
+export type RuleThreshold = z.infer<typeof RuleThresholdSchema>
+
+export type RuleThresholdValues = Record<string, number>
+
+// Settings a rule runs with; severity null keeps the severities the rule assigns to its findings
+export interface RuleSettings {
+  enabled: boolean
+  severity: Severity | null
+  maxScore: number
+  thresholds: RuleThresholdValues
+}
+
+export const RuleConfigSourceEnum = z.enum(['global', 'site'])
+
+export type RuleConfigSource = z.infer<typeof RuleConfigSourceEnum>
+
+// A setting that differs from the built-in rule, e.g. setting "thresholds.minProminentWidth"
+export interface RuleConfigChange {
+  ruleId: string
+  setting: string
+  from: boolean | number | string | null
+  to: boolean | number | string | null
+  source: RuleConfigSource
+}
+
+// Rule settings an audit was scored with, recorded on the Audit row
+export interface AuditRuleConfig {
+  rules: Record<string, RuleSettings>
+  changes: RuleConfigChange[]
+}
+
+// PUT /api/admin/rules/[ruleId] body; replaces the global configuration, null settings use the built-in ones
+export const SaveRuleConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  severity: SeverityEnum.nullable().default(null),
+  maxScore: z.number().int().min(0).max(100).nullable().default(null),
+  thresholds: z.record(z.number().finite()).default({}),
+})
+
+export type SaveRuleConfigRequest = z.infer<typeof SaveRuleConfigSchema>
+
+// PUT /api/sites/[siteId]/rules/[ruleId] body; replaces the site override, null settings follow the global configuration
+export const SaveRuleOverrideSchema = SaveRuleConfigSchema.extend({
+  enabled: z.boolean().nullable().default(null),
+})
+
+export type SaveRuleOverrideRequest = z.infer<typeof SaveRuleOverrideSchema>
+
+// Stored global configuration or site override of a rule
+export type StoredRuleConfig = SaveRuleOverrideRequest & { ruleId: string }
+
+// A built-in rule with its defaults and the settings audits currently run it with
+export interface RuleConfigView {
+  ruleId: string
+  name: string
+  description: string
+  category: HeuristicCategory
+  thresholds: Record<string, RuleThreshold>
+  defaults: RuleSettings
+  global: StoredRuleConfig | null
+  override: StoredRuleConfig | null // Site listings only
+  effective: RuleSettings
+}
+
+// Declarative rules, written as JSON or YAML files instead of BaseHeuristicRule classes.
+// Paths point into PageMetrics with dots, e.g. product.prices.0.aboveFold or aboveFold.ctaButtons.length
+export const RuleConditionOperatorEnum = z.enum(['exists', 'missing', 'eq', 'ne', 'lt', 'lte', 'gt', 'gte'])
+
+export type RuleConditionOperator = z.infer<typeof RuleConditionOperatorEnum>
+
+// Compares the value at path with a literal value or one of the rule's thresholds; exists and missing take neither
+export const RuleConditionSchema = z.object({
+  path: z.string().min(1),
+  op: RuleConditionOperatorEnum,
+  value: z.union([z.string(), z.number(), z.boolean(), z.null()]).optional(),
+  threshold: z.string().optional(),
+}).strict()
+
+export type RuleCondition = z.infer<typeof RuleConditionSchema>
+
+// Outcome of a page matching every condition; tiers are tried in order and a page matching none passes
+export const RuleTierSchema = z.object({
+  when: z.array(RuleConditionSchema).min(1),
+  scoreRatio: z.number().min(0).max(1), // Share of maxScore the page still earns
+  finding: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Finding ids are snake_case'),
+  severity: SeverityEnum,
+  evidence: z.record(z.string()).default({}), // Evidence field -> path of the value to capture
+}).strict()
+
+export type RuleTier = z.infer<typeof RuleTierSchema>
+
+export const DeclarativeRuleSchema = z.object({
+  ruleId: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Rule ids are snake_case'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  category: HeuristicCategoryEnum,
+  pageTypes: z.array(PageTypeEnum).min(1).optional(),
+  maxScore: z.number().int().min(0).max(100),
+  requires: z.array(z.string()).default([]), // Paths the crawl must have collected, the rule is skipped otherwise
+  thresholds: z.record(RuleThresholdSchema).default({}),
+  tiers: z.array(RuleTierSchema).min(1),
+}).strict()
+
+export type DeclarativeRuleDefinition = z.infer<typeof DeclarativeRuleSchema>
+
+// Page a declarative rule is tested against, with the result it should get; unset expectations are not checked
+export const RuleFixtureSchema = z.object({
+  name: z.string().min(1),
+  pageType: PageTypeEnum,
+  url: z.string().url().default('https://fixture-store.myshopify.com/'),
+  metrics: PageMetricsSchema,
+  thresholds: z.record(z.number().finite()).optional(), // Runs with the rule's defaults when unset
+  expect: z.object({
+    skipped: z.boolean().optional(),
+    passed: z.boolean().optional(),
+    score: z.number().optional(),
+    finding: z.string().nullable().optional(), // Finding id, null when the page should get none
+    severity: SeverityEnum.optional(),
+    evidence: z.record(z.unknown()).optional(),
+  }).strict(),
+}).strict()
+
+export type RuleFixture = z.infer<typeof RuleFixtureSchema>
+
+export interface RuleFixtureResult {
+  name: string
+  passed: boolean
+  failures: string[] // One line per unmet expectation
+  result: HeuristicResult
+}
+
+// One rule evaluated against one page by the heuristic engine
+export interface RuleExecution {
+  ruleId: string
+  pageId: string
+  category: HeuristicCategory
+  maxScore: number
+  result: HeuristicResult
+}
+
+// Normalised 0-100 audit score with per-category breakdown
+export interface AuditScore {
+  overall: number | null
+  breakdown: Partial<Record<HeuristicCategory, number>>
+}
+
+export interface HeuristicRunResult {
+  score: AuditScore
+  findings: Finding[]
+  executions: RuleExecution[]
+  errors: HeuristicError[]
 }
 
 export const LLMRecommendationSchema = z.object({
@@ -82,10 +615,406 @@ export const LLMRecommendationSchema = z.object({
   copyVariants: z.array(z.string()).min(1),
   codeSnippet: z.string(),
   whereToPlace: z.string().min(1),
+  pastePath: z.string().max(200), // Theme file the snippet goes in, e.g. sections/main-product.liquid; "" without a snippet
+  searchCue: z.string().max(100), // Text to search for in that file, e.g. class="product-form"; "" without a snippet
 })
 
 export type LLMRecommendation = z.infer<typeof LLMRecommendationSchema>
 
+// Chat message exchanged with an OpenAI-compatible endpoint
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export const TokenUsageSchema = z.object({
+  prompt: z.number().int().nonnegative(),
+  completion: z.number().int().nonnegative(),
+  total: z.number().int().nonnegative(),
+})
+
+export type TokenUsage = z.infer<typeof TokenUsageSchema>
+
+export interface LLMCompletion {
+  content: string
+  model: string
+  usage?: TokenUsage // Reported by the provider; estimated from text when missing
+}
+
+// Spend of one or more LLM calls; costCents keeps fractions of a cent for billing
+export interface LLMUsageSummary {
+  calls: number
+  tokenUsage: TokenUsage
+  costCents: number
+}
+
+// Backend that answers chat prompts; failures must be thrown as LLMError
+export interface LLMProvider {
+  readonly name: string
+  complete(messages: LLMMessage[]): Promise<LLMCompletion>
+}
+
+// ?page=1&limit=10 on list endpoints
+export const PaginationQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(10),
+})
+
+export type PaginationQuery = z.infer<typeof PaginationQuerySchema>
+
+export interface Pagination {
+  page: number
+  limit: number
+  total: number
+  hasNext: boolean
+  hasPrev: boolean
+}
+
+// Per-site crawl settings; unset values fall back to the crawler defaults
+export const SiteSettingsSchema = z.object({
+  persona: PersonaEnum.optional(),
+  maxPages: z.number().int().min(1).max(50).optional(),
+  excludePaths: z.array(z.string().startsWith('/', 'Excluded paths must start with /')).max(50).optional(),
+})
+
+export type SiteSettings = z.infer<typeof SiteSettingsSchema>
+
+// POST /api/sites body
+export const CreateSiteSchema = z.object({
+  url: z.string().url('Invalid URL format'),
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).optional(),
+  settings: SiteSettingsSchema.default({}),
+})
+
+export type CreateSiteRequest = z.infer<typeof CreateSiteSchema>
+
+// PUT /api/sites/[siteId] body; settings replace the stored settings as a whole
+export const UpdateSiteSchema = CreateSiteSchema.omit({ url: true, settings: true }).extend({
+  settings: SiteSettingsSchema.optional(),
+  isActive: z.boolean().optional(),
+})
+
+export type UpdateSiteRequest = z.infer<typeof UpdateSiteSchema>
+
+export interface Site {
+  id: string
+  url: string // Storefront origin
+  name: string | null
+  description: string | null
+  settings: SiteSettings
+  isActive: boolean
+  createdAt: Date
+  lastCrawledAt: Date | null
+}
+
+// daily and weekly run at fixed times (see CRON_PRESETS); cron takes a 5-field UTC expression
+export const ScheduleFrequencyEnum = z.enum(['daily', 'weekly', 'cron'])
+
+export type ScheduleFrequency = z.infer<typeof ScheduleFrequencyEnum>
+
+// PUT /api/sites/[siteId]/schedule body; replaces the site's schedule as a whole
+export const SaveScheduleSchema = z
+  .object({
+    frequency: ScheduleFrequencyEnum,
+    cron: z.string().trim().min(1).max(100).optional(), // Required for the cron frequency
+    enabled: z.boolean().default(true),
+    webhookUrl: z.string().url('Invalid webhook URL').startsWith('http', 'Webhook URL must use http or https').nullable().optional(),
+    scoreDropThreshold: z.number().int().min(1).max(100).default(5),
+    alertOnHighSeverity: z.boolean().default(true),
+    rotateSecret: z.boolean().default(false), // Issue a new webhook signing secret
+  })
+  .refine(body => body.frequency !== 'cron' || body.cron, { message: 'cron is required for the cron frequency', path: ['cron'] })
+
+export type SaveScheduleRequest = z.infer<typeof SaveScheduleSchema>
+
+export interface WebhookDeliverySummary {
+  id: string
+  event: string
+  status: 'pending' | 'delivered' | 'failed'
+  attempts: number
+  responseStatus: number | null
+  lastError: string | null
+  createdAt: Date
+  deliveredAt: Date | null
+}
+
+// GET /api/sites/[siteId]/schedule payload; deliveries are the most recent first
+export interface AuditSchedule {
+  id: string
+  siteId: string
+  frequency: ScheduleFrequency
+  cron: string
+  enabled: boolean
+  nextRunAt: Date
+  lastRunAt: Date | null
+  webhookUrl: string | null
+  webhookSecret: string
+  scoreDropThreshold: number
+  alertOnHighSeverity: boolean
+  deliveries: WebhookDeliverySummary[]
+}
+
+// POST /api/audit body; a storeUrl without a matching site registers the store first
+export const StartAuditRequestSchema = z
+  .object({
+    siteId: z.string().min(1).optional(),
+    storeUrl: z.string().url('Invalid URL format').optional(),
+    persona: PersonaEnum.optional(), // Defaults to the site persona
+    pages: z.array(z.string().url('Invalid page URL')).max(50).optional(), // Crawl these instead of discovering pages
+    budgetCents: z.number().int().positive().optional(), // Cap on LLM spend for this audit
+  })
+  .refine(body => body.siteId || body.storeUrl, { message: 'siteId or storeUrl is required' })
+
+export type StartAuditRequest = z.infer<typeof StartAuditRequestSchema>
+
+// POST /api/audit/theme form fields, sent along with the theme archive
+export const StartThemeAuditRequestSchema = z.object({
+  siteId: z.string().min(1, 'siteId is required'),
+  persona: PersonaEnum.optional(), // Defaults to the site persona
+  budgetCents: z.coerce.number().int().positive().optional(), // Cap on LLM spend for this audit
+})
+
+export type StartThemeAuditRequest = z.infer<typeof StartThemeAuditRequestSchema>
+
+// Comma-separated query parameter such as `severity=high,med`
+const csvOf = <T extends z.ZodTypeAny>(item: T) =>
+  z.string().transform(value => value.split(',').map(part => part.trim()).filter(Boolean)).pipe(z.array(item).min(1))
+
+export const ReportSortEnum = z.enum(['ice', 'severity', 'page'])
+
+export type ReportSort = z.infer<typeof ReportSortEnum>
+
+// GET /api/report query string
+export const ReportQuerySchema = z.object({
+  crawlId: z.string().min(1, 'crawlId is required'),
+  sort: ReportSortEnum.default('ice'),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  pageType: csvOf(PageTypeEnum).optional(),
+  category: csvOf(HeuristicCategoryEnum).optional(),
+  severity: csvOf(SeverityEnum).optional(),
+})
+
+export type ReportQuery = z.infer<typeof ReportQuerySchema>
+
+// GET /api/report/compare query string
+export const CompareQuerySchema = z.object({
+  crawlId: z.string().min(1, 'crawlId is required'),
+  baseId: z.string().min(1).optional(), // Defaults to the previous completed audit of the same site
+})
+
+export type CompareQuery = z.infer<typeof CompareQuerySchema>
+
+// GET /api/usage query string; from is inclusive and to exclusive, e.g. ?from=2026-10-01&to=2026-11-01
+export const UsageQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine(query => !query.from || !query.to || query.from < query.to, { message: 'from must be before to', path: ['to'] })
+
+export type UsageQuery = z.infer<typeof UsageQuerySchema>
+
+// regressed: still reported, at a higher severity than before
+// fixed: the rule ran again on the same page or template without reporting it
+// not_rechecked: gone, but the rule did not run on that page or template again (disabled, skipped or not crawled)
+export const FindingChangeEnum = z.enum(['regressed', 'new', 'persisting', 'fixed', 'not_rechecked'])
+
+export type FindingChange = z.infer<typeof FindingChangeEnum>
+
+export interface ComparedFindingSide {
+  id: string
+  ruleId: string // What was found on this side, e.g. hero_cta_weak before and hero_cta_missing after
+  pageUrl: string
+  severity: Severity
+  evidence: Record<string, any>
+}
+
+export interface ComparedFinding {
+  change: FindingChange
+  ruleId: string // Latest finding id, the target's when there is one
+  ruleKey: string // Rule the findings are matched on
+  category: HeuristicCategory
+  pageType: PageType
+  base: ComparedFindingSide | null // null for new findings
+  target: ComparedFindingSide | null // null for fixed and not re-checked findings
+}
+
+// null when the audit has no score for it; delta is target - base
+export interface ScoreDelta {
+  base: number | null
+  target: number | null
+  delta: number | null
+}
+
+export interface AuditSnapshot {
+  id: string
+  status: AuditStatus
+  score: number | null
+  completedAt: string | null
+}
+
+// GET /api/report/compare payload; findings are ordered regressed, new, persisting, fixed, not re-checked
+export interface AuditComparison {
+  site: { id: string; url: string; name: string | null }
+  base: AuditSnapshot
+  target: AuditSnapshot
+  score: {
+    overall: ScoreDelta
+    categories: Partial<Record<HeuristicCategory, ScoreDelta>>
+  }
+  summary: Record<FindingChange, number>
+  findings: ComparedFinding[]
+}
+
+export const ExportFormatEnum = z.enum(['md', 'csv', 'html', 'pdf'])
+
+export type ExportFormat = z.infer<typeof ExportFormatEnum>
+
+// GET /api/report/export query string
+export const ExportQuerySchema = z.object({
+  crawlId: z.string().min(1, 'crawlId is required'),
+  format: ExportFormatEnum.default('md'),
+})
+
+// Recommendation with 1-5 scores; ice = impact x confidence / effort, 0.2-25
+export interface ReportRecommendation {
+  id: string
+  issue: string
+  rationale: string
+  impact: number
+  confidence: number
+  effort: number
+  ice: number
+  copyVariants: string[]
+  snippet: string
+  whereToPlace: string
+  pastePath: string // "" when there is no snippet
+  searchCue: string
+  version: number // Pinned version shown in the report
+}
+
+// Full-page screenshot or its above-the-fold thumbnail
+export const ScreenshotVariantEnum = z.enum(['full', 'thumbnail'])
+
+export type ScreenshotVariant = z.infer<typeof ScreenshotVariantEnum>
+
+// GET /api/screenshots/[id] query string
+export const ScreenshotQuerySchema = z.object({
+  variant: ScreenshotVariantEnum.default('full'),
+})
+
+// Screenshot of a crawled page; width and height are the page size in CSS pixels
+export interface ReportScreenshot {
+  id: string
+  device: Device
+  width: number
+  height: number
+  imageUrl: string
+  thumbnailUrl: string
+}
+
+// Box to draw over a screenshot, in its CSS pixels; fold lines have no height
+export interface ScreenshotOverlay {
+  kind: 'element' | 'fold'
+  label: string
+  top: number
+  left: number
+  width: number
+  height: number
+}
+
+// Screenshot of the device a finding was reported on, with the elements it points at
+export interface FindingScreenshot extends ReportScreenshot {
+  overlays: ScreenshotOverlay[]
+}
+
+export interface ReportFinding {
+  id: string
+  ruleId: string
+  category: HeuristicCategory
+  severity: Severity
+  pageUrl: string
+  pageType: PageType
+  evidence: Record<string, any>
+  recommendation: ReportRecommendation | null
+  screenshot: FindingScreenshot | null
+}
+
+// Crawled page with its screenshots, one per device
+export interface ReportPage {
+  id: string
+  url: string
+  pageType: PageType
+  screenshots: ReportScreenshot[]
+}
+
+export interface ReportSummary {
+  totalFindings: number
+  highCount: number
+  mediumCount: number
+  lowCount: number
+}
+
+// GET /api/report payload; summary counts every finding matching the filters
+export interface AuditReport {
+  crawl: {
+    id: string
+    status: AuditStatus
+    source: AuditSource
+    persona: PersonaId
+    ruleChanges: RuleConfigChange[] // Rule settings that differed from the built-in rules
+    startedAt: string | null
+    finishedAt: string | null
+    failureReason: string | null
+    stats: {
+      pagesTotal: number
+      pagesSuccessful: number
+      pagesFailed: number
+      duration: number | null // Seconds
+      costCents: number
+      tokenUsage: TokenUsage
+    }
+  }
+  site: { id: string; url: string; name: string | null }
+  score: AuditScore
+  pages: ReportPage[]
+  findings: ReportFinding[]
+  summary: ReportSummary
+  pagination: Pagination
+}
+
+// POST /api/recommendations/[id]/regenerate body
+export const RegenerateRecommendationSchema = z.object({
+  hint: z.string().trim().min(1).max(500).optional(), // e.g. "shorter copy"
+  persona: PersonaEnum.optional(), // Defaults to the persona of the pinned version
+  pin: z.boolean().default(true), // Show the new version in the report right away
+})
+
+export type RegenerateRecommendationRequest = z.infer<typeof RegenerateRecommendationSchema>
+
+// PATCH /api/recommendations/[id] body
+export const PinRecommendationVersionSchema = z.object({
+  version: z.number().int().positive(),
+})
+
+export interface RecommendationVersion extends LLMRecommendation {
+  version: number
+  persona: PersonaId
+  hint: string | null
+  model: string
+  prompt: LLMMessage[]
+  createdAt: Date
+}
+
+// Recommendation with every generated version, newest first
+export interface RecommendationHistory extends LLMRecommendation {
+  id: string
+  version: number // Pinned version
+  versions: RecommendationVersion[]
+}
+
 // Error types
 export class CrawlerError extends Error {
   constructor(
@@ -109,10 +1038,20 @@ export class HeuristicError extends Error {
   }
 }
 
+export class ThemeArchiveError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_ARCHIVE' | 'NOT_A_THEME' | 'TOO_LARGE'
+  ) {
+    super(message)
+    this.name = 'ThemeArchiveError'
+  }
+}
+
 export class LLMError extends Error {
   constructor(
     message: string,
-    public readonly code: 'API_ERROR' | 'PARSING_ERROR' | 'RATE_LIMIT',
+    public readonly code: 'API_ERROR' | 'PARSING_ERROR' | 'RATE_LIMIT' | 'BUDGET_EXCEEDED',
     public readonly retryable = false
   ) {
     super(message)
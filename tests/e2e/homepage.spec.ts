@@ -57,7 +57,7 @@ test.describe('Homepage E2E Tests', () => {
     await expect(page.getByText('Quick Audit')).toBeVisible()
     
     // Check that buttons are still accessible on mobile
-    const quickAuditButton = page.getByRole('button', { name: /coming soon.*quick/i })
+    const quickAuditButton = page.getByRole('button', { name: 'Start audit' })
     await expect(quickAuditButton).toBeVisible()
   })
 